@@ -20,6 +20,7 @@ export const RULE_FIELDS = {
   GET: (fieldKey: string) => `${API_VERSION}/rule-fields/${fieldKey}`,
   UPDATE: (fieldKey: string) => `${API_VERSION}/rule-fields/${fieldKey}`,
   DELETE: (fieldKey: string) => `${API_VERSION}/rule-fields/${fieldKey}`,
+  IMPACT: (fieldKey: string) => `${API_VERSION}/rule-fields/${fieldKey}/impact`,
   METADATA: {
     LIST: (fieldKey: string) => `${API_VERSION}/rule-fields/${fieldKey}/metadata`,
     SET: (fieldKey: string) => `${API_VERSION}/rule-fields/${fieldKey}/metadata`,
@@ -37,6 +38,7 @@ export const RULES = {
   GET: (ruleId: string) => `${API_VERSION}/rules/${ruleId}`,
   SUMMARY: (ruleId: string) => `${API_VERSION}/rules/${ruleId}/summary`,
   SIMULATE: `${API_VERSION}/rules/simulate`,
+  BACKTEST: `${API_VERSION}/rules/backtest`,
   UPDATE: (ruleId: string) => `${API_VERSION}/rules/${ruleId}`,
   DELETE: (ruleId: string) => `${API_VERSION}/rules/${ruleId}`,
   SUBMIT: (ruleId: string) => `${API_VERSION}/rules/${ruleId}/submit`,
@@ -60,6 +62,12 @@ export const RULE_VERSIONS = {
   SUBMIT: (ruleVersionId: string) => `${API_VERSION}/rule-versions/${ruleVersionId}/submit`,
   APPROVE: (ruleVersionId: string) => `${API_VERSION}/rule-versions/${ruleVersionId}/approve`,
   REJECT: (ruleVersionId: string) => `${API_VERSION}/rule-versions/${ruleVersionId}/reject`,
+  TEST_CASES: {
+    LIST: (ruleVersionId: string) => `${API_VERSION}/rule-versions/${ruleVersionId}/test-cases`,
+    CREATE: (ruleVersionId: string) => `${API_VERSION}/rule-versions/${ruleVersionId}/test-cases`,
+    DELETE: (ruleVersionId: string, testCaseId: string) =>
+      `${API_VERSION}/rule-versions/${ruleVersionId}/test-cases/${testCaseId}`,
+  },
 } as const;
 
 /**
@@ -77,6 +85,11 @@ export const RULESET_VERSIONS = {
     `${API_VERSION}/ruleset-versions/${rulesetVersionId}/reject`,
   ACTIVATE: (rulesetVersionId: string) =>
     `${API_VERSION}/ruleset-versions/${rulesetVersionId}/activate`,
+  SCHEDULE: (rulesetVersionId: string) =>
+    `${API_VERSION}/ruleset-versions/${rulesetVersionId}/schedule`,
+  ROLLBACK: (rulesetVersionId: string) =>
+    `${API_VERSION}/ruleset-versions/${rulesetVersionId}/rollback`,
+  SCHEDULED: `${API_VERSION}/ruleset-versions/scheduled`,
   COMPILE: (rulesetVersionId: string) =>
     `${API_VERSION}/ruleset-versions/${rulesetVersionId}/compile`,
 } as const;
@@ -94,6 +107,10 @@ export const RULESETS = {
   APPROVE: (rulesetId: string) => `${API_VERSION}/rulesets/${rulesetId}/approve`,
   REJECT: (rulesetId: string) => `${API_VERSION}/rulesets/${rulesetId}/reject`,
   COMPILE: (rulesetId: string) => `${API_VERSION}/rulesets/${rulesetId}/compile`,
+  PROMOTE: (rulesetId: string) => `${API_VERSION}/rulesets/${rulesetId}/promote`,
+  PROMOTION_PREVIEW: (rulesetId: string) =>
+    `${API_VERSION}/rulesets/${rulesetId}/promotion-preview`,
+  PROMOTIONS: (rulesetId: string) => `${API_VERSION}/rulesets/${rulesetId}/promotions`,
   VERSIONS: {
     LIST: (rulesetId: string) => `${API_VERSION}/rulesets/${rulesetId}/versions`,
   },
@@ -121,6 +138,8 @@ export const APPROVALS = {
 export const AUDIT_LOGS = {
   LIST: `${API_VERSION}/audit-log`,
   GET: (auditId: string) => `${API_VERSION}/audit-log/${auditId}`,
+  REVEAL: `${API_VERSION}/audit-log/reveals`,
+  EXPORTS: `${API_VERSION}/audit-log/exports`,
 } as const;
 
 /**
@@ -171,6 +190,17 @@ export const NOTES = {
   GET: (txnId: string, noteId: string) => `${API_VERSION}/transactions/${txnId}/notes/${noteId}`,
   UPDATE: (txnId: string, noteId: string) => `${API_VERSION}/transactions/${txnId}/notes/${noteId}`,
   DELETE: (txnId: string, noteId: string) => `${API_VERSION}/transactions/${txnId}/notes/${noteId}`,
+  MENTIONS: `${API_VERSION}/notes/mentions`,
+  ATTACHMENTS: {
+    UPLOAD: (txnId: string, noteId: string) =>
+      `${API_VERSION}/transactions/${txnId}/notes/${noteId}/attachments`,
+    GET: (txnId: string, noteId: string, attachmentId: string) =>
+      `${API_VERSION}/transactions/${txnId}/notes/${noteId}/attachments/${attachmentId}`,
+    CONTENT: (txnId: string, noteId: string, attachmentId: string) =>
+      `${API_VERSION}/transactions/${txnId}/notes/${noteId}/attachments/${attachmentId}/content`,
+    DELETE: (txnId: string, noteId: string, attachmentId: string) =>
+      `${API_VERSION}/transactions/${txnId}/notes/${noteId}/attachments/${attachmentId}`,
+  },
 } as const;
 
 /**
@@ -181,6 +211,32 @@ export const WORKLIST = {
   STATS: `${API_VERSION}/worklist/stats`,
   UNASSIGNED: `${API_VERSION}/worklist/unassigned`,
   CLAIM: `${API_VERSION}/worklist/claim`,
+  EVENTS: `${API_VERSION}/worklist/events`,
+  SLA_POLICY: `${API_VERSION}/worklist/sla-policy`,
+  TEAM: `${API_VERSION}/worklist/team`,
+} as const;
+
+/**
+ * Saved view endpoints
+ */
+export const SAVED_VIEWS = {
+  LIST: `${API_VERSION}/saved-views`,
+  CREATE: `${API_VERSION}/saved-views`,
+  UPDATE: (viewId: string) => `${API_VERSION}/saved-views/${viewId}`,
+  DELETE: (viewId: string) => `${API_VERSION}/saved-views/${viewId}`,
+  PIN: (viewId: string) => `${API_VERSION}/saved-views/${viewId}/pin`,
+  COUNTS: `${API_VERSION}/saved-views/counts`,
+} as const;
+
+/**
+ * In-app notification endpoints, scoped to the current user
+ */
+export const NOTIFICATIONS = {
+  LIST: `${API_VERSION}/notifications`,
+  MARK_READ: (notificationId: string) => `${API_VERSION}/notifications/${notificationId}/read`,
+  MARK_ALL_READ: `${API_VERSION}/notifications/read-all`,
+  PREFERENCES: `${API_VERSION}/notifications/preferences`,
+  EVENTS: `${API_VERSION}/notifications/events`,
 } as const;
 
 /**
@@ -254,6 +310,9 @@ export const OPS_ANALYST = {
     CREATE: `${API_VERSION}/ops-agent/rule-drafts`,
     EXPORT: (draftId: string) => `${API_VERSION}/ops-agent/rule-drafts/${draftId}/export`,
   },
+  ANALYTICS: {
+    RECOMMENDATION_OUTCOMES: `${API_VERSION}/ops-agent/analytics/recommendation-outcomes`,
+  },
 } as const;
 
 /**
@@ -119,31 +119,41 @@ function getSessionToken(): string | null {
   return localToken != null && localToken !== "" ? localToken : null;
 }
 
+/**
+ * Absolute URL for paths served by the transaction management or ops analyst
+ * services, or null for paths served from the main API base URL
+ */
+function resolveServiceUrl(url: string): string | null {
+  if (/^https?:\/\//i.test(url)) return null;
+
+  const txApiRoot = resolveTransactionApiRoot();
+  if (txApiRoot != null && shouldRouteToTransactionApi(url)) {
+    return `${txApiRoot}${url}`;
+  }
+
+  const opsApiRoot = resolveOpsAnalystApiRoot();
+  if (opsApiRoot != null && shouldRouteToOpsAnalystApi(url)) {
+    return `${opsApiRoot}${url}`;
+  }
+  return null;
+}
+
+function getRequestToken(): Promise<string | null> {
+  return isAuth0Enabled() ? getAccessToken() : Promise.resolve(getSessionToken());
+}
+
 /**
  * Request interceptor - attach auth token
  */
 httpClient.interceptors.request.use(
   async (config: InternalAxiosRequestConfig) => {
-    if (typeof config.url === "string" && !/^https?:\/\//i.test(config.url)) {
-      const txApiRoot = resolveTransactionApiRoot();
-      if (txApiRoot != null && shouldRouteToTransactionApi(config.url)) {
-        config.baseURL = undefined;
-        config.url = `${txApiRoot}${config.url}`;
-      }
-
-      const opsApiRoot = resolveOpsAnalystApiRoot();
-      if (opsApiRoot != null && shouldRouteToOpsAnalystApi(config.url)) {
-        config.baseURL = undefined;
-        config.url = `${opsApiRoot}${config.url}`;
-      }
+    const serviceUrl = typeof config.url === "string" ? resolveServiceUrl(config.url) : null;
+    if (serviceUrl != null) {
+      config.baseURL = undefined;
+      config.url = serviceUrl;
     }
 
-    if (isAuth0Enabled()) {
-      const token = await getAccessToken();
-      return applyAuthHeader(config, token);
-    }
-
-    return applyAuthHeader(config, getSessionToken());
+    return applyAuthHeader(config, await getRequestToken());
   },
   (error) => {
     const err = error instanceof Error ? error : new Error(String(error));
@@ -253,4 +263,29 @@ export async function del<T>(url: string, config?: AxiosRequestConfig): Promise<
   return request<T>({ ...config, method: "DELETE", url });
 }
 
+/**
+ * Opens a server-sent event stream. Axios cannot stream response bodies in the
+ * browser, so this uses fetch with the same service routing and auth header.
+ */
+export async function openEventStream(
+  url: string,
+  signal: AbortSignal
+): Promise<ReadableStream<Uint8Array>> {
+  const token = await getRequestToken();
+  const response = await fetch(resolveServiceUrl(url) ?? `${resolvedBaseUrl}${url}`, {
+    headers: {
+      Accept: "text/event-stream",
+      ...(token == null || token === "" ? {} : { Authorization: `Bearer ${token}` }),
+    },
+    signal,
+  });
+
+  if (!response.ok || response.body == null) {
+    throw Object.assign(new Error(`Event stream unavailable (${response.status})`), {
+      status: response.status,
+    });
+  }
+  return response.body;
+}
+
 export default httpClient;
@@ -8,9 +8,12 @@ import {
   Rule,
   RuleVersion,
   RuleSet,
+  RuleSetPromotion,
+  RuleSetWithRules,
   Approval,
   PersistedConditionTree,
   CompiledAST,
+  RuleTestCaseExpectation,
 } from "../types/domain";
 import {
   RuleType,
@@ -22,6 +25,7 @@ import {
   RuleSetStatus,
   RulesetEnvironment,
 } from "../types/enums";
+import type { ResolutionCode } from "../types/review";
 
 // ============================================================================
 // Generic API Types
@@ -226,6 +230,57 @@ export interface RuleSimulateResponse {
   simulation_id?: string | null;
 }
 
+/**
+ * Request to backtest a condition tree against stored transactions
+ */
+export interface RuleBacktestRequest {
+  rule_type?: string;
+  condition_tree: PersistedConditionTree;
+  scope?: Record<string, unknown>;
+  /** Inclusive ISO date (YYYY-MM-DD) */
+  from_date: string;
+  /** Inclusive ISO date (YYYY-MM-DD) */
+  to_date: string;
+  /** Maximum number of sample hits to return */
+  sample_limit?: number;
+}
+
+/**
+ * Rule matches split by analyst outcome. Transactions resolved as
+ * FRAUD_CONFIRMED are positives and FALSE_POSITIVE are negatives; anything
+ * else (unreviewed or other resolution codes) is unlabelled.
+ */
+export interface RuleBacktestConfusionMatrix {
+  true_positives: number;
+  false_positives: number;
+  false_negatives: number;
+  true_negatives: number;
+  unlabelled_matches: number;
+  unlabelled_non_matches: number;
+}
+
+export interface RuleBacktestSampleHit {
+  transaction_id: string;
+  transaction_reference?: string | null;
+  transaction_date: string;
+  amount: number;
+  currency: string;
+  merchant_name?: string | null;
+  resolution_code: ResolutionCode | null;
+}
+
+export interface RuleBacktestResponse {
+  backtest_id: string;
+  from_date: string;
+  to_date: string;
+  /** Number of calendar days in the range */
+  days: number;
+  transactions_evaluated: number;
+  match_count: number;
+  confusion_matrix: RuleBacktestConfusionMatrix;
+  sample_hits: RuleBacktestSampleHit[];
+}
+
 /**
  * Request to create a new rule version
  */
@@ -240,6 +295,15 @@ export interface CreateRuleVersionRequest {
   } | null;
 }
 
+/**
+ * Request to save a test case against a rule version
+ */
+export interface CreateRuleTestCaseRequest {
+  name: string;
+  sample: Record<string, unknown>;
+  expected: RuleTestCaseExpectation;
+}
+
 // ============================================================================
 // RuleSet API Types
 // ============================================================================
@@ -305,6 +369,31 @@ export interface CompileRuleSetResponse {
   compiled_at: string;
 }
 
+/**
+ * Request to promote an ACTIVE ruleset into the next environment
+ */
+export interface PromoteRuleSetRequest {
+  target_environment: RulesetEnvironment;
+}
+
+/**
+ * Response from a promotion: the new DRAFT ruleset and its promotion record
+ */
+export interface PromoteRuleSetResponse {
+  promotion: RuleSetPromotion;
+  ruleset: RuleSet;
+}
+
+/**
+ * What a promotion would replace in the target environment
+ */
+export interface RuleSetPromotionPreviewResponse {
+  source: RuleSetWithRules;
+  target_environment: RulesetEnvironment;
+  /** Ruleset currently ACTIVE in the target environment, if any */
+  active_target: RuleSetWithRules | null;
+}
+
 // ============================================================================
 // Approval API Types
 // ============================================================================
@@ -366,6 +455,27 @@ export interface AuditLogFilters extends ListFilters {
   to_date?: string;
 }
 
+/**
+ * Request to reveal masked sensitive field values; recorded as a REVEAL audit entry
+ */
+export interface RevealSensitiveDataRequest {
+  entity_type: EntityType;
+  entity_id: string;
+  /** Sensitive fields whose values are revealed */
+  field_keys: string[];
+  /** Why the values are needed */
+  reason: string;
+}
+
+export interface RecordEvidenceExportRequest {
+  entity_type: EntityType;
+  entity_id: string;
+  /** Integrity hash of the exported package */
+  integrity_hash: string;
+  /** Sensitive fields whose values were masked in the package */
+  masked_field_keys: string[];
+}
+
 // ============================================================================
 // Validation Types
 // ============================================================================
@@ -544,10 +654,48 @@ export interface RuleSetVersionResponse {
   created_at: string;
   approved_by: string | null;
   approved_at: string | null;
+  /** Latest time this version became ACTIVE */
   activated_at: string | null;
+  /** Every time this version became ACTIVE, oldest first; a rollback adds one */
+  activations?: string[];
+  /** Time this version is queued to become ACTIVE, if scheduled */
+  scheduled_activation_at?: string | null;
+  /** User who scheduled the activation */
+  scheduled_by?: string | null;
   rule_versions: RuleVersionInRulesetResponse[];
 }
 
+/**
+ * Request to activate an approved ruleset version at a later time
+ */
+export interface ScheduleRuleSetActivationRequest {
+  /** ISO-8601 timestamp; must be in the future */
+  activate_at: string;
+}
+
+/**
+ * Upcoming activation, as listed for the scheduling calendar
+ */
+export interface ScheduledRuleSetActivation {
+  ruleset_version_id: string;
+  ruleset_id: string;
+  ruleset_name: string | null;
+  environment: RulesetEnvironment;
+  version: number;
+  activate_at: string;
+  scheduled_by: string;
+}
+
+/**
+ * Result of rolling back to the previously ACTIVE version
+ */
+export interface RollbackRuleSetVersionResponse {
+  /** Previously ACTIVE version, now ACTIVE again with its original approval */
+  activated: RuleSetVersionResponse;
+  /** Version that was ACTIVE before the rollback */
+  superseded: RuleSetVersionResponse;
+}
+
 export interface RuleVersionInRulesetResponse {
   rule_version_id: string;
   rule_id: string;
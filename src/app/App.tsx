@@ -50,6 +50,7 @@ import { CallbackPage } from "../pages/Callback";
 import { RuleFieldList } from "../resources/ruleFields/list";
 import { RuleFieldCreate } from "../resources/ruleFields/create";
 import { RuleFieldEdit } from "../resources/ruleFields/edit";
+import { FieldRegistryVersions } from "../resources/ruleFields/registry";
 
 // Resource Components - Rules
 import { RuleList } from "../resources/rules/list";
@@ -79,9 +80,12 @@ import { TransactionMetrics } from "../resources/transactions/metrics";
 import CasesList from "../resources/cases/list";
 import CasesShow from "../resources/cases/show";
 import CasesCreate from "../resources/cases/create";
+import TeamWorkloadDashboard from "../resources/team/workload";
 
 // Ops Analyst
 import OpsAnalystRecommendationList from "../resources/opsAnalyst/list";
+import OpsAnalystInvestigationShow from "../resources/opsAnalyst/investigation";
+import OpsAnalystQualityDashboard from "../resources/opsAnalyst/quality";
 
 function DefaultRoute(): JSX.Element {
   const { capabilities, isLoading } = usePermissions();
@@ -175,6 +179,7 @@ function AppContent(): JSX.Element {
                 <Route index element={<RuleFieldList />} />
                 <Route path="create" element={<RuleFieldCreate />} />
                 <Route path="edit/:id" element={<RuleFieldEdit />} />
+                <Route path="registry" element={<FieldRegistryVersions />} />
               </Route>
 
               {/* Rules Routes */}
@@ -223,6 +228,11 @@ function AppContent(): JSX.Element {
                 <Route path="show/:id" element={<CasesShow />} />
               </Route>
 
+              {/* Team Workload */}
+              <Route path="/team-workload">
+                <Route index element={<TeamWorkloadDashboard />} />
+              </Route>
+
               {/* Transaction Metrics */}
               <Route path="/transaction-metrics">
                 <Route index element={<TransactionMetrics />} />
@@ -231,6 +241,8 @@ function AppContent(): JSX.Element {
               {/* Ops Analyst Routes */}
               <Route path="/ops-analyst">
                 <Route path="recommendations" element={<OpsAnalystRecommendationList />} />
+                <Route path="investigations/:runId" element={<OpsAnalystInvestigationShow />} />
+                <Route path="quality" element={<OpsAnalystQualityDashboard />} />
               </Route>
 
               {/* Catch all */}
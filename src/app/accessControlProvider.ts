@@ -90,7 +90,12 @@ function getRequiredScope(res?: string, act?: string): string | null {
     }
   }
 
-  const OPS_RES = new Set(["ops-analyst-recommendations", "ops-analyst"]);
+  const OPS_RES = new Set([
+    "ops-analyst-recommendations",
+    "ops-analyst-investigations",
+    "ops-analyst-quality",
+    "ops-analyst",
+  ]);
   if (OPS_RES.has(r)) {
     if (["list", "show"].includes(a)) {
       return "ops_agent:read";
@@ -106,6 +111,10 @@ function getRequiredScope(res?: string, act?: string): string | null {
     }
   }
 
+  if (r === "team-workload" && ["list", "show"].includes(a)) {
+    return "supervise:reviews";
+  }
+
   return null;
 }
 
@@ -17,6 +17,8 @@ import {
   UnorderedListOutlined,
   ContainerOutlined,
   ExperimentOutlined,
+  FundOutlined,
+  TeamOutlined,
 } from "@ant-design/icons";
 
 /**
@@ -127,6 +129,15 @@ export const resources: ResourceProps[] = [
       group: "Fraud Operations",
     },
   },
+  {
+    name: "team-workload",
+    list: "/team-workload",
+    meta: {
+      label: "Team Workload",
+      icon: <TeamOutlined />,
+      group: "Fraud Operations",
+    },
+  },
   {
     name: "transaction-metrics",
     list: "/transaction-metrics",
@@ -145,6 +156,25 @@ export const resources: ResourceProps[] = [
       group: "Fraud Operations",
     },
   },
+  {
+    name: "ops-analyst-quality",
+    list: "/ops-analyst/quality",
+    meta: {
+      label: "AI Quality",
+      icon: <FundOutlined />,
+      group: "Fraud Operations",
+    },
+  },
+  {
+    name: "ops-analyst-investigations",
+    show: "/ops-analyst/investigations/:id",
+    meta: {
+      label: "Investigation Runs",
+      icon: <ExperimentOutlined />,
+      group: "Fraud Operations",
+      hide: true,
+    },
+  },
 ];
 
 export default resources;
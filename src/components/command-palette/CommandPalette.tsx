@@ -20,10 +20,13 @@ import {
   ContainerOutlined,
   BarChartOutlined,
   DatabaseOutlined,
+  FilterOutlined,
 } from "@ant-design/icons";
 import { useNavigate } from "react-router";
 import { useTheme } from "../../theme";
 import { getCommandPaletteRoutes } from "../../routes/config";
+import { useSavedViews } from "../../hooks/useSavedViews";
+import { buildSavedViewPath, describeSavedViewFilters } from "../../shared/utils/savedViews";
 import "./CommandPalette.css";
 
 /**
@@ -62,6 +65,39 @@ function getIconForRoute(title: string): ReactNode {
   return <SearchOutlined />;
 }
 
+/**
+ * One palette group; the tag shows the route without its query string
+ */
+function CommandGroup({
+  heading,
+  items,
+  onSelect,
+}: {
+  heading: string;
+  items: CommandItem[];
+  onSelect: (value: string) => void;
+}): JSX.Element | null {
+  if (items.length === 0) return null;
+  return (
+    <Command.Group heading={heading}>
+      {items.map((command) => (
+        <Command.Item
+          key={command.id}
+          value={command.id}
+          onSelect={onSelect}
+          className="command-item"
+        >
+          <div className="command-item-content">
+            <span className="command-icon">{command.icon}</span>
+            <span className="command-title">{command.title}</span>
+          </div>
+          <Tag className="command-tag">{command.path.split("?")[0]}</Tag>
+        </Command.Item>
+      ))}
+    </Command.Group>
+  );
+}
+
 /**
  * Command Palette Component
  */
@@ -82,29 +118,51 @@ export function CommandPalette(): JSX.Element {
     }));
   }, []);
 
-  // Filter commands based on search
-  const filteredCommands = useMemo(() => {
-    if (search.trim() === "") return commands;
+  // Saved views are only fetched while the palette is open
+  const { views } = useSavedViews({ enabled: isCommandPaletteOpen });
+  const viewCommands = useMemo<CommandItem[]>(
+    () =>
+      views.map((view) => ({
+        id: `saved-view:${view.id}`,
+        title: view.name,
+        path: buildSavedViewPath(view),
+        icon: <FilterOutlined />,
+        keywords: [view.target, ...describeSavedViewFilters(view)].map((k) => k.toLowerCase()),
+      })),
+    [views]
+  );
 
-    const searchLower = search.toLowerCase();
-    return commands.filter((cmd) => {
-      const titleMatch = cmd.title.toLowerCase().includes(searchLower);
-      const keywordMatch = cmd.keywords.some((k) => k.includes(searchLower));
-      return titleMatch || keywordMatch;
-    });
-  }, [commands, search]);
+  // Filter commands based on search
+  const filterCommands = useCallback(
+    (items: CommandItem[]) => {
+      if (search.trim() === "") return items;
+
+      const searchLower = search.toLowerCase();
+      return items.filter((cmd) => {
+        const titleMatch = cmd.title.toLowerCase().includes(searchLower);
+        const keywordMatch = cmd.keywords.some((k) => k.includes(searchLower));
+        return titleMatch || keywordMatch;
+      });
+    },
+    [search]
+  );
+  const filteredCommands = useMemo(() => filterCommands(commands), [commands, filterCommands]);
+  const filteredViewCommands = useMemo(
+    () => filterCommands(viewCommands),
+    [viewCommands, filterCommands]
+  );
 
   // Handle command selection
   const handleSelect = useCallback(
     (value: string) => {
-      const command = commands.find((cmd) => cmd.id === value);
+      const command = [...commands, ...viewCommands].find((cmd) => cmd.id === value);
       if (command !== undefined) {
         void navigate(command.path);
         closeCommandPalette();
         setSearch("");
       }
     },
-    [commands, navigate, closeCommandPalette]
+    [commands, viewCommands, navigate, closeCommandPalette]
   );
 
   // Handle keyboard shortcut
@@ -158,24 +216,12 @@ export function CommandPalette(): JSX.Element {
             No results found for &quot;{search}&quot;
           </Command.Empty>
 
-          {filteredCommands.length > 0 && (
-            <Command.Group heading="Navigation">
-              {filteredCommands.map((command) => (
-                <Command.Item
-                  key={command.id}
-                  value={command.id}
-                  onSelect={handleSelect}
-                  className="command-item"
-                >
-                  <div className="command-item-content">
-                    <span className="command-icon">{command.icon}</span>
-                    <span className="command-title">{command.title}</span>
-                  </div>
-                  <Tag className="command-tag">{command.path}</Tag>
-                </Command.Item>
-              ))}
-            </Command.Group>
-          )}
+          <CommandGroup heading="Navigation" items={filteredCommands} onSelect={handleSelect} />
+          <CommandGroup
+            heading="Saved Views"
+            items={filteredViewCommands}
+            onSelect={handleSelect}
+          />
         </Command.List>
         <div className="command-footer">
           <div className="command-footer-item">
@@ -0,0 +1,191 @@
+/**
+ * Field Impact Panel Component
+ *
+ * Lists the rule versions that reference a field, the rulesets they are
+ * deployed in, and what a proposed change to the field would break.
+ */
+
+import type { FC, ReactElement } from "react";
+import { Link } from "react-router";
+import { Alert, Button, Card, Space, Table, Tag, Typography } from "antd";
+import {
+  isProtectedRuleset,
+  type FieldImpactAssessment,
+  type FieldImpactRow,
+} from "../../shared/utils/fieldImpact";
+import type { FieldImpactRuleset } from "../../types/fieldDefinitions";
+import { getStatusColor } from "../../theme/tokens";
+
+const { Text } = Typography;
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function rulesetLabel(ruleset: FieldImpactRuleset): string {
+  return `${ruleset.name ?? ruleset.ruleset_id} · ${ruleset.environment} ${ruleset.status}`;
+}
+
+function ImpactSummary({
+  assessment,
+}: Readonly<{ assessment: FieldImpactAssessment }>): ReactElement {
+  const broken = assessment.rows.filter((row) => row.breaks.length > 0).length;
+
+  if (assessment.blocked) {
+    return (
+      <Alert
+        type="error"
+        showIcon
+        message={`Change would break ${plural(assessment.blockingRulesets.length, "ACTIVE PROD ruleset")}`}
+        description={
+          <Space direction="vertical" size={0}>
+            {assessment.blockingRulesets.map((ruleset) => (
+              <Link key={ruleset.ruleset_id} to={`/rulesets/show/${ruleset.ruleset_id}`}>
+                {ruleset.name ?? ruleset.ruleset_id}
+              </Link>
+            ))}
+            <Text type="secondary">
+              Submission is blocked until these rulesets stop using the field.
+            </Text>
+          </Space>
+        }
+      />
+    );
+  }
+  if (broken > 0) {
+    return (
+      <Alert
+        type="warning"
+        showIcon
+        message={`Change would break ${plural(broken, "rule version")}`}
+        description="None of them is in an ACTIVE PROD ruleset, so the change can still be submitted."
+      />
+    );
+  }
+  if (assessment.rows.length === 0) {
+    return <Alert type="info" showIcon message="No rules reference this field" />;
+  }
+  return (
+    <Alert
+      type="success"
+      showIcon
+      message={`${plural(assessment.rows.length, "rule version")} reference this field; none would break`}
+    />
+  );
+}
+
+const columns = [
+  {
+    title: "Rule",
+    key: "rule",
+    render: (_: unknown, row: FieldImpactRow) => (
+      <Link to={`/rules/show/${row.reference.rule_id}`}>{row.reference.rule_name}</Link>
+    ),
+  },
+  {
+    title: "Version",
+    key: "version",
+    width: 150,
+    render: (_: unknown, row: FieldImpactRow) => (
+      <Space size={4}>
+        <Tag>v{row.reference.version}</Tag>
+        <Tag color={getStatusColor(row.reference.status)}>{row.reference.status}</Tag>
+      </Space>
+    ),
+  },
+  {
+    title: "Usage",
+    key: "usage",
+    render: (_: unknown, row: FieldImpactRow) => (
+      <Space wrap size={4}>
+        {row.reference.operators.map((op) => (
+          <Tag key={op}>{op}</Tag>
+        ))}
+        {row.reference.velocity_group_by && <Tag color="purple">Velocity group-by</Tag>}
+      </Space>
+    ),
+  },
+  {
+    title: "Rulesets",
+    key: "rulesets",
+    render: (_: unknown, row: FieldImpactRow) =>
+      row.reference.rulesets.length === 0 ? (
+        <Text type="secondary">None</Text>
+      ) : (
+        <Space wrap size={4}>
+          {row.reference.rulesets.map((ruleset) => (
+            <Tag key={ruleset.ruleset_id} color={isProtectedRuleset(ruleset) ? "red" : undefined}>
+              {rulesetLabel(ruleset)}
+            </Tag>
+          ))}
+        </Space>
+      ),
+  },
+  {
+    title: "Impact",
+    key: "impact",
+    render: (_: unknown, row: FieldImpactRow) =>
+      row.breaks.length === 0 ? (
+        <Text type="secondary">Unaffected</Text>
+      ) : (
+        <Space direction="vertical" size={0}>
+          {row.breaks.map((reason) => (
+            <Text key={reason} type="danger">
+              {reason}
+            </Text>
+          ))}
+        </Space>
+      ),
+  },
+];
+
+export interface FieldImpactPanelProps {
+  assessment: FieldImpactAssessment | null;
+  isLoading: boolean;
+  error: Error | null;
+  /** Reloads the impact after an error */
+  onRetry?: () => void;
+}
+
+export const FieldImpactPanel: FC<FieldImpactPanelProps> = ({
+  assessment,
+  isLoading,
+  error,
+  onRetry,
+}) => (
+  <Card title="Impact Analysis" size="small" variant="outlined" loading={isLoading}>
+    {error != null ? (
+      <Alert
+        type="warning"
+        showIcon
+        message="Impact analysis unavailable"
+        description={error.message}
+        action={
+          onRetry == null ? undefined : (
+            <Button size="small" onClick={onRetry}>
+              Retry
+            </Button>
+          )
+        }
+      />
+    ) : (
+      assessment != null && (
+        <Space direction="vertical" size="small" className="full-width">
+          <ImpactSummary assessment={assessment} />
+          {assessment.rows.length > 0 && (
+            <Table<FieldImpactRow>
+              size="small"
+              rowKey={(row) => row.reference.rule_version_id}
+              columns={columns}
+              dataSource={assessment.rows}
+              pagination={false}
+              scroll={{ x: 720 }}
+            />
+          )}
+        </Space>
+      )
+    )}
+  </Card>
+);
+
+export default FieldImpactPanel;
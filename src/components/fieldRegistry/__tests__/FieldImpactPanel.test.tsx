@@ -0,0 +1,78 @@
+/**
+ * Tests for FieldImpactPanel component
+ */
+
+import { describe, it, expect } from "vitest";
+import { render, screen } from "@/test/utils";
+import { FieldImpactPanel } from "../FieldImpactPanel";
+import { assessFieldChange } from "@/shared/utils/fieldImpact";
+import type { FieldImpactResponse } from "@/types/fieldDefinitions";
+import { Operator, RuleSetStatus, RuleStatus, RulesetEnvironment } from "@/types/enums";
+
+const impact: FieldImpactResponse = {
+  field_key: "IS_CROSS_BORDER",
+  generated_at: "2024-01-01T00:00:00Z",
+  references: [
+    {
+      rule_id: "rule_001",
+      rule_name: "High Amount Block - Cross Border",
+      rule_version_id: "rv_001_v3",
+      version: 3,
+      status: RuleStatus.APPROVED,
+      operators: [Operator.EQ],
+      velocity_group_by: false,
+      rulesets: [
+        {
+          ruleset_id: "rs_001",
+          name: "Production Auth",
+          environment: RulesetEnvironment.PROD,
+          status: RuleSetStatus.ACTIVE,
+        },
+      ],
+    },
+  ],
+};
+
+describe("FieldImpactPanel", () => {
+  it("explains that a change breaking an ACTIVE PROD ruleset is blocked", () => {
+    render(
+      <FieldImpactPanel
+        assessment={assessFieldChange(impact, { is_active: false })}
+        isLoading={false}
+        error={null}
+      />
+    );
+
+    expect(screen.getByText("Change would break 1 ACTIVE PROD ruleset")).toBeInTheDocument();
+    expect(screen.getByText(/Submission is blocked/)).toBeInTheDocument();
+    expect(
+      screen.getByRole("link", { name: "High Amount Block - Cross Border" })
+    ).toBeInTheDocument();
+    expect(screen.getByText("Field would be deactivated")).toBeInTheDocument();
+  });
+
+  it("reports compatible changes and unreferenced fields", () => {
+    const { rerender } = render(
+      <FieldImpactPanel assessment={assessFieldChange(impact, {})} isLoading={false} error={null} />
+    );
+    expect(
+      screen.getByText("1 rule version reference this field; none would break")
+    ).toBeInTheDocument();
+    expect(screen.getByText("Unaffected")).toBeInTheDocument();
+
+    rerender(
+      <FieldImpactPanel
+        assessment={assessFieldChange({ ...impact, references: [] }, { is_active: false })}
+        isLoading={false}
+        error={null}
+      />
+    );
+    expect(screen.getByText("No rules reference this field")).toBeInTheDocument();
+  });
+
+  it("shows when the analysis could not be loaded", () => {
+    render(<FieldImpactPanel assessment={null} isLoading={false} error={new Error("boom")} />);
+
+    expect(screen.getByText("Impact analysis unavailable")).toBeInTheDocument();
+  });
+});
@@ -4,3 +4,5 @@
 
 export { FieldRegistryStatusWidget } from "./StatusWidget";
 export type { FieldRegistryStatusWidgetProps } from "./StatusWidget";
+export { FieldImpactPanel } from "./FieldImpactPanel";
+export type { FieldImpactPanelProps } from "./FieldImpactPanel";
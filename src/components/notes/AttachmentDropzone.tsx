@@ -0,0 +1,108 @@
+/**
+ * AttachmentDropzone Component
+ *
+ * Drag-and-drop picker for files to attach to a note. Files are only queued
+ * here; they are uploaded once the note itself has been saved.
+ */
+
+import React, { useRef } from "react";
+import { Button, Space, Typography, Upload, message } from "antd";
+import { DeleteOutlined, InboxOutlined, PaperClipOutlined } from "@ant-design/icons";
+import {
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENTS_PER_NOTE,
+  MAX_ATTACHMENT_SIZE_BYTES,
+  formatFileSize,
+  validateAttachmentFile,
+} from "../../shared/utils/noteAttachments";
+import "./note-attachments.css";
+
+const { Text } = Typography;
+
+interface AttachmentDropzoneProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  /** Attachments the note already has, counted against the per-note limit */
+  existingCount?: number;
+  disabled?: boolean;
+}
+
+/**
+ * Queues files for upload, rejecting those over the size, type or count limits
+ */
+export function AttachmentDropzone({
+  files,
+  onChange,
+  existingCount = 0,
+  disabled = false,
+}: AttachmentDropzoneProps): React.ReactElement {
+  // Files accepted so far from the drop being processed
+  const acceptedRef = useRef<File[]>([]);
+
+  // Called once per file of a drop; `batch` is every file in that drop
+  const handleBeforeUpload = (file: File, batch: File[]): false => {
+    const accepted = acceptedRef.current;
+    const rejection = validateAttachmentFile(file, existingCount + files.length + accepted.length);
+    if (rejection == null) {
+      accepted.push(file);
+    } else {
+      void message.error(rejection);
+    }
+    if (file === batch[batch.length - 1]) {
+      acceptedRef.current = [];
+      if (accepted.length > 0) onChange([...files, ...accepted]);
+    }
+    // Never upload from the picker itself
+    return false;
+  };
+
+  return (
+    <Space direction="vertical" size="small" className="note-attachment-dropzone">
+      <Upload.Dragger
+        multiple
+        accept={ATTACHMENT_ACCEPT}
+        beforeUpload={handleBeforeUpload}
+        showUploadList={false}
+        disabled={disabled}
+      >
+        <p className="ant-upload-drag-icon">
+          <InboxOutlined />
+        </p>
+        <p className="ant-upload-text">Drop files here or click to attach</p>
+        <p className="ant-upload-hint">
+          Images, PDF or text, up to {formatFileSize(MAX_ATTACHMENT_SIZE_BYTES)} each and{" "}
+          {MAX_ATTACHMENTS_PER_NOTE} per note
+        </p>
+      </Upload.Dragger>
+
+      {files.length > 0 && (
+        <ul className="note-attachment-list" aria-label="Files to upload">
+          {files.map((file, index) => (
+            <li
+              key={`${file.name}-${file.size}-${file.lastModified}`}
+              className="note-attachment-item"
+            >
+              <Space size="small">
+                <PaperClipOutlined />
+                <Text className="note-attachment-name">{file.name}</Text>
+                <Text type="secondary" className="note-attachment-size">
+                  {formatFileSize(file.size)}
+                </Text>
+                <Button
+                  type="text"
+                  size="small"
+                  danger
+                  icon={<DeleteOutlined />}
+                  aria-label={`Remove ${file.name}`}
+                  onClick={() => onChange(files.filter((_, i) => i !== index))}
+                />
+              </Space>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Space>
+  );
+}
+
+export default AttachmentDropzone;
@@ -4,14 +4,18 @@
  * Modal for editing an existing analyst note.
  */
 
-import React, { useEffect } from "react";
+import React, { useEffect, useState } from "react";
 import { Modal, Form, Select, Input, Space, Typography } from "antd";
 import {
   NOTE_TYPE_CONFIG,
   type NoteType,
   type AnalystNote,
+  type NoteAttachmentChanges,
   type NoteUpdateRequest,
 } from "../../types/notes";
+import { NOTE_FORMATTING_HINT } from "../../shared/utils/noteContent";
+import AttachmentDropzone from "./AttachmentDropzone";
+import NoteAttachmentList from "./NoteAttachmentList";
 import "./notes.css";
 
 interface EditNoteFormValues extends NoteUpdateRequest {
@@ -25,7 +29,7 @@ interface EditNoteModalProps {
   open: boolean;
   note: AnalystNote | null;
   onCancel: () => void;
-  onSubmit: (noteId: string, note: NoteUpdateRequest) => void;
+  onSubmit: (noteId: string, note: NoteUpdateRequest, attachments: NoteAttachmentChanges) => void;
   loading?: boolean;
 }
 
@@ -54,6 +58,18 @@ export function EditNoteModal({
   loading = false,
 }: EditNoteModalProps): React.ReactElement {
   const [form] = Form.useForm<EditNoteFormValues>();
+  const [added, setAdded] = useState<File[]>([]);
+  const [removedIds, setRemovedIds] = useState<string[]>([]);
+
+  const keptAttachments = (note?.attachments ?? []).filter(
+    (attachment) =>
+      attachment.attachment_id == null || !removedIds.includes(attachment.attachment_id)
+  );
+
+  const resetAttachments = (): void => {
+    setAdded([]);
+    setRemovedIds([]);
+  };
 
   useEffect(() => {
     if (open && note != null) {
@@ -67,16 +83,22 @@ export function EditNoteModal({
   const handleOk = (): void => {
     if (note == null) return;
     void form.validateFields().then((values) => {
-      onSubmit(note.id, {
-        note_type: values.note_type,
-        note_content: values.note_content,
-      });
+      onSubmit(
+        note.id,
+        {
+          note_type: values.note_type,
+          note_content: values.note_content,
+        },
+        { added, removedIds }
+      );
       form.resetFields();
+      resetAttachments();
     });
   };
 
   const handleCancel = (): void => {
     form.resetFields();
+    resetAttachments();
     onCancel();
   };
 
@@ -114,6 +136,7 @@ export function EditNoteModal({
         <Form.Item
           name="note_content"
           label="Note Content"
+          extra={NOTE_FORMATTING_HINT}
           rules={[
             { required: true, message: "Please enter note content" },
             { min: 5, message: "Note must be at least 5 characters" },
@@ -122,6 +145,23 @@ export function EditNoteModal({
           <Input.TextArea rows={4} placeholder="Update your note..." maxLength={2000} showCount />
         </Form.Item>
 
+        <Form.Item label="Attachments">
+          {note != null && (
+            <NoteAttachmentList
+              transactionId={note.transaction_id}
+              noteId={note.id}
+              attachments={keptAttachments}
+              onRemove={(attachmentId) => setRemovedIds((prev) => [...prev, attachmentId])}
+            />
+          )}
+          <AttachmentDropzone
+            files={added}
+            onChange={setAdded}
+            existingCount={keptAttachments.length}
+            disabled={loading}
+          />
+        </Form.Item>
+
         <Text type="secondary" className="note-private-text">
           Private/system flags cannot be changed after creation.
         </Text>
@@ -0,0 +1,185 @@
+/**
+ * NoteAttachmentList Component
+ *
+ * Lists a note's attachments with their virus-scan status. Clean images and
+ * PDFs open in an inline preview; clean files of any type can be downloaded.
+ */
+
+import React, { useState } from "react";
+import { Button, Modal, Space, Tag, Tooltip, Typography, message } from "antd";
+import {
+  DeleteOutlined,
+  DownloadOutlined,
+  EyeOutlined,
+  PaperClipOutlined,
+} from "@ant-design/icons";
+import { get } from "../../api/httpClient";
+import { NOTES } from "../../api/endpoints";
+import { downloadBlob } from "../../shared/utils/download";
+import {
+  formatFileSize,
+  getAttachmentPreviewKind,
+  isAttachmentAvailable,
+  type AttachmentPreviewKind,
+} from "../../shared/utils/noteAttachments";
+import { ATTACHMENT_SCAN_STATUS_CONFIG, type NoteAttachment } from "../../types/notes";
+import "./note-attachments.css";
+
+const { Text } = Typography;
+
+interface NoteAttachmentListProps {
+  transactionId: string;
+  noteId: string;
+  attachments: NoteAttachment[];
+  /** Shows a remove button on attachments that have an id */
+  onRemove?: (attachmentId: string) => void;
+}
+
+interface Preview {
+  name: string;
+  kind: AttachmentPreviewKind;
+  url: string;
+}
+
+/**
+ * Attachments of a saved note
+ */
+export function NoteAttachmentList({
+  transactionId,
+  noteId,
+  attachments,
+  onRemove,
+}: NoteAttachmentListProps): React.ReactElement | null {
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+
+  if (attachments.length === 0) return null;
+
+  const fetchContent = async (attachmentId: string): Promise<Blob | null> => {
+    setLoadingId(attachmentId);
+    try {
+      return await get<Blob>(NOTES.ATTACHMENTS.CONTENT(transactionId, noteId, attachmentId), {
+        responseType: "blob",
+      });
+    } catch {
+      void message.error("Failed to load attachment");
+      return null;
+    } finally {
+      setLoadingId(null);
+    }
+  };
+
+  const handleDownload = async (
+    attachment: NoteAttachment,
+    attachmentId: string
+  ): Promise<void> => {
+    const blob = await fetchContent(attachmentId);
+    if (blob != null) downloadBlob(attachment.name, blob);
+  };
+
+  const handlePreview = async (
+    attachment: NoteAttachment,
+    attachmentId: string,
+    kind: AttachmentPreviewKind
+  ): Promise<void> => {
+    const blob = await fetchContent(attachmentId);
+    if (blob != null) {
+      setPreview({ name: attachment.name, kind, url: URL.createObjectURL(blob) });
+    }
+  };
+
+  const closePreview = (): void => {
+    if (preview != null) URL.revokeObjectURL(preview.url);
+    setPreview(null);
+  };
+
+  return (
+    <>
+      <ul className="note-attachment-list" aria-label="Attachments">
+        {attachments.map((attachment) => {
+          const attachmentId = attachment.attachment_id;
+          const available = attachmentId != null && isAttachmentAvailable(attachment);
+          const previewKind = getAttachmentPreviewKind(attachment);
+          const scan =
+            attachment.scan_status == null
+              ? null
+              : ATTACHMENT_SCAN_STATUS_CONFIG[attachment.scan_status];
+          const busy = loadingId === attachmentId;
+
+          return (
+            <li key={attachmentId ?? attachment.s3_key} className="note-attachment-item">
+              <Space size="small" wrap>
+                <PaperClipOutlined />
+                <Text className="note-attachment-name">{attachment.name}</Text>
+                {attachment.size_bytes != null && (
+                  <Text type="secondary" className="note-attachment-size">
+                    {formatFileSize(attachment.size_bytes)}
+                  </Text>
+                )}
+                {scan != null && <Tag color={scan.color}>{scan.label}</Tag>}
+                {available && previewKind != null && (
+                  <Tooltip title="Preview">
+                    <Button
+                      type="text"
+                      size="small"
+                      icon={<EyeOutlined />}
+                      aria-label={`Preview ${attachment.name}`}
+                      loading={busy}
+                      onClick={() => {
+                        void handlePreview(attachment, attachmentId, previewKind);
+                      }}
+                    />
+                  </Tooltip>
+                )}
+                {available && (
+                  <Tooltip title="Download">
+                    <Button
+                      type="text"
+                      size="small"
+                      icon={<DownloadOutlined />}
+                      aria-label={`Download ${attachment.name}`}
+                      disabled={busy}
+                      onClick={() => {
+                        void handleDownload(attachment, attachmentId);
+                      }}
+                    />
+                  </Tooltip>
+                )}
+                {onRemove != null && attachmentId != null && (
+                  <Tooltip title="Remove">
+                    <Button
+                      type="text"
+                      size="small"
+                      danger
+                      icon={<DeleteOutlined />}
+                      aria-label={`Remove ${attachment.name}`}
+                      onClick={() => onRemove(attachmentId)}
+                    />
+                  </Tooltip>
+                )}
+              </Space>
+            </li>
+          );
+        })}
+      </ul>
+
+      <Modal
+        title={preview?.name}
+        open={preview != null}
+        onCancel={closePreview}
+        footer={null}
+        width={800}
+        destroyOnHidden
+      >
+        {preview?.kind === "image" && (
+          <img src={preview.url} alt={preview.name} className="note-attachment-preview-image" />
+        )}
+        {preview?.kind === "pdf" && (
+          <iframe src={preview.url} title={preview.name} className="note-attachment-preview-pdf" />
+        )}
+      </Modal>
+    </>
+  );
+}
+
+export default NoteAttachmentList;
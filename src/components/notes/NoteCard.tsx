@@ -15,9 +15,11 @@ import {
 } from "@ant-design/icons";
 import type { AnalystNote } from "../../types/notes";
 import NoteTypeBadge from "./NoteTypeBadge";
+import NoteAttachmentList from "./NoteAttachmentList";
+import NoteContent from "./NoteContent";
 import "./note-card.css";
 
-const { Text, Paragraph } = Typography;
+const { Text } = Typography;
 
 interface NoteCardProps {
   note: AnalystNote;
@@ -103,7 +105,13 @@ export function NoteCard({
           )}
         </Space>
 
-        <Paragraph className="note-paragraph">{note.note_content}</Paragraph>
+        <NoteContent content={note.note_content} />
+
+        <NoteAttachmentList
+          transactionId={note.transaction_id}
+          noteId={note.id}
+          attachments={note.attachments ?? []}
+        />
 
         <Space size="large" className="note-meta">
           <Space size={4}>
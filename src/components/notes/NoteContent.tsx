@@ -0,0 +1,157 @@
+/**
+ * NoteContent Component
+ *
+ * Renders a note's markdown-lite content. @mentions are highlighted and
+ * transaction IDs, case numbers and rule IDs become chips linking to the
+ * record they reference.
+ */
+
+import React, { useState } from "react";
+import { Link, useNavigate } from "react-router";
+import { Tag, message } from "antd";
+import { FileSearchOutlined, FolderOpenOutlined, SafetyOutlined } from "@ant-design/icons";
+import { get } from "../../api/httpClient";
+import { CASES } from "../../api/endpoints";
+import { parseNoteContent, type NoteInline } from "../../shared/utils/noteContent";
+import type { TransactionCase } from "../../types/case";
+import "./note-card.css";
+
+interface NoteContentProps {
+  content: string;
+}
+
+/**
+ * Pairs each item with its position in the source. Parsed content has no
+ * ids, so positions serve as keys.
+ */
+function withPositions<T>(items: T[], size: (item: T) => number): Array<[number, T]> {
+  let position = 0;
+  return items.map((item) => {
+    const entry: [number, T] = [position, item];
+    position += size(item);
+    return entry;
+  });
+}
+
+function inlineLength(inline: NoteInline): number {
+  if ("text" in inline) return inline.text.length;
+  if ("handle" in inline) return inline.handle.length + 1;
+  return inline.id.length;
+}
+
+/**
+ * Case numbers are resolved to a case only when clicked
+ */
+function CaseChip({ caseNumber }: { caseNumber: string }): React.ReactElement {
+  const navigate = useNavigate();
+  const [isResolving, setIsResolving] = useState(false);
+
+  const handleOpen = async (): Promise<void> => {
+    if (isResolving) return;
+    setIsResolving(true);
+    try {
+      const found = await get<TransactionCase>(CASES.GET_BY_NUMBER(caseNumber));
+      void navigate(`/cases/show/${found.id}`);
+    } catch {
+      void message.error(`Case ${caseNumber} not found`);
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  return (
+    <Tag
+      color="purple"
+      icon={<FolderOpenOutlined />}
+      className="note-reference-chip"
+      role="link"
+      tabIndex={0}
+      aria-busy={isResolving}
+      onClick={() => {
+        void handleOpen();
+      }}
+      onKeyDown={(event) => {
+        if (event.key === "Enter") void handleOpen();
+      }}
+    >
+      {caseNumber}
+    </Tag>
+  );
+}
+
+function renderInline(inline: NoteInline, key: number): React.ReactNode {
+  switch (inline.kind) {
+    case "bold":
+      return <strong key={key}>{inline.text}</strong>;
+    case "italic":
+      return <em key={key}>{inline.text}</em>;
+    case "code":
+      return <code key={key}>{inline.text}</code>;
+    case "mention":
+      return (
+        <Tag key={key} color="geekblue" className="note-mention">
+          @{inline.handle}
+        </Tag>
+      );
+    case "transaction":
+      return (
+        <Link key={key} to={`/transactions/show/${inline.id}`}>
+          <Tag color="blue" icon={<FileSearchOutlined />} className="note-reference-chip">
+            {inline.id}
+          </Tag>
+        </Link>
+      );
+    case "case":
+      return <CaseChip key={key} caseNumber={inline.id} />;
+    case "rule":
+      return (
+        <Link key={key} to={`/rules/show/${inline.id}`}>
+          <Tag color="cyan" icon={<SafetyOutlined />} className="note-reference-chip">
+            {inline.id}
+          </Tag>
+        </Link>
+      );
+    default:
+      return <React.Fragment key={key}>{inline.text}</React.Fragment>;
+  }
+}
+
+function renderLine(inlines: NoteInline[]): React.ReactNode {
+  return withPositions(inlines, inlineLength).map(([position, inline]) =>
+    renderInline(inline, position)
+  );
+}
+
+/**
+ * Formatted note content
+ */
+export function NoteContent({ content }: NoteContentProps): React.ReactElement {
+  const blocks = withPositions(parseNoteContent(content), (block) =>
+    block.kind === "list" ? block.items.length : block.lines.length
+  );
+
+  return (
+    <div className="note-paragraph">
+      {blocks.map(([position, block]) =>
+        block.kind === "list" ? (
+          <ul key={position} className="note-content-list">
+            {withPositions(block.items, () => 1).map(([itemPosition, item]) => (
+              <li key={itemPosition}>{renderLine(item)}</li>
+            ))}
+          </ul>
+        ) : (
+          <p key={position} className="note-content-block">
+            {withPositions(block.lines, () => 1).map(([linePosition, line]) => (
+              <React.Fragment key={linePosition}>
+                {linePosition > 0 && <br />}
+                {renderLine(line)}
+              </React.Fragment>
+            ))}
+          </p>
+        )
+      )}
+    </div>
+  );
+}
+
+export default NoteContent;
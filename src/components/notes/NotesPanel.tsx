@@ -7,7 +7,13 @@
 import React, { useState } from "react";
 import { Card, Space, Button, Empty, Typography, Spin, message } from "antd";
 import { PlusOutlined, CommentOutlined } from "@ant-design/icons";
-import type { AnalystNote, NoteCreateRequest, NoteUpdateRequest } from "../../types/notes";
+import { AttachmentUploadError } from "../../shared/utils/noteAttachments";
+import type {
+  AnalystNote,
+  NoteAttachmentChanges,
+  NoteCreateRequest,
+  NoteUpdateRequest,
+} from "../../types/notes";
 import NoteCard from "./NoteCard";
 import AddNoteModal from "./AddNoteModal";
 import EditNoteModal from "./EditNoteModal";
@@ -17,14 +23,31 @@ const { Text } = Typography;
 interface NotesPanelProps {
   readonly notes: AnalystNote[];
   readonly currentUserId?: string;
-  readonly onAddNote?: (note: NoteCreateRequest) => Promise<void>;
-  readonly onEditNote?: (noteId: string, note: NoteUpdateRequest) => Promise<void>;
+  readonly onAddNote?: (note: NoteCreateRequest, files: File[]) => Promise<void>;
+  readonly onEditNote?: (
+    noteId: string,
+    note: NoteUpdateRequest,
+    attachments: NoteAttachmentChanges
+  ) => Promise<void>;
   readonly onDeleteNote?: (noteId: string) => Promise<void>;
   readonly loading?: boolean;
   readonly canAdd?: boolean;
   readonly canDeleteOthers?: boolean;
 }
 
+/**
+ * Reports a failed add or edit. When only attachments failed the note itself
+ * was saved, so the modal closes rather than invite a duplicate submit.
+ */
+function reportSaveError(err: unknown, fallbackMessage: string, closeModal: () => void): void {
+  if (err instanceof AttachmentUploadError) {
+    void message.warning(err.message);
+    closeModal();
+    return;
+  }
+  void message.error(fallbackMessage);
+}
+
 /**
  * Panel for managing transaction notes
  */
@@ -43,16 +66,16 @@ export function NotesPanel({
   const [noteToEdit, setNoteToEdit] = useState<AnalystNote | null>(null);
   const [actionLoading, setActionLoading] = useState(false);
 
-  const handleAddNote = (note: NoteCreateRequest): void => {
+  const handleAddNote = (note: NoteCreateRequest, files: File[]): void => {
     if (onAddNote == null) return;
     setActionLoading(true);
-    onAddNote(note)
+    onAddNote(note, files)
       .then(() => {
         void message.success("Note added successfully");
         setAddModalOpen(false);
       })
-      .catch(() => {
-        void message.error("Failed to add note");
+      .catch((err: unknown) => {
+        reportSaveError(err, "Failed to add note", () => setAddModalOpen(false));
       })
       .finally(() => {
         setActionLoading(false);
@@ -74,17 +97,25 @@ export function NotesPanel({
       });
   };
 
-  const handleEditNote = (noteId: string, note: NoteUpdateRequest): void => {
+  const closeEditModal = (): void => {
+    setEditModalOpen(false);
+    setNoteToEdit(null);
+  };
+
+  const handleEditNote = (
+    noteId: string,
+    note: NoteUpdateRequest,
+    attachments: NoteAttachmentChanges
+  ): void => {
     if (onEditNote == null) return;
     setActionLoading(true);
-    onEditNote(noteId, note)
+    onEditNote(noteId, note, attachments)
       .then(() => {
         void message.success("Note updated");
-        setEditModalOpen(false);
-        setNoteToEdit(null);
+        closeEditModal();
       })
-      .catch(() => {
-        void message.error("Failed to update note");
+      .catch((err: unknown) => {
+        reportSaveError(err, "Failed to update note", closeEditModal);
       })
       .finally(() => {
         setActionLoading(false);
@@ -167,10 +198,7 @@ export function NotesPanel({
       <EditNoteModal
         open={editModalOpen}
         note={noteToEdit}
-        onCancel={() => {
-          setEditModalOpen(false);
-          setNoteToEdit(null);
-        }}
+        onCancel={closeEditModal}
         onSubmit={handleEditNote}
         loading={actionLoading}
       />
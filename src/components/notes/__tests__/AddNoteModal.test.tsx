@@ -402,7 +402,8 @@ describe("AddNoteModal", () => {
           expect.objectContaining({
             note_type: "GENERAL",
             is_private: false,
-          })
+          }),
+          []
         );
         const payload = onSubmit.mock.calls[0][0];
         expect(typeof payload.note_content).toBe("string");
@@ -438,7 +439,8 @@ describe("AddNoteModal", () => {
           expect.objectContaining({
             note_type: "INITIAL_REVIEW",
             is_private: true,
-          })
+          }),
+          []
         );
         const payload = onSubmit.mock.calls[0][0];
         expect(typeof payload.note_content).toBe("string");
@@ -467,7 +469,8 @@ describe("AddNoteModal", () => {
           expect.objectContaining({
             note_type: "FRAUD_CONFIRMED",
             is_private: false,
-          })
+          }),
+          []
         );
         const payload = onSubmit.mock.calls[0][0];
         expect(typeof payload.note_content).toBe("string");
@@ -615,7 +618,8 @@ describe("AddNoteModal", () => {
         expect(onSubmit).toHaveBeenCalledWith(
           expect.objectContaining({
             note_type: "FRAUD_CONFIRMED",
-          })
+          }),
+          []
         );
       });
     });
@@ -641,7 +645,8 @@ describe("AddNoteModal", () => {
         expect(onSubmit).toHaveBeenCalledWith(
           expect.objectContaining({
             note_type: "ESCALATION",
-          })
+          }),
+          []
         );
       });
     });
@@ -667,9 +672,68 @@ describe("AddNoteModal", () => {
         expect(onSubmit).toHaveBeenCalledWith(
           expect.objectContaining({
             note_type: "RESOLUTION",
-          })
+          }),
+          []
         );
       });
     });
   });
+
+  describe("attachments", () => {
+    const fileInput = (): HTMLInputElement => {
+      const input = document.querySelector<HTMLInputElement>('input[type="file"]');
+      if (input == null) throw new Error("file input not rendered");
+      return input;
+    };
+
+    it("submits queued files with the note", async () => {
+      const user = userEvent.setup();
+      render(
+        <AddNoteModal
+          open={true}
+          onCancel={onCancel}
+          onSubmit={onSubmit}
+          defaultNoteType="CUSTOMER_CONTACT"
+        />
+      );
+
+      const screenshot = new File(["png"], "call.png", { type: "image/png" });
+      await user.upload(fileInput(), screenshot);
+      expect(await screen.findByText("call.png")).toBeInTheDocument();
+
+      fireEvent.change(screen.getByRole("textbox"), {
+        target: { value: "Customer confirmed the purchase" },
+      });
+      await user.click(screen.getByRole("button", { name: "Add Note" }));
+
+      await waitFor(() => {
+        expect(onSubmit).toHaveBeenCalledWith(
+          expect.objectContaining({ note_type: "CUSTOMER_CONTACT" }),
+          [screenshot]
+        );
+      });
+    });
+
+    it("drops a queued file when it is removed", async () => {
+      const user = userEvent.setup();
+      render(<AddNoteModal open={true} onCancel={onCancel} onSubmit={onSubmit} />);
+
+      await user.upload(fileInput(), new File(["pdf"], "letter.pdf", { type: "application/pdf" }));
+      await user.click(await screen.findByRole("button", { name: "Remove letter.pdf" }));
+
+      expect(screen.queryByText("letter.pdf")).not.toBeInTheDocument();
+    });
+
+    it("rejects files over the size limit", async () => {
+      const user = userEvent.setup();
+      render(<AddNoteModal open={true} onCancel={onCancel} onSubmit={onSubmit} />);
+
+      const scan = new File(["pdf"], "scan.pdf", { type: "application/pdf" });
+      Object.defineProperty(scan, "size", { value: 11 * 1024 * 1024 });
+      await user.upload(fileInput(), scan);
+
+      expect(await screen.findByText("scan.pdf is larger than 10.0 MB")).toBeInTheDocument();
+      expect(screen.queryByRole("button", { name: "Remove scan.pdf" })).not.toBeInTheDocument();
+    });
+  });
 });
@@ -0,0 +1,138 @@
+/**
+ * NoteAttachmentList Component Tests
+ *
+ * Tests scan status display and that only clean attachments can be
+ * previewed or downloaded.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { NoteAttachmentList } from "../NoteAttachmentList";
+import { get } from "../../../api/httpClient";
+import { NOTES } from "../../../api/endpoints";
+import { downloadBlob } from "../../../shared/utils/download";
+import type { NoteAttachment } from "../../../types/notes";
+
+vi.mock("../../../api/httpClient", () => ({
+  get: vi.fn(),
+}));
+
+vi.mock("../../../shared/utils/download", () => ({
+  downloadBlob: vi.fn(),
+}));
+
+const attachment = (overrides: Partial<NoteAttachment>): NoteAttachment => ({
+  attachment_id: "att_1",
+  name: "call.png",
+  s3_key: "notes/txn-123/note-1/att_1/call.png",
+  content_type: "image/png",
+  size_bytes: 2048,
+  scan_status: "CLEAN",
+  ...overrides,
+});
+
+describe("NoteAttachmentList", () => {
+  const mockGet = vi.mocked(get);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    URL.createObjectURL = vi.fn(() => "data:,");
+    URL.revokeObjectURL = vi.fn();
+  });
+
+  it("renders nothing without attachments", () => {
+    const { container } = render(
+      <NoteAttachmentList transactionId="txn-123" noteId="note-1" attachments={[]} />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("shows each attachment with its size and scan status", () => {
+    render(
+      <NoteAttachmentList
+        transactionId="txn-123"
+        noteId="note-1"
+        attachments={[
+          attachment({}),
+          attachment({ attachment_id: "att_2", name: "eicar.pdf", scan_status: "INFECTED" }),
+        ]}
+      />
+    );
+
+    expect(screen.getByText("call.png")).toBeInTheDocument();
+    expect(screen.getAllByText("2.0 KB")).toHaveLength(2);
+    expect(screen.getByText("Clean")).toBeInTheDocument();
+    expect(screen.getByText("Infected")).toBeInTheDocument();
+  });
+
+  it("offers no preview or download until the scan passes", () => {
+    render(
+      <NoteAttachmentList
+        transactionId="txn-123"
+        noteId="note-1"
+        attachments={[attachment({ scan_status: "PENDING" })]}
+      />
+    );
+
+    expect(screen.getByText("Scanning")).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: "Preview call.png" })).not.toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: "Download call.png" })).not.toBeInTheDocument();
+  });
+
+  it("previews a clean image inline", async () => {
+    const user = userEvent.setup();
+    mockGet.mockResolvedValue(new Blob(["png"], { type: "image/png" }));
+    render(
+      <NoteAttachmentList transactionId="txn-123" noteId="note-1" attachments={[attachment({})]} />
+    );
+
+    await user.click(screen.getByRole("button", { name: "Preview call.png" }));
+
+    expect(mockGet).toHaveBeenCalledWith(NOTES.ATTACHMENTS.CONTENT("txn-123", "note-1", "att_1"), {
+      responseType: "blob",
+    });
+    expect(await screen.findByRole("img", { name: "call.png" })).toHaveAttribute("src", "data:,");
+  });
+
+  it("previews PDFs in a frame and downloads text files without preview", async () => {
+    const user = userEvent.setup();
+    const blob = new Blob(["text"], { type: "text/plain" });
+    mockGet.mockResolvedValue(blob);
+    render(
+      <NoteAttachmentList
+        transactionId="txn-123"
+        noteId="note-1"
+        attachments={[
+          attachment({ name: "letter.pdf", content_type: "application/pdf" }),
+          attachment({ attachment_id: "att_2", name: "export.txt", content_type: "text/plain" }),
+        ]}
+      />
+    );
+
+    await user.click(screen.getByRole("button", { name: "Preview letter.pdf" }));
+    expect(await screen.findByTitle("letter.pdf")).toBeInTheDocument();
+
+    expect(screen.queryByRole("button", { name: "Preview export.txt" })).not.toBeInTheDocument();
+    await user.click(screen.getByRole("button", { name: "Download export.txt" }));
+    expect(downloadBlob).toHaveBeenCalledWith("export.txt", blob);
+  });
+
+  it("lets the editor remove an attachment", async () => {
+    const user = userEvent.setup();
+    const onRemove = vi.fn();
+    render(
+      <NoteAttachmentList
+        transactionId="txn-123"
+        noteId="note-1"
+        attachments={[attachment({})]}
+        onRemove={onRemove}
+      />
+    );
+
+    await user.click(screen.getByRole("button", { name: "Remove call.png" }));
+
+    expect(onRemove).toHaveBeenCalledWith("att_1");
+  });
+});
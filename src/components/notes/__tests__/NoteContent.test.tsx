@@ -0,0 +1,90 @@
+/**
+ * NoteContent Component Tests
+ *
+ * Tests formatting, mentions and the reference chips.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, userEvent, waitFor } from "@/test/utils";
+import { NoteContent } from "../NoteContent";
+import { get } from "../../../api/httpClient";
+import { CASES } from "../../../api/endpoints";
+
+vi.mock("../../../api/httpClient", () => ({
+  get: vi.fn(),
+}));
+
+const mockNavigate = vi.fn();
+vi.mock("react-router", async () => {
+  const actual = await vi.importActual("react-router");
+  return {
+    ...(actual as object),
+    useNavigate: () => mockNavigate,
+  };
+});
+
+describe("NoteContent", () => {
+  const mockGet = vi.mocked(get);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("renders markdown-lite formatting", () => {
+    const { container } = render(
+      <NoteContent content={"**Confirmed** by *phone*, ref `A-12`\n- Left voicemail\n- Emailed"} />
+    );
+
+    expect(screen.getByText("Confirmed").tagName).toBe("STRONG");
+    expect(screen.getByText("phone").tagName).toBe("EM");
+    expect(screen.getByText("A-12").tagName).toBe("CODE");
+    expect(Array.from(container.querySelectorAll("li"), (li) => li.textContent)).toEqual([
+      "Left voicemail",
+      "Emailed",
+    ]);
+  });
+
+  it("keeps line breaks within a paragraph", () => {
+    const { container } = render(<NoteContent content={"Line 1\nLine 2\n\nLine 4"} />);
+
+    const paragraphs = container.querySelectorAll("p");
+    expect(paragraphs).toHaveLength(2);
+    expect(paragraphs[0]?.querySelectorAll("br")).toHaveLength(1);
+  });
+
+  it("highlights mentions and links transactions and rules", () => {
+    render(<NoteContent content="@checker1 compare txn_001 with rule_002" />);
+
+    expect(screen.getByText("@checker1")).toBeInTheDocument();
+    expect(screen.getByRole("link", { name: /txn_001/ })).toHaveAttribute(
+      "href",
+      "/transactions/show/txn_001"
+    );
+    expect(screen.getByRole("link", { name: /rule_002/ })).toHaveAttribute(
+      "href",
+      "/rules/show/rule_002"
+    );
+  });
+
+  it("resolves a case number before opening the case", async () => {
+    const user = userEvent.setup();
+    mockGet.mockResolvedValue({ id: "case_001", case_number: "CASE-2026-001" });
+    render(<NoteContent content="Linked to CASE-2026-001" />);
+
+    await user.click(screen.getByRole("link", { name: /CASE-2026-001/ }));
+
+    expect(mockGet).toHaveBeenCalledWith(CASES.GET_BY_NUMBER("CASE-2026-001"));
+    await waitFor(() => expect(mockNavigate).toHaveBeenCalledWith("/cases/show/case_001"));
+  });
+
+  it("reports a case number that does not resolve", async () => {
+    const user = userEvent.setup();
+    mockGet.mockRejectedValue(new Error("Not found"));
+    render(<NoteContent content="Linked to CASE-2026-999" />);
+
+    await user.click(screen.getByRole("link", { name: /CASE-2026-999/ }));
+
+    expect(await screen.findByText("Case CASE-2026-999 not found")).toBeInTheDocument();
+    expect(mockNavigate).not.toHaveBeenCalled();
+  });
+});
@@ -6,6 +6,9 @@
 
 export { NoteTypeBadge } from "./NoteTypeBadge";
 export { NoteCard } from "./NoteCard";
+export { NoteContent } from "./NoteContent";
 export { AddNoteModal } from "./AddNoteModal";
 export { EditNoteModal } from "./EditNoteModal";
 export { NotesPanel } from "./NotesPanel";
+export { NoteAttachmentList } from "./NoteAttachmentList";
+export { AttachmentDropzone } from "./AttachmentDropzone";
@@ -0,0 +1,178 @@
+/**
+ * NotificationBell Component
+ *
+ * Header bell with the current user's unread count. Opens a panel listing
+ * unread (or all recent) notifications; opening one marks it read and
+ * navigates to the record it is about.
+ */
+
+import React, { useState } from "react";
+import { useNavigate } from "react-router";
+import {
+  Badge,
+  Button,
+  Empty,
+  List,
+  Popover,
+  Segmented,
+  Space,
+  Tag,
+  Tooltip,
+  Typography,
+} from "antd";
+import { BellOutlined, CheckOutlined, SettingOutlined } from "@ant-design/icons";
+import { useNotifications } from "../../hooks";
+import { NOTIFICATION_TYPE_CONFIG, type AppNotification } from "../../types/notification";
+import { NotificationPreferencesModal } from "./NotificationPreferencesModal";
+import "./notifications.css";
+
+const { Text } = Typography;
+
+type NotificationFilter = "unread" | "all";
+
+const FILTER_OPTIONS: Array<{ label: string; value: NotificationFilter }> = [
+  { label: "Unread", value: "unread" },
+  { label: "All", value: "all" },
+];
+
+const formatNotificationTime = (dateStr: string): string =>
+  new Date(dateStr).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+function NotificationItem({
+  notification,
+  onOpen,
+}: {
+  notification: AppNotification;
+  onOpen: (notification: AppNotification) => void;
+}): React.ReactElement {
+  const config = NOTIFICATION_TYPE_CONFIG[notification.type];
+  const unread = notification.read_at == null;
+
+  return (
+    <List.Item
+      className={`notification-item ${unread ? "notification-item-unread" : ""}`}
+      onClick={() => onOpen(notification)}
+    >
+      <Space direction="vertical" size={2} className="notification-item-body">
+        <Space size={6} wrap>
+          <Tag color={config.color}>{config.label}</Tag>
+          <Text strong={unread}>{notification.title}</Text>
+        </Space>
+        {notification.message != null && (
+          <Text type="secondary" ellipsis className="notification-item-message">
+            {notification.message}
+          </Text>
+        )}
+        <Text type="secondary" className="notification-item-meta">
+          {notification.actor_name != null && `${notification.actor_name} · `}
+          {formatNotificationTime(notification.created_at)}
+        </Text>
+      </Space>
+    </List.Item>
+  );
+}
+
+export function NotificationBell(): React.ReactElement {
+  const navigate = useNavigate();
+  const { notifications, unreadCount, isLoading, markRead, markAllRead } = useNotifications();
+  const [open, setOpen] = useState(false);
+  const [filter, setFilter] = useState<NotificationFilter>("unread");
+  const [preferencesOpen, setPreferencesOpen] = useState(false);
+
+  const visible =
+    filter === "unread" ? notifications.filter((n) => n.read_at == null) : notifications;
+
+  const handleOpen = (notification: AppNotification): void => {
+    if (notification.read_at == null) void markRead(notification.notification_id);
+    setOpen(false);
+    void navigate(notification.link);
+  };
+
+  const content = (
+    <div className="notification-panel">
+      <div className="notification-panel-header">
+        <Segmented<NotificationFilter>
+          size="small"
+          options={FILTER_OPTIONS}
+          value={filter}
+          onChange={setFilter}
+        />
+        <Space size={4}>
+          <Button
+            type="link"
+            size="small"
+            icon={<CheckOutlined />}
+            disabled={unreadCount === 0}
+            onClick={() => void markAllRead()}
+          >
+            Mark all read
+          </Button>
+          <Tooltip title="Preferences">
+            <Button
+              type="text"
+              size="small"
+              icon={<SettingOutlined />}
+              aria-label="Notification preferences"
+              onClick={() => {
+                setOpen(false);
+                setPreferencesOpen(true);
+              }}
+            />
+          </Tooltip>
+        </Space>
+      </div>
+      <List
+        loading={isLoading}
+        dataSource={visible}
+        rowKey="notification_id"
+        className="notification-list"
+        locale={{
+          emptyText: (
+            <Empty
+              description={filter === "unread" ? "You're all caught up" : "No notifications yet"}
+              image={Empty.PRESENTED_IMAGE_SIMPLE}
+            />
+          ),
+        }}
+        renderItem={(notification) => (
+          <NotificationItem notification={notification} onOpen={handleOpen} />
+        )}
+      />
+    </div>
+  );
+
+  return (
+    <>
+      <Popover
+        content={content}
+        title="Notifications"
+        trigger="click"
+        placement="bottomRight"
+        open={open}
+        onOpenChange={setOpen}
+      >
+        <Button
+          type="text"
+          className="notification-bell"
+          aria-label={`Notifications, ${unreadCount} unread`}
+          icon={
+            <Badge count={unreadCount} size="small" overflowCount={99}>
+              <BellOutlined className="notification-bell-icon" />
+            </Badge>
+          }
+        />
+      </Popover>
+      <NotificationPreferencesModal
+        open={preferencesOpen}
+        onClose={() => setPreferencesOpen(false)}
+      />
+    </>
+  );
+}
+
+export default NotificationBell;
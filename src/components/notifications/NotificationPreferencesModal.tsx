@@ -0,0 +1,73 @@
+/**
+ * NotificationPreferencesModal Component
+ *
+ * Lets the user choose which notification types they receive. Each change is
+ * saved as soon as its switch is toggled.
+ */
+
+import React from "react";
+import { List, Modal, Switch, Typography, message } from "antd";
+import { useNotificationPreferences } from "../../hooks";
+import { NOTIFICATION_TYPE_CONFIG, type NotificationType } from "../../types/notification";
+import "./notifications.css";
+
+const { Text } = Typography;
+
+const NOTIFICATION_TYPES = Object.keys(NOTIFICATION_TYPE_CONFIG) as NotificationType[];
+
+interface NotificationPreferencesModalProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export function NotificationPreferencesModal({
+  open,
+  onClose,
+}: NotificationPreferencesModalProps): React.ReactElement {
+  const { preferences, isLoading, isSaving, updatePreferences } = useNotificationPreferences(open);
+
+  const handleToggle = (type: NotificationType, checked: boolean): void => {
+    updatePreferences({ [type]: checked }).catch(() => {
+      void message.error("Could not save notification preferences");
+    });
+  };
+
+  return (
+    <Modal
+      title="Notification preferences"
+      open={open}
+      onCancel={onClose}
+      footer={null}
+      destroyOnHidden
+    >
+      <List
+        loading={isLoading}
+        dataSource={NOTIFICATION_TYPES}
+        rowKey={(type) => type}
+        renderItem={(type) => {
+          const config = NOTIFICATION_TYPE_CONFIG[type];
+          return (
+            <List.Item
+              actions={[
+                <Switch
+                  key="enabled"
+                  aria-label={config.label}
+                  checked={preferences?.[type] ?? true}
+                  disabled={preferences == null || isSaving}
+                  onChange={(checked) => handleToggle(type, checked)}
+                />,
+              ]}
+            >
+              <List.Item.Meta
+                title={config.label}
+                description={<Text type="secondary">{config.description}</Text>}
+              />
+            </List.Item>
+          );
+        }}
+      />
+    </Modal>
+  );
+}
+
+export default NotificationPreferencesModal;
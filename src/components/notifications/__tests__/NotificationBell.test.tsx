@@ -0,0 +1,142 @@
+/**
+ * NotificationBell Component Tests
+ *
+ * Tests the unread badge, the notification panel and the preferences modal.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, userEvent, waitFor } from "@/test/utils";
+import { NotificationBell } from "../NotificationBell";
+import { useNotificationPreferences, useNotifications } from "../../../hooks";
+import type { AppNotification } from "../../../types/notification";
+
+vi.mock("../../../hooks", () => ({
+  useNotifications: vi.fn(),
+  useNotificationPreferences: vi.fn(),
+}));
+
+const mockNavigate = vi.fn();
+vi.mock("react-router", async () => {
+  const actual = await vi.importActual("react-router");
+  return {
+    ...(actual as object),
+    useNavigate: () => mockNavigate,
+  };
+});
+
+const notification = (overrides: Partial<AppNotification>): AppNotification => ({
+  notification_id: "notif-1",
+  type: "REVIEW_ESCALATED",
+  title: "txn_002 was escalated to you",
+  message: "Customer disputes the chargeback",
+  link: "/transactions/show/txn_002",
+  actor_id: "user_maker_2",
+  actor_name: "Jane Maker",
+  read_at: null,
+  created_at: "2026-03-01T10:00:00Z",
+  ...overrides,
+});
+
+describe("NotificationBell", () => {
+  const mockUseNotifications = vi.mocked(useNotifications);
+  const mockUsePreferences = vi.mocked(useNotificationPreferences);
+  const markRead = vi.fn();
+  const markAllRead = vi.fn();
+  const updatePreferences = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    markRead.mockResolvedValue(undefined);
+    markAllRead.mockResolvedValue(undefined);
+    updatePreferences.mockResolvedValue(undefined);
+    mockUseNotifications.mockReturnValue({
+      notifications: [
+        notification({}),
+        notification({
+          notification_id: "notif-2",
+          type: "REVIEW_ASSIGNED",
+          title: "txn_003 was assigned to you",
+          message: null,
+          link: "/transactions/show/txn_003",
+          read_at: "2026-03-01T09:00:00Z",
+        }),
+      ],
+      unreadCount: 1,
+      isLoading: false,
+      error: null,
+      connection: "live",
+      refetch: vi.fn(),
+      markRead,
+      markAllRead,
+    });
+    mockUsePreferences.mockReturnValue({
+      preferences: {
+        REVIEW_ASSIGNED: true,
+        REVIEW_ESCALATED: true,
+        APPROVAL_REQUESTED: true,
+        SUBMISSION_REJECTED: true,
+        CRITICAL_RECOMMENDATION: false,
+        NOTE_MENTION: true,
+      },
+      isLoading: false,
+      isSaving: false,
+      error: null,
+      updatePreferences,
+    });
+  });
+
+  it("shows unread notifications and opens the linked record", async () => {
+    const user = userEvent.setup();
+    render(<NotificationBell />);
+
+    await user.click(screen.getByRole("button", { name: "Notifications, 1 unread" }));
+
+    expect(await screen.findByText("txn_002 was escalated to you")).toBeInTheDocument();
+    expect(screen.queryByText("txn_003 was assigned to you")).not.toBeInTheDocument();
+
+    await user.click(screen.getByText("txn_002 was escalated to you"));
+    expect(markRead).toHaveBeenCalledWith("notif-1");
+    expect(mockNavigate).toHaveBeenCalledWith("/transactions/show/txn_002");
+  });
+
+  it("lists read notifications under All and marks everything read", async () => {
+    const user = userEvent.setup();
+    render(<NotificationBell />);
+
+    await user.click(screen.getByRole("button", { name: "Notifications, 1 unread" }));
+    await user.click(await screen.findByText("All"));
+    expect(screen.getByText("txn_003 was assigned to you")).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: /Mark all read/ }));
+    expect(markAllRead).toHaveBeenCalled();
+  });
+
+  it("shows an empty state when everything is read", async () => {
+    const user = userEvent.setup();
+    mockUseNotifications.mockReturnValue({
+      ...mockUseNotifications(),
+      notifications: [],
+      unreadCount: 0,
+    });
+    render(<NotificationBell />);
+
+    await user.click(screen.getByRole("button", { name: "Notifications, 0 unread" }));
+    expect(await screen.findByText("You're all caught up")).toBeInTheDocument();
+  });
+
+  it("saves notification preferences from the modal", async () => {
+    const user = userEvent.setup();
+    render(<NotificationBell />);
+
+    await user.click(screen.getByRole("button", { name: "Notifications, 1 unread" }));
+    await user.click(await screen.findByRole("button", { name: "Notification preferences" }));
+
+    const critical = await screen.findByRole("switch", { name: "Critical recommendation" });
+    expect(critical).not.toBeChecked();
+    await user.click(critical);
+
+    await waitFor(() =>
+      expect(updatePreferences).toHaveBeenCalledWith({ CRITICAL_RECOMMENDATION: true })
+    );
+  });
+});
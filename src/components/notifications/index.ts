@@ -0,0 +1,8 @@
+/**
+ * Notification Components
+ *
+ * Header bell and preferences for in-app notifications.
+ */
+
+export { NotificationBell } from "./NotificationBell";
+export { NotificationPreferencesModal } from "./NotificationPreferencesModal";
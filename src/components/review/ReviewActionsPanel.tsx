@@ -3,6 +3,7 @@
  *
  * Panel showing current review status and actions for a transaction.
  * Orchestrates StatusDisplaySection, ReviewActionButtons, and action modals.
+ * Given an SLA policy, it also counts down to the review's SLA deadline.
  */
 
 import React, { useState, useCallback } from "react";
@@ -15,6 +16,7 @@ import type {
   ResolutionCode,
   AnalystDecision,
 } from "../../types/review";
+import type { SlaPolicy } from "../../types/sla";
 import { getActionAvailability } from "../../shared/utils/reviewWorkflow";
 import StatusDisplaySection from "./StatusDisplaySection";
 import ReviewActionButtons from "./ReviewActionButtons";
@@ -37,6 +39,7 @@ interface ReviewActionsPanelProps {
   ) => Promise<void>;
   onEscalate?: (reason: string, escalateTo?: string) => Promise<void>;
   loading?: boolean;
+  slaPolicy?: SlaPolicy;
 }
 
 /**
@@ -50,6 +53,7 @@ export function ReviewActionsPanel({
   onResolve,
   onEscalate,
   loading = false,
+  slaPolicy,
 }: ReviewActionsPanelProps): React.ReactElement {
   const [assignModalOpen, setAssignModalOpen] = useState(false);
   const [resolveModalOpen, setResolveModalOpen] = useState(false);
@@ -158,7 +162,7 @@ export function ReviewActionsPanel({
           />
         }
       >
-        <StatusDisplaySection review={review} currentStatus={currentStatus} />
+        <StatusDisplaySection review={review} currentStatus={currentStatus} slaPolicy={slaPolicy} />
 
         <Divider className="divider-margin" />
 
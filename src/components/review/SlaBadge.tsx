@@ -0,0 +1,56 @@
+/**
+ * SlaBadge Component
+ *
+ * Shows how long a review has left before it breaches its SLA target, or by
+ * how much it has overrun it.
+ */
+
+import React from "react";
+import { Tag, Tooltip, Typography } from "antd";
+import { ClockCircleOutlined, ExclamationCircleOutlined } from "@ant-design/icons";
+import { SLA_STATE_CONFIG, type SlaEvaluation } from "../../types/sla";
+import { formatSlaDuration, formatSlaTarget } from "../../shared/utils/sla";
+import { formatDateTime } from "../../shared/utils/format";
+
+const { Text } = Typography;
+
+interface SlaBadgeProps {
+  evaluation: SlaEvaluation | null;
+}
+
+function describeSla(evaluation: SlaEvaluation): string {
+  const duration = formatSlaDuration(evaluation.remaining_seconds);
+  switch (evaluation.state) {
+    case "BREACHED":
+      return `Breached · ${duration} over`;
+    case "MET":
+      return SLA_STATE_CONFIG.MET.label;
+    default:
+      return `${duration} left`;
+  }
+}
+
+/**
+ * SLA countdown or breach badge
+ */
+export function SlaBadge({ evaluation }: SlaBadgeProps): React.ReactElement {
+  if (evaluation == null) {
+    return <Text type="secondary">-</Text>;
+  }
+
+  const config = SLA_STATE_CONFIG[evaluation.state];
+  const icon =
+    evaluation.state === "BREACHED" ? <ExclamationCircleOutlined /> : <ClockCircleOutlined />;
+
+  return (
+    <Tooltip
+      title={`${formatSlaTarget(evaluation.target_minutes)} target · due ${formatDateTime(evaluation.due_at)}`}
+    >
+      <Tag color={config.color} icon={icon} aria-label={`SLA ${config.label}`}>
+        {describeSla(evaluation)}
+      </Tag>
+    </Tooltip>
+  );
+}
+
+export default SlaBadge;
@@ -2,20 +2,26 @@
  * StatusDisplaySection Component
  *
  * Displays the current review status information including status,
- * risk level, assignment, priority, and resolution details.
+ * risk level, assignment, priority, SLA, and resolution details.
  */
 
 import React from "react";
 import { Descriptions, Typography } from "antd";
 import type { TransactionReview, TransactionStatus } from "../../types/review";
+import type { SlaPolicy } from "../../types/sla";
+import { evaluateSla } from "../../shared/utils/sla";
+import { useSlaClock } from "../../hooks/useReviewSla";
 import StatusBadge from "./StatusBadge";
 import RiskLevelBadge from "./RiskLevelBadge";
+import SlaBadge from "./SlaBadge";
 
 const { Text } = Typography;
 
 interface StatusDisplaySectionProps {
   review: TransactionReview | null;
   currentStatus: TransactionStatus;
+  /** The SLA is shown only when a policy is given */
+  slaPolicy?: SlaPolicy;
 }
 
 /**
@@ -24,8 +30,10 @@ interface StatusDisplaySectionProps {
 export function StatusDisplaySection({
   review,
   currentStatus,
+  slaPolicy,
 }: StatusDisplaySectionProps): React.ReactElement {
   const isResolved = review?.resolved_at !== undefined && review?.resolved_at !== null;
+  const now = useSlaClock();
 
   return (
     <Descriptions size="small" column={2}>
@@ -39,6 +47,11 @@ export function StatusDisplaySection({
         {review?.assigned_analyst_name ?? <Text type="secondary">Unassigned</Text>}
       </Descriptions.Item>
       <Descriptions.Item label="Priority">{review?.priority ?? 3}</Descriptions.Item>
+      {slaPolicy != null && review != null && (
+        <Descriptions.Item label="SLA" span={2}>
+          <SlaBadge evaluation={evaluateSla(review, slaPolicy, now)} />
+        </Descriptions.Item>
+      )}
       {isResolved && (
         <>
           <Descriptions.Item label="Resolution">{review?.resolution_code}</Descriptions.Item>
@@ -10,6 +10,7 @@ import { render, screen, waitFor, fireEvent, within } from "@testing-library/rea
 import userEvent from "@testing-library/user-event";
 import { ReviewActionsPanel } from "../ReviewActionsPanel";
 import type { TransactionReview } from "../../../types/review";
+import { DEFAULT_SLA_POLICY } from "../../../shared/utils/sla";
 import * as usePermissionsModule from "../../../hooks/usePermissions";
 import { message } from "antd";
 
@@ -139,6 +140,31 @@ describe("ReviewActionsPanel", () => {
       expect(screen.getByText("FRAUD_CONFIRMED")).toBeInTheDocument();
       expect(screen.getByText("jane.analyst")).toBeInTheDocument();
     });
+
+    it("shows the SLA countdown when given a policy", () => {
+      const review = createMockReview({
+        priority: 2,
+        risk_level: "HIGH",
+        created_at: new Date(Date.now() - 60 * 60_000 + 30_000).toISOString(),
+      });
+
+      render(<ReviewActionsPanel review={review} slaPolicy={DEFAULT_SLA_POLICY} />);
+
+      expect(screen.getByText("SLA")).toBeInTheDocument();
+      expect(screen.getByText("3h left")).toBeInTheDocument();
+    });
+
+    it("flags a review that breached its SLA", () => {
+      render(<ReviewActionsPanel review={createMockReview()} slaPolicy={DEFAULT_SLA_POLICY} />);
+
+      expect(screen.getByLabelText("SLA Breached")).toBeInTheDocument();
+    });
+
+    it("omits the SLA without a policy", () => {
+      render(<ReviewActionsPanel review={createMockReview()} />);
+
+      expect(screen.queryByText("SLA")).not.toBeInTheDocument();
+    });
   });
 
   describe("button enable/disable based on status", () => {
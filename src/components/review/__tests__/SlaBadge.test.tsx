@@ -0,0 +1,36 @@
+/**
+ * SlaBadge Component Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { render, screen } from "@testing-library/react";
+import { SlaBadge } from "../SlaBadge";
+
+describe("SlaBadge", () => {
+  const base = { target_minutes: 240, due_at: "2026-03-01T14:00:00Z" };
+
+  it("shows the time left for reviews on track or at risk", () => {
+    const { rerender } = render(
+      <SlaBadge evaluation={{ ...base, state: "ON_TRACK", remaining_seconds: 7200 }} />
+    );
+    expect(screen.getByText("2h left")).toBeInTheDocument();
+
+    rerender(<SlaBadge evaluation={{ ...base, state: "AT_RISK", remaining_seconds: 900 }} />);
+    expect(screen.getByLabelText("SLA At risk")).toHaveTextContent("15m left");
+  });
+
+  it("shows how far a breached review is over its target", () => {
+    render(<SlaBadge evaluation={{ ...base, state: "BREACHED", remaining_seconds: -5400 }} />);
+    expect(screen.getByLabelText("SLA Breached")).toHaveTextContent("Breached · 1h 30m over");
+  });
+
+  it("shows met targets and reviews without a target", () => {
+    const { rerender } = render(
+      <SlaBadge evaluation={{ ...base, state: "MET", remaining_seconds: 600 }} />
+    );
+    expect(screen.getByText("Met")).toBeInTheDocument();
+
+    rerender(<SlaBadge evaluation={null} />);
+    expect(screen.getByText("-")).toBeInTheDocument();
+  });
+});
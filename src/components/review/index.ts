@@ -7,6 +7,7 @@
 export { StatusBadge } from "./StatusBadge";
 export { RiskLevelBadge } from "./RiskLevelBadge";
 export { PriorityBadge } from "./PriorityBadge";
+export { SlaBadge } from "./SlaBadge";
 export { StatusTransitionButton } from "./StatusTransitionButton";
 export { AssignAnalystModal } from "./AssignAnalystModal";
 export { ResolveModal } from "./ResolveModal";
@@ -0,0 +1,180 @@
+/**
+ * ConditionTreeDiff Component
+ *
+ * Side-by-side rendering of a structural condition tree diff. Each row holds
+ * the base node on the left and the target node on the right, so aligned
+ * predicates stay on the same line and additions/removals leave a gap.
+ * Values of sensitive fields are masked after diffing, so a changed value
+ * still shows as modified without showing what it changed from or to.
+ */
+
+import type { FC, ReactElement } from "react";
+import { Typography } from "antd";
+import type { VelocityField } from "../../types/domain";
+import { formatVelocityField } from "../../shared/utils/format";
+import { MASK_ALL_KEYS, maskPredicateValue } from "../../shared/utils/sensitiveData";
+import type {
+  ConditionDiffNode,
+  DiffStatus,
+  GroupDiff,
+  PredicateChange,
+  PredicateDiff,
+} from "../../shared/utils/conditionTreeDiff";
+import "./ruleDiff.css";
+
+const { Text } = Typography;
+
+interface DiffRow {
+  key: string;
+  depth: number;
+  status: DiffStatus;
+  left: ReactElement | null;
+  right: ReactElement | null;
+}
+
+interface ConditionTreeDiffProps {
+  diff: GroupDiff;
+  baseLabel: string;
+  targetLabel: string;
+  /** Fields whose values are masked; every value is masked when omitted */
+  sensitiveKeys?: ReadonlySet<string>;
+}
+
+function formatDiffField(field: string | VelocityField): string {
+  if (typeof field === "string") return field;
+  return formatVelocityField(field);
+}
+
+function formatDiffValue(value: unknown): string {
+  if (value === undefined) return "";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function describeChange(change: PredicateChange): string {
+  return `${change.kind}: ${formatDiffValue(change.from)} → ${formatDiffValue(change.to)}`;
+}
+
+function predicateText(diff: PredicateDiff, side: "base" | "target"): ReactElement | null {
+  const node = side === "base" ? diff.base : diff.target;
+  if (node == null) return null;
+  return (
+    <span>
+      <Text code>{formatDiffField(node.field)}</Text> <Text strong>{node.op}</Text>{" "}
+      {formatDiffValue(node.value)}
+    </span>
+  );
+}
+
+function maskPredicateDiff(diff: PredicateDiff, sensitiveKeys: ReadonlySet<string>): PredicateDiff {
+  const mask = (value: unknown): unknown => maskPredicateValue(diff.field, value, sensitiveKeys);
+  return {
+    ...diff,
+    base: diff.base == null ? null : { ...diff.base, value: mask(diff.base.value) },
+    target: diff.target == null ? null : { ...diff.target, value: mask(diff.target.value) },
+    changes: diff.changes.map((change) =>
+      change.kind === "operator"
+        ? change
+        : { ...change, from: mask(change.from), to: mask(change.to) }
+    ),
+  };
+}
+
+function predicateRow(diff: PredicateDiff, key: string, depth: number): DiffRow {
+  const right = predicateText(diff, "target");
+  return {
+    key,
+    depth,
+    status: diff.status,
+    left: predicateText(diff, "base"),
+    right:
+      right != null && diff.changes.length > 0 ? (
+        <span>
+          {right}
+          <Text type="secondary" className="rule-diff-change-note">
+            {diff.changes.map(describeChange).join("; ")}
+          </Text>
+        </span>
+      ) : (
+        right
+      ),
+  };
+}
+
+function groupLabel(op: string | null): ReactElement | null {
+  return op == null ? null : <Text type="secondary">{op}</Text>;
+}
+
+function flattenDiff(
+  node: ConditionDiffNode,
+  sensitiveKeys: ReadonlySet<string>,
+  key: string,
+  depth: number
+): DiffRow[] {
+  if (node.kind === "predicate") {
+    return [predicateRow(maskPredicateDiff(node, sensitiveKeys), key, depth)];
+  }
+
+  // A group header is only highlighted as modified when its AND/OR changed
+  let headerStatus: DiffStatus = node.baseOp === node.targetOp ? "unchanged" : "modified";
+  if (node.status === "added" || node.status === "removed") headerStatus = node.status;
+  const header: DiffRow = {
+    key,
+    depth,
+    status: headerStatus,
+    left: groupLabel(node.baseOp),
+    right: groupLabel(node.targetOp),
+  };
+  return [
+    header,
+    ...node.children.flatMap((child, index) =>
+      flattenDiff(child, sensitiveKeys, `${key}.${index}`, depth + 1)
+    ),
+  ];
+}
+
+function cellClass(status: DiffStatus, side: "left" | "right", empty: boolean): string {
+  if (empty) return "rule-diff-cell rule-diff-cell--empty";
+  if (status === "modified") return "rule-diff-cell rule-diff-cell--modified";
+  if (status === "removed" && side === "left") return "rule-diff-cell rule-diff-cell--removed";
+  if (status === "added" && side === "right") return "rule-diff-cell rule-diff-cell--added";
+  return "rule-diff-cell";
+}
+
+export const ConditionTreeDiff: FC<ConditionTreeDiffProps> = ({
+  diff,
+  baseLabel,
+  targetLabel,
+  sensitiveKeys = MASK_ALL_KEYS,
+}) => {
+  const rows = flattenDiff(diff, sensitiveKeys, "root", 0);
+
+  return (
+    <div className="rule-diff-grid" role="table" aria-label="Condition tree diff">
+      <div className="rule-diff-row" role="row">
+        <div className="rule-diff-cell rule-diff-heading" role="columnheader">
+          {baseLabel}
+        </div>
+        <div className="rule-diff-cell rule-diff-heading" role="columnheader">
+          {targetLabel}
+        </div>
+      </div>
+      {rows.map((row) => (
+        <div
+          key={row.key}
+          className={`rule-diff-row rule-diff-depth-${Math.min(row.depth, 6)}`}
+          role="row"
+          data-status={row.status}
+        >
+          <div className={cellClass(row.status, "left", row.left == null)} role="cell">
+            {row.left}
+          </div>
+          <div className={cellClass(row.status, "right", row.right == null)} role="cell">
+            {row.right}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ConditionTreeDiff;
@@ -0,0 +1,93 @@
+/**
+ * RuleVersionDiff Component
+ *
+ * Summarises what changed between two rule versions: predicate counts,
+ * priority, scope and the side-by-side condition tree diff.
+ */
+
+import { useMemo, type FC, type ReactElement } from "react";
+import { Alert, Space, Tag, Typography } from "antd";
+import { Descriptions } from "../../shared/compat/antdCompat";
+import type { RuleVersion } from "../../types/domain";
+import { diffRuleVersions, type ScopeDimensionChange } from "../../shared/utils/conditionTreeDiff";
+import { ConditionTreeDiff } from "./ConditionTreeDiff";
+import "./ruleDiff.css";
+
+const { Text } = Typography;
+
+export type RuleVersionDiffInput = Pick<RuleVersion, "condition_tree" | "priority" | "scope">;
+
+interface RuleVersionDiffProps {
+  base: RuleVersionDiffInput;
+  target: RuleVersionDiffInput;
+  baseLabel: string;
+  targetLabel: string;
+  /** Fields whose condition values are masked; every value is masked when omitted */
+  sensitiveKeys?: ReadonlySet<string>;
+}
+
+function ScopeChange({ change }: Readonly<{ change: ScopeDimensionChange }>): ReactElement {
+  return (
+    <Space size={4} wrap>
+      {change.added.map((value) => (
+        <Tag key={`+${value}`} color="success">
+          +{value}
+        </Tag>
+      ))}
+      {change.removed.map((value) => (
+        <Tag key={`-${value}`} color="error">
+          −{value}
+        </Tag>
+      ))}
+    </Space>
+  );
+}
+
+export const RuleVersionDiff: FC<RuleVersionDiffProps> = ({
+  base,
+  target,
+  baseLabel,
+  targetLabel,
+  sensitiveKeys,
+}) => {
+  const diff = useMemo(() => diffRuleVersions(base, target), [base, target]);
+
+  return (
+    <Space direction="vertical" className="full-width" size="small">
+      <Space className="rule-diff-summary" wrap>
+        <Tag color="success">+{diff.summary.added} added</Tag>
+        <Tag color="error">−{diff.summary.removed} removed</Tag>
+        <Tag color="warning">~{diff.summary.modified} modified</Tag>
+      </Space>
+
+      {!diff.hasChanges && <Alert type="info" showIcon message="No differences between versions" />}
+
+      {(diff.priority != null || diff.scope.length > 0) && (
+        <Descriptions size="small" column={1} variant="outlined">
+          {diff.priority != null && (
+            <Descriptions.Item label="Priority">
+              <Text delete type="secondary">
+                {diff.priority.from}
+              </Text>{" "}
+              → <Text strong>{diff.priority.to}</Text>
+            </Descriptions.Item>
+          )}
+          {diff.scope.map((change) => (
+            <Descriptions.Item key={change.dimension} label={`Scope: ${change.dimension}`}>
+              <ScopeChange change={change} />
+            </Descriptions.Item>
+          ))}
+        </Descriptions>
+      )}
+
+      <ConditionTreeDiff
+        diff={diff.tree}
+        baseLabel={baseLabel}
+        targetLabel={targetLabel}
+        sensitiveKeys={sensitiveKeys}
+      />
+    </Space>
+  );
+};
+
+export default RuleVersionDiff;
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import { render, screen, within } from "@testing-library/react";
+import { RuleVersionDiff } from "../RuleVersionDiff";
+import { Operator } from "../../../types/enums";
+import { toSensitiveKeySet } from "../../../shared/utils/sensitiveData";
+
+const sensitiveKeys = toSensitiveKeySet(["CARD_NUMBER"]);
+
+const base = {
+  condition_tree: {
+    and: [
+      { field: "AMOUNT", op: Operator.GT, value: 5000 },
+      { field: "COUNTRY", op: Operator.EQ, value: "NG" },
+    ],
+  },
+  priority: 10,
+  scope: null,
+};
+
+describe("RuleVersionDiff", () => {
+  it("renders summary counts and highlighted rows side by side", () => {
+    render(
+      <RuleVersionDiff
+        base={base}
+        target={{
+          condition_tree: {
+            and: [
+              { field: "AMOUNT", op: Operator.GT, value: 7500 },
+              { field: "MCC", op: Operator.EQ, value: "7995" },
+            ],
+          },
+          priority: 5,
+          scope: { mcc: ["7995"] },
+        }}
+        baseLabel="v3"
+        targetLabel="v5"
+        sensitiveKeys={sensitiveKeys}
+      />
+    );
+
+    expect(screen.getByText("+1 added")).toBeInTheDocument();
+    expect(screen.getByText("−1 removed")).toBeInTheDocument();
+    expect(screen.getByText("~1 modified")).toBeInTheDocument();
+    expect(screen.getByText("threshold: 5000 → 7500")).toBeInTheDocument();
+    expect(screen.getByText("+7995")).toBeInTheDocument();
+    expect(screen.getByText("Priority")).toBeInTheDocument();
+
+    const rows = within(screen.getByRole("table", { name: "Condition tree diff" })).getAllByRole(
+      "row"
+    );
+    expect(rows[0]).toHaveTextContent("v3");
+    expect(rows[0]).toHaveTextContent("v5");
+    expect(rows.slice(1).map((row) => row.getAttribute("data-status"))).toEqual([
+      "unchanged",
+      "modified",
+      "added",
+      "removed",
+    ]);
+  });
+
+  it("masks sensitive values after diffing, so a changed value still shows as modified", () => {
+    const card = (value: string) => ({
+      condition_tree: { and: [{ field: "CARD_NUMBER", op: Operator.EQ, value }] },
+      priority: 10,
+      scope: null,
+    });
+    render(
+      <RuleVersionDiff
+        base={card("4111111111111111")}
+        target={card("4222222222222222")}
+        baseLabel="v1"
+        targetLabel="v2"
+        sensitiveKeys={sensitiveKeys}
+      />
+    );
+
+    expect(screen.getByText("~1 modified")).toBeInTheDocument();
+    expect(screen.getByText("value: •••••• → ••••••")).toBeInTheDocument();
+    expect(document.body).not.toHaveTextContent("4111111111111111");
+    expect(document.body).not.toHaveTextContent("4222222222222222");
+  });
+
+  it("masks every value when no sensitive keys are given", () => {
+    render(
+      <RuleVersionDiff
+        base={base}
+        target={{
+          ...base,
+          condition_tree: { and: [{ field: "AMOUNT", op: Operator.GT, value: 7500 }] },
+        }}
+        baseLabel="v1"
+        targetLabel="v2"
+      />
+    );
+
+    expect(screen.getByText("threshold: •••••• → ••••••")).toBeInTheDocument();
+    expect(document.body).not.toHaveTextContent("7500");
+  });
+
+  it("says when versions are identical", () => {
+    render(<RuleVersionDiff base={base} target={base} baseLabel="v1" targetLabel="v2" />);
+
+    expect(screen.getByText("No differences between versions")).toBeInTheDocument();
+  });
+});
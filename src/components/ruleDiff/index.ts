@@ -0,0 +1,9 @@
+/**
+ * Rule Diff Components
+ *
+ * Components for comparing rule versions.
+ */
+
+export { ConditionTreeDiff } from "./ConditionTreeDiff";
+export { RuleVersionDiff } from "./RuleVersionDiff";
+export type { RuleVersionDiffInput } from "./RuleVersionDiff";
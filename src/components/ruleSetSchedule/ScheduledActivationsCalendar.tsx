@@ -0,0 +1,103 @@
+/**
+ * ScheduledActivationsCalendar Component
+ *
+ * Month calendar marking days with scheduled rule set activations, and the
+ * list of activations on the selected day (or all upcoming ones).
+ */
+
+import { useMemo, useState, type FC, type ReactNode } from "react";
+import { Badge, Button, Calendar, Card, List, Tag, Typography } from "antd";
+import { Link } from "react-router";
+import dayjs, { type Dayjs } from "dayjs";
+import type { ScheduledRuleSetActivation } from "../../api/types";
+import { useScheduledActivations } from "../../hooks/useRuleSetActivation";
+import { formatDateTime } from "../../shared/utils/format";
+import "./scheduled-activations.css";
+
+const { Text } = Typography;
+
+const DAY_FORMAT = "YYYY-MM-DD";
+
+function groupByDay(
+  activations: ScheduledRuleSetActivation[]
+): Map<string, ScheduledRuleSetActivation[]> {
+  const byDay = new Map<string, ScheduledRuleSetActivation[]>();
+  for (const activation of activations) {
+    const day = dayjs(activation.activate_at).format(DAY_FORMAT);
+    byDay.set(day, [...(byDay.get(day) ?? []), activation]);
+  }
+  return byDay;
+}
+
+function renderActivation(activation: ScheduledRuleSetActivation): ReactNode {
+  return (
+    <List.Item>
+      <List.Item.Meta
+        title={
+          <Link to={`/rulesets/show/${activation.ruleset_id}`}>
+            {activation.ruleset_name ?? activation.ruleset_id} v{activation.version}
+          </Link>
+        }
+        description={`${formatDateTime(activation.activate_at)} · scheduled by ${activation.scheduled_by}`}
+      />
+      <Tag>{activation.environment}</Tag>
+    </List.Item>
+  );
+}
+
+export const ScheduledActivationsCalendar: FC = () => {
+  const { activations, isLoading } = useScheduledActivations();
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+  const byDay = useMemo(() => groupByDay(activations), [activations]);
+
+  const listed = selectedDay == null ? activations : (byDay.get(selectedDay) ?? []);
+
+  const cellRender = (date: Dayjs, info: { type: string; originNode: ReactNode }): ReactNode => {
+    if (info.type !== "date") return info.originNode;
+    const count = byDay.get(date.format(DAY_FORMAT))?.length ?? 0;
+    return (
+      <div className="scheduled-activation-cell">
+        {info.originNode}
+        {count > 0 && <Badge count={count} size="small" color="blue" />}
+      </div>
+    );
+  };
+
+  return (
+    <Card
+      size="small"
+      title="Scheduled Activations"
+      loading={isLoading}
+      extra={
+        selectedDay != null && (
+          <Button size="small" type="link" onClick={() => setSelectedDay(null)}>
+            Show all upcoming
+          </Button>
+        )
+      }
+    >
+      <Calendar
+        fullscreen={false}
+        fullCellRender={cellRender}
+        onSelect={(date, { source }) => {
+          if (source === "date") setSelectedDay(date.format(DAY_FORMAT));
+        }}
+      />
+      <List
+        className="scheduled-activations-list"
+        size="small"
+        header={
+          <Text strong>
+            {selectedDay == null ? "Upcoming" : dayjs(selectedDay).format("MMM D, YYYY")}
+          </Text>
+        }
+        dataSource={listed}
+        rowKey="ruleset_version_id"
+        locale={{ emptyText: "No activations scheduled" }}
+        renderItem={renderActivation}
+      />
+    </Card>
+  );
+};
+
+export default ScheduledActivationsCalendar;
@@ -0,0 +1,47 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, within } from "@/test/utils";
+import userEvent from "@testing-library/user-event";
+import dayjs from "dayjs";
+import { ScheduledActivationsCalendar } from "../ScheduledActivationsCalendar";
+import * as httpClient from "../../../api/httpClient";
+import { RULESET_VERSIONS } from "../../../api/endpoints";
+import { RulesetEnvironment } from "../../../types/enums";
+import type { ScheduledRuleSetActivation } from "../../../api/types";
+
+// Mid-month so the day is always visible in the current calendar view
+const activationDay = dayjs().date(15).hour(2).minute(0).second(0).millisecond(0);
+
+const activation: ScheduledRuleSetActivation = {
+  ruleset_version_id: "rsv_rs_001_v4",
+  ruleset_id: "rs_001",
+  ruleset_name: "India High Value Blocking",
+  environment: RulesetEnvironment.PROD,
+  version: 4,
+  activate_at: activationDay.toISOString(),
+  scheduled_by: "carol@example.com",
+};
+
+describe("ScheduledActivationsCalendar", () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("lists upcoming activations and filters by the selected day", async () => {
+    vi.spyOn(httpClient, "get").mockResolvedValue([activation]);
+
+    render(<ScheduledActivationsCalendar />);
+
+    const link = await screen.findByRole("link", { name: "India High Value Blocking v4" });
+    expect(link).toHaveAttribute("href", "/rulesets/show/rs_001");
+    expect(httpClient.get).toHaveBeenCalledWith(RULESET_VERSIONS.SCHEDULED, expect.anything());
+
+    const dayCell = screen.getByTitle(activationDay.format("YYYY-MM-DD"));
+    expect(within(dayCell).getByText("1")).toBeInTheDocument();
+
+    await userEvent.click(screen.getByTitle(activationDay.date(16).format("YYYY-MM-DD")));
+    expect(screen.getByText("No activations scheduled")).toBeInTheDocument();
+
+    await userEvent.click(screen.getByRole("button", { name: "Show all upcoming" }));
+    expect(screen.getByRole("link", { name: "India High Value Blocking v4" })).toBeInTheDocument();
+  });
+});
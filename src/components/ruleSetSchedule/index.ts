@@ -0,0 +1,7 @@
+/**
+ * Rule Set Schedule Components
+ *
+ * Components for upcoming rule set version activations.
+ */
+
+export { ScheduledActivationsCalendar } from "./ScheduledActivationsCalendar";
@@ -0,0 +1,110 @@
+/**
+ * AddRuleTestCaseModal Component
+ *
+ * Modal for saving a named sample transaction with its expected outcome.
+ */
+
+import React from "react";
+import { Modal, Form, Input, Radio } from "antd";
+import type { PersistedConditionTree, RuleTestCaseExpectation } from "../../types/domain";
+import type { CreateRuleTestCaseRequest } from "../../api/types";
+import { buildSampleTemplate, parseSampleTransaction } from "../../shared/utils/sampleTransaction";
+
+interface AddRuleTestCaseFormValues {
+  name: string;
+  expected: RuleTestCaseExpectation;
+  sample: string;
+}
+
+interface AddRuleTestCaseModalProps {
+  open: boolean;
+  conditionTree: PersistedConditionTree | null;
+  onCancel: () => void;
+  onSubmit: (testCase: CreateRuleTestCaseRequest) => void;
+  loading?: boolean;
+}
+
+/**
+ * Modal for creating rule test cases
+ */
+export function AddRuleTestCaseModal({
+  open,
+  conditionTree,
+  onCancel,
+  onSubmit,
+  loading = false,
+}: AddRuleTestCaseModalProps): React.ReactElement {
+  const [form] = Form.useForm<AddRuleTestCaseFormValues>();
+
+  const handleOk = async (): Promise<void> => {
+    try {
+      const values = await form.validateFields();
+      onSubmit({
+        name: values.name.trim(),
+        expected: values.expected,
+        sample: parseSampleTransaction(values.sample).sample ?? {},
+      });
+    } catch {
+      // Validation failed - ignore to prevent unhandled rejections
+    }
+  };
+
+  return (
+    <Modal
+      title="Add Test Case"
+      open={open}
+      onOk={() => {
+        void handleOk();
+      }}
+      onCancel={onCancel}
+      confirmLoading={loading}
+      okText="Save Test Case"
+      destroyOnHidden
+      width={560}
+    >
+      <Form
+        form={form}
+        layout="vertical"
+        preserve={false}
+        initialValues={{ expected: "MATCH", sample: buildSampleTemplate(conditionTree) }}
+      >
+        <Form.Item
+          name="name"
+          label="Name"
+          rules={[{ required: true, whitespace: true, message: "Please enter a name" }]}
+        >
+          <Input placeholder="e.g. Large cross-border purchase" />
+        </Form.Item>
+
+        <Form.Item name="expected" label="Expected Outcome">
+          <Radio.Group
+            options={[
+              { label: "Match", value: "MATCH" },
+              { label: "No match", value: "NO_MATCH" },
+            ]}
+            optionType="button"
+          />
+        </Form.Item>
+
+        <Form.Item
+          name="sample"
+          label="Sample Transaction JSON"
+          rules={[
+            {
+              validator: (_, value: string | undefined) => {
+                const parsed = parseSampleTransaction(value ?? "");
+                return parsed.error == null
+                  ? Promise.resolve()
+                  : Promise.reject(new Error(parsed.error));
+              },
+            },
+          ]}
+        >
+          <Input.TextArea autoSize={{ minRows: 4, maxRows: 12 }} />
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+}
+
+export default AddRuleTestCaseModal;
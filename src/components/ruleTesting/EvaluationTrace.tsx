@@ -0,0 +1,99 @@
+/**
+ * EvaluationTrace Component
+ *
+ * Renders the per-predicate trace produced by the client-side condition
+ * evaluator so reviewers can see exactly which leaf passed or failed.
+ * Expected and actual values of sensitive fields are masked.
+ */
+
+import type { FC } from "react";
+import { Tag, Typography } from "antd";
+import { CheckCircleOutlined, CloseCircleOutlined } from "@ant-design/icons";
+import { Table } from "../../shared/compat/antdCompat";
+import type { VelocityField } from "../../types/domain";
+import { formatVelocityField } from "../../shared/utils/format";
+import { MASK_ALL_KEYS, maskPredicateValue } from "../../shared/utils/sensitiveData";
+import {
+  flattenPredicateTraces,
+  type EvaluationResult,
+  type PredicateTrace,
+} from "../../shared/utils/conditionEvaluator";
+
+interface EvaluationTraceProps {
+  result: EvaluationResult;
+  /** Fields whose values are masked; every value is masked when omitted */
+  sensitiveKeys?: ReadonlySet<string>;
+}
+
+function formatField(field: string | VelocityField): string {
+  if (typeof field === "string") return field;
+  return formatVelocityField(field);
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function maskTrace(trace: PredicateTrace, sensitiveKeys: ReadonlySet<string>): PredicateTrace {
+  return {
+    ...trace,
+    expected: maskPredicateValue(trace.field, trace.expected, sensitiveKeys),
+    actual: maskPredicateValue(trace.field, trace.actual, sensitiveKeys),
+  };
+}
+
+export const EvaluationTrace: FC<EvaluationTraceProps> = ({
+  result,
+  sensitiveKeys = MASK_ALL_KEYS,
+}) => {
+  const predicates = flattenPredicateTraces(result.trace).map((trace) =>
+    maskTrace(trace, sensitiveKeys)
+  );
+
+  return (
+    <Table
+      dataSource={predicates}
+      size="small"
+      variant="outlined"
+      rowKey={(trace) => trace.path}
+      pagination={false}
+      scroll={{ x: true }}
+    >
+      <Table.Column<PredicateTrace>
+        title="Field"
+        render={(_, trace) => <Typography.Text code>{formatField(trace.field)}</Typography.Text>}
+      />
+      <Table.Column<PredicateTrace> dataIndex="op" title="Operator" />
+      <Table.Column<PredicateTrace>
+        title="Expected"
+        render={(_, trace) => formatValue(trace.expected)}
+      />
+      <Table.Column<PredicateTrace>
+        title="Actual"
+        render={(_, trace) => formatValue(trace.actual)}
+      />
+      <Table.Column<PredicateTrace>
+        title="Result"
+        render={(_, trace) => (
+          <>
+            {trace.matched ? (
+              <Tag color="success" icon={<CheckCircleOutlined />}>
+                Pass
+              </Tag>
+            ) : (
+              <Tag color="error" icon={<CloseCircleOutlined />}>
+                Fail
+              </Tag>
+            )}
+            {trace.error != null && (
+              <Typography.Text type="secondary">{trace.error}</Typography.Text>
+            )}
+          </>
+        )}
+      />
+    </Table>
+  );
+};
+
+export default EvaluationTrace;
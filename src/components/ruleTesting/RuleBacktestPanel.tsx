@@ -0,0 +1,228 @@
+/**
+ * RuleBacktestPanel Component
+ *
+ * Backtests a condition tree over a date range of stored transactions and
+ * compares the matches with analyst outcomes: precision, recall, projected
+ * alert volume and a sample of hits linking to the transactions.
+ */
+
+import React, { useState } from "react";
+import { Alert, Button, Card, Col, DatePicker, Row, Space, Statistic, Tag, Typography } from "antd";
+import { LineChartOutlined } from "@ant-design/icons";
+import { Link } from "react-router";
+import dayjs, { type Dayjs } from "dayjs";
+import { Table } from "../../shared/compat/antdCompat";
+import type { PersistedConditionTree, RuleVersion } from "../../types/domain";
+import type { ResolutionCode } from "../../types/review";
+import type {
+  RuleBacktestConfusionMatrix,
+  RuleBacktestResponse,
+  RuleBacktestSampleHit,
+} from "../../api/types";
+import { useRuleBacktest } from "../../hooks/useRuleBacktest";
+import { computeBacktestMetrics, formatRatio } from "../../shared/utils/backtestMetrics";
+
+const { Text } = Typography;
+const { RangePicker } = DatePicker;
+
+const DEFAULT_RANGE_DAYS = 30;
+const SAMPLE_LIMIT = 25;
+
+interface RuleBacktestPanelProps {
+  readonly conditionTree: PersistedConditionTree | null;
+  readonly scope?: RuleVersion["scope"];
+  readonly ruleType?: string;
+}
+
+interface MatrixRow {
+  key: string;
+  outcome: string;
+  matched: number;
+  notMatched: number;
+}
+
+function toMatrixRows(matrix: RuleBacktestConfusionMatrix): MatrixRow[] {
+  return [
+    {
+      key: "fraud",
+      outcome: "Fraud confirmed",
+      matched: matrix.true_positives,
+      notMatched: matrix.false_negatives,
+    },
+    {
+      key: "false-positive",
+      outcome: "False positive",
+      matched: matrix.false_positives,
+      notMatched: matrix.true_negatives,
+    },
+    {
+      key: "unlabelled",
+      outcome: "Unlabelled",
+      matched: matrix.unlabelled_matches,
+      notMatched: matrix.unlabelled_non_matches,
+    },
+  ];
+}
+
+function OutcomeTag({ code }: Readonly<{ code: ResolutionCode | null }>): React.ReactElement {
+  if (code == null) return <Tag>Unreviewed</Tag>;
+  const color: Partial<Record<ResolutionCode, string>> = {
+    FRAUD_CONFIRMED: "error",
+    FALSE_POSITIVE: "warning",
+  };
+  return <Tag color={color[code]}>{code.replace("_", " ")}</Tag>;
+}
+
+const sampleColumns = [
+  {
+    title: "Transaction",
+    dataIndex: "transaction_id",
+    key: "transaction_id",
+    render: (id: string, hit: RuleBacktestSampleHit) => (
+      <Link to={`/transactions/show/${id}`}>{hit.transaction_reference ?? id}</Link>
+    ),
+  },
+  {
+    title: "Date",
+    dataIndex: "transaction_date",
+    key: "transaction_date",
+    render: (value: string) => dayjs(value).format("YYYY-MM-DD HH:mm"),
+  },
+  {
+    title: "Amount",
+    key: "amount",
+    render: (_: unknown, hit: RuleBacktestSampleHit) => `${hit.amount.toFixed(2)} ${hit.currency}`,
+  },
+  {
+    title: "Merchant",
+    dataIndex: "merchant_name",
+    key: "merchant_name",
+    render: (value: string | null | undefined) => value ?? "-",
+  },
+  {
+    title: "Outcome",
+    dataIndex: "resolution_code",
+    key: "resolution_code",
+    render: (code: ResolutionCode | null) => <OutcomeTag code={code} />,
+  },
+];
+
+const matrixColumns = [
+  { title: "Analyst outcome", dataIndex: "outcome", key: "outcome" },
+  { title: "Rule matched", dataIndex: "matched", key: "matched" },
+  { title: "Not matched", dataIndex: "notMatched", key: "notMatched" },
+];
+
+function BacktestResults({
+  result,
+}: Readonly<{ result: RuleBacktestResponse }>): React.ReactElement {
+  const metrics = computeBacktestMetrics(result);
+
+  return (
+    <Space direction="vertical" className="full-width" size="middle">
+      <Row gutter={16}>
+        <Col span={6}>
+          <Statistic
+            title="Matches"
+            value={result.match_count}
+            suffix={`/ ${result.transactions_evaluated}`}
+          />
+        </Col>
+        <Col span={6}>
+          <Statistic title="Precision" value={formatRatio(metrics.precision)} />
+        </Col>
+        <Col span={6}>
+          <Statistic title="Recall" value={formatRatio(metrics.recall)} />
+        </Col>
+        <Col span={6}>
+          <Statistic title="Alerts / day" value={metrics.alertsPerDay.toFixed(1)} />
+        </Col>
+      </Row>
+
+      <Table<MatrixRow>
+        aria-label="Confusion matrix"
+        size="small"
+        pagination={false}
+        dataSource={toMatrixRows(result.confusion_matrix)}
+        columns={matrixColumns}
+      />
+
+      <Text type="secondary">
+        {result.from_date} to {result.to_date} ({result.days} days). Precision and recall only count
+        transactions resolved as FRAUD_CONFIRMED or FALSE_POSITIVE.
+      </Text>
+
+      <Table<RuleBacktestSampleHit>
+        aria-label="Sample hits"
+        size="small"
+        rowKey="transaction_id"
+        pagination={false}
+        dataSource={result.sample_hits}
+        columns={sampleColumns}
+        locale={{ emptyText: "No matching transactions" }}
+      />
+    </Space>
+  );
+}
+
+export const RuleBacktestPanel: React.FC<RuleBacktestPanelProps> = ({
+  conditionTree,
+  scope,
+  ruleType,
+}) => {
+  const { run, loading, error, lastResult } = useRuleBacktest();
+  const [range, setRange] = useState<[Dayjs, Dayjs]>(() => [
+    dayjs().subtract(DEFAULT_RANGE_DAYS, "day"),
+    dayjs(),
+  ]);
+
+  const handleRun = (): void => {
+    if (conditionTree == null) return;
+    run({
+      rule_type: ruleType,
+      condition_tree: conditionTree,
+      scope: scope ?? undefined,
+      from_date: range[0].format("YYYY-MM-DD"),
+      to_date: range[1].format("YYYY-MM-DD"),
+      sample_limit: SAMPLE_LIMIT,
+    }).catch(() => undefined);
+  };
+
+  return (
+    <Card title="Historical Backtest" size="small" variant="outlined">
+      <Space direction="vertical" className="full-width" size="middle">
+        <Text type="secondary">
+          Run the condition tree over stored transactions and compare its matches with analyst
+          outcomes.
+        </Text>
+        <Space wrap>
+          <RangePicker
+            value={range}
+            allowClear={false}
+            disabledDate={(date) => date.isAfter(dayjs(), "day")}
+            onChange={(dates) => {
+              if (dates?.[0] != null && dates[1] != null) setRange([dates[0], dates[1]]);
+            }}
+          />
+          <Button
+            type="primary"
+            icon={<LineChartOutlined />}
+            loading={loading}
+            disabled={conditionTree == null}
+            onClick={handleRun}
+          >
+            Run Backtest
+          </Button>
+        </Space>
+
+        {error != null && (
+          <Alert type="error" showIcon message="Backtest failed" description={error} />
+        )}
+
+        {lastResult != null && <BacktestResults result={lastResult} />}
+      </Space>
+    </Card>
+  );
+};
+
+export default RuleBacktestPanel;
@@ -0,0 +1,214 @@
+/**
+ * RuleTestCasesPanel Component
+ *
+ * Runs a rule version's saved test cases against a condition tree and shows
+ * the pass/fail table. Results are recomputed whenever the tree changes, so
+ * the panel tracks edits made in the condition builder.
+ */
+
+import React, { useMemo, useState } from "react";
+import { Alert, Button, Card, Empty, Popconfirm, Space, Tag, Typography, message } from "antd";
+import {
+  CheckCircleOutlined,
+  CloseCircleOutlined,
+  DeleteOutlined,
+  ExperimentOutlined,
+  PlusOutlined,
+} from "@ant-design/icons";
+import { Table } from "../../shared/compat/antdCompat";
+import type {
+  PersistedConditionTree,
+  RuleTestCase,
+  RuleTestCaseExpectation,
+} from "../../types/domain";
+import type { CreateRuleTestCaseRequest } from "../../api/types";
+import {
+  runRuleTestCases,
+  summarizeRuleTestCaseResults,
+  type RuleTestCaseResult,
+} from "../../shared/utils/ruleTestCases";
+import { EvaluationTrace } from "./EvaluationTrace";
+import AddRuleTestCaseModal from "./AddRuleTestCaseModal";
+
+const { Text } = Typography;
+
+interface RuleTestCasesPanelProps {
+  readonly testCases: RuleTestCase[];
+  readonly conditionTree: PersistedConditionTree | null;
+  readonly loading?: boolean;
+  readonly error?: Error | null;
+  readonly onAddTestCase?: (testCase: CreateRuleTestCaseRequest) => Promise<void>;
+  readonly onDeleteTestCase?: (testCaseId: string) => Promise<void>;
+  /** Fields whose values are masked in the traces; every value is masked when omitted */
+  readonly sensitiveKeys?: ReadonlySet<string>;
+}
+
+function OutcomeTag({
+  outcome,
+}: Readonly<{ outcome: RuleTestCaseExpectation }>): React.ReactElement {
+  return <Tag color={outcome === "MATCH" ? "blue" : "default"}>{outcome.replace("_", " ")}</Tag>;
+}
+
+function ResultTag({ passed }: Readonly<{ passed: boolean }>): React.ReactElement {
+  return passed ? (
+    <Tag color="success" icon={<CheckCircleOutlined />}>
+      Pass
+    </Tag>
+  ) : (
+    <Tag color="error" icon={<CloseCircleOutlined />}>
+      Fail
+    </Tag>
+  );
+}
+
+function renderTrace(
+  result: RuleTestCaseResult,
+  sensitiveKeys: ReadonlySet<string> | undefined
+): React.ReactElement {
+  return <EvaluationTrace result={result.evaluation} sensitiveKeys={sensitiveKeys} />;
+}
+
+/**
+ * Panel for running and managing rule test cases
+ */
+export function RuleTestCasesPanel({
+  testCases,
+  conditionTree,
+  loading = false,
+  error = null,
+  onAddTestCase,
+  onDeleteTestCase,
+  sensitiveKeys,
+}: RuleTestCasesPanelProps): React.ReactElement {
+  const [addModalOpen, setAddModalOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const results = useMemo(
+    () => runRuleTestCases(conditionTree, testCases),
+    [conditionTree, testCases]
+  );
+  const summary = summarizeRuleTestCaseResults(results);
+
+  const handleAddTestCase = (testCase: CreateRuleTestCaseRequest): void => {
+    if (onAddTestCase == null) return;
+    setSaving(true);
+    onAddTestCase(testCase)
+      .then(() => {
+        void message.success("Test case saved");
+        setAddModalOpen(false);
+      })
+      .catch(() => {
+        void message.error("Failed to save test case");
+      })
+      .finally(() => {
+        setSaving(false);
+      });
+  };
+
+  return (
+    <>
+      <Card
+        size="small"
+        variant="outlined"
+        title={
+          <Space>
+            <ExperimentOutlined />
+            Test Cases
+            {summary.total > 0 && (
+              <Tag color={summary.failed === 0 ? "success" : "error"}>
+                {summary.passed}/{summary.total} passing
+              </Tag>
+            )}
+          </Space>
+        }
+        extra={
+          onAddTestCase != null && (
+            <Button
+              type="primary"
+              size="small"
+              icon={<PlusOutlined />}
+              onClick={() => setAddModalOpen(true)}
+            >
+              Add Test Case
+            </Button>
+          )
+        }
+      >
+        {error != null && (
+          <Alert
+            type="error"
+            showIcon
+            message="Failed to load test cases"
+            description={error.message}
+          />
+        )}
+        <Table<RuleTestCaseResult>
+          dataSource={results}
+          size="small"
+          variant="outlined"
+          loading={loading}
+          rowKey={(result) => result.testCase.test_case_id}
+          pagination={false}
+          expandable={{ expandedRowRender: (result) => renderTrace(result, sensitiveKeys) }}
+          locale={{
+            emptyText: (
+              <Empty
+                image={Empty.PRESENTED_IMAGE_SIMPLE}
+                description={<Text type="secondary">No test cases saved for this version.</Text>}
+              />
+            ),
+          }}
+        >
+          <Table.Column<RuleTestCaseResult>
+            title="Name"
+            render={(_, result) => result.testCase.name}
+          />
+          <Table.Column<RuleTestCaseResult>
+            title="Expected"
+            render={(_, result) => <OutcomeTag outcome={result.testCase.expected} />}
+          />
+          <Table.Column<RuleTestCaseResult>
+            title="Actual"
+            render={(_, result) => <OutcomeTag outcome={result.actual} />}
+          />
+          <Table.Column<RuleTestCaseResult>
+            title="Result"
+            render={(_, result) => <ResultTag passed={result.passed} />}
+          />
+          {onDeleteTestCase != null && (
+            <Table.Column<RuleTestCaseResult>
+              title="Actions"
+              render={(_, result) => (
+                <Popconfirm
+                  title="Delete this test case?"
+                  onConfirm={() => {
+                    onDeleteTestCase(result.testCase.test_case_id).catch(() => {
+                      void message.error("Failed to delete test case");
+                    });
+                  }}
+                >
+                  <Button
+                    size="small"
+                    danger
+                    icon={<DeleteOutlined />}
+                    aria-label={`Delete ${result.testCase.name}`}
+                  />
+                </Popconfirm>
+              )}
+            />
+          )}
+        </Table>
+      </Card>
+
+      <AddRuleTestCaseModal
+        open={addModalOpen}
+        conditionTree={conditionTree}
+        onCancel={() => setAddModalOpen(false)}
+        onSubmit={handleAddTestCase}
+        loading={saving}
+      />
+    </>
+  );
+}
+
+export default RuleTestCasesPanel;
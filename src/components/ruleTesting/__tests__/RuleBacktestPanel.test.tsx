@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor, within } from "@/test/utils";
+import userEvent from "@testing-library/user-event";
+import { RuleBacktestPanel } from "../RuleBacktestPanel";
+import * as httpClient from "../../../api/httpClient";
+import { RULES } from "../../../api/endpoints";
+import { Operator } from "../../../types/enums";
+import type { RuleBacktestResponse } from "../../../api/types";
+
+const tree = { and: [{ field: "AMOUNT", op: Operator.GT, value: 500 }] };
+
+const response: RuleBacktestResponse = {
+  backtest_id: "bt_1",
+  from_date: "2026-01-01",
+  to_date: "2026-01-10",
+  days: 10,
+  transactions_evaluated: 120,
+  match_count: 25,
+  confusion_matrix: {
+    true_positives: 9,
+    false_positives: 3,
+    false_negatives: 1,
+    true_negatives: 40,
+    unlabelled_matches: 13,
+    unlabelled_non_matches: 54,
+  },
+  sample_hits: [
+    {
+      transaction_id: "txn_hist_0001",
+      transaction_reference: "TXN-HIST-0001",
+      transaction_date: "2026-01-02T10:00:00Z",
+      amount: 900,
+      currency: "USD",
+      merchant_name: "Lucky Star Casino",
+      resolution_code: "FRAUD_CONFIRMED",
+    },
+  ],
+};
+
+describe("RuleBacktestPanel", () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("runs the backtest and shows metrics, the confusion matrix and sample hits", async () => {
+    const postSpy = vi.spyOn(httpClient, "post").mockResolvedValue(response);
+
+    render(<RuleBacktestPanel conditionTree={tree} scope={{ mcc: ["7995"] }} ruleType="AUTH" />);
+    await userEvent.click(screen.getByRole("button", { name: /Run Backtest/ }));
+
+    expect(await screen.findByText("75.0%")).toBeInTheDocument();
+    expect(screen.getByText("90.0%")).toBeInTheDocument();
+    expect(screen.getByText("Alerts / day").closest(".ant-statistic")).toHaveTextContent("2.5");
+
+    expect(postSpy).toHaveBeenCalledWith(
+      RULES.BACKTEST,
+      expect.objectContaining({
+        rule_type: "AUTH",
+        condition_tree: tree,
+        scope: { mcc: ["7995"] },
+        sample_limit: 25,
+      })
+    );
+
+    const matrix = screen.getByRole("table", { name: "Confusion matrix" });
+    const fraudRow = within(matrix).getByText("Fraud confirmed").closest("tr") as HTMLElement;
+    expect(within(fraudRow).getByText("9")).toBeInTheDocument();
+    expect(within(fraudRow).getByText("1")).toBeInTheDocument();
+
+    expect(screen.getByRole("link", { name: "TXN-HIST-0001" })).toHaveAttribute(
+      "href",
+      "/transactions/show/txn_hist_0001"
+    );
+  });
+
+  it("shows an error when the backtest fails", async () => {
+    vi.spyOn(httpClient, "post").mockRejectedValue(new Error("Range too large"));
+
+    render(<RuleBacktestPanel conditionTree={tree} />);
+    await userEvent.click(screen.getByRole("button", { name: /Run Backtest/ }));
+
+    await waitFor(() => expect(screen.getByText("Range too large")).toBeInTheDocument());
+  });
+});
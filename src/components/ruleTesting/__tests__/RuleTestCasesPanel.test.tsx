@@ -0,0 +1,121 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { RuleTestCasesPanel } from "../RuleTestCasesPanel";
+import { Operator } from "../../../types/enums";
+import type { PersistedConditionTree, RuleTestCase } from "../../../types/domain";
+
+const tree: PersistedConditionTree = {
+  and: [{ field: "AMOUNT", op: Operator.GT, value: 500 }],
+};
+
+const testCases: RuleTestCase[] = [
+  {
+    test_case_id: "tc_1",
+    rule_version_id: "rv_1",
+    name: "Large purchase",
+    sample: { AMOUNT: 900 },
+    expected: "MATCH",
+    created_by: "maker",
+    created_at: "2024-01-01T00:00:00Z",
+  },
+  {
+    test_case_id: "tc_2",
+    rule_version_id: "rv_1",
+    name: "Small purchase",
+    sample: { AMOUNT: 100 },
+    expected: "MATCH",
+    created_by: "maker",
+    created_at: "2024-01-01T00:00:00Z",
+  },
+];
+
+describe("RuleTestCasesPanel", () => {
+  it("shows pass/fail results and the summary", () => {
+    render(<RuleTestCasesPanel testCases={testCases} conditionTree={tree} />);
+
+    expect(screen.getByText("1/2 passing")).toBeInTheDocument();
+    expect(screen.getByText("Pass")).toBeInTheDocument();
+    expect(screen.getByText("Fail")).toBeInTheDocument();
+  });
+
+  it("re-runs when the condition tree changes", () => {
+    const { rerender } = render(<RuleTestCasesPanel testCases={testCases} conditionTree={tree} />);
+
+    rerender(
+      <RuleTestCasesPanel
+        testCases={testCases}
+        conditionTree={{ and: [{ field: "AMOUNT", op: Operator.GT, value: 50 }] }}
+      />
+    );
+
+    expect(screen.getByText("2/2 passing")).toBeInTheDocument();
+  });
+
+  it("is read-only without handlers", () => {
+    render(<RuleTestCasesPanel testCases={testCases} conditionTree={tree} />);
+
+    expect(screen.queryByRole("button", { name: /Add Test Case/ })).not.toBeInTheDocument();
+    expect(screen.queryByLabelText("Delete Large purchase")).not.toBeInTheDocument();
+  });
+
+  it("saves a new test case from the modal", async () => {
+    const onAddTestCase = vi.fn().mockResolvedValue(undefined);
+    render(
+      <RuleTestCasesPanel testCases={[]} conditionTree={tree} onAddTestCase={onAddTestCase} />
+    );
+
+    expect(screen.getByText("No test cases saved for this version.")).toBeInTheDocument();
+    fireEvent.click(screen.getByRole("button", { name: /Add Test Case/ }));
+
+    const sample = (await screen.findByLabelText("Sample Transaction JSON")) as HTMLTextAreaElement;
+    expect(JSON.parse(sample.value)).toEqual({ AMOUNT: null });
+
+    fireEvent.change(screen.getByLabelText("Name"), { target: { value: " Boundary " } });
+    fireEvent.change(sample, { target: { value: '{"AMOUNT": 500}' } });
+    fireEvent.click(screen.getByText("No match"));
+    fireEvent.click(screen.getByRole("button", { name: "Save Test Case" }));
+
+    await waitFor(() =>
+      expect(onAddTestCase).toHaveBeenCalledWith({
+        name: "Boundary",
+        expected: "NO_MATCH",
+        sample: { AMOUNT: 500 },
+      })
+    );
+  });
+
+  it("rejects invalid sample JSON", async () => {
+    const onAddTestCase = vi.fn().mockResolvedValue(undefined);
+    render(
+      <RuleTestCasesPanel testCases={[]} conditionTree={tree} onAddTestCase={onAddTestCase} />
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: /Add Test Case/ }));
+    fireEvent.change(await screen.findByLabelText("Name"), { target: { value: "Broken" } });
+    fireEvent.change(screen.getByLabelText("Sample Transaction JSON"), {
+      target: { value: "{oops" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Save Test Case" }));
+
+    expect(await screen.findByText("Sample transaction must be valid JSON.")).toBeInTheDocument();
+    expect(onAddTestCase).not.toHaveBeenCalled();
+  });
+
+  it("reports a failed delete without hiding the list", async () => {
+    const onDeleteTestCase = vi.fn().mockRejectedValue(new Error("nope"));
+    render(
+      <RuleTestCasesPanel
+        testCases={testCases}
+        conditionTree={tree}
+        onDeleteTestCase={onDeleteTestCase}
+      />
+    );
+
+    fireEvent.click(screen.getByLabelText("Delete Large purchase"));
+    fireEvent.click(await screen.findByRole("button", { name: "OK" }));
+
+    expect(await screen.findByText("Failed to delete test case")).toBeInTheDocument();
+    expect(onDeleteTestCase).toHaveBeenCalledWith("tc_1");
+    expect(screen.getByText("Large purchase")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,10 @@
+/**
+ * Rule Testing Components
+ *
+ * Components for evaluating condition trees against sample transactions.
+ */
+
+export { EvaluationTrace } from "./EvaluationTrace";
+export { AddRuleTestCaseModal } from "./AddRuleTestCaseModal";
+export { RuleTestCasesPanel } from "./RuleTestCasesPanel";
+export { RuleBacktestPanel } from "./RuleBacktestPanel";
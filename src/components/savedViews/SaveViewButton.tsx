@@ -0,0 +1,58 @@
+/**
+ * SaveViewButton Component
+ *
+ * Saves the filters currently applied on a list page as a new saved view.
+ */
+
+import { useState, type FC } from "react";
+import { Button, message } from "antd";
+import { SaveOutlined } from "@ant-design/icons";
+import { useSavedViews } from "../../hooks/useSavedViews";
+import type { SavedViewCreateRequest, SavedViewTarget } from "../../types/savedView";
+import { SavedViewFormModal } from "./SavedViewFormModal";
+
+export interface SaveViewButtonProps {
+  target: SavedViewTarget;
+  /** Read when the button is clicked, so the modal starts from the live filters */
+  getFilters: () => SavedViewCreateRequest["filters"];
+}
+
+export const SaveViewButton: FC<SaveViewButtonProps> = ({ target, getFilters }) => {
+  const { createView } = useSavedViews({ enabled: false });
+  const [initialValues, setInitialValues] = useState<Partial<SavedViewCreateRequest> | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = (request: SavedViewCreateRequest): void => {
+    setSaving(true);
+    createView(request)
+      .then((view) => {
+        setInitialValues(null);
+        void message.success(`Saved view "${view.name}"`);
+      })
+      .catch((err: unknown) => {
+        void message.error(err instanceof Error ? err.message : "Could not save view");
+      })
+      .finally(() => setSaving(false));
+  };
+
+  return (
+    <>
+      <Button
+        size="small"
+        icon={<SaveOutlined />}
+        onClick={() => setInitialValues({ target, filters: getFilters() })}
+      >
+        Save view
+      </Button>
+      <SavedViewFormModal
+        open={initialValues != null}
+        initialValues={initialValues ?? undefined}
+        loading={saving}
+        onCancel={() => setInitialValues(null)}
+        onSubmit={handleSubmit}
+      />
+    </>
+  );
+};
+
+export default SaveViewButton;
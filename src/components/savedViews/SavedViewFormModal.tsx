@@ -0,0 +1,209 @@
+/**
+ * SavedViewFormModal Component
+ *
+ * Creates or edits a saved view: its name, sharing, pin, and the worklist or
+ * transaction filters it applies.
+ */
+
+import type { FC, ReactElement } from "react";
+import { Form, Input, InputNumber, Modal, Radio, Select, Space, Switch } from "antd";
+import type { SavedViewCreateRequest, SavedViewTarget } from "../../types/savedView";
+import {
+  PRIORITY_CONFIG,
+  RISK_LEVEL_CONFIG,
+  TRANSACTION_STATUS_CONFIG,
+} from "../../types/worklist";
+import { compactSavedViewFilters } from "../../shared/utils/savedViews";
+import "./saved-views.css";
+
+const STATUS_OPTIONS = Object.entries(TRANSACTION_STATUS_CONFIG).map(([value, config]) => ({
+  value,
+  label: config.label,
+}));
+
+const RISK_OPTIONS = Object.entries(RISK_LEVEL_CONFIG).map(([value, config]) => ({
+  value,
+  label: config.label,
+}));
+
+const PRIORITY_OPTIONS = Object.entries(PRIORITY_CONFIG).map(([value, config]) => ({
+  value: Number(value),
+  label: `P${value} · ${config.label}`,
+}));
+
+const DECISION_OPTIONS = [
+  { value: "APPROVE", label: "Approve" },
+  { value: "DECLINE", label: "Decline" },
+];
+
+function WorklistFilterFields(): ReactElement {
+  return (
+    <>
+      <Form.Item name={["filters", "status"]} label="Status">
+        <Select allowClear placeholder="Any open status" options={STATUS_OPTIONS} />
+      </Form.Item>
+      <Form.Item name={["filters", "risk_level_filter"]} label="Risk level">
+        <Select allowClear placeholder="Any risk" options={RISK_OPTIONS} />
+      </Form.Item>
+      <Form.Item name={["filters", "priority_filter"]} label="Priority">
+        <Select allowClear placeholder="Any priority" options={PRIORITY_OPTIONS} />
+      </Form.Item>
+      <Form.Item name={["filters", "assigned_only"]} label="Assigned to me" valuePropName="checked">
+        <Switch />
+      </Form.Item>
+    </>
+  );
+}
+
+function TransactionFilterFields(): ReactElement {
+  return (
+    <>
+      <Space className="saved-view-field-row" align="start">
+        <Form.Item name={["filters", "decision"]} label="Decision">
+          <Select allowClear placeholder="Any" options={DECISION_OPTIONS} />
+        </Form.Item>
+        <Form.Item name={["filters", "review_status"]} label="Review status">
+          <Select allowClear placeholder="Any" options={STATUS_OPTIONS} />
+        </Form.Item>
+        <Form.Item name={["filters", "risk_level"]} label="Risk level">
+          <Select allowClear placeholder="Any" options={RISK_OPTIONS} />
+        </Form.Item>
+      </Space>
+      <Space className="saved-view-field-row" align="start">
+        <Form.Item name={["filters", "merchant_id"]} label="Merchant ID">
+          <Input allowClear />
+        </Form.Item>
+        <Form.Item name={["filters", "rule_id"]} label="Rule ID">
+          <Input allowClear />
+        </Form.Item>
+        <Form.Item name={["filters", "card_id"]} label="Card ID">
+          <Input allowClear />
+        </Form.Item>
+      </Space>
+      <Space className="saved-view-field-row" align="start">
+        <Form.Item name={["filters", "min_amount"]} label="Min amount">
+          <InputNumber min={0} />
+        </Form.Item>
+        <Form.Item name={["filters", "max_amount"]} label="Max amount">
+          <InputNumber min={0} />
+        </Form.Item>
+        <Form.Item
+          name={["filters", "window_days"]}
+          label="Last N days"
+          tooltip="Rolling window from the moment the view is opened"
+        >
+          <InputNumber min={1} max={365} />
+        </Form.Item>
+      </Space>
+    </>
+  );
+}
+
+export interface SavedViewFormModalProps {
+  open: boolean;
+  title?: string;
+  initialValues?: Partial<SavedViewCreateRequest>;
+  loading?: boolean;
+  onCancel: () => void;
+  onSubmit: (request: SavedViewCreateRequest) => void;
+}
+
+const DEFAULT_VALUES: Partial<SavedViewCreateRequest> = {
+  target: "worklist",
+  visibility: "PRIVATE",
+  pinned: false,
+  filters: {},
+};
+
+export const SavedViewFormModal: FC<SavedViewFormModalProps> = ({
+  open,
+  title = "Save view",
+  initialValues,
+  loading = false,
+  onCancel,
+  onSubmit,
+}) => {
+  const [form] = Form.useForm<SavedViewCreateRequest>();
+
+  const handleOk = (): void => {
+    void form
+      .validateFields()
+      .then((values) => {
+        // The form only edits some filters; keep the others (dates, search, case…)
+        // the view was saved with unless the view now opens somewhere else
+        const initialTarget = initialValues?.target ?? DEFAULT_VALUES.target;
+        const keptFilters = initialTarget === values.target ? (initialValues?.filters ?? {}) : {};
+        onSubmit({
+          ...values,
+          description: values.description ?? null,
+          filters: compactSavedViewFilters({ ...keptFilters, ...values.filters }),
+        } as SavedViewCreateRequest);
+      })
+      .catch(() => {
+        // Validation errors are shown by the form
+      });
+  };
+
+  const handleTargetChange = (): void => {
+    form.setFieldValue("filters", {});
+  };
+
+  return (
+    <Modal
+      title={title}
+      open={open}
+      onOk={handleOk}
+      onCancel={onCancel}
+      confirmLoading={loading}
+      okText="Save"
+      width={640}
+      destroyOnHidden
+    >
+      <Form form={form} layout="vertical" initialValues={{ ...DEFAULT_VALUES, ...initialValues }}>
+        <Form.Item
+          name="name"
+          label="Name"
+          rules={[{ required: true, whitespace: true, message: "Give the view a name" }]}
+        >
+          <Input maxLength={80} />
+        </Form.Item>
+        <Form.Item name="description" label="Description">
+          <Input maxLength={200} />
+        </Form.Item>
+        <Space className="saved-view-field-row" align="start">
+          <Form.Item name="target" label="Opens">
+            <Radio.Group onChange={handleTargetChange}>
+              <Radio.Button value="worklist">Worklist</Radio.Button>
+              <Radio.Button value="transactions">Transactions</Radio.Button>
+            </Radio.Group>
+          </Form.Item>
+          <Form.Item name="visibility" label="Visible to">
+            <Radio.Group>
+              <Radio.Button value="PRIVATE">Only me</Radio.Button>
+              <Radio.Button value="TEAM">My team</Radio.Button>
+            </Radio.Group>
+          </Form.Item>
+          <Form.Item name="pinned" label="Pin" valuePropName="checked">
+            <Switch />
+          </Form.Item>
+        </Space>
+        <Form.Item
+          noStyle
+          shouldUpdate={(prev: SavedViewCreateRequest, next: SavedViewCreateRequest) =>
+            prev.target !== next.target
+          }
+        >
+          {({ getFieldValue }) =>
+            (getFieldValue("target") as SavedViewTarget) === "transactions" ? (
+              <TransactionFilterFields />
+            ) : (
+              <WorklistFilterFields />
+            )
+          }
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+};
+
+export default SavedViewFormModal;
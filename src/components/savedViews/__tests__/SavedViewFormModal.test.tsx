@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, userEvent, waitFor } from "@/test/utils";
+import { SavedViewFormModal } from "../SavedViewFormModal";
+
+describe("SavedViewFormModal", () => {
+  it("submits only the filters that are set", async () => {
+    const user = userEvent.setup();
+    const onSubmit = vi.fn();
+    render(
+      <SavedViewFormModal
+        open
+        initialValues={{ target: "transactions", filters: { merchant_id: "merch_001" } }}
+        onCancel={vi.fn()}
+        onSubmit={onSubmit}
+      />
+    );
+
+    await user.type(screen.getByLabelText("Name"), "Merchant watch");
+    await user.type(screen.getByLabelText("Min amount"), "250");
+    await user.click(screen.getByRole("button", { name: "Save" }));
+
+    await waitFor(() => expect(onSubmit).toHaveBeenCalled());
+    expect(onSubmit.mock.calls[0]?.[0]).toMatchObject({
+      name: "Merchant watch",
+      target: "transactions",
+      visibility: "PRIVATE",
+      filters: { merchant_id: "merch_001", min_amount: 250 },
+    });
+  });
+
+  it("keeps saved filters the form does not edit", async () => {
+    const user = userEvent.setup();
+    const onSubmit = vi.fn();
+    render(
+      <SavedViewFormModal
+        open
+        initialValues={{
+          name: "Disputes",
+          target: "transactions",
+          filters: {
+            merchant_id: "merch_001",
+            from_date: "2026-03-01T00:00:00Z",
+            to_date: "2026-03-31T23:59:59Z",
+            search: "TXN-2026",
+            decision_reason: "RULE_MATCH",
+            case_id: "case_001",
+            ruleset_id: "rs_001",
+            assigned_to_me: true,
+          },
+        }}
+        onCancel={vi.fn()}
+        onSubmit={onSubmit}
+      />
+    );
+
+    await user.clear(screen.getByLabelText("Merchant ID"));
+    await user.click(screen.getByRole("button", { name: "Save" }));
+
+    await waitFor(() => expect(onSubmit).toHaveBeenCalled());
+    expect(onSubmit.mock.calls[0]?.[0].filters).toEqual({
+      from_date: "2026-03-01T00:00:00Z",
+      to_date: "2026-03-31T23:59:59Z",
+      search: "TXN-2026",
+      decision_reason: "RULE_MATCH",
+      case_id: "case_001",
+      ruleset_id: "rs_001",
+      assigned_to_me: true,
+    });
+  });
+
+  it("shows worklist filters and clears filters when the target changes", async () => {
+    const user = userEvent.setup();
+    render(
+      <SavedViewFormModal
+        open
+        initialValues={{ target: "transactions", filters: { merchant_id: "merch_001" } }}
+        onCancel={vi.fn()}
+        onSubmit={vi.fn()}
+      />
+    );
+
+    await user.click(screen.getByText("Worklist"));
+
+    expect(await screen.findByLabelText("Assigned to me")).toBeInTheDocument();
+    expect(screen.queryByLabelText("Merchant ID")).not.toBeInTheDocument();
+  });
+
+  it("requires a name", async () => {
+    const user = userEvent.setup();
+    const onSubmit = vi.fn();
+    render(<SavedViewFormModal open onCancel={vi.fn()} onSubmit={onSubmit} />);
+
+    await user.click(screen.getByRole("button", { name: "Save" }));
+
+    expect(await screen.findByText("Give the view a name")).toBeInTheDocument();
+    expect(onSubmit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,10 @@
+/**
+ * Saved View Components
+ *
+ * Components for creating and editing saved worklist and transaction views.
+ */
+
+export { SavedViewFormModal } from "./SavedViewFormModal";
+export type { SavedViewFormModalProps } from "./SavedViewFormModal";
+export { SaveViewButton } from "./SaveViewButton";
+export type { SaveViewButtonProps } from "./SaveViewButton";
@@ -0,0 +1,124 @@
+/**
+ * Sensitive Data Reveal Component
+ *
+ * Says that sensitive values on screen are masked and, for users allowed to,
+ * reveals them after asking for a justification. The reveal is audited by
+ * `useSensitiveData` before any value is unmasked.
+ */
+
+import { useState, type FC } from "react";
+import { Alert, Button, Input, Modal, Space, Tag, Tooltip, Typography } from "antd";
+import { EyeOutlined, LockOutlined, UnlockOutlined } from "@ant-design/icons";
+import "./sensitive-data-reveal.css";
+import { MIN_REVEAL_REASON_LENGTH } from "../../shared/utils/sensitiveData";
+import type { UseSensitiveDataReturn } from "../../hooks/useSensitiveData";
+
+const { Text } = Typography;
+
+export interface SensitiveDataRevealProps {
+  sensitiveData: Pick<UseSensitiveDataReturn, "isRevealed" | "canReveal" | "reveal">;
+  /** Sensitive fields currently masked on screen */
+  fieldKeys: string[];
+}
+
+export const SensitiveDataReveal: FC<SensitiveDataRevealProps> = ({ sensitiveData, fieldKeys }) => {
+  const { isRevealed, canReveal, reveal } = sensitiveData;
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [reason, setReason] = useState("");
+  const [isRevealing, setIsRevealing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (isRevealed) {
+    return (
+      <Tag icon={<UnlockOutlined />} color="warning">
+        Sensitive values revealed
+      </Tag>
+    );
+  }
+  if (fieldKeys.length === 0) return null;
+
+  if (!canReveal) {
+    return (
+      <Tooltip title={`Masked fields: ${fieldKeys.join(", ")}`}>
+        <Tag icon={<LockOutlined />}>Sensitive values masked</Tag>
+      </Tooltip>
+    );
+  }
+
+  const isReasonValid = reason.trim().length >= MIN_REVEAL_REASON_LENGTH;
+
+  const handleCancel = (): void => {
+    setIsModalOpen(false);
+    setReason("");
+    setError(null);
+  };
+
+  const handleReveal = async (): Promise<void> => {
+    if (!isReasonValid) return;
+    setIsRevealing(true);
+    setError(null);
+    try {
+      await reveal(fieldKeys, reason);
+      setIsModalOpen(false);
+      setReason("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to record the reveal");
+    } finally {
+      setIsRevealing(false);
+    }
+  };
+
+  return (
+    <>
+      <Button size="small" icon={<EyeOutlined />} onClick={() => setIsModalOpen(true)}>
+        Reveal sensitive values
+      </Button>
+
+      <Modal
+        title="Reveal Sensitive Values"
+        open={isModalOpen}
+        onOk={() => {
+          void handleReveal();
+        }}
+        onCancel={handleCancel}
+        confirmLoading={isRevealing}
+        okButtonProps={{ disabled: !isReasonValid }}
+        okText="Reveal"
+        destroyOnHidden
+      >
+        <Space direction="vertical" size="middle" className="full-width">
+          <Space wrap size={4}>
+            {fieldKeys.map((key) => (
+              <Tag key={key} color="red">
+                {key}
+              </Tag>
+            ))}
+          </Space>
+          <Text type="secondary">
+            The reveal is recorded in the audit log with your justification.
+          </Text>
+          <div>
+            <label htmlFor="reveal-reason" className="label-block">
+              Justification
+            </label>
+            <Input.TextArea
+              id="reveal-reason"
+              rows={3}
+              placeholder="Why do you need to see these values?"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={500}
+              showCount
+            />
+            {!isReasonValid && reason !== "" && (
+              <Text type="danger">
+                At least {MIN_REVEAL_REASON_LENGTH} characters are required.
+              </Text>
+            )}
+          </div>
+          {error != null && <Alert type="error" showIcon message={error} />}
+        </Space>
+      </Modal>
+    </>
+  );
+};
@@ -0,0 +1,71 @@
+/**
+ * Tests for SensitiveDataReveal component
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, userEvent, waitFor } from "@/test/utils";
+import { SensitiveDataReveal } from "../SensitiveDataReveal";
+
+const state = (overrides: Partial<Parameters<typeof SensitiveDataReveal>[0]["sensitiveData"]>) => ({
+  isRevealed: false,
+  canReveal: true,
+  reveal: vi.fn().mockResolvedValue({}),
+  ...overrides,
+});
+
+describe("SensitiveDataReveal", () => {
+  it("renders nothing when no values are masked", () => {
+    render(<SensitiveDataReveal sensitiveData={state({})} fieldKeys={[]} />);
+    expect(screen.queryByText(/Sensitive values/)).not.toBeInTheDocument();
+    expect(screen.queryByRole("button")).not.toBeInTheDocument();
+  });
+
+  it("only tells users without the capability that values are masked", () => {
+    render(
+      <SensitiveDataReveal
+        sensitiveData={state({ canReveal: false })}
+        fieldKeys={["CARD_NUMBER"]}
+      />
+    );
+    expect(screen.getByText("Sensitive values masked")).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: /Reveal/ })).not.toBeInTheDocument();
+  });
+
+  it("requires a justification before revealing", async () => {
+    const user = userEvent.setup();
+    const sensitiveData = state({});
+    render(<SensitiveDataReveal sensitiveData={sensitiveData} fieldKeys={["CARD_NUMBER"]} />);
+
+    await user.click(screen.getByRole("button", { name: /Reveal sensitive values/ }));
+    const confirm = await screen.findByRole("button", { name: "Reveal" });
+    expect(confirm).toBeDisabled();
+
+    await user.type(screen.getByLabelText("Justification"), "short");
+    expect(screen.getByText(/At least 10 characters/)).toBeInTheDocument();
+    expect(confirm).toBeDisabled();
+
+    await user.type(screen.getByLabelText("Justification"), " chargeback case");
+    await user.click(confirm);
+
+    await waitFor(() =>
+      expect(sensitiveData.reveal).toHaveBeenCalledWith(["CARD_NUMBER"], "short chargeback case")
+    );
+  });
+
+  it("shows the audit failure and keeps the dialog open", async () => {
+    const user = userEvent.setup();
+    const sensitiveData = state({ reveal: vi.fn().mockRejectedValue(new Error("Forbidden")) });
+    render(<SensitiveDataReveal sensitiveData={sensitiveData} fieldKeys={["CARD_NUMBER"]} />);
+
+    await user.click(screen.getByRole("button", { name: /Reveal sensitive values/ }));
+    await user.type(await screen.findByLabelText("Justification"), "Chargeback dispute");
+    await user.click(screen.getByRole("button", { name: "Reveal" }));
+
+    expect(await screen.findByText("Forbidden")).toBeInTheDocument();
+  });
+
+  it("marks revealed values", () => {
+    render(<SensitiveDataReveal sensitiveData={state({ isRevealed: true })} fieldKeys={[]} />);
+    expect(screen.getByText("Sensitive values revealed")).toBeInTheDocument();
+  });
+});
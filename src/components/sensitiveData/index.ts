@@ -0,0 +1,6 @@
+/**
+ * Sensitive Data Components
+ */
+
+export { SensitiveDataReveal } from "./SensitiveDataReveal";
+export type { SensitiveDataRevealProps } from "./SensitiveDataReveal";
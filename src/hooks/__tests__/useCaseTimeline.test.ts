@@ -0,0 +1,144 @@
+/**
+ * Unit tests for useCaseTimeline hook
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { renderHook, waitFor } from "@testing-library/react";
+import { useCaseTimeline } from "../useCaseTimeline";
+import * as httpClient from "@/api/httpClient";
+import { NOTES, OPS_ANALYST, REVIEW } from "@/api/endpoints";
+import type { CaseActivity } from "@/types/case";
+
+vi.mock("@/api/httpClient", () => ({
+  get: vi.fn(),
+}));
+
+const activities: CaseActivity[] = [
+  {
+    id: "act_1",
+    case_id: "case_1",
+    activity_type: "CASE_CREATED",
+    activity_description: "Case created",
+    activity_data: null,
+    performed_by: "analyst_1",
+    performed_by_name: "Alice",
+    created_at: "2024-03-01T08:00:00Z",
+  },
+];
+
+const responses: Record<string, unknown> = {
+  [NOTES.LIST("txn_1")]: {
+    items: [
+      {
+        id: "note_1",
+        transaction_id: "txn_1",
+        note_type: "ESCALATION",
+        note_content: "Sent to supervisor",
+        is_private: false,
+        is_system_generated: false,
+        analyst_id: "analyst_2",
+        analyst_name: "Bob",
+        created_at: "2024-03-01T10:00:00Z",
+      },
+    ],
+  },
+  [REVIEW.GET("txn_1")]: {
+    id: "rev_1",
+    transaction_id: "txn_1",
+    assigned_analyst_id: "analyst_2",
+    assigned_analyst_name: "Bob",
+    assigned_at: "2024-03-01T09:00:00Z",
+    created_at: "2024-03-01T08:30:00Z",
+  },
+  [OPS_ANALYST.INSIGHTS.LIST("txn_1")]: {
+    insights: [
+      {
+        insight_id: "ins_1",
+        transaction_id: "txn_1",
+        severity: "HIGH",
+        summary: "Card testing pattern",
+        generated_at: "2024-03-01T11:00:00Z",
+      },
+    ],
+    next_cursor: null,
+  },
+};
+
+describe("useCaseTimeline", () => {
+  const mockGet = vi.mocked(httpClient.get);
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockGet.mockImplementation((url: string) => {
+      if (url in responses) return Promise.resolve(responses[url]);
+      return Promise.reject(Object.assign(new Error("Not found"), { status: 404 }));
+    });
+  });
+
+  it("merges activity with each transaction's notes, review and insights", async () => {
+    const { result } = renderHook(() => useCaseTimeline({ activities, transactionIds: ["txn_1"] }));
+
+    await waitFor(() => expect(result.current.events).toHaveLength(5));
+    expect(result.current.events.map((e) => e.type)).toEqual([
+      "ACTIVITY",
+      "REVIEW",
+      "REVIEW",
+      "NOTE",
+      "INSIGHT",
+    ]);
+    expect(result.current.error).toBeNull();
+    expect(mockGet).toHaveBeenCalledWith(NOTES.LIST("txn_1"), expect.anything());
+  });
+
+  it("treats a missing review as no review", async () => {
+    const { result } = renderHook(() =>
+      useCaseTimeline({ activities: [], transactionIds: ["txn_2"] })
+    );
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    // Notes and insights for txn_2 fail; the missing review does not count
+    expect(result.current.error?.message).toMatch(/^2 timeline source/);
+    expect(result.current.events).toEqual([]);
+  });
+
+  it("keeps the sources that loaded when others fail", async () => {
+    mockGet.mockImplementation((url: string) =>
+      url === NOTES.LIST("txn_1")
+        ? Promise.reject(new Error("Server error"))
+        : Promise.resolve(responses[url])
+    );
+
+    const { result } = renderHook(() => useCaseTimeline({ activities, transactionIds: ["txn_1"] }));
+
+    await waitFor(() => expect(result.current.error).not.toBeNull());
+    expect(result.current.error?.message).toMatch(/^1 timeline source/);
+    expect(result.current.events.map((e) => e.type)).not.toContain("NOTE");
+    expect(result.current.events.map((e) => e.type)).toContain("INSIGHT");
+  });
+
+  it("waits until enabled and shows activity alone without transactions", async () => {
+    const { result, rerender } = renderHook(
+      ({ enabled }: { enabled: boolean }) =>
+        useCaseTimeline({ activities, transactionIds: ["txn_1"], enabled }),
+      { initialProps: { enabled: false } }
+    );
+
+    expect(mockGet).not.toHaveBeenCalled();
+    expect(result.current.events.map((e) => e.type)).toEqual(["ACTIVITY"]);
+
+    rerender({ enabled: true });
+    await waitFor(() => expect(result.current.events).toHaveLength(5));
+  });
+
+  it("does not refetch when the same transactions are passed again", async () => {
+    const { result, rerender } = renderHook(
+      ({ ids }: { ids: string[] }) => useCaseTimeline({ activities, transactionIds: ids }),
+      { initialProps: { ids: ["txn_1"] } }
+    );
+
+    await waitFor(() => expect(result.current.events).toHaveLength(5));
+    rerender({ ids: ["txn_1"] });
+
+    expect(mockGet).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Unit tests for useFieldImpact hook
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { renderHook, waitFor } from "@testing-library/react";
+import { useFieldImpact } from "../useFieldImpact";
+import * as httpClient from "@/api/httpClient";
+import { RULE_FIELDS } from "@/api/endpoints";
+import type { FieldImpactResponse } from "@/types/fieldDefinitions";
+import { Operator, RuleSetStatus, RuleStatus, RulesetEnvironment } from "@/types/enums";
+
+vi.mock("@/api/httpClient", () => ({
+  get: vi.fn(),
+}));
+
+const impact: FieldImpactResponse = {
+  field_key: "MCC",
+  generated_at: "2024-01-01T00:00:00Z",
+  references: [
+    {
+      rule_id: "rule_003",
+      rule_name: "High-Risk MCC Block",
+      rule_version_id: "rv_003_v1",
+      version: 1,
+      status: RuleStatus.APPROVED,
+      operators: [Operator.IN],
+      velocity_group_by: false,
+      rulesets: [
+        {
+          ruleset_id: "rs_001",
+          name: "Prod blocklist",
+          environment: RulesetEnvironment.PROD,
+          status: RuleSetStatus.ACTIVE,
+        },
+      ],
+    },
+  ],
+};
+
+describe("useFieldImpact", () => {
+  const mockGet = vi.mocked(httpClient.get);
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("loads the impact and assesses the proposed change", async () => {
+    mockGet.mockResolvedValue(impact);
+
+    const { result, rerender } = renderHook(
+      ({ operators }: { operators: Operator[] }) =>
+        useFieldImpact("MCC", { allowed_operators: operators }),
+      { initialProps: { operators: [Operator.IN, Operator.EQ] } }
+    );
+
+    await waitFor(() => expect(result.current.assessment).not.toBeNull());
+    expect(mockGet).toHaveBeenCalledWith(RULE_FIELDS.IMPACT("MCC"), expect.anything());
+    expect(result.current.assessment?.blocked).toBe(false);
+
+    rerender({ operators: [Operator.EQ] });
+    expect(result.current.assessment?.blocked).toBe(true);
+    expect(mockGet).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not load while disabled", async () => {
+    const { result } = renderHook(() => useFieldImpact("MCC", {}, { enabled: false }));
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(mockGet).not.toHaveBeenCalled();
+    expect(result.current.assessment).toBeNull();
+  });
+
+  it("surfaces load errors", async () => {
+    mockGet.mockRejectedValue(new Error("boom"));
+
+    const { result } = renderHook(() => useFieldImpact("MCC", { is_active: false }));
+
+    await waitFor(() => expect(result.current.error?.message).toBe("boom"));
+    expect(result.current.assessment).toBeNull();
+  });
+});
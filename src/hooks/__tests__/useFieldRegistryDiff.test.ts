@@ -0,0 +1,105 @@
+/**
+ * Unit tests for useFieldRegistryDiff hook
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { renderHook, waitFor } from "@testing-library/react";
+import { useFieldRegistryDiff } from "../useFieldRegistryDiff";
+import * as httpClient from "@/api/httpClient";
+import { FIELD_REGISTRY, RULE_FIELDS } from "@/api/endpoints";
+import type { FieldDefinition, FieldRegistryManifest } from "@/types/fieldDefinitions";
+import { DataType, Operator } from "@/types/enums";
+
+vi.mock("@/api/httpClient", () => ({
+  get: vi.fn(),
+}));
+
+const field = (key: string, operators: Operator[]): FieldDefinition => ({
+  field_key: key,
+  field_id: 1,
+  display_name: key,
+  data_type: DataType.STRING,
+  allowed_operators: operators,
+  multi_value_allowed: false,
+  is_sensitive: false,
+  is_active: true,
+  current_version: 1,
+  version: 1,
+  created_by: "admin",
+  created_at: "2024-01-15T10:00:00Z",
+  updated_at: "2024-01-15T10:00:00Z",
+});
+
+const manifest = (version: number, fieldCount: number): FieldRegistryManifest => ({
+  manifest_id: `manifest_${version}`,
+  registry_version: version,
+  artifact_uri: `s3://registry/v${version}.json`,
+  checksum: "sha256:abc",
+  field_count: fieldCount,
+  created_by: "admin",
+  created_at: "2024-01-15T12:00:00Z",
+});
+
+/** Serves each version's manifest and, separately, its fields */
+const registryVersions =
+  (versions: Record<number, FieldDefinition[]>) =>
+  async (url: string): Promise<unknown> => {
+    for (const [version, fields] of Object.entries(versions)) {
+      const v = Number(version);
+      if (url === FIELD_REGISTRY.GET_VERSION(v)) return manifest(v, fields.length);
+      if (url === FIELD_REGISTRY.GET_VERSION_FIELDS(v)) return fields;
+    }
+    throw new Error(`Unexpected request: ${url}`);
+  };
+
+describe("useFieldRegistryDiff", () => {
+  const mockGet = vi.mocked(httpClient.get);
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("diffs two published versions", async () => {
+    mockGet.mockImplementation(
+      registryVersions({
+        1: [field("MCC", [Operator.EQ])],
+        2: [field("MCC", [Operator.EQ, Operator.IN]), field("AMOUNT", [Operator.GT])],
+      })
+    );
+
+    const { result } = renderHook(() => useFieldRegistryDiff(1, 2));
+
+    await waitFor(() => expect(result.current.summary).not.toBeNull());
+    expect(mockGet).toHaveBeenCalledWith(FIELD_REGISTRY.GET_VERSION_FIELDS(1), expect.anything());
+    expect(mockGet).toHaveBeenCalledWith(FIELD_REGISTRY.GET_VERSION_FIELDS(2), expect.anything());
+    expect(result.current.target?.registry_version).toBe(2);
+    expect(result.current.baseFields.map((f) => f.field_key)).toEqual(["MCC"]);
+    expect(result.current.targetFields).toHaveLength(2);
+    expect(result.current.diff.map((d) => [d.field_key, d.kind])).toEqual([
+      ["AMOUNT", "added"],
+      ["MCC", "changed"],
+    ]);
+  });
+
+  it("compares with the current fields when there is no target version", async () => {
+    const published = registryVersions({ 1: [field("MCC", [Operator.EQ])] });
+    mockGet.mockImplementation(async (url: string) =>
+      url === RULE_FIELDS.LIST ? { items: [field("MCC", [Operator.EQ])] } : published(url)
+    );
+
+    const { result } = renderHook(() => useFieldRegistryDiff(1, null));
+
+    await waitFor(() => expect(result.current.summary).not.toBeNull());
+    expect(mockGet).toHaveBeenCalledWith(RULE_FIELDS.LIST, expect.anything());
+    expect(result.current.target).toBeNull();
+    expect(result.current.diff).toEqual([]);
+    expect(result.current.summary?.unchanged).toBe(1);
+  });
+
+  it("waits for a base version", () => {
+    const { result } = renderHook(() => useFieldRegistryDiff(null, 2));
+
+    expect(mockGet).not.toHaveBeenCalled();
+    expect(result.current.summary).toBeNull();
+  });
+});
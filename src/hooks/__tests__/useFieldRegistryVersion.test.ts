@@ -0,0 +1,68 @@
+/**
+ * Unit tests for useFieldRegistryVersion hook
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { renderHook, waitFor } from "@testing-library/react";
+import { useFieldRegistryVersion } from "../useFieldRegistryVersion";
+import * as httpClient from "@/api/httpClient";
+import { FIELD_REGISTRY } from "@/api/endpoints";
+import type { FieldRegistryManifest } from "@/types/fieldDefinitions";
+
+vi.mock("@/api/httpClient", () => ({
+  get: vi.fn(),
+}));
+
+const manifest = (registryVersion: number): FieldRegistryManifest => ({
+  manifest_id: `manifest_${registryVersion}`,
+  registry_version: registryVersion,
+  artifact_uri: `s3://registry/v${registryVersion}.json`,
+  checksum: "sha256:abc",
+  field_count: 0,
+  created_by: "admin",
+  created_at: "2024-01-15T12:00:00Z",
+});
+
+describe("useFieldRegistryVersion", () => {
+  const mockGet = vi.mocked(httpClient.get);
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("loads the requested version alongside the latest manifest", async () => {
+    mockGet.mockImplementation((url: string) => {
+      if (url === FIELD_REGISTRY.GET_VERSION_FIELDS(2)) {
+        return Promise.resolve([{ field_key: "MCC" }]);
+      }
+      return Promise.resolve(url === FIELD_REGISTRY.GET ? manifest(3) : manifest(2));
+    });
+
+    const { result } = renderHook(() => useFieldRegistryVersion(2));
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.latest?.registry_version).toBe(3);
+    expect(result.current.registry?.registry_version).toBe(2);
+    expect(result.current.fields?.map((f) => f.field_key)).toEqual(["MCC"]);
+    expect(mockGet).toHaveBeenCalledWith(FIELD_REGISTRY.GET_VERSION(2), expect.anything());
+    expect(mockGet).toHaveBeenCalledWith(FIELD_REGISTRY.GET_VERSION_FIELDS(2), expect.anything());
+  });
+
+  it("falls back to the latest version", async () => {
+    mockGet.mockResolvedValue(manifest(3));
+
+    const { result } = renderHook(() => useFieldRegistryVersion(null));
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(mockGet).toHaveBeenCalledWith(FIELD_REGISTRY.GET_VERSION(3), expect.anything());
+  });
+
+  it("exposes fetch errors", async () => {
+    mockGet.mockRejectedValue(new Error("boom"));
+
+    const { result } = renderHook(() => useFieldRegistryVersion(2));
+
+    await waitFor(() => expect(result.current.error?.message).toBe("boom"));
+    expect(result.current.registry).toBeNull();
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { renderHook, waitFor, act } from "@testing-library/react";
+import { useInvestigationRunDetail } from "../useInvestigationRunDetail";
+import * as httpClient from "@/api/httpClient";
+import { OPS_ANALYST } from "@/api/endpoints";
+import type { DetailResponse } from "@/types/opsAnalyst";
+
+vi.mock("@/api/httpClient", () => ({
+  get: vi.fn(),
+  post: vi.fn(),
+}));
+
+describe("useInvestigationRunDetail", () => {
+  const mockGet = vi.mocked(httpClient.get);
+  const mockPost = vi.mocked(httpClient.post);
+
+  const detail: DetailResponse = {
+    run_id: "run-1",
+    status: "SUCCESS",
+    mode: "quick",
+    transaction_id: "txn-1",
+    model_mode: "hybrid",
+    duration_ms: 300,
+    insight: null,
+    recommendations: [],
+    case_id: null,
+    started_at: "2026-01-15T10:00:00Z",
+    completed_at: "2026-01-15T10:00:00.300Z",
+    error_summary: null,
+    stage_durations: { context_load: 100, pattern_match: 200 },
+    evidence: [],
+  };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("loads the run", async () => {
+    mockGet.mockResolvedValue(detail);
+
+    const { result } = renderHook(() => useInvestigationRunDetail("run-1"));
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(mockGet).toHaveBeenCalledWith(OPS_ANALYST.INVESTIGATIONS.GET("run-1"), {
+      signal: expect.any(AbortSignal),
+    });
+    expect(result.current.run).toEqual(detail);
+  });
+
+  it("reports a failed load", async () => {
+    mockGet.mockRejectedValue(new Error("Investigation run not found"));
+
+    const { result } = renderHook(() => useInvestigationRunDetail("missing"));
+
+    await waitFor(() => expect(result.current.error).toBe("Investigation run not found"));
+    expect(result.current.run).toBeNull();
+  });
+
+  it("does not fetch without a run id", () => {
+    const { result } = renderHook(() => useInvestigationRunDetail(undefined));
+
+    expect(result.current.loading).toBe(false);
+    expect(mockGet).not.toHaveBeenCalled();
+  });
+
+  it("reloads the run after acknowledging a recommendation", async () => {
+    mockGet.mockResolvedValue(detail);
+    mockPost.mockResolvedValue({});
+    const { result } = renderHook(() => useInvestigationRunDetail("run-1"));
+    await waitFor(() => expect(mockGet).toHaveBeenCalledTimes(1));
+
+    await act(async () => {
+      await result.current.acknowledge("rec-1", { action: "ACKNOWLEDGED" });
+    });
+
+    expect(mockPost).toHaveBeenCalledWith(OPS_ANALYST.RECOMMENDATIONS.ACKNOWLEDGE("rec-1"), {
+      action: "ACKNOWLEDGED",
+    });
+    await waitFor(() => expect(mockGet).toHaveBeenCalledTimes(2));
+  });
+
+  it("ignores a late response for the previous run", async () => {
+    let resolveFirst: (value: DetailResponse) => void = () => undefined;
+    mockGet
+      .mockReturnValueOnce(
+        new Promise<DetailResponse>((resolve) => {
+          resolveFirst = resolve;
+        })
+      )
+      .mockResolvedValueOnce({ ...detail, run_id: "run-2" });
+
+    const { result, rerender } = renderHook(({ runId }) => useInvestigationRunDetail(runId), {
+      initialProps: { runId: "run-1" },
+    });
+    await waitFor(() => expect(mockGet).toHaveBeenCalledTimes(1));
+    rerender({ runId: "run-2" });
+    await waitFor(() => expect(result.current.run?.run_id).toBe("run-2"));
+
+    const [, firstConfig] = mockGet.mock.calls[0] ?? [];
+    expect(firstConfig?.signal?.aborted).toBe(true);
+    await act(async () => {
+      resolveFirst(detail);
+      await Promise.resolve();
+    });
+    expect(result.current.run?.run_id).toBe("run-2");
+  });
+});
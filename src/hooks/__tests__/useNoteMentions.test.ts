@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { renderHook, waitFor, act } from "@testing-library/react";
+import { useNoteMentions } from "../useNoteMentions";
+import * as httpClient from "@/api/httpClient";
+import { NOTES } from "@/api/endpoints";
+import type { NoteMention } from "@/types/notes";
+
+vi.mock("@/api/httpClient", () => ({
+  get: vi.fn(),
+}));
+
+const mention: NoteMention = {
+  mention_id: "mention-1",
+  note_id: "note-1",
+  transaction_id: "txn_001",
+  mentioned_user_id: "user_checker_1",
+  mentioned_by_id: "user_maker_1",
+  mentioned_by_name: "John Maker",
+  excerpt: "@checker1 please review",
+  created_at: "2026-03-01T10:00:00Z",
+};
+
+describe("useNoteMentions", () => {
+  const mockGet = vi.mocked(httpClient.get);
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockGet.mockResolvedValue({ items: [mention] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("loads the current user's mentions", async () => {
+    const { result } = renderHook(() => useNoteMentions());
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(mockGet).toHaveBeenCalledWith(NOTES.MENTIONS, expect.any(Object));
+    expect(result.current.mentions).toEqual([mention]);
+    expect(result.current.error).toBeNull();
+  });
+
+  it("does not fetch when disabled", () => {
+    const { result } = renderHook(() => useNoteMentions({ enabled: false }));
+
+    expect(result.current.isLoading).toBe(false);
+    expect(mockGet).not.toHaveBeenCalled();
+  });
+
+  it("reports a failed fetch", async () => {
+    mockGet.mockRejectedValue(new Error("Network down"));
+    const { result } = renderHook(() => useNoteMentions());
+
+    await waitFor(() => expect(result.current.error?.message).toBe("Network down"));
+    expect(result.current.mentions).toEqual([]);
+  });
+
+  it("polls on the refresh interval", async () => {
+    vi.useFakeTimers();
+    renderHook(() => useNoteMentions({ refreshIntervalMs: 1000 }));
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(2500);
+    });
+
+    expect(mockGet).toHaveBeenCalledTimes(3);
+  });
+});
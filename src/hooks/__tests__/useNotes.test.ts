@@ -7,6 +7,7 @@ import { renderHook, waitFor, act } from "@testing-library/react";
 import { useNotes } from "../useNotes";
 import * as httpClient from "@/api/httpClient";
 import { NOTES } from "@/api/endpoints";
+import { AttachmentUploadError } from "@/shared/utils/noteAttachments";
 import type {
   AnalystNote,
   NoteCreateRequest,
@@ -584,6 +585,145 @@ describe("useNotes", () => {
     });
   });
 
+  describe("attachments", () => {
+    const screenshot = new File(["png"], "call.png", { type: "image/png" });
+
+    it("reloads quietly until pending virus scans finish", async () => {
+      vi.useFakeTimers({ shouldAdvanceTime: true });
+      const attachment = { name: "call.png", s3_key: "notes/call.png", attachment_id: "att_1" };
+      const withScan = (scan_status: "PENDING" | "CLEAN"): NotesListResponse => ({
+        ...mockNotesResponse,
+        items: [{ ...mockNote1, attachments: [{ ...attachment, scan_status }] }],
+      });
+      mockGet.mockResolvedValueOnce(withScan("PENDING")).mockResolvedValue(withScan("CLEAN"));
+
+      const { result } = renderHook(() => useNotes({ transactionId: mockTransactionId }));
+      await waitFor(() => expect(result.current.isLoading).toBe(false));
+      expect(mockGet).toHaveBeenCalledTimes(1);
+
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(3000);
+      });
+
+      expect(mockGet).toHaveBeenCalledTimes(2);
+      expect(result.current.isLoading).toBe(false);
+      expect(result.current.notes[0].attachments?.[0].scan_status).toBe("CLEAN");
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(6000);
+      });
+      expect(mockGet).toHaveBeenCalledTimes(2);
+      vi.useRealTimers();
+    });
+
+    it("uploads files to the created note before refetching", async () => {
+      mockGet.mockResolvedValue(mockNotesResponse);
+      mockPost.mockResolvedValue(mockNote1);
+
+      const { result } = renderHook(() => useNotes({ transactionId: mockTransactionId }));
+      await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+      await act(async () => {
+        await result.current.createNote({ note_type: "GENERAL", note_content: "Called" }, [
+          screenshot,
+        ]);
+      });
+
+      const upload = mockPost.mock.calls.find(
+        ([url]) => url === NOTES.ATTACHMENTS.UPLOAD(mockTransactionId, mockNote1.id)
+      );
+      expect((upload?.[1] as FormData).get("file")).toBe(screenshot);
+      expect(mockGet).toHaveBeenCalledTimes(2);
+    });
+
+    it("keeps the note and reports attachments that failed to upload", async () => {
+      mockGet.mockResolvedValue(mockNotesResponse);
+      mockPost
+        .mockResolvedValueOnce(mockNote1)
+        .mockRejectedValueOnce(Object.assign(new Error("Too large"), { status: 413 }));
+
+      const { result } = renderHook(() => useNotes({ transactionId: mockTransactionId }));
+      await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+      let caught: unknown;
+      await act(async () => {
+        await result.current
+          .createNote({ note_type: "GENERAL", note_content: "Called" }, [screenshot])
+          .catch((err: unknown) => {
+            caught = err;
+          });
+      });
+
+      expect(caught).toBeInstanceOf(AttachmentUploadError);
+      expect((caught as AttachmentUploadError).failedCount).toBe(1);
+      expect(result.current.notes).toEqual(mockNotesResponse.items);
+      expect(result.current.isCreating).toBe(false);
+    });
+
+    it("removes and adds attachments when a note is updated", async () => {
+      mockGet.mockResolvedValue(mockNotesResponse);
+      mockPatch.mockResolvedValue(mockNote1);
+      mockPost.mockResolvedValue({ attachment_id: "att_2" });
+      mockDel.mockResolvedValue(undefined);
+
+      const { result } = renderHook(() => useNotes({ transactionId: mockTransactionId }));
+      await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+      await act(async () => {
+        await result.current.updateNote(
+          mockNote1.id,
+          { note_content: "Updated" },
+          { added: [screenshot], removedIds: ["att_1"] }
+        );
+      });
+
+      expect(mockDel).toHaveBeenCalledWith(
+        NOTES.ATTACHMENTS.DELETE(mockTransactionId, mockNote1.id, "att_1"),
+        expect.any(Object)
+      );
+      expect(mockPost).toHaveBeenCalledWith(
+        NOTES.ATTACHMENTS.UPLOAD(mockTransactionId, mockNote1.id),
+        expect.any(FormData),
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe("mentions", () => {
+    it("sends the usernames mentioned in new and edited notes", async () => {
+      mockGet.mockResolvedValue(mockNotesResponse);
+      mockPost.mockResolvedValue(mockNote1);
+      mockPatch.mockResolvedValue(mockNote1);
+
+      const { result } = renderHook(() => useNotes({ transactionId: mockTransactionId }));
+      await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+      await act(async () => {
+        await result.current.createNote({
+          note_type: "ESCALATION",
+          note_content: "@Checker1 please review",
+        });
+        await result.current.updateNote(mockNote1.id, {
+          note_content: "@checker1 and @maker2 please review",
+        });
+      });
+
+      expect(mockPost).toHaveBeenCalledWith(
+        NOTES.CREATE(mockTransactionId),
+        {
+          note_type: "ESCALATION",
+          note_content: "@Checker1 please review",
+          mentions: ["checker1"],
+        },
+        expect.any(Object)
+      );
+      expect(mockPatch).toHaveBeenCalledWith(
+        NOTES.UPDATE(mockTransactionId, mockNote1.id),
+        { note_content: "@checker1 and @maker2 please review", mentions: ["checker1", "maker2"] },
+        expect.any(Object)
+      );
+    });
+  });
+
   describe("concurrent operations", () => {
     it("should handle multiple CRUD operations in sequence", async () => {
       const noteId = "note-1";
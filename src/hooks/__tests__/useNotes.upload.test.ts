@@ -0,0 +1,63 @@
+/**
+ * Attachment uploads through the real HTTP client, checked against what the
+ * MSW server receives
+ */
+
+import { describe, it, expect } from "vitest";
+import { renderHook, waitFor, act } from "@testing-library/react";
+import { http, HttpResponse } from "msw";
+import { useNotes } from "../useNotes";
+import { server } from "@/test/server";
+
+const NOTE = {
+  id: "note_upload",
+  transaction_id: "txn_upload",
+  note_type: "GENERAL",
+  note_content: "See attached",
+  is_private: false,
+  is_system_generated: false,
+  analyst_id: "user_maker_1",
+  analyst_name: "John Maker",
+  analyst_email: null,
+  case_id: null,
+  attachments: [],
+  created_at: "2026-03-01T10:00:00Z",
+  updated_at: "2026-03-01T10:00:00Z",
+};
+
+describe("useNotes attachment upload", () => {
+  it("sends the file as multipart form data", async () => {
+    let received: FormDataEntryValue | null = null;
+    let contentType: string | null = null;
+    server.use(
+      http.get("*/api/v1/transactions/txn_upload/notes", () =>
+        HttpResponse.json({ items: [], total: 0, page_size: 0, has_more: false })
+      ),
+      http.post("*/api/v1/transactions/txn_upload/notes", () =>
+        HttpResponse.json(NOTE, { status: 201 })
+      ),
+      http.post(
+        "*/api/v1/transactions/txn_upload/notes/note_upload/attachments",
+        async ({ request }) => {
+          contentType = request.headers.get("content-type");
+          received = (await request.formData()).get("file");
+          return HttpResponse.json({ attachment_id: "att_upload" }, { status: 201 });
+        }
+      )
+    );
+    const file = new File(["%PDF-1.4"], "statement.pdf", { type: "application/pdf" });
+
+    const { result } = renderHook(() => useNotes({ transactionId: "txn_upload" }));
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    await act(async () => {
+      await result.current.createNote({ note_type: "GENERAL", note_content: "See attached" }, [
+        file,
+      ]);
+    });
+
+    expect(contentType).toMatch(/^multipart\/form-data; boundary=/);
+    expect(received).toBeInstanceOf(File);
+    expect((received as unknown as File).name).toBe("statement.pdf");
+    expect(await (received as unknown as File).text()).toBe("%PDF-1.4");
+  });
+});
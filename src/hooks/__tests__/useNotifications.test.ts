@@ -0,0 +1,107 @@
+/**
+ * Unit tests for useNotifications, driven by the MSW notification fixtures
+ * and event stream. The signed-in mock user is maker1.
+ */
+
+import { describe, it, expect } from "vitest";
+import { renderHook, waitFor, act } from "@testing-library/react";
+import { http, HttpResponse } from "msw";
+import { useNotificationPreferences, useNotifications } from "../useNotifications";
+import { server } from "@/test/server";
+
+const runDeepInvestigation = (transactionId: string): Promise<Response> =>
+  fetch("/api/v1/ops-agent/investigations/run", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ transaction_id: transactionId, mode: "deep" }),
+  });
+
+describe("useNotifications", () => {
+  it("loads the current user's notifications newest first", async () => {
+    const { result, unmount } = renderHook(() => useNotifications());
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.unreadCount).toBe(2);
+    expect(result.current.notifications.map((n) => n.type)).toEqual([
+      "CRITICAL_RECOMMENDATION",
+      "SUBMISSION_REJECTED",
+      "REVIEW_ASSIGNED",
+    ]);
+    unmount();
+  });
+
+  it("adds notifications pushed while connected", async () => {
+    const { result, unmount } = renderHook(() => useNotifications());
+    await waitFor(() => expect(result.current.connection).toBe("live"));
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    const before = result.current.unreadCount;
+
+    await runDeepInvestigation("txn-push-001");
+
+    await waitFor(() => expect(result.current.unreadCount).toBe(before + 1));
+    expect(result.current.notifications[0]).toMatchObject({
+      type: "CRITICAL_RECOMMENDATION",
+      link: "/transactions/show/txn-push-001",
+    });
+    unmount();
+  });
+
+  it("marks notifications read on the server", async () => {
+    const { result, unmount } = renderHook(() => useNotifications());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    const [first] = result.current.notifications;
+
+    await act(async () => {
+      await result.current.markRead(first?.notification_id ?? "");
+    });
+    expect(result.current.notifications[0]?.read_at).not.toBeNull();
+
+    await act(async () => {
+      await result.current.markAllRead();
+    });
+    expect(result.current.unreadCount).toBe(0);
+    unmount();
+
+    const { result: reloaded, unmount: unmountReloaded } = renderHook(() => useNotifications());
+    await waitFor(() => expect(reloaded.current.isLoading).toBe(false));
+    expect(reloaded.current.unreadCount).toBe(0);
+    unmountReloaded();
+  });
+
+  it("falls back to polling when the stream is unavailable", async () => {
+    server.use(
+      http.get("*/api/v1/notifications/events", () => new HttpResponse(null, { status: 503 }))
+    );
+
+    const { result, unmount } = renderHook(() => useNotifications());
+
+    await waitFor(() => expect(result.current.connection).toBe("polling"));
+    unmount();
+  });
+
+  it("does not load when disabled", () => {
+    const { result } = renderHook(() => useNotifications({ enabled: false }));
+
+    expect(result.current.isLoading).toBe(false);
+    expect(result.current.connection).toBe("polling");
+    expect(result.current.notifications).toEqual([]);
+  });
+});
+
+describe("useNotificationPreferences", () => {
+  it("stops notifications of a type once it is turned off", async () => {
+    const { result } = renderHook(() => useNotificationPreferences());
+    await waitFor(() => expect(result.current.preferences?.CRITICAL_RECOMMENDATION).toBe(true));
+
+    await act(async () => {
+      await result.current.updatePreferences({ CRITICAL_RECOMMENDATION: false });
+    });
+    expect(result.current.preferences?.CRITICAL_RECOMMENDATION).toBe(false);
+
+    await runDeepInvestigation("txn-muted-001");
+    const list = (await (await fetch("/api/v1/notifications")).json()) as {
+      items: Array<{ link: string }>;
+    };
+    expect(list.items.some((n) => n.link === "/transactions/show/txn-muted-001")).toBe(false);
+  });
+});
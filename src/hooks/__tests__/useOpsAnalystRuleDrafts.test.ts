@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { useOpsAnalystRuleDrafts } from "../useOpsAnalystRuleDrafts";
+import * as httpClient from "@/api/httpClient";
+import { OPS_ANALYST } from "@/api/endpoints";
+import type { RuleDraftExportResponse, RuleDraftResponse } from "@/types/opsAnalyst";
+
+vi.mock("@/api/httpClient", () => ({
+  post: vi.fn(),
+}));
+
+describe("useOpsAnalystRuleDrafts", () => {
+  const mockPost = vi.mocked(httpClient.post);
+
+  const draft: RuleDraftResponse = {
+    draft_id: "draft-1",
+    recommendation_id: "rec-2",
+    payload: { conditions: [] },
+    created_at: "2026-01-15T10:00:00Z",
+  };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("creates a draft for the recommendation", async () => {
+    mockPost.mockResolvedValue(draft);
+    const { result } = renderHook(() => useOpsAnalystRuleDrafts());
+
+    let created: RuleDraftResponse | undefined;
+    await act(async () => {
+      created = await result.current.createDraft("rec-2");
+    });
+
+    expect(mockPost).toHaveBeenCalledWith(OPS_ANALYST.RULE_DRAFTS.CREATE, {
+      recommendation_id: "rec-2",
+    });
+    expect(created).toEqual(draft);
+    expect(result.current.loading).toBe(false);
+  });
+
+  it("exports the draft with the created rule as backlink", async () => {
+    const exported: RuleDraftExportResponse = {
+      draft_id: "draft-1",
+      recommendation_id: "rec-2",
+      recommendation_status: "EXPORTED",
+      rule_id: "rule_9",
+      exported_at: "2026-01-15T10:05:00Z",
+    };
+    mockPost.mockResolvedValue(exported);
+    const { result } = renderHook(() => useOpsAnalystRuleDrafts());
+
+    await act(async () => {
+      await result.current.exportDraft("draft-1", "rule_9");
+    });
+
+    expect(mockPost).toHaveBeenCalledWith(OPS_ANALYST.RULE_DRAFTS.EXPORT("draft-1"), {
+      rule_id: "rule_9",
+    });
+  });
+
+  it("records the error and rethrows", async () => {
+    mockPost.mockRejectedValue(new Error("Not a rule candidate"));
+    const { result } = renderHook(() => useOpsAnalystRuleDrafts());
+
+    await act(async () => {
+      await expect(result.current.createDraft("rec-1")).rejects.toThrow("Not a rule candidate");
+    });
+
+    expect(result.current.error).toBe("Not a rule candidate");
+  });
+});
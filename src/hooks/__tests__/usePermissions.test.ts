@@ -173,6 +173,30 @@ describe("usePermissions", () => {
       expect(result.current.capabilities.canResolveCases).toBe(true);
     });
 
+    it("should map reveal:sensitive-data permission to canRevealSensitiveData capability", async () => {
+      mockGetAccessTokenScopes.mockResolvedValue(["reveal:sensitive-data"]);
+
+      const { result } = renderHook(() => usePermissions());
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.capabilities.canRevealSensitiveData).toBe(true);
+    });
+
+    it("should map supervise:reviews permission to canSuperviseReviews capability", async () => {
+      mockGetAccessTokenScopes.mockResolvedValue(["supervise:reviews"]);
+
+      const { result } = renderHook(() => usePermissions());
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.capabilities.canSuperviseReviews).toBe(true);
+    });
+
     it("should map admin:all permission to all capabilities", async () => {
       mockGetAccessTokenScopes.mockResolvedValue(["admin:all"]);
 
@@ -192,6 +216,8 @@ describe("usePermissions", () => {
         canReviewTransactions: true,
         canCreateCases: true,
         canResolveCases: true,
+        canRevealSensitiveData: true,
+        canSuperviseReviews: true,
         isAdmin: true,
       });
     });
@@ -247,6 +273,8 @@ describe("usePermissions", () => {
         canReviewTransactions: false,
         canCreateCases: false,
         canResolveCases: false,
+        canRevealSensitiveData: false,
+        canSuperviseReviews: false,
         isAdmin: false,
       });
     });
@@ -306,6 +334,8 @@ describe("usePermissions", () => {
         canReviewTransactions: false,
         canCreateCases: false,
         canResolveCases: false,
+        canRevealSensitiveData: false,
+        canSuperviseReviews: false,
         isAdmin: false,
       });
     });
@@ -345,6 +375,8 @@ describe("usePermissions", () => {
         canReviewTransactions: false,
         canCreateCases: false,
         canResolveCases: false,
+        canRevealSensitiveData: true,
+        canSuperviseReviews: false,
         isAdmin: false,
       });
     });
@@ -378,6 +410,8 @@ describe("usePermissions", () => {
       expect(result.current.capabilities.canReviewTransactions).toBe(true);
       expect(result.current.capabilities.canCreateCases).toBe(true);
       expect(result.current.capabilities.canResolveCases).toBe(false);
+      expect(result.current.capabilities.canRevealSensitiveData).toBe(false);
+      expect(result.current.capabilities.canSuperviseReviews).toBe(false);
     });
 
     it("should use role-based fallback for FRAUD_SUPERVISOR role", async () => {
@@ -409,6 +443,8 @@ describe("usePermissions", () => {
       expect(result.current.capabilities.canReviewTransactions).toBe(true);
       expect(result.current.capabilities.canCreateCases).toBe(true);
       expect(result.current.capabilities.canResolveCases).toBe(true);
+      expect(result.current.capabilities.canRevealSensitiveData).toBe(true);
+      expect(result.current.capabilities.canSuperviseReviews).toBe(true);
     });
 
     it("should use role-based fallback for PLATFORM_ADMIN role", async () => {
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { renderHook, waitFor, act } from "@testing-library/react";
+import { useRecommendationOutcomes } from "../useRecommendationOutcomes";
+import * as httpClient from "@/api/httpClient";
+import { OPS_ANALYST } from "@/api/endpoints";
+import type { RecommendationOutcomeListResponse } from "@/types/opsAnalyst";
+
+vi.mock("@/api/httpClient", () => ({
+  get: vi.fn(),
+}));
+
+describe("useRecommendationOutcomes", () => {
+  const mockGet = vi.mocked(httpClient.get);
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("requests outcomes for the selected number of days", async () => {
+    mockGet.mockResolvedValue({ outcomes: [], from: "", to: "" });
+
+    const { result } = renderHook(() => useRecommendationOutcomes(7));
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    const url = new URL(mockGet.mock.calls[0]?.[0] ?? "", "http://localhost");
+    expect(url.pathname).toContain(OPS_ANALYST.ANALYTICS.RECOMMENDATION_OUTCOMES);
+    const from = Date.parse(url.searchParams.get("from") ?? "");
+    const to = Date.parse(url.searchParams.get("to") ?? "");
+    expect(to - from).toBe(7 * 24 * 60 * 60 * 1000);
+  });
+
+  it("reports load failures", async () => {
+    mockGet.mockRejectedValue(new Error("boom"));
+
+    const { result } = renderHook(() => useRecommendationOutcomes(30));
+
+    await waitFor(() => expect(result.current.error).toBe("boom"));
+    expect(result.current.outcomes).toEqual([]);
+  });
+
+  it("aborts the previous request when the range changes", async () => {
+    let resolveFirst: (value: RecommendationOutcomeListResponse) => void = () => undefined;
+    mockGet
+      .mockReturnValueOnce(
+        new Promise<RecommendationOutcomeListResponse>((resolve) => {
+          resolveFirst = resolve;
+        })
+      )
+      .mockResolvedValueOnce({ outcomes: [], from: "", to: "" });
+
+    const { result, rerender } = renderHook(({ days }) => useRecommendationOutcomes(days), {
+      initialProps: { days: 7 },
+    });
+    await waitFor(() => expect(mockGet).toHaveBeenCalledTimes(1));
+    rerender({ days: 30 });
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    const [, firstConfig] = mockGet.mock.calls[0] ?? [];
+    expect(firstConfig?.signal?.aborted).toBe(true);
+    await act(async () => {
+      resolveFirst({
+        outcomes: [
+          { recommendation_id: "stale" } as RecommendationOutcomeListResponse["outcomes"][number],
+        ],
+        from: "",
+        to: "",
+      });
+      await Promise.resolve();
+    });
+    expect(result.current.outcomes).toEqual([]);
+  });
+});
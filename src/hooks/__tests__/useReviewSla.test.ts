@@ -0,0 +1,96 @@
+/**
+ * Unit tests for the review SLA hooks, driven by the MSW worklist fixtures
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { renderHook, waitFor, act } from "@testing-library/react";
+import { http, HttpResponse } from "msw";
+import { useSlaClock, useSlaPolicy, useWorkflowMetrics } from "../useReviewSla";
+import { DEFAULT_SLA_POLICY } from "../../shared/utils/sla";
+import { server } from "@/test/server";
+
+describe("useSlaPolicy", () => {
+  it("starts from the default policy and loads the configured one", async () => {
+    const { result } = renderHook(() => useSlaPolicy());
+
+    expect(result.current.policy).toEqual(DEFAULT_SLA_POLICY);
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.error).toBeNull();
+    expect(result.current.policy.priority_minutes["1"]).toBe(60);
+  });
+
+  it("saves target changes", async () => {
+    const { result } = renderHook(() => useSlaPolicy());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    await act(async () => {
+      await result.current.updatePolicy({ risk_minutes: { CRITICAL: 90 } as never });
+    });
+
+    expect(result.current.policy.risk_minutes.CRITICAL).toBe(90);
+    expect(result.current.policy.updated_by).toBe("John Maker");
+  });
+
+  it("rejects invalid targets", async () => {
+    const { result } = renderHook(() => useSlaPolicy());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    let rejected = false;
+    await act(async () => {
+      await result.current.updatePolicy({ priority_minutes: { "1": 0 } }).catch(() => {
+        rejected = true;
+      });
+    });
+
+    expect(rejected).toBe(true);
+    expect(result.current.isSaving).toBe(false);
+    expect(result.current.policy.priority_minutes["1"]).toBe(60);
+  });
+});
+
+describe("useWorkflowMetrics", () => {
+  it("loads SLA compliance with the workflow metrics", async () => {
+    const { result } = renderHook(() => useWorkflowMetrics());
+
+    await waitFor(() => expect(result.current.metrics).not.toBeNull());
+    expect(result.current.metrics?.sla.by_priority.length).toBeGreaterThan(0);
+    expect(result.current.metrics?.sla.compliance_rate).toBeGreaterThan(0);
+  });
+
+  it("reports failures", async () => {
+    server.use(
+      http.get("*/api/v1/metrics/workflow", () => new HttpResponse(null, { status: 500 }))
+    );
+
+    const { result } = renderHook(() => useWorkflowMetrics());
+
+    await waitFor(() => expect(result.current.error).not.toBeNull());
+    expect(result.current.isLoading).toBe(false);
+  });
+
+  it("does not load when disabled", () => {
+    const { result } = renderHook(() => useWorkflowMetrics(false));
+
+    expect(result.current.isLoading).toBe(false);
+    expect(result.current.metrics).toBeNull();
+  });
+});
+
+describe("useSlaClock", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("ticks on the given interval", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-01T12:00:00Z"));
+    const { result } = renderHook(() => useSlaClock(1000));
+    const start = result.current;
+
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+
+    expect(result.current).toBe(start + 1000);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { useRuleBacktest } from "../useRuleBacktest";
+import * as httpClient from "@/api/httpClient";
+import { RULES } from "@/api/endpoints";
+import type { RuleBacktestRequest, RuleBacktestResponse } from "@/api/types";
+import { Operator } from "@/types/enums";
+
+vi.mock("@/api/httpClient", () => ({
+  post: vi.fn(),
+}));
+
+describe("useRuleBacktest", () => {
+  const mockPost = vi.mocked(httpClient.post);
+
+  const request: RuleBacktestRequest = {
+    condition_tree: { and: [{ field: "AMOUNT", op: Operator.GT, value: 100 }] },
+    from_date: "2026-01-01",
+    to_date: "2026-01-31",
+  };
+
+  const response: RuleBacktestResponse = {
+    backtest_id: "bt_1",
+    from_date: "2026-01-01",
+    to_date: "2026-01-31",
+    days: 31,
+    transactions_evaluated: 10,
+    match_count: 2,
+    confusion_matrix: {
+      true_positives: 1,
+      false_positives: 1,
+      false_negatives: 0,
+      true_negatives: 3,
+      unlabelled_matches: 0,
+      unlabelled_non_matches: 5,
+    },
+    sample_hits: [],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("posts the request and keeps the last result", async () => {
+    mockPost.mockResolvedValue(response);
+    const { result } = renderHook(() => useRuleBacktest());
+
+    await act(async () => {
+      await result.current.run(request);
+    });
+
+    expect(mockPost).toHaveBeenCalledWith(RULES.BACKTEST, request);
+    expect(result.current.lastResult).toEqual(response);
+    expect(result.current.loading).toBe(false);
+    expect(result.current.error).toBeNull();
+  });
+
+  it("exposes the error and rethrows on failure", async () => {
+    mockPost.mockRejectedValue(new Error("Range too large"));
+    const { result } = renderHook(() => useRuleBacktest());
+
+    await act(async () => {
+      await expect(result.current.run(request)).rejects.toThrow("Range too large");
+    });
+
+    expect(result.current.error).toBe("Range too large");
+    expect(result.current.lastResult).toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for useRuleSetActivation hooks
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { renderHook, waitFor, act } from "@testing-library/react";
+import { useRuleSetActivationActions, useScheduledActivations } from "../useRuleSetActivation";
+import * as httpClient from "@/api/httpClient";
+import { RULESET_VERSIONS } from "@/api/endpoints";
+import type { ScheduledRuleSetActivation } from "@/api/types";
+import { RulesetEnvironment } from "@/types/enums";
+
+vi.mock("@/api/httpClient", () => ({
+  get: vi.fn(),
+  post: vi.fn(),
+  del: vi.fn(),
+}));
+
+describe("useScheduledActivations", () => {
+  const mockGet = vi.mocked(httpClient.get);
+
+  const activation: ScheduledRuleSetActivation = {
+    ruleset_version_id: "rsv_1",
+    ruleset_id: "rs_1",
+    ruleset_name: "Blocking",
+    environment: RulesetEnvironment.PROD,
+    version: 4,
+    activate_at: "2030-01-01T02:00:00Z",
+    scheduled_by: "ops",
+  };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("fetches upcoming activations", async () => {
+    mockGet.mockResolvedValue([activation]);
+
+    const { result } = renderHook(() => useScheduledActivations());
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.activations).toEqual([activation]);
+    expect(mockGet).toHaveBeenCalledWith(RULESET_VERSIONS.SCHEDULED, expect.anything());
+  });
+
+  it("exposes fetch errors", async () => {
+    mockGet.mockRejectedValue(new Error("boom"));
+
+    const { result } = renderHook(() => useScheduledActivations());
+
+    await waitFor(() => expect(result.current.error?.message).toBe("boom"));
+    expect(result.current.activations).toEqual([]);
+  });
+
+  it("does not fetch when disabled", () => {
+    const { result } = renderHook(() => useScheduledActivations(false));
+    expect(result.current.isLoading).toBe(false);
+    expect(mockGet).not.toHaveBeenCalled();
+  });
+});
+
+describe("useRuleSetActivationActions", () => {
+  const mockPost = vi.mocked(httpClient.post);
+  const mockDel = vi.mocked(httpClient.del);
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("schedules, cancels and rolls back through the version endpoints", async () => {
+    mockPost.mockResolvedValue({});
+    mockDel.mockResolvedValue({});
+    const { result } = renderHook(() => useRuleSetActivationActions());
+
+    await act(async () => {
+      await result.current.scheduleActivation("rsv_1", "2030-01-01T02:00:00Z");
+      await result.current.cancelScheduledActivation("rsv_1");
+      await result.current.rollback("rsv_2");
+    });
+
+    expect(mockPost).toHaveBeenCalledWith(RULESET_VERSIONS.SCHEDULE("rsv_1"), {
+      activate_at: "2030-01-01T02:00:00Z",
+    });
+    expect(mockDel).toHaveBeenCalledWith(RULESET_VERSIONS.SCHEDULE("rsv_1"));
+    expect(mockPost).toHaveBeenCalledWith(RULESET_VERSIONS.ROLLBACK("rsv_2"));
+    expect(result.current.isSubmitting).toBe(false);
+  });
+
+  it("rejects when the backend refuses", async () => {
+    mockPost.mockRejectedValue(new Error("not approved"));
+    const { result } = renderHook(() => useRuleSetActivationActions());
+
+    await expect(
+      act(() => result.current.scheduleActivation("rsv_1", "2030-01-01T02:00:00Z"))
+    ).rejects.toThrow("not approved");
+    expect(result.current.isSubmitting).toBe(false);
+  });
+});
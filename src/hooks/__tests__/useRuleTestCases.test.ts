@@ -0,0 +1,104 @@
+/**
+ * Unit tests for useRuleTestCases hook
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { renderHook, waitFor, act } from "@testing-library/react";
+import { useRuleTestCases } from "../useRuleTestCases";
+import * as httpClient from "@/api/httpClient";
+import { RULE_VERSIONS } from "@/api/endpoints";
+import type { RuleTestCase } from "@/types/domain";
+
+vi.mock("@/api/httpClient", () => ({
+  get: vi.fn(),
+  post: vi.fn(),
+  del: vi.fn(),
+}));
+
+describe("useRuleTestCases", () => {
+  const mockGet = vi.mocked(httpClient.get);
+  const mockPost = vi.mocked(httpClient.post);
+  const mockDel = vi.mocked(httpClient.del);
+
+  const testCase: RuleTestCase = {
+    test_case_id: "tc_1",
+    rule_version_id: "rv_1",
+    name: "Large purchase",
+    sample: { AMOUNT: 900 },
+    expected: "MATCH",
+    created_by: "maker",
+    created_at: "2024-01-01T00:00:00Z",
+  };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("fetches test cases for the rule version", async () => {
+    mockGet.mockResolvedValue([testCase]);
+
+    const { result } = renderHook(() => useRuleTestCases({ ruleVersionId: "rv_1" }));
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(mockGet).toHaveBeenCalledWith(RULE_VERSIONS.TEST_CASES.LIST("rv_1"), {
+      signal: expect.any(AbortSignal),
+    });
+    expect(result.current.testCases).toEqual([testCase]);
+  });
+
+  it("skips fetching without a rule version", () => {
+    const { result } = renderHook(() => useRuleTestCases({ ruleVersionId: null }));
+
+    expect(result.current.isLoading).toBe(false);
+    expect(mockGet).not.toHaveBeenCalled();
+  });
+
+  it("surfaces fetch errors", async () => {
+    mockGet.mockRejectedValue(new Error("boom"));
+
+    const { result } = renderHook(() => useRuleTestCases({ ruleVersionId: "rv_1" }));
+
+    await waitFor(() => expect(result.current.error?.message).toBe("boom"));
+    expect(result.current.testCases).toEqual([]);
+  });
+
+  it("appends created test cases and propagates failures", async () => {
+    mockGet.mockResolvedValue([]);
+    const { result } = renderHook(() => useRuleTestCases({ ruleVersionId: "rv_1" }));
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    mockPost.mockResolvedValueOnce(testCase);
+    const request = { name: "Large purchase", sample: { AMOUNT: 900 }, expected: "MATCH" as const };
+    await act(async () => {
+      await result.current.createTestCase(request);
+    });
+    expect(mockPost).toHaveBeenCalledWith(RULE_VERSIONS.TEST_CASES.CREATE("rv_1"), request);
+    expect(result.current.testCases).toEqual([testCase]);
+
+    mockPost.mockRejectedValueOnce(new Error("rejected"));
+    await act(async () => {
+      await expect(result.current.createTestCase(request)).rejects.toThrow("rejected");
+    });
+    expect(result.current.isCreating).toBe(false);
+  });
+
+  it("restores the list when delete fails", async () => {
+    mockGet.mockResolvedValue([testCase]);
+    const { result } = renderHook(() => useRuleTestCases({ ruleVersionId: "rv_1" }));
+    await waitFor(() => expect(result.current.testCases).toHaveLength(1));
+
+    mockDel.mockRejectedValueOnce(new Error("nope"));
+    await act(async () => {
+      await expect(result.current.deleteTestCase("tc_1")).rejects.toThrow("nope");
+    });
+    expect(result.current.testCases).toEqual([testCase]);
+    expect(result.current.error).toBeNull();
+
+    mockDel.mockResolvedValueOnce(undefined);
+    await act(async () => {
+      await result.current.deleteTestCase("tc_1");
+    });
+    expect(mockDel).toHaveBeenCalledWith(RULE_VERSIONS.TEST_CASES.DELETE("rv_1", "tc_1"));
+    expect(result.current.testCases).toEqual([]);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { renderHook, waitFor, act } from "@testing-library/react";
+import { useSavedViews } from "../useSavedViews";
+import * as httpClient from "@/api/httpClient";
+import { SAVED_VIEWS } from "@/api/endpoints";
+import type { SavedView } from "@/types/savedView";
+
+vi.mock("@/api/httpClient", () => ({
+  get: vi.fn(),
+  post: vi.fn(),
+  patch: vi.fn(),
+  put: vi.fn(),
+  del: vi.fn(),
+}));
+
+const baseView: SavedView = {
+  id: "view-1",
+  name: "Zulu",
+  description: null,
+  visibility: "PRIVATE",
+  pinned: false,
+  owner_id: "user-1",
+  owner_name: null,
+  created_at: "2026-03-01T00:00:00Z",
+  updated_at: "2026-03-01T00:00:00Z",
+  target: "worklist",
+  filters: { status: "PENDING" },
+};
+
+describe("useSavedViews", () => {
+  const mockGet = vi.mocked(httpClient.get);
+  const mockPost = vi.mocked(httpClient.post);
+  const mockPut = vi.mocked(httpClient.put);
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockGet.mockImplementation(async (url: string) =>
+      url === SAVED_VIEWS.COUNTS
+        ? { counts: { "view-1": 4 }, generated_at: "" }
+        : {
+            items: [baseView, { ...baseView, id: "view-2", name: "Alpha", pinned: true }],
+            total: 2,
+          }
+    );
+  });
+
+  it("loads views pinned first with their counts", async () => {
+    const { result } = renderHook(() => useSavedViews({ withCounts: true }));
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.views.map((v) => v.id)).toEqual(["view-2", "view-1"]);
+    expect(result.current.counts).toEqual({ "view-1": 4 });
+  });
+
+  it("skips counts unless asked for", async () => {
+    const { result } = renderHook(() => useSavedViews());
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(mockGet).not.toHaveBeenCalledWith(SAVED_VIEWS.COUNTS);
+  });
+
+  it("does not fetch while disabled but can still create views", async () => {
+    mockPost.mockResolvedValue({ ...baseView, id: "view-3" });
+    const { result } = renderHook(() => useSavedViews({ enabled: false }));
+
+    await act(async () => {
+      await result.current.createView({
+        name: "Mine",
+        description: null,
+        visibility: "TEAM",
+        pinned: false,
+        target: "worklist",
+        filters: {},
+      });
+    });
+
+    expect(mockPost).toHaveBeenCalledWith(
+      SAVED_VIEWS.CREATE,
+      expect.objectContaining({ name: "Mine" })
+    );
+    expect(mockGet).not.toHaveBeenCalled();
+  });
+
+  it("replaces the view with the server copy after pinning", async () => {
+    mockPut.mockResolvedValue({ ...baseView, pinned: true });
+    const { result } = renderHook(() => useSavedViews());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    await act(async () => {
+      await result.current.setPinned("view-1", true);
+    });
+
+    expect(mockPut).toHaveBeenCalledWith(SAVED_VIEWS.PIN("view-1"));
+    expect(result.current.views.map((v) => v.id)).toEqual(["view-2", "view-1"]);
+    expect(result.current.views.every((v) => v.pinned)).toBe(true);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Unit tests for useSensitiveData hook
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { useSensitiveData } from "../useSensitiveData";
+import * as httpClient from "@/api/httpClient";
+import { AUDIT_LOGS } from "@/api/endpoints";
+import { EntityType } from "@/types/enums";
+import { MASK_ALL_KEYS } from "@/shared/utils/sensitiveData";
+
+vi.mock("@/api/httpClient", () => ({
+  get: vi.fn(),
+  post: vi.fn(),
+}));
+
+const mockCapabilities = { canRevealSensitiveData: true };
+
+vi.mock("@/hooks/usePermissions", () => ({
+  usePermissions: () => ({ capabilities: mockCapabilities }),
+}));
+
+const fields = {
+  items: [
+    { field_key: "CARD_NUMBER", is_sensitive: true },
+    { field_key: "AMOUNT", is_sensitive: false },
+  ],
+};
+
+describe("useSensitiveData", () => {
+  const mockGet = vi.mocked(httpClient.get);
+  const mockPost = vi.mocked(httpClient.post);
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockCapabilities.canRevealSensitiveData = true;
+    mockGet.mockResolvedValue(fields);
+  });
+
+  it("masks the fields flagged sensitive in the registry", async () => {
+    const { result } = renderHook(() =>
+      useSensitiveData({ entityType: EntityType.TRANSACTION, entityId: "txn_001" })
+    );
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(Array.from(result.current.keysToMask)).toEqual(["CARD_NUMBER"]);
+    expect(result.current.canReveal).toBe(true);
+    expect(result.current.isRevealed).toBe(false);
+  });
+
+  it("masks every value until the sensitive fields are known", async () => {
+    const { result } = renderHook(() =>
+      useSensitiveData({ entityType: EntityType.TRANSACTION, entityId: "txn_001" })
+    );
+
+    expect(result.current.keysToMask).toBe(MASK_ALL_KEYS);
+    expect(result.current.canReveal).toBe(false);
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.keysToMask).not.toBe(MASK_ALL_KEYS);
+  });
+
+  it("keeps every value masked when the sensitive fields cannot be loaded", async () => {
+    mockGet.mockRejectedValue(new Error("Registry unavailable"));
+    const { result } = renderHook(() =>
+      useSensitiveData({ entityType: EntityType.TRANSACTION, entityId: "txn_001" })
+    );
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.error?.message).toBe("Registry unavailable");
+    expect(result.current.keysToMask).toBe(MASK_ALL_KEYS);
+    expect(result.current.canReveal).toBe(false);
+  });
+
+  it("writes an audit entry before revealing", async () => {
+    mockPost.mockResolvedValue({ audit_id: "audit_100" });
+    const { result } = renderHook(() =>
+      useSensitiveData({ entityType: EntityType.TRANSACTION, entityId: "txn_001" })
+    );
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    await act(async () => {
+      await result.current.reveal(["CARD_NUMBER"], "  Chargeback investigation  ");
+    });
+
+    expect(mockPost).toHaveBeenCalledWith(AUDIT_LOGS.REVEAL, {
+      entity_type: EntityType.TRANSACTION,
+      entity_id: "txn_001",
+      field_keys: ["CARD_NUMBER"],
+      reason: "Chargeback investigation",
+    });
+    expect(result.current.isRevealed).toBe(true);
+    expect(result.current.keysToMask.size).toBe(0);
+  });
+
+  it("stays masked when the audit write fails", async () => {
+    mockPost.mockRejectedValue(new Error("Forbidden"));
+    const { result } = renderHook(() =>
+      useSensitiveData({ entityType: EntityType.TRANSACTION, entityId: "txn_001" })
+    );
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    await act(async () => {
+      await expect(result.current.reveal(["CARD_NUMBER"], "Chargeback review")).rejects.toThrow(
+        "Forbidden"
+      );
+    });
+    expect(result.current.isRevealed).toBe(false);
+    expect(result.current.keysToMask.has("CARD_NUMBER")).toBe(true);
+  });
+
+  it("masks again when the entity changes", async () => {
+    mockPost.mockResolvedValue({ audit_id: "audit_100" });
+    const { result, rerender } = renderHook(
+      ({ entityId }) => useSensitiveData({ entityType: EntityType.TRANSACTION, entityId }),
+      { initialProps: { entityId: "txn_001" } }
+    );
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    await act(async () => {
+      await result.current.reveal(["CARD_NUMBER"], "Chargeback review");
+    });
+
+    rerender({ entityId: "txn_002" });
+    expect(result.current.isRevealed).toBe(false);
+  });
+
+  it("does not offer reveal without the capability", async () => {
+    mockCapabilities.canRevealSensitiveData = false;
+    const { result } = renderHook(() =>
+      useSensitiveData({ entityType: EntityType.TRANSACTION, entityId: "txn_001" })
+    );
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.canReveal).toBe(false);
+  });
+
+  it("refuses to reveal without the capability", async () => {
+    mockCapabilities.canRevealSensitiveData = false;
+    const { result } = renderHook(() =>
+      useSensitiveData({ entityType: EntityType.TRANSACTION, entityId: "txn_001" })
+    );
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    await act(async () => {
+      await expect(result.current.reveal(["CARD_NUMBER"], "Chargeback review")).rejects.toThrow(
+        "not allowed"
+      );
+    });
+    expect(mockPost).not.toHaveBeenCalled();
+    expect(result.current.isRevealed).toBe(false);
+  });
+});
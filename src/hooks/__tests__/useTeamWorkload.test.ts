@@ -0,0 +1,68 @@
+/**
+ * Unit tests for useTeamWorkload, driven by the MSW worklist fixtures
+ */
+
+import { describe, it, expect } from "vitest";
+import { renderHook, waitFor, act } from "@testing-library/react";
+import { http, HttpResponse } from "msw";
+import { useTeamWorkload } from "../useTeamWorkload";
+import type { BulkOperationResponse } from "../../types/bulk";
+import { server } from "@/test/server";
+
+describe("useTeamWorkload", () => {
+  it("loads each analyst's open reviews and the unassigned ones", async () => {
+    const { result } = renderHook(() => useTeamWorkload());
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.error).toBeNull();
+    const john = result.current.workload?.analysts.find((a) => a.analyst_id === "user_maker_1");
+    expect(john?.reviews.map((r) => r.transaction_id)).toEqual(["txn_001"]);
+    expect(result.current.workload?.unassigned.map((r) => r.transaction_id)).toContain("txn_002");
+  });
+
+  it("reassigns reviews, reports per-review failures and reloads", async () => {
+    const { result } = renderHook(() => useTeamWorkload());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    let response: BulkOperationResponse | undefined;
+    await act(async () => {
+      response = await result.current.reassign(["txn_002", "txn_missing"], "user_maker_2");
+    });
+
+    expect(response).toMatchObject({ success_count: 1, failure_count: 1 });
+    expect(response?.results[1]).toMatchObject({
+      transaction_id: "txn_missing",
+      success: false,
+      error_code: "REVIEW_NOT_FOUND",
+    });
+    const jane = result.current.workload?.analysts.find((a) => a.analyst_id === "user_maker_2");
+    expect(jane?.reviews.map((r) => r.transaction_id)).toEqual(["txn_002"]);
+  });
+
+  it("rejects a reassignment to an unknown analyst", async () => {
+    const { result } = renderHook(() => useTeamWorkload());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    await expect(result.current.reassign(["txn_003"], "user_unknown")).rejects.toBeDefined();
+  });
+
+  it("surfaces load errors", async () => {
+    server.use(
+      http.get("*/api/v1/worklist/team", () =>
+        HttpResponse.json({ detail: "Unavailable" }, { status: 500 })
+      )
+    );
+    const { result } = renderHook(() => useTeamWorkload());
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.error).not.toBeNull();
+    expect(result.current.workload).toBeNull();
+  });
+
+  it("does not load while disabled", () => {
+    const { result } = renderHook(() => useTeamWorkload(false));
+
+    expect(result.current.isLoading).toBe(false);
+    expect(result.current.workload).toBeNull();
+  });
+});
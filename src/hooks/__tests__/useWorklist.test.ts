@@ -139,6 +139,21 @@ describe("useWorklist", () => {
       expect(result.current.items).toEqual([mockWorklistItem1, mockWorklistItem2]);
     });
 
+    it("should ask the server for the time to breach order", async () => {
+      mockGet.mockResolvedValue(mockWorklistResponse);
+
+      const { result } = renderHook(() => useWorklist({ filters: { sort: "time_to_breach" } }));
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(mockGet).toHaveBeenCalledWith(
+        `${WORKLIST.LIST}?sort=time_to_breach`,
+        expect.any(Object)
+      );
+    });
+
     it("should handle pagination with cursor", async () => {
       const paginatedResponse: WorklistResponse = {
         items: [mockWorklistItem1],
@@ -0,0 +1,51 @@
+/**
+ * Unit tests for useWorklistEvents hook, driven by the MSW event stream
+ */
+
+import { describe, it, expect } from "vitest";
+import { renderHook, waitFor } from "@testing-library/react";
+import { http, HttpResponse } from "msw";
+import { useWorklistEvents } from "../useWorklistEvents";
+import { server } from "@/test/server";
+import type { WorklistEvent } from "@/types/worklist";
+
+describe("useWorklistEvents", () => {
+  it("delivers review changes published while connected", async () => {
+    const received: WorklistEvent[] = [];
+    const { result, unmount } = renderHook(() =>
+      useWorklistEvents((event) => received.push(event))
+    );
+
+    await waitFor(() => expect(result.current.mode).toBe("live"));
+
+    await fetch("/api/v1/transactions/txn_002/review/assign", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ analyst_id: "user_checker_1" }),
+    });
+
+    await waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0]).toMatchObject({
+      type: "REVIEW_ASSIGNED",
+      item: { transaction_id: "txn_002", assigned_analyst_id: "user_checker_1" },
+      previous: { assigned_analyst_id: null },
+    });
+
+    unmount();
+  });
+
+  it("falls back to polling when the stream is unavailable", async () => {
+    server.use(http.get("*/api/v1/worklist/events", () => new HttpResponse(null, { status: 503 })));
+
+    const { result, unmount } = renderHook(() => useWorklistEvents(() => undefined));
+
+    await waitFor(() => expect(result.current.mode).toBe("polling"));
+    unmount();
+  });
+
+  it("reports polling without connecting when disabled", () => {
+    const { result } = renderHook(() => useWorklistEvents(() => undefined, { enabled: false }));
+
+    expect(result.current.mode).toBe("polling");
+  });
+});
@@ -15,18 +15,38 @@ export type {
   UsePermissionsResult,
   UsePermissionsWithHelpersResult,
 } from "./usePermissions";
+export { useSensitiveData } from "./useSensitiveData";
+export type { UseSensitiveDataReturn } from "./useSensitiveData";
 
 // Review workflow hooks
 export { useReview } from "./useReview";
 
 // Notes hooks
 export { useNotes } from "./useNotes";
+export { useNoteMentions } from "./useNoteMentions";
+
+// Rule authoring hooks
+export { useRuleTestCases } from "./useRuleTestCases";
+export { useRuleBacktest } from "./useRuleBacktest";
+export { useScheduledActivations, useRuleSetActivationActions } from "./useRuleSetActivation";
+export { useFieldRegistryVersion } from "./useFieldRegistryVersion";
+export { useFieldRegistryVersions } from "./useFieldRegistryVersions";
+export { useFieldRegistryDiff } from "./useFieldRegistryDiff";
+export { useFieldImpact } from "./useFieldImpact";
 
 // Worklist hooks
 export { useWorklist, useWorklistStats, useClaimNext } from "./useWorklist";
+export { useWorklistEvents } from "./useWorklistEvents";
+export { useSavedViews } from "./useSavedViews";
+export { useSlaPolicy, useWorkflowMetrics, useSlaClock } from "./useReviewSla";
+export { useTeamWorkload } from "./useTeamWorkload";
 
 // Case management hooks
 export { useCasesList, useCase, useCaseActivity, useCreateCase } from "./useCases";
+export { useCaseTimeline } from "./useCaseTimeline";
+
+// Notification hooks
+export { useNotifications, useNotificationPreferences } from "./useNotifications";
 
 // Bulk operations hooks
 export { useBulkOperations } from "./useBulkOperations";
@@ -0,0 +1,126 @@
+/**
+ * useCaseTimeline Hook
+ *
+ * Loads the notes, review and ops agent insights of every transaction linked
+ * to a case and merges them with the case activity into one timeline. A
+ * source that fails to load is left out rather than failing the timeline;
+ * `error` says how many were left out.
+ */
+
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { get } from "../api/httpClient";
+import { NOTES, OPS_ANALYST, REVIEW } from "../api/endpoints";
+import { isAbortError } from "../shared/utils/abort";
+import { buildCaseTimeline, type CaseTimelineEvent } from "../shared/utils/caseTimeline";
+import type { CaseActivity } from "../types/case";
+import type { AnalystNote, NotesListResponse } from "../types/notes";
+import type { InsightDetail, InsightListResponse } from "../types/opsAnalyst";
+import type { TransactionReview } from "../types/review";
+
+interface UseCaseTimelineOptions {
+  /** Case activity, already loaded by useCaseActivity */
+  activities: CaseActivity[];
+  transactionIds: string[];
+  /** Wait until the linked transactions are known */
+  enabled?: boolean;
+}
+
+interface UseCaseTimelineReturn {
+  events: CaseTimelineEvent[];
+  isLoading: boolean;
+  error: Error | null;
+  refetch: () => void;
+}
+
+interface TransactionSources {
+  notes: AnalystNote[];
+  reviews: TransactionReview[];
+  insights: InsightDetail[];
+}
+
+const EMPTY_SOURCES: TransactionSources = { notes: [], reviews: [], insights: [] };
+
+/** A transaction that has never been queued for review has no review */
+const isNotFound = (err: unknown): boolean =>
+  typeof err === "object" && err != null && (err as { status?: number }).status === 404;
+
+export function useCaseTimeline({
+  activities,
+  transactionIds,
+  enabled = true,
+}: UseCaseTimelineOptions): UseCaseTimelineReturn {
+  const [sources, setSources] = useState<TransactionSources>(EMPTY_SOURCES);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [tick, setTick] = useState(0);
+
+  // Re-fetch only when the set of transactions changes, not on every new array
+  const transactionKey = transactionIds.join(",");
+  const isActive = enabled && transactionKey !== "";
+
+  useEffect(() => {
+    if (!isActive) return undefined;
+
+    const controller = new AbortController();
+    const { signal } = controller;
+    const ids = transactionKey.split(",");
+
+    const fetchSources = async (): Promise<void> => {
+      setIsLoading(true);
+      setError(null);
+
+      const [notes, reviews, insights] = await Promise.all([
+        Promise.allSettled(ids.map((id) => get<NotesListResponse>(NOTES.LIST(id), { signal }))),
+        Promise.allSettled(
+          ids.map((id) =>
+            get<TransactionReview>(REVIEW.GET(id), { signal }).catch((err: unknown) => {
+              if (isNotFound(err)) return null;
+              throw err;
+            })
+          )
+        ),
+        Promise.allSettled(
+          ids.map((id) => get<InsightListResponse>(OPS_ANALYST.INSIGHTS.LIST(id), { signal }))
+        ),
+      ]);
+      if (signal.aborted) return;
+
+      const failed = [...notes, ...reviews, ...insights].filter(
+        (result): result is PromiseRejectedResult =>
+          result.status === "rejected" && !isAbortError(result.reason)
+      );
+      const fulfilled = <T>(results: PromiseSettledResult<T>[]): T[] =>
+        results.flatMap((result) => (result.status === "fulfilled" ? [result.value] : []));
+
+      setSources({
+        notes: fulfilled(notes).flatMap((response) => response.items ?? []),
+        reviews: fulfilled(reviews).filter((review): review is TransactionReview => review != null),
+        insights: fulfilled(insights).flatMap((response) => response.insights ?? []),
+      });
+      setError(
+        failed.length > 0
+          ? new Error(`${failed.length} timeline source(s) failed to load; showing the rest`)
+          : null
+      );
+      setIsLoading(false);
+    };
+
+    void fetchSources();
+    return () => controller.abort();
+  }, [isActive, transactionKey, tick]);
+
+  const refetch = useCallback(() => setTick((t) => t + 1), []);
+
+  // Sources loaded for earlier transactions no longer apply once there are none
+  const events = useMemo(
+    () => buildCaseTimeline({ activities, ...(isActive ? sources : EMPTY_SOURCES) }),
+    [activities, sources, isActive]
+  );
+
+  return {
+    events,
+    isLoading: isActive && isLoading,
+    error: isActive ? error : null,
+    refetch,
+  };
+}
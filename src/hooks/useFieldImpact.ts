@@ -0,0 +1,91 @@
+/**
+ * useFieldImpact Hook
+ *
+ * Loads the rule versions and rulesets that reference a registry field and
+ * assesses a proposed change to the field against them.
+ */
+
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { get } from "../api/httpClient";
+import { RULE_FIELDS } from "../api/endpoints";
+import { isAbortError } from "../shared/utils/abort";
+import {
+  assessFieldChange,
+  type FieldChange,
+  type FieldImpactAssessment,
+} from "../shared/utils/fieldImpact";
+import type { FieldImpactResponse } from "../types/fieldDefinitions";
+
+interface UseFieldImpactOptions {
+  /** Skip loading, e.g. while a confirmation dialog is closed */
+  enabled?: boolean;
+}
+
+interface UseFieldImpactReturn {
+  impact: FieldImpactResponse | null;
+  assessment: FieldImpactAssessment | null;
+  isLoading: boolean;
+  error: Error | null;
+  /** True only once the impact is loaded and nothing blocks the change */
+  canProceed: boolean;
+  refetch: () => void;
+}
+
+/**
+ * Hook for the impact of changing `fieldKey` to the proposed `change`
+ */
+export function useFieldImpact(
+  fieldKey: string | undefined,
+  change: FieldChange,
+  { enabled = true }: UseFieldImpactOptions = {}
+): UseFieldImpactReturn {
+  const [impact, setImpact] = useState<FieldImpactResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [tick, setTick] = useState(0);
+
+  useEffect(() => {
+    if (!enabled || fieldKey == null || fieldKey === "") return undefined;
+
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    const fetchImpact = async (): Promise<void> => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await get<FieldImpactResponse>(RULE_FIELDS.IMPACT(fieldKey), { signal });
+        if (!signal.aborted) setImpact(response);
+      } catch (err) {
+        if (!signal.aborted && !isAbortError(err)) {
+          setError(err instanceof Error ? err : new Error("Failed to load field impact"));
+          setImpact(null);
+        }
+      } finally {
+        if (!signal.aborted) setIsLoading(false);
+      }
+    };
+
+    void fetchImpact();
+
+    return () => {
+      controller.abort();
+    };
+  }, [enabled, fieldKey, tick]);
+
+  const { is_active: isActive, allowed_operators: allowedOperators } = change;
+  const assessment = useMemo(
+    () =>
+      impact == null
+        ? null
+        : assessFieldChange(impact, { is_active: isActive, allowed_operators: allowedOperators }),
+    [impact, isActive, allowedOperators]
+  );
+
+  const refetch = useCallback(() => setTick((t) => t + 1), []);
+
+  const canProceed = !isLoading && error == null && assessment != null && !assessment.blocked;
+
+  return { impact, assessment, isLoading, error, canProceed, refetch };
+}
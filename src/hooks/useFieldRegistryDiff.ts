@@ -0,0 +1,111 @@
+/**
+ * useFieldRegistryDiff Hook
+ *
+ * Loads the fields of two field registry versions and diffs them. Without a
+ * target version the base is compared with the current field definitions,
+ * i.e. what the next publish would contain.
+ */
+
+import { useState, useEffect, useMemo } from "react";
+import { get } from "../api/httpClient";
+import { RULE_FIELDS } from "../api/endpoints";
+import { isAbortError } from "../shared/utils/abort";
+import {
+  diffRegistryFields,
+  summarizeRegistryDiff,
+  type RegistryDiffSummary,
+  type RegistryFieldDiff,
+} from "../shared/utils/fieldRegistryDiff";
+import { fetchRegistryVersion } from "./useFieldRegistryVersion";
+import type { KeysetPaginatedResponse } from "../api/types";
+import type { FieldDefinition, FieldRegistryManifest } from "../types/fieldDefinitions";
+
+/** Upper bound on fields fetched for the publish preview */
+const CURRENT_FIELDS_LIMIT = 1000;
+
+interface UseFieldRegistryDiffReturn {
+  base: FieldRegistryManifest | null;
+  baseFields: FieldDefinition[];
+  /** Null when comparing against the current field definitions */
+  target: FieldRegistryManifest | null;
+  targetFields: FieldDefinition[];
+  diff: RegistryFieldDiff[];
+  summary: RegistryDiffSummary | null;
+  isLoading: boolean;
+  error: Error | null;
+}
+
+async function fetchTargetFields(
+  targetVersion: number | null,
+  signal: AbortSignal
+): Promise<{ target: FieldRegistryManifest | null; fields: FieldDefinition[] }> {
+  if (targetVersion != null) {
+    const { manifest, fields } = await fetchRegistryVersion(targetVersion, signal);
+    return { target: manifest, fields };
+  }
+  const current = await get<KeysetPaginatedResponse<FieldDefinition>>(RULE_FIELDS.LIST, {
+    params: { limit: CURRENT_FIELDS_LIMIT },
+    signal,
+  });
+  return { target: null, fields: current.items };
+}
+
+export function useFieldRegistryDiff(
+  baseVersion: number | null,
+  targetVersion: number | null
+): UseFieldRegistryDiffReturn {
+  const [base, setBase] = useState<FieldRegistryManifest | null>(null);
+  const [baseFields, setBaseFields] = useState<FieldDefinition[]>([]);
+  const [target, setTarget] = useState<FieldRegistryManifest | null>(null);
+  const [targetFields, setTargetFields] = useState<FieldDefinition[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (baseVersion == null) return undefined;
+
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    const fetchDiff = async (): Promise<void> => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const [baseResult, targetResult] = await Promise.all([
+          fetchRegistryVersion(baseVersion, signal),
+          fetchTargetFields(targetVersion, signal),
+        ]);
+        if (signal.aborted) return;
+        setBase(baseResult.manifest);
+        setBaseFields(baseResult.fields);
+        setTarget(targetResult.target);
+        setTargetFields(targetResult.fields);
+      } catch (err) {
+        if (!signal.aborted && !isAbortError(err)) {
+          setError(err instanceof Error ? err : new Error("Failed to compare registry versions"));
+          setBase(null);
+          setBaseFields([]);
+          setTarget(null);
+          setTargetFields([]);
+        }
+      } finally {
+        if (!signal.aborted) setIsLoading(false);
+      }
+    };
+
+    void fetchDiff();
+    return () => controller.abort();
+  }, [baseVersion, targetVersion]);
+
+  const diff = useMemo(
+    () => (base == null ? [] : diffRegistryFields(baseFields, targetFields)),
+    [base, baseFields, targetFields]
+  );
+  const summary = useMemo(
+    () => (base == null ? null : summarizeRegistryDiff(diff, targetFields.length)),
+    [base, diff, targetFields.length]
+  );
+
+  return { base, baseFields, target, targetFields, diff, summary, isLoading, error };
+}
@@ -0,0 +1,87 @@
+/**
+ * useFieldRegistryVersion Hook
+ *
+ * Loads a published field registry version with its fields, together with
+ * the latest manifest so callers can tell whether the version is current.
+ */
+
+import { useState, useEffect } from "react";
+import { get } from "../api/httpClient";
+import { FIELD_REGISTRY } from "../api/endpoints";
+import { isAbortError } from "../shared/utils/abort";
+import type { FieldDefinition, FieldRegistryManifest } from "../types/fieldDefinitions";
+
+interface UseFieldRegistryVersionReturn {
+  registry: FieldRegistryManifest | null;
+  /** Fields published in `registry`; null until loaded */
+  fields: FieldDefinition[] | null;
+  latest: FieldRegistryManifest | null;
+  isLoading: boolean;
+  error: Error | null;
+}
+
+/**
+ * A published version's manifest and fields; the manifest endpoint does not
+ * return the fields itself
+ */
+export async function fetchRegistryVersion(
+  registryVersion: number,
+  signal: AbortSignal
+): Promise<{ manifest: FieldRegistryManifest; fields: FieldDefinition[] }> {
+  const [manifest, fields] = await Promise.all([
+    get<FieldRegistryManifest>(FIELD_REGISTRY.GET_VERSION(registryVersion), { signal }),
+    get<FieldDefinition[]>(FIELD_REGISTRY.GET_VERSION_FIELDS(registryVersion), { signal }),
+  ]);
+  return { manifest, fields };
+}
+
+/**
+ * Hook for fetching a field registry version; the latest version is loaded
+ * when `registryVersion` is null
+ */
+export function useFieldRegistryVersion(
+  registryVersion: number | null
+): UseFieldRegistryVersionReturn {
+  const [registry, setRegistry] = useState<FieldRegistryManifest | null>(null);
+  const [fields, setFields] = useState<FieldDefinition[] | null>(null);
+  const [latest, setLatest] = useState<FieldRegistryManifest | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    const fetchRegistry = async (): Promise<void> => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const latestManifest = await get<FieldRegistryManifest>(FIELD_REGISTRY.GET, { signal });
+        if (signal.aborted) return;
+        setLatest(latestManifest);
+
+        const version = await fetchRegistryVersion(
+          registryVersion ?? latestManifest.registry_version,
+          signal
+        );
+        if (signal.aborted) return;
+        setRegistry(version.manifest);
+        setFields(version.fields);
+      } catch (err) {
+        if (!signal.aborted && !isAbortError(err)) {
+          setError(err instanceof Error ? err : new Error("Failed to fetch field registry"));
+          setRegistry(null);
+          setFields(null);
+        }
+      } finally {
+        if (!signal.aborted) setIsLoading(false);
+      }
+    };
+
+    void fetchRegistry();
+    return () => controller.abort();
+  }, [registryVersion]);
+
+  return { registry, fields, latest, isLoading, error };
+}
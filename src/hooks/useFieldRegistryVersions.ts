@@ -0,0 +1,60 @@
+/**
+ * useFieldRegistryVersions Hook
+ *
+ * Loads every published field registry manifest, newest first.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { get } from "../api/httpClient";
+import { FIELD_REGISTRY } from "../api/endpoints";
+import { isAbortError } from "../shared/utils/abort";
+import type { KeysetPaginatedResponse } from "../api/types";
+import type { FieldRegistryManifest } from "../types/fieldDefinitions";
+
+interface UseFieldRegistryVersionsReturn {
+  versions: FieldRegistryManifest[];
+  isLoading: boolean;
+  error: Error | null;
+  refetch: () => void;
+}
+
+export function useFieldRegistryVersions(): UseFieldRegistryVersionsReturn {
+  const [versions, setVersions] = useState<FieldRegistryManifest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const [tick, setTick] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    const fetchVersions = async (): Promise<void> => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await get<KeysetPaginatedResponse<FieldRegistryManifest>>(
+          FIELD_REGISTRY.VERSIONS,
+          { signal }
+        );
+        if (!signal.aborted) {
+          setVersions([...response.items].sort((a, b) => b.registry_version - a.registry_version));
+        }
+      } catch (err) {
+        if (!signal.aborted && !isAbortError(err)) {
+          setError(err instanceof Error ? err : new Error("Failed to fetch registry versions"));
+          setVersions([]);
+        }
+      } finally {
+        if (!signal.aborted) setIsLoading(false);
+      }
+    };
+
+    void fetchVersions();
+    return () => controller.abort();
+  }, [tick]);
+
+  const refetch = useCallback(() => setTick((t) => t + 1), []);
+
+  return { versions, isLoading, error, refetch };
+}
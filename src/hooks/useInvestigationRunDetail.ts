@@ -0,0 +1,69 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { get, post } from "../api/httpClient";
+import { OPS_ANALYST } from "../api/endpoints";
+import { isAbortError } from "../shared/utils/abort";
+import type { AcknowledgeRequest, DetailResponse } from "../types/opsAnalyst";
+
+interface UseInvestigationRunDetailResult {
+  run: DetailResponse | null;
+  loading: boolean;
+  error: string | null;
+  reload: () => void;
+  /** Acknowledges or rejects one of the run's recommendations, then reloads the run */
+  acknowledge: (recommendationId: string, req: AcknowledgeRequest) => Promise<void>;
+}
+
+export function useInvestigationRunDetail(
+  runId: string | undefined
+): UseInvestigationRunDetailResult {
+  const [run, setRun] = useState<DetailResponse | null>(null);
+  const [loading, setLoading] = useState(runId != null && runId !== "");
+  const [error, setError] = useState<string | null>(null);
+  const [tick, setTick] = useState(0);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const fetchRun = useCallback(async () => {
+    if (runId == null || runId === "") {
+      return;
+    }
+
+    // A late response for the previous run must not replace this one
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const data = await get<DetailResponse>(OPS_ANALYST.INVESTIGATIONS.GET(runId), { signal });
+      if (!signal.aborted) setRun(data);
+    } catch (err) {
+      if (!signal.aborted && !isAbortError(err)) {
+        setError(err instanceof Error ? err.message : "Failed to load run");
+      }
+    } finally {
+      if (!signal.aborted) setLoading(false);
+    }
+  }, [runId]);
+
+  useEffect(() => {
+    void fetchRun();
+    return () => {
+      abortRef.current?.abort();
+    };
+  }, [fetchRun, tick]);
+
+  const reload = useCallback(() => setTick((t) => t + 1), []);
+
+  const acknowledge = useCallback(
+    async (recommendationId: string, req: AcknowledgeRequest): Promise<void> => {
+      await post(OPS_ANALYST.RECOMMENDATIONS.ACKNOWLEDGE(recommendationId), req);
+      reload();
+    },
+    [reload]
+  );
+
+  return { run, loading, error, reload, acknowledge };
+}
@@ -0,0 +1,67 @@
+/**
+ * useNoteMentions Hook
+ *
+ * Notes in which other analysts have @mentioned the current user, newest
+ * first, optionally re-fetched on an interval.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { get } from "../api/httpClient";
+import { NOTES } from "../api/endpoints";
+import { isAbortError } from "../shared/utils/abort";
+import type { NoteMention, NoteMentionsResponse } from "../types/notes";
+
+interface UseNoteMentionsOptions {
+  enabled?: boolean;
+  /** Re-fetch on this interval; 0 disables polling */
+  refreshIntervalMs?: number;
+}
+
+interface UseNoteMentionsReturn {
+  mentions: NoteMention[];
+  isLoading: boolean;
+  error: Error | null;
+  refetch: () => void;
+}
+
+export function useNoteMentions({
+  enabled = true,
+  refreshIntervalMs = 0,
+}: UseNoteMentionsOptions = {}): UseNoteMentionsReturn {
+  const [mentions, setMentions] = useState<NoteMention[]>([]);
+  const [isLoading, setIsLoading] = useState(enabled);
+  const [error, setError] = useState<Error | null>(null);
+  const [tick, setTick] = useState(0);
+
+  useEffect(() => {
+    if (!enabled) return undefined;
+
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    const fetchMentions = async (): Promise<void> => {
+      try {
+        const data = await get<NoteMentionsResponse>(NOTES.MENTIONS, { signal });
+        setMentions(data.items);
+        setError(null);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        setError(err instanceof Error ? err : new Error("Failed to fetch mentions"));
+      } finally {
+        if (!signal.aborted) setIsLoading(false);
+      }
+    };
+
+    void fetchMentions();
+    const interval =
+      refreshIntervalMs > 0 ? setInterval(() => void fetchMentions(), refreshIntervalMs) : null;
+    return () => {
+      controller.abort();
+      if (interval != null) clearInterval(interval);
+    };
+  }, [enabled, refreshIntervalMs, tick]);
+
+  const refetch = useCallback(() => setTick((t) => t + 1), []);
+
+  return { mentions, isLoading: enabled && isLoading, error, refetch };
+}
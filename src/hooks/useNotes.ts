@@ -8,8 +8,12 @@ import { useState, useEffect, useCallback, useRef } from "react";
 import { get, post, patch, del } from "../api/httpClient";
 import { NOTES } from "../api/endpoints";
 import { isAbortError } from "../shared/utils/abort";
+import { AttachmentUploadError } from "../shared/utils/noteAttachments";
+import { extractMentions } from "../shared/utils/noteContent";
 import type {
   AnalystNote,
+  NoteAttachment,
+  NoteAttachmentChanges,
   NoteCreateRequest,
   NoteUpdateRequest,
   NotesListResponse,
@@ -35,6 +39,84 @@ function makeOptimisticNote(transactionId: string, request: NoteCreateRequest):
   };
 }
 
+function applyOptimisticUpdate(
+  notes: AnalystNote[],
+  noteId: string,
+  request: NoteUpdateRequest
+): AnalystNote[] {
+  const now = new Date().toISOString();
+  return notes.map((note) =>
+    note.id === noteId ? { ...note, ...request, updated_at: now } : note
+  );
+}
+
+/**
+ * Adds the usernames @mentioned in the content so the server can notify them
+ */
+function withMentions<T extends NoteCreateRequest | NoteUpdateRequest>(request: T): T {
+  const mentions = extractMentions(request.note_content ?? "");
+  return mentions.length > 0 ? { ...request, mentions } : request;
+}
+
+const NO_CHANGES: NoteAttachmentChanges = { added: [], removedIds: [] };
+
+/** How often notes are reloaded while an attachment's virus scan is pending */
+const SCAN_POLL_INTERVAL_MS = 3000;
+
+const hasPendingScan = (notes: AnalystNote[]): boolean =>
+  notes.some((note) => (note.attachments ?? []).some((a) => a.scan_status === "PENDING"));
+
+/**
+ * Scan results are only reported on read, so keep reloading until none are pending
+ */
+function useScanPolling(notes: AnalystNote[], reload: (quiet: boolean) => Promise<void>): void {
+  const scanPending = hasPendingScan(notes);
+  useEffect(() => {
+    if (!scanPending) return undefined;
+    const timer = setTimeout(() => {
+      void reload(true);
+    }, SCAN_POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [scanPending, notes, reload]);
+}
+
+/**
+ * Uploads and removes a note's attachments. Each file is attempted even if
+ * another fails; the note itself is already saved by then, so failures are
+ * reported as an AttachmentUploadError rather than rolled back.
+ */
+async function applyAttachmentChanges(
+  transactionId: string,
+  noteId: string,
+  { added, removedIds }: NoteAttachmentChanges,
+  signal: AbortSignal
+): Promise<void> {
+  const results = await Promise.allSettled([
+    ...removedIds.map((attachmentId) =>
+      del(NOTES.ATTACHMENTS.DELETE(transactionId, noteId, attachmentId), { signal })
+    ),
+    ...added.map((file) => {
+      const body = new FormData();
+      body.append("file", file);
+      // The client defaults to JSON, which would serialize the FormData and drop the file
+      return post<NoteAttachment>(NOTES.ATTACHMENTS.UPLOAD(transactionId, noteId), body, {
+        headers: { "Content-Type": "multipart/form-data" },
+        signal,
+      });
+    }),
+  ]);
+  const failed = results.filter((result) => result.status === "rejected").length;
+  if (failed > 0) throw new AttachmentUploadError(failed);
+}
+
+const uploadAttachments = (
+  transactionId: string,
+  noteId: string,
+  files: File[],
+  signal: AbortSignal
+): Promise<void> =>
+  applyAttachmentChanges(transactionId, noteId, { ...NO_CHANGES, added: files }, signal);
+
 interface UseNotesOptions {
   transactionId: string;
   enabled?: boolean;
@@ -49,8 +131,12 @@ interface UseNotesReturn {
   isLoading: boolean;
   error: Error | null;
   refetch: () => void;
-  createNote: (request: NoteCreateRequest) => Promise<void>;
-  updateNote: (noteId: string, request: NoteUpdateRequest) => Promise<void>;
+  createNote: (request: NoteCreateRequest, files?: File[]) => Promise<void>;
+  updateNote: (
+    noteId: string,
+    request: NoteUpdateRequest,
+    attachments?: NoteAttachmentChanges
+  ) => Promise<void>;
   deleteNote: (noteId: string) => Promise<void>;
   isCreating: boolean;
   isUpdating: boolean;
@@ -84,43 +170,47 @@ export function useNotes({
     return controller.signal;
   }, []);
 
-  const fetchNotes = useCallback(async () => {
-    if (enabled === false || transactionId === undefined || transactionId === "") {
-      setIsLoading(false);
-      return;
-    }
-    if (skipInitialFetch && !hasSkippedInitialFetch) {
-      setHasSkippedInitialFetch(true);
-      setIsLoading(false);
-      return;
-    }
-
-    setIsLoading(true);
-    setError(null);
-
-    const signal = getAbortSignal();
-
-    let aborted = false;
-
-    try {
-      const data = await get<NotesListResponse>(NOTES.LIST(transactionId), { signal });
-      aborted = signal.aborted;
-      if (!aborted) {
-        setNotes(data.items ?? []);
-        setTotal(data.total ?? 0);
-      }
-    } catch (err) {
-      aborted = signal.aborted || isAbortError(err);
-      if (!aborted) {
-        setError(err instanceof Error ? err : new Error("Failed to fetch notes"));
-        setNotes([]);
+  // A quiet fetch refreshes the list without showing the loading state
+  const fetchNotes = useCallback(
+    async (quiet?: boolean) => {
+      if (enabled === false || transactionId === undefined || transactionId === "") {
+        setIsLoading(false);
+        return;
       }
-    } finally {
-      if (!aborted && !signal.aborted) {
+      if (skipInitialFetch && !hasSkippedInitialFetch) {
+        setHasSkippedInitialFetch(true);
         setIsLoading(false);
+        return;
       }
-    }
-  }, [transactionId, enabled, skipInitialFetch, hasSkippedInitialFetch, getAbortSignal]);
+
+      setIsLoading(quiet !== true);
+      setError(null);
+
+      const signal = getAbortSignal();
+
+      let aborted = false;
+
+      try {
+        const data = await get<NotesListResponse>(NOTES.LIST(transactionId), { signal });
+        aborted = signal.aborted;
+        if (!aborted) {
+          setNotes(data.items ?? []);
+          setTotal(data.total ?? 0);
+        }
+      } catch (err) {
+        aborted = signal.aborted || isAbortError(err);
+        if (!aborted) {
+          setError(err instanceof Error ? err : new Error("Failed to fetch notes"));
+          setNotes([]);
+        }
+      } finally {
+        if (!aborted && !signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    },
+    [transactionId, enabled, skipInitialFetch, hasSkippedInitialFetch, getAbortSignal]
+  );
 
   useEffect(() => {
     void fetchNotes();
@@ -129,22 +219,30 @@ export function useNotes({
     };
   }, [fetchNotes]);
 
+  useScanPolling(notes, fetchNotes);
+
+  // Attachment changes are applied once the note is saved. If only they fail,
+  // the note stays saved and the AttachmentUploadError reaches the caller.
   const createNote = useCallback(
-    async (request: NoteCreateRequest): Promise<void> => {
+    async (request: NoteCreateRequest, files: File[] = []): Promise<void> => {
       const previousNotes = notes;
       const previousTotal = total;
-      const optimisticNote = makeOptimisticNote(transactionId, request);
       const signal = getAbortSignal();
       setIsCreating(true);
+      let saved = false;
       try {
-        setNotes((prev) => [optimisticNote, ...prev]);
+        setNotes((prev) => [makeOptimisticNote(transactionId, request), ...prev]);
         setTotal((prev) => prev + 1);
-        await post<AnalystNote>(NOTES.CREATE(transactionId), request, { signal });
-        await fetchNotes();
-      } catch {
+        const body = withMentions(request);
+        const created = await post<AnalystNote>(NOTES.CREATE(transactionId), body, { signal });
+        saved = true;
+        if (files.length > 0) await uploadAttachments(transactionId, created.id, files, signal);
+      } catch (err) {
+        if (saved) throw err;
         setNotes(previousNotes);
         setTotal(previousTotal);
       } finally {
+        if (saved) await fetchNotes();
         setIsCreating(false);
       }
     },
@@ -152,20 +250,25 @@ export function useNotes({
   );
 
   const updateNote = useCallback(
-    async (noteId: string, request: NoteUpdateRequest): Promise<void> => {
+    async (
+      noteId: string,
+      request: NoteUpdateRequest,
+      attachments: NoteAttachmentChanges = NO_CHANGES
+    ): Promise<void> => {
       const previousNotes = notes;
-      const now = new Date().toISOString();
       const signal = getAbortSignal();
       setIsUpdating(true);
+      let saved = false;
       try {
-        setNotes((prev) =>
-          prev.map((note) => (note.id === noteId ? { ...note, ...request, updated_at: now } : note))
-        );
-        await patch<AnalystNote>(NOTES.UPDATE(transactionId, noteId), request, { signal });
-        await fetchNotes();
-      } catch {
+        setNotes((prev) => applyOptimisticUpdate(prev, noteId, request));
+        await patch(NOTES.UPDATE(transactionId, noteId), withMentions(request), { signal });
+        saved = true;
+        await applyAttachmentChanges(transactionId, noteId, attachments, signal);
+      } catch (err) {
+        if (saved) throw err;
         setNotes(previousNotes);
       } finally {
+        if (saved) await fetchNotes();
         setIsUpdating(false);
       }
     },
@@ -198,9 +301,7 @@ export function useNotes({
     total,
     isLoading,
     error,
-    refetch: () => {
-      void fetchNotes();
-    },
+    refetch: () => void fetchNotes(),
     createNote,
     updateNote,
     deleteNote,
@@ -0,0 +1,218 @@
+/**
+ * useNotifications Hook
+ *
+ * The current user's in-app notifications and notification preferences. New
+ * notifications are pushed over server-sent events; while the stream is down
+ * the list is polled instead and the stream is retried after a delay.
+ */
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { get, post, put, openEventStream } from "../api/httpClient";
+import { NOTIFICATIONS } from "../api/endpoints";
+import { isAbortError } from "../shared/utils/abort";
+import { connectEventStream } from "../shared/utils/serverSentEvents";
+import {
+  EMPTY_NOTIFICATION_LIST,
+  addNotification,
+  markNotificationsRead,
+} from "../shared/utils/notifications";
+import type {
+  AppNotification,
+  NotificationListResponse,
+  NotificationPreferences,
+  NotificationType,
+} from "../types/notification";
+import type { WorklistConnectionMode } from "../types/worklist";
+
+interface UseNotificationsOptions {
+  enabled?: boolean;
+  /** Polling interval while the event stream is down; 0 disables polling */
+  refreshIntervalMs?: number;
+  /** Number of most recent notifications to keep */
+  limit?: number;
+}
+
+interface UseNotificationsReturn {
+  /** Newest first */
+  notifications: AppNotification[];
+  unreadCount: number;
+  isLoading: boolean;
+  error: Error | null;
+  /** "polling" while disabled or while the event stream is down */
+  connection: WorklistConnectionMode;
+  refetch: () => void;
+  markRead: (notificationId: string) => Promise<void>;
+  markAllRead: () => Promise<void>;
+}
+
+function parseNotification(data: string): AppNotification | null {
+  try {
+    return JSON.parse(data) as AppNotification;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Hook for the notification bell
+ */
+export function useNotifications({
+  enabled = true,
+  refreshIntervalMs = 60000,
+  limit = 20,
+}: UseNotificationsOptions = {}): UseNotificationsReturn {
+  const [list, setList] = useState<NotificationListResponse>(EMPTY_NOTIFICATION_LIST);
+  const [isLoading, setIsLoading] = useState(enabled);
+  const [error, setError] = useState<Error | null>(null);
+  const [connection, setConnection] = useState<WorklistConnectionMode>("connecting");
+  const abortRef = useRef<AbortController | null>(null);
+
+  const fetchNotifications = useCallback(async (): Promise<void> => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      const data = await get<NotificationListResponse>(NOTIFICATIONS.LIST, {
+        params: { limit },
+        signal: controller.signal,
+      });
+      setList(data);
+      setError(null);
+    } catch (err) {
+      if (controller.signal.aborted || isAbortError(err)) return;
+      setError(err instanceof Error ? err : new Error("Failed to fetch notifications"));
+    } finally {
+      if (!controller.signal.aborted) setIsLoading(false);
+    }
+  }, [limit]);
+
+  useEffect(() => {
+    if (!enabled) return undefined;
+    void fetchNotifications();
+    return () => {
+      abortRef.current?.abort();
+    };
+  }, [enabled, fetchNotifications]);
+
+  // Push: prepend streamed notifications, and resync once the stream returns after an outage
+  useEffect(() => {
+    if (!enabled) return undefined;
+    let wasDown = false;
+
+    return connectEventStream((signal) => openEventStream(NOTIFICATIONS.EVENTS, signal), {
+      onOpen: () => {
+        setConnection("live");
+        if (wasDown) void fetchNotifications();
+      },
+      onMessage: (message) => {
+        const notification = parseNotification(message.data);
+        if (notification != null) setList((prev) => addNotification(prev, notification, limit));
+      },
+      onDown: () => {
+        wasDown = true;
+        setConnection("polling");
+      },
+    });
+  }, [enabled, limit, fetchNotifications]);
+
+  // Poll: only while pushed notifications are not keeping the list current
+  useEffect(() => {
+    if (!enabled || refreshIntervalMs <= 0 || connection === "live") return undefined;
+    const intervalId = setInterval(() => {
+      void fetchNotifications();
+    }, refreshIntervalMs);
+    return () => clearInterval(intervalId);
+  }, [enabled, refreshIntervalMs, connection, fetchNotifications]);
+
+  // Read receipts are applied optimistically; a failed one is undone by re-fetching
+  const markRead = useCallback(
+    async (notificationId: string): Promise<void> => {
+      setList((prev) => markNotificationsRead(prev, new Date().toISOString(), [notificationId]));
+      try {
+        await post(NOTIFICATIONS.MARK_READ(notificationId));
+      } catch {
+        await fetchNotifications();
+      }
+    },
+    [fetchNotifications]
+  );
+
+  const markAllRead = useCallback(async (): Promise<void> => {
+    setList((prev) => markNotificationsRead(prev, new Date().toISOString()));
+    try {
+      await post(NOTIFICATIONS.MARK_ALL_READ);
+    } catch {
+      await fetchNotifications();
+    }
+  }, [fetchNotifications]);
+
+  return {
+    notifications: list.items,
+    unreadCount: list.unread_count,
+    isLoading: enabled && isLoading,
+    error,
+    connection: enabled ? connection : "polling",
+    refetch: () => {
+      void fetchNotifications();
+    },
+    markRead,
+    markAllRead,
+  };
+}
+
+interface UseNotificationPreferencesReturn {
+  preferences: NotificationPreferences | null;
+  isLoading: boolean;
+  isSaving: boolean;
+  error: Error | null;
+  updatePreferences: (changes: Partial<Record<NotificationType, boolean>>) => Promise<void>;
+}
+
+/**
+ * Hook for the notification types the current user receives
+ */
+export function useNotificationPreferences(enabled = true): UseNotificationPreferencesReturn {
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [isLoading, setIsLoading] = useState(enabled);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return undefined;
+    const controller = new AbortController();
+
+    const fetchPreferences = async (): Promise<void> => {
+      try {
+        const data = await get<NotificationPreferences>(NOTIFICATIONS.PREFERENCES, {
+          signal: controller.signal,
+        });
+        setPreferences(data);
+        setError(null);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        setError(
+          err instanceof Error ? err : new Error("Failed to fetch notification preferences")
+        );
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    };
+
+    void fetchPreferences();
+    return () => controller.abort();
+  }, [enabled]);
+
+  const updatePreferences = useCallback(
+    async (changes: Partial<Record<NotificationType, boolean>>): Promise<void> => {
+      setIsSaving(true);
+      try {
+        setPreferences(await put<NotificationPreferences>(NOTIFICATIONS.PREFERENCES, changes));
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    []
+  );
+
+  return { preferences, isLoading: enabled && isLoading, isSaving, error, updatePreferences };
+}
@@ -0,0 +1,65 @@
+import { useState, useCallback } from "react";
+import { post } from "../api/httpClient";
+import { OPS_ANALYST } from "../api/endpoints";
+import type {
+  RuleDraftCreateRequest,
+  RuleDraftExportRequest,
+  RuleDraftExportResponse,
+  RuleDraftResponse,
+} from "../types/opsAnalyst";
+
+interface UseOpsAnalystRuleDraftsResult {
+  /** Creates a rule draft from a rule_candidate recommendation */
+  createDraft: (recommendationId: string) => Promise<RuleDraftResponse>;
+  /** Records the rule created from the draft and marks the recommendation EXPORTED */
+  exportDraft: (draftId: string, ruleId: string) => Promise<RuleDraftExportResponse>;
+  loading: boolean;
+  error: string | null;
+}
+
+export function useOpsAnalystRuleDrafts(): UseOpsAnalystRuleDraftsResult {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = useCallback(
+    async <T>(url: string, body: unknown, fallback: string): Promise<T> => {
+      setLoading(true);
+      setError(null);
+      try {
+        return await post<T>(url, body);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : fallback);
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    []
+  );
+
+  const createDraft = useCallback(
+    (recommendationId: string): Promise<RuleDraftResponse> => {
+      const body: RuleDraftCreateRequest = { recommendation_id: recommendationId };
+      return request<RuleDraftResponse>(
+        OPS_ANALYST.RULE_DRAFTS.CREATE,
+        body,
+        "Failed to create rule draft"
+      );
+    },
+    [request]
+  );
+
+  const exportDraft = useCallback(
+    (draftId: string, ruleId: string): Promise<RuleDraftExportResponse> => {
+      const body: RuleDraftExportRequest = { rule_id: ruleId };
+      return request<RuleDraftExportResponse>(
+        OPS_ANALYST.RULE_DRAFTS.EXPORT(draftId),
+        body,
+        "Failed to export rule draft"
+      );
+    },
+    [request]
+  );
+
+  return { createDraft, exportDraft, loading, error };
+}
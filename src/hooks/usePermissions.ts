@@ -13,6 +13,8 @@
  * - canReviewTransactions
  * - canCreateCases
  * - canResolveCases
+ * - canRevealSensitiveData
+ * - canSuperviseReviews
  *
  * @example
  * ```tsx
@@ -40,6 +42,8 @@ export type PermissionScope =
   | "review:transactions"
   | "create:cases"
   | "resolve:cases"
+  | "reveal:sensitive-data"
+  | "supervise:reviews"
   | "admin:all";
 
 /**
@@ -64,6 +68,10 @@ export interface Capabilities {
   canCreateCases: boolean;
   /** Can resolve cases */
   canResolveCases: boolean;
+  /** Can reveal masked sensitive field values, with a justification */
+  canRevealSensitiveData: boolean;
+  /** Can configure review SLA targets and rebalance analysts' reviews */
+  canSuperviseReviews: boolean;
   /** Has full admin access */
   isAdmin: boolean;
 }
@@ -95,6 +103,8 @@ const DEFAULT_CAPABILITIES: Capabilities = {
   canReviewTransactions: false,
   canCreateCases: false,
   canResolveCases: false,
+  canRevealSensitiveData: false,
+  canSuperviseReviews: false,
   isAdmin: false,
 };
 
@@ -112,6 +122,8 @@ const ROLE_CAPABILITIES: Record<SystemRole, Partial<Capabilities>> = {
     canReviewTransactions: true,
     canCreateCases: true,
     canResolveCases: true,
+    canRevealSensitiveData: true,
+    canSuperviseReviews: true,
     isAdmin: true,
   },
   RULE_MAKER: {
@@ -127,6 +139,7 @@ const ROLE_CAPABILITIES: Record<SystemRole, Partial<Capabilities>> = {
     canDeleteRules: false,
     canApproveRules: true,
     canReadRules: true,
+    canRevealSensitiveData: true,
   },
   RULE_VIEWER: {
     canReadRules: true,
@@ -142,6 +155,8 @@ const ROLE_CAPABILITIES: Record<SystemRole, Partial<Capabilities>> = {
     canReviewTransactions: true,
     canCreateCases: true,
     canResolveCases: true,
+    canRevealSensitiveData: true,
+    canSuperviseReviews: true,
   },
 };
 
@@ -158,6 +173,8 @@ const SCOPE_CAPABILITIES: Record<PermissionScope, Partial<Capabilities>> = {
   "review:transactions": { canReviewTransactions: true },
   "create:cases": { canCreateCases: true },
   "resolve:cases": { canResolveCases: true },
+  "reveal:sensitive-data": { canRevealSensitiveData: true },
+  "supervise:reviews": { canSuperviseReviews: true },
   "admin:all": {
     canCreateRules: true,
     canEditRules: true,
@@ -168,6 +185,8 @@ const SCOPE_CAPABILITIES: Record<PermissionScope, Partial<Capabilities>> = {
     canReviewTransactions: true,
     canCreateCases: true,
     canResolveCases: true,
+    canRevealSensitiveData: true,
+    canSuperviseReviews: true,
     isAdmin: true,
   },
 };
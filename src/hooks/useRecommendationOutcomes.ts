@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { get } from "../api/httpClient";
+import { OPS_ANALYST } from "../api/endpoints";
+import { isAbortError } from "../shared/utils/abort";
+import type { RecommendationOutcome, RecommendationOutcomeListResponse } from "../types/opsAnalyst";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface UseRecommendationOutcomesResult {
+  outcomes: RecommendationOutcome[];
+  loading: boolean;
+  error: string | null;
+  reload: () => void;
+}
+
+/**
+ * Recommendation outcomes created within the last `days` days
+ */
+export function useRecommendationOutcomes(days: number): UseRecommendationOutcomesResult {
+  const [outcomes, setOutcomes] = useState<RecommendationOutcome[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const load = useCallback(async (): Promise<void> => {
+    // An older range's response must not overwrite the one just requested
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+
+    setLoading(true);
+    setError(null);
+    const to = new Date();
+    const params = new URLSearchParams({
+      from: new Date(to.getTime() - days * DAY_MS).toISOString(),
+      to: to.toISOString(),
+    });
+
+    try {
+      const res = await get<RecommendationOutcomeListResponse>(
+        `${OPS_ANALYST.ANALYTICS.RECOMMENDATION_OUTCOMES}?${params}`,
+        { signal }
+      );
+      if (!signal.aborted) setOutcomes(res.outcomes);
+    } catch (err) {
+      if (!signal.aborted && !isAbortError(err)) {
+        setError(err instanceof Error ? err.message : "Failed to load");
+      }
+    } finally {
+      if (!signal.aborted) setLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    void load();
+    return () => {
+      abortRef.current?.abort();
+    };
+  }, [load]);
+
+  const reload = useCallback(() => {
+    void load();
+  }, [load]);
+
+  return { outcomes, loading, error, reload };
+}
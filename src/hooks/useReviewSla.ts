@@ -0,0 +1,140 @@
+/**
+ * useReviewSla Hooks
+ *
+ * The review SLA policy, the workflow metrics that report compliance with it,
+ * and a clock that keeps SLA countdowns current.
+ */
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { get, put } from "../api/httpClient";
+import { WORKFLOW_METRICS, WORKLIST } from "../api/endpoints";
+import { isAbortError } from "../shared/utils/abort";
+import { DEFAULT_SLA_POLICY } from "../shared/utils/sla";
+import type { SlaPolicy, SlaPolicyUpdate, WorkflowMetrics } from "../types/sla";
+
+interface UseSlaPolicyReturn {
+  /** The default policy until the configured one has loaded */
+  policy: SlaPolicy;
+  isLoading: boolean;
+  isSaving: boolean;
+  error: Error | null;
+  updatePolicy: (update: SlaPolicyUpdate) => Promise<SlaPolicy>;
+}
+
+/**
+ * Hook for the SLA targets reviews are measured against
+ */
+export function useSlaPolicy(enabled = true): UseSlaPolicyReturn {
+  const [policy, setPolicy] = useState<SlaPolicy>(DEFAULT_SLA_POLICY);
+  const [isLoading, setIsLoading] = useState(enabled);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return undefined;
+    const controller = new AbortController();
+
+    const fetchPolicy = async (): Promise<void> => {
+      try {
+        setPolicy(await get<SlaPolicy>(WORKLIST.SLA_POLICY, { signal: controller.signal }));
+        setError(null);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        setError(err instanceof Error ? err : new Error("Failed to fetch SLA policy"));
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    };
+
+    void fetchPolicy();
+    return () => controller.abort();
+  }, [enabled]);
+
+  const updatePolicy = useCallback(async (update: SlaPolicyUpdate): Promise<SlaPolicy> => {
+    setIsSaving(true);
+    try {
+      const updated = await put<SlaPolicy>(WORKLIST.SLA_POLICY, update);
+      setPolicy(updated);
+      return updated;
+    } finally {
+      setIsSaving(false);
+    }
+  }, []);
+
+  return { policy, isLoading: enabled && isLoading, isSaving, error, updatePolicy };
+}
+
+interface UseWorkflowMetricsReturn {
+  metrics: WorkflowMetrics | null;
+  isLoading: boolean;
+  error: Error | null;
+  refetch: () => void;
+}
+
+/**
+ * Hook for review workflow metrics, including SLA compliance
+ */
+export function useWorkflowMetrics(
+  enabled = true,
+  refreshIntervalMs = 0
+): UseWorkflowMetricsReturn {
+  const [metrics, setMetrics] = useState<WorkflowMetrics | null>(null);
+  const [isLoading, setIsLoading] = useState(enabled);
+  const [error, setError] = useState<Error | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const fetchMetrics = useCallback(async (): Promise<void> => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      setMetrics(
+        await get<WorkflowMetrics>(WORKFLOW_METRICS.WORKFLOW, { signal: controller.signal })
+      );
+      setError(null);
+    } catch (err) {
+      if (controller.signal.aborted || isAbortError(err)) return;
+      setError(err instanceof Error ? err : new Error("Failed to fetch workflow metrics"));
+    } finally {
+      if (!controller.signal.aborted) setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return undefined;
+    void fetchMetrics();
+    const intervalId =
+      refreshIntervalMs > 0
+        ? setInterval(() => {
+            void fetchMetrics();
+          }, refreshIntervalMs)
+        : null;
+    return () => {
+      abortRef.current?.abort();
+      if (intervalId != null) clearInterval(intervalId);
+    };
+  }, [enabled, refreshIntervalMs, fetchMetrics]);
+
+  return {
+    metrics,
+    isLoading: enabled && isLoading,
+    error,
+    refetch: () => {
+      void fetchMetrics();
+    },
+  };
+}
+
+/**
+ * Current time in epoch ms, updated every `intervalMs` so SLA countdowns tick
+ */
+export function useSlaClock(intervalMs = 30000): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(intervalId);
+  }, [intervalMs]);
+
+  return now;
+}
@@ -0,0 +1,35 @@
+import { useState, useCallback } from "react";
+import { post } from "../api/httpClient";
+import { RULES } from "../api/endpoints";
+import type { RuleBacktestRequest, RuleBacktestResponse } from "../api/types";
+
+interface UseRuleBacktestResult {
+  run: (req: RuleBacktestRequest) => Promise<RuleBacktestResponse>;
+  loading: boolean;
+  error: string | null;
+  lastResult: RuleBacktestResponse | null;
+}
+
+export function useRuleBacktest(): UseRuleBacktestResult {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastResult, setLastResult] = useState<RuleBacktestResponse | null>(null);
+
+  const run = useCallback(async (req: RuleBacktestRequest): Promise<RuleBacktestResponse> => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await post<RuleBacktestResponse>(RULES.BACKTEST, req);
+      setLastResult(result);
+      return result;
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Backtest failed";
+      setError(msg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { run, loading, error, lastResult };
+}
@@ -0,0 +1,133 @@
+/**
+ * useRuleSetActivation Hooks
+ *
+ * Custom hooks for scheduling rule set version activations and rolling back
+ * to the previously ACTIVE version.
+ */
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { get, post, del } from "../api/httpClient";
+import { RULESET_VERSIONS } from "../api/endpoints";
+import { isAbortError } from "../shared/utils/abort";
+import type {
+  RollbackRuleSetVersionResponse,
+  RuleSetVersionResponse,
+  ScheduledRuleSetActivation,
+} from "../api/types";
+
+interface UseScheduledActivationsReturn {
+  activations: ScheduledRuleSetActivation[];
+  isLoading: boolean;
+  error: Error | null;
+  refetch: () => void;
+}
+
+/**
+ * Hook for fetching upcoming scheduled activations across all rule sets
+ */
+export function useScheduledActivations(enabled = true): UseScheduledActivationsReturn {
+  const [activations, setActivations] = useState<ScheduledRuleSetActivation[]>([]);
+  const [isLoading, setIsLoading] = useState(enabled);
+  const [error, setError] = useState<Error | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const fetchActivations = useCallback(async () => {
+    if (!enabled) {
+      setIsLoading(false);
+      return;
+    }
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const data = await get<ScheduledRuleSetActivation[]>(RULESET_VERSIONS.SCHEDULED, { signal });
+      if (!signal.aborted) setActivations(Array.isArray(data) ? data : []);
+    } catch (err) {
+      if (!signal.aborted && !isAbortError(err)) {
+        setError(err instanceof Error ? err : new Error("Failed to fetch scheduled activations"));
+        setActivations([]);
+      }
+    } finally {
+      if (!signal.aborted) setIsLoading(false);
+    }
+  }, [enabled]);
+
+  useEffect(() => {
+    void fetchActivations();
+    return () => {
+      abortRef.current?.abort();
+    };
+  }, [fetchActivations]);
+
+  return {
+    activations,
+    isLoading,
+    error,
+    refetch: () => {
+      void fetchActivations();
+    },
+  };
+}
+
+interface UseRuleSetActivationActionsReturn {
+  /** Rejects when the backend refuses the schedule so callers can keep their form open */
+  scheduleActivation: (
+    rulesetVersionId: string,
+    activateAt: string
+  ) => Promise<RuleSetVersionResponse>;
+  cancelScheduledActivation: (rulesetVersionId: string) => Promise<RuleSetVersionResponse>;
+  /** Re-activates the version that was ACTIVE before `rulesetVersionId` */
+  rollback: (rulesetVersionId: string) => Promise<RollbackRuleSetVersionResponse>;
+  isSubmitting: boolean;
+}
+
+/**
+ * Hook for rule set version activation actions
+ */
+export function useRuleSetActivationActions(): UseRuleSetActivationActionsReturn {
+  const [pending, setPending] = useState(0);
+
+  const track = useCallback(async <T>(request: Promise<T>): Promise<T> => {
+    setPending((count) => count + 1);
+    try {
+      return await request;
+    } finally {
+      setPending((count) => count - 1);
+    }
+  }, []);
+
+  const scheduleActivation = useCallback(
+    (rulesetVersionId: string, activateAt: string) =>
+      track(
+        post<RuleSetVersionResponse>(RULESET_VERSIONS.SCHEDULE(rulesetVersionId), {
+          activate_at: activateAt,
+        })
+      ),
+    [track]
+  );
+
+  const cancelScheduledActivation = useCallback(
+    (rulesetVersionId: string) =>
+      track(del<RuleSetVersionResponse>(RULESET_VERSIONS.SCHEDULE(rulesetVersionId))),
+    [track]
+  );
+
+  const rollback = useCallback(
+    (rulesetVersionId: string) =>
+      track(post<RollbackRuleSetVersionResponse>(RULESET_VERSIONS.ROLLBACK(rulesetVersionId))),
+    [track]
+  );
+
+  return {
+    scheduleActivation,
+    cancelScheduledActivation,
+    rollback,
+    isSubmitting: pending > 0,
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * useRuleTestCases Hook
+ *
+ * Custom hook for managing the saved test cases of a rule version.
+ */
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { get, post, del } from "../api/httpClient";
+import { RULE_VERSIONS } from "../api/endpoints";
+import { isAbortError } from "../shared/utils/abort";
+import type { RuleTestCase } from "../types/domain";
+import type { CreateRuleTestCaseRequest } from "../api/types";
+
+interface UseRuleTestCasesOptions {
+  ruleVersionId: string | null | undefined;
+  enabled?: boolean;
+}
+
+interface UseRuleTestCasesReturn {
+  testCases: RuleTestCase[];
+  isLoading: boolean;
+  error: Error | null;
+  refetch: () => void;
+  /** Rejects when the backend refuses the case so callers can keep their form open */
+  createTestCase: (request: CreateRuleTestCaseRequest) => Promise<void>;
+  /** Rejects when the delete fails, after putting the test case back */
+  deleteTestCase: (testCaseId: string) => Promise<void>;
+  isCreating: boolean;
+  isDeleting: boolean;
+}
+
+/**
+ * Hook for managing rule version test cases
+ */
+export function useRuleTestCases({
+  ruleVersionId,
+  enabled = true,
+}: UseRuleTestCasesOptions): UseRuleTestCasesReturn {
+  const [testCases, setTestCases] = useState<RuleTestCase[]>([]);
+  const [isLoading, setIsLoading] = useState(enabled && ruleVersionId != null);
+  const [error, setError] = useState<Error | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const fetchTestCases = useCallback(async () => {
+    if (!enabled || ruleVersionId == null || ruleVersionId === "") {
+      setIsLoading(false);
+      return;
+    }
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const data = await get<RuleTestCase[]>(RULE_VERSIONS.TEST_CASES.LIST(ruleVersionId), {
+        signal,
+      });
+      if (!signal.aborted) setTestCases(Array.isArray(data) ? data : []);
+    } catch (err) {
+      if (!signal.aborted && !isAbortError(err)) {
+        setError(err instanceof Error ? err : new Error("Failed to fetch test cases"));
+        setTestCases([]);
+      }
+    } finally {
+      if (!signal.aborted) setIsLoading(false);
+    }
+  }, [ruleVersionId, enabled]);
+
+  useEffect(() => {
+    void fetchTestCases();
+    return () => {
+      abortRef.current?.abort();
+    };
+  }, [fetchTestCases]);
+
+  const createTestCase = useCallback(
+    async (request: CreateRuleTestCaseRequest): Promise<void> => {
+      if (ruleVersionId == null || ruleVersionId === "") return;
+      setIsCreating(true);
+      try {
+        const created = await post<RuleTestCase>(
+          RULE_VERSIONS.TEST_CASES.CREATE(ruleVersionId),
+          request
+        );
+        setTestCases((prev) => [...prev, created]);
+      } finally {
+        setIsCreating(false);
+      }
+    },
+    [ruleVersionId]
+  );
+
+  const deleteTestCase = useCallback(
+    async (testCaseId: string): Promise<void> => {
+      if (ruleVersionId == null || ruleVersionId === "") return;
+      const previous = testCases;
+      setIsDeleting(true);
+      try {
+        setTestCases((prev) => prev.filter((testCase) => testCase.test_case_id !== testCaseId));
+        await del(RULE_VERSIONS.TEST_CASES.DELETE(ruleVersionId, testCaseId));
+      } catch (err) {
+        // The list is still loaded; the caller reports the failed delete
+        setTestCases(previous);
+        throw err;
+      } finally {
+        setIsDeleting(false);
+      }
+    },
+    [ruleVersionId, testCases]
+  );
+
+  return {
+    testCases,
+    isLoading,
+    error,
+    refetch: () => {
+      void fetchTestCases();
+    },
+    createTestCase,
+    deleteTestCase,
+    isCreating,
+    isDeleting,
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * useSavedViews Hook
+ *
+ * Saved worklist and transaction views visible to the current analyst, with
+ * optional live match counts.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { get, post, patch, put, del } from "../api/httpClient";
+import { SAVED_VIEWS } from "../api/endpoints";
+import { sortSavedViews } from "../shared/utils/savedViews";
+import type {
+  SavedView,
+  SavedViewCountsResponse,
+  SavedViewCreateRequest,
+  SavedViewListResponse,
+  SavedViewUpdateRequest,
+} from "../types/savedView";
+
+interface UseSavedViewsOptions {
+  enabled?: boolean;
+  /** Also fetch the number of records each view currently matches */
+  withCounts?: boolean;
+  /** Re-fetch counts on this interval; 0 disables polling */
+  countsRefreshIntervalMs?: number;
+}
+
+interface UseSavedViewsReturn {
+  /** Pinned first, then by name */
+  views: SavedView[];
+  counts: Record<string, number>;
+  isLoading: boolean;
+  error: Error | null;
+  refetch: () => void;
+  createView: (request: SavedViewCreateRequest) => Promise<SavedView>;
+  updateView: (viewId: string, request: SavedViewUpdateRequest) => Promise<SavedView>;
+  deleteView: (viewId: string) => Promise<void>;
+  setPinned: (viewId: string, pinned: boolean) => Promise<void>;
+}
+
+export function useSavedViews({
+  enabled = true,
+  withCounts = false,
+  countsRefreshIntervalMs = 0,
+}: UseSavedViewsOptions = {}): UseSavedViewsReturn {
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [isLoading, setIsLoading] = useState(enabled);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchCounts = useCallback(async (): Promise<void> => {
+    try {
+      const data = await get<SavedViewCountsResponse>(SAVED_VIEWS.COUNTS);
+      setCounts(data.counts);
+    } catch {
+      // Counts are decorative; keep the last known values
+    }
+  }, []);
+
+  const fetchViews = useCallback(async (): Promise<void> => {
+    if (!enabled) {
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await get<SavedViewListResponse>(SAVED_VIEWS.LIST);
+      setViews(data.items);
+      if (withCounts) await fetchCounts();
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error("Failed to fetch saved views"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [enabled, withCounts, fetchCounts]);
+
+  useEffect(() => {
+    void fetchViews();
+  }, [fetchViews]);
+
+  useEffect(() => {
+    if (!enabled || !withCounts || countsRefreshIntervalMs <= 0) return undefined;
+    const intervalId = setInterval(() => {
+      void fetchCounts();
+    }, countsRefreshIntervalMs);
+
+    return () => {
+      clearInterval(intervalId);
+    };
+  }, [enabled, withCounts, countsRefreshIntervalMs, fetchCounts]);
+
+  const createView = useCallback(
+    async (request: SavedViewCreateRequest): Promise<SavedView> => {
+      const view = await post<SavedView>(SAVED_VIEWS.CREATE, request);
+      await fetchViews();
+      return view;
+    },
+    [fetchViews]
+  );
+
+  const updateView = useCallback(
+    async (viewId: string, request: SavedViewUpdateRequest): Promise<SavedView> => {
+      const view = await patch<SavedView>(SAVED_VIEWS.UPDATE(viewId), request);
+      await fetchViews();
+      return view;
+    },
+    [fetchViews]
+  );
+
+  const deleteView = useCallback(
+    async (viewId: string): Promise<void> => {
+      await del(SAVED_VIEWS.DELETE(viewId));
+      await fetchViews();
+    },
+    [fetchViews]
+  );
+
+  const setPinned = useCallback(async (viewId: string, pinned: boolean): Promise<void> => {
+    const view = await (pinned
+      ? put<SavedView>(SAVED_VIEWS.PIN(viewId))
+      : del<SavedView>(SAVED_VIEWS.PIN(viewId)));
+    setViews((prev) => prev.map((v) => (v.id === viewId ? view : v)));
+  }, []);
+
+  const sortedViews = useMemo(() => sortSavedViews(views), [views]);
+  const refetch = useCallback(() => {
+    void fetchViews();
+  }, [fetchViews]);
+
+  return {
+    views: sortedViews,
+    counts,
+    isLoading,
+    error,
+    refetch,
+    createView,
+    updateView,
+    deleteView,
+    setPinned,
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * useSensitiveData Hook
+ *
+ * Loads which rule fields are flagged `is_sensitive` and tracks whether the
+ * current user has revealed their values for one entity. Revealing needs the
+ * canRevealSensitiveData capability and a reason, and is written to the audit
+ * log before anything is unmasked. Until the sensitive fields are known, and
+ * if they cannot be loaded, every value is masked.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { get, post } from "../api/httpClient";
+import { AUDIT_LOGS, RULE_FIELDS } from "../api/endpoints";
+import { isAbortError } from "../shared/utils/abort";
+import { MASK_ALL_KEYS, toSensitiveKeySet } from "../shared/utils/sensitiveData";
+import { usePermissions } from "./usePermissions";
+import type { KeysetPaginatedResponse, RevealSensitiveDataRequest } from "../api/types";
+import type { AuditLog, RuleField } from "../types/domain";
+import type { EntityType } from "../types/enums";
+
+/** Upper bound on rule fields fetched to find the sensitive ones */
+const RULE_FIELDS_LIMIT = 1000;
+
+const NO_KEYS: ReadonlySet<string> = new Set();
+
+interface SensitiveDataTarget {
+  entityType: EntityType | undefined;
+  entityId: string | undefined;
+}
+
+export interface UseSensitiveDataReturn {
+  /** Sensitive field keys to mask right now; MASK_ALL_KEYS until known, empty once revealed */
+  keysToMask: ReadonlySet<string>;
+  isRevealed: boolean;
+  canReveal: boolean;
+  isLoading: boolean;
+  error: Error | null;
+  /**
+   * Records the reveal in the audit log, then unmasks; rejects without auditing
+   * when `canReveal` is false, and if the audit write fails
+   */
+  reveal: (fieldKeys: string[], reason: string) => Promise<AuditLog>;
+}
+
+export function useSensitiveData({
+  entityType,
+  entityId,
+}: SensitiveDataTarget): UseSensitiveDataReturn {
+  const { capabilities } = usePermissions();
+  const [sensitiveKeys, setSensitiveKeys] = useState<ReadonlySet<string>>(MASK_ALL_KEYS);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const [revealedFor, setRevealedFor] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    const fetchSensitiveFields = async (): Promise<void> => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await get<KeysetPaginatedResponse<RuleField>>(RULE_FIELDS.LIST, {
+          params: { limit: RULE_FIELDS_LIMIT },
+          signal,
+        });
+        if (!signal.aborted) {
+          setSensitiveKeys(
+            toSensitiveKeySet(response.items.filter((f) => f.is_sensitive).map((f) => f.field_key))
+          );
+        }
+      } catch (err) {
+        if (!signal.aborted && !isAbortError(err)) {
+          setError(err instanceof Error ? err : new Error("Failed to load sensitive fields"));
+          setSensitiveKeys(MASK_ALL_KEYS);
+        }
+      } finally {
+        if (!signal.aborted) setIsLoading(false);
+      }
+    };
+
+    void fetchSensitiveFields();
+    return () => controller.abort();
+  }, []);
+
+  // A reveal only applies to the entity it was audited for
+  const targetKey = entityType != null && entityId != null ? `${entityType}:${entityId}` : null;
+  const isRevealed = targetKey != null && revealedFor === targetKey;
+  const canReveal =
+    capabilities.canRevealSensitiveData && targetKey != null && sensitiveKeys !== MASK_ALL_KEYS;
+
+  const reveal = useCallback(
+    async (fieldKeys: string[], reason: string): Promise<AuditLog> => {
+      if (entityType == null || entityId == null || targetKey == null) {
+        throw new Error("Nothing to reveal");
+      }
+      if (!canReveal) {
+        throw new Error("You are not allowed to reveal sensitive data");
+      }
+      const request: RevealSensitiveDataRequest = {
+        entity_type: entityType,
+        entity_id: entityId,
+        field_keys: fieldKeys,
+        reason: reason.trim(),
+      };
+      const entry = await post<AuditLog>(AUDIT_LOGS.REVEAL, request);
+      setRevealedFor(targetKey);
+      return entry;
+    },
+    [entityType, entityId, targetKey, canReveal]
+  );
+
+  const keysToMask = useMemo(
+    () => (isRevealed ? NO_KEYS : sensitiveKeys),
+    [isRevealed, sensitiveKeys]
+  );
+
+  return {
+    keysToMask,
+    isRevealed,
+    canReveal,
+    isLoading,
+    error,
+    reveal,
+  };
+}
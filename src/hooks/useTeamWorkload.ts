@@ -0,0 +1,88 @@
+/**
+ * useTeamWorkload Hook
+ *
+ * Open reviews per analyst for the supervisor dashboard, and reassignment of
+ * reviews between analysts through the bulk assign endpoint.
+ */
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { get } from "../api/httpClient";
+import { WORKLIST } from "../api/endpoints";
+import { isAbortError } from "../shared/utils/abort";
+import { useBulkOperations } from "./useBulkOperations";
+import type { BulkOperationResponse } from "../types/bulk";
+import type { TeamWorkloadResponse } from "../types/worklist";
+
+interface UseTeamWorkloadReturn {
+  workload: TeamWorkloadResponse | null;
+  isLoading: boolean;
+  error: Error | null;
+  isReassigning: boolean;
+  refetch: () => void;
+  /**
+   * Assigns the reviews to the analyst and reloads the workload. Reviews that
+   * could not be reassigned are reported in the response's results.
+   */
+  reassign: (transactionIds: string[], analystId: string) => Promise<BulkOperationResponse>;
+}
+
+/**
+ * Hook for the team workload dashboard
+ */
+export function useTeamWorkload(enabled = true, refreshIntervalMs = 0): UseTeamWorkloadReturn {
+  const [workload, setWorkload] = useState<TeamWorkloadResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(enabled);
+  const [error, setError] = useState<Error | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const { bulkAssign, isAssigning } = useBulkOperations();
+
+  const fetchWorkload = useCallback(async (): Promise<void> => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      setWorkload(await get<TeamWorkloadResponse>(WORKLIST.TEAM, { signal: controller.signal }));
+      setError(null);
+    } catch (err) {
+      if (controller.signal.aborted || isAbortError(err)) return;
+      setError(err instanceof Error ? err : new Error("Failed to fetch team workload"));
+    } finally {
+      if (!controller.signal.aborted) setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return undefined;
+    void fetchWorkload();
+    const intervalId =
+      refreshIntervalMs > 0
+        ? setInterval(() => {
+            void fetchWorkload();
+          }, refreshIntervalMs)
+        : null;
+    return () => {
+      abortRef.current?.abort();
+      if (intervalId != null) clearInterval(intervalId);
+    };
+  }, [enabled, refreshIntervalMs, fetchWorkload]);
+
+  const reassign = useCallback(
+    async (transactionIds: string[], analystId: string): Promise<BulkOperationResponse> => {
+      const response = await bulkAssign({ transaction_ids: transactionIds, analyst_id: analystId });
+      await fetchWorkload();
+      return response;
+    },
+    [bulkAssign, fetchWorkload]
+  );
+
+  return {
+    workload,
+    isLoading: enabled && isLoading,
+    error,
+    isReassigning: isAssigning,
+    refetch: () => {
+      void fetchWorkload();
+    },
+    reassign,
+  };
+}
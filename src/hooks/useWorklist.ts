@@ -9,15 +9,26 @@ import { get, post } from "../api/httpClient";
 import { WORKLIST } from "../api/endpoints";
 import { buildQueryParams } from "../shared/utils/url";
 import { isAbortError } from "../shared/utils/abort";
+import { applyWorklistEvent, applyWorklistEventToStats } from "../shared/utils/worklistEvents";
+import { useWorklistEvents } from "./useWorklistEvents";
 import type {
   WorklistItem,
   WorklistStats,
   WorklistFilters,
   WorklistResponse,
+  WorklistEvent,
+  WorklistConnectionMode,
   ClaimNextRequest,
 } from "../types/worklist";
 
-interface UseWorklistOptions {
+interface LiveUpdateOptions {
+  /** Apply streamed review events in place; polling only runs while the stream is down */
+  live?: boolean;
+  /** Needed to apply events to "assigned to me" views and stats */
+  currentUserId?: string | null;
+}
+
+interface UseWorklistOptions extends LiveUpdateOptions {
   filters?: WorklistFilters;
   enabled?: boolean;
   refreshIntervalMs?: number;
@@ -30,9 +41,43 @@ interface UseWorklistReturn {
   nextCursor: string | null;
   isLoading: boolean;
   error: Error | null;
+  connection: WorklistConnectionMode;
   refetch: () => void;
 }
 
+/**
+ * Polls at `refreshIntervalMs` unless streamed events are keeping the data
+ * current, and resyncs once when the stream comes back after an outage
+ */
+function useLiveRefresh(
+  refresh: () => Promise<void>,
+  enabled: boolean,
+  refreshIntervalMs: number,
+  connection: WorklistConnectionMode
+): void {
+  const wasPollingRef = useRef(false);
+
+  useEffect(() => {
+    if (connection === "polling") {
+      wasPollingRef.current = true;
+    } else if (connection === "live" && wasPollingRef.current) {
+      wasPollingRef.current = false;
+      void refresh();
+    }
+  }, [connection, refresh]);
+
+  useEffect(() => {
+    if (!enabled || refreshIntervalMs <= 0 || connection === "live") return undefined;
+    const intervalId = setInterval(() => {
+      void refresh();
+    }, refreshIntervalMs);
+
+    return () => {
+      clearInterval(intervalId);
+    };
+  }, [enabled, refreshIntervalMs, connection, refresh]);
+}
+
 /**
  * Hook for fetching worklist items
  */
@@ -40,8 +85,11 @@ export function useWorklist({
   filters,
   enabled = true,
   refreshIntervalMs = 0,
+  live = false,
+  currentUserId = null,
 }: UseWorklistOptions = {}): UseWorklistReturn {
   const [items, setItems] = useState<WorklistItem[]>([]);
+  const itemsRef = useRef<WorklistItem[]>([]);
   const [total, setTotal] = useState(0);
   const [hasMore, setHasMore] = useState(false);
   const [nextCursor, setNextCursor] = useState<string | null>(null);
@@ -56,6 +104,7 @@ export function useWorklist({
       priority_filter: filters?.priority_filter,
       risk_level_filter: filters?.risk_level_filter,
       assigned_only: filters?.assigned_only,
+      sort: filters?.sort,
       limit: filters?.limit,
       cursor: filters?.cursor,
     };
@@ -64,6 +113,7 @@ export function useWorklist({
     filters?.priority_filter,
     filters?.risk_level_filter,
     filters?.assigned_only,
+    filters?.sort,
     filters?.limit,
     filters?.cursor,
   ]);
@@ -91,6 +141,7 @@ export function useWorklist({
       priority_filter: stableFilters.priority_filter,
       risk_level_filter: stableFilters.risk_level_filter,
       ...(stableFilters.assigned_only === true ? { assigned_only: true } : {}),
+      sort: stableFilters.sort,
       limit: stableFilters.limit,
       cursor: stableFilters.cursor,
     });
@@ -103,7 +154,8 @@ export function useWorklist({
       const data = await get<WorklistResponse>(url, { signal });
       aborted = signal.aborted;
       if (!aborted) {
-        setItems(data.items ?? []);
+        itemsRef.current = data.items ?? [];
+        setItems(itemsRef.current);
         setTotal(data.total ?? 0);
         setHasMore(data.has_more ?? false);
         setNextCursor(data.next_cursor ?? null);
@@ -112,6 +164,7 @@ export function useWorklist({
       aborted = signal.aborted || isAbortError(err);
       if (!aborted) {
         setError(err instanceof Error ? err : new Error("Failed to fetch worklist"));
+        itemsRef.current = [];
         setItems([]);
       }
     } finally {
@@ -128,16 +181,24 @@ export function useWorklist({
     };
   }, [fetchWorklist]);
 
-  useEffect(() => {
-    if (enabled === false || refreshIntervalMs <= 0) return undefined;
-    const intervalId = setInterval(() => {
-      void fetchWorklist();
-    }, refreshIntervalMs);
+  const handleEvent = useCallback(
+    (event: WorklistEvent) => {
+      // The server orders by SLA deadlines the client does not hold, so reload instead
+      if (stableFilters.sort != null) {
+        void fetchWorklist();
+        return;
+      }
+      const result = applyWorklistEvent(itemsRef.current, event, stableFilters, currentUserId);
+      if (result.items === itemsRef.current) return;
+      itemsRef.current = result.items;
+      setItems(result.items);
+      setTotal((current) => Math.max(0, current + result.totalDelta));
+    },
+    [stableFilters, currentUserId, fetchWorklist]
+  );
 
-    return () => {
-      clearInterval(intervalId);
-    };
-  }, [enabled, refreshIntervalMs, fetchWorklist]);
+  const { mode: connection } = useWorklistEvents(handleEvent, { enabled: enabled && live });
+  useLiveRefresh(fetchWorklist, enabled, refreshIntervalMs, connection);
 
   return {
     items,
@@ -146,6 +207,7 @@ export function useWorklist({
     nextCursor,
     isLoading,
     error,
+    connection,
     refetch: () => {
       void fetchWorklist();
     },
@@ -162,7 +224,11 @@ interface UseWorklistStatsReturn {
 /**
  * Hook for fetching worklist statistics
  */
-export function useWorklistStats(enabled = true, refreshIntervalMs = 0): UseWorklistStatsReturn {
+export function useWorklistStats(
+  enabled = true,
+  refreshIntervalMs = 0,
+  { live = false, currentUserId = null }: LiveUpdateOptions = {}
+): UseWorklistStatsReturn {
   const [stats, setStats] = useState<WorklistStats | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
@@ -214,16 +280,17 @@ export function useWorklistStats(enabled = true, refreshIntervalMs = 0): UseWork
     };
   }, [fetchStats]);
 
-  useEffect(() => {
-    if (enabled === false || refreshIntervalMs <= 0) return undefined;
-    const intervalId = setInterval(() => {
-      void fetchStats();
-    }, refreshIntervalMs);
+  const handleEvent = useCallback(
+    (event: WorklistEvent) => {
+      setStats((current) =>
+        current == null ? current : applyWorklistEventToStats(current, event, currentUserId)
+      );
+    },
+    [currentUserId]
+  );
 
-    return () => {
-      clearInterval(intervalId);
-    };
-  }, [enabled, refreshIntervalMs, fetchStats]);
+  const { mode: connection } = useWorklistEvents(handleEvent, { enabled: enabled && live });
+  useLiveRefresh(fetchStats, enabled, refreshIntervalMs, connection);
 
   return {
     stats,
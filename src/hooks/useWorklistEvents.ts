@@ -0,0 +1,93 @@
+/**
+ * useWorklistEvents Hook
+ *
+ * Subscribes to review created/assigned/status-changed events pushed over
+ * server-sent events. All subscribers share one stream; while it is down the
+ * mode is "polling" and the stream is retried after a delay.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { openEventStream } from "../api/httpClient";
+import { WORKLIST } from "../api/endpoints";
+import { connectEventStream } from "../shared/utils/serverSentEvents";
+import type { WorklistConnectionMode, WorklistEvent } from "../types/worklist";
+
+type EventListener = (event: WorklistEvent) => void;
+type ModeListener = (mode: WorklistConnectionMode) => void;
+
+const eventListeners = new Set<EventListener>();
+const modeListeners = new Set<ModeListener>();
+let currentMode: WorklistConnectionMode = "connecting";
+let disconnectStream: (() => void) | null = null;
+
+function setMode(mode: WorklistConnectionMode): void {
+  currentMode = mode;
+  modeListeners.forEach((listener) => listener(mode));
+}
+
+function dispatch(data: string): void {
+  let event: WorklistEvent;
+  try {
+    event = JSON.parse(data) as WorklistEvent;
+  } catch {
+    return;
+  }
+  eventListeners.forEach((listener) => listener(event));
+}
+
+function connect(): void {
+  disconnectStream = connectEventStream((signal) => openEventStream(WORKLIST.EVENTS, signal), {
+    onOpen: () => setMode("live"),
+    onMessage: (message) => dispatch(message.data),
+    onDown: () => setMode("polling"),
+  });
+}
+
+function disconnect(): void {
+  disconnectStream?.();
+  disconnectStream = null;
+  currentMode = "connecting";
+}
+
+function subscribe(onEvent: EventListener, onMode: ModeListener): () => void {
+  eventListeners.add(onEvent);
+  modeListeners.add(onMode);
+  if (disconnectStream == null) connect();
+
+  return () => {
+    eventListeners.delete(onEvent);
+    modeListeners.delete(onMode);
+    if (eventListeners.size === 0) disconnect();
+  };
+}
+
+interface UseWorklistEventsOptions {
+  enabled?: boolean;
+}
+
+interface UseWorklistEventsReturn {
+  /** "polling" while disabled, so callers fall back to their refresh interval */
+  mode: WorklistConnectionMode;
+}
+
+/**
+ * Hook for receiving worklist events; `onEvent` may change between renders
+ */
+export function useWorklistEvents(
+  onEvent: (event: WorklistEvent) => void,
+  { enabled = true }: UseWorklistEventsOptions = {}
+): UseWorklistEventsReturn {
+  const [mode, setModeState] = useState<WorklistConnectionMode>(currentMode);
+  const onEventRef = useRef(onEvent);
+
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    if (!enabled) return undefined;
+    return subscribe((event) => onEventRef.current(event), setModeState);
+  }, [enabled]);
+
+  return { mode: enabled ? mode : "polling" };
+}
@@ -1,5 +1,9 @@
 import { describe, it, expect } from "vitest";
 import "../handlers";
+import { computeRegistryChecksum } from "@/shared/utils/fieldRegistryDiff";
+import { getTimeToBreach } from "@/shared/utils/sla";
+import type { SlaPolicy } from "@/types/sla";
+import type { WorklistItem } from "@/types/worklist";
 
 // Global test setup handles MSW server lifecycle
 
@@ -67,6 +71,75 @@ describe("MSW handlers extra integration", () => {
     expect([200, 404]).toContain(getVer.status);
   });
 
+  it("rule version test cases list, create and delete", async () => {
+    const listRes = await fetch("/api/v1/rule-versions/rv_006_v1/test-cases");
+    expect(listRes.status).toBe(200);
+    const initial = await listRes.json();
+    expect(initial.length).toBeGreaterThan(0);
+
+    const createRes = await fetch("/api/v1/rule-versions/rv_006_v1/test-cases", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "Low value", sample: { AMOUNT: 1 }, expected: "NO_MATCH" }),
+    });
+    expect(createRes.status).toBe(201);
+    const created = await createRes.json();
+    expect(created.rule_version_id).toBe("rv_006_v1");
+
+    const invalidRes = await fetch("/api/v1/rule-versions/rv_006_v1/test-cases", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: " ", sample: {}, expected: "MATCH" }),
+    });
+    expect(invalidRes.status).toBe(400);
+
+    const deleteRes = await fetch(
+      `/api/v1/rule-versions/rv_006_v1/test-cases/${created.test_case_id}`,
+      { method: "DELETE" }
+    );
+    expect(deleteRes.status).toBe(204);
+
+    const missingRes = await fetch("/api/v1/rule-versions/rv_missing/test-cases");
+    expect(missingRes.status).toBe(404);
+  });
+
+  it("rule backtest replays the condition tree over stored history", async () => {
+    const today = new Date().toISOString().slice(0, 10);
+    const from = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const res = await fetch("/api/v1/rules/backtest", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        condition_tree: { and: [{ field: "MCC", op: "EQ", value: "7995" }] },
+        from_date: from,
+        to_date: today,
+        sample_limit: 5,
+      }),
+    });
+    expect(res.status).toBe(200);
+    const result = await res.json();
+    expect(result.transactions_evaluated).toBeGreaterThan(0);
+    expect(result.match_count).toBeGreaterThan(0);
+    expect(result.match_count).toBeLessThan(result.transactions_evaluated);
+    expect(result.sample_hits.length).toBeLessThanOrEqual(5);
+    const m = result.confusion_matrix;
+    expect(
+      m.true_positives +
+        m.false_positives +
+        m.false_negatives +
+        m.true_negatives +
+        m.unlabelled_matches +
+        m.unlabelled_non_matches
+    ).toBe(result.transactions_evaluated);
+
+    const invalid = await fetch("/api/v1/rules/backtest", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ condition_tree: { and: [] }, from_date: today, to_date: from }),
+    });
+    expect(invalid.status).toBe(400);
+  });
+
   it("ruleset compile/submit and add/remove rule", async () => {
     // create ruleset
     const createRs = await fetch("/api/v1/rulesets", {
@@ -114,6 +187,95 @@ describe("MSW handlers extra integration", () => {
     expect([204, 404]).toContain(delRes.status);
   });
 
+  it("ruleset promotion previews, clones into the next environment and records history", async () => {
+    const preview = await fetch("/api/v1/rulesets/rs_009/promotion-preview");
+    expect(preview.status).toBe(200);
+    const previewBody = await preview.json();
+    expect(previewBody.target_environment).toBe("PROD");
+    expect(previewBody.active_target.ruleset_id).toBe("rs_001");
+
+    const wrongTarget = await fetch("/api/v1/rulesets/rs_009/promote", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ target_environment: "TEST" }),
+    });
+    expect(wrongTarget.status).toBe(400);
+
+    const notActive = await fetch("/api/v1/rulesets/rs_006/promote", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ target_environment: "PROD" }),
+    });
+    expect(notActive.status).toBe(400);
+
+    const promote = await fetch("/api/v1/rulesets/rs_009/promote", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ target_environment: "PROD" }),
+    });
+    expect(promote.status).toBe(201);
+    const { promotion, ruleset } = await promote.json();
+    expect(ruleset.environment).toBe("PROD");
+    expect(ruleset.status).toBe("DRAFT");
+    expect(promotion.replaces_ruleset_id).toBe("rs_001");
+
+    const target = await (await fetch(`/api/v1/rulesets/${ruleset.ruleset_id}`)).json();
+    expect(target.rules.map((r: { rule_version_id: string }) => r.rule_version_id)).toEqual([
+      "rv_001_v3",
+    ]);
+
+    const history = await (await fetch("/api/v1/rulesets/rs_009/promotions")).json();
+    expect(history[0].promotion_id).toBe(promotion.promotion_id);
+    const targetHistory = await (
+      await fetch(`/api/v1/rulesets/${ruleset.ruleset_id}/promotions`)
+    ).json();
+    expect(targetHistory).toHaveLength(1);
+  });
+
+  it("ruleset versions schedule activations and roll back", async () => {
+    const list = await (await fetch("/api/v1/ruleset-versions?ruleset_id=rs_001")).json();
+    expect(list.items.length).toBeGreaterThan(1);
+
+    const scheduled = await (await fetch("/api/v1/ruleset-versions/scheduled")).json();
+    expect(scheduled.map((a: { ruleset_version_id: string }) => a.ruleset_version_id)).toContain(
+      "rsv_rs_001_v4"
+    );
+
+    const past = await fetch("/api/v1/ruleset-versions/rsv_rs_001_v4/schedule", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ activate_at: "2020-01-01T00:00:00Z" }),
+    });
+    expect(past.status).toBe(400);
+
+    const notApproved = await fetch("/api/v1/ruleset-versions/rsv_rs_001_v3/schedule", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ activate_at: "2099-01-01T00:00:00Z" }),
+    });
+    expect(notApproved.status).toBe(400);
+
+    const cancel = await fetch("/api/v1/ruleset-versions/rsv_rs_001_v4/schedule", {
+      method: "DELETE",
+    });
+    expect(cancel.status).toBe(200);
+    expect((await cancel.json()).scheduled_activation_at).toBeNull();
+
+    const rollback = await fetch("/api/v1/ruleset-versions/rsv_rs_001_v3/rollback", {
+      method: "POST",
+    });
+    expect(rollback.status).toBe(200);
+    const { activated, superseded } = await rollback.json();
+    expect(activated.version).toBe(2);
+    expect(activated.approved_by).toBe("bob@example.com");
+    expect(superseded.status).toBe("SUPERSEDED");
+
+    const again = await fetch("/api/v1/ruleset-versions/rsv_rs_001_v3/rollback", {
+      method: "POST",
+    });
+    expect(again.status).toBe(400);
+  });
+
   it("approvals create, decide and fetch", async () => {
     // create approval
     const createRes = await fetch("/api/v1/approvals", {
@@ -215,4 +377,220 @@ describe("MSW handlers extra integration", () => {
     const res = await fetch("/api/v1/rulesets/no_such_rs/compile", { method: "POST" });
     expect(res.status).toBe(404);
   });
+
+  it("field registry version fields lists the fields published in that version", async () => {
+    const res = await fetch("/api/v1/field-registry/versions/2");
+    expect(res.status).toBe(200);
+    const j = await res.json();
+    expect(j.registry_version).toBe(2);
+    expect(j).not.toHaveProperty("fields");
+
+    const fields = await (await fetch("/api/v1/field-registry/versions/2/fields")).json();
+    expect(fields).toHaveLength(j.field_count);
+
+    const missing = await fetch("/api/v1/field-registry/versions/99");
+    expect(missing.status).toBe(404);
+    expect((await fetch("/api/v1/field-registry/versions/99/fields")).status).toBe(404);
+  });
+
+  it("rule draft export marks the recommendation exported with its rule", async () => {
+    const draftRes = await fetch("/api/v1/ops-agent/rule-drafts", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ recommendation_id: "rec-mock-002" }),
+    });
+    expect(draftRes.status).toBe(201);
+    const draft = await draftRes.json();
+    expect(draft.payload.conditions.length).toBeGreaterThan(0);
+
+    const exportRes = await fetch(`/api/v1/ops-agent/rule-drafts/${draft.draft_id}/export`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ rule_id: "rule_from_draft" }),
+    });
+    expect(exportRes.status).toBe(200);
+
+    const list = await (await fetch("/api/v1/ops-agent/worklist/recommendations")).json();
+    const rec = list.recommendations.find(
+      (r: { recommendation_id: string }) => r.recommendation_id === "rec-mock-002"
+    );
+    expect(rec).toMatchObject({ status: "EXPORTED", exported_rule_id: "rule_from_draft" });
+
+    const notCandidate = await fetch("/api/v1/ops-agent/rule-drafts", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ recommendation_id: "rec-mock-001" }),
+    });
+    expect(notCandidate.status).toBe(422);
+  });
+
+  it("recommendation outcomes are limited to the requested range", async () => {
+    const to = new Date();
+    const from = new Date(to.getTime() - 7 * 24 * 60 * 60 * 1000);
+    const params = new URLSearchParams({ from: from.toISOString(), to: to.toISOString() });
+    const res = await fetch(`/api/v1/ops-agent/analytics/recommendation-outcomes?${params}`);
+    const j = await res.json();
+
+    expect(j.outcomes.length).toBeGreaterThan(0);
+    expect(
+      j.outcomes.every((o: { created_at: string }) => Date.parse(o.created_at) >= from.getTime())
+    ).toBe(true);
+    const all = await (await fetch("/api/v1/ops-agent/analytics/recommendation-outcomes")).json();
+    expect(all.outcomes.length).toBeGreaterThan(j.outcomes.length);
+  });
+
+  it("transaction list applies the same filters as saved view counts", async () => {
+    const ids = async (query: string): Promise<string[]> =>
+      (await (await fetch(`/api/v1/transactions?${query}`)).json()).items.map(
+        (t: { transaction_id: string }) => t.transaction_id
+      );
+
+    expect(await ids("search=another")).toEqual(["txn_002"]);
+    expect(await ids("case_id=case_001")).toEqual(["txn_001"]);
+    expect(await ids("review_status=UNDER_REVIEW")).toEqual(["txn_002"]);
+    expect(await ids("decision_reason=RULE_MATCH&min_amount=1000")).toEqual(["txn_001"]);
+    expect(await ids("ruleset_id=rs_002&assigned_to_me=true")).toEqual([]);
+  });
+
+  it("saved views are owner-editable, pinnable by anyone and counted", async () => {
+    const createRes = await fetch("/api/v1/saved-views", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name: "Big declines",
+        description: null,
+        visibility: "PRIVATE",
+        pinned: true,
+        target: "transactions",
+        filters: { decision: "DECLINE", min_amount: 1000 },
+      }),
+    });
+    expect(createRes.status).toBe(201);
+    const created = await createRes.json();
+    expect(created.pinned).toBe(true);
+
+    const counts = await (await fetch("/api/v1/saved-views/counts")).json();
+    expect(counts.counts[created.id]).toBe(1);
+
+    const teamEdit = await fetch("/api/v1/saved-views/view-high-risk", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "Renamed" }),
+    });
+    expect(teamEdit.status).toBe(404);
+
+    const pinRes = await fetch("/api/v1/saved-views/view-high-risk/pin", { method: "PUT" });
+    expect((await pinRes.json()).pinned).toBe(true);
+
+    const deleteRes = await fetch(`/api/v1/saved-views/${created.id}`, { method: "DELETE" });
+    expect(deleteRes.status).toBe(204);
+    const list = await (await fetch("/api/v1/saved-views")).json();
+    expect(list.items.map((v: { id: string }) => v.id)).not.toContain(created.id);
+  });
+
+  it("field impact lists referencing rule versions with their rulesets", async () => {
+    const res = await fetch("/api/v1/rule-fields/IS_CROSS_BORDER/impact");
+    expect(res.status).toBe(200);
+    const impact = await res.json();
+    const reference = impact.references.find(
+      (r: { rule_version_id: string }) => r.rule_version_id === "rv_001_v3"
+    );
+    expect(reference.operators).toEqual(["EQ"]);
+    expect(reference.rulesets).toContainEqual({
+      ruleset_id: "rs_001",
+      name: expect.any(String),
+      environment: "PROD",
+      status: "ACTIVE",
+    });
+
+    const velocity = await (await fetch("/api/v1/rule-fields/CARD_NUMBER/impact")).json();
+    expect(
+      velocity.references.find(
+        (r: { rule_version_id: string }) => r.rule_version_id === "rv_004_v1"
+      ).velocity_group_by
+    ).toBe(true);
+
+    expect((await fetch("/api/v1/rule-fields/NOPE/impact")).status).toBe(404);
+  });
+
+  it("field registry publish records a checksum matching the published fields", async () => {
+    const res = await fetch("/api/v1/field-registry/publish", { method: "POST" });
+    expect(res.status).toBe(201);
+    const manifest = await res.json();
+
+    const fields = await (
+      await fetch(`/api/v1/field-registry/versions/${manifest.registry_version}/fields`)
+    ).json();
+    expect(fields).toHaveLength(manifest.field_count);
+    expect(manifest.checksum).toBe(await computeRegistryChecksum(fields));
+  });
+
+  it("sensitive data reveals require the reveal role and a justification, and are audited", async () => {
+    const reveal = (reason: string) =>
+      fetch("/api/v1/audit-log/reveals", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          entity_type: "TRANSACTION",
+          entity_id: "txn_001",
+          field_keys: ["CARD_NUMBER"],
+          reason,
+        }),
+      });
+
+    expect((await reveal("Chargeback dispute #4411")).status).toBe(403);
+
+    await fetch("/api/v1/auth/login", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ username: "checker1", password: "x" }),
+    });
+    expect((await reveal("short")).status).toBe(400);
+
+    const res = await reveal("Chargeback dispute #4411");
+    expect(res.status).toBe(201);
+    const entry = await res.json();
+    expect(entry.action).toBe("REVEAL");
+
+    const stored = await (await fetch(`/api/v1/audit-log/${entry.audit_id}`)).json();
+    expect(stored.new_value).toEqual({
+      field_keys: ["CARD_NUMBER"],
+      reason: "Chargeback dispute #4411",
+    });
+    await fetch("/api/v1/auth/logout", { method: "POST" });
+  });
+
+  it("evidence exports are audited with their integrity hash", async () => {
+    const res = await fetch("/api/v1/audit-log/exports", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        entity_type: "CASE",
+        entity_id: "case_001",
+        integrity_hash: "sha256:abc",
+        masked_field_keys: ["CARD_NUMBER"],
+      }),
+    });
+    expect(res.status).toBe(201);
+    const entry = await res.json();
+    expect(entry).toMatchObject({ entity_type: "CASE", entity_id: "case_001", action: "EXPORT" });
+
+    const stored = await (await fetch(`/api/v1/audit-log/${entry.audit_id}`)).json();
+    expect(stored.new_value).toEqual({
+      integrity_hash: "sha256:abc",
+      masked_field_keys: ["CARD_NUMBER"],
+    });
+  });
+
+  it("worklist sorts the whole queue by time to breach", async () => {
+    const policy = (await (await fetch("/api/v1/worklist/sla-policy")).json()) as SlaPolicy;
+    const page = (await (await fetch("/api/v1/worklist?sort=time_to_breach")).json()) as {
+      items: WorklistItem[];
+    };
+
+    const now = Date.now();
+    const remaining = page.items.map((item) => getTimeToBreach(item, policy, now));
+    expect(remaining.length).toBeGreaterThan(1);
+    expect(remaining).toEqual([...remaining].sort((a, b) => a - b));
+  });
 });
@@ -33,6 +33,20 @@ describe("handlers helpers", () => {
     expect(out.next_cursor).toBeDefined();
   });
 
+  it("keysetPaginate orders by the comparator, then by id", () => {
+    const items = [
+      { id: "a", rank: 3 },
+      { id: "b", rank: 1 },
+      { id: "c", rank: 2 },
+      { id: "d", rank: 1 },
+    ];
+    const byRank = (x: { rank: number }, y: { rank: number }): number => x.rank - y.rank;
+
+    const out = keysetPaginate(items, null, 3, "next", "id", byRank);
+    expect(out.items.map((i) => i.id)).toEqual(["b", "d", "c"]);
+    expect(out.has_next).toBe(true);
+  });
+
   it("applyFilters filters properly for strings and numbers", () => {
     const items = [
       { name: "Alice", age: 30 },
@@ -3,8 +3,13 @@ import { describe, it, expect } from "vitest";
 import { RuleStore } from "../../mocks/data/rules";
 import { RuleFieldStore } from "../../mocks/data/ruleFields";
 import { RuleSetStore } from "../../mocks/data/ruleSets";
+import { RuleSetVersionStore } from "../../mocks/data/ruleSetVersions";
 import { ApprovalStore } from "../../mocks/data/approvals";
 import { AuditLogStore } from "../../mocks/data/auditLogs";
+import { NoteStore } from "../../mocks/data/notes";
+import { NotificationStore } from "../../mocks/data/notifications";
+import { WorklistStore } from "../../mocks/data/worklist";
+import { RuleSetStatus, RulesetEnvironment } from "../../types/enums";
 
 describe("Mock stores", () => {
   it("RuleStore basic operations", () => {
@@ -47,6 +52,62 @@ describe("Mock stores", () => {
     expect(s.deleteRule(created.rule_id)).toBe(true);
   });
 
+  it("RuleStore test case operations", () => {
+    const s = new RuleStore();
+    expect(s.getTestCases("rv_001_v3").length).toBeGreaterThan(0);
+    expect(s.getTestCases("missing")).toEqual([]);
+
+    const created = s.createTestCase({
+      rule_version_id: "rv_001_v3",
+      name: "Small purchase",
+      sample: { AMOUNT: 5 },
+      expected: "NO_MATCH",
+      created_by: "me",
+    });
+    expect(created.test_case_id).toBeDefined();
+    expect(s.getTestCases("rv_001_v3")).toContainEqual(created);
+
+    // A new version inherits the current version's cases
+    const next = s.createVersion({
+      rule_id: "rule_001",
+      rule_version_id: "rv_001_v4",
+      condition_tree: { and: [] },
+      priority: 10,
+      scope: null,
+      created_by: "me",
+      status: "DRAFT",
+      approved_by: null,
+      approved_at: null,
+    });
+    const inherited = s.getTestCases(next.rule_version_id);
+    expect(inherited.map((c) => c.name)).toEqual(s.getTestCases("rv_001_v3").map((c) => c.name));
+    expect(inherited.every((c) => c.rule_version_id === "rv_001_v4")).toBe(true);
+
+    expect(s.deleteTestCase("rv_001_v3", created.test_case_id)).toBe(true);
+    expect(s.deleteTestCase("rv_001_v3", created.test_case_id)).toBe(false);
+  });
+
+  it("RuleFieldStore registry versions contain the fields published by then", () => {
+    const s = new RuleFieldStore();
+    const latest = s.getLatestRegistryManifest();
+
+    expect(s.getRegistryFields(latest.registry_version)).toHaveLength(latest.field_count);
+    expect(s.getRegistryFields(1)?.map((f) => f.field_key)).not.toContain("RISK_SCORE");
+    expect(s.getRegistryFields(99)).toBeNull();
+  });
+
+  it("RuleFieldStore publishes the current fields as an immutable registry version", () => {
+    const s = new RuleFieldStore();
+    const manifest = s.publishRegistry("sha256:abc", "checker@example.com");
+
+    expect(manifest.registry_version).toBe(4);
+    expect(s.getLatestRegistryManifest()).toEqual(manifest);
+    expect(s.getRegistryFields(4)).toHaveLength(s.getAll().length);
+
+    s.update("MCC", { is_active: false });
+    expect(s.getRegistryFields(4)?.find((f) => f.field_key === "MCC")?.is_active).toBe(true);
+  });
+
   it("RuleFieldStore metadata operations", () => {
     const s = new RuleFieldStore();
     const all = s.getAll();
@@ -78,6 +139,42 @@ describe("Mock stores", () => {
     expect(s.delete("NEW")).toBe(true);
   });
 
+  it("RuleSetStore promotes a ruleset as a draft in the target environment", () => {
+    const s = new RuleSetStore();
+    const source = s.getById("rs_010")!;
+    expect(s.findActive(RulesetEnvironment.TEST, source)).toBeUndefined();
+
+    const result = s.promote("rs_010", RulesetEnvironment.TEST, "maker")!;
+    expect(result.ruleset.status).toBe(RuleSetStatus.DRAFT);
+    expect(result.ruleset.version).toBe(1);
+    expect(s.getRules(result.ruleset.ruleset_id)).toEqual(s.getRules("rs_010"));
+    expect(result.promotion.replaces_ruleset_id).toBeNull();
+
+    s.update(result.ruleset.ruleset_id, { status: RuleSetStatus.PENDING_APPROVAL });
+    expect(s.getPromotions("rs_010")[0]?.target_status).toBe(RuleSetStatus.PENDING_APPROVAL);
+    expect(s.promote("missing", RulesetEnvironment.TEST, "maker")).toBeNull();
+  });
+
+  it("RuleSetVersionStore activates due schedules and supersedes the active version", () => {
+    const s = new RuleSetVersionStore();
+    s.schedule("rsv_rs_001_v4", "2024-12-01T02:00:00Z", "ops");
+
+    s.applyDueActivations(new Date("2024-12-02T00:00:00Z"));
+
+    expect(s.getById("rsv_rs_001_v4")?.status).toBe(RuleSetStatus.ACTIVE);
+    expect(s.getById("rsv_rs_001_v4")?.activated_at).toBe("2024-12-01T02:00:00Z");
+    expect(s.getById("rsv_rs_001_v3")?.status).toBe(RuleSetStatus.SUPERSEDED);
+    expect(s.getScheduled().map((v) => v.ruleset_version_id)).not.toContain("rsv_rs_001_v4");
+
+    const result = s.rollback("rsv_rs_001_v4", new Date("2024-12-03T00:00:00Z"));
+    expect(result?.activated.ruleset_version_id).toBe("rsv_rs_001_v3");
+    expect(result?.activated.activations).toEqual([
+      "2024-11-06T10:00:00Z",
+      "2024-12-03T00:00:00.000Z",
+    ]);
+    expect(s.rollback("rsv_rs_001_v4")).toBeNull();
+  });
+
   it("RuleSetStore operations and compile", () => {
     const s = new RuleSetStore();
     const all = s.getAll();
@@ -106,6 +203,7 @@ describe("Mock stores", () => {
 
     const compiled = s.compile("rs_test");
     expect(compiled?.compiled_ast).toBeDefined();
+    expect(compiled?.compiled_ast?.registryVersion).toBe(3);
 
     expect(s.removeRule("rs_test", "rv_001_v3")).toBe(true);
     expect(s.delete("rs_test")).toBe(true);
@@ -150,4 +248,176 @@ describe("Mock stores", () => {
     expect(s.getByEntity("RULE", "rule_001").length).toBeGreaterThanOrEqual(0);
     expect(s.getByUser("me").length).toBeGreaterThanOrEqual(0);
   });
+
+  it("NoteStore notes and scanned attachments", () => {
+    const author = { user_id: "me", display_name: "Me" };
+    const s = new NoteStore(0);
+    expect(s.list("txn_1")).toHaveLength(1);
+
+    const note = s.create(
+      "txn_1",
+      { note_type: "GENERAL", note_content: "Called customer" },
+      author
+    );
+    expect(s.list("txn_1")[0].id).toBe(note.id);
+
+    const file = { type: "image/png", size: 3, content: new Blob(["png"]) };
+    const clean = s.addAttachment("txn_1", note.id, { ...file, name: "call.png" });
+    const infected = s.addAttachment("txn_1", note.id, { ...file, name: "eicar.png" });
+    expect(clean?.scan_status).toBe("CLEAN");
+    expect(infected?.scan_status).toBe("INFECTED");
+    expect(s.getAttachment(note.id, clean?.attachment_id ?? "")?.content.size).toBe(3);
+    expect(s.getAttachment("other_note", clean?.attachment_id ?? "")).toBeUndefined();
+
+    expect(s.removeAttachment("txn_1", note.id, infected?.attachment_id ?? "")).toBe(true);
+    expect(s.get("txn_1", note.id)?.attachments).toHaveLength(1);
+
+    expect(s.update("txn_1", note.id, { note_type: "ESCALATION" })?.note_type).toBe("ESCALATION");
+    expect(s.delete("txn_1", note.id)).toBe(true);
+    expect(s.getAttachment(note.id, clean?.attachment_id ?? "")).toBeUndefined();
+  });
+
+  it("NoteStore reports new uploads as pending until the scan finishes", () => {
+    const s = new NoteStore();
+    const [seeded] = s.list("txn_1");
+    const attachment = s.addAttachment("txn_1", seeded.id, {
+      name: "letter.pdf",
+      type: "application/pdf",
+      size: 3,
+      content: new Blob(["pdf"]),
+    });
+    expect(attachment?.scan_status).toBe("PENDING");
+  });
+
+  it("NoteStore records each mention of a user once per note", () => {
+    const author = { user_id: "me", display_name: "Me" };
+    const s = new NoteStore(0);
+    const note = s.create(
+      "txn_1",
+      { note_type: "ESCALATION", note_content: "@checker1 please review" },
+      author
+    );
+
+    expect(s.recordMentions(note, ["user_checker_1"], author)).toHaveLength(1);
+    const edited = s.update("txn_1", note.id, { note_content: "@checker1 and @maker2" });
+    const added = s.recordMentions(edited ?? note, ["user_checker_1", "user_maker_2"], author);
+    expect(added.map((m) => m.mentioned_user_id)).toEqual(["user_maker_2"]);
+
+    const [mention] = s.mentionsFor("user_checker_1");
+    expect(mention).toMatchObject({
+      note_id: note.id,
+      transaction_id: "txn_1",
+      mentioned_by_name: "Me",
+      excerpt: "@checker1 please review",
+    });
+
+    s.delete("txn_1", note.id);
+    expect(s.mentionsFor("user_maker_2")).toEqual([]);
+  });
+
+  it("NoteStore keeps private note text out of mentions", () => {
+    const author = { user_id: "me", display_name: "Me" };
+    const s = new NoteStore(0);
+    const secret = s.create(
+      "txn_1",
+      { note_type: "GENERAL", note_content: "@checker1 suspect insider", is_private: true },
+      author
+    );
+    expect(s.recordMentions(secret, ["user_checker_1"], author)).toEqual([]);
+
+    const note = s.create(
+      "txn_1",
+      { note_type: "GENERAL", note_content: "@checker1 look" },
+      author
+    );
+    s.recordMentions(note, ["user_checker_1"], author);
+    s.update("txn_1", note.id, { is_private: true });
+    expect(s.mentionsFor("user_checker_1")).toEqual([]);
+  });
+
+  it("NotificationStore delivers notifications the recipient has not turned off", () => {
+    const s = new NotificationStore();
+    const received: string[] = [];
+    const unsubscribe = s.subscribe((userId, n) => received.push(`${userId}:${n.type}`));
+    const input = {
+      type: "REVIEW_ASSIGNED" as const,
+      title: "txn_9 was assigned to you",
+      message: null,
+      link: "/transactions/show/txn_9",
+      actor_id: null,
+      actor_name: null,
+    };
+
+    const created = s.notify("user_x", input);
+    expect(s.list("user_x")).toMatchObject({ items: [{ title: input.title }], unread_count: 1 });
+
+    s.setPreferences("user_x", { REVIEW_ASSIGNED: false });
+    expect(s.notify("user_x", input)).toBeNull();
+    unsubscribe();
+    s.setPreferences("user_x", { REVIEW_ASSIGNED: true });
+    s.notify("user_x", input);
+    expect(received).toEqual(["user_x:REVIEW_ASSIGNED"]);
+
+    expect(s.markRead("user_y", created?.notification_id ?? "")).toBeUndefined();
+    expect(s.markRead("user_x", created?.notification_id ?? "")?.read_at).not.toBeNull();
+    expect(s.list("user_x", { unreadOnly: true }).items).toHaveLength(1);
+    expect(s.markAllRead("user_x")).toBe(1);
+    expect(s.list("user_x").unread_count).toBe(0);
+  });
+
+  it("WorklistStore reports SLA compliance against its policy", () => {
+    const s = new WorklistStore();
+    const actor = { user_id: "sup", display_name: "Sam Supervisor" };
+    const now = Date.parse("2026-01-15T10:20:00Z");
+
+    const before = s.getSlaCompliance(now);
+    expect(before.open_breached).toBe(0);
+    expect(before.open_at_risk).toBe(1);
+    expect(before.by_priority.map((b) => b.key)).toEqual(["1", "2", "3", "4"]);
+
+    const policy = s.updateSlaPolicy({ priority_minutes: { "3": 5 } }, actor);
+    expect(policy).toMatchObject({ at_risk_percent: 25, updated_by: "Sam Supervisor" });
+    expect(policy.priority_minutes).toMatchObject({ "1": 60, "3": 5 });
+    expect(s.getSlaCompliance(now).open_breached).toBe(1);
+
+    s.updateStatus("txn_003", "RESOLVED", actor);
+    const after = s.getSlaCompliance();
+    expect(after.breached).toBe(before.breached + 1);
+    expect(after.compliance_rate).toBeCloseTo(after.met / (after.met + after.breached));
+  });
+
+  it("WorklistStore reports team workload and bulk reassigns reviews", () => {
+    const s = new WorklistStore();
+    const actor = { user_id: "sup", display_name: "Sam Supervisor" };
+    const team = [
+      { user_id: "user_maker_1", display_name: "John Maker" },
+      { user_id: "user_maker_2", display_name: "Jane Maker" },
+    ];
+
+    const before = s.getTeamWorkload(team);
+    expect(before.unassigned.map((i) => i.transaction_id)).toEqual(["txn_002", "txn_003"]);
+    expect(before.analysts[0]).toMatchObject({
+      analyst_name: "John Maker",
+      avg_resolution_minutes: 38,
+      escalations: 2,
+    });
+    expect(before.analysts[0].by_status.IN_REVIEW).toBe(1);
+    expect(before.analysts[0].by_risk.CRITICAL).toBe(1);
+    expect(before.analysts[1].reviews).toEqual([]);
+
+    s.updateStatus("txn_003", "RESOLVED", actor);
+    const response = s.bulkAssign(["txn_002", "txn_003", "txn_missing"], "user_maker_2", actor);
+    expect(response).toMatchObject({ success_count: 1, failure_count: 2 });
+    expect(response.results.map((r) => r.error_code)).toEqual([
+      null,
+      "REVIEW_CLOSED",
+      "REVIEW_NOT_FOUND",
+    ]);
+
+    s.updateStatus("txn_002", "ESCALATED", actor);
+    const after = s.getTeamWorkload(team);
+    expect(after.unassigned).toEqual([]);
+    expect(after.analysts[1].reviews.map((i) => i.transaction_id)).toEqual(["txn_002"]);
+    expect(after.analysts[1].escalations).toBe(6);
+  });
 });
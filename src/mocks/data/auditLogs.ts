@@ -269,6 +269,28 @@ export const mockAuditLogs: AuditLog[] = [
     performed_by: "user_checker_2",
     performed_at: "2024-12-13T10:00:00Z",
   },
+  {
+    audit_id: "audit_021",
+    entity_type: EntityType.RULE_VERSION,
+    entity_id: "rv_007_v1",
+    action: AuditAction.CREATE,
+    old_value: null,
+    new_value: {
+      rule_version_id: "rv_007_v1",
+      version: 1,
+      condition_tree: {
+        or: [
+          {
+            field: "CARD_NUMBER",
+            op: "IN",
+            value: ["4532********1234", "5425********9876"],
+          },
+        ],
+      },
+    },
+    performed_by: "user_maker_2",
+    performed_at: "2024-12-10T10:00:00Z",
+  },
 ];
 
 /**
@@ -0,0 +1,176 @@
+/**
+ * Mock data generator for rule backtests
+ *
+ * Builds a deterministic history of reviewed transactions and replays a
+ * condition tree over it with the client-side evaluator.
+ */
+
+import type {
+  RuleBacktestConfusionMatrix,
+  RuleBacktestRequest,
+  RuleBacktestResponse,
+  RuleBacktestSampleHit,
+} from "../../api/types";
+import type { ResolutionCode } from "../../types/review";
+import { evaluateConditionTree } from "../../shared/utils/conditionEvaluator";
+
+export interface MockHistoricalTransaction extends RuleBacktestSampleHit {
+  /** Field values keyed by rule field key, as the evaluator expects */
+  fields: Record<string, unknown>;
+}
+
+const HISTORY_DAYS = 90;
+const TRANSACTIONS_PER_DAY = 6;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MERCHANTS = [
+  { merchant_id: "merch_001", merchant_name: "Corner Grocery", mcc: "5411" },
+  { merchant_id: "merch_002", merchant_name: "City Pharmacy", mcc: "5912" },
+  { merchant_id: "merch_003", merchant_name: "Lucky Star Casino", mcc: "7995" },
+  { merchant_id: "merch_004", merchant_name: "QuickShop Online", mcc: "5967" },
+  { merchant_id: "merch_005", merchant_name: "Skyline Electronics", mcc: "5732" },
+];
+const COUNTRIES = ["US", "US", "US", "GB", "NG", "BR"];
+const SCHEMES = ["VISA", "MASTERCARD", "AMEX"];
+
+/**
+ * Small deterministic PRNG so the mock history is stable across reloads
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+function pick<T>(items: readonly T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)] as T;
+}
+
+function resolveOutcome(riskScore: number, random: () => number): ResolutionCode | null {
+  const roll = random();
+  if (roll < 0.35) return null;
+  if (riskScore > 70) return roll < 0.8 ? "FRAUD_CONFIRMED" : "FALSE_POSITIVE";
+  if (riskScore > 40) return roll < 0.55 ? "FRAUD_CONFIRMED" : "FALSE_POSITIVE";
+  return roll < 0.4 ? "FRAUD_CONFIRMED" : "LEGITIMATE";
+}
+
+export function generateMockHistory(now: Date = new Date()): MockHistoricalTransaction[] {
+  const random = seededRandom(42);
+  const history: MockHistoricalTransaction[] = [];
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+
+  for (let day = 0; day < HISTORY_DAYS; day += 1) {
+    for (let slot = 0; slot < TRANSACTIONS_PER_DAY; slot += 1) {
+      const merchant = pick(MERCHANTS, random);
+      const country = pick(COUNTRIES, random);
+      const riskScore = Math.round(random() * 100);
+      const amount = Math.round(random() * (merchant.mcc === "7995" ? 5000 : 1500) * 100) / 100;
+      const index = day * TRANSACTIONS_PER_DAY + slot + 1;
+      const timestamp = today - day * DAY_MS + Math.floor(random() * DAY_MS);
+
+      history.push({
+        transaction_id: `txn_hist_${String(index).padStart(4, "0")}`,
+        transaction_reference: `TXN-HIST-${String(index).padStart(4, "0")}`,
+        transaction_date: new Date(timestamp).toISOString(),
+        amount,
+        currency: "USD",
+        merchant_name: merchant.merchant_name,
+        resolution_code: resolveOutcome(riskScore, random),
+        fields: {
+          AMOUNT: amount,
+          MCC: merchant.mcc,
+          MERCHANT_ID: merchant.merchant_id,
+          MERCHANT_NAME: merchant.merchant_name,
+          COUNTRY: country,
+          IS_CROSS_BORDER: country !== "US",
+          CARD_SCHEME: pick(SCHEMES, random),
+          RISK_SCORE: riskScore,
+          TXN_TIME: new Date(timestamp).toISOString(),
+        },
+      });
+    }
+  }
+  return history;
+}
+
+function inScope(
+  txn: MockHistoricalTransaction,
+  scope: Record<string, unknown> | undefined
+): boolean {
+  const mcc = scope?.mcc as string[] | undefined;
+  const network = scope?.network as string[] | undefined;
+  if (mcc != null && mcc.length > 0 && !mcc.includes(String(txn.fields.MCC))) return false;
+  if (network != null && network.length > 0 && !network.includes(String(txn.fields.CARD_SCHEME))) {
+    return false;
+  }
+  return true;
+}
+
+function emptyMatrix(): RuleBacktestConfusionMatrix {
+  return {
+    true_positives: 0,
+    false_positives: 0,
+    false_negatives: 0,
+    true_negatives: 0,
+    unlabelled_matches: 0,
+    unlabelled_non_matches: 0,
+  };
+}
+
+function tally(
+  matrix: RuleBacktestConfusionMatrix,
+  matched: boolean,
+  outcome: ResolutionCode | null
+): void {
+  if (outcome === "FRAUD_CONFIRMED") {
+    if (matched) matrix.true_positives += 1;
+    else matrix.false_negatives += 1;
+  } else if (outcome === "FALSE_POSITIVE") {
+    if (matched) matrix.false_positives += 1;
+    else matrix.true_negatives += 1;
+  } else if (matched) {
+    matrix.unlabelled_matches += 1;
+  } else {
+    matrix.unlabelled_non_matches += 1;
+  }
+}
+
+export function runMockBacktest(
+  request: RuleBacktestRequest,
+  history: MockHistoricalTransaction[] = generateMockHistory()
+): RuleBacktestResponse {
+  const from = Date.parse(`${request.from_date}T00:00:00Z`);
+  const to = Date.parse(`${request.to_date}T00:00:00Z`) + DAY_MS;
+  const sampleLimit = request.sample_limit ?? 25;
+
+  const matrix = emptyMatrix();
+  const hits: RuleBacktestSampleHit[] = [];
+  let evaluated = 0;
+
+  for (const txn of history) {
+    const timestamp = Date.parse(txn.transaction_date);
+    if (timestamp < from || timestamp >= to) continue;
+    evaluated += 1;
+    const matched =
+      inScope(txn, request.scope) &&
+      evaluateConditionTree(request.condition_tree, txn.fields).matched;
+    tally(matrix, matched, txn.resolution_code);
+    if (matched) {
+      const { fields: _fields, ...hit } = txn;
+      hits.push(hit);
+    }
+  }
+
+  return {
+    backtest_id: `bt_${Date.now().toString(36)}`,
+    from_date: request.from_date,
+    to_date: request.to_date,
+    days: Math.max(1, Math.round((to - from) / DAY_MS)),
+    transactions_evaluated: evaluated,
+    match_count: hits.length,
+    confusion_matrix: matrix,
+    sample_hits: hits.slice(0, sampleLimit),
+  };
+}
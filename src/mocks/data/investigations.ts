@@ -0,0 +1,195 @@
+/**
+ * Mock data generator for Ops Analyst investigation runs
+ */
+
+import type {
+  DetailResponse,
+  EvidenceItem,
+  RecommendationDetail,
+  RunInvestigationRequest,
+} from "../../types/opsAnalyst";
+
+const QUICK_STAGES: Record<string, number> = {
+  context_load: 42,
+  velocity_analysis: 88,
+  pattern_match: 121,
+  recommendation: 61,
+};
+
+const DEEP_STAGES: Record<string, number> = {
+  context_load: 45,
+  velocity_analysis: 93,
+  similar_transactions: 410,
+  pattern_match: 162,
+  llm_reasoning: 1840,
+  recommendation: 74,
+};
+
+function buildEvidence(runId: string, createdAt: string, deep: boolean): EvidenceItem[] {
+  const evidence: EvidenceItem[] = [
+    {
+      evidence_id: `${runId}-ev-1`,
+      evidence_kind: "velocity_pattern",
+      evidence_payload: {
+        window_minutes: 2,
+        transaction_count: 5,
+        amount_range: "$1.00–$5.00",
+        geo_match: true,
+      },
+      created_at: createdAt,
+    },
+    {
+      evidence_id: `${runId}-ev-2`,
+      evidence_kind: "rule_matches",
+      evidence_payload: {
+        rules: [
+          { rule_id: "rule_001", rule_name: "High Amount Block", action: "REVIEW" },
+          { rule_id: "rule_004", rule_name: "Card Testing Velocity", action: "BLOCK" },
+        ],
+      },
+      created_at: createdAt,
+    },
+    {
+      evidence_id: `${runId}-ev-3`,
+      evidence_kind: "merchant_profile",
+      evidence_payload: {
+        merchant_id: "merch_001",
+        mcc: "5816",
+        chargeback_rate: 0.034,
+        first_seen: "2025-11-02",
+        high_risk: true,
+      },
+      created_at: createdAt,
+    },
+  ];
+
+  if (deep) {
+    evidence.push({
+      evidence_id: `${runId}-ev-4`,
+      evidence_kind: "similar_transactions",
+      evidence_payload: {
+        transactions: [
+          {
+            transaction_id: "txn-mock-101",
+            amount: 1.5,
+            currency: "USD",
+            decision: "DECLINE",
+            similarity: 0.93,
+          },
+          {
+            transaction_id: "txn-mock-102",
+            amount: 2,
+            currency: "USD",
+            decision: "APPROVE",
+            similarity: 0.88,
+          },
+        ],
+      },
+      created_at: createdAt,
+    });
+  }
+  return evidence;
+}
+
+const SEED_RECOMMENDATIONS: RecommendationDetail[] = [
+  {
+    recommendation_id: "rec-mock-001",
+    insight_id: "ins-mock-001",
+    type: "review_priority",
+    status: "OPEN",
+    priority: 1,
+    payload: { title: "Prioritize for manual review", impact: "High velocity pattern" },
+  },
+  {
+    recommendation_id: "rec-mock-002",
+    insight_id: "ins-mock-001",
+    type: "rule_candidate",
+    status: "ACKNOWLEDGED",
+    priority: 2,
+    payload: {
+      title: "Create velocity rule for $1–$5 range",
+      impact: "Block card testing pattern",
+    },
+  },
+];
+
+export class InvestigationRunStore {
+  private runs = new Map<string, DetailResponse>();
+  private sequence = 0;
+
+  constructor() {
+    const startedAt = "2026-01-15T10:00:00Z";
+    this.runs.set("run-mock-001", {
+      ...this.build("run-mock-001", { transaction_id: "txn-mock-001", mode: "quick" }, startedAt),
+      insight: {
+        insight_id: "ins-mock-001",
+        run_id: "run-mock-001",
+        severity: "HIGH",
+        summary: "Velocity spike detected. Pattern matches known card testing behavior.",
+        generated_at: startedAt,
+      },
+      recommendations: SEED_RECOMMENDATIONS,
+    });
+  }
+
+  get(runId: string): DetailResponse | undefined {
+    return this.runs.get(runId);
+  }
+
+  run(request: RunInvestigationRequest): DetailResponse {
+    this.sequence += 1;
+    const runId = `run-mock-${String(this.sequence + 100).padStart(3, "0")}`;
+    const detail = this.build(runId, request, new Date().toISOString());
+    this.runs.set(runId, detail);
+    return detail;
+  }
+
+  private build(
+    runId: string,
+    request: RunInvestigationRequest,
+    startedAt: string
+  ): DetailResponse {
+    const mode = request.mode ?? "quick";
+    const stageDurations = mode === "deep" ? DEEP_STAGES : QUICK_STAGES;
+    const durationMs = Object.values(stageDurations).reduce((sum, ms) => sum + ms, 0);
+    const insightId = `ins-${runId}`;
+
+    return {
+      run_id: runId,
+      status: "SUCCESS",
+      mode,
+      transaction_id: request.transaction_id,
+      case_id: request.case_id ?? null,
+      model_mode: mode === "deep" ? "agentic" : "hybrid",
+      duration_ms: durationMs,
+      started_at: startedAt,
+      completed_at: new Date(new Date(startedAt).getTime() + durationMs).toISOString(),
+      error_summary: null,
+      stage_durations: stageDurations,
+      insight: {
+        insight_id: insightId,
+        run_id: runId,
+        severity: mode === "deep" ? "CRITICAL" : "HIGH",
+        summary:
+          mode === "deep"
+            ? "Card testing confirmed: two similar low-value authorizations on related cards."
+            : "Velocity spike detected. Pattern matches known card testing behavior.",
+        generated_at: startedAt,
+      },
+      recommendations: [
+        {
+          recommendation_id: `rec-${runId}`,
+          insight_id: insightId,
+          type: "review_priority",
+          status: "OPEN",
+          priority: 1,
+          payload: {
+            title: "Prioritize for manual review",
+            impact: "High velocity pattern detected",
+          },
+        },
+      ],
+      evidence: buildEvidence(runId, startedAt, mode === "deep"),
+    };
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * Mock data store for analyst notes and their attachments
+ *
+ * Stands in for the notes service and its object storage. Uploaded files are
+ * kept in memory and "scanned" on read: an attachment stays PENDING for a
+ * few seconds after upload, then turns CLEAN, or INFECTED when its name
+ * contains "eicar" (after the standard antivirus test file). @mentions are
+ * recorded per note so each analyst is only notified once per note.
+ */
+
+import type {
+  AnalystNote,
+  AttachmentScanStatus,
+  NoteAttachment,
+  NoteCreateRequest,
+  NoteMention,
+  NoteUpdateRequest,
+} from "../../types/notes";
+
+/** How long a new upload reports PENDING */
+export const MOCK_SCAN_DURATION_MS = 3000;
+
+const MENTION_EXCERPT_LENGTH = 140;
+
+interface StoredAttachment {
+  attachment: NoteAttachment;
+  note_id: string;
+  content: Blob;
+}
+
+interface NoteAuthor {
+  user_id: string;
+  display_name: string;
+  email?: string;
+}
+
+function seedNote(transactionId: string): AnalystNote {
+  return {
+    id: `note_${transactionId}_001`,
+    transaction_id: transactionId,
+    note_type: "INITIAL_REVIEW",
+    note_content: "Velocity spike on this card; waiting on customer callback.",
+    is_private: false,
+    is_system_generated: false,
+    analyst_id: "user_maker_1",
+    analyst_name: "Mike Maker",
+    analyst_email: "maker1@example.com",
+    case_id: null,
+    attachments: [],
+    created_at: "2026-01-12T14:30:00Z",
+    updated_at: "2026-01-12T14:30:00Z",
+  };
+}
+
+export class NoteStore {
+  private notes = new Map<string, AnalystNote[]>();
+  private files = new Map<string, StoredAttachment>();
+  private mentions: NoteMention[] = [];
+  private sequence = 0;
+
+  constructor(private readonly scanDurationMs = MOCK_SCAN_DURATION_MS) {}
+
+  private nextId(prefix: string): string {
+    this.sequence += 1;
+    return `${prefix}_${Date.now()}_${this.sequence}`;
+  }
+
+  /** Every transaction starts with one seeded note so the panel is not empty */
+  private notesFor(transactionId: string): AnalystNote[] {
+    let notes = this.notes.get(transactionId);
+    if (notes == null) {
+      notes = [seedNote(transactionId)];
+      this.notes.set(transactionId, notes);
+    }
+    return notes;
+  }
+
+  private scanStatus(attachment: NoteAttachment, now: number): AttachmentScanStatus {
+    const uploadedAt = Date.parse(attachment.uploaded_at ?? "");
+    if (now - uploadedAt < this.scanDurationMs) return "PENDING";
+    return attachment.name.toLowerCase().includes("eicar") ? "INFECTED" : "CLEAN";
+  }
+
+  private withScanResults(note: AnalystNote, now = Date.now()): AnalystNote {
+    return {
+      ...note,
+      attachments: (note.attachments ?? []).map((attachment) => ({
+        ...attachment,
+        scan_status: this.scanStatus(attachment, now),
+      })),
+    };
+  }
+
+  list(transactionId: string): AnalystNote[] {
+    return this.notesFor(transactionId).map((note) => this.withScanResults(note));
+  }
+
+  get(transactionId: string, noteId: string): AnalystNote | undefined {
+    const note = this.notesFor(transactionId).find((n) => n.id === noteId);
+    return note == null ? undefined : this.withScanResults(note);
+  }
+
+  create(transactionId: string, request: NoteCreateRequest, author: NoteAuthor): AnalystNote {
+    const now = new Date().toISOString();
+    const note: AnalystNote = {
+      id: this.nextId("note"),
+      transaction_id: transactionId,
+      note_type: request.note_type,
+      note_content: request.note_content,
+      is_private: request.is_private ?? false,
+      is_system_generated: false,
+      analyst_id: author.user_id,
+      analyst_name: author.display_name,
+      analyst_email: author.email ?? null,
+      case_id: null,
+      attachments: [],
+      created_at: now,
+      updated_at: now,
+    };
+    this.notesFor(transactionId).unshift(note);
+    return this.withScanResults(note);
+  }
+
+  update(
+    transactionId: string,
+    noteId: string,
+    request: NoteUpdateRequest
+  ): AnalystNote | undefined {
+    const notes = this.notesFor(transactionId);
+    const index = notes.findIndex((n) => n.id === noteId);
+    const existing = notes[index];
+    if (existing == null) return undefined;
+    const updated = { ...existing, ...request, updated_at: new Date().toISOString() };
+    notes[index] = updated;
+    if (updated.is_private) {
+      this.mentions = this.mentions.filter((mention) => mention.note_id !== noteId);
+    }
+    return this.withScanResults(updated);
+  }
+
+  delete(transactionId: string, noteId: string): boolean {
+    const notes = this.notesFor(transactionId);
+    const index = notes.findIndex((n) => n.id === noteId);
+    if (index === -1) return false;
+    const [removed] = notes.splice(index, 1);
+    this.mentions = this.mentions.filter((mention) => mention.note_id !== noteId);
+    for (const attachment of removed?.attachments ?? []) {
+      if (attachment.attachment_id != null) this.files.delete(attachment.attachment_id);
+    }
+    return true;
+  }
+
+  /**
+   * Records a mention of each user not already mentioned in the note, so
+   * editing a note only notifies the users it newly mentions. Private notes
+   * mention nobody: the excerpt would show their text to others.
+   */
+  recordMentions(note: AnalystNote, userIds: string[], author: NoteAuthor): NoteMention[] {
+    if (note.is_private) return [];
+    const alreadyMentioned = new Set(
+      this.mentions.filter((m) => m.note_id === note.id).map((m) => m.mentioned_user_id)
+    );
+    const content = note.note_content.trim();
+    const excerpt =
+      content.length > MENTION_EXCERPT_LENGTH
+        ? `${content.slice(0, MENTION_EXCERPT_LENGTH).trimEnd()}…`
+        : content;
+    const created = [...new Set(userIds)]
+      .filter((userId) => !alreadyMentioned.has(userId))
+      .map(
+        (userId): NoteMention => ({
+          mention_id: this.nextId("mention"),
+          note_id: note.id,
+          transaction_id: note.transaction_id,
+          mentioned_user_id: userId,
+          mentioned_by_id: author.user_id,
+          mentioned_by_name: author.display_name,
+          excerpt,
+          created_at: new Date().toISOString(),
+        })
+      );
+    this.mentions.push(...created);
+    return created;
+  }
+
+  /** Mentions of a user, newest first */
+  mentionsFor(userId: string): NoteMention[] {
+    return this.mentions.filter((m) => m.mentioned_user_id === userId).reverse();
+  }
+
+  addAttachment(
+    transactionId: string,
+    noteId: string,
+    file: { name: string; type: string; size: number; content: Blob }
+  ): NoteAttachment | undefined {
+    const note = this.notesFor(transactionId).find((n) => n.id === noteId);
+    if (note == null) return undefined;
+    const attachmentId = this.nextId("att");
+    const attachment: NoteAttachment = {
+      attachment_id: attachmentId,
+      name: file.name,
+      s3_key: `notes/${transactionId}/${noteId}/${attachmentId}/${file.name}`,
+      content_type: file.type,
+      size_bytes: file.size,
+      uploaded_at: new Date().toISOString(),
+    };
+    note.attachments = [...(note.attachments ?? []), attachment];
+    this.files.set(attachmentId, { attachment, note_id: noteId, content: file.content });
+    return { ...attachment, scan_status: this.scanStatus(attachment, Date.now()) };
+  }
+
+  /** The stored file, or undefined when it does not belong to the note */
+  getAttachment(
+    noteId: string,
+    attachmentId: string
+  ): { attachment: NoteAttachment; content: Blob } | undefined {
+    const stored = this.files.get(attachmentId);
+    if (stored?.note_id !== noteId) return undefined;
+    return {
+      attachment: {
+        ...stored.attachment,
+        scan_status: this.scanStatus(stored.attachment, Date.now()),
+      },
+      content: stored.content,
+    };
+  }
+
+  removeAttachment(transactionId: string, noteId: string, attachmentId: string): boolean {
+    const note = this.notesFor(transactionId).find((n) => n.id === noteId);
+    const attachments = note?.attachments ?? [];
+    if (note == null || !attachments.some((a) => a.attachment_id === attachmentId)) return false;
+    note.attachments = attachments.filter((a) => a.attachment_id !== attachmentId);
+    this.files.delete(attachmentId);
+    return true;
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Mock data store for in-app notifications
+ *
+ * Handlers call `notify` when something happens that another analyst should
+ * know about. Notifications of a type the recipient has turned off are
+ * dropped; the rest are published to subscribers of the notification event
+ * stream. Each mock user starts with a few notifications so the bell is not
+ * empty.
+ */
+
+import type {
+  AppNotification,
+  NotificationListResponse,
+  NotificationPreferences,
+  NotificationType,
+} from "../../types/notification";
+
+export type NotificationInput = Pick<
+  AppNotification,
+  "type" | "title" | "message" | "link" | "actor_id" | "actor_name"
+>;
+
+interface StoredNotification extends AppNotification {
+  user_id: string;
+}
+
+type NotificationListener = (userId: string, notification: AppNotification) => void;
+
+const DEFAULT_PREFERENCES: NotificationPreferences = {
+  REVIEW_ASSIGNED: true,
+  REVIEW_ESCALATED: true,
+  APPROVAL_REQUESTED: true,
+  SUBMISSION_REJECTED: true,
+  CRITICAL_RECOMMENDATION: true,
+  NOTE_MENTION: true,
+};
+
+const hoursAgo = (hours: number): string => new Date(Date.now() - hours * 3600_000).toISOString();
+
+function seedNotifications(): StoredNotification[] {
+  const seed = (
+    id: string,
+    userId: string,
+    notification: NotificationInput,
+    createdAt: string,
+    read = false
+  ): StoredNotification => ({
+    ...notification,
+    notification_id: id,
+    user_id: userId,
+    read_at: read ? createdAt : null,
+    created_at: createdAt,
+  });
+
+  return [
+    seed(
+      "notif_seed_001",
+      "user_maker_1",
+      {
+        type: "CRITICAL_RECOMMENDATION",
+        title: "Critical recommendation: Prioritize for manual review",
+        message: "High velocity pattern on txn_001",
+        link: "/transactions/show/txn_001",
+        actor_id: null,
+        actor_name: null,
+      },
+      hoursAgo(1)
+    ),
+    seed(
+      "notif_seed_002",
+      "user_maker_1",
+      {
+        type: "SUBMISSION_REJECTED",
+        title: "Rule rule_006 was rejected",
+        message: "Threshold too aggressive for card-present traffic",
+        link: "/approvals",
+        actor_id: "user_checker_1",
+        actor_name: "Bob Checker",
+      },
+      hoursAgo(5)
+    ),
+    seed(
+      "notif_seed_003",
+      "user_maker_1",
+      {
+        type: "REVIEW_ASSIGNED",
+        title: "txn_003 was assigned to you",
+        message: null,
+        link: "/transactions/show/txn_003",
+        actor_id: "user_maker_2",
+        actor_name: "Jane Maker",
+      },
+      hoursAgo(26),
+      true
+    ),
+    seed(
+      "notif_seed_004",
+      "user_checker_1",
+      {
+        type: "APPROVAL_REQUESTED",
+        title: "Rule rule_006 is waiting for approval",
+        message: "Submitted by John Maker",
+        link: "/approvals",
+        actor_id: "user_maker_1",
+        actor_name: "John Maker",
+      },
+      hoursAgo(2)
+    ),
+    seed(
+      "notif_seed_005",
+      "user_checker_1",
+      {
+        type: "REVIEW_ESCALATED",
+        title: "txn_002 was escalated to you",
+        message: "Customer disputes the chargeback",
+        link: "/transactions/show/txn_002",
+        actor_id: "user_maker_2",
+        actor_name: "Jane Maker",
+      },
+      hoursAgo(3)
+    ),
+  ];
+}
+
+const toNotification = ({
+  user_id: _userId,
+  ...notification
+}: StoredNotification): AppNotification => notification;
+
+export class NotificationStore {
+  private notifications: StoredNotification[] = seedNotifications();
+  private preferences = new Map<string, NotificationPreferences>();
+  private listeners = new Set<NotificationListener>();
+  private sequence = 0;
+
+  /** Newest first */
+  list(userId: string, { unreadOnly = false, limit = 50 } = {}): NotificationListResponse {
+    const own = this.notifications
+      .filter((n) => n.user_id === userId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+    return {
+      items: own
+        .filter((n) => !unreadOnly || n.read_at == null)
+        .slice(0, limit)
+        .map(toNotification),
+      unread_count: own.filter((n) => n.read_at == null).length,
+    };
+  }
+
+  /** Creates a notification unless the recipient has turned its type off */
+  notify(userId: string, input: NotificationInput): AppNotification | null {
+    if (!this.getPreferences(userId)[input.type]) return null;
+    this.sequence += 1;
+    const stored: StoredNotification = {
+      ...input,
+      notification_id: `notif_${Date.now()}_${this.sequence}`,
+      user_id: userId,
+      read_at: null,
+      created_at: new Date().toISOString(),
+    };
+    this.notifications.push(stored);
+    const notification = toNotification(stored);
+    this.listeners.forEach((listener) => listener(userId, notification));
+    return notification;
+  }
+
+  markRead(userId: string, notificationId: string): AppNotification | undefined {
+    const stored = this.notifications.find(
+      (n) => n.notification_id === notificationId && n.user_id === userId
+    );
+    if (stored == null) return undefined;
+    if (stored.read_at == null) stored.read_at = new Date().toISOString();
+    return toNotification(stored);
+  }
+
+  /** Returns how many notifications were unread */
+  markAllRead(userId: string): number {
+    const now = new Date().toISOString();
+    const unread = this.notifications.filter((n) => n.user_id === userId && n.read_at == null);
+    unread.forEach((n) => {
+      n.read_at = now;
+    });
+    return unread.length;
+  }
+
+  getPreferences(userId: string): NotificationPreferences {
+    return { ...DEFAULT_PREFERENCES, ...this.preferences.get(userId) };
+  }
+
+  setPreferences(
+    userId: string,
+    changes: Partial<Record<NotificationType, boolean>>
+  ): NotificationPreferences {
+    const updated = { ...this.getPreferences(userId), ...changes };
+    this.preferences.set(userId, updated);
+    return updated;
+  }
+
+  subscribe(listener: NotificationListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+/**
+ * Formats a notification as a `text/event-stream` frame
+ */
+export function formatNotificationFrame(notification: AppNotification): string {
+  return `id: ${notification.notification_id}\nevent: ${notification.type}\ndata: ${JSON.stringify(notification)}\n\n`;
+}
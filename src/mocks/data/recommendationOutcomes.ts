@@ -0,0 +1,69 @@
+/**
+ * Mock data generator for Ops Analyst recommendation outcomes
+ *
+ * Deterministic: agentic runs are accepted more often than deterministic
+ * ones, and severe insights end in confirmed fraud more often than mild ones.
+ */
+
+import type {
+  OpsAgentModelMode,
+  OpsAgentRecommendationStatus,
+  OpsAgentRecommendationType,
+  OpsAgentSeverity,
+  RecommendationOutcome,
+} from "../../types/opsAnalyst";
+import type { ResolutionCode } from "../../types/review";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const MODEL_MODES: OpsAgentModelMode[] = ["agentic", "hybrid", "deterministic"];
+const TYPES: OpsAgentRecommendationType[] = ["review_priority", "case_action", "rule_candidate"];
+const SEVERITIES: OpsAgentSeverity[] = ["LOW", "MEDIUM", "HIGH", "CRITICAL"];
+
+const ACCEPTANCE_BY_MODE: Record<OpsAgentModelMode, number> = {
+  agentic: 0.8,
+  hybrid: 0.65,
+  deterministic: 0.45,
+};
+
+/** Stable pseudo-random value in [0, 1) for an index */
+function spread(index: number, salt: number): number {
+  return ((index * 37 + salt * 11) % 100) / 100;
+}
+
+function statusFor(index: number, mode: OpsAgentModelMode): OpsAgentRecommendationStatus {
+  if (index % 7 === 0) return "OPEN";
+  if (spread(index, 1) >= ACCEPTANCE_BY_MODE[mode]) return "REJECTED";
+  return index % 9 === 0 ? "EXPORTED" : "ACKNOWLEDGED";
+}
+
+function resolutionFor(index: number, severity: OpsAgentSeverity): ResolutionCode | null {
+  if (index % 5 === 0) return null;
+  if (index % 11 === 0) return "DUPLICATE";
+  const fraudLikelihood = severity === "HIGH" || severity === "CRITICAL" ? 0.75 : 0.3;
+  if (spread(index, 2) < fraudLikelihood) return "FRAUD_CONFIRMED";
+  return index % 2 === 0 ? "FALSE_POSITIVE" : "LEGITIMATE";
+}
+
+/**
+ * One outcome every twelve hours over the last 45 days, newest first
+ */
+export function buildRecommendationOutcomes(now: number = Date.now()): RecommendationOutcome[] {
+  return Array.from({ length: 90 }, (_, i) => {
+    const modelMode = MODEL_MODES[i % MODEL_MODES.length] ?? "hybrid";
+    const severity = SEVERITIES[i % SEVERITIES.length] ?? "MEDIUM";
+    const status = statusFor(i, modelMode);
+    const createdAt = now - (i * 12 + 1) * HOUR_MS;
+    return {
+      recommendation_id: `rec-outcome-${String(i + 1).padStart(3, "0")}`,
+      type: TYPES[Math.floor(i / 3) % TYPES.length] ?? "review_priority",
+      status,
+      severity,
+      model_mode: modelMode,
+      transaction_id: `txn-outcome-${String(i + 1).padStart(3, "0")}`,
+      resolution_code: resolutionFor(i, severity),
+      created_at: new Date(createdAt).toISOString(),
+      acknowledged_at: status === "OPEN" ? null : new Date(createdAt + 2 * HOUR_MS).toISOString(),
+    };
+  });
+}
@@ -0,0 +1,81 @@
+/**
+ * Mock data generator for Ops Analyst rule drafts
+ */
+
+import type {
+  RuleDraftExportResponse,
+  RuleDraftPayload,
+  RuleDraftResponse,
+} from "../../types/opsAnalyst";
+
+/**
+ * Draft payloads the agent proposes for rule_candidate recommendations
+ */
+export const mockRuleCandidatePayloads: Record<string, RuleDraftPayload> = {
+  "rec-mock-002": {
+    rule_name: "Card testing: low-value burst",
+    rule_type: "BLOCKLIST",
+    priority: 50,
+    logic: "AND",
+    conditions: [
+      { field: "AMOUNT", operator: ">=", value: 1 },
+      { field: "AMOUNT", operator: "<=", value: 5 },
+      {
+        logic: "OR",
+        conditions: [
+          { field: "MCC", operator: "in", value: ["5816", "5967"] },
+          { field: "IS_CROSS_BORDER", operator: "==", value: true },
+        ],
+      },
+    ],
+    rationale: "42 cards saw three or more $1–$5 authorizations within ten minutes this week.",
+  },
+};
+
+export class RuleDraftStore {
+  private drafts = new Map<string, RuleDraftResponse>();
+  private exports = new Map<string, RuleDraftExportResponse>();
+  private sequence = 0;
+
+  /**
+   * Returns null when the recommendation has no draft payload
+   */
+  create(recommendationId: string): RuleDraftResponse | null {
+    const payload = mockRuleCandidatePayloads[recommendationId];
+    if (payload == null) return null;
+
+    this.sequence += 1;
+    const draft: RuleDraftResponse = {
+      draft_id: `draft-mock-${String(this.sequence).padStart(3, "0")}`,
+      recommendation_id: recommendationId,
+      payload,
+      created_at: new Date().toISOString(),
+    };
+    this.drafts.set(draft.draft_id, draft);
+    return draft;
+  }
+
+  export(draftId: string, ruleId: string): RuleDraftExportResponse | null {
+    const draft = this.drafts.get(draftId);
+    if (draft == null) return null;
+
+    const result: RuleDraftExportResponse = {
+      draft_id: draftId,
+      recommendation_id: draft.recommendation_id,
+      recommendation_status: "EXPORTED",
+      rule_id: ruleId,
+      exported_at: new Date().toISOString(),
+    };
+    this.exports.set(draft.recommendation_id, result);
+    return result;
+  }
+
+  /**
+   * Applies a recorded export to a recommendation from the list
+   */
+  withExportStatus<T extends { recommendation_id: string; status: string }>(recommendation: T): T {
+    const exported = this.exports.get(recommendation.recommendation_id);
+    if (exported == null) return recommendation;
+    return { ...recommendation, status: "EXPORTED", exported_rule_id: exported.rule_id } as T;
+  }
+}
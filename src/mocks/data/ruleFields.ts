@@ -4,6 +4,7 @@
 
 import { RuleField, RuleFieldMetadata } from "../../types/domain";
 import { DataType, Operator } from "../../types/enums";
+import type { FieldRegistryManifest } from "../../types/fieldDefinitions";
 
 /**
  * Generate mock RuleField data
@@ -259,12 +260,70 @@ export const mockRuleFieldMetadata: RuleFieldMetadata[] = [
   },
 ];
 
+/**
+ * Published field registry versions. A version contains every field created
+ * on or before its publication, as it looked then; checksums are computed
+ * with `computeRegistryChecksum`.
+ */
+export const mockFieldRegistryManifests: FieldRegistryManifest[] = [
+  {
+    manifest_id: "manifest_001",
+    registry_version: 1,
+    artifact_uri: "s3://fraud-rule-registry/field-registry/v1.json",
+    checksum: "sha256:9d4ace971c1fd15112395a418abbd295f4b75b67581f7c5da80250f47670773e",
+    field_count: 10,
+    created_by: "admin@example.com",
+    created_at: "2024-01-15T12:00:00Z",
+  },
+  {
+    manifest_id: "manifest_002",
+    registry_version: 2,
+    artifact_uri: "s3://fraud-rule-registry/field-registry/v2.json",
+    checksum: "sha256:1782b5b678d47a44f0a42953710de397d836c6f0897da8700216e64e6c5ab0cc",
+    field_count: 13,
+    created_by: "admin@example.com",
+    created_at: "2024-01-16T12:00:00Z",
+  },
+  {
+    manifest_id: "manifest_003",
+    registry_version: 3,
+    artifact_uri: "s3://fraud-rule-registry/field-registry/v3.json",
+    checksum: "sha256:e9bd39227b42da8da8822419d1cddcdd06e550bf6b2c64341ce96fffc4b46903",
+    field_count: 15,
+    created_by: "admin@example.com",
+    created_at: "2024-01-17T12:00:00Z",
+  },
+];
+
+/**
+ * How fields looked in older registry versions, where they differ from
+ * today's definitions
+ */
+const mockRegistryFieldHistory: Record<number, Record<string, Partial<RuleField>>> = {
+  1: {
+    MCC: { allowed_operators: [Operator.EQ, Operator.IN] },
+    CARD_SCHEME: { data_type: DataType.STRING },
+    CARDHOLDER_EMAIL: { is_sensitive: false },
+  },
+  2: {
+    MCC: { allowed_operators: [Operator.EQ, Operator.NE, Operator.IN] },
+  },
+  3: {
+    RISK_SCORE: {
+      allowed_operators: [Operator.EQ, Operator.GT, Operator.GTE, Operator.LT, Operator.LTE],
+    },
+  },
+};
+
 /**
  * In-memory storage for RuleFields
  */
 export class RuleFieldStore {
   private fields: Map<string, RuleField>;
   private metadata: Map<string, Map<string, RuleFieldMetadata>>;
+  private manifests: FieldRegistryManifest[];
+  /** Published registries are immutable, so each version keeps its own copy of the fields */
+  private registryFields: Map<number, RuleField[]>;
 
   constructor() {
     this.fields = new Map(mockRuleFields.map((f) => [f.field_key, f]));
@@ -277,6 +336,17 @@ export class RuleFieldStore {
       }
       this.metadata.get(meta.field_key)!.set(meta.meta_key, meta);
     });
+
+    this.manifests = [...mockFieldRegistryManifests];
+    this.registryFields = new Map(
+      this.manifests.map((manifest) => {
+        const history = mockRegistryFieldHistory[manifest.registry_version] ?? {};
+        const fields = mockRuleFields
+          .filter((f) => f.created_at <= manifest.created_at)
+          .map((f) => ({ ...f, ...history[f.field_key] }));
+        return [manifest.registry_version, fields];
+      })
+    );
   }
 
   getAll(): RuleField[] {
@@ -333,6 +403,45 @@ export class RuleFieldStore {
     return meta;
   }
 
+  getRegistryManifests(): FieldRegistryManifest[] {
+    return [...this.manifests];
+  }
+
+  getLatestRegistryManifest(): FieldRegistryManifest {
+    return this.manifests[this.manifests.length - 1]!;
+  }
+
+  getRegistryManifest(registryVersion: number): FieldRegistryManifest | null {
+    return this.manifests.find((m) => m.registry_version === registryVersion) ?? null;
+  }
+
+  /**
+   * Fields published in a registry version, or null for an unknown version
+   */
+  getRegistryFields(registryVersion: number): RuleField[] | null {
+    return this.registryFields.get(registryVersion) ?? null;
+  }
+
+  /**
+   * Publishes the current fields as the next registry version
+   */
+  publishRegistry(checksum: string, createdBy: string): FieldRegistryManifest {
+    const registryVersion = this.getLatestRegistryManifest().registry_version + 1;
+    const fields = this.getAll().map((f) => ({ ...f }));
+    const manifest: FieldRegistryManifest = {
+      manifest_id: `manifest_${String(registryVersion).padStart(3, "0")}`,
+      registry_version: registryVersion,
+      artifact_uri: `s3://fraud-rule-registry/field-registry/v${registryVersion}.json`,
+      checksum,
+      field_count: fields.length,
+      created_by: createdBy,
+      created_at: new Date().toISOString(),
+    };
+    this.manifests.push(manifest);
+    this.registryFields.set(registryVersion, fields);
+    return manifest;
+  }
+
   deleteMetadata(fieldKey: string, metaKey: string): boolean {
     const metaMap = this.metadata.get(fieldKey);
     return metaMap ? metaMap.delete(metaKey) : false;
@@ -0,0 +1,229 @@
+/**
+ * Mock data generator for RuleSet versions
+ *
+ * Each mock ruleset gets a version mirroring its current state, plus a few
+ * superseded and scheduled versions so the activation timeline, rollback and
+ * scheduling calendar have something to show.
+ */
+
+import type { RollbackRuleSetVersionResponse, RuleSetVersionResponse } from "../../api/types";
+import { RuleSetStatus } from "../../types/enums";
+import { findRollbackTarget } from "../../shared/utils/ruleSetActivationTimeline";
+import { mockRuleSetRules, mockRuleSets } from "./ruleSets";
+import { mockRules, mockRuleVersions } from "./rules";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function ruleVersionsFor(rulesetId: string): RuleSetVersionResponse["rule_versions"] {
+  return mockRuleSetRules
+    .filter((assoc) => assoc.ruleset_id === rulesetId)
+    .map((assoc) => mockRuleVersions.find((v) => v.rule_version_id === assoc.rule_version_id))
+    .filter((v) => v !== undefined)
+    .map((v) => {
+      const rule = mockRules.find((r) => r.rule_id === v.rule_id);
+      return {
+        rule_version_id: v.rule_version_id,
+        rule_id: v.rule_id,
+        version: v.version,
+        rule_name: rule?.rule_name ?? v.rule_id,
+        rule_type: rule?.rule_type ?? "",
+        priority: v.priority,
+        scope: v.scope,
+        status: v.status,
+      };
+    });
+}
+
+/**
+ * Upcoming activation at a fixed hour a few days from now, so the seed data
+ * always lands in the future
+ */
+function daysFromNow(days: number, hourUtc: number): string {
+  const date = new Date(Date.now() + days * DAY_MS);
+  date.setUTCHours(hourUtc, 0, 0, 0);
+  return date.toISOString();
+}
+
+function historicalVersion(
+  rulesetId: string,
+  version: number,
+  activatedAt: string
+): RuleSetVersionResponse {
+  return {
+    ruleset_version_id: `rsv_${rulesetId}_v${version}`,
+    ruleset_id: rulesetId,
+    version,
+    status: RuleSetStatus.SUPERSEDED,
+    created_by: "alice@example.com",
+    created_at: activatedAt,
+    approved_by: "bob@example.com",
+    approved_at: activatedAt,
+    activated_at: activatedAt,
+    activations: [activatedAt],
+    rule_versions: ruleVersionsFor(rulesetId),
+  };
+}
+
+function scheduledVersion(
+  rulesetId: string,
+  version: number,
+  activateAt: string
+): RuleSetVersionResponse {
+  return {
+    ruleset_version_id: `rsv_${rulesetId}_v${version}`,
+    ruleset_id: rulesetId,
+    version,
+    status: RuleSetStatus.APPROVED,
+    created_by: "alice@example.com",
+    created_at: "2024-12-10T10:00:00Z",
+    approved_by: "bob@example.com",
+    approved_at: "2024-12-11T10:00:00Z",
+    activated_at: null,
+    activations: [],
+    scheduled_activation_at: activateAt,
+    scheduled_by: "carol@example.com",
+    rule_versions: ruleVersionsFor(rulesetId),
+  };
+}
+
+export function generateMockRuleSetVersions(): RuleSetVersionResponse[] {
+  const current = mockRuleSets.map<RuleSetVersionResponse>((rs) => ({
+    ruleset_version_id: `rsv_${rs.ruleset_id}_v${rs.version}`,
+    ruleset_id: rs.ruleset_id,
+    version: rs.version,
+    status: rs.status,
+    created_by: rs.created_by,
+    created_at: rs.created_at,
+    approved_by: rs.approved_by,
+    approved_at: rs.approved_at,
+    activated_at: rs.activated_at,
+    activations: rs.activated_at == null ? [] : [rs.activated_at],
+    scheduled_activation_at: null,
+    scheduled_by: null,
+    rule_versions: ruleVersionsFor(rs.ruleset_id),
+  }));
+
+  return [
+    ...current,
+    historicalVersion("rs_001", 1, "2024-09-02T10:00:00Z"),
+    historicalVersion("rs_001", 2, "2024-10-01T10:00:00Z"),
+    scheduledVersion("rs_001", 4, daysFromNow(3, 2)),
+    historicalVersion("rs_002", 1, "2024-10-15T10:00:00Z"),
+    scheduledVersion("rs_009", 5, daysFromNow(6, 3)),
+  ];
+}
+
+/**
+ * In-memory storage for RuleSet versions
+ */
+export class RuleSetVersionStore {
+  private versions: Map<string, RuleSetVersionResponse>;
+
+  constructor() {
+    this.versions = new Map(generateMockRuleSetVersions().map((v) => [v.ruleset_version_id, v]));
+  }
+
+  getAll(): RuleSetVersionResponse[] {
+    return Array.from(this.versions.values());
+  }
+
+  getById(rulesetVersionId: string): RuleSetVersionResponse | undefined {
+    return this.versions.get(rulesetVersionId);
+  }
+
+  getByRuleSet(rulesetId: string): RuleSetVersionResponse[] {
+    return this.getAll().filter((v) => v.ruleset_id === rulesetId);
+  }
+
+  getScheduled(): RuleSetVersionResponse[] {
+    return this.getAll()
+      .filter((v) => v.scheduled_activation_at != null)
+      .sort((a, b) =>
+        String(a.scheduled_activation_at).localeCompare(String(b.scheduled_activation_at))
+      );
+  }
+
+  schedule(
+    rulesetVersionId: string,
+    activateAt: string,
+    scheduledBy: string
+  ): RuleSetVersionResponse | null {
+    const existing = this.versions.get(rulesetVersionId);
+    if (!existing) return null;
+
+    const updated = { ...existing, scheduled_activation_at: activateAt, scheduled_by: scheduledBy };
+    this.versions.set(rulesetVersionId, updated);
+    return updated;
+  }
+
+  cancelSchedule(rulesetVersionId: string): RuleSetVersionResponse | null {
+    const existing = this.versions.get(rulesetVersionId);
+    if (existing?.scheduled_activation_at == null) return null;
+
+    const updated = { ...existing, scheduled_activation_at: null, scheduled_by: null };
+    this.versions.set(rulesetVersionId, updated);
+    return updated;
+  }
+
+  /**
+   * Makes a version ACTIVE and supersedes whichever version of the same
+   * ruleset was ACTIVE before; each activation is recorded separately so a
+   * rollback does not rewrite the version's earlier activations
+   */
+  activate(rulesetVersionId: string, activatedAt: string): RuleSetVersionResponse | null {
+    const existing = this.versions.get(rulesetVersionId);
+    if (!existing) return null;
+
+    for (const version of this.getByRuleSet(existing.ruleset_id)) {
+      if (version.status === RuleSetStatus.ACTIVE) {
+        this.versions.set(version.ruleset_version_id, {
+          ...version,
+          status: RuleSetStatus.SUPERSEDED,
+        });
+      }
+    }
+
+    const activated: RuleSetVersionResponse = {
+      ...existing,
+      status: RuleSetStatus.ACTIVE,
+      activated_at: activatedAt,
+      activations: [...(existing.activations ?? []), activatedAt],
+      scheduled_activation_at: null,
+      scheduled_by: null,
+    };
+    this.versions.set(rulesetVersionId, activated);
+    return activated;
+  }
+
+  /**
+   * Activates every scheduled version whose time has come
+   */
+  applyDueActivations(now: Date = new Date()): void {
+    for (const version of this.getScheduled()) {
+      const activateAt = version.scheduled_activation_at as string;
+      if (Date.parse(activateAt) <= now.getTime()) {
+        this.activate(version.ruleset_version_id, activateAt);
+      }
+    }
+  }
+
+  /**
+   * Re-activates the version that was ACTIVE before the given one; the
+   * re-activated version keeps its original approval
+   */
+  rollback(
+    rulesetVersionId: string,
+    now: Date = new Date()
+  ): RollbackRuleSetVersionResponse | null {
+    const current = this.versions.get(rulesetVersionId);
+    if (current?.status !== RuleSetStatus.ACTIVE) return null;
+
+    const target = findRollbackTarget(this.getByRuleSet(current.ruleset_id));
+    if (target == null) return null;
+
+    const activated = this.activate(target.ruleset_version_id, now.toISOString());
+    const superseded = this.versions.get(rulesetVersionId);
+    if (activated == null || superseded == null) return null;
+    return { activated, superseded };
+  }
+}
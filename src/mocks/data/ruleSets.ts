@@ -2,9 +2,16 @@
  * Mock data generator for RuleSets
  */
 
-import { RuleSet, RuleSetRule, RuleSetWithRules, CompiledAST } from "../../types/domain";
+import {
+  RuleSet,
+  RuleSetPromotion,
+  RuleSetRule,
+  RuleSetWithRules,
+  CompiledAST,
+} from "../../types/domain";
 import { RuleType, RuleSetStatus, Operator, RulesetEnvironment } from "../../types/enums";
 import { mockRuleVersions } from "./rules";
+import { mockFieldRegistryManifests } from "./ruleFields";
 
 /**
  * Generate mock RuleSets
@@ -24,6 +31,7 @@ export const mockRuleSets: RuleSet[] = [
       version: 3,
       ruleType: RuleType.BLOCKLIST,
       evaluation: { mode: "FIRST_MATCH" },
+      registryVersion: 3,
       rules: [
         {
           ruleId: "rule_001",
@@ -55,6 +63,7 @@ export const mockRuleSets: RuleSet[] = [
       version: 2,
       ruleType: RuleType.ALLOWLIST,
       evaluation: { mode: "FIRST_MATCH" },
+      registryVersion: 2,
       rules: [
         {
           ruleId: "rule_002",
@@ -86,6 +95,7 @@ export const mockRuleSets: RuleSet[] = [
       version: 1,
       ruleType: RuleType.AUTH,
       evaluation: { mode: "FIRST_MATCH" },
+      registryVersion: 1,
       rules: [
         {
           ruleId: "rule_004",
@@ -117,6 +127,7 @@ export const mockRuleSets: RuleSet[] = [
       version: 2,
       ruleType: RuleType.MONITORING,
       evaluation: { mode: "ALL_MATCHING" },
+      registryVersion: 3,
       rules: [
         {
           ruleId: "rule_005",
@@ -202,6 +213,7 @@ export const mockRuleSets: RuleSet[] = [
       version: 2,
       ruleType: RuleType.BLOCKLIST,
       evaluation: { mode: "FIRST_MATCH" },
+      registryVersion: 3,
       rules: [
         {
           ruleId: "rule_003",
@@ -219,6 +231,56 @@ export const mockRuleSets: RuleSet[] = [
     approved_at: "2024-11-20T15:00:00Z",
     activated_at: "2024-11-21T10:00:00Z",
   },
+  {
+    ruleset_id: "rs_009",
+    name: "India High Value Blocking",
+    description: "Block transactions over $5000 in India",
+    rule_type: RuleType.BLOCKLIST,
+    environment: RulesetEnvironment.TEST,
+    region: "INDIA",
+    country: "IN",
+    version: 4,
+    compiled_ast: {
+      rulesetId: "rs_009",
+      version: 4,
+      ruleType: RuleType.BLOCKLIST,
+      evaluation: { mode: "FIRST_MATCH" },
+      registryVersion: 3,
+      rules: [
+        {
+          ruleId: "rule_001",
+          priority: 10,
+          when: { and: [{ field: "AMOUNT", op: Operator.GT, value: 5000 }] },
+          action: "BLOCK",
+        },
+      ],
+    },
+    status: RuleSetStatus.ACTIVE,
+    created_by: "alice@example.com",
+    approved_by: "bob@example.com",
+    created_at: "2024-12-02T10:00:00Z",
+    updated_at: "2024-12-04T15:00:00Z",
+    approved_at: "2024-12-04T15:00:00Z",
+    activated_at: "2024-12-05T10:00:00Z",
+  },
+  {
+    ruleset_id: "rs_010",
+    name: "Pre-Auth Review Rules",
+    description: "Review transactions over $1000",
+    rule_type: RuleType.AUTH,
+    environment: RulesetEnvironment.LOCAL,
+    region: "GLOBAL",
+    country: "GLOBAL",
+    version: 1,
+    compiled_ast: null,
+    status: RuleSetStatus.ACTIVE,
+    created_by: "alice@example.com",
+    approved_by: "bob@example.com",
+    created_at: "2024-12-06T10:00:00Z",
+    updated_at: "2024-12-07T15:00:00Z",
+    approved_at: "2024-12-07T15:00:00Z",
+    activated_at: "2024-12-07T16:00:00Z",
+  },
 ];
 
 /**
@@ -236,6 +298,9 @@ export const mockRuleSetRules: RuleSetRule[] = [
   { ruleset_id: "rs_006", rule_version_id: "rv_007_v1" },
   { ruleset_id: "rs_007", rule_version_id: "rv_002_v2" },
   { ruleset_id: "rs_008", rule_version_id: "rv_003_v1" },
+  { ruleset_id: "rs_009", rule_version_id: "rv_001_v3" },
+  { ruleset_id: "rs_010", rule_version_id: "rv_004_v1" },
+  { ruleset_id: "rs_010", rule_version_id: "rv_009_v1" },
 ];
 
 /**
@@ -244,6 +309,7 @@ export const mockRuleSetRules: RuleSetRule[] = [
 export class RuleSetStore {
   private ruleSets: Map<string, RuleSet>;
   private ruleSetRules: Map<string, Set<string>>;
+  private promotions: Omit<RuleSetPromotion, "target_status">[];
 
   constructor() {
     this.ruleSets = new Map(mockRuleSets.map((rs) => [rs.ruleset_id, rs]));
@@ -256,6 +322,7 @@ export class RuleSetStore {
       }
       this.ruleSetRules.get(assoc.ruleset_id)!.add(assoc.rule_version_id);
     });
+    this.promotions = [];
   }
 
   getAll(): RuleSet[] {
@@ -348,6 +415,8 @@ export class RuleSetStore {
       evaluation: {
         mode: ruleSet.rule_type === RuleType.MONITORING ? "ALL_MATCHING" : "FIRST_MATCH",
       },
+      registryVersion:
+        mockFieldRegistryManifests[mockFieldRegistryManifests.length - 1]?.registry_version,
       rules: rules.map((rule) => ({
         ruleId: rule.rule_id,
         priority: rule.priority,
@@ -361,6 +430,86 @@ export class RuleSetStore {
     return updated;
   }
 
+  /**
+   * Ruleset ACTIVE in an environment for the same rule type and geography
+   */
+  findActive(environment: RulesetEnvironment, like: RuleSet): RuleSet | undefined {
+    return this.getAll().find(
+      (rs) =>
+        rs.environment === environment &&
+        rs.status === RuleSetStatus.ACTIVE &&
+        rs.rule_type === like.rule_type &&
+        rs.region === like.region &&
+        rs.country === like.country
+    );
+  }
+
+  /**
+   * Clones a ruleset into another environment as a DRAFT with the same rule versions
+   */
+  promote(
+    rulesetId: string,
+    targetEnvironment: RulesetEnvironment,
+    promotedBy: string
+  ): { promotion: RuleSetPromotion; ruleset: RuleSet } | null {
+    const source = this.ruleSets.get(rulesetId);
+    if (!source) return null;
+
+    const replaces = this.findActive(targetEnvironment, source);
+    const ruleVersionIds = this.getRules(rulesetId);
+    const now = new Date().toISOString();
+    const sequence = this.promotions.length + 1;
+
+    const ruleset = this.create({
+      ruleset_id: `rs_${Date.now()}_${sequence}`,
+      name: source.name,
+      description: source.description,
+      rule_type: source.rule_type,
+      environment: targetEnvironment,
+      region: source.region,
+      country: source.country,
+      compiled_ast: null,
+      status: RuleSetStatus.DRAFT,
+      created_by: promotedBy,
+      approved_by: null,
+      created_at: now,
+      updated_at: now,
+      approved_at: null,
+      activated_at: null,
+    });
+    ruleset.version = (replaces?.version ?? 0) + 1;
+    this.ruleSetRules.set(ruleset.ruleset_id, new Set(ruleVersionIds));
+
+    const record: Omit<RuleSetPromotion, "target_status"> = {
+      promotion_id: `promo_${Date.now()}_${sequence}`,
+      source_ruleset_id: source.ruleset_id,
+      source_version: source.version,
+      from_environment: source.environment,
+      target_ruleset_id: ruleset.ruleset_id,
+      to_environment: targetEnvironment,
+      replaces_ruleset_id: replaces?.ruleset_id ?? null,
+      rule_version_ids: ruleVersionIds,
+      promoted_by: promotedBy,
+      promoted_at: now,
+    };
+    this.promotions.push(record);
+
+    return { promotion: { ...record, target_status: ruleset.status }, ruleset };
+  }
+
+  /**
+   * Promotions a ruleset took part in, as source or target, newest first
+   */
+  getPromotions(rulesetId: string): RuleSetPromotion[] {
+    return this.promotions
+      .filter((p) => p.source_ruleset_id === rulesetId || p.target_ruleset_id === rulesetId)
+      .reverse()
+      .map((p) => ({
+        ...p,
+        target_status: this.ruleSets.get(p.target_ruleset_id)?.status ?? RuleSetStatus.DRAFT,
+      }));
+  }
+
   private getActionForRuleType(ruleType: RuleType): "ALLOW" | "BLOCK" | "FLAG" | "REVIEW" {
     switch (ruleType) {
       case RuleType.ALLOWLIST:
@@ -2,7 +2,7 @@
  * Mock data generator for Rules and RuleVersions
  */
 
-import { Rule, RuleVersion, RuleWithVersion } from "../../types/domain";
+import { Rule, RuleTestCase, RuleVersion, RuleWithVersion } from "../../types/domain";
 import { RuleType, RuleStatus, Operator } from "../../types/enums";
 
 /**
@@ -338,16 +338,84 @@ export const mockRuleVersions: RuleVersion[] = [
   },
 ];
 
+export const mockRuleTestCases: RuleTestCase[] = [
+  {
+    test_case_id: "tc_001",
+    rule_version_id: "rv_001_v3",
+    name: "Large cross-border purchase",
+    sample: { AMOUNT: 7500, IS_CROSS_BORDER: true },
+    expected: "MATCH",
+    created_by: "user_maker_1",
+    created_at: "2024-11-10T10:05:00Z",
+  },
+  {
+    test_case_id: "tc_002",
+    rule_version_id: "rv_001_v3",
+    name: "Large domestic purchase",
+    sample: { AMOUNT: 7500, IS_CROSS_BORDER: false },
+    expected: "NO_MATCH",
+    created_by: "user_maker_1",
+    created_at: "2024-11-10T10:06:00Z",
+  },
+  {
+    test_case_id: "tc_003",
+    rule_version_id: "rv_001_v3",
+    name: "Threshold amount is not flagged",
+    sample: { AMOUNT: 5000, IS_CROSS_BORDER: true },
+    expected: "NO_MATCH",
+    created_by: "user_maker_1",
+    created_at: "2024-11-10T10:07:00Z",
+  },
+  {
+    test_case_id: "tc_004",
+    rule_version_id: "rv_005_v2",
+    name: "Card used in four countries",
+    sample: { VELOCITY_DISTINCT_1_HOURS_CARD_NUMBER_COUNTRY: 4, AMOUNT: 250 },
+    expected: "MATCH",
+    created_by: "user_maker_2",
+    created_at: "2024-11-20T10:05:00Z",
+  },
+  {
+    test_case_id: "tc_005",
+    rule_version_id: "rv_005_v2",
+    name: "Single country traveller",
+    sample: { VELOCITY_DISTINCT_1_HOURS_CARD_NUMBER_COUNTRY: 1, AMOUNT: 250 },
+    expected: "NO_MATCH",
+    created_by: "user_maker_2",
+    created_at: "2024-11-20T10:06:00Z",
+  },
+  {
+    test_case_id: "tc_006",
+    rule_version_id: "rv_006_v1",
+    name: "Weekend high-value purchase",
+    sample: { AMOUNT: 15000, TXN_TIME: "Saturday 2024-11-30T22:10:00Z" },
+    expected: "MATCH",
+    created_by: "user_maker_1",
+    created_at: "2024-12-01T10:05:00Z",
+  },
+  {
+    test_case_id: "tc_007",
+    rule_version_id: "rv_006_v1",
+    name: "Weekday high-value purchase",
+    sample: { AMOUNT: 15000, TXN_TIME: "Tuesday 2024-11-26T14:00:00Z" },
+    expected: "NO_MATCH",
+    created_by: "user_maker_1",
+    created_at: "2024-12-01T10:06:00Z",
+  },
+];
+
 /**
  * In-memory storage for Rules and RuleVersions
  */
 export class RuleStore {
   private rules: Map<string, Rule>;
   private versions: Map<string, RuleVersion[]>;
+  private testCases: Map<string, RuleTestCase[]>;
 
   constructor() {
     this.rules = new Map(mockRules.map((r) => [r.rule_id, r]));
     this.versions = new Map();
+    this.testCases = new Map();
 
     // Group versions by rule_id
     mockRuleVersions.forEach((version) => {
@@ -356,6 +424,12 @@ export class RuleStore {
       }
       this.versions.get(version.rule_id)!.push(version);
     });
+
+    mockRuleTestCases.forEach((testCase) => {
+      const cases = this.testCases.get(testCase.rule_version_id) ?? [];
+      cases.push({ ...testCase });
+      this.testCases.set(testCase.rule_version_id, cases);
+    });
   }
 
   getAllRules(): Rule[] {
@@ -416,8 +490,19 @@ export class RuleStore {
     return versions.find((v) => v.rule_version_id === versionId);
   }
 
+  getVersionById(ruleVersionId: string): RuleVersion | undefined {
+    for (const versions of this.versions.values()) {
+      const match = versions.find((v) => v.rule_version_id === ruleVersionId);
+      if (match) return match;
+    }
+    return undefined;
+  }
+
   createVersion(version: Omit<RuleVersion, "created_at" | "version">): RuleVersion {
     const versions = this.versions.get(version.rule_id) || [];
+    const previous = versions.find(
+      (v) => v.version === this.rules.get(version.rule_id)?.current_version
+    );
     const newVersionNumber = Math.max(0, ...versions.map((v) => v.version)) + 1;
 
     const newVersion: RuleVersion = {
@@ -432,6 +517,18 @@ export class RuleStore {
     versions.push(newVersion);
     this.versions.set(version.rule_id, versions);
 
+    // Carry the regression suite forward so it re-runs against the new tree
+    if (previous) {
+      this.testCases.set(
+        newVersion.rule_version_id,
+        this.getTestCases(previous.rule_version_id).map((testCase, index) => ({
+          ...testCase,
+          test_case_id: `${testCase.test_case_id}_${newVersion.rule_version_id}_${index}`,
+          rule_version_id: newVersion.rule_version_id,
+        }))
+      );
+    }
+
     // Update rule's current version
     const rule = this.rules.get(version.rule_id);
     if (rule) {
@@ -441,4 +538,29 @@ export class RuleStore {
 
     return newVersion;
   }
+
+  getTestCases(ruleVersionId: string): RuleTestCase[] {
+    return this.testCases.get(ruleVersionId) || [];
+  }
+
+  createTestCase(testCase: Omit<RuleTestCase, "test_case_id" | "created_at">): RuleTestCase {
+    const newTestCase: RuleTestCase = {
+      ...testCase,
+      test_case_id: `tc_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      created_at: new Date().toISOString(),
+    };
+    this.testCases.set(testCase.rule_version_id, [
+      ...this.getTestCases(testCase.rule_version_id),
+      newTestCase,
+    ]);
+    return newTestCase;
+  }
+
+  deleteTestCase(ruleVersionId: string, testCaseId: string): boolean {
+    const cases = this.getTestCases(ruleVersionId);
+    const remaining = cases.filter((testCase) => testCase.test_case_id !== testCaseId);
+    if (remaining.length === cases.length) return false;
+    this.testCases.set(ruleVersionId, remaining);
+    return true;
+  }
 }
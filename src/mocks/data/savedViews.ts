@@ -0,0 +1,162 @@
+/**
+ * Mock data generator for saved views
+ *
+ * Seeded with team views that match the worklist quick filters. Views are
+ * visible to their owner, and TEAM views to everyone. Pins are per user, so
+ * analysts can pin views that someone else shared.
+ */
+
+import type {
+  SavedView,
+  SavedViewCreateRequest,
+  SavedViewUpdateRequest,
+} from "../../types/savedView";
+
+const SEED_CREATED_AT = "2026-01-10T09:00:00Z";
+
+function seedView(
+  view: Pick<SavedView, "id" | "name" | "description" | "target" | "filters"> & Partial<SavedView>
+): SavedView {
+  return {
+    visibility: "TEAM",
+    pinned: false,
+    owner_id: "user_supervisor_1",
+    owner_name: "Fraud Ops Team",
+    created_at: SEED_CREATED_AT,
+    updated_at: SEED_CREATED_AT,
+    ...view,
+  } as SavedView;
+}
+
+export const mockSavedViews: SavedView[] = [
+  seedView({
+    id: "view-my-queue",
+    name: "Assigned to me",
+    description: "Assigned to me, ready to review.",
+    target: "worklist",
+    filters: { assigned_only: true },
+  }),
+  seedView({
+    id: "view-critical",
+    name: "Critical Priority",
+    description: "P1, highest risk reviews first.",
+    target: "worklist",
+    filters: { priority_filter: 1, risk_level_filter: "CRITICAL" },
+  }),
+  seedView({
+    id: "view-high-risk",
+    name: "High Risk",
+    description: "High risk across all priorities.",
+    target: "worklist",
+    filters: { risk_level_filter: "HIGH" },
+  }),
+  seedView({
+    id: "view-escalated",
+    name: "Escalations",
+    description: "Escalated reviews waiting on action.",
+    target: "worklist",
+    filters: { status: "ESCALATED" },
+  }),
+  seedView({
+    id: "view-large-declines",
+    name: "Large declines this week",
+    description: "Declines of 1,000 or more in the last 7 days.",
+    target: "transactions",
+    filters: { decision: "DECLINE", min_amount: 1000, window_days: 7 },
+  }),
+];
+
+/** Pinned for users who have not changed their pins yet */
+const DEFAULT_PINNED_VIEW_IDS = ["view-my-queue", "view-critical"];
+
+export class SavedViewStore {
+  private views: Map<string, SavedView>;
+  private pins = new Map<string, Set<string>>();
+  private sequence = 0;
+
+  constructor() {
+    this.views = new Map(mockSavedViews.map((view) => [view.id, { ...view }]));
+  }
+
+  private pinsFor(userId: string): Set<string> {
+    let pins = this.pins.get(userId);
+    if (pins == null) {
+      pins = new Set(DEFAULT_PINNED_VIEW_IDS);
+      this.pins.set(userId, pins);
+    }
+    return pins;
+  }
+
+  private forUser(view: SavedView, userId: string): SavedView {
+    return { ...view, pinned: this.pinsFor(userId).has(view.id) };
+  }
+
+  private isVisibleTo(view: SavedView | undefined, userId: string): view is SavedView {
+    return view != null && (view.owner_id === userId || view.visibility === "TEAM");
+  }
+
+  listVisibleTo(userId: string): SavedView[] {
+    return Array.from(this.views.values())
+      .filter((view) => this.isVisibleTo(view, userId))
+      .map((view) => this.forUser(view, userId));
+  }
+
+  create(
+    request: SavedViewCreateRequest,
+    owner: { user_id: string; display_name: string }
+  ): SavedView {
+    this.sequence += 1;
+    const now = new Date().toISOString();
+    const { pinned, ...fields } = request;
+    const view = {
+      ...fields,
+      pinned: false,
+      id: `view-${String(this.sequence).padStart(3, "0")}`,
+      owner_id: owner.user_id,
+      owner_name: owner.display_name,
+      created_at: now,
+      updated_at: now,
+    } as SavedView;
+    this.views.set(view.id, view);
+    if (pinned) this.pinsFor(owner.user_id).add(view.id);
+    return this.forUser(view, owner.user_id);
+  }
+
+  /**
+   * Only the owner may change a view; returns null when the view is missing or not theirs
+   */
+  update(viewId: string, request: SavedViewUpdateRequest, userId: string): SavedView | null {
+    const existing = this.views.get(viewId);
+    if (existing?.owner_id !== userId) return null;
+    const { pinned, ...fields } = request;
+    const updated = { ...existing, ...fields, updated_at: new Date().toISOString() } as SavedView;
+    this.views.set(viewId, updated);
+    if (pinned != null) this.setPinned(viewId, userId, pinned);
+    return this.forUser(updated, userId);
+  }
+
+  /**
+   * Pins or unpins any view the user can see; returns null when it is not visible to them
+   */
+  setPinned(viewId: string, userId: string, pinned: boolean): SavedView | null {
+    const view = this.views.get(viewId);
+    if (!this.isVisibleTo(view, userId)) return null;
+    const pins = this.pinsFor(userId);
+    if (pinned) {
+      pins.add(viewId);
+    } else {
+      pins.delete(viewId);
+    }
+    return this.forUser(view, userId);
+  }
+
+  delete(viewId: string, userId: string): boolean {
+    if (this.views.get(viewId)?.owner_id !== userId) return false;
+    for (const pins of this.pins.values()) pins.delete(viewId);
+    return this.views.delete(viewId);
+  }
+
+  counts(userId: string, countView: (view: SavedView) => number): Record<string, number> {
+    return Object.fromEntries(this.listVisibleTo(userId).map((view) => [view.id, countView(view)]));
+  }
+}
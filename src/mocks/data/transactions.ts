@@ -0,0 +1,151 @@
+/**
+ * Mock data for the transaction list
+ */
+
+import type { TransactionFilters } from "../../types/transaction";
+
+export interface MockTransaction {
+  transaction_id: string;
+  transaction_reference: string;
+  card_token: string;
+  amount: number;
+  currency: string;
+  merchant_id: string;
+  merchant_name: string;
+  mcc: string;
+  transaction_date: string;
+  status: string;
+  risk_level: string;
+  decision: string;
+  decision_reason: string;
+  evaluation_type: string;
+  ruleset_id: string | null;
+  case_id: string | null;
+  assigned_to: string;
+  matched_rule_ids: string[];
+}
+
+export function buildMockTransactions(now: Date = new Date()): MockTransaction[] {
+  return [
+    {
+      transaction_id: "txn_001",
+      transaction_reference: "TXN-2026-001",
+      card_token: "card_token_123",
+      amount: 1500.0,
+      currency: "USD",
+      merchant_id: "merch_001",
+      merchant_name: "Test Merchant",
+      mcc: "5411",
+      transaction_date: now.toISOString(),
+      status: "PENDING_REVIEW",
+      risk_level: "HIGH",
+      decision: "DECLINE",
+      decision_reason: "RULE_MATCH",
+      evaluation_type: "POSTAUTH",
+      ruleset_id: "rs_001",
+      case_id: "case_001",
+      assigned_to: "user_maker_1",
+      matched_rule_ids: ["rule_001"],
+    },
+    {
+      transaction_id: "txn_002",
+      transaction_reference: "TXN-2026-002",
+      card_token: "card_token_456",
+      amount: 250.0,
+      currency: "USD",
+      merchant_id: "merch_002",
+      merchant_name: "Another Merchant",
+      mcc: "5912",
+      transaction_date: now.toISOString(),
+      status: "UNDER_REVIEW",
+      risk_level: "MEDIUM",
+      decision: "APPROVE",
+      decision_reason: "DEFAULT_ALLOW",
+      evaluation_type: "AUTH",
+      ruleset_id: "rs_002",
+      case_id: null,
+      assigned_to: "user_checker_1",
+      matched_rule_ids: [],
+    },
+  ];
+}
+
+const EXACT_MATCH_FIELDS: Array<[keyof TransactionFilters, keyof MockTransaction]> = [
+  ["decision", "decision"],
+  ["review_status", "status"],
+  ["risk_level", "risk_level"],
+  ["merchant_id", "merchant_id"],
+  ["card_id", "card_token"],
+  ["decision_reason", "decision_reason"],
+  ["ruleset_id", "ruleset_id"],
+  ["case_id", "case_id"],
+];
+
+const SEARCH_FIELDS: Array<keyof MockTransaction> = [
+  "transaction_id",
+  "transaction_reference",
+  "merchant_id",
+  "merchant_name",
+  "card_token",
+];
+
+const STRING_FILTER_KEYS = [
+  "decision",
+  "decision_reason",
+  "card_id",
+  "merchant_id",
+  "ruleset_id",
+  "rule_id",
+  "case_id",
+  "review_status",
+  "risk_level",
+  "from_date",
+  "to_date",
+  "search",
+] as const satisfies ReadonlyArray<keyof TransactionFilters>;
+
+/**
+ * Transaction list query parameters as filters; `status` is accepted as an
+ * alias of `review_status`
+ */
+export function parseTransactionFilters(params: URLSearchParams): TransactionFilters {
+  const filters: Record<string, unknown> = {};
+  STRING_FILTER_KEYS.forEach((key) => {
+    const value = params.get(key);
+    if (value != null && value !== "") filters[key] = value;
+  });
+  filters.review_status ??= params.get("status") ?? undefined;
+  const minAmount = params.get("min_amount");
+  const maxAmount = params.get("max_amount");
+  if (minAmount != null && minAmount !== "") filters.min_amount = Number(minAmount);
+  if (maxAmount != null && maxAmount !== "") filters.max_amount = Number(maxAmount);
+  filters.assigned_to_me = params.get("assigned_to_me") === "true";
+  return filters as TransactionFilters;
+}
+
+const matchesSearch = (txn: MockTransaction, search: string | null | undefined): boolean => {
+  const term = search?.trim().toLowerCase() ?? "";
+  return term === "" || SEARCH_FIELDS.some((key) => String(txn[key]).toLowerCase().includes(term));
+};
+
+/**
+ * Server-side filter semantics for the transaction list, shared by the list
+ * endpoint and saved view counts
+ */
+export function matchesTransactionFilters(
+  txn: MockTransaction,
+  filters: TransactionFilters,
+  currentUserId: string
+): boolean {
+  const exactMatch = EXACT_MATCH_FIELDS.every(([filterKey, txnKey]) => {
+    const expected = filters[filterKey];
+    return expected == null || expected === "" || txn[txnKey] === expected;
+  });
+  if (!exactMatch || !matchesSearch(txn, filters.search)) return false;
+  if (filters.rule_id != null && !txn.matched_rule_ids.includes(filters.rule_id)) return false;
+  if (filters.min_amount != null && txn.amount < filters.min_amount) return false;
+  if (filters.max_amount != null && txn.amount > filters.max_amount) return false;
+  if (filters.from_date != null && txn.transaction_date < filters.from_date) return false;
+  if (filters.to_date != null && txn.transaction_date > filters.to_date) return false;
+  return filters.assigned_to_me !== true || txn.assigned_to === currentUserId;
+}
@@ -0,0 +1,480 @@
+/**
+ * Mock data generator for the analyst worklist
+ *
+ * Review changes made through the mock API are published to subscribers of
+ * the worklist event stream. The store also holds the review SLA policy and
+ * reports SLA compliance and team workload from a seeded history plus the
+ * reviews it holds.
+ */
+
+import type { RiskLevel, TransactionStatus } from "../../types/review";
+import type {
+  SlaCompliance,
+  SlaComplianceBreakdown,
+  SlaPolicy,
+  SlaPolicyUpdate,
+} from "../../types/sla";
+import type { BulkOperationResponse, BulkOperationResult } from "../../types/bulk";
+import type {
+  AnalystWorkload,
+  TeamWorkloadResponse,
+  WorklistEvent,
+  WorklistEventType,
+  WorklistItem,
+  WorklistStats,
+} from "../../types/worklist";
+import { DEFAULT_SLA_POLICY, evaluateSla } from "../../shared/utils/sla";
+
+/**
+ * Build a worklist item with defaults for every field
+ */
+export function buildWorklistItem(overrides: Partial<WorklistItem> = {}): WorklistItem {
+  const transactionId = overrides.transaction_id ?? "txn_001";
+  return {
+    review_id: `review_${transactionId}`,
+    transaction_id: transactionId,
+    status: "PENDING",
+    priority: 3,
+    card_id: "card_token_123",
+    card_last4: "4242",
+    transaction_amount: 1500,
+    transaction_currency: "USD",
+    transaction_timestamp: "2026-01-15T09:30:00Z",
+    decision: "DECLINE",
+    decision_reason: "RULE_MATCH",
+    decision_score: 87,
+    risk_level: "HIGH",
+    assigned_analyst_id: null,
+    assigned_at: null,
+    case_id: null,
+    case_number: null,
+    first_reviewed_at: null,
+    last_activity_at: null,
+    created_at: "2026-01-15T09:31:00Z",
+    merchant_id: "merch_001",
+    merchant_category_code: "5411",
+    trace_id: null,
+    ...overrides,
+  };
+}
+
+export const mockWorklistItems: WorklistItem[] = [
+  buildWorklistItem({
+    transaction_id: "txn_001",
+    priority: 1,
+    risk_level: "CRITICAL",
+    status: "IN_REVIEW",
+    assigned_analyst_id: "user_maker_1",
+    assigned_at: "2026-01-15T10:00:00Z",
+  }),
+  buildWorklistItem({
+    transaction_id: "txn_002",
+    priority: 2,
+    transaction_amount: 250,
+    card_last4: "1881",
+    merchant_category_code: "7995",
+  }),
+  buildWorklistItem({
+    transaction_id: "txn_003",
+    priority: 3,
+    risk_level: "MEDIUM",
+    transaction_amount: 500,
+    decision: "APPROVE",
+    decision_reason: "VELOCITY_MATCH",
+  }),
+];
+
+/**
+ * Reviews resolved before the mock session started, per priority and risk level
+ */
+const SLA_HISTORY: Array<{
+  priority: number;
+  risk_level: RiskLevel;
+  met: number;
+  breached: number;
+}> = [
+  { priority: 1, risk_level: "CRITICAL", met: 14, breached: 3 },
+  { priority: 2, risk_level: "HIGH", met: 22, breached: 2 },
+  { priority: 3, risk_level: "MEDIUM", met: 31, breached: 4 },
+  { priority: 4, risk_level: "LOW", met: 12, breached: 0 },
+];
+
+/**
+ * Each analyst's resolutions and escalations before the mock session started
+ */
+const TEAM_HISTORY: Record<
+  string,
+  { resolved: number; resolution_minutes: number; escalations: number }
+> = {
+  user_maker_1: { resolved: 18, resolution_minutes: 684, escalations: 2 },
+  user_maker_2: { resolved: 24, resolution_minutes: 1128, escalations: 5 },
+  user_checker_1: { resolved: 9, resolution_minutes: 261, escalations: 0 },
+};
+
+const isFinished = (status: TransactionStatus): boolean =>
+  status === "RESOLVED" || status === "CLOSED";
+
+const complianceRate = (met: number, breached: number): number | null =>
+  met + breached === 0 ? null : met / (met + breached);
+
+function toBreakdown(
+  counts: Map<string, { met: number; breached: number }>
+): SlaComplianceBreakdown[] {
+  return Array.from(counts.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, { met, breached }]) => ({
+      key,
+      met,
+      breached,
+      compliance_rate: complianceRate(met, breached),
+    }));
+}
+
+type WorklistEventListener = (event: WorklistEvent) => void;
+
+interface WorklistActor {
+  user_id: string;
+  display_name: string;
+}
+
+/**
+ * Worklist store with an in-memory event bus
+ */
+export class WorklistStore {
+  private items: Map<string, WorklistItem>;
+  private listeners = new Set<WorklistEventListener>();
+  private eventSequence = 0;
+  private resolvedAt = new Map<string, string>();
+  private slaPolicy: SlaPolicy = { ...DEFAULT_SLA_POLICY };
+  private resolutions = new Map<string, { analyst_id: string; minutes: number }>();
+  private escalations = new Map<string, number>();
+
+  constructor() {
+    this.items = new Map(mockWorklistItems.map((item) => [item.transaction_id, { ...item }]));
+  }
+
+  getAll(): WorklistItem[] {
+    return Array.from(this.items.values()).sort((a, b) => a.priority - b.priority);
+  }
+
+  getByTransactionId(transactionId: string): WorklistItem | undefined {
+    return this.items.get(transactionId);
+  }
+
+  getStats(currentUserId: string): WorklistStats {
+    const stats: WorklistStats = {
+      unassigned_total: 0,
+      unassigned_by_priority: {},
+      unassigned_by_risk: { LOW: 0, MEDIUM: 0, HIGH: 0, CRITICAL: 0 },
+      my_assigned_total: 0,
+      my_assigned_by_status: { PENDING: 0, IN_REVIEW: 0, ESCALATED: 0, RESOLVED: 0, CLOSED: 0 },
+      resolved_today: 0,
+      resolved_by_code: {},
+      avg_resolution_minutes: 42,
+    };
+
+    for (const item of this.items.values()) {
+      if (item.status === "RESOLVED") stats.resolved_today += 1;
+      if (item.status === "RESOLVED" || item.status === "CLOSED") continue;
+      if (item.assigned_analyst_id == null) {
+        const priority = String(item.priority);
+        stats.unassigned_total += 1;
+        stats.unassigned_by_priority[priority] = (stats.unassigned_by_priority[priority] ?? 0) + 1;
+        if (item.risk_level != null) stats.unassigned_by_risk[item.risk_level] += 1;
+      } else if (item.assigned_analyst_id === currentUserId) {
+        stats.my_assigned_total += 1;
+        stats.my_assigned_by_status[item.status] += 1;
+      }
+    }
+    return stats;
+  }
+
+  /**
+   * Adds a review to the queue, or returns the existing one
+   */
+  create(
+    transactionId: string,
+    overrides: Partial<WorklistItem>,
+    actor: WorklistActor
+  ): WorklistItem {
+    const existing = this.items.get(transactionId);
+    if (existing != null) return existing;
+
+    const item = buildWorklistItem({
+      ...overrides,
+      transaction_id: transactionId,
+      created_at: new Date().toISOString(),
+    });
+    this.items.set(transactionId, item);
+    this.publish("REVIEW_CREATED", item, null, actor);
+    return item;
+  }
+
+  assign(transactionId: string, analystId: string, actor: WorklistActor): WorklistItem {
+    const current = this.items.get(transactionId) ?? this.create(transactionId, {}, actor);
+    const now = new Date().toISOString();
+    return this.update(current, "REVIEW_ASSIGNED", actor, {
+      assigned_analyst_id: analystId,
+      assigned_at: now,
+      status: current.status === "PENDING" ? "IN_REVIEW" : current.status,
+    });
+  }
+
+  updateStatus(
+    transactionId: string,
+    status: TransactionStatus,
+    actor: WorklistActor
+  ): WorklistItem {
+    const current = this.items.get(transactionId) ?? this.create(transactionId, {}, actor);
+    if (isFinished(status)) {
+      if (!this.resolvedAt.has(transactionId)) {
+        const resolvedAt = new Date().toISOString();
+        this.resolvedAt.set(transactionId, resolvedAt);
+        this.recordResolution(current, resolvedAt);
+      }
+    } else {
+      this.resolvedAt.delete(transactionId);
+      this.resolutions.delete(transactionId);
+    }
+    if (
+      status === "ESCALATED" &&
+      current.status !== "ESCALATED" &&
+      current.assigned_analyst_id != null
+    ) {
+      const analystId = current.assigned_analyst_id;
+      this.escalations.set(analystId, (this.escalations.get(analystId) ?? 0) + 1);
+    }
+    return this.update(current, "REVIEW_STATUS_CHANGED", actor, { status });
+  }
+
+  /**
+   * Assigns each review to the analyst, reporting the ones that cannot be
+   * reassigned instead of failing the whole request
+   */
+  bulkAssign(
+    transactionIds: string[],
+    analystId: string,
+    actor: WorklistActor
+  ): BulkOperationResponse {
+    const results = transactionIds.map((transactionId): BulkOperationResult => {
+      const item = this.items.get(transactionId);
+      const failure = (error_code: string, error_message: string): BulkOperationResult => ({
+        transaction_id: transactionId,
+        success: false,
+        error_message,
+        error_code,
+      });
+      if (item == null) return failure("REVIEW_NOT_FOUND", "Review not found");
+      if (isFinished(item.status)) {
+        return failure("REVIEW_CLOSED", `Review is already ${item.status.toLowerCase()}`);
+      }
+      if (item.assigned_analyst_id !== analystId) this.assign(transactionId, analystId, actor);
+      return {
+        transaction_id: transactionId,
+        success: true,
+        error_message: null,
+        error_code: null,
+      };
+    });
+    const successCount = results.filter((r) => r.success).length;
+    return {
+      success_count: successCount,
+      failure_count: results.length - successCount,
+      results,
+    };
+  }
+
+  /**
+   * Assigns the highest-priority unassigned review to the actor
+   */
+  claimNext(actor: WorklistActor): WorklistItem | null {
+    const next = this.getAll().find(
+      (item) => item.assigned_analyst_id == null && item.status === "PENDING"
+    );
+    return next == null ? null : this.assign(next.transaction_id, actor.user_id, actor);
+  }
+
+  getSlaPolicy(): SlaPolicy {
+    return this.slaPolicy;
+  }
+
+  updateSlaPolicy(update: SlaPolicyUpdate, actor: WorklistActor): SlaPolicy {
+    this.slaPolicy = {
+      priority_minutes: { ...this.slaPolicy.priority_minutes, ...update.priority_minutes },
+      risk_minutes: { ...this.slaPolicy.risk_minutes, ...update.risk_minutes },
+      at_risk_percent: update.at_risk_percent ?? this.slaPolicy.at_risk_percent,
+      updated_at: new Date().toISOString(),
+      updated_by: actor.display_name,
+    };
+    return this.slaPolicy;
+  }
+
+  getSlaCompliance(now: number = Date.now()): SlaCompliance {
+    const byPriority = new Map<string, { met: number; breached: number }>();
+    const byRisk = new Map<string, { met: number; breached: number }>();
+    const compliance: SlaCompliance = {
+      compliance_rate: null,
+      met: 0,
+      breached: 0,
+      open_breached: 0,
+      open_at_risk: 0,
+      by_priority: [],
+      by_risk_level: [],
+    };
+    const record = (
+      priority: number,
+      riskLevel: RiskLevel | null,
+      met: number,
+      breached: number
+    ): void => {
+      compliance.met += met;
+      compliance.breached += breached;
+      const keys: Array<[Map<string, { met: number; breached: number }>, string | null]> = [
+        [byPriority, String(priority)],
+        [byRisk, riskLevel],
+      ];
+      keys.forEach(([counts, key]) => {
+        if (key == null) return;
+        const current = counts.get(key) ?? { met: 0, breached: 0 };
+        counts.set(key, { met: current.met + met, breached: current.breached + breached });
+      });
+    };
+
+    SLA_HISTORY.forEach((h) => record(h.priority, h.risk_level, h.met, h.breached));
+    for (const item of this.items.values()) {
+      const evaluation = evaluateSla(
+        { ...item, resolved_at: this.resolvedAt.get(item.transaction_id) ?? null },
+        this.slaPolicy,
+        now
+      );
+      if (evaluation == null) continue;
+      if (item.status === "RESOLVED" || item.status === "CLOSED") {
+        const met = evaluation.state === "MET" ? 1 : 0;
+        record(item.priority, item.risk_level, met, 1 - met);
+      } else if (evaluation.state === "BREACHED") {
+        compliance.open_breached += 1;
+      } else if (evaluation.state === "AT_RISK") {
+        compliance.open_at_risk += 1;
+      }
+    }
+
+    compliance.compliance_rate = complianceRate(compliance.met, compliance.breached);
+    compliance.by_priority = toBreakdown(byPriority);
+    compliance.by_risk_level = toBreakdown(byRisk);
+    return compliance;
+  }
+
+  /**
+   * Open reviews per analyst on the team, plus analysts outside the team who
+   * still hold reviews
+   */
+  getTeamWorkload(team: WorklistActor[]): TeamWorkloadResponse {
+    const workloads = new Map<string, AnalystWorkload>();
+    const workloadFor = (analystId: string, analystName: string): AnalystWorkload => {
+      const existing = workloads.get(analystId);
+      if (existing != null) return existing;
+      const history = TEAM_HISTORY[analystId] ?? {
+        resolved: 0,
+        resolution_minutes: 0,
+        escalations: 0,
+      };
+      const resolutions = Array.from(this.resolutions.values()).filter(
+        (r) => r.analyst_id === analystId
+      );
+      const resolved = history.resolved + resolutions.length;
+      const minutes = resolutions.reduce((sum, r) => sum + r.minutes, history.resolution_minutes);
+      const workload: AnalystWorkload = {
+        analyst_id: analystId,
+        analyst_name: analystName,
+        reviews: [],
+        by_status: { PENDING: 0, IN_REVIEW: 0, ESCALATED: 0, RESOLVED: 0, CLOSED: 0 },
+        by_risk: { LOW: 0, MEDIUM: 0, HIGH: 0, CRITICAL: 0 },
+        resolved_count: resolved,
+        avg_resolution_minutes: resolved === 0 ? null : Math.round(minutes / resolved),
+        escalations: history.escalations + (this.escalations.get(analystId) ?? 0),
+      };
+      workloads.set(analystId, workload);
+      return workload;
+    };
+
+    team.forEach((member) => workloadFor(member.user_id, member.display_name));
+    const unassigned: WorklistItem[] = [];
+    for (const item of this.getAll()) {
+      if (isFinished(item.status)) continue;
+      if (item.assigned_analyst_id == null) {
+        unassigned.push(item);
+        continue;
+      }
+      const workload = workloadFor(item.assigned_analyst_id, item.assigned_analyst_id);
+      workload.reviews.push(item);
+      workload.by_status[item.status] += 1;
+      if (item.risk_level != null) workload.by_risk[item.risk_level] += 1;
+    }
+    return { analysts: Array.from(workloads.values()), unassigned };
+  }
+
+  subscribe(listener: WorklistEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private recordResolution(item: WorklistItem, resolvedAt: string): void {
+    if (item.assigned_analyst_id == null) return;
+    const started = Date.parse(item.assigned_at ?? item.created_at);
+    this.resolutions.set(item.transaction_id, {
+      analyst_id: item.assigned_analyst_id,
+      minutes: Math.max(0, Math.round((Date.parse(resolvedAt) - started) / 60_000)),
+    });
+  }
+
+  private update(
+    current: WorklistItem,
+    type: WorklistEventType,
+    actor: WorklistActor,
+    changes: Partial<WorklistItem>
+  ): WorklistItem {
+    const now = new Date().toISOString();
+    const item: WorklistItem = {
+      ...current,
+      ...changes,
+      first_reviewed_at: current.first_reviewed_at ?? now,
+      last_activity_at: now,
+    };
+    this.items.set(item.transaction_id, item);
+    this.publish(
+      type,
+      item,
+      { status: current.status, assigned_analyst_id: current.assigned_analyst_id },
+      actor
+    );
+    return item;
+  }
+
+  private publish(
+    type: WorklistEventType,
+    item: WorklistItem,
+    previous: WorklistEvent["previous"],
+    actor: WorklistActor
+  ): void {
+    this.eventSequence += 1;
+    const event: WorklistEvent = {
+      event_id: `evt_${this.eventSequence}`,
+      type,
+      item,
+      previous,
+      actor_id: actor.user_id,
+      actor_name: actor.display_name,
+      occurred_at: new Date().toISOString(),
+    };
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
+
+/**
+ * Formats an event as a `text/event-stream` frame
+ */
+export function formatWorklistEventFrame(event: WorklistEvent): string {
+  return `id: ${event.event_id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
@@ -8,10 +8,61 @@ import { http, HttpResponse, delay } from "msw";
 import { RuleFieldStore } from "./data/ruleFields";
 import { RuleStore } from "./data/rules";
 import { RuleSetStore } from "./data/ruleSets";
+import { RuleSetVersionStore } from "./data/ruleSetVersions";
 import { ApprovalStore } from "./data/approvals";
 import { AuditLogStore } from "./data/auditLogs";
-import { User, AuthResponse } from "../types/domain";
-import { ApprovalStatus, RuleStatus, RuleSetStatus, RulesetEnvironment } from "../types/enums";
+import { WorklistStore, formatWorklistEventFrame } from "./data/worklist";
+import { RuleDraftStore } from "./data/ruleDrafts";
+import { InvestigationRunStore } from "./data/investigations";
+import { buildRecommendationOutcomes } from "./data/recommendationOutcomes";
+import { SavedViewStore } from "./data/savedViews";
+import { NoteStore } from "./data/notes";
+import { NotificationStore, formatNotificationFrame } from "./data/notifications";
+import {
+  buildMockTransactions,
+  matchesTransactionFilters,
+  parseTransactionFilters,
+} from "./data/transactions";
+import { runMockBacktest } from "./data/backtest";
+import { getNextEnvironment } from "../shared/utils/ruleSetPromotion";
+import { matchesWorklistFilters } from "../shared/utils/worklistEvents";
+import { compareTimeToBreach } from "../shared/utils/sla";
+import { resolveTransactionViewFilters } from "../shared/utils/savedViews";
+import { collectFieldUsage } from "../shared/utils/fieldImpact";
+import { computeRegistryChecksum } from "../shared/utils/fieldRegistryDiff";
+import { MIN_REVEAL_REASON_LENGTH } from "../shared/utils/sensitiveData";
+import {
+  ALLOWED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_SIZE_BYTES,
+  validateAttachmentFile,
+} from "../shared/utils/noteAttachments";
+import { User, AuthResponse, type Approval } from "../types/domain";
+import type { TransactionStatus } from "../types/review";
+import type { SavedView, SavedViewCreateRequest, SavedViewUpdateRequest } from "../types/savedView";
+import type { NoteCreateRequest, NoteMention, NoteUpdateRequest } from "../types/notes";
+import type { NotificationPreferences, NotificationType } from "../types/notification";
+import type { SlaPolicyUpdate } from "../types/sla";
+import type { FieldImpactReference, FieldImpactResponse } from "../types/fieldDefinitions";
+import type {
+  DetailResponse,
+  RuleDraftCreateRequest,
+  RuleDraftExportRequest,
+  RunInvestigationRequest,
+} from "../types/opsAnalyst";
+import type {
+  PromoteRuleSetRequest,
+  RecordEvidenceExportRequest,
+  RevealSensitiveDataRequest,
+  RuleBacktestRequest,
+  ScheduleRuleSetActivationRequest,
+} from "../api/types";
+import {
+  ApprovalStatus,
+  AuditAction,
+  RuleStatus,
+  RuleSetStatus,
+  RulesetEnvironment,
+} from "../types/enums";
 
 interface CustomProcessEnv {
   [key: string]: string | undefined;
@@ -36,8 +87,15 @@ const mockDelayMs =
 const ruleFieldStore = new RuleFieldStore();
 const ruleStore = new RuleStore();
 const ruleSetStore = new RuleSetStore();
+const ruleSetVersionStore = new RuleSetVersionStore();
 const approvalStore = new ApprovalStore();
 const auditLogStore = new AuditLogStore();
+const worklistStore = new WorklistStore();
+const ruleDraftStore = new RuleDraftStore();
+const investigationRunStore = new InvestigationRunStore();
+const savedViewStore = new SavedViewStore();
+const noteStore = new NoteStore();
+const notificationStore = new NotificationStore();
 
 /**
  * Verify that mock data is properly initialized
@@ -108,6 +166,150 @@ const mockUsers: Record<string, User> = {
 // Mock session storage
 let currentUser: User = defaultMakerUser;
 
+// Roles granted the reveal:sensitive-data capability
+const SENSITIVE_DATA_REVEAL_ROLES = ["PLATFORM_ADMIN", "RULE_CHECKER", "FRAUD_SUPERVISOR"];
+
+// Helper: HTTP status for an upload that failed attachment validation
+const attachmentRejectionStatus = (file: File): number => {
+  if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) return 415;
+  if (file.size > MAX_ATTACHMENT_SIZE_BYTES) return 413;
+  return 422;
+};
+
+// Helper: User IDs for @mentioned usernames, leaving out unknown users and the author
+const resolveMentionedUserIds = (usernames: string[] | undefined): string[] =>
+  Object.values(mockUsers)
+    .filter(
+      (user) =>
+        (usernames ?? []).includes(user.username.toLowerCase()) &&
+        user.user_id !== currentUser.user_id
+    )
+    .map((user) => user.user_id);
+
+// Helper: Notify each checker other than the maker that a submission awaits approval
+const notifyApprovalRequested = (approval: Approval): void => {
+  Object.values(mockUsers)
+    .filter((user) => user.roles.includes("RULE_CHECKER") && user.user_id !== currentUser.user_id)
+    .forEach((user) =>
+      notificationStore.notify(user.user_id, {
+        type: "APPROVAL_REQUESTED",
+        title: `${approval.entity_id} is waiting for approval`,
+        message: `Submitted by ${currentUser.display_name}`,
+        link: `/approvals/show/${approval.approval_id}`,
+        actor_id: currentUser.user_id,
+        actor_name: currentUser.display_name,
+      })
+    );
+};
+
+// Helper: Notify an analyst about a review someone else routed to them
+const notifyReviewRouted = (
+  type: Extract<NotificationType, "REVIEW_ASSIGNED" | "REVIEW_ESCALATED">,
+  analystId: string,
+  transactionId: string,
+  message: string | null = null
+): void => {
+  if (analystId === currentUser.user_id) return;
+  notificationStore.notify(analystId, {
+    type,
+    title: `${transactionId} was ${type === "REVIEW_ASSIGNED" ? "assigned" : "escalated"} to you`,
+    message,
+    link: `/transactions/show/${transactionId}`,
+    actor_id: currentUser.user_id,
+    actor_name: currentUser.display_name,
+  });
+};
+
+// Helper: Notify an analyst that they were @mentioned in a note
+const notifyMention = (mention: NoteMention): void => {
+  notificationStore.notify(mention.mentioned_user_id, {
+    type: "NOTE_MENTION",
+    title: `${mention.mentioned_by_name ?? mention.mentioned_by_id} mentioned you`,
+    message: mention.excerpt,
+    link: `/transactions/show/${mention.transaction_id}`,
+    actor_id: mention.mentioned_by_id,
+    actor_name: mention.mentioned_by_name,
+  });
+};
+
+// Helper: Notify the transaction's analyst (or the requester) of a critical run's recommendations
+const notifyCriticalRecommendations = (run: DetailResponse): void => {
+  if (run.insight?.severity !== "CRITICAL") return;
+  const analystId =
+    worklistStore.getByTransactionId(run.transaction_id)?.assigned_analyst_id ??
+    currentUser.user_id;
+  run.recommendations.forEach((recommendation) =>
+    notificationStore.notify(analystId, {
+      type: "CRITICAL_RECOMMENDATION",
+      title: `Critical recommendation: ${String(recommendation.payload.title ?? recommendation.type)}`,
+      message: run.insight?.summary ?? null,
+      link: `/transactions/show/${run.transaction_id}`,
+      actor_id: null,
+      actor_name: null,
+    })
+  );
+};
+
+// Helper: Why an SLA policy update is invalid, or null when it can be applied
+const validateSlaPolicyUpdate = (update: SlaPolicyUpdate): string | null => {
+  const targets = [
+    ...Object.values(update.priority_minutes ?? {}),
+    ...Object.values(update.risk_minutes ?? {}),
+  ];
+  if (targets.some((minutes) => !Number.isInteger(minutes) || minutes <= 0)) {
+    return "SLA targets must be a whole number of minutes greater than zero";
+  }
+  const atRisk = update.at_risk_percent;
+  if (atRisk != null && (!Number.isFinite(atRisk) || atRisk <= 0 || atRisk >= 100)) {
+    return "at_risk_percent must be between 0 and 100";
+  }
+  return null;
+};
+
+// Helper: Number of records a saved view currently matches for the signed-in user
+const countSavedView = (view: SavedView): number =>
+  view.target === "worklist"
+    ? worklistStore
+        .getAll()
+        .filter((item) => matchesWorklistFilters(item, view.filters, currentUser.user_id)).length
+    : buildMockTransactions().filter((txn) =>
+        matchesTransactionFilters(
+          txn,
+          resolveTransactionViewFilters(view.filters),
+          currentUser.user_id
+        )
+      ).length;
+
+// Helper: Rule versions referencing a field, with the rulesets that include each version
+const buildFieldImpactReferences = (fieldKey: string): FieldImpactReference[] =>
+  ruleStore.getAllRules().flatMap((rule) =>
+    ruleStore.getVersions(rule.rule_id).flatMap((version) => {
+      const usage = collectFieldUsage(version.condition_tree, fieldKey);
+      if (usage == null) return [];
+      const rulesets = ruleSetStore
+        .getAll()
+        .filter((rs) => ruleSetStore.getRules(rs.ruleset_id).includes(version.rule_version_id))
+        .map(({ ruleset_id, name, environment, status }) => ({
+          ruleset_id,
+          name,
+          environment,
+          status,
+        }));
+      return [
+        {
+          rule_id: rule.rule_id,
+          rule_name: rule.rule_name,
+          rule_version_id: version.rule_version_id,
+          version: version.version,
+          status: version.status,
+          operators: usage.operators,
+          velocity_group_by: usage.velocityGroupBy,
+          rulesets,
+        },
+      ];
+    })
+  );
+
 // Helper: Add artificial delay for realism
 const addDelay = () => delay(mockDelayMs);
 
@@ -164,7 +366,8 @@ export const keysetPaginate = <T extends object>(
   cursor: string | null,
   limit: number,
   direction: "next" | "prev",
-  idField: string
+  idField: string,
+  compare?: (a: T, b: T) => number
 ): {
   items: T[];
   next_cursor: string | null;
@@ -172,7 +375,10 @@ export const keysetPaginate = <T extends object>(
   has_next: boolean;
   has_prev: boolean;
 } => {
+  // Order by `compare` when given, falling back to the id so cursors stay stable
   const sorted = [...items].sort((a, b) => {
+    const order = compare?.(a, b) ?? 0;
+    if (order !== 0) return order;
     const idA = String((a as Record<string, unknown>)[idField] ?? "");
     const idB = String((b as Record<string, unknown>)[idField] ?? "");
     return idA.localeCompare(idB);
@@ -305,7 +511,13 @@ export const handlers = [
   http.post("/api/v1/rule-fields", async ({ request }) => {
     await addDelay();
     const body = (await request.json()) as any;
-    const field = ruleFieldStore.create(body);
+    const field = ruleFieldStore.create({
+      allowed_operators: [],
+      multi_value_allowed: false,
+      is_sensitive: false,
+      is_active: true,
+      ...body,
+    });
     return HttpResponse.json(field, { status: 201 });
   }),
 
@@ -337,6 +549,20 @@ export const handlers = [
     return HttpResponse.json({ success: true }, { status: 204 });
   }),
 
+  http.get("*/api/v1/rule-fields/:fieldKey/impact", async ({ params }) => {
+    await addDelay();
+    const fieldKey = params.fieldKey as string;
+    if (ruleFieldStore.getByKey(fieldKey) == null) {
+      return HttpResponse.json({ error: "Field not found" }, { status: 404 });
+    }
+    const response: FieldImpactResponse = {
+      field_key: fieldKey,
+      references: buildFieldImpactReferences(fieldKey),
+      generated_at: new Date().toISOString(),
+    };
+    return HttpResponse.json(response);
+  }),
+
   // Rule Field Metadata
   http.get("/api/v1/rule-fields/:fieldKey/metadata", async ({ params }) => {
     await addDelay();
@@ -404,6 +630,21 @@ export const handlers = [
     return HttpResponse.json(rule, { status: 201 });
   }),
 
+  http.post("/api/v1/rules/backtest", async ({ request }) => {
+    await addDelay();
+    const body = (await request.json()) as RuleBacktestRequest;
+    if (body.condition_tree == null || !body.from_date || !body.to_date) {
+      return HttpResponse.json(
+        { error: "condition_tree, from_date and to_date are required" },
+        { status: 400 }
+      );
+    }
+    if (body.from_date > body.to_date) {
+      return HttpResponse.json({ error: "from_date must not be after to_date" }, { status: 400 });
+    }
+    return HttpResponse.json(runMockBacktest(body));
+  }),
+
   http.get("/api/v1/rules/:ruleId", async ({ params }) => {
     await addDelay();
     const ruleWithVersion = ruleStore.getRuleWithVersion(params.ruleId as string);
@@ -442,7 +683,7 @@ export const handlers = [
     }
 
     // Create approval request
-    approvalStore.create({
+    const approval = approvalStore.create({
       approval_id: `appr_${Date.now()}`,
       entity_type: "RULE" as any,
       entity_id: rule.rule_id,
@@ -450,6 +691,7 @@ export const handlers = [
       maker: currentUser.user_id,
       status: ApprovalStatus.PENDING,
     });
+    notifyApprovalRequested(approval);
 
     return HttpResponse.json(rule);
   }),
@@ -487,6 +729,48 @@ export const handlers = [
     return HttpResponse.json(version);
   }),
 
+  // Rule Version Test Cases
+  http.get("/api/v1/rule-versions/:ruleVersionId/test-cases", async ({ params }) => {
+    await addDelay();
+    const ruleVersionId = params.ruleVersionId as string;
+    if (ruleStore.getVersionById(ruleVersionId) == null) {
+      return HttpResponse.json({ error: "Version not found" }, { status: 404 });
+    }
+    return HttpResponse.json(ruleStore.getTestCases(ruleVersionId));
+  }),
+
+  http.post("/api/v1/rule-versions/:ruleVersionId/test-cases", async ({ params, request }) => {
+    await addDelay();
+    const ruleVersionId = params.ruleVersionId as string;
+    if (ruleStore.getVersionById(ruleVersionId) == null) {
+      return HttpResponse.json({ error: "Version not found" }, { status: 404 });
+    }
+    const body = (await request.json()) as any;
+    if (typeof body?.name !== "string" || body.name.trim() === "") {
+      return HttpResponse.json({ error: "Test case name is required" }, { status: 400 });
+    }
+    const testCase = ruleStore.createTestCase({
+      rule_version_id: ruleVersionId,
+      name: body.name.trim(),
+      sample: body.sample ?? {},
+      expected: body.expected === "MATCH" ? "MATCH" : "NO_MATCH",
+      created_by: currentUser.user_id,
+    });
+    return HttpResponse.json(testCase, { status: 201 });
+  }),
+
+  http.delete("/api/v1/rule-versions/:ruleVersionId/test-cases/:testCaseId", async ({ params }) => {
+    await addDelay();
+    const deleted = ruleStore.deleteTestCase(
+      params.ruleVersionId as string,
+      params.testCaseId as string
+    );
+    if (!deleted) {
+      return HttpResponse.json({ error: "Test case not found" }, { status: 404 });
+    }
+    return HttpResponse.json({ success: true }, { status: 204 });
+  }),
+
   // ============================================================================
   // RuleSets
   // ============================================================================
@@ -565,7 +849,7 @@ export const handlers = [
     }
 
     // Create approval request
-    approvalStore.create({
+    const approval = approvalStore.create({
       approval_id: `appr_${Date.now()}`,
       entity_type: "RULESET" as any,
       entity_id: ruleSet.ruleset_id,
@@ -573,6 +857,7 @@ export const handlers = [
       maker: currentUser.user_id,
       status: ApprovalStatus.PENDING,
     });
+    notifyApprovalRequested(approval);
 
     return HttpResponse.json(ruleSet);
   }),
@@ -586,6 +871,63 @@ export const handlers = [
     return HttpResponse.json(ruleSet);
   }),
 
+  http.get("/api/v1/rulesets/:rulesetId/promotion-preview", async ({ params, request }) => {
+    await addDelay();
+    const source = ruleSetStore.getWithRules(params.rulesetId as string);
+    if (source == null) {
+      return HttpResponse.json({ error: "RuleSet not found" }, { status: 404 });
+    }
+    const url = new URL(request.url);
+    const targetEnvironment =
+      (url.searchParams.get("target_environment") as RulesetEnvironment | null) ??
+      getNextEnvironment(source.environment);
+    if (targetEnvironment == null) {
+      return HttpResponse.json({ error: "PROD rulesets cannot be promoted" }, { status: 400 });
+    }
+    const activeTarget = ruleSetStore.findActive(targetEnvironment, source);
+    return HttpResponse.json({
+      source,
+      target_environment: targetEnvironment,
+      active_target:
+        activeTarget == null ? null : (ruleSetStore.getWithRules(activeTarget.ruleset_id) ?? null),
+    });
+  }),
+
+  http.post("/api/v1/rulesets/:rulesetId/promote", async ({ params, request }) => {
+    await addDelay();
+    const body = (await request.json()) as PromoteRuleSetRequest;
+    const source = ruleSetStore.getById(params.rulesetId as string);
+    if (source == null) {
+      return HttpResponse.json({ error: "RuleSet not found" }, { status: 404 });
+    }
+    if (source.status !== RuleSetStatus.ACTIVE) {
+      return HttpResponse.json({ error: "Only ACTIVE rulesets can be promoted" }, { status: 400 });
+    }
+    const nextEnvironment = getNextEnvironment(source.environment);
+    if (nextEnvironment == null || body.target_environment !== nextEnvironment) {
+      return HttpResponse.json(
+        {
+          error:
+            nextEnvironment == null
+              ? "PROD rulesets cannot be promoted"
+              : `${source.environment} rulesets can only be promoted to ${nextEnvironment}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = ruleSetStore.promote(source.ruleset_id, nextEnvironment, currentUser.user_id);
+    return HttpResponse.json(result, { status: 201 });
+  }),
+
+  http.get("/api/v1/rulesets/:rulesetId/promotions", async ({ params }) => {
+    await addDelay();
+    if (ruleSetStore.getById(params.rulesetId as string) == null) {
+      return HttpResponse.json({ error: "RuleSet not found" }, { status: 404 });
+    }
+    return HttpResponse.json(ruleSetStore.getPromotions(params.rulesetId as string));
+  }),
+
   // RuleSet Rules
   http.get("/api/v1/rulesets/:rulesetId/rules", async ({ params }) => {
     await addDelay();
@@ -615,6 +957,98 @@ export const handlers = [
     return HttpResponse.json({ success: true }, { status: 204 });
   }),
 
+  // ============================================================================
+  // RuleSet Versions
+  // ============================================================================
+
+  http.get("/api/v1/ruleset-versions", async ({ request }) => {
+    await addDelay();
+    const url = new URL(request.url);
+    const { cursor, limit, direction } = parseKeysetPagination(url);
+
+    ruleSetVersionStore.applyDueActivations();
+    let versions = ruleSetVersionStore.getAll();
+    versions = applyFilters(versions, url.searchParams, ["ruleset_id", "status"]);
+
+    const result = keysetPaginate(versions, cursor, limit, direction, "ruleset_version_id");
+    return HttpResponse.json({ ...result, limit });
+  }),
+
+  http.get("/api/v1/ruleset-versions/scheduled", async () => {
+    await addDelay();
+    ruleSetVersionStore.applyDueActivations();
+    const scheduled = ruleSetVersionStore.getScheduled().map((version) => {
+      const ruleSet = ruleSetStore.getById(version.ruleset_id);
+      return {
+        ruleset_version_id: version.ruleset_version_id,
+        ruleset_id: version.ruleset_id,
+        ruleset_name: ruleSet?.name ?? null,
+        environment: ruleSet?.environment ?? RulesetEnvironment.LOCAL,
+        version: version.version,
+        activate_at: version.scheduled_activation_at,
+        scheduled_by: version.scheduled_by,
+      };
+    });
+    return HttpResponse.json(scheduled);
+  }),
+
+  http.post("/api/v1/ruleset-versions/:rulesetVersionId/schedule", async ({ params, request }) => {
+    await addDelay();
+    const body = (await request.json()) as ScheduleRuleSetActivationRequest;
+    const version = ruleSetVersionStore.getById(params.rulesetVersionId as string);
+    if (version == null) {
+      return HttpResponse.json({ error: "RuleSet version not found" }, { status: 404 });
+    }
+    if (version.status !== RuleSetStatus.APPROVED) {
+      return HttpResponse.json(
+        { error: "Only APPROVED versions can be scheduled for activation" },
+        { status: 400 }
+      );
+    }
+    const activateAt = Date.parse(body.activate_at);
+    if (Number.isNaN(activateAt) || activateAt <= Date.now()) {
+      return HttpResponse.json({ error: "activate_at must be in the future" }, { status: 400 });
+    }
+
+    const scheduled = ruleSetVersionStore.schedule(
+      version.ruleset_version_id,
+      new Date(activateAt).toISOString(),
+      currentUser.user_id
+    );
+    return HttpResponse.json(scheduled);
+  }),
+
+  http.delete("/api/v1/ruleset-versions/:rulesetVersionId/schedule", async ({ params }) => {
+    await addDelay();
+    const version = ruleSetVersionStore.cancelSchedule(params.rulesetVersionId as string);
+    if (version == null) {
+      return HttpResponse.json({ error: "No scheduled activation found" }, { status: 404 });
+    }
+    return HttpResponse.json(version);
+  }),
+
+  http.post("/api/v1/ruleset-versions/:rulesetVersionId/rollback", async ({ params }) => {
+    await addDelay();
+    const version = ruleSetVersionStore.getById(params.rulesetVersionId as string);
+    if (version == null) {
+      return HttpResponse.json({ error: "RuleSet version not found" }, { status: 404 });
+    }
+    if (version.status !== RuleSetStatus.ACTIVE) {
+      return HttpResponse.json(
+        { error: "Only the ACTIVE version can be rolled back" },
+        { status: 400 }
+      );
+    }
+    const result = ruleSetVersionStore.rollback(version.ruleset_version_id);
+    if (result == null) {
+      return HttpResponse.json(
+        { error: "No previously ACTIVE version to roll back to" },
+        { status: 400 }
+      );
+    }
+    return HttpResponse.json(result);
+  }),
+
   // ============================================================================
   // Approvals
   // ============================================================================
@@ -683,6 +1117,7 @@ export const handlers = [
       maker: currentUser.user_id,
       status: ApprovalStatus.PENDING,
     });
+    notifyApprovalRequested(approval);
     return HttpResponse.json(approval, { status: 201 });
   }),
 
@@ -707,6 +1142,16 @@ export const handlers = [
     if (approval == null) {
       return HttpResponse.json({ error: "Approval not found or already decided" }, { status: 404 });
     }
+    if (approval.status === ApprovalStatus.REJECTED) {
+      notificationStore.notify(approval.maker, {
+        type: "SUBMISSION_REJECTED",
+        title: `${approval.entity_id} was rejected`,
+        message: approval.remarks ?? null,
+        link: `/approvals/show/${approval.approval_id}`,
+        actor_id: currentUser.user_id,
+        actor_name: currentUser.display_name,
+      });
+    }
 
     return HttpResponse.json(approval);
   }),
@@ -836,6 +1281,56 @@ export const handlers = [
     return HttpResponse.json(log);
   }),
 
+  http.post("/api/v1/audit-log/reveals", async ({ request }) => {
+    await addDelay();
+    if (!currentUser.roles.some((role) => SENSITIVE_DATA_REVEAL_ROLES.includes(role))) {
+      return HttpResponse.json(
+        { error: "You are not allowed to reveal sensitive data" },
+        { status: 403 }
+      );
+    }
+    const body = (await request.json()) as RevealSensitiveDataRequest;
+    const reason = body.reason?.trim() ?? "";
+    if (reason.length < MIN_REVEAL_REASON_LENGTH) {
+      return HttpResponse.json(
+        { error: `A justification of at least ${MIN_REVEAL_REASON_LENGTH} characters is required` },
+        { status: 400 }
+      );
+    }
+    if (!Array.isArray(body.field_keys) || body.field_keys.length === 0) {
+      return HttpResponse.json({ error: "field_keys must not be empty" }, { status: 400 });
+    }
+    const log = auditLogStore.create({
+      entity_type: body.entity_type,
+      entity_id: body.entity_id,
+      action: AuditAction.REVEAL,
+      old_value: null,
+      new_value: { field_keys: body.field_keys, reason },
+      performed_by: currentUser.user_id,
+    });
+    return HttpResponse.json(log, { status: 201 });
+  }),
+
+  http.post("/api/v1/audit-log/exports", async ({ request }) => {
+    await addDelay();
+    const body = (await request.json()) as RecordEvidenceExportRequest;
+    if (typeof body.integrity_hash !== "string" || body.integrity_hash === "") {
+      return HttpResponse.json({ error: "integrity_hash is required" }, { status: 400 });
+    }
+    const log = auditLogStore.create({
+      entity_type: body.entity_type,
+      entity_id: body.entity_id,
+      action: AuditAction.EXPORT,
+      old_value: null,
+      new_value: {
+        integrity_hash: body.integrity_hash,
+        masked_field_keys: body.masked_field_keys ?? [],
+      },
+      performed_by: currentUser.user_id,
+    });
+    return HttpResponse.json(log, { status: 201 });
+  }),
+
   // ============================================================================
   // Validation
   // ============================================================================
@@ -942,6 +1437,25 @@ export const handlers = [
     return HttpResponse.json(newCase, { status: 201 });
   }),
 
+  http.get("/api/v1/cases/number/:caseNumber", async ({ params }) => {
+    await addDelay();
+    const match = /^CASE-\d{4}-(\d+)$/.exec(params.caseNumber as string);
+    if (match == null) {
+      return HttpResponse.json({ detail: "Case not found" }, { status: 404 });
+    }
+    const caseId = `case_${match[1]}`;
+    return HttpResponse.json({
+      id: caseId,
+      case_id: caseId,
+      case_number: params.caseNumber as string,
+      title: "High Risk Merchant Investigation",
+      case_type: "INVESTIGATION",
+      status: "OPEN",
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    });
+  }),
+
   http.get("/api/v1/cases/:caseId", async ({ params }) => {
     await addDelay();
     const mockCase = {
@@ -1029,48 +1543,10 @@ export const handlers = [
     const url = new URL(request.url);
     const { cursor, limit, direction } = parseKeysetPagination(url);
 
-    // Generate mock transactions
-    const mockTransactions = [
-      {
-        transaction_id: "txn_001",
-        transaction_reference: "TXN-2026-001",
-        card_token: "card_token_123",
-        amount: 1500.0,
-        currency: "USD",
-        merchant_id: "merch_001",
-        merchant_name: "Test Merchant",
-        mcc: "5411",
-        transaction_date: new Date().toISOString(),
-        status: "PENDING_REVIEW",
-        risk_level: "HIGH",
-        decision: "DECLINE",
-        evaluation_type: "POSTAUTH",
-        assigned_to: "user_maker_1",
-      },
-      {
-        transaction_id: "txn_002",
-        transaction_reference: "TXN-2026-002",
-        card_token: "card_token_456",
-        amount: 250.0,
-        currency: "USD",
-        merchant_id: "merch_002",
-        merchant_name: "Another Merchant",
-        mcc: "5912",
-        transaction_date: new Date().toISOString(),
-        status: "UNDER_REVIEW",
-        risk_level: "MEDIUM",
-        decision: "APPROVE",
-        evaluation_type: "AUTH",
-        assigned_to: "user_checker_1",
-      },
-    ];
-
-    let transactions = [...mockTransactions];
-    transactions = applyFilters(transactions, url.searchParams, [
-      "status",
-      "risk_level",
-      "decision",
-    ]);
+    const filters = parseTransactionFilters(url.searchParams);
+    const transactions = buildMockTransactions().filter((txn) =>
+      matchesTransactionFilters(txn, filters, currentUser.user_id)
+    );
 
     const result = keysetPaginate(transactions, cursor, limit, direction, "transaction_id");
     return HttpResponse.json({ ...result, limit });
@@ -1141,57 +1617,73 @@ export const handlers = [
     await addDelay();
     const url = new URL(request.url);
     const { cursor, limit, direction } = parseKeysetPagination(url);
-
-    // Generate mock worklist items
-    const mockWorklist = [
-      {
-        transaction_id: "txn_001",
-        transaction_reference: "TXN-2026-001",
-        card_token: "card_token_123",
-        amount: 1500.0,
-        currency: "USD",
-        merchant_name: "Test Merchant",
-        transaction_date: new Date().toISOString(),
-        status: "PENDING_REVIEW",
-        risk_level: "HIGH",
-        priority: 1,
-        assigned_to: "user_maker_1",
-        time_in_queue: "2h 30m",
-      },
-      {
-        transaction_id: "txn_002",
-        transaction_reference: "TXN-2026-002",
-        card_token: "card_token_456",
-        amount: 250.0,
-        currency: "USD",
-        merchant_name: "Another Merchant",
-        transaction_date: new Date().toISOString(),
-        status: "UNDER_REVIEW",
-        risk_level: "MEDIUM",
-        priority: 2,
-        assigned_to: null,
-        time_in_queue: "1h 15m",
-      },
-    ];
-
-    let worklist = [...mockWorklist];
-    worklist = applyFilters(worklist, url.searchParams, ["status", "risk_level", "assigned_to"]);
-
-    const result = keysetPaginate(worklist, cursor, limit, direction, "transaction_id");
-    return HttpResponse.json({ ...result, limit });
+    const status = url.searchParams.get("status");
+    const priority = url.searchParams.get("priority_filter");
+    const riskLevel = url.searchParams.get("risk_level_filter");
+    const assignedOnly = url.searchParams.get("assigned_only") === "true";
+    const sort = url.searchParams.get("sort");
+
+    const worklist = worklistStore
+      .getAll()
+      .filter((item) =>
+        status == null
+          ? item.status !== "RESOLVED" && item.status !== "CLOSED"
+          : item.status === status
+      )
+      .filter((item) => priority == null || String(item.priority) === priority)
+      .filter((item) => riskLevel == null || item.risk_level === riskLevel)
+      .filter((item) => !assignedOnly || item.assigned_analyst_id === currentUser.user_id);
+
+    const policy = worklistStore.getSlaPolicy();
+    const now = Date.now();
+    const result = keysetPaginate(
+      worklist,
+      cursor,
+      limit,
+      direction,
+      "transaction_id",
+      sort === "time_to_breach" ? (a, b) => compareTimeToBreach(a, b, policy, now) : undefined
+    );
+    return HttpResponse.json({
+      items: result.items,
+      total: worklist.length,
+      page_size: limit,
+      has_more: result.has_next,
+      next_cursor: result.next_cursor,
+    });
   }),
 
   http.get("/api/v1/worklist/stats", async () => {
     await addDelay();
-    const stats = {
-      pending_review: 15,
-      assigned_to_me: 3,
-      critical_risk: 2,
-      high_risk: 5,
-      unassigned: 8,
-      total: 28,
-    };
-    return HttpResponse.json(stats);
+    return HttpResponse.json(worklistStore.getStats(currentUser.user_id));
+  }),
+
+  // Server-sent events: one frame per review change until the client disconnects
+  http.get("*/api/v1/worklist/events", ({ request }) => {
+    const encoder = new TextEncoder();
+    let unsubscribe: (() => void) | null = null;
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode(": connected\n\n"));
+        unsubscribe = worklistStore.subscribe((event) => {
+          controller.enqueue(encoder.encode(formatWorklistEventFrame(event)));
+        });
+        request.signal.addEventListener("abort", () => {
+          unsubscribe?.();
+          try {
+            controller.close();
+          } catch {
+            // Already cancelled by the reader
+          }
+        });
+      },
+      cancel() {
+        unsubscribe?.();
+      },
+    });
+    return new HttpResponse(stream, {
+      headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+    });
   }),
 
   http.get("/api/v1/worklist/unassigned", async ({ request }) => {
@@ -1219,73 +1711,302 @@ export const handlers = [
 
   http.post("/api/v1/worklist/claim", async () => {
     await addDelay();
+    const claimed = worklistStore.claimNext(currentUser);
+    if (claimed == null) {
+      return HttpResponse.json({ detail: "No reviews available to claim" }, { status: 404 });
+    }
+    return HttpResponse.json(claimed);
+  }),
 
-    // Simulate claiming a transaction
-    const claimedTransaction = {
-      transaction_id: "txn_claimed_001",
-      transaction_reference: "TXN-CLAIMED-001",
-      status: "UNDER_REVIEW",
-      assigned_to: currentUser.user_id,
-      assigned_at: new Date().toISOString(),
-    };
+  http.get("*/api/v1/worklist/team", async () => {
+    await addDelay();
+    return HttpResponse.json(worklistStore.getTeamWorkload(Object.values(mockUsers)));
+  }),
 
-    return HttpResponse.json(claimedTransaction);
+  http.get("*/api/v1/worklist/sla-policy", async () => {
+    await addDelay();
+    return HttpResponse.json(worklistStore.getSlaPolicy());
+  }),
+
+  http.put("*/api/v1/worklist/sla-policy", async ({ request }) => {
+    await addDelay();
+    const update = (await request.json()) as SlaPolicyUpdate;
+    const invalid = validateSlaPolicyUpdate(update);
+    if (invalid != null) {
+      return HttpResponse.json({ error: invalid }, { status: 400 });
+    }
+    return HttpResponse.json(worklistStore.updateSlaPolicy(update, currentUser));
+  }),
+
+  // ============================================================================
+  // Saved views
+  // ============================================================================
+
+  http.get("*/api/v1/saved-views", async () => {
+    await addDelay();
+    const items = savedViewStore.listVisibleTo(currentUser.user_id);
+    return HttpResponse.json({ items, total: items.length });
+  }),
+
+  http.get("*/api/v1/saved-views/counts", async () => {
+    await addDelay();
+    return HttpResponse.json({
+      counts: savedViewStore.counts(currentUser.user_id, countSavedView),
+      generated_at: new Date().toISOString(),
+    });
+  }),
+
+  http.post("*/api/v1/saved-views", async ({ request }) => {
+    await addDelay();
+    const body = (await request.json()) as SavedViewCreateRequest;
+    if (body.name.trim() === "") {
+      return HttpResponse.json({ detail: "View name is required" }, { status: 422 });
+    }
+    return HttpResponse.json(savedViewStore.create(body, currentUser), { status: 201 });
+  }),
+
+  http.patch("*/api/v1/saved-views/:viewId", async ({ params, request }) => {
+    await addDelay();
+    const body = (await request.json()) as SavedViewUpdateRequest;
+    const view = savedViewStore.update(params.viewId as string, body, currentUser.user_id);
+    if (view == null) {
+      return HttpResponse.json({ detail: "Saved view not found" }, { status: 404 });
+    }
+    return HttpResponse.json(view);
+  }),
+
+  http.delete("*/api/v1/saved-views/:viewId", async ({ params }) => {
+    await addDelay();
+    if (!savedViewStore.delete(params.viewId as string, currentUser.user_id)) {
+      return HttpResponse.json({ detail: "Saved view not found" }, { status: 404 });
+    }
+    return new HttpResponse(null, { status: 204 });
+  }),
+
+  http.put("*/api/v1/saved-views/:viewId/pin", async ({ params }) => {
+    await addDelay();
+    const view = savedViewStore.setPinned(params.viewId as string, currentUser.user_id, true);
+    if (view == null) {
+      return HttpResponse.json({ detail: "Saved view not found" }, { status: 404 });
+    }
+    return HttpResponse.json(view);
+  }),
+
+  http.delete("*/api/v1/saved-views/:viewId/pin", async ({ params }) => {
+    await addDelay();
+    const view = savedViewStore.setPinned(params.viewId as string, currentUser.user_id, false);
+    if (view == null) {
+      return HttpResponse.json({ detail: "Saved view not found" }, { status: 404 });
+    }
+    return HttpResponse.json(view);
+  }),
+
+  // ============================================================================
+  // Notifications
+  // ============================================================================
+
+  http.get("/api/v1/notifications", async ({ request }) => {
+    await addDelay();
+    const url = new URL(request.url);
+    const limit = Number(url.searchParams.get("limit") ?? 50);
+    return HttpResponse.json(
+      notificationStore.list(currentUser.user_id, {
+        unreadOnly: url.searchParams.get("unread_only") === "true",
+        limit: Number.isFinite(limit) && limit > 0 ? limit : 50,
+      })
+    );
+  }),
+
+  http.post("/api/v1/notifications/read-all", async () => {
+    await addDelay();
+    return HttpResponse.json({ updated: notificationStore.markAllRead(currentUser.user_id) });
+  }),
+
+  http.post("/api/v1/notifications/:notificationId/read", async ({ params }) => {
+    await addDelay();
+    const notification = notificationStore.markRead(
+      currentUser.user_id,
+      params.notificationId as string
+    );
+    if (notification == null) {
+      return HttpResponse.json({ detail: "Notification not found" }, { status: 404 });
+    }
+    return HttpResponse.json(notification);
+  }),
+
+  http.get("/api/v1/notifications/preferences", async () => {
+    await addDelay();
+    return HttpResponse.json(notificationStore.getPreferences(currentUser.user_id));
+  }),
+
+  http.put("/api/v1/notifications/preferences", async ({ request }) => {
+    await addDelay();
+    const body = (await request.json()) as Partial<NotificationPreferences>;
+    return HttpResponse.json(notificationStore.setPreferences(currentUser.user_id, body));
+  }),
+
+  // Server-sent events: one frame per notification for the signed-in user
+  http.get("*/api/v1/notifications/events", ({ request }) => {
+    const encoder = new TextEncoder();
+    let unsubscribe: (() => void) | null = null;
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode(": connected\n\n"));
+        unsubscribe = notificationStore.subscribe((userId, notification) => {
+          if (userId !== currentUser.user_id) return;
+          controller.enqueue(encoder.encode(formatNotificationFrame(notification)));
+        });
+        request.signal.addEventListener("abort", () => {
+          unsubscribe?.();
+          try {
+            controller.close();
+          } catch {
+            // Already cancelled by the reader
+          }
+        });
+      },
+      cancel() {
+        unsubscribe?.();
+      },
+    });
+    return new HttpResponse(stream, {
+      headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+    });
   }),
 
   // ============================================================================
   // Notes
   // ============================================================================
 
+  http.get("/api/v1/notes/mentions", async () => {
+    await addDelay();
+    return HttpResponse.json({ items: noteStore.mentionsFor(currentUser.user_id) });
+  }),
+
   http.get("/api/v1/transactions/:transactionId/notes", async ({ params }) => {
     await addDelay();
-    const notes = [
-      {
-        note_id: "note_001",
-        transaction_id: params.transactionId as string,
-        note_type: "GENERAL",
-        content: "This transaction looks suspicious",
-        created_by: "user_maker_1",
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      },
-    ];
-    return HttpResponse.json(notes);
+    const notes = noteStore
+      .list(params.transactionId as string)
+      .filter((note) => !note.is_private || note.analyst_id === currentUser.user_id);
+    return HttpResponse.json({
+      items: notes,
+      total: notes.length,
+      page_size: notes.length,
+      has_more: false,
+      next_cursor: null,
+    });
   }),
 
   http.post("/api/v1/transactions/:transactionId/notes", async ({ params, request }) => {
     await addDelay();
-    const body = (await request.json()) as any;
-    const newNote = {
-      note_id: `note_${Date.now()}`,
-      transaction_id: params.transactionId as string,
-      note_type: body.note_type ?? "GENERAL",
-      content: body.content,
-      created_by: currentUser.user_id,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-    };
-    return HttpResponse.json(newNote, { status: 201 });
+    const body = (await request.json()) as NoteCreateRequest;
+    const note = noteStore.create(params.transactionId as string, body, currentUser);
+    noteStore
+      .recordMentions(note, resolveMentionedUserIds(body.mentions), currentUser)
+      .forEach(notifyMention);
+    return HttpResponse.json(note, { status: 201 });
   }),
 
-  http.put("/api/v1/transactions/:transactionId/notes/:noteId", async ({ params, request }) => {
+  http.get("/api/v1/transactions/:transactionId/notes/:noteId", async ({ params }) => {
     await addDelay();
-    const body = (await request.json()) as any;
-    const updatedNote = {
-      note_id: params.noteId as string,
-      transaction_id: params.transactionId as string,
-      note_type: body.note_type ?? "GENERAL",
-      content: body.content,
-      updated_by: currentUser.user_id,
-      updated_at: new Date().toISOString(),
-    };
-    return HttpResponse.json(updatedNote);
+    const note = noteStore.get(params.transactionId as string, params.noteId as string);
+    if (note == null) {
+      return HttpResponse.json({ detail: "Note not found" }, { status: 404 });
+    }
+    return HttpResponse.json(note);
   }),
 
-  http.delete("/api/v1/transactions/:transactionId/notes/:noteId", async ({ params: _params }) => {
+  http.patch("/api/v1/transactions/:transactionId/notes/:noteId", async ({ params, request }) => {
     await addDelay();
+    const body = (await request.json()) as NoteUpdateRequest;
+    const note = noteStore.update(params.transactionId as string, params.noteId as string, body);
+    if (note == null) {
+      return HttpResponse.json({ detail: "Note not found" }, { status: 404 });
+    }
+    noteStore
+      .recordMentions(note, resolveMentionedUserIds(body.mentions), currentUser)
+      .forEach(notifyMention);
+    return HttpResponse.json(note);
+  }),
+
+  http.delete("/api/v1/transactions/:transactionId/notes/:noteId", async ({ params }) => {
+    await addDelay();
+    if (!noteStore.delete(params.transactionId as string, params.noteId as string)) {
+      return HttpResponse.json({ detail: "Note not found" }, { status: 404 });
+    }
     return HttpResponse.json({ success: true }, { status: 204 });
   }),
 
+  http.post(
+    "/api/v1/transactions/:transactionId/notes/:noteId/attachments",
+    async ({ params, request }) => {
+      await addDelay();
+      const transactionId = params.transactionId as string;
+      const noteId = params.noteId as string;
+      const note = noteStore.get(transactionId, noteId);
+      if (note == null) {
+        return HttpResponse.json({ detail: "Note not found" }, { status: 404 });
+      }
+      const file = (await request.formData()).get("file");
+      if (!(file instanceof File)) {
+        return HttpResponse.json({ detail: "A file is required" }, { status: 400 });
+      }
+      const rejection = validateAttachmentFile(file, note.attachments?.length ?? 0);
+      if (rejection != null) {
+        return HttpResponse.json(
+          { detail: rejection },
+          { status: attachmentRejectionStatus(file) }
+        );
+      }
+      const attachment = noteStore.addAttachment(transactionId, noteId, {
+        name: file.name,
+        type: file.type,
+        size: file.size,
+        content: file,
+      });
+      return HttpResponse.json(attachment, { status: 201 });
+    }
+  ),
+
+  http.get(
+    "/api/v1/transactions/:transactionId/notes/:noteId/attachments/:attachmentId/content",
+    async ({ params }) => {
+      await addDelay();
+      const stored = noteStore.getAttachment(
+        params.noteId as string,
+        params.attachmentId as string
+      );
+      if (stored == null) {
+        return HttpResponse.json({ detail: "Attachment not found" }, { status: 404 });
+      }
+      if (stored.attachment.scan_status !== "CLEAN") {
+        return HttpResponse.json(
+          { detail: "Attachment is not available until its virus scan passes" },
+          { status: 409 }
+        );
+      }
+      return new HttpResponse(stored.content, {
+        headers: { "Content-Type": stored.attachment.content_type ?? "application/octet-stream" },
+      });
+    }
+  ),
+
+  http.delete(
+    "/api/v1/transactions/:transactionId/notes/:noteId/attachments/:attachmentId",
+    async ({ params }) => {
+      await addDelay();
+      const removed = noteStore.removeAttachment(
+        params.transactionId as string,
+        params.noteId as string,
+        params.attachmentId as string
+      );
+      if (!removed) {
+        return HttpResponse.json({ detail: "Attachment not found" }, { status: 404 });
+      }
+      return HttpResponse.json({ success: true }, { status: 204 });
+    }
+  ),
+
   // ============================================================================
   // Review
   // ============================================================================
@@ -1307,6 +2028,11 @@ export const handlers = [
   http.post("/api/v1/transactions/:transactionId/review", async ({ params, request }) => {
     await addDelay();
     const body = (await request.json()) as any;
+    worklistStore.create(
+      params.transactionId as string,
+      { priority: body.priority ?? 3, risk_level: body.risk_level ?? "MEDIUM" },
+      currentUser
+    );
     const review = {
       review_id: `review_${params.transactionId}`,
       transaction_id: params.transactionId as string,
@@ -1322,6 +2048,11 @@ export const handlers = [
   http.post("/api/v1/transactions/:transactionId/review/status", async ({ params, request }) => {
     await addDelay();
     const body = (await request.json()) as any;
+    worklistStore.updateStatus(
+      params.transactionId as string,
+      body.status as TransactionStatus,
+      currentUser
+    );
     return HttpResponse.json({
       review_id: `review_${params.transactionId}`,
       transaction_id: params.transactionId as string,
@@ -1333,10 +2064,13 @@ export const handlers = [
   http.post("/api/v1/transactions/:transactionId/review/assign", async ({ params, request }) => {
     await addDelay();
     const body = (await request.json()) as any;
+    const assignedTo: string = body.analyst_id ?? body.assigned_to ?? currentUser.user_id;
+    worklistStore.assign(params.transactionId as string, assignedTo, currentUser);
+    notifyReviewRouted("REVIEW_ASSIGNED", assignedTo, params.transactionId as string);
     return HttpResponse.json({
       review_id: `review_${params.transactionId}`,
       transaction_id: params.transactionId as string,
-      assigned_to: body.assigned_to ?? currentUser.user_id,
+      assigned_to: assignedTo,
       assigned_at: new Date().toISOString(),
     });
   }),
@@ -1344,6 +2078,7 @@ export const handlers = [
   http.post("/api/v1/transactions/:transactionId/review/resolve", async ({ params, request }) => {
     await addDelay();
     const body = (await request.json()) as any;
+    worklistStore.updateStatus(params.transactionId as string, "RESOLVED", currentUser);
     return HttpResponse.json({
       review_id: `review_${params.transactionId}`,
       transaction_id: params.transactionId as string,
@@ -1358,11 +2093,21 @@ export const handlers = [
   http.post("/api/v1/transactions/:transactionId/review/escalate", async ({ params, request }) => {
     await addDelay();
     const body = (await request.json()) as any;
+    const escalatedTo: string | undefined = body.escalate_to ?? body.escalated_to;
+    worklistStore.updateStatus(params.transactionId as string, "ESCALATED", currentUser);
+    if (escalatedTo != null) {
+      notifyReviewRouted(
+        "REVIEW_ESCALATED",
+        escalatedTo,
+        params.transactionId as string,
+        body.escalation_reason ?? null
+      );
+    }
     return HttpResponse.json({
       review_id: `review_${params.transactionId}`,
       transaction_id: params.transactionId as string,
       status: "ESCALATED",
-      escalated_to: body.escalated_to,
+      escalated_to: escalatedTo ?? null,
       escalation_reason: body.escalation_reason,
       escalated_at: new Date().toISOString(),
     });
@@ -1384,13 +2129,14 @@ export const handlers = [
     return HttpResponse.json(metrics);
   }),
 
-  http.get("/api/v1/metrics/workflow", async () => {
+  http.get("*/api/v1/metrics/workflow", async () => {
     await addDelay();
     const workflowMetrics = {
       avg_review_time: "45m",
       total_claimed_today: 15,
       total_resolved_today: 12,
       escalation_rate: 0.05,
+      sla: worklistStore.getSlaCompliance(),
     };
     return HttpResponse.json(workflowMetrics);
   }),
@@ -1411,14 +2157,22 @@ export const handlers = [
   // Bulk Operations
   // ============================================================================
 
-  http.post("/api/v1/bulk/assign", async ({ request }) => {
+  http.post("*/api/v1/bulk/assign", async ({ request }) => {
     await addDelay();
     const body = (await request.json()) as any;
-    return HttpResponse.json({
-      success: true,
-      processed: body.transaction_ids?.length ?? 0,
-      assigned_to: body.assigned_to,
-    });
+    const analystId: string | undefined = body.analyst_id ?? body.assigned_to;
+    if (analystId == null || mockUsers[analystId] == null) {
+      return HttpResponse.json({ detail: "Analyst not found" }, { status: 404 });
+    }
+    const response = worklistStore.bulkAssign(
+      (body.transaction_ids ?? []) as string[],
+      analystId,
+      currentUser
+    );
+    response.results
+      .filter((result) => result.success)
+      .forEach((result) => notifyReviewRouted("REVIEW_ASSIGNED", analystId, result.transaction_id));
+    return HttpResponse.json(response);
   }),
 
   http.post("/api/v1/bulk/status", async ({ request }) => {
@@ -1447,13 +2201,7 @@ export const handlers = [
 
   http.get("/api/v1/field-registry", async () => {
     await addDelay();
-    const registry = {
-      registry_version: 1,
-      published_at: new Date().toISOString(),
-      published_by: "admin",
-      fields: ruleFieldStore.getAll(),
-    };
-    return HttpResponse.json(registry);
+    return HttpResponse.json(ruleFieldStore.getLatestRegistryManifest());
   }),
 
   http.get("/api/v1/field-registry/versions", async ({ request }) => {
@@ -1461,42 +2209,29 @@ export const handlers = [
     const url = new URL(request.url);
     const { cursor, limit, direction } = parseKeysetPagination(url);
 
-    const versions = [
-      {
-        registry_version: 1,
-        published_at: new Date().toISOString(),
-        published_by: "admin",
-        field_count: ruleFieldStore.getAll().length,
-      },
-    ];
-
+    const versions = ruleFieldStore.getRegistryManifests();
     const result = keysetPaginate(versions, cursor, limit, direction, "registry_version");
     return HttpResponse.json({ ...result, limit });
   }),
 
   http.get("/api/v1/field-registry/versions/:registryVersion", async ({ params }) => {
     await addDelay();
-    const registry = {
-      registry_version: Number(params.registryVersion),
-      published_at: new Date().toISOString(),
-      published_by: "admin",
-      fields: ruleFieldStore.getAll(),
-    };
-    return HttpResponse.json(registry);
+    const registryVersion = Number(params.registryVersion);
+    const manifest = ruleFieldStore.getRegistryManifest(registryVersion);
+    if (!manifest) {
+      return HttpResponse.json({ error: "Registry version not found" }, { status: 404 });
+    }
+    return HttpResponse.json(manifest);
   }),
 
-  http.get(
-    "/api/v1/field-registry/versions/:registryVersion/fields",
-    async ({ params: _params, request }) => {
-      await addDelay();
-      const url = new URL(request.url);
-      const { cursor, limit, direction } = parseKeysetPagination(url);
-
-      const fields = ruleFieldStore.getAll();
-      const result = keysetPaginate(fields, cursor, limit, direction, "field_key");
-      return HttpResponse.json({ ...result, limit });
+  http.get("/api/v1/field-registry/versions/:registryVersion/fields", async ({ params }) => {
+    await addDelay();
+    const fields = ruleFieldStore.getRegistryFields(Number(params.registryVersion));
+    if (!fields) {
+      return HttpResponse.json({ error: "Registry version not found" }, { status: 404 });
     }
-  ),
+    return HttpResponse.json(fields);
+  }),
 
   http.get("/api/v1/field-registry/next-field-id", async () => {
     await addDelay();
@@ -1513,14 +2248,11 @@ export const handlers = [
     return HttpResponse.json({ next_field_id: nextId });
   }),
 
-  http.post("/api/v1/field-registry/publish", async ({ request }) => {
+  http.post("/api/v1/field-registry/publish", async () => {
     await addDelay();
-    const body = (await request.json()) as any;
-    return HttpResponse.json({
-      registry_version: Date.now(),
-      published_at: new Date().toISOString(),
-      published_by: currentUser.user_id,
-      changes_description: body.changes_description ?? "Published new registry version",
+    const checksum = await computeRegistryChecksum(ruleFieldStore.getAll());
+    return HttpResponse.json(ruleFieldStore.publishRegistry(checksum, currentUser.user_id), {
+      status: 201,
     });
   }),
 
@@ -1534,6 +2266,7 @@ export const handlers = [
       insights: [
         {
           insight_id: "ins-mock-001",
+          run_id: "run-mock-001",
           transaction_id: "txn-mock-001",
           severity: "HIGH",
           summary:
@@ -1562,33 +2295,19 @@ export const handlers = [
 
   http.post("/api/v1/ops-agent/investigations/run", async ({ request }) => {
     await addDelay();
-    const body = (await request.json()) as { transaction_id: string; mode?: string };
-    return HttpResponse.json({
-      run_id: `run-mock-${Date.now()}`,
-      status: "SUCCESS",
-      mode: body.mode ?? "quick",
-      transaction_id: body.transaction_id,
-      model_mode: "agentic",
-      duration_ms: 312,
-      insight: {
-        insight_id: "ins-mock-001",
-        severity: "HIGH",
-        summary: "Velocity spike detected. Pattern matches known card testing behavior.",
-        generated_at: new Date().toISOString(),
-      },
-      recommendations: [
-        {
-          recommendation_id: "rec-mock-001",
-          type: "review_priority",
-          status: "OPEN",
-          priority: 1,
-          payload: {
-            title: "Prioritize for manual review",
-            impact: "High velocity pattern detected",
-          },
-        },
-      ],
-    });
+    const body = (await request.json()) as RunInvestigationRequest;
+    const run = investigationRunStore.run(body);
+    notifyCriticalRecommendations(run);
+    return HttpResponse.json(run);
+  }),
+
+  http.get("*/api/v1/ops-agent/investigations/:runId", async ({ params }) => {
+    await addDelay();
+    const run = investigationRunStore.get(params.runId as string);
+    if (run == null) {
+      return HttpResponse.json({ detail: "Investigation run not found" }, { status: 404 });
+    }
+    return HttpResponse.json(run);
   }),
 
   http.get("/api/v1/ops-agent/worklist/recommendations", async ({ request }) => {
@@ -1626,7 +2345,11 @@ export const handlers = [
         !severity || (r.payload.impact as string).toLowerCase().includes(severity.toLowerCase())
     );
 
-    return HttpResponse.json({ recommendations: recs, next_cursor: null, total: recs.length });
+    return HttpResponse.json({
+      recommendations: recs.map((r) => ruleDraftStore.withExportStatus(r)),
+      next_cursor: null,
+      total: recs.length,
+    });
   }),
 
   http.post(
@@ -1648,39 +2371,51 @@ export const handlers = [
     }
   ),
 
+  // Rule drafts: matched on any origin, so the same handlers serve tests and E2E
+  http.post("*/api/v1/ops-agent/rule-drafts", async ({ request }) => {
+    await addDelay();
+    const body = (await request.json()) as RuleDraftCreateRequest;
+    const draft = ruleDraftStore.create(body.recommendation_id);
+    if (draft == null) {
+      return HttpResponse.json(
+        { detail: "Recommendation is not a rule candidate with a draft payload" },
+        { status: 422 }
+      );
+    }
+    return HttpResponse.json(draft, { status: 201 });
+  }),
+
+  http.post("*/api/v1/ops-agent/rule-drafts/:draftId/export", async ({ params, request }) => {
+    await addDelay();
+    const body = (await request.json()) as RuleDraftExportRequest;
+    const exported = ruleDraftStore.export(params.draftId as string, body.rule_id);
+    if (exported == null) {
+      return HttpResponse.json({ detail: "Rule draft not found" }, { status: 404 });
+    }
+    return HttpResponse.json(exported);
+  }),
+
+  http.get("*/api/v1/ops-agent/analytics/recommendation-outcomes", async ({ request }) => {
+    await addDelay();
+    const url = new URL(request.url);
+    const to = url.searchParams.get("to") ?? new Date().toISOString();
+    const from = url.searchParams.get("from") ?? new Date(0).toISOString();
+    const outcomes = buildRecommendationOutcomes().filter(
+      (outcome) => outcome.created_at >= from && outcome.created_at <= to
+    );
+    return HttpResponse.json({ outcomes, from, to });
+  }),
+
   // ============================================================================
   // Ops Analyst Agent (Absolute URL for E2E)
   // ============================================================================
 
   http.post("http://localhost:8003/api/v1/ops-agent/investigations/run", async ({ request }) => {
     await addDelay();
-    const body = (await request.json()) as { transaction_id: string; mode?: string };
-    return HttpResponse.json({
-      run_id: `run-mock-${Date.now()}`,
-      status: "SUCCESS",
-      mode: body.mode ?? "quick",
-      transaction_id: body.transaction_id,
-      model_mode: "agentic",
-      duration_ms: 312,
-      insight: {
-        insight_id: "ins-mock-001",
-        severity: "HIGH",
-        summary: "Velocity spike detected. Pattern matches known card testing behavior.",
-        generated_at: new Date().toISOString(),
-      },
-      recommendations: [
-        {
-          recommendation_id: "rec-mock-001",
-          type: "review_priority",
-          status: "OPEN",
-          priority: 1,
-          payload: {
-            title: "Prioritize for manual review",
-            impact: "High velocity pattern detected",
-          },
-        },
-      ],
-    });
+    const body = (await request.json()) as RunInvestigationRequest;
+    const run = investigationRunStore.run(body);
+    notifyCriticalRecommendations(run);
+    return HttpResponse.json(run);
   }),
 
   http.get(
@@ -1721,7 +2456,11 @@ export const handlers = [
           !severity || (r.payload.impact as string).toLowerCase().includes(severity.toLowerCase())
       );
 
-      return HttpResponse.json({ recommendations: recs, next_cursor: null, total: recs.length });
+      return HttpResponse.json({
+        recommendations: recs.map((r) => ruleDraftStore.withExportStatus(r)),
+        next_cursor: null,
+        total: recs.length,
+      });
     }
   ),
 
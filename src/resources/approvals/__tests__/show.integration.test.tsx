@@ -154,4 +154,124 @@ describe("ApprovalShow component", () => {
       expect(openMock).toHaveBeenCalledWith(expect.objectContaining({ type: "error" }))
     );
   });
+
+  it("shows a structural diff and test case results for rule versions, masking sensitive values", async () => {
+    vi.spyOn(authProvider, "isChecker").mockReturnValue(true);
+    const ruleVersionResp = {
+      approval: { ...approvalResp.approval, entity_type: "RULE_VERSION", entity_id: "rv_1_v2" },
+      entity_data: {
+        entity_id: "rv_1_v2",
+        entity_name: "Test Rule 1 v2",
+        old_value: {
+          condition_tree: {
+            and: [
+              { field: "AMOUNT", op: "GT", value: 5000 },
+              { field: "CARD_NUMBER", op: "EQ", value: "4111111111111111" },
+            ],
+          },
+          priority: 10,
+          scope: null,
+        },
+        new_value: {
+          condition_tree: {
+            and: [
+              { field: "AMOUNT", op: "GT", value: 7500 },
+              { field: "CARD_NUMBER", op: "EQ", value: "4222222222222222" },
+            ],
+          },
+          priority: 10,
+          scope: null,
+        },
+      },
+    };
+    const testCases = [
+      {
+        test_case_id: "tc_1",
+        rule_version_id: "rv_1_v2",
+        name: "Mid-size purchase",
+        sample: { AMOUNT: 6000, CARD_NUMBER: "4222222222222222" },
+        expected: "MATCH",
+        created_by: "maker1",
+        created_at: "2025-01-01T00:00:00Z",
+      },
+    ];
+    const ruleFields = {
+      items: [
+        { field_key: "AMOUNT", is_sensitive: false },
+        { field_key: "CARD_NUMBER", is_sensitive: true },
+      ],
+    };
+    vi.spyOn(http, "get" as any).mockImplementation((url: unknown) => {
+      if (String(url).includes("/test-cases")) return Promise.resolve(testCases);
+      if (String(url).includes("/rule-fields")) return Promise.resolve(ruleFields);
+      return Promise.resolve(ruleVersionResp);
+    });
+
+    render(
+      <Routes>
+        <Route path="/approvals/show/:id" element={<ApprovalShow />} />
+      </Routes>,
+      { initialRoute: `/approvals/show/${approvalId}` }
+    );
+
+    expect(await screen.findByText("threshold: 5000 → 7500")).toBeInTheDocument();
+    expect(screen.queryByText("Original Data")).toBeNull();
+    expect(screen.queryByText("Changed Data")).toBeNull();
+    expect(await screen.findByText("Mid-size purchase")).toBeInTheDocument();
+    expect(screen.getByText("0/1 passing")).toBeInTheDocument();
+
+    // The card number changed, but neither value is shown
+    expect(screen.getByText("value: •••••• → ••••••")).toBeInTheDocument();
+    await userEvent.click(screen.getByRole("button", { name: /expand row/i }));
+    expect(await screen.findByText("6000")).toBeInTheDocument();
+    expect(document.body).not.toHaveTextContent("4111111111111111");
+    expect(document.body).not.toHaveTextContent("4222222222222222");
+  });
+
+  it("backtests a rule version with its rule's type", async () => {
+    vi.spyOn(authProvider, "isChecker").mockReturnValue(true);
+    const ruleVersionResp = {
+      approval: { ...approvalResp.approval, entity_type: "RULE_VERSION", entity_id: "rv_1_v2" },
+      entity_data: {
+        entity_id: "rv_1_v2",
+        entity_name: "Test Rule 1 v2",
+        new_value: {
+          rule_id: "rule_1",
+          condition_tree: { and: [{ field: "AMOUNT", op: "GT", value: 7500 }] },
+          priority: 10,
+          scope: null,
+        },
+      },
+    };
+    const getSpy = vi.spyOn(http, "get" as any).mockImplementation((url: unknown) => {
+      if (String(url).includes("/test-cases")) return Promise.resolve([]);
+      if (String(url).endsWith("/rules/rule_1")) {
+        return Promise.resolve({ rule: { rule_id: "rule_1", rule_type: "AUTH" } });
+      }
+      return Promise.resolve(ruleVersionResp);
+    });
+    // Only the request matters here
+    const postSpy = vi.spyOn(http, "post" as any).mockRejectedValue(new Error("Unavailable"));
+
+    render(
+      <Routes>
+        <Route path="/approvals/show/:id" element={<ApprovalShow />} />
+      </Routes>,
+      { initialRoute: `/approvals/show/${approvalId}` }
+    );
+
+    await waitFor(() =>
+      expect(getSpy).toHaveBeenCalledWith(expect.stringMatching(/\/rules\/rule_1$/), {
+        signal: expect.any(AbortSignal),
+      })
+    );
+    await userEvent.click(await screen.findByRole("button", { name: /Run Backtest/ }));
+
+    await waitFor(() =>
+      expect(postSpy).toHaveBeenCalledWith(
+        expect.stringContaining("/rules/backtest"),
+        expect.objectContaining({ rule_type: "AUTH" })
+      )
+    );
+  });
 });
@@ -5,7 +5,7 @@
  * Allows checkers to approve or reject pending approvals.
  */
 
-import { useState, useEffect, type FC, type ReactElement } from "react";
+import { useState, useEffect, useMemo, type FC, type ReactElement, type ReactNode } from "react";
 import { Show } from "@refinedev/antd";
 import { useNotification } from "@refinedev/core";
 import { Button, Card, Input, Modal, Space, Tag, Typography, type ButtonProps } from "antd";
@@ -14,12 +14,25 @@ import { Descriptions } from "../../shared/compat/antdCompat";
 import { CheckOutlined, CloseOutlined } from "@ant-design/icons";
 import { useParams, useNavigate } from "react-router";
 import { usePermissions } from "../../hooks/usePermissions";
-import type { Approval } from "../../types/domain";
-import type { ApprovalDetailResponse, ApprovalDecisionRequest } from "../../api/types";
+import { useRuleTestCases } from "../../hooks/useRuleTestCases";
+import { useSensitiveData } from "../../hooks/useSensitiveData";
+import { SensitiveDataReveal } from "../../components/sensitiveData";
+import { maskSensitiveValues } from "../../shared/utils/sensitiveData";
+import type { Approval, PersistedConditionTree, Rule, RuleVersion } from "../../types/domain";
+import type {
+  ApprovalDetailResponse,
+  ApprovalDecisionRequest,
+  RuleDetailResponse,
+} from "../../api/types";
 import { get, post } from "../../api/httpClient";
-import { APPROVALS } from "../../api/endpoints";
-import { ApprovalStatus } from "../../types/enums";
+import { APPROVALS, RULES } from "../../api/endpoints";
+import { extractRuleAndVersion } from "../../shared/utils/ruleHelpers";
+import { ApprovalStatus, EntityType, type Operator } from "../../types/enums";
 import { JsonViewer } from "../../shared/components/JsonViewer";
+import { RuleBacktestPanel, RuleTestCasesPanel } from "../../components/ruleTesting";
+import { RuleVersionDiff, type RuleVersionDiffInput } from "../../components/ruleDiff";
+import { FieldImpactPanel } from "../../components/fieldRegistry";
+import { useFieldImpact } from "../../hooks/useFieldImpact";
 import { getStatusColor, getEntityTypeColor } from "../../theme/tokens";
 
 const { TextArea } = Input;
@@ -65,22 +78,246 @@ function ApprovalDetailsCard({
   );
 }
 
-function OriginalDataCard({ data }: Readonly<{ data: unknown }>): ReactElement {
+interface EntityDataCardProps {
+  data: unknown;
+  sensitiveKeys: ReadonlySet<string>;
+  extra?: ReactNode;
+}
+
+function OriginalDataCard({
+  data,
+  sensitiveKeys,
+  extra,
+}: Readonly<EntityDataCardProps>): ReactElement {
   return (
-    <Card title="Original Data" size="small" className="approval-card-spaced" variant="outlined">
-      <JsonViewer data={data} copyable maxHeight={400} />
+    <Card
+      title="Original Data"
+      size="small"
+      className="approval-card-spaced"
+      variant="outlined"
+      extra={extra}
+    >
+      <JsonViewer data={data} copyable maxHeight={400} sensitiveKeys={sensitiveKeys} />
     </Card>
   );
 }
 
-function ChangedDataCard({ data }: Readonly<{ data: unknown }>): ReactElement {
+function ChangedDataCard({
+  data,
+  sensitiveKeys,
+  extra,
+}: Readonly<EntityDataCardProps>): ReactElement {
   return (
-    <Card title="Changed Data" size="small" className="approval-card-spaced" variant="outlined">
-      <JsonViewer data={data} copyable maxHeight={400} />
+    <Card
+      title="Changed Data"
+      size="small"
+      className="approval-card-spaced"
+      variant="outlined"
+      extra={extra}
+    >
+      <JsonViewer data={data} copyable maxHeight={400} sensitiveKeys={sensitiveKeys} />
     </Card>
   );
 }
 
+function toRuleVersionDiffInput(value: Record<string, unknown>): RuleVersionDiffInput {
+  return {
+    condition_tree: (value.condition_tree ?? { and: [] }) as PersistedConditionTree,
+    priority: typeof value.priority === "number" ? value.priority : 0,
+    scope: (value.scope ?? null) as RuleVersion["scope"],
+  };
+}
+
+function RuleVersionChangesCard({
+  entityData,
+  sensitiveKeys,
+  extra,
+}: Readonly<{
+  entityData: ApprovalDetailResponse["entity_data"];
+  sensitiveKeys: ReadonlySet<string>;
+  extra: ReactNode;
+}>): ReactElement {
+  const target = toRuleVersionDiffInput(entityData.new_value);
+  // A first version has nothing to compare against, so diff it against an empty rule
+  const base =
+    entityData.old_value == null
+      ? { condition_tree: { and: [] }, priority: target.priority, scope: target.scope }
+      : toRuleVersionDiffInput(entityData.old_value);
+
+  return (
+    <Card
+      title="Changes"
+      size="small"
+      className="approval-card-spaced"
+      variant="outlined"
+      extra={extra}
+    >
+      <RuleVersionDiff
+        base={base}
+        target={target}
+        baseLabel={entityData.old_value == null ? "No previous version" : "Current"}
+        targetLabel="Proposed"
+        sensitiveKeys={sensitiveKeys}
+      />
+    </Card>
+  );
+}
+
+function RuleVersionTestCasesCard({
+  ruleVersionId,
+  newValue,
+  sensitiveKeys,
+}: Readonly<{
+  ruleVersionId: string;
+  newValue: Record<string, unknown>;
+  sensitiveKeys: ReadonlySet<string>;
+}>): ReactElement {
+  const { testCases, isLoading, error } = useRuleTestCases({ ruleVersionId });
+  const conditionTree = (newValue.condition_tree ?? null) as PersistedConditionTree | null;
+
+  return (
+    <div className="approval-card-spaced">
+      <RuleTestCasesPanel
+        testCases={testCases}
+        conditionTree={conditionTree}
+        loading={isLoading}
+        error={error}
+        sensitiveKeys={sensitiveKeys}
+      />
+    </div>
+  );
+}
+
+/**
+ * Type of the rule a proposed version belongs to. Versions don't carry it, so
+ * it is read from the rule unless the approval data already has it.
+ */
+function useVersionRuleType(newValue: Record<string, unknown>): string | undefined {
+  const proposedType = typeof newValue.rule_type === "string" ? newValue.rule_type : undefined;
+  const ruleId = typeof newValue.rule_id === "string" ? newValue.rule_id : undefined;
+  const [loadedType, setLoadedType] = useState<string | undefined>(undefined);
+
+  useEffect(() => {
+    if (proposedType != null || ruleId == null || ruleId === "") return undefined;
+
+    const controller = new AbortController();
+    get<RuleDetailResponse | Rule>(RULES.GET(ruleId), { signal: controller.signal })
+      .then((data) => {
+        if (!controller.signal.aborted) setLoadedType(extractRuleAndVersion(data).rule.rule_type);
+      })
+      // Without the type the backtest runs on the condition tree alone
+      .catch(() => undefined);
+    return () => controller.abort();
+  }, [proposedType, ruleId]);
+
+  return proposedType ?? loadedType;
+}
+
+function RuleVersionBacktestCard({
+  newValue,
+}: Readonly<{ newValue: Record<string, unknown> }>): ReactElement {
+  const ruleType = useVersionRuleType(newValue);
+
+  return (
+    <div className="approval-card-spaced">
+      <RuleBacktestPanel
+        conditionTree={(newValue.condition_tree ?? null) as PersistedConditionTree | null}
+        scope={(newValue.scope ?? null) as RuleVersion["scope"]}
+        ruleType={ruleType}
+      />
+    </div>
+  );
+}
+
+function FieldImpactCard({
+  fieldKey,
+  newValue,
+}: Readonly<{ fieldKey: string; newValue: Record<string, unknown> }>): ReactElement {
+  const { assessment, isLoading, error, refetch } = useFieldImpact(fieldKey, {
+    is_active: typeof newValue.is_active === "boolean" ? newValue.is_active : undefined,
+    allowed_operators: Array.isArray(newValue.allowed_operators)
+      ? (newValue.allowed_operators as Operator[])
+      : undefined,
+  });
+
+  return (
+    <div className="approval-card-spaced">
+      <FieldImpactPanel
+        assessment={assessment}
+        isLoading={isLoading}
+        error={error}
+        onRetry={refetch}
+      />
+    </div>
+  );
+}
+
+const FIELD_ENTITY_TYPES: readonly string[] = [EntityType.FIELD_VERSION, EntityType.RULE_FIELD];
+
+/**
+ * Field key a field approval changes. A RULE_FIELD approval is keyed by the
+ * field, but a FIELD_VERSION approval is keyed by the version, so its field
+ * key has to come from the version data.
+ */
+function approvalFieldKey(
+  approval: Approval,
+  entityData: ApprovalDetailResponse["entity_data"]
+): string | null {
+  if (!FIELD_ENTITY_TYPES.includes(approval.entity_type)) return null;
+  const fieldKey = entityData.new_value.field_key ?? entityData.old_value?.field_key;
+  if (typeof fieldKey === "string" && fieldKey !== "") return fieldKey;
+  return approval.entity_type === EntityType.RULE_FIELD ? approval.entity_id : null;
+}
+
+function EntityChanges({
+  approval,
+  entityData,
+}: Readonly<{
+  approval: Approval;
+  entityData: ApprovalDetailResponse["entity_data"];
+}>): ReactElement {
+  const sensitiveData = useSensitiveData({
+    entityType: approval.entity_type,
+    entityId: approval.entity_id,
+  });
+  const { keysToMask } = sensitiveData;
+  const maskedFieldKeys = useMemo(
+    () => maskSensitiveValues([entityData.old_value, entityData.new_value], keysToMask).fieldKeys,
+    [entityData, keysToMask]
+  );
+  const reveal = <SensitiveDataReveal sensitiveData={sensitiveData} fieldKeys={maskedFieldKeys} />;
+
+  if (approval.entity_type === EntityType.RULE_VERSION) {
+    return (
+      <>
+        <RuleVersionChangesCard entityData={entityData} sensitiveKeys={keysToMask} extra={reveal} />
+        <RuleVersionTestCasesCard
+          ruleVersionId={approval.entity_id}
+          newValue={entityData.new_value}
+          sensitiveKeys={keysToMask}
+        />
+        <RuleVersionBacktestCard newValue={entityData.new_value} />
+      </>
+    );
+  }
+
+  const fieldKey = approvalFieldKey(approval, entityData);
+
+  return (
+    <>
+      {entityData.old_value != null && (
+        <OriginalDataCard data={entityData.old_value} sensitiveKeys={keysToMask} extra={reveal} />
+      )}
+      <ChangedDataCard
+        data={entityData.new_value}
+        sensitiveKeys={keysToMask}
+        extra={entityData.old_value == null ? reveal : null}
+      />
+      {fieldKey != null && <FieldImpactCard fieldKey={fieldKey} newValue={entityData.new_value} />}
+    </>
+  );
+}
+
 function ApprovalDecisionModal({
   title,
   open,
@@ -269,9 +506,7 @@ export const ApprovalShow: FC = () => {
     >
       <ApprovalDetailsCard approval={approval} entityData={entityData} />
 
-      {entityData.old_value != null && <OriginalDataCard data={entityData.old_value} />}
-
-      <ChangedDataCard data={entityData.new_value} />
+      <EntityChanges approval={approval} entityData={entityData} />
 
       <ApprovalDecisionModal
         title="Approve Approval Request"
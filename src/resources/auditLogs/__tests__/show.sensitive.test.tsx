@@ -0,0 +1,59 @@
+/**
+ * Tests for sensitive value masking on the audit log detail page, driven by
+ * the MSW handlers
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, screen, userEvent } from "@/test/utils";
+import { AuditLogShow } from "../show";
+
+vi.mock("react-router", async () => {
+  const actual = await vi.importActual("react-router");
+  return {
+    ...actual,
+    useParams: () => ({ id: "audit_021" }),
+  };
+});
+
+vi.mock("@/hooks/usePermissions", () => ({
+  usePermissions: () => ({ capabilities: { canRevealSensitiveData: true } }),
+}));
+
+describe("AuditLogShow sensitive values", () => {
+  // Only roles with the reveal capability may reveal; sign in as a checker
+  beforeEach(async () => {
+    await fetch("/api/v1/auth/login", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ username: "checker1", password: "checker1" }),
+    });
+  });
+
+  afterEach(async () => {
+    await fetch("/api/v1/auth/logout", { method: "POST" });
+  });
+
+  it("masks sensitive condition values until a justified reveal is audited", async () => {
+    const user = userEvent.setup();
+    render(<AuditLogShow />);
+
+    expect(await screen.findByText(/"field": "CARD_NUMBER"/)).toBeInTheDocument();
+    expect(await screen.findByText(/"••••••",\s+"••••••"/)).toBeInTheDocument();
+    expect(screen.queryByText(/4532\*+1234/)).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: /Reveal sensitive values/ }));
+    await user.type(await screen.findByLabelText("Justification"), "Reviewing rule for QA-142");
+    await user.click(screen.getByRole("button", { name: "Reveal" }));
+
+    expect(await screen.findByText(/4532\*+1234/)).toBeInTheDocument();
+    expect(screen.getByText("Sensitive values revealed")).toBeInTheDocument();
+
+    const audit = await (await fetch("/api/v1/audit-log?action=REVEAL")).json();
+    expect(audit.items).toContainEqual(
+      expect.objectContaining({
+        entity_id: "rv_007_v1",
+        new_value: { field_keys: ["CARD_NUMBER"], reason: "Reviewing rule for QA-142" },
+      })
+    );
+  });
+});
@@ -2,10 +2,11 @@
  * Audit Log Show
  *
  * Displays audit log entry details including old and new values.
- * Read-only view for tracking changes and actions in the system.
+ * Read-only view for tracking changes and actions in the system. Values of
+ * sensitive fields in the change data are masked until revealed.
  */
 
-import { useState, useEffect, type FC } from "react";
+import { useState, useEffect, useMemo, type FC } from "react";
 import { Show } from "@refinedev/antd";
 import { useNotification } from "@refinedev/core";
 import { Card, Tag, Typography } from "antd";
@@ -16,6 +17,9 @@ import { get } from "../../api/httpClient";
 import { AUDIT_LOGS } from "../../api/endpoints";
 import { JsonViewer } from "../../shared/components/JsonViewer";
 import { AuditAction } from "../../types/enums";
+import { maskSensitiveValues } from "../../shared/utils/sensitiveData";
+import { useSensitiveData } from "../../hooks/useSensitiveData";
+import { SensitiveDataReveal } from "../../components/sensitiveData";
 import "./audit-logs.css";
 
 export const AuditLogShow: FC = () => {
@@ -25,6 +29,17 @@ export const AuditLogShow: FC = () => {
 
   const [loading, setLoading] = useState(true);
   const [auditLog, setAuditLog] = useState<AuditLog | null>(null);
+  const sensitiveData = useSensitiveData({
+    entityType: auditLog?.entity_type,
+    entityId: auditLog?.entity_id,
+  });
+  const { keysToMask } = sensitiveData;
+  const maskedFieldKeys = useMemo(
+    () =>
+      maskSensitiveValues([auditLog?.old_value ?? null, auditLog?.new_value ?? null], keysToMask)
+        .fieldKeys,
+    [auditLog, keysToMask]
+  );
 
   useEffect(() => {
     let cancelled = false;
@@ -82,6 +97,10 @@ export const AuditLogShow: FC = () => {
         return "purple";
       case AuditAction.COMPILE:
         return "geekblue";
+      case AuditAction.REVEAL:
+        return "magenta";
+      case AuditAction.EXPORT:
+        return "gold";
       default:
         return "default";
     }
@@ -112,14 +131,40 @@ export const AuditLogShow: FC = () => {
       </Card>
 
       {auditLog.old_value != null && (
-        <Card title="Old Value" size="small" className="audit-card-spaced" variant="outlined">
-          <JsonViewer data={auditLog.old_value} copyable maxHeight={400} />
+        <Card
+          title="Old Value"
+          size="small"
+          className="audit-card-spaced"
+          variant="outlined"
+          extra={<SensitiveDataReveal sensitiveData={sensitiveData} fieldKeys={maskedFieldKeys} />}
+        >
+          <JsonViewer
+            data={auditLog.old_value}
+            copyable
+            maxHeight={400}
+            sensitiveKeys={keysToMask}
+          />
         </Card>
       )}
 
       {auditLog.new_value != null && (
-        <Card title="New Value" size="small" className="audit-card-spaced" variant="outlined">
-          <JsonViewer data={auditLog.new_value} copyable maxHeight={400} />
+        <Card
+          title="New Value"
+          size="small"
+          className="audit-card-spaced"
+          variant="outlined"
+          extra={
+            auditLog.old_value == null ? (
+              <SensitiveDataReveal sensitiveData={sensitiveData} fieldKeys={maskedFieldKeys} />
+            ) : null
+          }
+        >
+          <JsonViewer
+            data={auditLog.new_value}
+            copyable
+            maxHeight={400}
+            sensitiveKeys={keysToMask}
+          />
         </Card>
       )}
 
@@ -3,17 +3,19 @@ import { ArrowLeftOutlined } from "@ant-design/icons";
 import { type ReactElement, useState } from "react";
 import { useGetIdentity, useGo } from "@refinedev/core";
 import { CASE_TYPE_CONFIG, CASE_STATUS_CONFIG } from "../../types/case";
-import { useCase, useCaseActivity } from "../../hooks";
+import { useCase, useCaseActivity, useCaseTimeline } from "../../hooks";
 import CaseHeader from "./CaseHeader";
 import CaseTabs from "./CaseTabs";
 import ResolveCaseModal from "./ResolveCaseModal";
 import AddTransactionModal from "./AddTransactionModal";
+import ExportEvidenceButton from "./ExportEvidenceButton";
 import buildTransactionColumns from "./buildTransactionColumns";
 import "./case-show.css";
 import useCaseTransactions from "./useCaseTransactions";
 
 export default function CaseShowView({ caseId }: { caseId?: string }): ReactElement {
   const go = useGo();
+  const hasCaseId = caseId !== undefined && caseId !== "";
 
   const {
     case_: caseData,
@@ -25,32 +27,35 @@ export default function CaseShowView({ caseId }: { caseId?: string }): ReactElem
     isUpdating,
   } = useCase({
     caseId: caseId ?? "",
-    enabled: caseId !== undefined && caseId !== "",
+    enabled: hasCaseId,
   });
 
   const { activities, isLoading: activityLoading } = useCaseActivity({
     caseId: caseId ?? "",
-    enabled: caseId !== undefined && caseId !== "",
+    enabled: hasCaseId,
   });
 
   const { data: identity } = useGetIdentity<{ id: string; name?: string }>();
   const [resolveModalOpen, setResolveModalOpen] = useState(false);
   const [addTxnModalOpen, setAddTxnModalOpen] = useState(false);
+  // Each linked transaction costs three requests, so load the timeline once it is viewed
+  const [timelineOpened, setTimelineOpened] = useState(false);
   const [resolveForm] = Form.useForm<{ resolution_summary: string }>();
   const [addTxnForm] = Form.useForm<{ transaction_id: string }>();
 
   // Fetch case transactions
   const { transactions, txnLoading } = useCaseTransactions(caseId);
+  const timeline = useCaseTimeline({
+    activities,
+    transactionIds: transactions.map((txn) => txn.transaction_id),
+    enabled: timelineOpened && !txnLoading,
+  });
   const transactionColumns = buildTransactionColumns(
     (id) => go({ to: `/transactions/show/${id}` }),
     (transactionId) => {
       removeTransaction(transactionId)
-        .then(() => {
-          void message.success("Transaction removed from case");
-        })
-        .catch(() => {
-          void message.error("Failed to remove transaction");
-        });
+        .then(() => void message.success("Transaction removed from case"))
+        .catch(() => void message.error("Failed to remove transaction"));
     },
     isUpdating
   );
@@ -126,6 +131,13 @@ export default function CaseShowView({ caseId }: { caseId?: string }): ReactElem
           </Button>
         )}
         <Button onClick={() => setAddTxnModalOpen(true)}>Add Transaction</Button>
+        <ExportEvidenceButton
+          caseData={caseData}
+          transactions={transactions}
+          activities={activities}
+          generatedBy={identity?.name ?? identity?.id ?? "unknown"}
+          disabled={txnLoading}
+        />
         {caseData.case_status !== "RESOLVED" && caseData.case_status !== "CLOSED" && (
           <Button type="primary" danger onClick={() => setResolveModalOpen(true)}>
             Resolve Case
@@ -140,6 +152,8 @@ export default function CaseShowView({ caseId }: { caseId?: string }): ReactElem
         txnLoading={txnLoading}
         activities={activities}
         activityLoading={activityLoading}
+        timeline={timeline}
+        onTimelineOpen={() => setTimelineOpened(true)}
         transactionColumns={transactionColumns}
       />
 
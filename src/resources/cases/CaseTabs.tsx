@@ -1,7 +1,9 @@
 import { Card, Tabs, Table, Spin, Empty, Timeline, Typography } from "antd";
 import type { ColumnsType } from "antd/es/table";
 import type { ReactElement } from "react";
+import type { CaseTimelineEvent } from "../../shared/utils/caseTimeline";
 import type { CaseActivity } from "../../types/case";
+import CaseTimeline from "./CaseTimeline";
 import type { CaseTransaction } from "./types";
 import { formatDateTime } from "./utils";
 
@@ -12,12 +14,17 @@ export default function CaseTabs({
   txnLoading,
   activities,
   activityLoading,
+  timeline,
+  onTimelineOpen,
   transactionColumns,
 }: Readonly<{
   transactions: CaseTransaction[];
   txnLoading: boolean;
   activities: CaseActivity[];
   activityLoading: boolean;
+  timeline: { events: CaseTimelineEvent[]; isLoading: boolean; error: Error | null };
+  /** Called when the timeline tab is shown */
+  onTimelineOpen: () => void;
   transactionColumns: ColumnsType<CaseTransaction>;
 }>): ReactElement {
   const renderActivityList = (acts: CaseActivity[], loading: boolean): ReactElement => (
@@ -58,6 +65,17 @@ export default function CaseTabs({
         />
       ),
     },
+    {
+      key: "timeline",
+      label: "Timeline",
+      children: (
+        <CaseTimeline
+          events={timeline.events}
+          isLoading={timeline.isLoading}
+          error={timeline.error}
+        />
+      ),
+    },
     {
       key: "activity",
       label: "Activity Log",
@@ -67,7 +85,12 @@ export default function CaseTabs({
 
   return (
     <Card size="small">
-      <Tabs items={tabItems} />
+      <Tabs
+        items={tabItems}
+        onChange={(key) => {
+          if (key === "timeline") onTimelineOpen();
+        }}
+      />
     </Card>
   );
 }
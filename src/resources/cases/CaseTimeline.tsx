@@ -0,0 +1,112 @@
+import { Alert, Empty, Select, Space, Spin, Tag, Timeline, Typography } from "antd";
+import { type ReactElement, useMemo, useState } from "react";
+import {
+  CASE_TIMELINE_EVENT_CONFIG,
+  CASE_TIMELINE_EVENT_TYPES,
+  filterCaseTimeline,
+  listTimelineAnalysts,
+  type CaseTimelineEvent,
+  type CaseTimelineEventType,
+} from "../../shared/utils/caseTimeline";
+import { formatDateTime } from "./utils";
+import "./case-timeline.css";
+
+const { Text, Paragraph } = Typography;
+
+const TYPE_OPTIONS = CASE_TIMELINE_EVENT_TYPES.map((type) => ({
+  value: type,
+  label: CASE_TIMELINE_EVENT_CONFIG[type].label,
+}));
+
+export default function CaseTimeline({
+  events,
+  isLoading,
+  error,
+}: Readonly<{
+  events: CaseTimelineEvent[];
+  isLoading: boolean;
+  error: Error | null;
+}>): ReactElement {
+  const [types, setTypes] = useState<CaseTimelineEventType[]>([]);
+  const [analystId, setAnalystId] = useState<string | null>(null);
+
+  const analystOptions = useMemo(
+    () => listTimelineAnalysts(events).map(({ id, name }) => ({ value: id, label: name })),
+    [events]
+  );
+  const visible = useMemo(
+    () => filterCaseTimeline(events, { types, analystId }),
+    [events, types, analystId]
+  );
+
+  return (
+    <Space direction="vertical" size="middle" className="full-width">
+      <Space wrap>
+        <Select
+          mode="multiple"
+          placeholder="All event types"
+          aria-label="Event types"
+          allowClear
+          className="case-timeline-type-filter"
+          value={types}
+          onChange={setTypes}
+          options={TYPE_OPTIONS}
+        />
+        <Select
+          placeholder="All analysts"
+          aria-label="Analyst"
+          allowClear
+          showSearch
+          optionFilterProp="label"
+          className="w-200"
+          value={analystId}
+          onChange={(value?: string | null) => setAnalystId(value ?? null)}
+          options={analystOptions}
+        />
+        <Text type="secondary">
+          {visible.length} of {events.length} events
+        </Text>
+      </Space>
+
+      {error != null && <Alert type="warning" showIcon message={error.message} />}
+
+      <Spin spinning={isLoading}>
+        {visible.length === 0 ? (
+          <Empty description="No timeline events" />
+        ) : (
+          <Timeline
+            items={visible.map((event) => {
+              const config = CASE_TIMELINE_EVENT_CONFIG[event.type];
+              return {
+                key: event.id,
+                color: config.color,
+                children: (
+                  <div>
+                    <Space size={4} wrap>
+                      <Tag color={config.color}>{config.label}</Tag>
+                      <Text strong>{event.title}</Text>
+                    </Space>
+                    {event.description != null && event.description !== "" && (
+                      <Paragraph className="case-timeline-description">
+                        {event.description}
+                      </Paragraph>
+                    )}
+                    <Text type="secondary" className="activity-meta">
+                      {[
+                        event.analyst_name ?? event.analyst_id,
+                        event.transaction_id,
+                        formatDateTime(event.occurred_at),
+                      ]
+                        .filter((part) => part != null)
+                        .join(" • ")}
+                    </Text>
+                  </div>
+                ),
+              };
+            })}
+          />
+        )}
+      </Spin>
+    </Space>
+  );
+}
@@ -0,0 +1,49 @@
+import { Button, message } from "antd";
+import { FileProtectOutlined } from "@ant-design/icons";
+import type { ReactElement } from "react";
+import { useSensitiveData } from "../../hooks/useSensitiveData";
+import { MASK_ALL_KEYS } from "../../shared/utils/sensitiveData";
+import type { CaseActivity, TransactionCase } from "../../types/case";
+import { EntityType } from "../../types/enums";
+import type { CaseTransaction } from "./types";
+import useCaseEvidencePackage from "./useCaseEvidencePackage";
+
+export default function ExportEvidenceButton({
+  caseData,
+  transactions,
+  activities,
+  generatedBy,
+  disabled,
+}: Readonly<{
+  caseData: TransactionCase;
+  transactions: CaseTransaction[];
+  activities: CaseActivity[];
+  generatedBy: string;
+  disabled: boolean;
+}>): ReactElement {
+  const { keysToMask } = useSensitiveData({ entityType: EntityType.CASE, entityId: caseData.id });
+  const { exportPackage, isExporting } = useCaseEvidencePackage({
+    caseData,
+    transactions,
+    activities,
+    generatedBy,
+    sensitiveKeys: keysToMask,
+  });
+
+  const handleExport = (): void => {
+    exportPackage()
+      .then((pkg) => void message.success(`Evidence package exported (${pkg.integrity.hash})`))
+      .catch(() => void message.error("Failed to export evidence package"));
+  };
+
+  return (
+    <Button
+      icon={<FileProtectOutlined />}
+      onClick={handleExport}
+      loading={isExporting}
+      disabled={disabled || keysToMask === MASK_ALL_KEYS}
+    >
+      Export Evidence Package
+    </Button>
+  );
+}
@@ -0,0 +1,90 @@
+/**
+ * Tests for CaseTimeline component
+ */
+
+import { describe, it, expect } from "vitest";
+import { render, screen, userEvent, waitFor } from "@/test/utils";
+import CaseTimeline from "../CaseTimeline";
+import type { CaseTimelineEvent } from "@/shared/utils/caseTimeline";
+
+const events: CaseTimelineEvent[] = [
+  {
+    id: "activity:act_1",
+    type: "ACTIVITY",
+    occurred_at: "2024-03-01T08:00:00Z",
+    title: "Case created",
+    description: null,
+    analyst_id: "analyst_1",
+    analyst_name: "Alice",
+    transaction_id: null,
+  },
+  {
+    id: "note:note_1",
+    type: "NOTE",
+    occurred_at: "2024-03-01T10:00:00Z",
+    title: "Customer Contact note",
+    description: "Cardholder denies the purchase",
+    analyst_id: "analyst_2",
+    analyst_name: "Bob",
+    transaction_id: "txn_1",
+  },
+  {
+    id: "insight:ins_1",
+    type: "INSIGHT",
+    occurred_at: "2024-03-01T11:00:00Z",
+    title: "AI insight (HIGH)",
+    description: "Card testing pattern",
+    analyst_id: null,
+    analyst_name: null,
+    transaction_id: "txn_1",
+  },
+];
+
+describe("CaseTimeline", () => {
+  it("renders every event with its details", () => {
+    render(<CaseTimeline events={events} isLoading={false} error={null} />);
+
+    expect(screen.getByText("Case created")).toBeInTheDocument();
+    expect(screen.getByText("Cardholder denies the purchase")).toBeInTheDocument();
+    expect(screen.getByText("AI insight (HIGH)")).toBeInTheDocument();
+    expect(screen.getByText(/Bob • txn_1/)).toBeInTheDocument();
+    expect(screen.getByText("3 of 3 events")).toBeInTheDocument();
+  });
+
+  it("filters by event type", async () => {
+    const user = userEvent.setup();
+    render(<CaseTimeline events={events} isLoading={false} error={null} />);
+
+    await user.selectOptions(screen.getByRole("combobox", { name: "Event types" }), "INSIGHT");
+
+    await waitFor(() => expect(screen.getByText("1 of 3 events")).toBeInTheDocument());
+    expect(screen.queryByText("Case created")).not.toBeInTheDocument();
+    expect(screen.getByText("Card testing pattern")).toBeInTheDocument();
+  });
+
+  it("filters by analyst", async () => {
+    const user = userEvent.setup();
+    render(<CaseTimeline events={events} isLoading={false} error={null} />);
+
+    await user.selectOptions(screen.getByRole("combobox", { name: "Analyst" }), "analyst_1");
+
+    await waitFor(() => expect(screen.getByText("1 of 3 events")).toBeInTheDocument());
+    expect(screen.getByText("Case created")).toBeInTheDocument();
+    expect(screen.queryByText("Customer Contact note")).not.toBeInTheDocument();
+  });
+
+  it("shows an empty state without events", () => {
+    render(<CaseTimeline events={[]} isLoading={false} error={null} />);
+
+    expect(screen.getByText("No timeline events")).toBeInTheDocument();
+  });
+
+  it("warns about sources that failed to load", () => {
+    render(
+      <CaseTimeline events={events} isLoading={false} error={new Error("2 sources failed")} />
+    );
+
+    expect(screen.getByText("2 sources failed")).toBeInTheDocument();
+    expect(screen.getByText("Case created")).toBeInTheDocument();
+  });
+});
@@ -7,7 +7,9 @@
  * - Empty state (case not found)
  * - Case detail view with header information
  * - Transactions tab
+ * - Timeline tab
  * - Activity tab
+ * - Evidence package export
  * - Navigation
  */
 
@@ -17,11 +19,14 @@ import CaseShow from "../show";
 import * as hooks from "@/hooks";
 import * as refineCore from "@refinedev/core";
 import * as api from "@/api/httpClient";
+import { downloadTextFile } from "@/shared/utils/download";
+import type { CaseTimelineEvent } from "@/shared/utils/caseTimeline";
 
 // Mock the hooks
 vi.mock("@/hooks", () => ({
   useCase: vi.fn(),
   useCaseActivity: vi.fn(),
+  useCaseTimeline: vi.fn(),
 }));
 
 // Mock @refinedev/core - keep all exports but mock useGo
@@ -37,6 +42,11 @@ vi.mock("@refinedev/core", async () => {
 // Mock the API client
 vi.mock("@/api/httpClient", () => ({
   get: vi.fn(),
+  post: vi.fn(),
+}));
+
+vi.mock("@/shared/utils/download", () => ({
+  downloadTextFile: vi.fn(),
 }));
 
 // Mock useParams from react-router
@@ -51,7 +61,9 @@ vi.mock("react-router", async (importOriginal) => {
 describe("CaseShow", () => {
   const mockUseCase = vi.mocked(hooks.useCase);
   const mockUseCaseActivity = vi.mocked(hooks.useCaseActivity);
+  const mockUseCaseTimeline = vi.mocked(hooks.useCaseTimeline);
   const mockGet = vi.mocked(api.get);
+  const mockPost = vi.mocked(api.post);
 
   // Mock data
   const mockCaseData = {
@@ -125,6 +137,29 @@ describe("CaseShow", () => {
     },
   ];
 
+  const mockTimelineEvents: CaseTimelineEvent[] = [
+    {
+      id: "activity:activity_1",
+      type: "ACTIVITY",
+      occurred_at: "2024-01-15T11:00:00Z",
+      title: "Case status changed from OPEN to IN_PROGRESS",
+      description: null,
+      analyst_id: "user_1",
+      analyst_name: "John Doe",
+      transaction_id: null,
+    },
+    {
+      id: "review:rev_1:escalated",
+      type: "ESCALATION",
+      occurred_at: "2024-01-15T12:00:00Z",
+      title: "Escalated to supervisor_1",
+      description: "Chargeback over threshold",
+      analyst_id: "user_1",
+      analyst_name: "John Doe",
+      transaction_id: "txn_12345678901234567890",
+    },
+  ];
+
   const mockGo = vi.fn();
 
   beforeEach(() => {
@@ -152,6 +187,13 @@ describe("CaseShow", () => {
       refetch: vi.fn(),
     });
 
+    mockUseCaseTimeline.mockReturnValue({
+      events: mockTimelineEvents,
+      isLoading: false,
+      error: null,
+      refetch: vi.fn(),
+    });
+
     mockGet.mockResolvedValue({
       items: mockTransactions,
     });
@@ -388,6 +430,60 @@ describe("CaseShow", () => {
     });
   });
 
+  describe("Timeline Tab", () => {
+    it("does not load the timeline until its tab is opened", async () => {
+      render(<CaseShow />);
+
+      await screen.findByText("Timeline");
+      expect(mockUseCaseTimeline).toHaveBeenLastCalledWith(
+        expect.objectContaining({ enabled: false })
+      );
+    });
+
+    it("loads the timeline for the linked transactions once its tab is opened", async () => {
+      render(<CaseShow />);
+
+      fireEvent.click(await screen.findByText("Timeline"));
+
+      await waitFor(() => {
+        expect(mockUseCaseTimeline).toHaveBeenLastCalledWith({
+          activities: mockActivities,
+          transactionIds: mockTransactions.map((t) => t.transaction_id),
+          enabled: true,
+        });
+      });
+    });
+
+    it("renders merged timeline events", async () => {
+      render(<CaseShow />);
+
+      fireEvent.click(await screen.findByText("Timeline"));
+
+      await waitFor(() => {
+        expect(screen.getByText("Escalated to supervisor_1")).toBeInTheDocument();
+        expect(screen.getByText("Chargeback over threshold")).toBeInTheDocument();
+        expect(screen.getByText("2 of 2 events")).toBeInTheDocument();
+      });
+    });
+
+    it("warns when some timeline sources failed", async () => {
+      mockUseCaseTimeline.mockReturnValue({
+        events: mockTimelineEvents,
+        isLoading: false,
+        error: new Error("1 timeline source(s) failed to load; showing the rest"),
+        refetch: vi.fn(),
+      });
+
+      render(<CaseShow />);
+
+      fireEvent.click(await screen.findByText("Timeline"));
+
+      expect(
+        await screen.findByText("1 timeline source(s) failed to load; showing the rest")
+      ).toBeInTheDocument();
+    });
+  });
+
   describe("Activity Tab", () => {
     it("renders activity log tab", async () => {
       render(<CaseShow />);
@@ -470,6 +566,119 @@ describe("CaseShow", () => {
     });
   });
 
+  describe("Evidence Package Export", () => {
+    it("downloads the manifest and report for the case", async () => {
+      render(<CaseShow />);
+
+      fireEvent.click(await screen.findByRole("button", { name: /Export Evidence Package/ }));
+
+      await waitFor(() => {
+        expect(downloadTextFile).toHaveBeenCalledWith(
+          "CASE-2024-001-evidence.json",
+          expect.stringContaining('"hash": "sha256:'),
+          "application/json"
+        );
+        expect(downloadTextFile).toHaveBeenCalledWith(
+          "CASE-2024-001-evidence.html",
+          expect.stringContaining("Evidence package CASE-2024-001"),
+          "text/html"
+        );
+      });
+      expect(mockGet).toHaveBeenCalledWith(
+        expect.stringContaining("/transactions/txn_12345678901234567890/overview")
+      );
+    });
+
+    it("masks sensitive values and records the export in the audit log", async () => {
+      mockGet.mockImplementation((url: string) => {
+        if (url.includes("/rule-fields")) {
+          return Promise.resolve({ items: [{ field_key: "MERCHANT_ID", is_sensitive: true }] });
+        }
+        if (url.includes("/overview")) {
+          return Promise.resolve({
+            transaction: {
+              transaction_id: "txn_12345678901234567890",
+              amount: 1500,
+              currency: "USD",
+              decision: "ALLOW",
+              transaction_timestamp: "2024-01-15T10:30:00Z",
+              card_last4: "4242",
+              card_network: "VISA",
+              merchant_id: "merch_secret",
+              mcc: "5732",
+            },
+            matched_rules: [
+              { rule_id: "rule_1", conditions_met: ["MERCHANT_ID == merch_secret", "MCC = 5732"] },
+            ],
+            notes: [],
+          });
+        }
+        return Promise.resolve({ items: mockTransactions });
+      });
+      render(<CaseShow />);
+
+      const button = await screen.findByRole("button", { name: /Export Evidence Package/ });
+      await waitFor(() => expect(button).toBeEnabled());
+      fireEvent.click(button);
+
+      await waitFor(() => expect(downloadTextFile).toHaveBeenCalledTimes(2));
+      const manifest = vi.mocked(downloadTextFile).mock.calls[0][1];
+      expect(manifest).not.toContain("merch_secret");
+      expect(manifest).toContain('"condition_summary": "MERCHANT_ID •••••• AND MCC = 5732"');
+      expect(manifest).toContain('"masked_fields": [\n      "MERCHANT_ID"\n    ]');
+      const hash = (JSON.parse(manifest) as { integrity: { hash: string } }).integrity.hash;
+      expect(mockPost).toHaveBeenCalledWith("/api/v1/audit-log/exports", {
+        entity_type: "CASE",
+        entity_id: "case_1",
+        integrity_hash: hash,
+        masked_field_keys: ["MERCHANT_ID"],
+      });
+    });
+
+    it("downloads nothing when the export cannot be audited", async () => {
+      mockPost.mockRejectedValue(new Error("Network error"));
+      render(<CaseShow />);
+
+      const button = await screen.findByRole("button", { name: /Export Evidence Package/ });
+      await waitFor(() => expect(button).toBeEnabled());
+      fireEvent.click(button);
+
+      await waitFor(() => expect(mockPost).toHaveBeenCalled());
+      await waitFor(() => expect(button).not.toHaveClass("ant-btn-loading"));
+      expect(downloadTextFile).not.toHaveBeenCalled();
+    });
+
+    it("cannot export until the sensitive fields are known", async () => {
+      mockGet.mockImplementation((url: string) =>
+        url.includes("/rule-fields")
+          ? Promise.reject(new Error("Unavailable"))
+          : Promise.resolve({ items: mockTransactions })
+      );
+      render(<CaseShow />);
+
+      const button = await screen.findByRole("button", { name: /Export Evidence Package/ });
+      await waitFor(() =>
+        expect(mockGet).toHaveBeenCalledWith(
+          expect.stringContaining("/rule-fields"),
+          expect.anything()
+        )
+      );
+      expect(button).toBeDisabled();
+    });
+
+    it("downloads nothing when a transaction fails to load", async () => {
+      render(<CaseShow />);
+
+      const button = await screen.findByRole("button", { name: /Export Evidence Package/ });
+      await waitFor(() => expect(button).toBeEnabled());
+      mockGet.mockRejectedValue(new Error("Network error"));
+      fireEvent.click(button);
+
+      await waitFor(() => expect(button).not.toHaveClass("ant-btn-loading"));
+      expect(downloadTextFile).not.toHaveBeenCalled();
+    });
+  });
+
   describe("Navigation", () => {
     it("navigates back to cases list when back button is clicked", async () => {
       render(<CaseShow />);
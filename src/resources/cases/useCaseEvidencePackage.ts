@@ -0,0 +1,94 @@
+import { useCallback, useState } from "react";
+import { get, post } from "../../api/httpClient";
+import { AUDIT_LOGS, TRANSACTIONS } from "../../api/endpoints";
+import type { RecordEvidenceExportRequest } from "../../api/types";
+import { mapWithConcurrency } from "../../shared/utils/concurrency";
+import { downloadTextFile } from "../../shared/utils/download";
+import {
+  buildEvidencePackageContent,
+  evidenceFileName,
+  maskEvidenceContent,
+  renderEvidenceReport,
+  sealEvidencePackage,
+  serializeEvidencePackage,
+  type EvidencePackage,
+} from "../../shared/utils/evidencePackage";
+import { MASK_ALL_KEYS } from "../../shared/utils/sensitiveData";
+import type { CaseActivity, TransactionCase } from "../../types/case";
+import { EntityType } from "../../types/enums";
+import type { TransactionOverview } from "../../types/transaction";
+import type { CaseTransaction } from "./types";
+
+/** Overviews fetched at once; large cases would otherwise flood the API */
+const OVERVIEW_CONCURRENCY = 4;
+
+/**
+ * Loads every linked transaction's overview, masks sensitive values, seals
+ * the evidence package, records the export in the audit log and downloads
+ * its JSON manifest and printable report. Evidence is all or nothing: if any
+ * transaction fails to load or the audit write fails, nothing is downloaded.
+ * Until the sensitive fields are known nothing can be exported.
+ */
+export function useCaseEvidencePackage({
+  caseData,
+  transactions,
+  activities,
+  generatedBy,
+  sensitiveKeys,
+}: {
+  caseData: TransactionCase;
+  transactions: CaseTransaction[];
+  activities: CaseActivity[];
+  generatedBy: string;
+  /** Sensitive field keys whose values are masked in the package */
+  sensitiveKeys: ReadonlySet<string>;
+}): {
+  exportPackage: () => Promise<EvidencePackage>;
+  isExporting: boolean;
+} {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const exportPackage = useCallback(async (): Promise<EvidencePackage> => {
+    if (sensitiveKeys === MASK_ALL_KEYS) {
+      throw new Error("Sensitive fields are not known yet");
+    }
+    setIsExporting(true);
+    try {
+      const overviews = await mapWithConcurrency(transactions, OVERVIEW_CONCURRENCY, (txn) =>
+        get<TransactionOverview>(`${TRANSACTIONS.OVERVIEW(txn.transaction_id)}?include_rules=true`)
+      );
+      const content = buildEvidencePackageContent({
+        caseData,
+        transactions,
+        overviews: Object.fromEntries(
+          transactions.map((txn, index) => [txn.transaction_id, overviews[index]])
+        ),
+        activities,
+        generatedBy,
+        generatedAt: new Date().toISOString(),
+      });
+      const pkg = await sealEvidencePackage(maskEvidenceContent(content, sensitiveKeys));
+      const auditEntry: RecordEvidenceExportRequest = {
+        entity_type: EntityType.CASE,
+        entity_id: caseData.id,
+        integrity_hash: pkg.integrity.hash,
+        masked_field_keys: pkg.content.masked_fields,
+      };
+      await post(AUDIT_LOGS.EXPORTS, auditEntry);
+
+      downloadTextFile(
+        evidenceFileName(pkg, "json"),
+        serializeEvidencePackage(pkg),
+        "application/json"
+      );
+      downloadTextFile(evidenceFileName(pkg, "html"), renderEvidenceReport(pkg), "text/html");
+      return pkg;
+    } finally {
+      setIsExporting(false);
+    }
+  }, [caseData, transactions, activities, generatedBy, sensitiveKeys]);
+
+  return { exportPackage, isExporting };
+}
+
+export default useCaseEvidencePackage;
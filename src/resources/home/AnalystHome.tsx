@@ -2,69 +2,23 @@
  * Analyst Home
  *
  * Landing page for fraud analysts with worklist summary, quick actions,
- * and saved views.
+ * saved views, note mentions and upcoming rule set activations.
  */
 
 import { useMemo, type FC } from "react";
 import { useNavigate } from "react-router";
-import { Card, Col, List, Row, Space, Typography, Button, Tag, Empty } from "antd";
-import { ThunderboltOutlined, FilterOutlined, BarChartOutlined } from "@ant-design/icons";
-import type { RiskLevel, TransactionStatus } from "../../types/review";
+import { Card, Col, List, Row, Space, Typography, Button, Tag } from "antd";
+import { ThunderboltOutlined, BarChartOutlined } from "@ant-design/icons";
+import type { RiskLevel } from "../../types/review";
 import { useWorklistStats } from "../../hooks";
 import { PRIORITY_CONFIG, RISK_LEVEL_CONFIG } from "../../types/worklist";
+import { ScheduledActivationsCalendar } from "../../components/ruleSetSchedule";
+import { SavedViewsCard } from "./components/SavedViewsCard";
+import { MentionsCard } from "./components/MentionsCard";
 import "./analyst-home.css";
 
 const { Title, Text } = Typography;
 
-type SavedView = {
-  key: string;
-  label: string;
-  description: string;
-  filters: {
-    status?: TransactionStatus;
-    risk?: RiskLevel;
-    priority?: number;
-    assignedOnly?: boolean;
-  };
-};
-
-const SAVED_VIEWS: SavedView[] = [
-  {
-    key: "my-queue",
-    label: "Assigned to me",
-    description: "Assigned to me, ready to review.",
-    filters: { assignedOnly: true },
-  },
-  {
-    key: "critical",
-    label: "Critical Priority",
-    description: "P1, highest risk reviews first.",
-    filters: { priority: 1, risk: "CRITICAL" },
-  },
-  {
-    key: "high-risk",
-    label: "High Risk",
-    description: "High risk across all priorities.",
-    filters: { risk: "HIGH" },
-  },
-  {
-    key: "escalated",
-    label: "Escalations",
-    description: "Escalated reviews waiting on action.",
-    filters: { status: "ESCALATED" },
-  },
-];
-
-const buildWorklistQuery = (filters: SavedView["filters"]): string => {
-  const params = new URLSearchParams();
-  if (filters.status != null) params.set("status", filters.status);
-  if (filters.risk != null) params.set("risk_level_filter", filters.risk);
-  if (filters.priority != null) params.set("priority_filter", String(filters.priority));
-  if (filters.assignedOnly === true) params.set("assigned_only", "true");
-  const query = params.toString();
-  return query.length > 0 ? `?${query}` : "";
-};
-
 export const AnalystHome: FC = () => {
   const navigate = useNavigate();
   const { stats, isLoading } = useWorklistStats(true, 60000);
@@ -91,10 +45,6 @@ export const AnalystHome: FC = () => {
     [stats?.unassigned_by_risk]
   );
 
-  const handleOpenView = (filters: SavedView["filters"]): void => {
-    void navigate(`/worklist${buildWorklistQuery(filters)}`);
-  };
-
   return (
     <Space direction="vertical" size="large" className="analyst-home-root">
       <Space direction="vertical" size={4} className="stats-vertical">
@@ -177,34 +127,11 @@ export const AnalystHome: FC = () => {
         </Col>
       </Row>
 
-      <Card size="small" title="Saved Views" extra={<FilterOutlined />}>
-        <List
-          dataSource={SAVED_VIEWS}
-          locale={{
-            emptyText: (
-              <Empty description="No saved views yet" image={Empty.PRESENTED_IMAGE_SIMPLE} />
-            ),
-          }}
-          renderItem={(view) => (
-            <List.Item
-              actions={[
-                <Button
-                  key="open"
-                  type="link"
-                  onClick={() => {
-                    handleOpenView(view.filters);
-                  }}
-                >
-                  Open
-                </Button>,
-              ]}
-            >
-              <List.Item.Meta title={view.label} description={view.description} />
-            </List.Item>
-          )}
-        />
-      </Card>
+      <SavedViewsCard />
+
+      <MentionsCard />
 
+      <ScheduledActivationsCalendar />
       <Card size="small">
         <Space direction="vertical" size={4}>
           <Text strong>Metrics</Text>
@@ -0,0 +1,69 @@
+/**
+ * Tests for the home page list of note mentions
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, userEvent } from "@/test/utils";
+import { MentionsCard } from "../components/MentionsCard";
+import { useNoteMentions } from "../../../hooks";
+
+vi.mock("../../../hooks", () => ({
+  useNoteMentions: vi.fn(),
+}));
+
+const mockNavigate = vi.fn();
+vi.mock("react-router", async () => {
+  const actual = await vi.importActual("react-router");
+  return {
+    ...(actual as object),
+    useNavigate: () => mockNavigate,
+  };
+});
+
+describe("MentionsCard", () => {
+  const mockUseNoteMentions = vi.mocked(useNoteMentions);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("lists who mentioned the analyst and opens the transaction", async () => {
+    const user = userEvent.setup();
+    mockUseNoteMentions.mockReturnValue({
+      mentions: [
+        {
+          mention_id: "mention-1",
+          note_id: "note-1",
+          transaction_id: "txn_001",
+          mentioned_user_id: "user_checker_1",
+          mentioned_by_id: "user_maker_1",
+          mentioned_by_name: "John Maker",
+          excerpt: "@checker1 please review the chargeback",
+          created_at: "2026-03-01T10:00:00Z",
+        },
+      ],
+      isLoading: false,
+      error: null,
+      refetch: vi.fn(),
+    });
+    render(<MentionsCard />);
+
+    expect(screen.getByText("John Maker mentioned you")).toBeInTheDocument();
+    expect(screen.getByText("@checker1 please review the chargeback")).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Open" }));
+    expect(mockNavigate).toHaveBeenCalledWith("/transactions/show/txn_001");
+  });
+
+  it("shows an empty state without mentions", () => {
+    mockUseNoteMentions.mockReturnValue({
+      mentions: [],
+      isLoading: false,
+      error: null,
+      refetch: vi.fn(),
+    });
+    render(<MentionsCard />);
+
+    expect(screen.getByText("No mentions yet")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Tests for the home page saved views, driven by the MSW handlers
+ */
+
+import { describe, it, expect } from "vitest";
+import { render, screen, userEvent, waitFor, within } from "@/test/utils";
+import { SavedViewsCard } from "../components/SavedViewsCard";
+
+const findViewItem = async (name: string): Promise<HTMLElement> =>
+  (await screen.findByText(name)).closest(".ant-list-item") as HTMLElement;
+
+describe("SavedViewsCard", () => {
+  it("lists pinned team views first with live counts", async () => {
+    render(<SavedViewsCard />);
+
+    const item = await findViewItem("Large declines this week");
+    expect(within(item).getByText("Transactions")).toBeInTheDocument();
+    expect(within(item).getByText("Amount ≥ 1,000")).toBeInTheDocument();
+    expect(within(item).getByText("Last 7 days")).toBeInTheDocument();
+    await waitFor(() => expect(within(item).getByText("1")).toBeInTheDocument());
+
+    const titles = Array.from(document.querySelectorAll(".ant-list-item-meta-title")).map(
+      (el) => el.textContent
+    );
+    expect(titles.slice(0, 2)).toEqual(["Assigned to me", "Critical Priority"]);
+  });
+
+  it("creates a private view from the modal", async () => {
+    const user = userEvent.setup();
+    render(<SavedViewsCard />);
+    await screen.findByText("High Risk");
+
+    await user.click(screen.getByRole("button", { name: /New view/ }));
+    const dialog = await screen.findByRole("dialog");
+    await user.type(within(dialog).getByLabelText("Name"), "My escalations");
+    await user.click(within(dialog).getByRole("button", { name: "Save" }));
+
+    expect(await screen.findByText("My escalations")).toBeInTheDocument();
+    expect(await screen.findByText("View saved")).toBeInTheDocument();
+  });
+});
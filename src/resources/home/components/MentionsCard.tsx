@@ -0,0 +1,68 @@
+/**
+ * MentionsCard Component
+ *
+ * Home page list of notes in which other analysts have @mentioned the
+ * current analyst, each linking to the transaction the note is on.
+ */
+
+import type { FC } from "react";
+import { useNavigate } from "react-router";
+import { Button, Card, Empty, List, Space, Typography } from "antd";
+import { useNoteMentions } from "../../../hooks";
+
+const { Text } = Typography;
+
+const MENTIONS_REFRESH_MS = 60000;
+
+const formatMentionTime = (dateStr: string): string =>
+  new Date(dateStr).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export const MentionsCard: FC = () => {
+  const navigate = useNavigate();
+  const { mentions, isLoading } = useNoteMentions({ refreshIntervalMs: MENTIONS_REFRESH_MS });
+
+  return (
+    <Card size="small" title="Mentions">
+      <List
+        loading={isLoading}
+        dataSource={mentions}
+        rowKey="mention_id"
+        locale={{
+          emptyText: <Empty description="No mentions yet" image={Empty.PRESENTED_IMAGE_SIMPLE} />,
+        }}
+        renderItem={(mention) => (
+          <List.Item
+            actions={[
+              <Button
+                key="open"
+                type="link"
+                onClick={() => void navigate(`/transactions/show/${mention.transaction_id}`)}
+              >
+                Open
+              </Button>,
+            ]}
+          >
+            <List.Item.Meta
+              title={`${mention.mentioned_by_name ?? mention.mentioned_by_id} mentioned you`}
+              description={
+                <Space direction="vertical" size={0}>
+                  <Text>{mention.excerpt}</Text>
+                  <Text type="secondary">
+                    {mention.transaction_id} · {formatMentionTime(mention.created_at)}
+                  </Text>
+                </Space>
+              }
+            />
+          </List.Item>
+        )}
+      />
+    </Card>
+  );
+};
+
+export default MentionsCard;
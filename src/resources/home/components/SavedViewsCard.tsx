@@ -0,0 +1,175 @@
+/**
+ * SavedViewsCard Component
+ *
+ * Home page list of the analyst's saved views with live match counts. Owners
+ * can edit and delete their views; anyone can pin a view they can see.
+ */
+
+import { useState, type FC, type ReactElement } from "react";
+import { useNavigate } from "react-router";
+import { useGetIdentity } from "@refinedev/core";
+import { Badge, Button, Card, Empty, List, Popconfirm, Space, Tag, Tooltip, message } from "antd";
+import {
+  DeleteOutlined,
+  EditOutlined,
+  PlusOutlined,
+  PushpinFilled,
+  PushpinOutlined,
+  TeamOutlined,
+} from "@ant-design/icons";
+import { useSavedViews } from "../../../hooks";
+import { SavedViewFormModal } from "../../../components/savedViews";
+import { buildSavedViewPath, describeSavedViewFilters } from "../../../shared/utils/savedViews";
+import type { SavedView, SavedViewCreateRequest } from "../../../types/savedView";
+import "../../../components/savedViews/saved-views.css";
+
+const COUNTS_REFRESH_MS = 60000;
+
+type EditorState = { mode: "create" } | { mode: "edit"; view: SavedView } | null;
+
+function errorMessage(err: unknown, fallback: string): string {
+  return err instanceof Error ? err.message : fallback;
+}
+
+function ViewDescription({ view }: { view: SavedView }): ReactElement {
+  const filters = describeSavedViewFilters(view);
+  return (
+    <Space direction="vertical" size={0}>
+      {view.description != null && view.description !== "" && <span>{view.description}</span>}
+      <Space size={[4, 4]} wrap className="saved-view-filter-tags">
+        <Tag color={view.target === "worklist" ? "blue" : "purple"}>
+          {view.target === "worklist" ? "Worklist" : "Transactions"}
+        </Tag>
+        {view.visibility === "TEAM" && (
+          <Tag icon={<TeamOutlined />}>{view.owner_name ?? "Team"}</Tag>
+        )}
+        {filters.map((label) => (
+          <Tag key={label}>{label}</Tag>
+        ))}
+      </Space>
+    </Space>
+  );
+}
+
+export const SavedViewsCard: FC = () => {
+  const navigate = useNavigate();
+  const { data: identity } = useGetIdentity<{ id?: string; user_id?: string }>();
+  const currentUserId = identity?.id ?? identity?.user_id;
+  const { views, counts, isLoading, createView, updateView, deleteView, setPinned } = useSavedViews(
+    { withCounts: true, countsRefreshIntervalMs: COUNTS_REFRESH_MS }
+  );
+  const [editor, setEditor] = useState<EditorState>(null);
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = (request: SavedViewCreateRequest): void => {
+    if (editor == null) return;
+    setSaving(true);
+    const action =
+      editor.mode === "edit" ? updateView(editor.view.id, request) : createView(request);
+    action
+      .then(() => {
+        setEditor(null);
+        void message.success(editor.mode === "edit" ? "View updated" : "View saved");
+      })
+      .catch((err: unknown) => {
+        void message.error(errorMessage(err, "Could not save view"));
+      })
+      .finally(() => setSaving(false));
+  };
+
+  const handleDelete = (view: SavedView): void => {
+    deleteView(view.id).catch((err: unknown) => {
+      void message.error(errorMessage(err, "Could not delete view"));
+    });
+  };
+
+  const handleTogglePin = (view: SavedView): void => {
+    setPinned(view.id, !view.pinned).catch((err: unknown) => {
+      void message.error(errorMessage(err, "Could not update pin"));
+    });
+  };
+
+  const renderActions = (view: SavedView): ReactElement[] => {
+    const actions = [
+      <Tooltip key="pin" title={view.pinned ? "Unpin" : "Pin"}>
+        <Button
+          type="text"
+          aria-label={view.pinned ? `Unpin ${view.name}` : `Pin ${view.name}`}
+          icon={view.pinned ? <PushpinFilled /> : <PushpinOutlined />}
+          onClick={() => handleTogglePin(view)}
+        />
+      </Tooltip>,
+      <Button key="open" type="link" onClick={() => void navigate(buildSavedViewPath(view))}>
+        Open
+      </Button>,
+    ];
+    if (view.owner_id !== currentUserId) return actions;
+    return [
+      ...actions,
+      <Button
+        key="edit"
+        type="text"
+        aria-label={`Edit ${view.name}`}
+        icon={<EditOutlined />}
+        onClick={() => setEditor({ mode: "edit", view })}
+      />,
+      <Popconfirm
+        key="delete"
+        title="Delete this view?"
+        description={view.visibility === "TEAM" ? "Your team will lose it too." : undefined}
+        onConfirm={() => handleDelete(view)}
+      >
+        <Button type="text" danger aria-label={`Delete ${view.name}`} icon={<DeleteOutlined />} />
+      </Popconfirm>,
+    ];
+  };
+
+  return (
+    <Card
+      size="small"
+      title="Saved Views"
+      extra={
+        <Button size="small" icon={<PlusOutlined />} onClick={() => setEditor({ mode: "create" })}>
+          New view
+        </Button>
+      }
+    >
+      <List
+        loading={isLoading}
+        dataSource={views}
+        locale={{
+          emptyText: (
+            <Empty description="No saved views yet" image={Empty.PRESENTED_IMAGE_SIMPLE} />
+          ),
+        }}
+        renderItem={(view) => (
+          <List.Item actions={renderActions(view)}>
+            <List.Item.Meta
+              avatar={
+                <Badge
+                  count={counts[view.id] ?? "–"}
+                  showZero
+                  overflowCount={999}
+                  color={counts[view.id] === 0 ? "default" : "blue"}
+                  className="saved-view-count"
+                />
+              }
+              title={view.name}
+              description={<ViewDescription view={view} />}
+            />
+          </List.Item>
+        )}
+      />
+      <SavedViewFormModal
+        open={editor != null}
+        title={editor?.mode === "edit" ? "Edit view" : "New saved view"}
+        initialValues={editor?.mode === "edit" ? editor.view : undefined}
+        loading={saving}
+        onCancel={() => setEditor(null)}
+        onSubmit={handleSubmit}
+      />
+    </Card>
+  );
+};
+
+export default SavedViewsCard;
@@ -0,0 +1,51 @@
+/**
+ * Tests for the investigation run detail page, driven by the MSW handlers
+ */
+
+import { describe, it, expect } from "vitest";
+import { Routes, Route } from "react-router";
+import { render, screen, userEvent } from "@/test/utils";
+import { OpsAnalystInvestigationShow } from "../investigation";
+
+const renderRun = (runId: string) =>
+  render(
+    <Routes>
+      <Route path="/ops-analyst/investigations/:runId" element={<OpsAnalystInvestigationShow />} />
+    </Routes>,
+    { initialRoute: `/ops-analyst/investigations/${runId}` }
+  );
+
+describe("OpsAnalystInvestigationShow", () => {
+  it("renders stages, evidence by kind and linked recommendations", async () => {
+    renderRun("run-mock-001");
+
+    expect(await screen.findByText("Investigation run run-mock-001")).toBeInTheDocument();
+    expect(screen.getByText("Velocity Analysis")).toBeInTheDocument();
+    expect(screen.getByText("Slowest")).toBeInTheDocument();
+    expect(screen.getByText("5 transactions in 2 minutes")).toBeInTheDocument();
+    expect(screen.getByRole("link", { name: "Card Testing Velocity" })).toHaveAttribute(
+      "href",
+      "/rules/show/rule_004"
+    );
+    expect(screen.getByText("Chargeback rate 3.4%")).toBeInTheDocument();
+    expect(screen.getByText("Create velocity rule for $1–$5 range")).toBeInTheDocument();
+  });
+
+  it("opens a deep re-run of the same transaction", async () => {
+    const user = userEvent.setup();
+    renderRun("run-mock-001");
+
+    await user.click(await screen.findByRole("button", { name: /Re-run deep/ }));
+
+    expect(await screen.findByText("Deep")).toBeInTheDocument();
+    expect(screen.getByText(/Investigation run run-mock-1\d\d/)).toBeInTheDocument();
+    expect(screen.getByRole("link", { name: "txn-mock-001" })).toBeInTheDocument();
+  });
+
+  it("reports a missing run", async () => {
+    renderRun("run-unknown");
+
+    expect(await screen.findByRole("alert")).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: /Re-run deep/ })).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,29 @@
+/**
+ * Tests for the recommendation quality dashboard, driven by the MSW handlers
+ */
+
+import { describe, it, expect } from "vitest";
+import { render, screen, within } from "@/test/utils";
+import { OpsAnalystQualityDashboard } from "../quality";
+
+describe("OpsAnalystQualityDashboard", () => {
+  it("breaks acceptance down by model mode", async () => {
+    render(<OpsAnalystQualityDashboard />);
+
+    const card = (await screen.findByText("By model mode")).closest(".ant-card") as HTMLElement;
+    expect(await within(card).findByText("Agentic")).toBeInTheDocument();
+    expect(within(card).getByText("Hybrid")).toBeInTheDocument();
+    expect(within(card).getByText("Deterministic")).toBeInTheDocument();
+  });
+
+  it("relates insight severity to review outcomes", async () => {
+    render(<OpsAnalystQualityDashboard />);
+
+    const card = (await screen.findByText("Insight severity vs. review outcome")).closest(
+      ".ant-card"
+    ) as HTMLElement;
+    expect(await within(card).findByText("CRITICAL")).toBeInTheDocument();
+    expect(within(card).getByText("Fraud Confirmed")).toBeInTheDocument();
+    expect(within(card).getByText("Unresolved")).toBeInTheDocument();
+  });
+});
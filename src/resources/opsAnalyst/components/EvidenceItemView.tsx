@@ -0,0 +1,176 @@
+/**
+ * EvidenceItemView Component
+ *
+ * Renders one piece of investigation evidence according to its
+ * `evidence_kind`; unknown kinds fall back to a labelled field list.
+ */
+
+import type { FC, ReactElement } from "react";
+import { Link } from "react-router";
+import { Card, Descriptions, List, Space, Table, Tag, Typography } from "antd";
+import type { EvidenceItem } from "../../../types/opsAnalyst";
+import { formatAmount, formatPercentage, labelForEnumValue } from "../../../shared/utils/format";
+import { formatEvidenceValue } from "../../../shared/utils/investigationRun";
+import { getDecisionColor, getRuleActionColor } from "../../../theme/tokens";
+
+const { Text } = Typography;
+
+type Payload = Record<string, unknown>;
+
+interface EvidenceRule {
+  rule_id: string;
+  rule_name?: string;
+  action?: string;
+}
+
+interface SimilarTransaction {
+  transaction_id: string;
+  amount?: number;
+  currency?: string;
+  decision?: string;
+  similarity?: number;
+}
+
+function readRecords<T extends object>(payload: Payload, key: string, idKey: keyof T): T[] {
+  const value = payload[key];
+  if (!Array.isArray(value)) return [];
+  return value.filter(
+    (entry): entry is T =>
+      entry != null && typeof entry === "object" && typeof (entry as T)[idKey] === "string"
+  );
+}
+
+function readNumber(payload: Payload, key: string): number | null {
+  const value = payload[key];
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+function FieldList({ payload }: { payload: Payload }): ReactElement {
+  return (
+    <Descriptions size="small" column={1}>
+      {Object.entries(payload).map(([key, value]) => (
+        <Descriptions.Item key={key} label={labelForEnumValue(key)}>
+          {formatEvidenceValue(value)}
+        </Descriptions.Item>
+      ))}
+    </Descriptions>
+  );
+}
+
+function VelocityPattern({ payload }: { payload: Payload }): ReactElement {
+  const count = readNumber(payload, "transaction_count");
+  const windowMinutes = readNumber(payload, "window_minutes");
+  const { transaction_count: _c, window_minutes: _w, geo_match: geoMatch, ...rest } = payload;
+  return (
+    <Space direction="vertical" size="small" className="full-width">
+      <Space wrap>
+        {count != null && (
+          <Text strong>
+            {count} transactions
+            {windowMinutes == null
+              ? ""
+              : ` in ${windowMinutes} minute${windowMinutes === 1 ? "" : "s"}`}
+          </Text>
+        )}
+        {typeof geoMatch === "boolean" && (
+          <Tag color={geoMatch ? "red" : "default"}>
+            {geoMatch ? "Same location" : "Different locations"}
+          </Tag>
+        )}
+      </Space>
+      {Object.keys(rest).length > 0 && <FieldList payload={rest} />}
+    </Space>
+  );
+}
+
+function RuleMatches({ payload }: { payload: Payload }): ReactElement {
+  const rules = readRecords<EvidenceRule>(payload, "rules", "rule_id");
+  return (
+    <List
+      size="small"
+      dataSource={rules}
+      locale={{ emptyText: "No rules matched" }}
+      renderItem={(rule) => (
+        <List.Item>
+          <Space>
+            <Link to={`/rules/show/${rule.rule_id}`}>{rule.rule_name ?? rule.rule_id}</Link>
+            {rule.action != null && (
+              <Tag color={getRuleActionColor(rule.action)}>{rule.action}</Tag>
+            )}
+          </Space>
+        </List.Item>
+      )}
+    />
+  );
+}
+
+function SimilarTransactions({ payload }: { payload: Payload }): ReactElement {
+  const transactions = readRecords<SimilarTransaction>(payload, "transactions", "transaction_id");
+  return (
+    <Table<SimilarTransaction>
+      size="small"
+      rowKey="transaction_id"
+      pagination={false}
+      dataSource={transactions}
+      columns={[
+        {
+          title: "Transaction",
+          dataIndex: "transaction_id",
+          render: (id: string) => <Link to={`/transactions/show/${id}`}>{id}</Link>,
+        },
+        {
+          title: "Amount",
+          key: "amount",
+          render: (_, txn) =>
+            txn.amount == null ? "—" : formatAmount(txn.amount, txn.currency ?? "USD"),
+        },
+        {
+          title: "Decision",
+          dataIndex: "decision",
+          render: (decision?: string) =>
+            decision == null ? "—" : <Tag color={getDecisionColor(decision)}>{decision}</Tag>,
+        },
+        {
+          title: "Similarity",
+          dataIndex: "similarity",
+          render: (similarity?: number) =>
+            similarity == null ? "—" : formatPercentage(similarity, 0),
+        },
+      ]}
+    />
+  );
+}
+
+function MerchantProfile({ payload }: { payload: Payload }): ReactElement {
+  const chargebackRate = readNumber(payload, "chargeback_rate");
+  const { chargeback_rate: _r, high_risk: highRisk, ...rest } = payload;
+  return (
+    <Space direction="vertical" size="small" className="full-width">
+      <Space wrap>
+        {highRisk === true && <Tag color="red">High-risk merchant</Tag>}
+        {chargebackRate != null && <Text>Chargeback rate {formatPercentage(chargebackRate)}</Text>}
+      </Space>
+      <FieldList payload={rest} />
+    </Space>
+  );
+}
+
+const EVIDENCE_RENDERERS: Record<string, FC<{ payload: Payload }>> = {
+  velocity_pattern: VelocityPattern,
+  rule_matches: RuleMatches,
+  similar_transactions: SimilarTransactions,
+  merchant_profile: MerchantProfile,
+};
+
+export interface EvidenceItemViewProps {
+  evidence: EvidenceItem;
+}
+
+export const EvidenceItemView: FC<EvidenceItemViewProps> = ({ evidence }) => {
+  const Renderer = EVIDENCE_RENDERERS[evidence.evidence_kind] ?? FieldList;
+  return (
+    <Card size="small" title={labelForEnumValue(evidence.evidence_kind)} variant="outlined">
+      <Renderer payload={evidence.evidence_payload} />
+    </Card>
+  );
+};
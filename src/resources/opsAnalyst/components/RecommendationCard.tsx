@@ -1,6 +1,7 @@
 import { useState, type FC } from "react";
+import { Link } from "react-router";
 import { Button, Card, Modal, Space, Tag, Typography, Input } from "antd";
-import { CheckOutlined, CloseOutlined } from "@ant-design/icons";
+import { CheckOutlined, CloseOutlined, ExportOutlined } from "@ant-design/icons";
 import type { RecommendationDetail, AcknowledgeRequest } from "../../../types/opsAnalyst";
 
 const { Text, Paragraph } = Typography;
@@ -12,17 +13,53 @@ const TYPE_LABELS: Record<string, string> = {
   rule_candidate: "Rule Candidate",
 };
 
+/** Rule candidates can become rule drafts until they are rejected or exported */
+function isConvertible(recommendation: RecommendationDetail): boolean {
+  return (
+    recommendation.type === "rule_candidate" &&
+    (recommendation.status === "OPEN" || recommendation.status === "ACKNOWLEDGED")
+  );
+}
+
+function decisionText(recommendation: RecommendationDetail): string {
+  return recommendation.acknowledged_at != null
+    ? new Date(recommendation.acknowledged_at).toLocaleString()
+    : recommendation.status;
+}
+
 interface Props {
   recommendation: RecommendationDetail;
   onAcknowledge: (id: string, req: AcknowledgeRequest) => Promise<void>;
+  onConvertToRuleDraft?: (recommendation: RecommendationDetail) => Promise<void>;
 }
 
-export const RecommendationCard: FC<Props> = ({ recommendation, onAcknowledge }) => {
+export const RecommendationCard: FC<Props> = ({
+  recommendation,
+  onAcknowledge,
+  onConvertToRuleDraft,
+}) => {
   const [loading, setLoading] = useState(false);
+  const [converting, setConverting] = useState(false);
   const [commentModal, setCommentModal] = useState<"ACKNOWLEDGED" | "REJECTED" | null>(null);
   const [comment, setComment] = useState("");
 
   const isOpen = recommendation.status === "OPEN";
+  const canConvert = onConvertToRuleDraft != null && isConvertible(recommendation);
+  const exportedRuleId = recommendation.exported_rule_id ?? null;
+
+  const handleConvert = (): void => {
+    if (onConvertToRuleDraft == null) return;
+    setConverting(true);
+    onConvertToRuleDraft(recommendation)
+      .catch(console.error)
+      .finally(() => setConverting(false));
+  };
+
+  const convertButton = canConvert ? (
+    <Button size="small" icon={<ExportOutlined />} loading={converting} onClick={handleConvert}>
+      Convert to rule draft
+    </Button>
+  ) : null;
   const payload = recommendation.payload as { title?: string; impact?: string };
 
   const handleAction = async (action: "ACKNOWLEDGED" | "REJECTED"): Promise<void> => {
@@ -56,6 +93,7 @@ export const RecommendationCard: FC<Props> = ({ recommendation, onAcknowledge })
         extra={
           isOpen ? (
             <Space>
+              {convertButton}
               <Button
                 size="small"
                 type="primary"
@@ -76,12 +114,10 @@ export const RecommendationCard: FC<Props> = ({ recommendation, onAcknowledge })
               </Button>
             </Space>
           ) : (
-            <Text type="secondary">
-              {recommendation.acknowledged_at !== null &&
-              recommendation.acknowledged_at !== undefined
-                ? new Date(recommendation.acknowledged_at).toLocaleString()
-                : recommendation.status}
-            </Text>
+            <Space>
+              {convertButton}
+              <Text type="secondary">{decisionText(recommendation)}</Text>
+            </Space>
           )
         }
       >
@@ -93,6 +129,11 @@ export const RecommendationCard: FC<Props> = ({ recommendation, onAcknowledge })
         {payload.impact != null && payload.impact !== "" && (
           <Paragraph type="secondary">{payload.impact}</Paragraph>
         )}
+        {exportedRuleId != null && (
+          <Text type="secondary">
+            Exported as rule <Link to={`/rules/show/${exportedRuleId}`}>{exportedRuleId}</Link>
+          </Text>
+        )}
       </Card>
 
       <Modal
@@ -0,0 +1,55 @@
+/**
+ * RunStageTimeline Component
+ *
+ * Shows each stage of an investigation run in execution order with its
+ * duration and share of the total run time.
+ */
+
+import { useMemo, type FC } from "react";
+import { Empty, Progress, Tag, Timeline, Typography } from "antd";
+import {
+  buildRunStages,
+  formatDurationMs,
+  type RunStage,
+} from "../../../shared/utils/investigationRun";
+
+const { Text } = Typography;
+
+export interface RunStageTimelineProps {
+  stageDurations: Record<string, number>;
+}
+
+export const RunStageTimeline: FC<RunStageTimelineProps> = ({ stageDurations }) => {
+  const stages = useMemo(() => buildRunStages(stageDurations), [stageDurations]);
+  const slowest = useMemo(
+    () =>
+      stages.reduce<RunStage | null>(
+        (max, stage) => (max == null || stage.durationMs > max.durationMs ? stage : max),
+        null
+      )?.stage ?? null,
+    [stages]
+  );
+
+  if (stages.length === 0) {
+    return <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No stage timings recorded" />;
+  }
+
+  return (
+    <Timeline
+      items={stages.map((stage) => ({
+        key: stage.stage,
+        color: stage.stage === slowest ? "orange" : "blue",
+        children: (
+          <>
+            <Text strong>{stage.label}</Text>{" "}
+            <Text type="secondary">
+              {formatDurationMs(stage.durationMs)} · starts at +{formatDurationMs(stage.offsetMs)}
+            </Text>
+            {stage.stage === slowest && stages.length > 1 && <Tag color="orange">Slowest</Tag>}
+            <Progress percent={Math.round(stage.share * 100)} size="small" />
+          </>
+        ),
+      }))}
+    />
+  );
+};
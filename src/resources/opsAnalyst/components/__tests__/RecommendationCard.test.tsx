@@ -1,5 +1,6 @@
 import { render, screen, fireEvent, waitFor } from "@testing-library/react";
 import { describe, it, expect, vi } from "vitest";
+import { MemoryRouter } from "react-router";
 import { RecommendationCard } from "../RecommendationCard";
 import type { RecommendationDetail } from "@/types/opsAnalyst";
 
@@ -96,4 +97,60 @@ describe("RecommendationCard", () => {
 
     expect(screen.getByText("Reject Recommendation")).toBeInTheDocument();
   });
+
+  describe("rule candidates", () => {
+    const candidate: RecommendationDetail = {
+      ...mockRec,
+      recommendation_id: "rec-2",
+      type: "rule_candidate",
+      status: "ACKNOWLEDGED",
+    };
+
+    it("offers conversion to a rule draft", async () => {
+      const onConvert = vi.fn().mockResolvedValue(undefined);
+      render(
+        <RecommendationCard
+          recommendation={candidate}
+          onAcknowledge={onAcknowledgeMock}
+          onConvertToRuleDraft={onConvert}
+        />
+      );
+
+      fireEvent.click(screen.getByRole("button", { name: /Convert to rule draft/ }));
+
+      await waitFor(() => expect(onConvert).toHaveBeenCalledWith(candidate));
+    });
+
+    it("hides conversion for other types and without a handler", () => {
+      const { rerender } = render(
+        <RecommendationCard
+          recommendation={mockRec}
+          onAcknowledge={onAcknowledgeMock}
+          onConvertToRuleDraft={vi.fn()}
+        />
+      );
+      expect(screen.queryByText("Convert to rule draft")).not.toBeInTheDocument();
+
+      rerender(<RecommendationCard recommendation={candidate} onAcknowledge={onAcknowledgeMock} />);
+      expect(screen.queryByText("Convert to rule draft")).not.toBeInTheDocument();
+    });
+
+    it("links an exported recommendation to its rule", () => {
+      render(
+        <MemoryRouter>
+          <RecommendationCard
+            recommendation={{ ...candidate, status: "EXPORTED", exported_rule_id: "rule_9" }}
+            onAcknowledge={onAcknowledgeMock}
+            onConvertToRuleDraft={vi.fn()}
+          />
+        </MemoryRouter>
+      );
+
+      expect(screen.queryByText("Convert to rule draft")).not.toBeInTheDocument();
+      expect(screen.getByRole("link", { name: "rule_9" })).toHaveAttribute(
+        "href",
+        "/rules/show/rule_9"
+      );
+    });
+  });
 });
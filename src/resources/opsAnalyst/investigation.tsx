@@ -0,0 +1,177 @@
+/**
+ * Ops Analyst Investigation Run
+ *
+ * Detail page for one investigation run: stage timings, the evidence the
+ * agent collected, its insight and recommendations, and a deep re-run.
+ */
+
+import type { FC } from "react";
+import { Link, useNavigate, useParams } from "react-router";
+import { useNotification } from "@refinedev/core";
+import {
+  Alert,
+  Badge,
+  Button,
+  Card,
+  Col,
+  Empty,
+  List,
+  Row,
+  Space,
+  Spin,
+  Tag,
+  Typography,
+} from "antd";
+import { ExperimentOutlined, ReloadOutlined } from "@ant-design/icons";
+import { Descriptions } from "../../shared/compat/antdCompat";
+import { useInvestigationRunDetail } from "../../hooks/useInvestigationRunDetail";
+import { useInvestigationRun } from "../../hooks/useInvestigationRun";
+import type { DetailResponse, OpsAgentRunStatus, OpsAgentSeverity } from "../../types/opsAnalyst";
+import { formatDateTime } from "../../shared/utils/format";
+import { formatDurationMs } from "../../shared/utils/investigationRun";
+import { EvidenceItemView } from "./components/EvidenceItemView";
+import { RecommendationCard } from "./components/RecommendationCard";
+import { RunStageTimeline } from "./components/RunStageTimeline";
+import "./ops-analyst.css";
+
+const { Title, Paragraph } = Typography;
+
+const STATUS_COLOR: Record<OpsAgentRunStatus, string> = {
+  SUCCESS: "success",
+  PARTIAL: "warning",
+  FAILED: "error",
+};
+
+const SEVERITY_COLOR: Record<OpsAgentSeverity, string> = {
+  LOW: "green",
+  MEDIUM: "orange",
+  HIGH: "red",
+  CRITICAL: "purple",
+};
+
+const RunSummary: FC<{ run: DetailResponse }> = ({ run }) => (
+  <Descriptions size="small" column={3} variant="outlined">
+    <Descriptions.Item label="Transaction">
+      <Link to={`/transactions/show/${run.transaction_id}`}>{run.transaction_id}</Link>
+    </Descriptions.Item>
+    <Descriptions.Item label="Case">
+      {run.case_id == null ? "—" : <Link to={`/cases/show/${run.case_id}`}>{run.case_id}</Link>}
+    </Descriptions.Item>
+    <Descriptions.Item label="Duration">{formatDurationMs(run.duration_ms)}</Descriptions.Item>
+    <Descriptions.Item label="Started">{formatDateTime(run.started_at)}</Descriptions.Item>
+    <Descriptions.Item label="Completed">
+      {run.completed_at == null ? "—" : formatDateTime(run.completed_at)}
+    </Descriptions.Item>
+    <Descriptions.Item label="Model">{run.model_mode}</Descriptions.Item>
+  </Descriptions>
+);
+
+export const OpsAnalystInvestigationShow: FC = () => {
+  const { runId } = useParams();
+  const navigate = useNavigate();
+  const { open } = useNotification();
+  const { run, loading, error, reload, acknowledge } = useInvestigationRunDetail(runId);
+  const { run: startRun, loading: rerunning } = useInvestigationRun();
+
+  const handleDeepRerun = (): void => {
+    if (run == null) return;
+    startRun({
+      transaction_id: run.transaction_id,
+      mode: "deep",
+      case_id: run.case_id ?? undefined,
+    })
+      .then((result) => navigate(`/ops-analyst/investigations/${result.run_id}`))
+      .catch((err: unknown) => {
+        open?.({
+          type: "error",
+          message: "Deep re-run failed",
+          description: err instanceof Error ? err.message : undefined,
+        });
+      });
+  };
+
+  if (run == null) {
+    return loading ? (
+      <Spin />
+    ) : (
+      <Alert type="error" showIcon message={error ?? "Investigation run not found"} />
+    );
+  }
+
+  return (
+    <Space direction="vertical" className="full-width" size="large">
+      <Space align="center" wrap>
+        <Title level={4} className="title-no-margin">
+          Investigation run {run.run_id}
+        </Title>
+        <Tag color={STATUS_COLOR[run.status]}>{run.status}</Tag>
+        <Tag>{run.mode === "deep" ? "Deep" : "Quick"}</Tag>
+        <Button icon={<ReloadOutlined />} onClick={reload} loading={loading}>
+          Refresh
+        </Button>
+        <Button
+          type="primary"
+          ghost
+          icon={<ExperimentOutlined />}
+          onClick={handleDeepRerun}
+          loading={rerunning}
+        >
+          Re-run deep
+        </Button>
+      </Space>
+
+      {error != null && <Alert type="error" showIcon message={error} />}
+      {run.error_summary != null && run.error_summary !== "" && (
+        <Alert type="warning" showIcon message="Run error" description={run.error_summary} />
+      )}
+
+      <RunSummary run={run} />
+
+      <Row gutter={16}>
+        <Col xs={24} lg={10}>
+          <Card size="small" title="Stage timeline">
+            <RunStageTimeline stageDurations={run.stage_durations} />
+          </Card>
+        </Col>
+        <Col xs={24} lg={14}>
+          <Card size="small" title="Insight">
+            {run.insight == null ? (
+              <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No insight produced" />
+            ) : (
+              <>
+                <Badge color={SEVERITY_COLOR[run.insight.severity]} text={run.insight.severity} />
+                <Paragraph className="insight-summary">{run.insight.summary}</Paragraph>
+              </>
+            )}
+          </Card>
+        </Col>
+      </Row>
+
+      <Card size="small" title={`Evidence (${run.evidence.length})`}>
+        {run.evidence.length === 0 ? (
+          <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No evidence collected" />
+        ) : (
+          <Space direction="vertical" className="full-width">
+            {run.evidence.map((item) => (
+              <EvidenceItemView key={item.evidence_id} evidence={item} />
+            ))}
+          </Space>
+        )}
+      </Card>
+
+      <Card size="small" title={`Recommendations (${run.recommendations.length})`}>
+        <List
+          dataSource={run.recommendations}
+          locale={{ emptyText: "No recommendations" }}
+          renderItem={(rec) => (
+            <List.Item key={rec.recommendation_id}>
+              <RecommendationCard recommendation={rec} onAcknowledge={acknowledge} />
+            </List.Item>
+          )}
+        />
+      </Card>
+    </Space>
+  );
+};
+
+export default OpsAnalystInvestigationShow;
@@ -1,6 +1,12 @@
-import { useState, type FC } from "react";
+import { useCallback, useState, type FC } from "react";
+import { useNavigate } from "react-router";
+import { useNotification } from "@refinedev/core";
 import { List, Select, Space, Statistic, Tag, Typography } from "antd";
 import { useOpsAnalystRecommendations } from "../../hooks/useOpsAnalystRecommendations";
+import { useOpsAnalystRuleDrafts } from "../../hooks/useOpsAnalystRuleDrafts";
+import { usePermissions } from "../../hooks/usePermissions";
+import type { RecommendationDetail } from "../../types/opsAnalyst";
+import type { RuleCreateLocationState } from "../rules/create";
 import { RecommendationCard } from "./components/RecommendationCard";
 
 const { Title } = Typography;
@@ -10,6 +16,27 @@ export const OpsAnalystRecommendationList: FC = () => {
   const { recommendations, total, loading, error, acknowledge } = useOpsAnalystRecommendations({
     severity,
   });
+  const { capabilities } = usePermissions();
+  const { createDraft } = useOpsAnalystRuleDrafts();
+  const navigate = useNavigate();
+  const { open } = useNotification();
+
+  const convertToRuleDraft = useCallback(
+    async (recommendation: RecommendationDetail): Promise<void> => {
+      try {
+        const ruleDraft = await createDraft(recommendation.recommendation_id);
+        const state: RuleCreateLocationState = { ruleDraft };
+        await navigate("/rules/create", { state });
+      } catch (err) {
+        open?.({
+          type: "error",
+          message: "Could not create rule draft",
+          description: err instanceof Error ? err.message : undefined,
+        });
+      }
+    },
+    [createDraft, navigate, open]
+  );
 
   return (
     <Space direction="vertical" style={{ width: "100%" }} size="large">
@@ -34,7 +61,11 @@ export const OpsAnalystRecommendationList: FC = () => {
         dataSource={recommendations}
         renderItem={(rec) => (
           <List.Item key={rec.recommendation_id}>
-            <RecommendationCard recommendation={rec} onAcknowledge={acknowledge} />
+            <RecommendationCard
+              recommendation={rec}
+              onAcknowledge={acknowledge}
+              onConvertToRuleDraft={capabilities.canCreateRules ? convertToRuleDraft : undefined}
+            />
           </List.Item>
         )}
       />
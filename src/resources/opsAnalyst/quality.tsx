@@ -0,0 +1,176 @@
+/**
+ * Ops Analyst Recommendation Quality
+ *
+ * Supervisor view of how analysts respond to ops-agent recommendations and
+ * how often the underlying insights end in confirmed fraud, split by model
+ * mode, recommendation type and severity.
+ */
+
+import { useMemo, useState, type FC } from "react";
+import {
+  Alert,
+  Button,
+  Card,
+  Col,
+  Row,
+  Segmented,
+  Space,
+  Statistic,
+  Table,
+  Typography,
+} from "antd";
+import { ReloadOutlined } from "@ant-design/icons";
+import { useRecommendationOutcomes } from "../../hooks/useRecommendationOutcomes";
+import { labelForEnumValue } from "../../shared/utils/format";
+import { formatRatio } from "../../shared/utils/backtestMetrics";
+import {
+  RESOLUTION_COLUMNS,
+  buildResolutionMatrix,
+  computeOutcomeRates,
+  groupOutcomeRates,
+  type OutcomeRates,
+  type ResolutionMatrixRow,
+} from "../../shared/utils/recommendationQuality";
+import "./ops-analyst.css";
+
+const { Title, Text } = Typography;
+
+const RANGE_OPTIONS = [
+  { label: "7 days", value: 7 },
+  { label: "30 days", value: 30 },
+  { label: "90 days", value: 90 },
+];
+
+const RATE_COLUMNS = [
+  { title: "Recommendations", dataIndex: "total", key: "total" },
+  { title: "Accepted", dataIndex: "accepted", key: "accepted" },
+  { title: "Rejected", dataIndex: "rejected", key: "rejected" },
+  { title: "Open", dataIndex: "open", key: "open" },
+  {
+    title: "Acceptance rate",
+    dataIndex: "acceptanceRate",
+    key: "acceptanceRate",
+    render: (value: number | null) => formatRatio(value),
+  },
+  {
+    title: "Confirmed fraud",
+    dataIndex: "fraudConfirmedRate",
+    key: "fraudConfirmedRate",
+    render: (value: number | null) => formatRatio(value),
+  },
+];
+
+const RatesTable: FC<{ title: string; groupLabel: string; rows: OutcomeRates[] }> = ({
+  title,
+  groupLabel,
+  rows,
+}) => (
+  <Card size="small" title={title}>
+    <Table<OutcomeRates>
+      size="small"
+      rowKey="key"
+      pagination={false}
+      dataSource={rows}
+      columns={[
+        {
+          title: groupLabel,
+          dataIndex: "key",
+          key: "key",
+          render: (key: string) => labelForEnumValue(key),
+        },
+        ...RATE_COLUMNS,
+      ]}
+    />
+  </Card>
+);
+
+const ResolutionMatrix: FC<{ rows: ResolutionMatrixRow[] }> = ({ rows }) => (
+  <Card size="small" title="Insight severity vs. review outcome">
+    <Table<ResolutionMatrixRow>
+      size="small"
+      rowKey="severity"
+      pagination={false}
+      dataSource={rows}
+      columns={[
+        { title: "Severity", dataIndex: "severity", key: "severity" },
+        ...RESOLUTION_COLUMNS.map((code) => ({
+          title: labelForEnumValue(code),
+          key: code,
+          render: (_: unknown, row: ResolutionMatrixRow) => row.counts[code],
+        })),
+        { title: "Total", dataIndex: "total", key: "total" },
+      ]}
+    />
+  </Card>
+);
+
+export const OpsAnalystQualityDashboard: FC = () => {
+  const [days, setDays] = useState(30);
+  const { outcomes, loading, error, reload } = useRecommendationOutcomes(days);
+
+  const overall = useMemo(() => computeOutcomeRates("all", outcomes), [outcomes]);
+  const byModelMode = useMemo(() => groupOutcomeRates(outcomes, "model_mode"), [outcomes]);
+  const byType = useMemo(() => groupOutcomeRates(outcomes, "type"), [outcomes]);
+  const bySeverity = useMemo(() => groupOutcomeRates(outcomes, "severity"), [outcomes]);
+  const matrix = useMemo(() => buildResolutionMatrix(outcomes), [outcomes]);
+
+  return (
+    <Space direction="vertical" className="full-width" size="large">
+      <Space align="center" wrap>
+        <Title level={4} className="title-no-margin">
+          Recommendation Quality
+        </Title>
+        <Segmented<number> options={RANGE_OPTIONS} value={days} onChange={setDays} />
+        <Button icon={<ReloadOutlined />} onClick={reload} loading={loading}>
+          Refresh
+        </Button>
+      </Space>
+
+      {error != null && <Alert type="error" showIcon message={error} />}
+
+      <Row gutter={16}>
+        <Col xs={12} lg={6}>
+          <Card size="small">
+            <Statistic title="Recommendations" value={overall.total} loading={loading} />
+          </Card>
+        </Col>
+        <Col xs={12} lg={6}>
+          <Card size="small">
+            <Statistic
+              title="Acceptance rate"
+              value={formatRatio(overall.acceptanceRate)}
+              loading={loading}
+            />
+          </Card>
+        </Col>
+        <Col xs={12} lg={6}>
+          <Card size="small">
+            <Statistic title="Awaiting feedback" value={overall.open} loading={loading} />
+          </Card>
+        </Col>
+        <Col xs={12} lg={6}>
+          <Card size="small">
+            <Statistic
+              title="Confirmed fraud"
+              value={formatRatio(overall.fraudConfirmedRate)}
+              loading={loading}
+            />
+          </Card>
+        </Col>
+      </Row>
+
+      <Text type="secondary">
+        Acceptance counts acknowledged and exported recommendations against rejected ones. Confirmed
+        fraud is the share of labelled reviews resolved as fraud rather than false positive or
+        legitimate.
+      </Text>
+
+      <RatesTable title="By model mode" groupLabel="Model mode" rows={byModelMode} />
+      <RatesTable title="By recommendation type" groupLabel="Type" rows={byType} />
+      <RatesTable title="By insight severity" groupLabel="Severity" rows={bySeverity} />
+      <ResolutionMatrix rows={matrix} />
+    </Space>
+  );
+};
+
+export default OpsAnalystQualityDashboard;
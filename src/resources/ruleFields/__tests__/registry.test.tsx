@@ -0,0 +1,43 @@
+/**
+ * Tests for the field registry versions page, driven by the MSW handlers
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, userEvent, waitFor, within } from "@/test/utils";
+import { FieldRegistryVersions } from "../registry";
+
+vi.mock("@/hooks/usePermissions", () => ({
+  usePermissions: () => ({ capabilities: { canApproveRules: true } }),
+}));
+
+const card = async (title: string): Promise<HTMLElement> =>
+  (await screen.findByText(title)).closest(".ant-card") as HTMLElement;
+
+describe("FieldRegistryVersions", () => {
+  it("compares the two latest versions field by field and reproduces their checksums", async () => {
+    render(<FieldRegistryVersions />);
+
+    const compare = await card("Compare Versions");
+    expect(await within(compare).findByText("AUTH_CODE")).toBeInTheDocument();
+    expect(within(compare).getByText("RISK_SCORE")).toBeInTheDocument();
+    expect(within(compare).getByText("MCC")).toBeInTheDocument();
+    expect(within(compare).getByText("EQ, IN, NE, NOT_IN")).toBeInTheDocument();
+    await waitFor(() => expect(within(compare).getAllByText("Checksum reproduced")).toHaveLength(2));
+  });
+
+  it("previews and publishes the next registry version", async () => {
+    const user = userEvent.setup();
+    render(<FieldRegistryVersions />);
+
+    const preview = await card("Publish Preview");
+    expect(await within(preview).findByText("RISK_SCORE")).toBeInTheDocument();
+    expect(within(preview).getByText("1 changed")).toBeInTheDocument();
+
+    await user.click(within(preview).getByRole("button", { name: /Publish v4/ }));
+    await user.click(await screen.findByRole("button", { name: "Publish" }));
+
+    const next = await screen.findByRole("button", { name: /Publish v5/ }, { timeout: 5000 });
+    await waitFor(() => expect(next).toBeDisabled());
+    expect(await within(preview).findByText(/Nothing to publish/)).toBeInTheDocument();
+  });
+});
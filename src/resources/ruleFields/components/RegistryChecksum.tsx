@@ -0,0 +1,97 @@
+/**
+ * Registry Checksum
+ *
+ * Shows a manifest's checksum and whether the portal could reproduce it from
+ * the fields the registry version actually returns. The recomputation uses the
+ * portal's own canonical form, so only a field count mismatch is flagged as an
+ * error.
+ */
+
+import { useEffect, useState, type FC, type ReactNode } from "react";
+import { Space, Tag, Tooltip, Typography } from "antd";
+import {
+  CheckCircleOutlined,
+  CloseCircleOutlined,
+  InfoCircleOutlined,
+  SyncOutlined,
+} from "@ant-design/icons";
+import {
+  verifyRegistryChecksum,
+  type ChecksumVerification,
+  type PublishedRegistryField,
+} from "../../../shared/utils/fieldRegistryDiff";
+import type { FieldRegistryManifest } from "../../../types/fieldDefinitions";
+import "../registry.css";
+
+const { Text } = Typography;
+
+export interface RegistryChecksumProps {
+  manifest: Pick<FieldRegistryManifest, "checksum" | "field_count">;
+  fields: PublishedRegistryField[];
+}
+
+export const RegistryChecksum: FC<RegistryChecksumProps> = ({ manifest, fields }) => {
+  const [verified, setVerified] = useState<{
+    manifest: RegistryChecksumProps["manifest"];
+    fields: PublishedRegistryField[];
+    result: ChecksumVerification;
+  } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    void verifyRegistryChecksum(manifest, fields).then((result) => {
+      if (!cancelled) setVerified({ manifest, fields, result });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [manifest, fields]);
+
+  // A result for other props is stale until the new verification finishes
+  const verification =
+    verified?.manifest === manifest && verified.fields === fields ? verified.result : null;
+
+  let status: ReactNode;
+  if (verification == null) {
+    status = (
+      <Tag icon={<SyncOutlined spin />} color="processing">
+        Verifying
+      </Tag>
+    );
+  } else if (!verification.fieldCountMatches) {
+    status = (
+      <Tooltip
+        title={`Manifest lists ${manifest.field_count} fields but ${fields.length} were returned`}
+      >
+        <Tag icon={<CloseCircleOutlined />} color="error">
+          Field count mismatch
+        </Tag>
+      </Tooltip>
+    );
+  } else if (verification.matches) {
+    status = (
+      <Tooltip title="Recomputed in the portal from the returned fields">
+        <Tag icon={<CheckCircleOutlined />} color="success">
+          Checksum reproduced
+        </Tag>
+      </Tooltip>
+    );
+  } else {
+    status = (
+      <Tooltip
+        title={`The portal recomputed ${verification.computed} from the returned fields. Its canonical form may differ from the registry's, so this is not a sign of tampering.`}
+      >
+        <Tag icon={<InfoCircleOutlined />}>Not reproduced locally</Tag>
+      </Tooltip>
+    );
+  }
+
+  return (
+    <Space wrap>
+      <Text code copyable className="registry-checksum">
+        {manifest.checksum}
+      </Text>
+      {status}
+    </Space>
+  );
+};
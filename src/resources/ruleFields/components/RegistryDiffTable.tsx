@@ -0,0 +1,83 @@
+/**
+ * Registry Diff Table
+ *
+ * Field-by-field differences between two field registry versions.
+ */
+
+import type { FC, ReactNode } from "react";
+import { Space, Table, Tag, Typography } from "antd";
+import type {
+  RegistryFieldChangeKind,
+  RegistryFieldDiff,
+  RegistryPropertyChange,
+} from "../../../shared/utils/fieldRegistryDiff";
+
+const { Text } = Typography;
+
+const KIND_TAGS: Record<RegistryFieldChangeKind, { color: string; label: string }> = {
+  added: { color: "green", label: "Added" },
+  removed: { color: "red", label: "Removed" },
+  changed: { color: "orange", label: "Changed" },
+};
+
+const renderChanges = (changes: RegistryPropertyChange[]): ReactNode =>
+  changes.length === 0 ? (
+    <Text type="secondary">—</Text>
+  ) : (
+    <Space direction="vertical" size={0}>
+      {changes.map((change) => (
+        <Text key={change.property}>
+          {change.label}: <Text delete>{change.before}</Text> → <Text strong>{change.after}</Text>
+        </Text>
+      ))}
+    </Space>
+  );
+
+export interface RegistryDiffTableProps {
+  diff: RegistryFieldDiff[];
+  loading?: boolean;
+  /** Shown when there are no differences */
+  emptyText?: string;
+}
+
+export const RegistryDiffTable: FC<RegistryDiffTableProps> = ({
+  diff,
+  loading = false,
+  emptyText = "No field differences",
+}) => (
+  <Table<RegistryFieldDiff>
+    size="small"
+    rowKey="field_key"
+    loading={loading}
+    pagination={false}
+    dataSource={diff}
+    locale={{ emptyText }}
+    scroll={{ x: 640 }}
+    columns={[
+      {
+        title: "Field",
+        key: "field",
+        render: (_, row) => (
+          <Space direction="vertical" size={0}>
+            <Text code>{row.field_key}</Text>
+            <Text type="secondary">{row.display_name}</Text>
+          </Space>
+        ),
+      },
+      {
+        title: "Change",
+        dataIndex: "kind",
+        key: "kind",
+        render: (kind: RegistryFieldChangeKind) => (
+          <Tag color={KIND_TAGS[kind].color}>{KIND_TAGS[kind].label}</Tag>
+        ),
+      },
+      {
+        title: "Details",
+        dataIndex: "changes",
+        key: "changes",
+        render: renderChanges,
+      },
+    ]}
+  />
+);
@@ -0,0 +1,116 @@
+/**
+ * Registry Publish Preview
+ *
+ * What publishing the field registry would change relative to the latest
+ * published version. Publishing is confirmed from here and is only offered
+ * when there is something to publish.
+ */
+
+import { useState, type FC } from "react";
+import { useNotification } from "@refinedev/core";
+import { Alert, Button, Card, Popconfirm, Space, Tag, Typography } from "antd";
+import { CloudUploadOutlined } from "@ant-design/icons";
+import { useFieldRegistryDiff } from "../../../hooks/useFieldRegistryDiff";
+import { post } from "../../../api/httpClient";
+import { FIELD_REGISTRY } from "../../../api/endpoints";
+import type { FieldRegistryManifest } from "../../../types/fieldDefinitions";
+import { RegistryDiffTable } from "./RegistryDiffTable";
+
+const { Text } = Typography;
+
+export interface RegistryPublishPreviewProps {
+  /** Latest published manifest, the baseline for the preview */
+  latest: FieldRegistryManifest;
+  canPublish: boolean;
+  onPublished: (manifest: FieldRegistryManifest) => void;
+}
+
+export const RegistryPublishPreview: FC<RegistryPublishPreviewProps> = ({
+  latest,
+  canPublish,
+  onPublished,
+}) => {
+  const { open } = useNotification();
+  const [isPublishing, setIsPublishing] = useState(false);
+  const { diff, summary, targetFields, isLoading, error } = useFieldRegistryDiff(
+    latest.registry_version,
+    null
+  );
+
+  const hasChanges = diff.length > 0;
+  const nextVersion = latest.registry_version + 1;
+
+  const handlePublish = async (): Promise<void> => {
+    setIsPublishing(true);
+    try {
+      const manifest = await post<FieldRegistryManifest>(FIELD_REGISTRY.PUBLISH);
+      open?.({
+        type: "success",
+        message: `Field registry v${manifest.registry_version} published`,
+        description: `${manifest.field_count} fields, checksum ${manifest.checksum}`,
+      });
+      onPublished(manifest);
+    } catch (err) {
+      open?.({
+        type: "error",
+        message: "Failed to publish field registry",
+        description: err instanceof Error ? err.message : "Unknown error",
+      });
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  return (
+    <Card
+      size="small"
+      title="Publish Preview"
+      extra={
+        <Popconfirm
+          title={`Publish field registry v${nextVersion}?`}
+          description="Rules compiled after publishing will use the new registry."
+          okText="Publish"
+          onConfirm={() => void handlePublish()}
+          disabled={!canPublish || !hasChanges}
+        >
+          <Button
+            type="primary"
+            icon={<CloudUploadOutlined />}
+            loading={isPublishing}
+            disabled={!canPublish || !hasChanges || isLoading}
+          >
+            Publish v{nextVersion}
+          </Button>
+        </Popconfirm>
+      }
+    >
+      <Space direction="vertical" size="middle" className="full-width">
+        {error != null && (
+          <Alert
+            type="error"
+            showIcon
+            message="Publish preview unavailable"
+            description={error.message}
+          />
+        )}
+        {summary != null && (
+          <Space wrap>
+            <Text>
+              v{nextVersion} would contain {targetFields.length} fields:
+            </Text>
+            <Tag color="green">{summary.added} added</Tag>
+            <Tag color="red">{summary.removed} removed</Tag>
+            <Tag color="orange">{summary.changed} changed</Tag>
+            <Tag>{summary.unchanged} unchanged</Tag>
+          </Space>
+        )}
+        {!canPublish && <Text type="secondary">Only checkers can publish the field registry.</Text>}
+        <RegistryDiffTable
+          diff={diff}
+          loading={isLoading}
+          emptyText={`Nothing to publish; current fields match v${latest.registry_version}`}
+        />
+      </Space>
+    </Card>
+  );
+};
@@ -2,7 +2,9 @@
  * Submit Approval Button Component
  *
  * Button for submitting field versions for approval in the maker-checker workflow (RULE_MAKER submits, RULE_CHECKER approves).
- * Shows confirmation dialog and handles API call to submit version.
+ * Shows confirmation dialog and handles API call to submit version. The dialog
+ * lists the rules the change affects and refuses to submit a change that would
+ * break an ACTIVE PROD ruleset, or before that impact is known.
  */
 
 import { useState, type FC } from "react";
@@ -11,20 +13,35 @@ import "./submit-approval-button.css";
 import { SendOutlined } from "@ant-design/icons";
 import { useInvalidate, useNotification } from "@refinedev/core";
 import { fieldDefinitionsApi } from "../../../api/fieldDefinitions";
+import { useFieldImpact } from "../../../hooks/useFieldImpact";
+import type { FieldChange } from "../../../shared/utils/fieldImpact";
+import { FieldImpactPanel } from "../../../components/fieldRegistry";
 
 interface SubmitApprovalButtonProps {
   versionId: string;
   fieldKey?: string;
+  /** Field state the version proposes, checked against the rules using the field */
+  change?: FieldChange;
 }
 
-export const SubmitApprovalButton: FC<SubmitApprovalButtonProps> = ({ versionId, fieldKey }) => {
+const NO_CHANGE: FieldChange = {};
+
+export const SubmitApprovalButton: FC<SubmitApprovalButtonProps> = ({
+  versionId,
+  fieldKey,
+  change = NO_CHANGE,
+}) => {
   const [isLoading, setIsLoading] = useState(false);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [remarks, setRemarks] = useState("");
   const { open } = useNotification();
   const invalidate = useInvalidate();
+  const impact = useFieldImpact(fieldKey, change, { enabled: isModalOpen });
+  // Fail closed: submitting waits until the impact is known and allows it
+  const canSubmit = impact.canProceed;
 
   const handleSubmit = async (): Promise<void> => {
+    if (!canSubmit) return;
     try {
       setIsLoading(true);
 
@@ -92,6 +109,7 @@ export const SubmitApprovalButton: FC<SubmitApprovalButtonProps> = ({ versionId,
         }}
         onCancel={handleCancel}
         confirmLoading={isLoading}
+        okButtonProps={{ disabled: !canSubmit }}
         okText="Submit"
         cancelText="Cancel"
         destroyOnHidden
@@ -116,6 +134,15 @@ export const SubmitApprovalButton: FC<SubmitApprovalButtonProps> = ({ versionId,
               showCount
             />
           </div>
+
+          {fieldKey !== undefined && fieldKey !== "" && (
+            <FieldImpactPanel
+              assessment={impact.assessment}
+              isLoading={impact.isLoading}
+              error={impact.error}
+              onRetry={impact.refetch}
+            />
+          )}
         </Space>
       </Modal>
     </>
@@ -0,0 +1,55 @@
+/**
+ * Tests for RegistryChecksum component
+ */
+
+import { describe, it, expect } from "vitest";
+import { render, screen } from "@/test/utils";
+import { RegistryChecksum } from "../RegistryChecksum";
+import {
+  computeRegistryChecksum,
+  type PublishedRegistryField,
+} from "@/shared/utils/fieldRegistryDiff";
+import { DataType, Operator } from "@/types/enums";
+
+const fields: PublishedRegistryField[] = [
+  {
+    field_key: "MCC",
+    field_id: 1,
+    display_name: "MCC",
+    data_type: DataType.STRING,
+    allowed_operators: [Operator.EQ],
+    multi_value_allowed: false,
+    is_sensitive: false,
+    is_active: true,
+  },
+];
+
+describe("RegistryChecksum", () => {
+  it("reports a checksum the portal reproduces", async () => {
+    const checksum = await computeRegistryChecksum(fields);
+    render(<RegistryChecksum manifest={{ checksum, field_count: 1 }} fields={fields} />);
+
+    expect(await screen.findByText("Checksum reproduced")).toBeInTheDocument();
+  });
+
+  it("does not raise an error when the checksum cannot be reproduced", async () => {
+    render(
+      <RegistryChecksum
+        manifest={{ checksum: "sha256:deadbeef", field_count: 1 }}
+        fields={fields}
+      />
+    );
+
+    const tag = (await screen.findByText("Not reproduced locally")).closest(".ant-tag");
+    expect(tag).not.toHaveClass("ant-tag-error");
+    expect(screen.queryByText("Checksum mismatch")).not.toBeInTheDocument();
+  });
+
+  it("flags a field count that does not match the manifest", async () => {
+    const checksum = await computeRegistryChecksum(fields);
+    render(<RegistryChecksum manifest={{ checksum, field_count: 2 }} fields={fields} />);
+
+    const tag = (await screen.findByText("Field count mismatch")).closest(".ant-tag");
+    expect(tag).toHaveClass("ant-tag-error");
+  });
+});
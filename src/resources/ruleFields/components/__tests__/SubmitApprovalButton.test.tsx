@@ -5,6 +5,8 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { render, screen, waitFor, act } from "@/test/utils";
 import userEvent from "@testing-library/user-event";
+import { http, HttpResponse } from "msw";
+import { server } from "@/test/server";
 import { SubmitApprovalButton } from "../SubmitApprovalButton";
 import { fieldDefinitionsApi } from "@/api/fieldDefinitions";
 import type { FieldVersion } from "@/types/fieldDefinitions";
@@ -28,9 +30,16 @@ vi.mock("@refinedev/core", async () => {
   };
 });
 
+/** The confirm button, once the impact analysis has loaded and allows submitting */
+async function findEnabledSubmit(): Promise<HTMLElement> {
+  const button = await screen.findByRole("button", { name: "Submit" });
+  await waitFor(() => expect(button).toBeEnabled());
+  return button;
+}
+
 describe("SubmitApprovalButton", () => {
   const mockVersionId = "version-123";
-  const mockFieldKey = "test_field";
+  const mockFieldKey = "MERCHANT_ID";
 
   beforeEach(() => {
     vi.clearAllMocks();
@@ -52,14 +61,14 @@ describe("SubmitApprovalButton", () => {
   });
 
   it("renders button with correct label", () => {
-    render(<SubmitApprovalButton versionId={mockVersionId} />);
+    render(<SubmitApprovalButton versionId={mockVersionId} fieldKey={mockFieldKey} />);
 
     expect(screen.getByRole("button", { name: /submit for approval/i })).toBeInTheDocument();
   });
 
   it("shows confirmation modal on click", async () => {
     const user = userEvent.setup();
-    render(<SubmitApprovalButton versionId={mockVersionId} />);
+    render(<SubmitApprovalButton versionId={mockVersionId} fieldKey={mockFieldKey} />);
 
     // Click the button
     const submitButton = screen.getByRole("button", {
@@ -92,7 +101,7 @@ describe("SubmitApprovalButton", () => {
       return confirmButton;
     });
 
-    const confirmButton = screen.getByRole("button", { name: "Submit" });
+    const confirmButton = await findEnabledSubmit();
     await user.click(confirmButton);
 
     // API should be called
@@ -106,7 +115,7 @@ describe("SubmitApprovalButton", () => {
 
   it("submits without remarks when remarks are empty", async () => {
     const user = userEvent.setup();
-    render(<SubmitApprovalButton versionId={mockVersionId} />);
+    render(<SubmitApprovalButton versionId={mockVersionId} fieldKey={mockFieldKey} />);
 
     // Click the submit button
     const submitButton = screen.getByRole("button", {
@@ -120,7 +129,7 @@ describe("SubmitApprovalButton", () => {
       return confirmButton;
     });
 
-    const confirmButton = screen.getByRole("button", { name: "Submit" });
+    const confirmButton = await findEnabledSubmit();
     await user.click(confirmButton);
 
     // API should be called with undefined remarks (empty/whitespace only)
@@ -134,7 +143,7 @@ describe("SubmitApprovalButton", () => {
   it("submits with remarks when remarks are provided", async () => {
     const user = userEvent.setup();
     const testRemarks = "Please review this field definition carefully.";
-    render(<SubmitApprovalButton versionId={mockVersionId} />);
+    render(<SubmitApprovalButton versionId={mockVersionId} fieldKey={mockFieldKey} />);
 
     // Click the submit button
     const submitButton = screen.getByRole("button", {
@@ -151,7 +160,7 @@ describe("SubmitApprovalButton", () => {
     });
 
     // Click confirm
-    const confirmButton = screen.getByRole("button", { name: "Submit" });
+    const confirmButton = await findEnabledSubmit();
     await act(async () => {
       await user.click(confirmButton);
     });
@@ -167,7 +176,7 @@ describe("SubmitApprovalButton", () => {
   it("trims whitespace from remarks before submitting", async () => {
     const user = userEvent.setup();
     const testRemarks = "  Remarks with spaces  ";
-    render(<SubmitApprovalButton versionId={mockVersionId} />);
+    render(<SubmitApprovalButton versionId={mockVersionId} fieldKey={mockFieldKey} />);
 
     // Click the submit button
     const submitButton = screen.getByRole("button", {
@@ -185,7 +194,7 @@ describe("SubmitApprovalButton", () => {
     await user.type(textArea, testRemarks);
 
     // Click confirm
-    const confirmButton = screen.getByRole("button", { name: "Submit" });
+    const confirmButton = await findEnabledSubmit();
     await user.click(confirmButton);
 
     // API should be called with trimmed remarks
@@ -198,7 +207,7 @@ describe("SubmitApprovalButton", () => {
 
   it("closes modal when cancel is clicked", async () => {
     const user = userEvent.setup();
-    render(<SubmitApprovalButton versionId={mockVersionId} />);
+    render(<SubmitApprovalButton versionId={mockVersionId} fieldKey={mockFieldKey} />);
 
     // Click the submit button
     const submitButton = screen.getByRole("button", {
@@ -233,7 +242,7 @@ describe("SubmitApprovalButton", () => {
 
   it("clears remarks after cancellation", async () => {
     const user = userEvent.setup();
-    render(<SubmitApprovalButton versionId={mockVersionId} />);
+    render(<SubmitApprovalButton versionId={mockVersionId} fieldKey={mockFieldKey} />);
 
     // Click the submit button
     const submitButton = screen.getByRole("button", {
@@ -271,7 +280,7 @@ describe("SubmitApprovalButton", () => {
     // Mock API to never resolve (stays in loading state)
     vi.mocked(fieldDefinitionsApi.submitVersion).mockImplementation(() => new Promise(() => {}));
 
-    render(<SubmitApprovalButton versionId={mockVersionId} />);
+    render(<SubmitApprovalButton versionId={mockVersionId} fieldKey={mockFieldKey} />);
 
     // Click the submit button
     const submitButton = screen.getByRole("button", {
@@ -285,7 +294,7 @@ describe("SubmitApprovalButton", () => {
       return confirmButton;
     });
 
-    const confirmButton = screen.getByRole("button", { name: "Submit" });
+    const confirmButton = await findEnabledSubmit();
     await user.click(confirmButton);
 
     // Button should show loading state
@@ -299,7 +308,7 @@ describe("SubmitApprovalButton", () => {
     const errorMessage = "Failed to submit for approval";
     vi.mocked(fieldDefinitionsApi.submitVersion).mockRejectedValue(new Error(errorMessage));
 
-    render(<SubmitApprovalButton versionId={mockVersionId} />);
+    render(<SubmitApprovalButton versionId={mockVersionId} fieldKey={mockFieldKey} />);
 
     // Click the submit button
     const submitButton = screen.getByRole("button", {
@@ -313,7 +322,7 @@ describe("SubmitApprovalButton", () => {
       return confirmButton;
     });
 
-    const confirmButton = screen.getByRole("button", { name: "Submit" });
+    const confirmButton = await findEnabledSubmit();
     await user.click(confirmButton);
 
     // Error should be handled (notification would be shown)
@@ -324,7 +333,7 @@ describe("SubmitApprovalButton", () => {
 
   it("shows remarks character count", async () => {
     const user = userEvent.setup();
-    render(<SubmitApprovalButton versionId={mockVersionId} />);
+    render(<SubmitApprovalButton versionId={mockVersionId} fieldKey={mockFieldKey} />);
 
     // Click the submit button
     const submitButton = screen.getByRole("button", {
@@ -340,7 +349,7 @@ describe("SubmitApprovalButton", () => {
 
   it("enforces max length on remarks", async () => {
     const user = userEvent.setup();
-    render(<SubmitApprovalButton versionId={mockVersionId} />);
+    render(<SubmitApprovalButton versionId={mockVersionId} fieldKey={mockFieldKey} />);
 
     // Click the submit button
     const submitButton = screen.getByRole("button", {
@@ -360,6 +369,42 @@ describe("SubmitApprovalButton", () => {
     expect(textArea).toHaveAttribute("maxlength", "500");
   });
 
+  it("keeps Submit disabled until the impact analysis allows it", async () => {
+    let respond: () => void = () => undefined;
+    server.use(
+      http.get("*/api/v1/rule-fields/:fieldKey/impact", async () => {
+        await new Promise<void>((resolve) => {
+          respond = resolve;
+        });
+        return HttpResponse.json({ field_key: mockFieldKey, references: [], generated_at: "" });
+      })
+    );
+    const user = userEvent.setup();
+    render(<SubmitApprovalButton versionId={mockVersionId} fieldKey={mockFieldKey} />);
+
+    await user.click(screen.getByRole("button", { name: /submit for approval/i }));
+
+    expect(await screen.findByRole("button", { name: "Submit" })).toBeDisabled();
+    respond();
+    await findEnabledSubmit();
+  });
+
+  it("keeps Submit disabled when the impact analysis fails", async () => {
+    server.use(
+      http.get("*/api/v1/rule-fields/:fieldKey/impact", () =>
+        HttpResponse.json({ error: "Unavailable" }, { status: 500 })
+      )
+    );
+    const user = userEvent.setup();
+    render(<SubmitApprovalButton versionId={mockVersionId} fieldKey={mockFieldKey} />);
+
+    await user.click(screen.getByRole("button", { name: /submit for approval/i }));
+
+    expect(await screen.findByText("Impact analysis unavailable")).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Submit" })).toBeDisabled();
+    expect(screen.getByRole("button", { name: "Retry" })).toBeInTheDocument();
+  });
+
   it("renders without fieldKey prop", () => {
     render(<SubmitApprovalButton versionId={mockVersionId} />);
 
@@ -368,7 +413,7 @@ describe("SubmitApprovalButton", () => {
 
   it("shows modal warning message about locking", async () => {
     const user = userEvent.setup();
-    render(<SubmitApprovalButton versionId={mockVersionId} />);
+    render(<SubmitApprovalButton versionId={mockVersionId} fieldKey={mockFieldKey} />);
 
     // Click the submit button
     const submitButton = screen.getByRole("button", {
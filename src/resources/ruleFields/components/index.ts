@@ -4,3 +4,6 @@
 
 export { FieldVersionsList } from "./FieldVersionsList";
 export { SubmitApprovalButton } from "./SubmitApprovalButton";
+export { RegistryDiffTable } from "./RegistryDiffTable";
+export { RegistryChecksum } from "./RegistryChecksum";
+export { RegistryPublishPreview } from "./RegistryPublishPreview";
@@ -2,14 +2,18 @@
  * Rule Fields Edit
  *
  * Form for editing existing rule field definitions.
- * Only accessible to makers. field_key is immutable.
+ * Only accessible to makers. field_key is immutable. Saving is blocked while
+ * the edited operators or active flag would break an ACTIVE PROD ruleset.
  */
 
 import { type FC } from "react";
 import { Edit, useForm } from "@refinedev/antd";
-import { Form, Input, Select, Switch, Alert, Card } from "antd";
+import { Form, Input, Select, Switch, Alert, Card, Space } from "antd";
 import { DataType, Operator } from "../../types/enums";
+import type { RuleField } from "../../types/domain";
 import { useEditAuthorization } from "../../shared/hooks/useEditAuthorization";
+import { useFieldImpact } from "../../hooks/useFieldImpact";
+import { FieldImpactPanel } from "../../components/fieldRegistry";
 
 const dataTypeOptions = Object.values(DataType).map((v) => ({
   label: v,
@@ -27,6 +31,17 @@ export const RuleFieldEdit: FC = () => {
     redirect: "list",
   });
 
+  const isActive = Form.useWatch<boolean | undefined>("is_active", formProps.form);
+  const allowedOperators = Form.useWatch<Operator[] | undefined>(
+    "allowed_operators",
+    formProps.form
+  );
+  const field = query?.data?.data as RuleField | undefined;
+  const impact = useFieldImpact(field?.field_key, {
+    is_active: isActive,
+    allowed_operators: allowedOperators,
+  });
+
   const { canEdit, isLoading, reason } = useEditAuthorization({
     resource: "rule-fields",
     params: query?.data?.data,
@@ -54,56 +69,72 @@ export const RuleFieldEdit: FC = () => {
   }
 
   return (
-    <Edit saveButtonProps={saveButtonProps} contentProps={{ variant: "outlined", size: "small" }}>
-      <Form {...formProps} layout="vertical">
-        <Card title="Field Details" size="small" variant="outlined">
-          <Form.Item label="Field Key" name="field_key">
-            <Input disabled />
-          </Form.Item>
-
-          <Form.Item
-            label="Display Name"
-            name="display_name"
-            rules={[{ required: true, message: "Display name is required" }]}
-          >
-            <Input />
-          </Form.Item>
-
-          <Form.Item label="Data Type" name="data_type">
-            <Select
-              options={dataTypeOptions}
-              disabled
-              placeholder="Select data type"
-              aria-label="Data Type select"
-            />
-          </Form.Item>
-
-          <Form.Item
-            label="Allowed Operators"
-            name="allowed_operators"
-            rules={[{ required: true, message: "Select at least one operator" }]}
-          >
-            <Select
-              mode="multiple"
-              options={operatorOptions}
-              placeholder="Select operators"
-              aria-label="Allowed Operators select"
-            />
-          </Form.Item>
-
-          <Form.Item label="Multi-value Allowed" name="multi_value_allowed" valuePropName="checked">
-            <Switch />
-          </Form.Item>
-
-          <Form.Item label="Sensitive" name="is_sensitive" valuePropName="checked">
-            <Switch />
-          </Form.Item>
-
-          <Form.Item label="Active" name="is_active" valuePropName="checked">
-            <Switch />
-          </Form.Item>
-        </Card>
-      </Form>
+    <Edit
+      saveButtonProps={{ ...saveButtonProps, disabled: !impact.canProceed }}
+      contentProps={{ variant: "outlined", size: "small" }}
+    >
+      <Space direction="vertical" size="middle" className="full-width">
+        <Form {...formProps} layout="vertical">
+          <Card title="Field Details" size="small" variant="outlined">
+            <Form.Item label="Field Key" name="field_key">
+              <Input disabled />
+            </Form.Item>
+
+            <Form.Item
+              label="Display Name"
+              name="display_name"
+              rules={[{ required: true, message: "Display name is required" }]}
+            >
+              <Input />
+            </Form.Item>
+
+            <Form.Item label="Data Type" name="data_type">
+              <Select
+                options={dataTypeOptions}
+                disabled
+                placeholder="Select data type"
+                aria-label="Data Type select"
+              />
+            </Form.Item>
+
+            <Form.Item
+              label="Allowed Operators"
+              name="allowed_operators"
+              rules={[{ required: true, message: "Select at least one operator" }]}
+            >
+              <Select
+                mode="multiple"
+                options={operatorOptions}
+                placeholder="Select operators"
+                aria-label="Allowed Operators select"
+              />
+            </Form.Item>
+
+            <Form.Item
+              label="Multi-value Allowed"
+              name="multi_value_allowed"
+              valuePropName="checked"
+            >
+              <Switch />
+            </Form.Item>
+
+            <Form.Item label="Sensitive" name="is_sensitive" valuePropName="checked">
+              <Switch />
+            </Form.Item>
+
+            <Form.Item label="Active" name="is_active" valuePropName="checked">
+              <Switch />
+            </Form.Item>
+          </Card>
+        </Form>
+
+        <FieldImpactPanel
+          assessment={impact.assessment}
+          isLoading={impact.isLoading}
+          error={impact.error}
+          onRetry={impact.refetch}
+        />
+      </Space>
     </Edit>
   );
 };
@@ -9,7 +9,8 @@
 import type { FC } from "react";
 import { List, CreateButton, EditButton, ShowButton, useTable } from "@refinedev/antd";
 import { useGo, type HttpError } from "@refinedev/core";
-import { Card, Form, Input, Space, Table, Tag } from "antd";
+import { Button, Card, Form, Input, Space, Table, Tag } from "antd";
+import { HistoryOutlined } from "@ant-design/icons";
 import type { RuleField } from "../../types/domain";
 import { DataType, Operator } from "../../types/enums";
 import {
@@ -46,7 +47,16 @@ export const RuleFieldList: FC = () => {
   const go = useGo();
 
   return (
-    <List headerButtons={<CreateButton />}>
+    <List
+      headerButtons={
+        <>
+          <Button icon={<HistoryOutlined />} onClick={() => go({ to: "/rule-fields/registry" })}>
+            Registry Versions
+          </Button>
+          <CreateButton />
+        </>
+      }
+    >
       <Card size="small" variant="outlined">
         <Form layout="inline" {...searchFormProps} className="form-spaced">
           <Form.Item name="search">
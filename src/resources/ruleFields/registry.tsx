@@ -0,0 +1,160 @@
+/**
+ * Field Registry Versions
+ *
+ * Published field registry manifests, a field-by-field comparison of any two
+ * versions with checksum verification, and a preview of what the next
+ * publish would contain.
+ */
+
+import { useState, type FC } from "react";
+import { Alert, Button, Card, Select, Space, Table, Tag, Typography } from "antd";
+import { ReloadOutlined } from "@ant-design/icons";
+import { usePermissions } from "../../hooks/usePermissions";
+import { useFieldRegistryVersions } from "../../hooks/useFieldRegistryVersions";
+import { useFieldRegistryDiff } from "../../hooks/useFieldRegistryDiff";
+import { formatDateTime } from "../../shared/utils/format";
+import type { FieldRegistryManifest } from "../../types/fieldDefinitions";
+import { RegistryChecksum, RegistryDiffTable, RegistryPublishPreview } from "./components";
+import "./registry.css";
+
+const { Title, Text } = Typography;
+
+const VERSION_COLUMNS = [
+  {
+    title: "Version",
+    dataIndex: "registry_version",
+    key: "registry_version",
+    render: (version: number) => <Tag color="blue">v{version}</Tag>,
+  },
+  { title: "Fields", dataIndex: "field_count", key: "field_count" },
+  {
+    title: "Checksum",
+    dataIndex: "checksum",
+    key: "checksum",
+    render: (checksum: string) => (
+      <Text code copyable ellipsis className="registry-checksum">
+        {checksum}
+      </Text>
+    ),
+  },
+  { title: "Published By", dataIndex: "created_by", key: "created_by" },
+  {
+    title: "Published At",
+    dataIndex: "created_at",
+    key: "created_at",
+    render: (createdAt: string) => formatDateTime(createdAt),
+  },
+];
+
+const versionOptions = (versions: FieldRegistryManifest[]): { label: string; value: number }[] =>
+  versions.map((v) => ({ label: `v${v.registry_version}`, value: v.registry_version }));
+
+const RegistryComparison: FC<{ versions: FieldRegistryManifest[] }> = ({ versions }) => {
+  // Start with the two most recent versions
+  const [baseVersion, setBaseVersion] = useState<number | null>(
+    () => versions[1]?.registry_version ?? null
+  );
+  const [targetVersion, setTargetVersion] = useState<number | null>(
+    () => versions[0]?.registry_version ?? null
+  );
+
+  const { base, baseFields, target, targetFields, diff, summary, isLoading, error } =
+    useFieldRegistryDiff(baseVersion, targetVersion);
+
+  return (
+    <Card size="small" title="Compare Versions">
+      <Space direction="vertical" size="middle" className="full-width">
+        <Space wrap>
+          <Select
+            aria-label="Base version"
+            className="registry-version-select"
+            value={baseVersion}
+            options={versionOptions(versions)}
+            onChange={setBaseVersion}
+          />
+          <Text>→</Text>
+          <Select
+            aria-label="Compare with"
+            className="registry-version-select"
+            value={targetVersion}
+            options={versionOptions(versions)}
+            onChange={setTargetVersion}
+          />
+          {summary != null && (
+            <>
+              <Tag color="green">{summary.added} added</Tag>
+              <Tag color="red">{summary.removed} removed</Tag>
+              <Tag color="orange">{summary.changed} changed</Tag>
+            </>
+          )}
+        </Space>
+        {error != null && (
+          <Alert type="error" showIcon message="Comparison failed" description={error.message} />
+        )}
+        {base != null && target != null && (
+          <Space direction="vertical" size={0}>
+            <Space>
+              <Text strong>v{base.registry_version}</Text>
+              <RegistryChecksum manifest={base} fields={baseFields} />
+            </Space>
+            <Space>
+              <Text strong>v{target.registry_version}</Text>
+              <RegistryChecksum manifest={target} fields={targetFields} />
+            </Space>
+          </Space>
+        )}
+        <RegistryDiffTable diff={diff} loading={isLoading} />
+      </Space>
+    </Card>
+  );
+};
+
+export const FieldRegistryVersions: FC = () => {
+  const { capabilities } = usePermissions();
+  const { versions, isLoading, error, refetch } = useFieldRegistryVersions();
+  const latest = versions[0];
+
+  return (
+    <Space direction="vertical" size="middle" className="full-width">
+      <Space className="full-width" align="center">
+        <Title level={3}>Field Registry Versions</Title>
+        <Button icon={<ReloadOutlined />} onClick={refetch} loading={isLoading}>
+          Refresh
+        </Button>
+      </Space>
+
+      {error != null && (
+        <Alert
+          type="error"
+          showIcon
+          message="Failed to load registry versions"
+          description={error.message}
+        />
+      )}
+
+      {latest != null && (
+        <RegistryPublishPreview
+          latest={latest}
+          canPublish={capabilities.canApproveRules}
+          onPublished={refetch}
+        />
+      )}
+
+      {versions.length > 1 && <RegistryComparison versions={versions} />}
+
+      <Card size="small" title="Published Versions">
+        <Table<FieldRegistryManifest>
+          size="small"
+          rowKey="manifest_id"
+          loading={isLoading}
+          pagination={false}
+          dataSource={versions}
+          columns={VERSION_COLUMNS}
+          scroll={{ x: 720 }}
+        />
+      </Card>
+    </Space>
+  );
+};
+
+export default FieldRegistryVersions;
@@ -103,6 +103,10 @@ export const RuleFieldShow: FC = () => {
                     <SubmitApprovalButton
                       versionId={currentVersionId}
                       fieldKey={record?.field_key}
+                      change={{
+                        is_active: record?.is_active,
+                        allowed_operators: record?.allowed_operators,
+                      }}
                     />
                   )}
                   {currentStatus === "PENDING_APPROVAL" && (
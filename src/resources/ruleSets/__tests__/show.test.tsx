@@ -7,6 +7,14 @@ import { render, waitFor, screen } from "@/test/utils";
 import { Routes, Route } from "react-router";
 import { RuleSetShow } from "../show";
 import * as httpClient from "../../../api/httpClient";
+import { RULESETS } from "../../../api/endpoints";
+
+/** Serves the rule set detail and an empty promotion history */
+function mockRuleSetApi(detail: unknown, promotions: unknown[] = []): void {
+  vi.spyOn(httpClient, "get").mockImplementation((url: string) =>
+    Promise.resolve(url.endsWith("/promotions") ? promotions : detail)
+  );
+}
 
 beforeEach(() => {
   vi.resetAllMocks();
@@ -14,7 +22,7 @@ beforeEach(() => {
 
 describe("RuleSetShow", () => {
   it("renders the show page loading and then details from API", async () => {
-    vi.spyOn(httpClient, "get").mockResolvedValue({
+    mockRuleSetApi({
       ruleset: {
         ruleset_id: "rs_test",
         scope_id: "SCOPE",
@@ -36,7 +44,7 @@ describe("RuleSetShow", () => {
           status: "APPROVED",
         },
       ],
-    } as any);
+    });
 
     render(
       <Routes>
@@ -64,6 +72,96 @@ describe("RuleSetShow", () => {
     );
   });
 
+  it("shows conflict analysis for the attached rules", async () => {
+    mockRuleSetApi({
+      ruleset: {
+        ruleset_id: "rs_conflict",
+        rule_type: "BLOCKLIST",
+        version: 1,
+        status: "DRAFT",
+        compiled_ast: null,
+        created_at: "now",
+      },
+      rules: [
+        {
+          rule_version_id: "rv_bad",
+          rule_id: "rule_bad",
+          version: 2,
+          condition_tree: {
+            and: [
+              { field: "AMOUNT", op: "GT", value: 500 },
+              { field: "AMOUNT", op: "LT", value: 100 },
+            ],
+          },
+          priority: 1,
+          scope: null,
+          created_by: "u",
+          created_at: "now",
+          status: "APPROVED",
+        },
+      ],
+    });
+
+    render(
+      <Routes>
+        <Route path="/rulesets/show/:id" element={<RuleSetShow />} />
+      </Routes>,
+      { initialRoute: "/rulesets/show/rs_conflict" }
+    );
+
+    expect(await screen.findByText("Conflict Analysis")).toBeInTheDocument();
+    expect(screen.getByText("Contradictory range")).toBeInTheDocument();
+    expect(
+      screen.getByText("rule_bad v2: AMOUNT GT 500 AND AMOUNT LT 100 can never all hold.")
+    ).toBeInTheDocument();
+  });
+
+  it("lists the promotion history of the rule set", async () => {
+    mockRuleSetApi(
+      {
+        ruleset: {
+          ruleset_id: "rs_test_env",
+          rule_type: "BLOCKLIST",
+          environment: "TEST",
+          version: 4,
+          status: "ACTIVE",
+          compiled_ast: null,
+          created_at: "now",
+        },
+        rules: [],
+      },
+      [
+        {
+          promotion_id: "promo_1",
+          source_ruleset_id: "rs_local",
+          source_version: 2,
+          from_environment: "LOCAL",
+          target_ruleset_id: "rs_test_env",
+          to_environment: "TEST",
+          replaces_ruleset_id: null,
+          rule_version_ids: ["rv_1"],
+          target_status: "ACTIVE",
+          promoted_by: "maker@example.com",
+          promoted_at: "2024-12-01T10:00:00Z",
+        },
+      ]
+    );
+
+    render(
+      <Routes>
+        <Route path="/rulesets/show/:id" element={<RuleSetShow />} />
+      </Routes>,
+      { initialRoute: "/rulesets/show/rs_test_env" }
+    );
+
+    expect(await screen.findByText("maker@example.com")).toBeInTheDocument();
+    expect(screen.getByRole("link", { name: "rs_local" })).toHaveAttribute(
+      "href",
+      "/rulesets/show/rs_local"
+    );
+    expect(httpClient.get).toHaveBeenCalledWith(RULESETS.PROMOTIONS("rs_test_env"));
+  });
+
   it("renders without crashing", () => {
     const { container } = render(
       <Routes>
@@ -0,0 +1,259 @@
+/**
+ * AST Inspector Component
+ *
+ * Renders a rule set's compiled AST in evaluation order, validates its field
+ * references against the field registry version it was compiled with, and
+ * downloads the AST with its SHA-256 checksum for deployment verification.
+ * Condition values of sensitive fields are masked until revealed.
+ */
+
+import { useEffect, useMemo, useState, type FC, type ReactNode } from "react";
+import {
+  Alert,
+  Button,
+  Card,
+  List,
+  Space,
+  Table,
+  Tag,
+  Typography,
+  type TableColumnsType,
+} from "antd";
+import { DownloadOutlined, SafetyCertificateOutlined } from "@ant-design/icons";
+import type { CompiledAST, CompiledRule } from "../../../types/domain";
+import { useFieldRegistryVersion } from "../../../hooks/useFieldRegistryVersion";
+import { useSensitiveData } from "../../../hooks/useSensitiveData";
+import { SensitiveDataReveal } from "../../../components/sensitiveData";
+import { EntityType } from "../../../types/enums";
+import { maskSensitiveValues } from "../../../shared/utils/sensitiveData";
+import {
+  astFileName,
+  buildChecksumFile,
+  canonicalizeAst,
+  collectFieldReferences,
+  computeAstChecksum,
+  orderCompiledRules,
+  validateCompiledAst,
+  type AstIssueSeverity,
+  type AstValidationIssue,
+} from "../../../shared/utils/compiledAst";
+import { downloadTextFile } from "../../../shared/utils/download";
+import { getRuleActionColor } from "../../../theme/tokens";
+import { JsonViewer } from "../../../shared/components/JsonViewer";
+import { Descriptions } from "../../../shared/compat/antdCompat";
+
+const { Text } = Typography;
+
+const SEVERITY_COLORS: Record<AstIssueSeverity, string> = {
+  error: "error",
+  warning: "warning",
+  info: "processing",
+};
+
+function renderCondition(rule: CompiledRule, sensitiveKeys: ReadonlySet<string>): ReactNode {
+  return (
+    <JsonViewer data={rule.when} copyable={false} maxHeight={240} sensitiveKeys={sensitiveKeys} />
+  );
+}
+
+function buildRuleColumns(knownFields: Set<string> | null): TableColumnsType<CompiledRule> {
+  return [
+    {
+      title: "#",
+      key: "order",
+      width: 48,
+      render: (_: unknown, __: CompiledRule, index: number) => index + 1,
+    },
+    { title: "Rule ID", dataIndex: "ruleId" },
+    { title: "Priority", dataIndex: "priority", width: 90 },
+    {
+      title: "Action",
+      dataIndex: "action",
+      width: 100,
+      render: (action: string) => <Tag color={getRuleActionColor(action)}>{action}</Tag>,
+    },
+    {
+      title: "Fields",
+      key: "fields",
+      render: (_: unknown, rule: CompiledRule) => {
+        const fields = Array.from(new Set(collectFieldReferences(rule.when).map((r) => r.field)));
+        return fields.map((field) => (
+          <Tag
+            key={field}
+            color={knownFields == null || knownFields.has(field) ? "default" : "error"}
+          >
+            {field}
+          </Tag>
+        ));
+      },
+    },
+  ];
+}
+
+interface AstValidationResultProps {
+  issues: AstValidationIssue[];
+  registryVersion: number | null;
+}
+
+const AstValidationResult: FC<AstValidationResultProps> = ({ issues, registryVersion }) => {
+  const problems = issues.filter((issue) => issue.severity !== "info");
+  return (
+    <>
+      {problems.length === 0 && registryVersion != null && (
+        <Alert
+          type="success"
+          showIcon
+          message={`All field references resolve in field registry v${registryVersion}`}
+        />
+      )}
+      {issues.length > 0 && (
+        <List
+          size="small"
+          dataSource={issues}
+          rowKey={(issue) => `${issue.rule_id ?? "ast"}:${issue.message}`}
+          renderItem={(issue) => (
+            <List.Item>
+              <Space align="start">
+                <Tag color={SEVERITY_COLORS[issue.severity]}>{issue.severity.toUpperCase()}</Tag>
+                <span>{issue.message}</span>
+              </Space>
+            </List.Item>
+          )}
+        />
+      )}
+    </>
+  );
+};
+
+interface AstInspectorProps {
+  ast: CompiledAST;
+}
+
+export const AstInspector: FC<AstInspectorProps> = ({ ast }) => {
+  const { registry, fields, latest, isLoading } = useFieldRegistryVersion(
+    ast.registryVersion ?? null
+  );
+  const [checksum, setChecksum] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    computeAstChecksum(ast)
+      .then((value) => {
+        if (!cancelled) setChecksum(value);
+      })
+      .catch(() => {
+        if (!cancelled) setChecksum(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [ast]);
+
+  const orderedRules = useMemo(() => orderCompiledRules(ast.rules), [ast]);
+
+  const sensitiveData = useSensitiveData({
+    entityType: EntityType.RULESET,
+    entityId: ast.rulesetId,
+  });
+  const { keysToMask } = sensitiveData;
+  const maskedFieldKeys = useMemo(
+    () => maskSensitiveValues(ast.rules, keysToMask).fieldKeys,
+    [ast, keysToMask]
+  );
+
+  const issues = useMemo(
+    () =>
+      isLoading
+        ? []
+        : validateCompiledAst(ast, {
+            registry:
+              registry == null
+                ? null
+                : { registry_version: registry.registry_version, fields: fields ?? [] },
+            latestVersion: latest?.registry_version ?? null,
+          }),
+    [ast, registry, fields, latest, isLoading]
+  );
+
+  const knownFields = useMemo(
+    () => (fields == null ? null : new Set(fields.map((f) => f.field_key))),
+    [fields]
+  );
+
+  const handleDownloadAst = (): void => {
+    downloadTextFile(astFileName(ast), canonicalizeAst(ast), "application/json");
+  };
+
+  const handleDownloadChecksum = (): void => {
+    if (checksum == null) return;
+    downloadTextFile(`${astFileName(ast)}.sha256`, buildChecksumFile(ast, checksum), "text/plain");
+  };
+
+  return (
+    <Card
+      title="Compiled AST"
+      size="small"
+      className="card-spaced"
+      variant="outlined"
+      extra={
+        <Space>
+          <SensitiveDataReveal sensitiveData={sensitiveData} fieldKeys={maskedFieldKeys} />
+          <Button size="small" icon={<DownloadOutlined />} onClick={handleDownloadAst}>
+            Download AST
+          </Button>
+          <Button
+            size="small"
+            icon={<SafetyCertificateOutlined />}
+            onClick={handleDownloadChecksum}
+            disabled={checksum == null}
+          >
+            Download Checksum
+          </Button>
+        </Space>
+      }
+    >
+      <Descriptions column={2} size="small" variant="outlined">
+        <Descriptions.Item label="Evaluation Mode">{ast.evaluation.mode}</Descriptions.Item>
+        <Descriptions.Item label="Field Registry">
+          {ast.registryVersion == null ? (
+            <Text type="secondary">Not recorded</Text>
+          ) : (
+            `v${ast.registryVersion}`
+          )}
+        </Descriptions.Item>
+        <Descriptions.Item label="SHA-256" span={2}>
+          {checksum == null ? (
+            <Text type="secondary">Computing…</Text>
+          ) : (
+            <Text code copyable>
+              {checksum}
+            </Text>
+          )}
+        </Descriptions.Item>
+      </Descriptions>
+
+      <Table
+        className="card-spaced"
+        dataSource={orderedRules}
+        columns={buildRuleColumns(knownFields)}
+        rowKey="ruleId"
+        size="small"
+        pagination={false}
+        expandable={{ expandedRowRender: (rule) => renderCondition(rule, keysToMask) }}
+      />
+
+      <div className="card-spaced">
+        {isLoading ? (
+          <Text type="secondary">Validating against the field registry…</Text>
+        ) : (
+          <AstValidationResult
+            issues={issues}
+            registryVersion={registry?.registry_version ?? null}
+          />
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default AstInspector;
@@ -0,0 +1,273 @@
+/**
+ * Promote Rule Set Button Component
+ *
+ * Clones an ACTIVE rule set into the next environment as a draft and submits
+ * it for checker approval. The dialog diffs the carried-over rule versions
+ * against the rule set currently ACTIVE in the target environment, masking
+ * sensitive condition values. If the submit fails, the draft is kept and
+ * retrying only submits it.
+ */
+
+import { useMemo, useState, type FC, type ReactElement } from "react";
+import { Alert, Button, Modal, Space, Spin, Tag, Typography } from "antd";
+import { RocketOutlined } from "@ant-design/icons";
+import { useNotification } from "@refinedev/core";
+import { Table } from "../../../shared/compat/antdCompat";
+import type { RuleSet, RuleVersion } from "../../../types/domain";
+import type { PromoteRuleSetResponse, RuleSetPromotionPreviewResponse } from "../../../api/types";
+import { get, post } from "../../../api/httpClient";
+import { RULESETS } from "../../../api/endpoints";
+import { RuleVersionDiff } from "../../../components/ruleDiff";
+import { SensitiveDataReveal } from "../../../components/sensitiveData";
+import { useSensitiveData } from "../../../hooks/useSensitiveData";
+import { maskSensitiveValues } from "../../../shared/utils/sensitiveData";
+import { EntityType } from "../../../types/enums";
+import {
+  diffPromotedRules,
+  getNextEnvironment,
+  type PromotionChangeType,
+  type PromotionRuleChange,
+} from "../../../shared/utils/ruleSetPromotion";
+
+const { Text } = Typography;
+
+interface PromoteRuleSetButtonProps {
+  ruleset: RuleSet;
+  onPromoted?: (result: PromoteRuleSetResponse) => void;
+}
+
+const CHANGE_COLORS: Record<PromotionChangeType, string> = {
+  added: "success",
+  removed: "error",
+  updated: "warning",
+  unchanged: "default",
+};
+
+const formatVersion = (version: RuleVersion | null): string =>
+  version == null ? "-" : `v${version.version}`;
+
+function renderVersionDiff(
+  row: PromotionRuleChange,
+  environment: string,
+  sensitiveKeys: ReadonlySet<string>
+): ReactElement | null {
+  if (row.current == null || row.promoted == null) return null;
+  return (
+    <RuleVersionDiff
+      base={row.current}
+      target={row.promoted}
+      baseLabel={`${environment} ${formatVersion(row.current)}`}
+      targetLabel={`Promoted ${formatVersion(row.promoted)}`}
+      sensitiveKeys={sensitiveKeys}
+    />
+  );
+}
+
+function PromotionChangesTable({
+  preview,
+}: Readonly<{ preview: RuleSetPromotionPreviewResponse }>): ReactElement {
+  const changes = useMemo(
+    () => diffPromotedRules(preview.source.rules, preview.active_target?.rules ?? []),
+    [preview]
+  );
+  const environment = preview.target_environment;
+  const sensitiveData = useSensitiveData({
+    entityType: EntityType.RULESET,
+    entityId: preview.source.ruleset_id,
+  });
+  const { keysToMask } = sensitiveData;
+  const maskedFieldKeys = useMemo(
+    () =>
+      maskSensitiveValues(
+        changes
+          .filter((row) => row.change === "updated")
+          .flatMap((row) => [row.current?.condition_tree, row.promoted?.condition_tree]),
+        keysToMask
+      ).fieldKeys,
+    [changes, keysToMask]
+  );
+
+  return (
+    <Space direction="vertical" className="full-width">
+      <SensitiveDataReveal sensitiveData={sensitiveData} fieldKeys={maskedFieldKeys} />
+      <Table<PromotionRuleChange>
+        aria-label="Promotion changes"
+        size="small"
+        rowKey="rule_id"
+        pagination={false}
+        dataSource={changes}
+        expandable={{
+          rowExpandable: (row) => row.change === "updated",
+          expandedRowRender: (row) => renderVersionDiff(row, environment, keysToMask),
+        }}
+        columns={[
+          { title: "Rule", dataIndex: "rule_id", key: "rule_id" },
+          {
+            title: `Active in ${environment}`,
+            key: "current",
+            render: (_: unknown, row: PromotionRuleChange) => formatVersion(row.current),
+          },
+          {
+            title: "Promoted",
+            key: "promoted",
+            render: (_: unknown, row: PromotionRuleChange) => formatVersion(row.promoted),
+          },
+          {
+            title: "Change",
+            dataIndex: "change",
+            key: "change",
+            render: (change: PromotionChangeType) => (
+              <Tag color={CHANGE_COLORS[change]}>{change.toUpperCase()}</Tag>
+            ),
+          },
+        ]}
+      />
+    </Space>
+  );
+}
+
+export const PromoteRuleSetButton: FC<PromoteRuleSetButtonProps> = ({ ruleset, onPromoted }) => {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [preview, setPreview] = useState<RuleSetPromotionPreviewResponse | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [unsubmittedDraft, setUnsubmittedDraft] = useState<PromoteRuleSetResponse | null>(null);
+  const { open } = useNotification();
+
+  const targetEnvironment = getNextEnvironment(ruleset.environment);
+  if (targetEnvironment == null) return null;
+
+  const loadPreview = async (): Promise<void> => {
+    setPreview(null);
+    setPreviewError(null);
+    try {
+      const response = await get<RuleSetPromotionPreviewResponse>(
+        RULESETS.PROMOTION_PREVIEW(ruleset.ruleset_id),
+        { params: { target_environment: targetEnvironment } }
+      );
+      setPreview(response);
+    } catch (error) {
+      setPreviewError(error instanceof Error ? error.message : "Failed to load promotion diff.");
+    }
+  };
+
+  const handleOpen = (): void => {
+    setIsModalOpen(true);
+    void loadPreview();
+  };
+
+  const errorMessage = (error: unknown, fallback: string): string =>
+    error instanceof Error ? error.message : fallback;
+
+  const promote = async (): Promise<PromoteRuleSetResponse | null> => {
+    try {
+      return await post<PromoteRuleSetResponse>(RULESETS.PROMOTE(ruleset.ruleset_id), {
+        target_environment: targetEnvironment,
+      });
+    } catch (error) {
+      open?.({
+        type: "error",
+        message: "Promotion Failed",
+        description: errorMessage(error, "Failed to promote rule set."),
+      });
+      return null;
+    }
+  };
+
+  const submit = async (promoted: PromoteRuleSetResponse): Promise<void> => {
+    const draftId = promoted.ruleset.ruleset_id;
+    try {
+      const submitted = await post<RuleSet>(RULESETS.SUBMIT(draftId));
+      setUnsubmittedDraft(null);
+      open?.({
+        type: "success",
+        message: "Promotion Submitted",
+        description: `Draft ${submitted.ruleset_id} was created in ${targetEnvironment} and submitted for checker approval.`,
+      });
+      setIsModalOpen(false);
+      onPromoted?.({
+        promotion: { ...promoted.promotion, target_status: submitted.status },
+        ruleset: submitted,
+      });
+    } catch (error) {
+      // The draft exists now; keep it so a retry only submits it
+      setUnsubmittedDraft(promoted);
+      open?.({
+        type: "error",
+        message: "Promoted, Submit Failed",
+        description: `Draft ${draftId} was created in ${targetEnvironment} but could not be submitted for approval: ${errorMessage(error, "Failed to submit rule set.")}`,
+      });
+      onPromoted?.(promoted);
+    }
+  };
+
+  const handlePromote = async (): Promise<void> => {
+    setIsLoading(true);
+    try {
+      const promoted = unsubmittedDraft ?? (await promote());
+      if (promoted != null) await submit(promoted);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const activeTarget = preview?.active_target ?? null;
+
+  return (
+    <>
+      <Button icon={<RocketOutlined />} onClick={handleOpen} loading={isLoading}>
+        Promote to {targetEnvironment}
+      </Button>
+
+      <Modal
+        title={`Promote Rule Set to ${targetEnvironment}`}
+        open={isModalOpen}
+        onOk={() => {
+          void handlePromote();
+        }}
+        onCancel={() => setIsModalOpen(false)}
+        confirmLoading={isLoading}
+        okText={unsubmittedDraft == null ? "Promote and Submit" : "Retry Submit"}
+        okButtonProps={{ disabled: preview == null && unsubmittedDraft == null }}
+        destroyOnHidden
+        width={760}
+      >
+        {unsubmittedDraft != null && (
+          <Alert
+            type="warning"
+            showIcon
+            message={`Draft ${unsubmittedDraft.ruleset.ruleset_id} was created in ${targetEnvironment} but not submitted for approval`}
+          />
+        )}
+        {previewError != null && (
+          <Alert type="error" showIcon message="Could not load diff" description={previewError} />
+        )}
+        {preview == null && previewError == null && <Spin />}
+        {preview != null && (
+          <Space direction="vertical" className="full-width">
+            <Text>
+              A draft copy of {ruleset.environment} v{ruleset.version} will be created in{" "}
+              {targetEnvironment} with the same rule versions and submitted for checker approval.
+            </Text>
+            {activeTarget == null ? (
+              <Alert
+                type="info"
+                showIcon
+                message={`No rule set is active in ${targetEnvironment} for this rule type and region`}
+              />
+            ) : (
+              <Alert
+                type="warning"
+                showIcon
+                message={`Once approved, this replaces ${activeTarget.ruleset_id} v${activeTarget.version} in ${targetEnvironment}`}
+              />
+            )}
+            <PromotionChangesTable preview={preview} />
+          </Space>
+        )}
+      </Modal>
+    </>
+  );
+};
+
+export default PromoteRuleSetButton;
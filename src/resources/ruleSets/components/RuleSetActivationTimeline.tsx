@@ -0,0 +1,66 @@
+/**
+ * RuleSet Activation Timeline Component
+ *
+ * Shows which version of a rule set was ACTIVE when, newest first, with
+ * upcoming scheduled activations at the top.
+ */
+
+import type { FC } from "react";
+import { Empty, Timeline, Typography } from "antd";
+import { ClockCircleOutlined } from "@ant-design/icons";
+import type { RuleSetVersionResponse } from "../../../api/types";
+import { buildActivationTimeline } from "../../../shared/utils/ruleSetActivationTimeline";
+import { formatDateTime } from "../../../shared/utils/format";
+
+const { Text } = Typography;
+
+interface RuleSetActivationTimelineProps {
+  versions: RuleSetVersionResponse[];
+}
+
+export const RuleSetActivationTimeline: FC<RuleSetActivationTimelineProps> = ({ versions }) => {
+  const periods = buildActivationTimeline(versions);
+  const scheduled = versions
+    .filter((v) => v.scheduled_activation_at != null)
+    .sort((a, b) =>
+      String(b.scheduled_activation_at).localeCompare(String(a.scheduled_activation_at))
+    );
+
+  if (periods.length === 0 && scheduled.length === 0) {
+    return <Empty description="No version has been activated yet" />;
+  }
+
+  const items = [
+    ...scheduled.map((v) => ({
+      key: `scheduled-${v.ruleset_version_id}`,
+      color: "gray",
+      dot: <ClockCircleOutlined />,
+      children: (
+        <>
+          <Text strong>v{v.version}</Text> scheduled for{" "}
+          {formatDateTime(v.scheduled_activation_at as string)}
+          <br />
+          <Text type="secondary">Scheduled by {v.scheduled_by ?? "-"}</Text>
+        </>
+      ),
+    })),
+    ...periods.map((period) => ({
+      key: `${period.ruleset_version_id}-${period.activated_at}`,
+      color: period.is_current ? "green" : "blue",
+      children: (
+        <>
+          <Text strong>v{period.version}</Text> active from {formatDateTime(period.activated_at)}
+          {period.is_current && " (current)"}
+          {period.deactivated_at != null && ` until ${formatDateTime(period.deactivated_at)}`}
+          {!period.is_current && period.deactivated_at == null && " (no longer active)"}
+          <br />
+          <Text type="secondary">Approved by {period.approved_by ?? "-"}</Text>
+        </>
+      ),
+    })),
+  ];
+
+  return <Timeline aria-label="Activation timeline" items={items} />;
+};
+
+export default RuleSetActivationTimeline;
@@ -0,0 +1,56 @@
+/**
+ * RuleSetAnalysisCard Component
+ *
+ * Lists conflicts found by the rule set analyzer (unreachable rules,
+ * contradictory ranges, duplicate predicates, overlapping scopes).
+ */
+
+import type { FC } from "react";
+import { Alert, Card, List, Space, Tag } from "antd";
+import type { RuleSetFinding, RuleSetFindingKind } from "../../../shared/utils/ruleSetAnalysis";
+
+const FINDING_LABELS: Record<RuleSetFindingKind, string> = {
+  UNREACHABLE_RULE: "Unreachable rule",
+  DUPLICATE_PREDICATE: "Duplicate predicate",
+  CONTRADICTORY_RANGE: "Contradictory range",
+  OVERLAPPING_SCOPE: "Overlapping scope",
+  ALLOW_BLOCK_OVERLAP: "Allow/Block overlap",
+};
+
+interface RuleSetFindingsListProps {
+  findings: RuleSetFinding[];
+}
+
+export const RuleSetFindingsList: FC<RuleSetFindingsListProps> = ({ findings }) => (
+  <List
+    size="small"
+    dataSource={findings}
+    rowKey={(finding) => `${finding.kind}:${finding.ruleVersionIds.join(",")}:${finding.message}`}
+    renderItem={(finding) => (
+      <List.Item>
+        <Space align="start">
+          <Tag color={finding.severity === "error" ? "error" : "warning"}>
+            {FINDING_LABELS[finding.kind]}
+          </Tag>
+          <span>{finding.message}</span>
+        </Space>
+      </List.Item>
+    )}
+  />
+);
+
+interface RuleSetAnalysisCardProps {
+  findings: RuleSetFinding[];
+}
+
+export const RuleSetAnalysisCard: FC<RuleSetAnalysisCardProps> = ({ findings }) => (
+  <Card title="Conflict Analysis" size="small" className="card-spaced" variant="outlined">
+    {findings.length === 0 ? (
+      <Alert type="success" showIcon message="No conflicts detected between attached rules" />
+    ) : (
+      <RuleSetFindingsList findings={findings} />
+    )}
+  </Card>
+);
+
+export default RuleSetAnalysisCard;
@@ -0,0 +1,118 @@
+/**
+ * RuleSet Promotion History Component
+ *
+ * Lists the promotions a rule set took part in, either as the promoted source
+ * or as the draft created in the next environment.
+ */
+
+import { useEffect, useState, type FC, type ReactNode } from "react";
+import { Card, Tag } from "antd";
+import { Link } from "react-router";
+import { useNotification } from "@refinedev/core";
+import { Table } from "../../../shared/compat/antdCompat";
+import type { RuleSetPromotion } from "../../../types/domain";
+import { get } from "../../../api/httpClient";
+import { RULESETS } from "../../../api/endpoints";
+import { getStatusColor } from "../../../theme/tokens";
+
+interface RuleSetPromotionHistoryProps {
+  rulesetId: string;
+  /** Changing this value refetches the history, e.g. after a new promotion */
+  refreshKey?: number;
+}
+
+const rulesetLink = (rulesetId: string, current: string): ReactNode =>
+  rulesetId === current ? rulesetId : <Link to={`/rulesets/show/${rulesetId}`}>{rulesetId}</Link>;
+
+export const RuleSetPromotionHistory: FC<RuleSetPromotionHistoryProps> = ({
+  rulesetId,
+  refreshKey = 0,
+}) => {
+  const [promotions, setPromotions] = useState<RuleSetPromotion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { open } = useNotification();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchPromotions = async (): Promise<void> => {
+      try {
+        const response = await get<RuleSetPromotion[]>(RULESETS.PROMOTIONS(rulesetId));
+        if (!cancelled) setPromotions(response);
+      } catch (error) {
+        if (cancelled) return;
+        open?.({
+          type: "error",
+          message: "Failed to load promotion history",
+          description: error instanceof Error ? error.message : "Unknown error",
+        });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    void fetchPromotions();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rulesetId, refreshKey, open]);
+
+  return (
+    <Card title="Promotion History" size="small" className="card-spaced" variant="outlined">
+      <Table<RuleSetPromotion>
+        aria-label="Promotion history"
+        dataSource={promotions}
+        loading={loading}
+        size="small"
+        rowKey="promotion_id"
+        pagination={false}
+        locale={{ emptyText: "This rule set has not been promoted" }}
+        columns={[
+          {
+            title: "From",
+            key: "from",
+            render: (_: unknown, row: RuleSetPromotion) => (
+              <>
+                <Tag>{row.from_environment}</Tag>
+                {rulesetLink(row.source_ruleset_id, rulesetId)} v{row.source_version}
+              </>
+            ),
+          },
+          {
+            title: "To",
+            key: "to",
+            render: (_: unknown, row: RuleSetPromotion) => (
+              <>
+                <Tag>{row.to_environment}</Tag>
+                {rulesetLink(row.target_ruleset_id, rulesetId)}
+              </>
+            ),
+          },
+          {
+            title: "Replaces",
+            dataIndex: "replaces_ruleset_id",
+            key: "replaces_ruleset_id",
+            render: (value: string | null) => (value == null ? "-" : rulesetLink(value, rulesetId)),
+          },
+          {
+            title: "Rules",
+            dataIndex: "rule_version_ids",
+            key: "rule_version_ids",
+            render: (ids: string[]) => ids.length,
+          },
+          {
+            title: "Status",
+            dataIndex: "target_status",
+            key: "target_status",
+            render: (status: string) => <Tag color={getStatusColor(status)}>{status}</Tag>,
+          },
+          { title: "Promoted By", dataIndex: "promoted_by", key: "promoted_by" },
+          { title: "Promoted At", dataIndex: "promoted_at", key: "promoted_at" },
+        ]}
+      />
+    </Card>
+  );
+};
+
+export default RuleSetPromotionHistory;
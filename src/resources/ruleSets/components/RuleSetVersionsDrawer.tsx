@@ -1,16 +1,36 @@
 /**
  * RuleSet Versions Drawer Component
  *
- * Displays all versions of a ruleset in a drawer when the version toggle button is clicked.
+ * Displays all versions of a ruleset in a drawer when the version toggle button is clicked,
+ * with an activation timeline, scheduled activations and rollback to the previous version.
  */
 
-import { useState, type FC } from "react";
-import { Button, Drawer, Table, Tag, Empty } from "antd";
-import { EyeOutlined } from "@ant-design/icons";
+import { useState, type FC, type ReactElement } from "react";
+import {
+  Button,
+  Divider,
+  Drawer,
+  Popconfirm,
+  Space,
+  Table,
+  Tag,
+  Empty,
+  type TableColumnsType,
+} from "antd";
+import { EyeOutlined, RollbackOutlined } from "@ant-design/icons";
+import { useList, useNotification } from "@refinedev/core";
 import type { RuleSetVersionResponse, RuleVersionInRulesetResponse } from "../../../api/types";
 import { RuleSetStatus } from "../../../types/enums";
 import { getStatusColor, compactTableProps, columnWidths } from "../../../theme/tokens";
-import { useList } from "@refinedev/core";
+import { usePermissions } from "../../../hooks/usePermissions";
+import { useRuleSetActivationActions } from "../../../hooks/useRuleSetActivation";
+import {
+  findRollbackTarget,
+  isActiveVersion,
+} from "../../../shared/utils/ruleSetActivationTimeline";
+import { formatDateTime } from "../../../shared/utils/format";
+import { RuleSetActivationTimeline } from "./RuleSetActivationTimeline";
+import { ScheduleActivationButton } from "./ScheduleActivationButton";
 
 interface RuleSetVersionsDrawerProps {
   rulesetId: string;
@@ -18,19 +38,37 @@ interface RuleSetVersionsDrawerProps {
   currentVersion: number;
 }
 
-export const RuleSetVersionsDrawer: FC<RuleSetVersionsDrawerProps> = ({
-  rulesetId,
-  rulesetName,
-  currentVersion,
-}) => {
-  const [open, setOpen] = useState(false);
-  const { result: versions } = useList<RuleSetVersionResponse>({
-    resource: "ruleset-versions",
-    filters: [{ field: "ruleset_id", operator: "eq", value: rulesetId }],
-    queryOptions: { enabled: open },
-  });
+interface VersionActivationCellProps {
+  version: RuleSetVersionResponse;
+  onSchedule: (activateAt: string) => Promise<void>;
+  onCancel: () => void;
+}
 
-  const columns = [
+function VersionActivationCell({
+  version,
+  onSchedule,
+  onCancel,
+}: Readonly<VersionActivationCellProps>): ReactElement | null {
+  if (version.scheduled_activation_at != null) {
+    return (
+      <Space size={4}>
+        <Tag color="processing">{formatDateTime(version.scheduled_activation_at)}</Tag>
+        <Popconfirm title="Cancel the scheduled activation?" onConfirm={onCancel}>
+          <Button size="small" type="link">
+            Cancel
+          </Button>
+        </Popconfirm>
+      </Space>
+    );
+  }
+  if ((version.status as RuleSetStatus) === RuleSetStatus.APPROVED) {
+    return <ScheduleActivationButton version={version.version} onSchedule={onSchedule} />;
+  }
+  return null;
+}
+
+function buildVersionColumns(currentVersion: number): TableColumnsType<RuleSetVersionResponse> {
+  return [
     {
       title: "Version",
       dataIndex: "version",
@@ -68,6 +106,90 @@ export const RuleSetVersionsDrawer: FC<RuleSetVersionsDrawerProps> = ({
       render: (v: string | null) => v ?? "-",
     },
   ];
+}
+
+export const RuleSetVersionsDrawer: FC<RuleSetVersionsDrawerProps> = ({
+  rulesetId,
+  rulesetName,
+  currentVersion,
+}) => {
+  const [open, setOpen] = useState(false);
+  const { result: versions, query } = useList<RuleSetVersionResponse>({
+    resource: "ruleset-versions",
+    filters: [{ field: "ruleset_id", operator: "eq", value: rulesetId }],
+    queryOptions: { enabled: open },
+  });
+  const { capabilities } = usePermissions();
+  const { open: notify } = useNotification();
+  const { scheduleActivation, cancelScheduledActivation, rollback, isSubmitting } =
+    useRuleSetActivationActions();
+
+  const versionList = Array.isArray(versions?.data) ? versions.data : [];
+  const current = versionList.find(isActiveVersion);
+  const rollbackTarget = findRollbackTarget(versionList);
+
+  const notifyError = (message: string, error: unknown): void => {
+    notify?.({
+      type: "error",
+      message,
+      description: error instanceof Error ? error.message : "Unknown error",
+    });
+  };
+
+  const handleSchedule = async (rulesetVersionId: string, activateAt: string): Promise<void> => {
+    try {
+      await scheduleActivation(rulesetVersionId, activateAt);
+    } catch (error) {
+      notifyError("Scheduling Failed", error);
+      throw error;
+    }
+    notify?.({
+      type: "success",
+      message: "Activation Scheduled",
+      description: `The version becomes ACTIVE on ${formatDateTime(activateAt)}.`,
+    });
+    void query.refetch();
+  };
+
+  const handleCancel = (rulesetVersionId: string): void => {
+    cancelScheduledActivation(rulesetVersionId)
+      .then(() => query.refetch())
+      .catch((error: unknown) => notifyError("Cancellation Failed", error));
+  };
+
+  const handleRollback = (): void => {
+    if (current == null) return;
+    rollback(current.ruleset_version_id)
+      .then((result) => {
+        notify?.({
+          type: "success",
+          message: "Rolled Back",
+          description: `v${result.activated.version} is ACTIVE again.`,
+        });
+        return query.refetch();
+      })
+      .catch((error: unknown) => notifyError("Rollback Failed", error));
+  };
+
+  const columns = [
+    ...buildVersionColumns(currentVersion),
+    ...(capabilities.canEditRules
+      ? [
+          {
+            title: "Scheduled",
+            key: "scheduled",
+            width: columnWidths.date,
+            render: (_: unknown, record: RuleSetVersionResponse) => (
+              <VersionActivationCell
+                version={record}
+                onSchedule={(activateAt) => handleSchedule(record.ruleset_version_id, activateAt)}
+                onCancel={() => handleCancel(record.ruleset_version_id)}
+              />
+            ),
+          },
+        ]
+      : []),
+  ];
 
   return (
     <>
@@ -84,16 +206,33 @@ export const RuleSetVersionsDrawer: FC<RuleSetVersionsDrawerProps> = ({
         width={720}
         open={open}
         onClose={() => setOpen(false)}
+        extra={
+          capabilities.canEditRules && current != null && rollbackTarget != null ? (
+            <Popconfirm
+              title={`Roll back to v${rollbackTarget.version}?`}
+              description={`v${rollbackTarget.version} becomes ACTIVE again under its original approval by ${rollbackTarget.approved_by ?? "-"}.`}
+              onConfirm={handleRollback}
+            >
+              <Button danger icon={<RollbackOutlined />} loading={isSubmitting}>
+                Roll back to v{rollbackTarget.version}
+              </Button>
+            </Popconfirm>
+          ) : undefined
+        }
       >
-        {Array.isArray(versions?.data) && versions.data.length > 0 ? (
-          <Table
-            {...compactTableProps}
-            dataSource={versions.data}
-            columns={columns}
-            rowKey="ruleset_version_id"
-            pagination={false}
-            size="small"
-          />
+        {versionList.length > 0 ? (
+          <>
+            <RuleSetActivationTimeline versions={versionList} />
+            <Divider />
+            <Table
+              {...compactTableProps}
+              dataSource={versionList}
+              columns={columns}
+              rowKey="ruleset_version_id"
+              pagination={false}
+              size="small"
+            />
+          </>
         ) : (
           <Empty description="No versions found" />
         )}
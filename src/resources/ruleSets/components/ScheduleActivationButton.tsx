@@ -0,0 +1,80 @@
+/**
+ * Schedule Activation Button Component
+ *
+ * Lets operations pick when an approved rule set version becomes ACTIVE,
+ * e.g. in a low-traffic window.
+ */
+
+import { useState, type FC } from "react";
+import { Button, DatePicker, Modal, Space, Typography } from "antd";
+import { ScheduleOutlined } from "@ant-design/icons";
+import dayjs, { type Dayjs } from "dayjs";
+
+const { Text } = Typography;
+
+interface ScheduleActivationButtonProps {
+  version: number;
+  /** Rejects when scheduling fails so the dialog stays open */
+  onSchedule: (activateAt: string) => Promise<void>;
+}
+
+export const ScheduleActivationButton: FC<ScheduleActivationButtonProps> = ({
+  version,
+  onSchedule,
+}) => {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [activateAt, setActivateAt] = useState<Dayjs | null>(null);
+
+  const handleOk = async (): Promise<void> => {
+    if (activateAt == null) return;
+    setIsLoading(true);
+    try {
+      await onSchedule(activateAt.toISOString());
+      setIsModalOpen(false);
+      setActivateAt(null);
+    } catch {
+      // The caller reports the failure; keep the dialog open to pick another time
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <Button size="small" icon={<ScheduleOutlined />} onClick={() => setIsModalOpen(true)}>
+        Schedule
+      </Button>
+
+      <Modal
+        title={`Schedule Activation of v${version}`}
+        open={isModalOpen}
+        onOk={() => {
+          void handleOk();
+        }}
+        onCancel={() => setIsModalOpen(false)}
+        confirmLoading={isLoading}
+        okText="Schedule"
+        okButtonProps={{ disabled: activateAt == null }}
+        destroyOnHidden
+      >
+        <Space direction="vertical" className="full-width">
+          <Text type="secondary">
+            The version becomes ACTIVE at the chosen time and supersedes the current ACTIVE version.
+          </Text>
+          <DatePicker
+            aria-label="Activation time"
+            showTime={{ format: "HH:mm" }}
+            format="YYYY-MM-DD HH:mm"
+            className="full-width"
+            value={activateAt}
+            disabledDate={(date) => date.isBefore(dayjs(), "day")}
+            onChange={(value) => setActivateAt(value)}
+          />
+        </Space>
+      </Modal>
+    </>
+  );
+};
+
+export default ScheduleActivationButton;
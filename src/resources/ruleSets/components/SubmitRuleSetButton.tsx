@@ -0,0 +1,104 @@
+/**
+ * Submit Rule Set Button Component
+ *
+ * Submits a draft rule set for checker approval. Conflict analysis findings
+ * are shown in the confirmation dialog so makers can fix them first.
+ */
+
+import { useState, type FC } from "react";
+import { Alert, Button, Modal, Space } from "antd";
+import { SendOutlined } from "@ant-design/icons";
+import { useNotification } from "@refinedev/core";
+import type { RuleSet } from "../../../types/domain";
+import { post } from "../../../api/httpClient";
+import { RULESETS } from "../../../api/endpoints";
+import type { RuleSetFinding } from "../../../shared/utils/ruleSetAnalysis";
+import { RuleSetFindingsList } from "./RuleSetAnalysisCard";
+
+interface SubmitRuleSetButtonProps {
+  rulesetId: string;
+  findings: RuleSetFinding[];
+  onSubmitted?: (ruleset: RuleSet) => void;
+}
+
+export const SubmitRuleSetButton: FC<SubmitRuleSetButtonProps> = ({
+  rulesetId,
+  findings,
+  onSubmitted,
+}) => {
+  const [isLoading, setIsLoading] = useState(false);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const { open } = useNotification();
+
+  const errorCount = findings.filter((finding) => finding.severity === "error").length;
+
+  const handleSubmit = async (): Promise<void> => {
+    try {
+      setIsLoading(true);
+      const ruleset = await post<RuleSet>(RULESETS.SUBMIT(rulesetId));
+
+      open?.({
+        type: "success",
+        message: "Submitted for Approval",
+        description: "Rule set has been submitted for checker approval.",
+      });
+
+      setIsModalOpen(false);
+      onSubmitted?.(ruleset);
+    } catch (error) {
+      open?.({
+        type: "error",
+        message: "Submission Failed",
+        description: error instanceof Error ? error.message : "Failed to submit for approval.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        type="primary"
+        icon={<SendOutlined />}
+        onClick={() => setIsModalOpen(true)}
+        loading={isLoading}
+      >
+        Submit for Approval
+      </Button>
+
+      <Modal
+        title="Submit Rule Set for Approval"
+        open={isModalOpen}
+        onOk={() => {
+          void handleSubmit();
+        }}
+        onCancel={() => setIsModalOpen(false)}
+        confirmLoading={isLoading}
+        okText={findings.length > 0 ? "Submit Anyway" : "Submit"}
+        okButtonProps={{ danger: errorCount > 0 }}
+        destroyOnHidden
+        width={640}
+      >
+        {findings.length === 0 ? (
+          <div>
+            No conflicts were detected between the attached rules. Submit this rule set for checker
+            approval?
+          </div>
+        ) : (
+          <Space direction="vertical" className="full-width">
+            <Alert
+              type={errorCount > 0 ? "error" : "warning"}
+              showIcon
+              message={`Conflict analysis found ${findings.length} issue${findings.length === 1 ? "" : "s"}`}
+              description="Checkers will see the same findings. Consider fixing them before submitting."
+            />
+            <RuleSetFindingsList findings={findings} />
+          </Space>
+        )}
+      </Modal>
+    </>
+  );
+};
+
+export default SubmitRuleSetButton;
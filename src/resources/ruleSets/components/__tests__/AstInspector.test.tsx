@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor, within } from "@/test/utils";
+import userEvent from "@testing-library/user-event";
+import { AstInspector } from "../AstInspector";
+import * as httpClient from "../../../../api/httpClient";
+import { FIELD_REGISTRY } from "../../../../api/endpoints";
+import { downloadTextFile } from "../../../../shared/utils/download";
+import { computeAstChecksum } from "../../../../shared/utils/compiledAst";
+import type { CompiledAST } from "../../../../types/domain";
+import type { FieldRegistryManifest } from "../../../../types/fieldDefinitions";
+import { Operator, RuleType } from "../../../../types/enums";
+
+vi.mock("../../../../shared/utils/download", () => ({
+  downloadTextFile: vi.fn(),
+}));
+
+const manifest = (registryVersion: number): FieldRegistryManifest => ({
+  manifest_id: `manifest_${registryVersion}`,
+  registry_version: registryVersion,
+  artifact_uri: `s3://registry/v${registryVersion}.json`,
+  checksum: "sha256:abc",
+  field_count: 1,
+  created_by: "admin",
+  created_at: "2024-01-15T12:00:00Z",
+});
+
+const ast: CompiledAST = {
+  rulesetId: "rs_001",
+  version: 3,
+  ruleType: RuleType.BLOCKLIST,
+  evaluation: { mode: "FIRST_MATCH" },
+  registryVersion: 2,
+  rules: [
+    {
+      ruleId: "rule_late",
+      priority: 50,
+      when: { and: [{ field: "RISK_SCORE", op: Operator.GT, value: 80 }] },
+      action: "REVIEW",
+    },
+    {
+      ruleId: "rule_early",
+      priority: 10,
+      when: { and: [{ field: "AMOUNT", op: Operator.GT, value: 5000 }] },
+      action: "BLOCK",
+    },
+  ],
+};
+
+function mockRegistryApi(): void {
+  vi.spyOn(httpClient, "get").mockImplementation((url: string) => {
+    if (url === FIELD_REGISTRY.GET) return Promise.resolve(manifest(3));
+    if (url === FIELD_REGISTRY.GET_VERSION(2)) return Promise.resolve(manifest(2));
+    if (url === FIELD_REGISTRY.GET_VERSION_FIELDS(2)) {
+      return Promise.resolve([
+        { field_key: "AMOUNT", allowed_operators: [Operator.GT], is_active: true },
+      ]);
+    }
+    return Promise.reject(new Error(`Unexpected request ${url}`));
+  });
+}
+
+describe("AstInspector", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockRegistryApi();
+  });
+
+  it("lists compiled rules in priority order with their actions", async () => {
+    render(<AstInspector ast={ast} />);
+
+    const rows = await screen.findAllByRole("row");
+    const body = rows.filter((row) => row.getAttribute("data-row-key") != null);
+    expect(within(body[0]!).getByText("rule_early")).toBeInTheDocument();
+    expect(within(body[0]!).getByText("BLOCK")).toBeInTheDocument();
+    expect(within(body[1]!).getByText("rule_late")).toBeInTheDocument();
+    expect(within(body[1]!).getByText("REVIEW")).toBeInTheDocument();
+  });
+
+  it("validates field references against the compiled registry version", async () => {
+    render(<AstInspector ast={ast} />);
+
+    expect(
+      await screen.findByText("rule_late references RISK_SCORE, which is not in field registry v2.")
+    ).toBeInTheDocument();
+    expect(
+      screen.getByText("Compiled against field registry v2; v3 is the latest published version.")
+    ).toBeInTheDocument();
+    expect(httpClient.get).toHaveBeenCalledWith(
+      FIELD_REGISTRY.GET_VERSION_FIELDS(2),
+      expect.anything()
+    );
+  });
+
+  it("downloads the canonical AST and its checksum", async () => {
+    const user = userEvent.setup();
+    const checksum = await computeAstChecksum(ast);
+    render(<AstInspector ast={ast} />);
+
+    expect(await screen.findByText(checksum)).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: /Download AST/ }));
+    expect(downloadTextFile).toHaveBeenCalledWith(
+      "rs_001-v3.ast.json",
+      expect.stringContaining('"rulesetId": "rs_001"'),
+      "application/json"
+    );
+
+    await user.click(screen.getByRole("button", { name: /Download Checksum/ }));
+    await waitFor(() =>
+      expect(downloadTextFile).toHaveBeenCalledWith(
+        "rs_001-v3.ast.json.sha256",
+        `${checksum}  rs_001-v3.ast.json\n`,
+        "text/plain"
+      )
+    );
+  });
+});
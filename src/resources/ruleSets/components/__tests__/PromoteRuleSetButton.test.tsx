@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor, within } from "@/test/utils";
+import userEvent from "@testing-library/user-event";
+import { PromoteRuleSetButton } from "../PromoteRuleSetButton";
+import * as httpClient from "../../../../api/httpClient";
+import { RULESETS } from "../../../../api/endpoints";
+import type { RuleSet, RuleVersion } from "../../../../types/domain";
+import {
+  Operator,
+  RuleSetStatus,
+  RuleStatus,
+  RuleType,
+  RulesetEnvironment,
+} from "../../../../types/enums";
+
+function makeVersion(ruleId: string, version: number): RuleVersion {
+  return {
+    rule_version_id: `rv_${ruleId}_v${version}`,
+    rule_id: ruleId,
+    version,
+    condition_tree: { and: [{ field: "AMOUNT", op: Operator.GT, value: version * 100 }] },
+    priority: 10,
+    scope: null,
+    created_by: "maker",
+    created_at: "2024-01-01T00:00:00Z",
+    approved_by: null,
+    approved_at: null,
+    status: RuleStatus.APPROVED,
+  };
+}
+
+function makeRuleSet(overrides: Partial<RuleSet> = {}): RuleSet {
+  return {
+    ruleset_id: "rs_test",
+    name: "Test",
+    description: null,
+    rule_type: RuleType.BLOCKLIST,
+    environment: RulesetEnvironment.TEST,
+    region: "INDIA",
+    country: "IN",
+    version: 4,
+    compiled_ast: null,
+    status: RuleSetStatus.ACTIVE,
+    created_by: "maker",
+    approved_by: "checker",
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+    approved_at: null,
+    activated_at: null,
+    ...overrides,
+  };
+}
+
+describe("PromoteRuleSetButton", () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("diffs against the active target and submits the promoted draft", async () => {
+    const source = makeRuleSet();
+    vi.spyOn(httpClient, "get").mockResolvedValue({
+      source: { ...source, rules: [makeVersion("rule_a", 2), makeVersion("rule_b", 1)] },
+      target_environment: RulesetEnvironment.PROD,
+      active_target: {
+        ...makeRuleSet({ ruleset_id: "rs_prod", environment: RulesetEnvironment.PROD }),
+        rules: [makeVersion("rule_a", 1), makeVersion("rule_c", 1)],
+      },
+    });
+    const draft = makeRuleSet({
+      ruleset_id: "rs_draft",
+      environment: RulesetEnvironment.PROD,
+      status: RuleSetStatus.DRAFT,
+    });
+    const postSpy = vi
+      .spyOn(httpClient, "post")
+      .mockResolvedValueOnce({ promotion: { promotion_id: "promo_1" }, ruleset: draft })
+      .mockResolvedValueOnce({ ...draft, status: RuleSetStatus.PENDING_APPROVAL });
+    const onPromoted = vi.fn();
+
+    render(<PromoteRuleSetButton ruleset={source} onPromoted={onPromoted} />);
+    await userEvent.click(screen.getByRole("button", { name: /Promote to PROD/ }));
+
+    const dialog = await screen.findByRole("dialog");
+    expect(
+      await within(dialog).findByText("Once approved, this replaces rs_prod v4 in PROD")
+    ).toBeInTheDocument();
+    const table = within(dialog).getByRole("table");
+    expect(within(table).getByText("UPDATED")).toBeInTheDocument();
+    expect(within(table).getByText("ADDED")).toBeInTheDocument();
+    expect(within(table).getByText("REMOVED")).toBeInTheDocument();
+    expect(httpClient.get).toHaveBeenCalledWith(RULESETS.PROMOTION_PREVIEW("rs_test"), {
+      params: { target_environment: RulesetEnvironment.PROD },
+    });
+
+    await userEvent.click(within(dialog).getByRole("button", { name: "Promote and Submit" }));
+
+    await waitFor(() => expect(onPromoted).toHaveBeenCalled());
+    expect(postSpy).toHaveBeenNthCalledWith(1, RULESETS.PROMOTE("rs_test"), {
+      target_environment: RulesetEnvironment.PROD,
+    });
+    expect(postSpy).toHaveBeenNthCalledWith(2, RULESETS.SUBMIT("rs_draft"));
+    expect(onPromoted.mock.calls[0]?.[0].promotion.target_status).toBe(
+      RuleSetStatus.PENDING_APPROVAL
+    );
+  });
+
+  it("keeps the promoted draft when submitting fails and retries only the submit", async () => {
+    const source = makeRuleSet();
+    vi.spyOn(httpClient, "get").mockResolvedValue({
+      source: { ...source, rules: [makeVersion("rule_a", 1)] },
+      target_environment: RulesetEnvironment.PROD,
+      active_target: null,
+    });
+    const draft = makeRuleSet({
+      ruleset_id: "rs_draft",
+      environment: RulesetEnvironment.PROD,
+      status: RuleSetStatus.DRAFT,
+    });
+    const postSpy = vi
+      .spyOn(httpClient, "post")
+      .mockResolvedValueOnce({ promotion: { promotion_id: "promo_1" }, ruleset: draft })
+      .mockRejectedValueOnce(new Error("Checker queue unavailable"))
+      .mockResolvedValueOnce({ ...draft, status: RuleSetStatus.PENDING_APPROVAL });
+    const onPromoted = vi.fn();
+
+    render(<PromoteRuleSetButton ruleset={source} onPromoted={onPromoted} />);
+    await userEvent.click(screen.getByRole("button", { name: /Promote to PROD/ }));
+    const dialog = await screen.findByRole("dialog");
+    await within(dialog).findByRole("table");
+    await userEvent.click(within(dialog).getByRole("button", { name: "Promote and Submit" }));
+
+    expect(
+      await within(dialog).findByText(
+        "Draft rs_draft was created in PROD but not submitted for approval"
+      )
+    ).toBeInTheDocument();
+    expect(onPromoted).toHaveBeenCalledWith(expect.objectContaining({ ruleset: draft }));
+
+    await userEvent.click(await within(dialog).findByRole("button", { name: /Retry Submit/ }));
+
+    await waitFor(() => expect(onPromoted).toHaveBeenCalledTimes(2));
+    expect(postSpy).toHaveBeenCalledTimes(3);
+    expect(postSpy).toHaveBeenNthCalledWith(3, RULESETS.SUBMIT("rs_draft"));
+    expect(onPromoted.mock.calls[1]?.[0].promotion.target_status).toBe(
+      RuleSetStatus.PENDING_APPROVAL
+    );
+  });
+
+  it("notes when nothing is active in the target environment", async () => {
+    const source = makeRuleSet({ environment: RulesetEnvironment.LOCAL });
+    vi.spyOn(httpClient, "get").mockResolvedValue({
+      source: { ...source, rules: [makeVersion("rule_a", 1)] },
+      target_environment: RulesetEnvironment.TEST,
+      active_target: null,
+    });
+
+    render(<PromoteRuleSetButton ruleset={source} />);
+    await userEvent.click(screen.getByRole("button", { name: /Promote to TEST/ }));
+
+    expect(
+      await screen.findByText("No rule set is active in TEST for this rule type and region")
+    ).toBeInTheDocument();
+  });
+
+  it("renders nothing for PROD rule sets", () => {
+    render(
+      <PromoteRuleSetButton ruleset={makeRuleSet({ environment: RulesetEnvironment.PROD })} />
+    );
+    expect(screen.queryByRole("button", { name: /Promote/ })).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { render, screen } from "@/test/utils";
+import { RuleSetActivationTimeline } from "../RuleSetActivationTimeline";
+import type { RuleSetVersionResponse } from "../../../../api/types";
+import { RuleSetStatus } from "../../../../types/enums";
+
+function makeVersion(
+  version: number,
+  status: RuleSetStatus,
+  overrides: Partial<RuleSetVersionResponse> = {}
+): RuleSetVersionResponse {
+  return {
+    ruleset_version_id: `rsv_v${version}`,
+    ruleset_id: "rs_1",
+    version,
+    status,
+    created_by: "maker",
+    created_at: "2024-09-01T10:00:00Z",
+    approved_by: `checker_${version}`,
+    approved_at: "2024-09-01T10:00:00Z",
+    activated_at: null,
+    rule_versions: [],
+    ...overrides,
+  };
+}
+
+describe("RuleSetActivationTimeline", () => {
+  it("shows scheduled activations and which version was active when", () => {
+    render(
+      <RuleSetActivationTimeline
+        versions={[
+          makeVersion(1, RuleSetStatus.SUPERSEDED, { activated_at: "2024-09-02T10:00:00Z" }),
+          makeVersion(2, RuleSetStatus.ACTIVE, { activated_at: "2024-10-01T10:00:00Z" }),
+          makeVersion(3, RuleSetStatus.APPROVED, {
+            scheduled_activation_at: "2030-01-01T02:00:00Z",
+            scheduled_by: "ops",
+          }),
+        ]}
+      />
+    );
+
+    const items = screen.getAllByRole("listitem");
+    expect(items).toHaveLength(3);
+    expect(items[0]).toHaveTextContent(/v3 scheduled for/);
+    expect(items[0]).toHaveTextContent("Scheduled by ops");
+    expect(items[1]).toHaveTextContent(/v2 active from .* \(current\)/);
+    expect(items[2]).toHaveTextContent(/v1 active from .* until /);
+    expect(items[2]).toHaveTextContent("Approved by checker_1");
+  });
+
+  it("shows a latest version that was deactivated as no longer active", () => {
+    render(
+      <RuleSetActivationTimeline
+        versions={[
+          makeVersion(1, RuleSetStatus.SUPERSEDED, { activated_at: "2024-09-02T10:00:00Z" }),
+        ]}
+      />
+    );
+
+    const [item] = screen.getAllByRole("listitem");
+    expect(item).toHaveTextContent(/v1 active from .* \(no longer active\)/);
+    expect(item).not.toHaveTextContent("(current)");
+  });
+
+  it("shows an empty state before any activation", () => {
+    render(<RuleSetActivationTimeline versions={[makeVersion(1, RuleSetStatus.DRAFT)]} />);
+    expect(screen.getByText("No version has been activated yet")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor, within } from "@/test/utils";
+import userEvent from "@testing-library/user-event";
+import { SubmitRuleSetButton } from "../SubmitRuleSetButton";
+import * as httpClient from "../../../../api/httpClient";
+import { RULESETS } from "../../../../api/endpoints";
+import type { RuleSetFinding } from "../../../../shared/utils/ruleSetAnalysis";
+
+const finding: RuleSetFinding = {
+  kind: "UNREACHABLE_RULE",
+  severity: "error",
+  ruleVersionIds: ["rv_b", "rv_a"],
+  message: "rule_b v1 can never fire",
+};
+
+describe("SubmitRuleSetButton", () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("shows conflict findings before submitting", async () => {
+    const postSpy = vi.spyOn(httpClient, "post").mockResolvedValue({ ruleset_id: "rs_1" });
+    const onSubmitted = vi.fn();
+
+    render(<SubmitRuleSetButton rulesetId="rs_1" findings={[finding]} onSubmitted={onSubmitted} />);
+    await userEvent.click(screen.getByRole("button", { name: /Submit for Approval/ }));
+
+    const dialog = await screen.findByRole("dialog");
+    expect(within(dialog).getByText("Conflict analysis found 1 issue")).toBeInTheDocument();
+    expect(within(dialog).getByText("rule_b v1 can never fire")).toBeInTheDocument();
+
+    await userEvent.click(within(dialog).getByRole("button", { name: "Submit Anyway" }));
+
+    await waitFor(() => expect(postSpy).toHaveBeenCalledWith(RULESETS.SUBMIT("rs_1")));
+    expect(onSubmitted).toHaveBeenCalledWith({ ruleset_id: "rs_1" });
+  });
+
+  it("confirms plainly when there are no findings", async () => {
+    vi.spyOn(httpClient, "post").mockRejectedValue(new Error("nope"));
+    const onSubmitted = vi.fn();
+
+    render(<SubmitRuleSetButton rulesetId="rs_1" findings={[]} onSubmitted={onSubmitted} />);
+    await userEvent.click(screen.getByRole("button", { name: /Submit for Approval/ }));
+
+    const dialog = await screen.findByRole("dialog");
+    expect(within(dialog).getByText(/No conflicts were detected/)).toBeInTheDocument();
+    await userEvent.click(within(dialog).getByRole("button", { name: "Submit" }));
+
+    await waitFor(() => expect(httpClient.post).toHaveBeenCalled());
+    expect(onSubmitted).not.toHaveBeenCalled();
+  });
+});
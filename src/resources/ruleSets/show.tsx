@@ -5,7 +5,7 @@
  * Accessible to both makers and checkers.
  */
 
-import { useState, useEffect, type FC, type ReactNode } from "react";
+import { useState, useEffect, useMemo, type FC, type ReactNode } from "react";
 import { Show } from "@refinedev/antd";
 import { useNotification } from "@refinedev/core";
 import { Card, Tag } from "antd";
@@ -17,10 +17,51 @@ import { get } from "../../api/httpClient";
 import { RULESETS } from "../../api/endpoints";
 import { getRuleTypeColor, getStatusColor } from "../../theme/tokens";
 import { extractRuleSetDetail } from "../../shared/utils/ruleHelpers";
+import { analyzeRuleSet, type RuleSetFinding } from "../../shared/utils/ruleSetAnalysis";
+import { canPromoteRuleSet } from "../../shared/utils/ruleSetPromotion";
+import { RULE_TYPE_EVALUATION_MODE } from "../../shared/constants/ruleTypes";
+import { usePermissions } from "../../hooks/usePermissions";
+import { RuleSetStatus } from "../../types/enums";
+import { RuleSetAnalysisCard } from "./components/RuleSetAnalysisCard";
+import { SubmitRuleSetButton } from "./components/SubmitRuleSetButton";
+import { PromoteRuleSetButton } from "./components/PromoteRuleSetButton";
+import { RuleSetPromotionHistory } from "./components/RuleSetPromotionHistory";
+import { AstInspector } from "./components/AstInspector";
 import "./rule-sets.css";
 
 type RuleSetDetailLike = RuleSetDetailResponse | RuleSetWithRules;
 
+interface RuleSetHeaderButtonsProps {
+  ruleset: RuleSet;
+  canEditRules: boolean;
+  findings: RuleSetFinding[];
+  onSubmitted: () => void;
+  onPromoted: () => void;
+}
+
+function RuleSetHeaderButtons({
+  ruleset,
+  canEditRules,
+  findings,
+  onSubmitted,
+  onPromoted,
+}: Readonly<RuleSetHeaderButtonsProps>): ReactNode {
+  if (!canEditRules) return null;
+  if (ruleset.status === RuleSetStatus.DRAFT) {
+    return (
+      <SubmitRuleSetButton
+        rulesetId={ruleset.ruleset_id}
+        findings={findings}
+        onSubmitted={onSubmitted}
+      />
+    );
+  }
+  if (canPromoteRuleSet(ruleset)) {
+    return <PromoteRuleSetButton ruleset={ruleset} onPromoted={onPromoted} />;
+  }
+  return null;
+}
+
 export const RuleSetShow: FC = () => {
   const params = useParams();
   const rulesetId = params.id;
@@ -29,6 +70,8 @@ export const RuleSetShow: FC = () => {
   const [loading, setLoading] = useState(true);
   const [ruleset, setRuleset] = useState<RuleSet | null>(null);
   const [rules, setRules] = useState<RuleVersion[]>([]);
+  const [promotionCount, setPromotionCount] = useState(0);
+  const { capabilities } = usePermissions();
 
   useEffect(() => {
     let cancelled = false;
@@ -62,6 +105,19 @@ export const RuleSetShow: FC = () => {
     };
   }, [rulesetId, open]);
 
+  const findings = useMemo(() => {
+    if (ruleset == null) return [];
+    const actions = Object.fromEntries(
+      (ruleset.compiled_ast?.rules ?? []).map((rule) => [rule.ruleId, rule.action])
+    );
+    return analyzeRuleSet({
+      rules,
+      evaluationMode:
+        ruleset.compiled_ast?.evaluation.mode ?? RULE_TYPE_EVALUATION_MODE[ruleset.rule_type],
+      actions,
+    });
+  }, [ruleset, rules]);
+
   if (loading) {
     return <Show isLoading contentProps={{ variant: "outlined", size: "small" }} />;
   }
@@ -76,6 +132,19 @@ export const RuleSetShow: FC = () => {
     <Show
       title={`Rule Set: ${ruleset.ruleset_id}`}
       contentProps={{ variant: "outlined", size: "small" }}
+      headerButtons={
+        <RuleSetHeaderButtons
+          ruleset={ruleset}
+          canEditRules={capabilities.canEditRules}
+          findings={findings}
+          onSubmitted={() =>
+            setRuleset((prev) =>
+              prev == null ? prev : { ...prev, status: RuleSetStatus.PENDING_APPROVAL }
+            )
+          }
+          onPromoted={() => setPromotionCount((count) => count + 1)}
+        />
+      }
     >
       <Card title="Details" size="small" variant="outlined">
         <Descriptions column={2} size="small" variant="outlined">
@@ -89,6 +158,9 @@ export const RuleSetShow: FC = () => {
           <Descriptions.Item label="Rule Type">
             <Tag color={getRuleTypeColor(ruleset.rule_type)}>{ruleset.rule_type}</Tag>
           </Descriptions.Item>
+          <Descriptions.Item label="Environment">
+            <Tag>{ruleset.environment}</Tag>
+          </Descriptions.Item>
           <Descriptions.Item label="Version">{ruleset.version}</Descriptions.Item>
           <Descriptions.Item label="Status">
             <Tag color={getStatusColor(ruleset.status)}>{ruleset.status}</Tag>
@@ -119,6 +191,12 @@ export const RuleSetShow: FC = () => {
           <Table.Column<RuleVersion> dataIndex="created_at" title="Created At" />
         </Table>
       </Card>
+
+      <RuleSetAnalysisCard findings={findings} />
+
+      {ruleset.compiled_ast != null && <AstInspector ast={ruleset.compiled_ast} />}
+
+      <RuleSetPromotionHistory rulesetId={ruleset.ruleset_id} refreshKey={promotionCount} />
     </Show>
   );
 };
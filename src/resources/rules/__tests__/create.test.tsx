@@ -2,9 +2,10 @@
  * Tests for RuleCreate component
  */
 
-import { describe, it, expect } from "vitest";
-import { render, waitFor } from "@/test/utils";
+import { afterEach, describe, it, expect } from "vitest";
+import { render, screen, waitFor } from "@/test/utils";
 import { RuleCreate } from "../create";
+import type { RuleDraftResponse } from "@/types/opsAnalyst";
 
 describe("RuleCreate", () => {
   it("renders the create form", async () => {
@@ -35,4 +36,39 @@ describe("RuleCreate", () => {
     const { container } = render(<RuleCreate />);
     expect(container).toBeInTheDocument();
   });
+
+  describe("from an AI rule draft", () => {
+    const ruleDraft: RuleDraftResponse = {
+      draft_id: "draft-1",
+      recommendation_id: "rec-mock-002",
+      payload: {
+        rule_name: "Card testing: low-value burst",
+        rule_type: "BLOCKLIST",
+        conditions: [
+          { field: "AMOUNT", operator: "<=", value: 5 },
+          { field: "AMOUNT", operator: "approximately", value: 1 },
+        ],
+      },
+      created_at: "2026-01-15T10:00:00Z",
+    };
+
+    afterEach(() => {
+      globalThis.history.replaceState(null, "", "/");
+    });
+
+    it("pre-fills the form and reports what was not carried over", async () => {
+      globalThis.history.replaceState({ usr: { ruleDraft }, key: "draft", idx: 0 }, "", "/");
+
+      render(<RuleCreate />);
+
+      expect(
+        await screen.findByText("Pre-filled from AI recommendation rec-mock-002")
+      ).toBeInTheDocument();
+      expect(
+        screen.getByText('AMOUNT: operator "approximately" is not supported and was skipped.')
+      ).toBeInTheDocument();
+      expect(screen.getByDisplayValue("Card testing: low-value burst")).toBeInTheDocument();
+      expect(screen.getByText(/"op": "LTE"/)).toBeInTheDocument();
+    });
+  });
 });
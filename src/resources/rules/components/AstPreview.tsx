@@ -2,18 +2,25 @@
  * AST Preview Component
  *
  * Displays the compiled AST/JSON representation of a rule or ruleset.
- * Read-only viewer for technical inspection.
+ * Read-only viewer for technical inspection. Values compared against
+ * sensitive fields are masked until revealed.
  */
 
-import type { FC } from "react";
+import { useMemo, type FC } from "react";
 import { Card } from "antd";
 import { JsonViewer } from "../../../shared/components/JsonViewer";
 import { PersistedConditionTree, CompiledAST } from "../../../types/domain";
+import { EntityType } from "../../../types/enums";
+import { maskSensitiveValues } from "../../../shared/utils/sensitiveData";
+import { useSensitiveData } from "../../../hooks/useSensitiveData";
+import { SensitiveDataReveal } from "../../../components/sensitiveData";
 import "./ast-preview.css";
 
 export interface AstPreviewProps {
   /** AST data to display */
   ast: PersistedConditionTree | CompiledAST | null;
+  /** Rule the AST belongs to, recorded when sensitive values are revealed */
+  ruleId?: string;
   /** Optional title */
   title?: string;
   /** Whether to show copy button */
@@ -27,10 +34,18 @@ export interface AstPreviewProps {
  */
 export const AstPreview: FC<AstPreviewProps> = ({
   ast,
+  ruleId,
   title = "AST Preview",
   copyable = true,
   maxHeight = 400,
 }) => {
+  const sensitiveData = useSensitiveData({ entityType: EntityType.RULE, entityId: ruleId });
+  const { keysToMask } = sensitiveData;
+  const maskedFieldKeys = useMemo(
+    () => maskSensitiveValues(ast, keysToMask).fieldKeys,
+    [ast, keysToMask]
+  );
+
   if (ast === null) {
     return (
       <Card title={title} size="small" variant="outlined">
@@ -39,7 +54,16 @@ export const AstPreview: FC<AstPreviewProps> = ({
     );
   }
 
-  return <JsonViewer data={ast} title={title} copyable={copyable} maxHeight={maxHeight} />;
+  return (
+    <JsonViewer
+      data={ast}
+      title={title}
+      extra={<SensitiveDataReveal sensitiveData={sensitiveData} fieldKeys={maskedFieldKeys} />}
+      copyable={copyable}
+      maxHeight={maxHeight}
+      sensitiveKeys={keysToMask}
+    />
+  );
 };
 
 export default AstPreview;
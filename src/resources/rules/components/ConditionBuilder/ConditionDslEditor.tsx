@@ -0,0 +1,163 @@
+/**
+ * ConditionDslEditor Component
+ *
+ * Text pane for the condition builder. The highlighted layer sits behind a
+ * transparent textarea so the caret and selection stay native. Valid edits are
+ * pushed to the builder as a new tree; invalid text is kept locally with the
+ * error position until it parses again or the visual builder changes the tree.
+ */
+
+import {
+  useMemo,
+  useState,
+  type ChangeEvent,
+  type FC,
+  type ReactElement,
+  type SyntheticEvent,
+} from "react";
+import { Button, Space, Typography } from "antd";
+import type { GroupNode, RuleField } from "../../../../types/domain";
+import type { UiConditionNode } from "./nodeTypes";
+import {
+  getDslCompletions,
+  parseConditionDsl,
+  printConditionDsl,
+  tokenizeConditionDsl,
+  type DslError,
+} from "./dsl";
+import "./condition-builder.css";
+
+const { Text } = Typography;
+
+interface ConditionDslEditorProps {
+  value: UiConditionNode;
+  fields: RuleField[];
+  readOnly?: boolean;
+  onChange: (next: GroupNode) => void;
+}
+
+interface DslDraft {
+  text: string;
+  /** Printed tree the draft was typed against; a different tree discards it */
+  basis: string;
+  error: DslError | null;
+}
+
+const MAX_COMPLETIONS = 8;
+
+function HighlightedDsl({
+  text,
+  error,
+}: Readonly<{ text: string; error: DslError | null }>): ReactElement {
+  const tokens = tokenizeConditionDsl(text);
+  return (
+    <pre className="condition-dsl-highlight" aria-hidden="true">
+      {tokens.map((token) => {
+        const hasError = error != null && token.start <= error.offset && error.offset < token.end;
+        return (
+          <span
+            key={token.start}
+            className={`condition-dsl-token--${token.type}${hasError ? " condition-dsl-token--error" : ""}`}
+          >
+            {token.text}
+          </span>
+        );
+      })}
+      {/* Keeps a trailing newline from collapsing so both layers stay the same height */}{" "}
+    </pre>
+  );
+}
+
+export const ConditionDslEditor: FC<ConditionDslEditorProps> = ({
+  value,
+  fields,
+  readOnly = false,
+  onChange,
+}) => {
+  const printed = useMemo(() => printConditionDsl(value), [value]);
+  const [draft, setDraft] = useState<DslDraft | null>(null);
+  const [cursor, setCursor] = useState<number | null>(null);
+
+  const activeDraft = draft?.basis === printed ? draft : null;
+  const text = activeDraft?.text ?? printed;
+  const error = activeDraft?.error ?? null;
+
+  const suggestions = useMemo(
+    () => (cursor == null || readOnly ? null : getDslCompletions(text, cursor, fields)),
+    [cursor, fields, readOnly, text]
+  );
+
+  const applyText = (next: string): void => {
+    const result = parseConditionDsl(next, fields);
+    if (result.ok) {
+      setDraft({ text: next, basis: printConditionDsl(result.node), error: null });
+      onChange(result.node);
+    } else {
+      setDraft({ text: next, basis: printed, error: result.error });
+    }
+  };
+
+  const handleChange = (event: ChangeEvent<HTMLTextAreaElement>): void => {
+    setCursor(event.target.selectionStart);
+    applyText(event.target.value);
+  };
+
+  const trackCursor = (event: SyntheticEvent<HTMLTextAreaElement>): void => {
+    setCursor(event.currentTarget.selectionStart);
+  };
+
+  const insertCompletion = (insertText: string): void => {
+    if (suggestions == null) return;
+    const next = `${text.slice(0, suggestions.from)}${insertText} ${text.slice(suggestions.to)}`;
+    setCursor(suggestions.from + insertText.length + 1);
+    applyText(next);
+  };
+
+  const rows = Math.max(3, text.split("\n").length + 1);
+
+  return (
+    <Space direction="vertical" size={4} className="full-width">
+      <div className={`condition-dsl-editor${error == null ? "" : " condition-dsl-editor--error"}`}>
+        <HighlightedDsl text={text} error={error} />
+        <textarea
+          className="condition-dsl-input"
+          aria-label="Condition expression"
+          aria-invalid={error != null}
+          spellCheck={false}
+          rows={rows}
+          value={text}
+          readOnly={readOnly}
+          placeholder='AMOUNT > 500 AND (MCC IN ["7995", "5967"] OR COUNTRY != "US")'
+          onChange={handleChange}
+          onSelect={trackCursor}
+          onBlur={() => setCursor(null)}
+        />
+      </div>
+
+      {error != null && (
+        <Text type="danger" role="alert">
+          Line {error.line}, column {error.column}: {error.message}
+        </Text>
+      )}
+
+      {suggestions != null && suggestions.completions.length > 0 && (
+        <Space size={4} wrap aria-label="Suggestions">
+          {suggestions.completions.slice(0, MAX_COMPLETIONS).map((completion) => (
+            <Button
+              key={`${completion.kind}:${completion.label}`}
+              size="small"
+              type="dashed"
+              // Keep focus (and the cursor position) in the textarea
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={() => insertCompletion(completion.insertText)}
+            >
+              {completion.label}
+            </Button>
+          ))}
+        </Space>
+      )}
+    </Space>
+  );
+};
+
+export default ConditionDslEditor;
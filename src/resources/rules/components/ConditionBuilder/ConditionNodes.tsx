@@ -14,11 +14,12 @@ import {
   ArrowDownOutlined,
   ExclamationCircleOutlined,
 } from "@ant-design/icons";
-import type { RuleField } from "../../../../types/domain";
+import type { RuleField, VelocityField } from "../../../../types/domain";
 import { LogicalOperator } from "../../../../types/enums";
 import type { UiConditionNode, UiGroupNode, UiPredicateNode } from "./nodeTypes";
 import { extractPredicateRowState } from "./helpers";
 import { ValueEditor } from "./ValueEditor";
+import { VelocityEditor } from "./VelocityEditor";
 import { ErrorAlert, FieldSelector, OperatorSelector, NodeControls } from "./NodeControls";
 import "./condition-builder.css";
 
@@ -30,6 +31,8 @@ export interface NodeRowProps {
   onDelete: (nodeId: string) => void;
   onAddPredicate: (parentId: string) => void;
   onAddGroup: (parentId: string, op: LogicalOperator) => void;
+  /** Adds a velocity predicate; omitted when the rule type cannot use velocity */
+  onAddVelocityPredicate?: (parentId: string) => void;
   onMove: (parentId: string, nodeId: string, dir: "up" | "down") => void;
   parentId?: string;
   index?: number;
@@ -44,6 +47,7 @@ export function GroupNodeRow({
   onDelete,
   onAddPredicate,
   onAddGroup,
+  onAddVelocityPredicate,
   onMove,
   parentId,
   index,
@@ -118,6 +122,16 @@ export function GroupNodeRow({
         >
           Add Condition
         </Button>
+        {onAddVelocityPredicate != null && (
+          <Button
+            size="small"
+            icon={<PlusOutlined />}
+            disabled={readOnly}
+            onClick={() => onAddVelocityPredicate(node.uiId)}
+          >
+            Add Velocity Condition
+          </Button>
+        )}
         <Button
           size="small"
           icon={<PlusOutlined />}
@@ -149,6 +163,7 @@ export function GroupNodeRow({
             onDelete={onDelete}
             onAddPredicate={onAddPredicate}
             onAddGroup={onAddGroup}
+            onAddVelocityPredicate={onAddVelocityPredicate}
             onMove={onMove}
             parentId={node.uiId}
             index={idx}
@@ -181,7 +196,9 @@ export function PredicateNodeRow({
       className={hasErrors ? "condition-card error-border" : "condition-card"}
       title={
         <Space>
-          <Typography.Text strong>Condition</Typography.Text>
+          <Typography.Text strong>
+            {isVelocityPredicate ? "Velocity Condition" : "Condition"}
+          </Typography.Text>
           {hasErrors && <ExclamationCircleOutlined className="error-icon" />}
         </Space>
       }
@@ -200,43 +217,44 @@ export function PredicateNodeRow({
       <Space direction="vertical" className="condition-row">
         <ErrorAlert errors={node.validationErrors ?? []} />
 
-        <Space wrap>
-          <FieldSelector
-            node={node}
+        {isVelocityPredicate ? (
+          <VelocityEditor
+            node={node as UiPredicateNode & { field: VelocityField }}
             fields={fields}
             readOnly={readOnly}
-            hasFieldError={hasFieldError}
-            onUpdate={onUpdate}
-          />
-
-          <OperatorSelector
-            node={node}
-            readOnly={readOnly}
-            isVelocityPredicate={isVelocityPredicate}
-            selectedFieldSafe={selectedFieldSafe}
-            hasOperatorError={hasOperatorError}
             onUpdate={onUpdate}
           />
+        ) : (
+          <Space wrap>
+            <FieldSelector
+              node={node}
+              fields={fields}
+              readOnly={readOnly}
+              hasFieldError={hasFieldError}
+              onUpdate={onUpdate}
+            />
 
-          <ValueEditor
-            field={selectedFieldSafe}
-            operator={node.op}
-            value={node.value}
-            disabled={Boolean(
-              readOnly === true || isVelocityPredicate === true || selectedFieldSafe == null
-            )}
-            onChange={(v) =>
-              onUpdate(node.uiId, (n) => (n.kind === "predicate" ? { ...n, value: v } : n))
-            }
-            validationErrors={node.validationErrors}
-          />
+            <OperatorSelector
+              node={node}
+              readOnly={readOnly}
+              isVelocityPredicate={isVelocityPredicate}
+              selectedFieldSafe={selectedFieldSafe}
+              hasOperatorError={hasOperatorError}
+              onUpdate={onUpdate}
+            />
 
-          {isVelocityPredicate && (
-            <Typography.Text type="secondary">
-              Velocity predicates are currently read-only in the visual builder.
-            </Typography.Text>
-          )}
-        </Space>
+            <ValueEditor
+              field={selectedFieldSafe}
+              operator={node.op}
+              value={node.value}
+              disabled={Boolean(readOnly === true || selectedFieldSafe == null)}
+              onChange={(v) =>
+                onUpdate(node.uiId, (n) => (n.kind === "predicate" ? { ...n, value: v } : n))
+              }
+              validationErrors={node.validationErrors}
+            />
+          </Space>
+        )}
       </Space>
     </Card>
   );
@@ -251,6 +269,7 @@ export function NodeRow(props: Readonly<NodeRowProps>): React.ReactElement {
     onDelete,
     onAddPredicate,
     onAddGroup,
+    onAddVelocityPredicate,
     onMove,
     parentId,
     index,
@@ -267,6 +286,7 @@ export function NodeRow(props: Readonly<NodeRowProps>): React.ReactElement {
         onDelete={onDelete}
         onAddPredicate={onAddPredicate}
         onAddGroup={onAddGroup}
+        onAddVelocityPredicate={onAddVelocityPredicate}
         onMove={onMove}
         parentId={parentId}
         index={index}
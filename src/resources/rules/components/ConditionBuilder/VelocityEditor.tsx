@@ -0,0 +1,128 @@
+/**
+ * Velocity Editor
+ *
+ * Controls for a velocity predicate: aggregation, window, group-by
+ * dimensions from the field registry, and the threshold comparison.
+ */
+
+import React from "react";
+import { InputNumber, Select, Space, Typography } from "antd";
+import type { RuleField, VelocityField } from "../../../../types/domain";
+import type { Operator } from "../../../../types/enums";
+import type { UiConditionNode, UiPredicateNode } from "./nodeTypes";
+import { VELOCITY_OPERATORS, isVelocityDimension } from "./validation";
+import { AGGREGATION_OPTIONS, WINDOW_UNIT_OPTIONS, describeVelocityPredicate } from "./velocity";
+import "./condition-builder.css";
+
+export interface VelocityEditorProps {
+  node: UiPredicateNode & { field: VelocityField };
+  fields: RuleField[];
+  readOnly: boolean;
+  onUpdate: (id: string, u: (n: UiConditionNode) => UiConditionNode) => void;
+}
+
+function hasErrorOn(node: UiPredicateNode, path: string): boolean {
+  return node.validationErrors?.some((e) => e.field === path) ?? false;
+}
+
+export function VelocityEditor({
+  node,
+  fields,
+  readOnly,
+  onUpdate,
+}: Readonly<VelocityEditorProps>): React.ReactElement {
+  const velocity = node.field;
+
+  const updateField = (patch: Partial<VelocityField>): void => {
+    onUpdate(node.uiId, (n) =>
+      n.kind === "predicate" && typeof n.field !== "string"
+        ? { ...n, field: { ...n.field, ...patch } }
+        : n
+    );
+  };
+
+  const updatePredicate = (patch: { op?: Operator; value?: number | null }): void => {
+    onUpdate(node.uiId, (n) => (n.kind === "predicate" ? { ...n, ...patch } : n));
+  };
+
+  // Keep dimensions already on the predicate selectable even if the registry dropped them
+  const dimensionOptions = fields
+    .filter((f) => isVelocityDimension(f) || velocity.group_by.includes(f.field_key))
+    .map((f) => ({
+      label: `${f.display_name} (${f.field_key})`,
+      value: f.field_key,
+      disabled: f.is_active === false,
+    }));
+
+  return (
+    <Space direction="vertical" className="full-width" size="small">
+      <Space wrap>
+        <Select
+          aria-label="Aggregation"
+          disabled={readOnly}
+          className="select-w-160"
+          value={velocity.aggregation}
+          options={AGGREGATION_OPTIONS}
+          onChange={(aggregation) => updateField({ aggregation })}
+          status={hasErrorOn(node, "aggregation") ? "error" : undefined}
+        />
+        <Typography.Text>over</Typography.Text>
+        <InputNumber
+          aria-label="Window length"
+          disabled={readOnly}
+          min={1}
+          precision={0}
+          value={velocity.window.value}
+          onChange={(value) =>
+            updateField({ window: { ...velocity.window, value: value ?? Number.NaN } })
+          }
+          status={hasErrorOn(node, "window") ? "error" : undefined}
+        />
+        <Select
+          aria-label="Window unit"
+          disabled={readOnly}
+          className="select-w-120"
+          value={velocity.window.unit}
+          options={WINDOW_UNIT_OPTIONS}
+          onChange={(unit) => updateField({ window: { ...velocity.window, unit } })}
+        />
+        <Typography.Text>per</Typography.Text>
+        <Select
+          aria-label="Group by"
+          mode="multiple"
+          disabled={readOnly}
+          placeholder="Group by"
+          className="select-min-width-240"
+          value={velocity.group_by}
+          optionFilterProp="label"
+          options={dimensionOptions}
+          onChange={(groupBy: string[]) => updateField({ group_by: groupBy })}
+          status={hasErrorOn(node, "group_by") ? "error" : undefined}
+        />
+      </Space>
+      <Space wrap>
+        <Select
+          aria-label="Comparison"
+          disabled={readOnly}
+          className="select-w-120"
+          value={node.op}
+          options={VELOCITY_OPERATORS.map((op) => ({ label: op, value: op }))}
+          onChange={(op) => updatePredicate({ op })}
+          status={hasErrorOn(node, "operator") ? "error" : undefined}
+        />
+        <InputNumber
+          aria-label="Threshold"
+          disabled={readOnly}
+          min={0}
+          placeholder="Threshold"
+          value={typeof node.value === "number" ? node.value : null}
+          onChange={(value) => updatePredicate({ value })}
+          status={hasErrorOn(node, "value") ? "error" : undefined}
+        />
+      </Space>
+      <Typography.Text type="secondary">
+        {describeVelocityPredicate(velocity, node.op, node.value, fields)}
+      </Typography.Text>
+    </Space>
+  );
+}
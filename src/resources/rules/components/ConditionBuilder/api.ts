@@ -1,4 +1,5 @@
 import type { ConditionNode, RuleField } from "../../../../types/domain";
+import type { RuleType } from "../../../../types/enums";
 import { ensureGroupRoot, hydrate } from "./helpers";
 import { validateTree, hasValidationErrors, type ValidationError } from "./validation";
 
@@ -9,7 +10,8 @@ import { validateTree, hasValidationErrors, type ValidationError } from "./valid
  */
 export function validateConditionTree(
   conditionTree: ConditionNode | undefined,
-  fields: RuleField[]
+  fields: RuleField[],
+  ruleType?: RuleType
 ): { valid: boolean; errors: ValidationError[] } {
   if (conditionTree === undefined) {
     return {
@@ -27,7 +29,7 @@ export function validateConditionTree(
     conditionTree as unknown as import("./nodeTypes").UiConditionNode | undefined
   );
   const uiRoot = hydrate(root);
-  const validated = validateTree(uiRoot, fields);
+  const validated = validateTree(uiRoot, fields, ruleType);
   const hasErrors = hasValidationErrors(validated);
 
   // Collect all errors from the tree
@@ -0,0 +1,148 @@
+import { describe, it, expect } from "vitest";
+import {
+  getDslCompletions,
+  parseConditionDsl,
+  printConditionDsl,
+  tokenizeConditionDsl,
+} from "./dsl";
+import { DataType, LogicalOperator, Operator } from "../../../../types/enums";
+import type { ConditionNode, RuleField } from "../../../../types/domain";
+
+const fields: RuleField[] = [
+  {
+    field_key: "AMOUNT",
+    display_name: "Amount",
+    data_type: DataType.NUMBER,
+    allowed_operators: [Operator.GT, Operator.LT, Operator.BETWEEN],
+    multi_value_allowed: false,
+    is_sensitive: false,
+    is_active: true,
+  },
+  {
+    field_key: "MCC",
+    display_name: "MCC",
+    data_type: DataType.ENUM,
+    allowed_operators: [Operator.EQ, Operator.IN, Operator.NOT_IN],
+    multi_value_allowed: true,
+    is_sensitive: false,
+    is_active: true,
+  },
+  {
+    field_key: "COUNTRY",
+    display_name: "Country",
+    data_type: DataType.STRING,
+    allowed_operators: [Operator.EQ, Operator.NE],
+    multi_value_allowed: false,
+    is_sensitive: false,
+    is_active: true,
+  },
+];
+
+function parseOk(text: string, registry: RuleField[] = fields): ConditionNode {
+  const result = parseConditionDsl(text, registry);
+  if (!result.ok) throw new Error(result.error.message);
+  return result.node;
+}
+
+describe("condition DSL", () => {
+  it("parses AND/OR with precedence, parentheses and registry fields", () => {
+    expect(parseOk('amount > 500 AND (mcc IN [7995, 5967] OR country != "US")')).toEqual({
+      kind: "group",
+      op: LogicalOperator.AND,
+      children: [
+        { kind: "predicate", field: "AMOUNT", op: Operator.GT, value: 500 },
+        {
+          kind: "group",
+          op: LogicalOperator.OR,
+          children: [
+            { kind: "predicate", field: "MCC", op: Operator.IN, value: ["7995", "5967"] },
+            { kind: "predicate", field: "COUNTRY", op: Operator.NE, value: "US" },
+          ],
+        },
+      ],
+    });
+
+    expect(parseOk("AMOUNT > 1 OR AMOUNT < 0 AND MCC = 1")).toMatchObject({
+      op: LogicalOperator.OR,
+      children: [{ op: Operator.GT }, { kind: "group", op: LogicalOperator.AND }],
+    });
+  });
+
+  it("parses word operators, ranges, null checks and velocity fields", () => {
+    const node = parseOk(
+      'A BETWEEN 1 AND 5 AND B IS NOT NULL AND C NOT LIKE "x%" AND COUNT(card, merchant) OVER 1 hours >= 3',
+      []
+    );
+    expect(node).toMatchObject({
+      children: [
+        { field: "A", op: Operator.BETWEEN, value: [1, 5] },
+        { field: "B", op: Operator.IS_NOT_NULL, value: null },
+        { field: "C", op: Operator.NOT_LIKE, value: "x%" },
+        {
+          field: {
+            type: "VELOCITY",
+            aggregation: "COUNT",
+            group_by: ["CARD", "MERCHANT"],
+            window: { value: 1, unit: "HOURS" },
+          },
+          op: Operator.GTE,
+          value: 3,
+        },
+      ],
+    });
+  });
+
+  it("round-trips printed trees", () => {
+    const texts = [
+      'AMOUNT > 500 AND (MCC IN ["7995", "5967"] OR COUNTRY != "US")',
+      "AMOUNT BETWEEN 10 AND 20 OR (AMOUNT < 1)",
+      "SUM(CARD) OVER 24 HOURS > 1000 AND ()",
+      "",
+    ];
+    for (const text of texts) {
+      expect(printConditionDsl(parseOk(text))).toBe(text);
+    }
+  });
+
+  it("reports error positions", () => {
+    expect(parseConditionDsl("AMOUNT > 500 AND\n  FOO = 1", fields)).toEqual({
+      ok: false,
+      error: { message: 'Unknown field "FOO"', offset: 19, line: 2, column: 3 },
+    });
+    expect(parseConditionDsl("(AMOUNT > 5", fields)).toMatchObject({
+      ok: false,
+      error: { message: 'Expected ")"', offset: 11 },
+    });
+    expect(parseConditionDsl('COUNTRY = "US', fields)).toMatchObject({
+      ok: false,
+      error: { message: "Unterminated string", column: 11 },
+    });
+    expect(parseConditionDsl("AMOUNT 5", fields)).toMatchObject({
+      ok: false,
+      error: { message: 'Expected an operator but found "5"' },
+    });
+  });
+
+  it("tokenizes for highlighting", () => {
+    expect(tokenizeConditionDsl('MCC in ["1"]').map((token) => [token.type, token.text])).toEqual([
+      ["field", "MCC"],
+      ["whitespace", " "],
+      ["keyword", "in"],
+      ["whitespace", " "],
+      ["punctuation", "["],
+      ["string", '"1"'],
+      ["punctuation", "]"],
+    ]);
+  });
+
+  it("suggests fields, allowed operators and connectives", () => {
+    const labels = (text: string): string[] =>
+      getDslCompletions(text, text.length, fields).completions.map((c) => c.label);
+
+    expect(labels("")).toEqual(["AMOUNT", "MCC", "COUNTRY"]);
+    expect(labels("AMOUNT > 5 AND c")).toEqual(["COUNTRY"]);
+    expect(labels("MCC ")).toEqual(["=", "IN", "NOT IN"]);
+    expect(labels("MCC = 1 ")).toEqual(["AND", "OR"]);
+    expect(getDslCompletions("AMOUNT > 5 O", 12, fields)).toMatchObject({ from: 11, to: 12 });
+  });
+});
@@ -0,0 +1,544 @@
+/**
+ * Condition DSL
+ *
+ * Text form of a condition tree for power users, e.g.
+ *
+ *   AMOUNT > 500 AND (MCC IN ["7995", "5967"] OR COUNTRY != "US")
+ *
+ * AND binds tighter than OR, parentheses create nested groups, and velocity
+ * fields are written as `COUNT(CARD) OVER 1 HOURS > 5`. Printing and parsing
+ * round-trip through the builder's group/predicate shape, so the text pane and
+ * the visual builder can edit the same tree.
+ */
+
+import type { ConditionNode, GroupNode, RuleField, VelocityField } from "../../../../types/domain";
+import { DataType, LogicalOperator, Operator } from "../../../../types/enums";
+import { isVelocityField } from "../../../../shared/utils/guards";
+import { formatVelocityField } from "../../../../shared/utils/format";
+import type { UiConditionNode } from "./nodeTypes";
+
+export type DslTokenType =
+  | "field"
+  | "keyword"
+  | "operator"
+  | "number"
+  | "string"
+  | "literal"
+  | "punctuation"
+  | "whitespace"
+  | "invalid";
+
+export interface DslToken {
+  type: DslTokenType;
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface DslError {
+  message: string;
+  /** Character offset into the source text */
+  offset: number;
+  /** 1-based line */
+  line: number;
+  /** 1-based column */
+  column: number;
+}
+
+export type DslParseResult = { ok: true; node: GroupNode } | { ok: false; error: DslError };
+
+export interface DslCompletion {
+  label: string;
+  /** Text inserted in place of the word under the cursor */
+  insertText: string;
+  kind: "field" | "operator" | "keyword";
+}
+
+type PrintableNode = ConditionNode | UiConditionNode;
+
+const OPERATOR_TEXT: Record<Operator, string> = {
+  [Operator.EQ]: "=",
+  [Operator.NE]: "!=",
+  [Operator.GT]: ">",
+  [Operator.GTE]: ">=",
+  [Operator.LT]: "<",
+  [Operator.LTE]: "<=",
+  [Operator.IN]: "IN",
+  [Operator.NOT_IN]: "NOT IN",
+  [Operator.LIKE]: "LIKE",
+  [Operator.NOT_LIKE]: "NOT LIKE",
+  [Operator.BETWEEN]: "BETWEEN",
+  [Operator.IS_NULL]: "IS NULL",
+  [Operator.IS_NOT_NULL]: "IS NOT NULL",
+  [Operator.CONTAINS]: "CONTAINS",
+  [Operator.STARTS_WITH]: "STARTS_WITH",
+  [Operator.ENDS_WITH]: "ENDS_WITH",
+  [Operator.REGEX]: "REGEX",
+};
+
+const SYMBOL_OPERATORS: Record<string, Operator> = {
+  "=": Operator.EQ,
+  "!=": Operator.NE,
+  ">": Operator.GT,
+  ">=": Operator.GTE,
+  "<": Operator.LT,
+  "<=": Operator.LTE,
+};
+
+const WORD_OPERATORS: Record<string, Operator> = {
+  IN: Operator.IN,
+  LIKE: Operator.LIKE,
+  BETWEEN: Operator.BETWEEN,
+  CONTAINS: Operator.CONTAINS,
+  STARTS_WITH: Operator.STARTS_WITH,
+  ENDS_WITH: Operator.ENDS_WITH,
+  REGEX: Operator.REGEX,
+};
+
+const AGGREGATIONS = ["COUNT", "SUM", "DISTINCT"] as const;
+const WINDOW_UNITS = ["SECONDS", "MINUTES", "HOURS", "DAYS"] as const;
+
+const KEYWORDS = new Set([
+  "AND",
+  "OR",
+  "NOT",
+  "IS",
+  "OVER",
+  ...Object.keys(WORD_OPERATORS),
+  ...AGGREGATIONS,
+  ...WINDOW_UNITS,
+]);
+const LITERALS = new Set(["TRUE", "FALSE", "NULL"]);
+
+// ============================================================================
+// Printing
+// ============================================================================
+
+function printField(field: unknown): string {
+  if (isVelocityField(field)) return formatVelocityField(field, "OVER");
+  if (typeof field === "string") return field === "" ? "?" : field;
+  return JSON.stringify(field);
+}
+
+function printValue(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(printValue).join(", ")}]`;
+  if (value === undefined) return "null";
+  return JSON.stringify(value);
+}
+
+function printPredicate(field: unknown, op: Operator, value: unknown): string {
+  const head = `${printField(field)} ${OPERATOR_TEXT[op] ?? op}`;
+  if (op === Operator.IS_NULL || op === Operator.IS_NOT_NULL) return head;
+  if (op === Operator.BETWEEN && Array.isArray(value)) {
+    return `${head} ${printValue(value[0])} AND ${printValue(value[1])}`;
+  }
+  return `${head} ${printValue(value)}`;
+}
+
+function printNode(node: PrintableNode, nested: boolean): string {
+  if (node.kind === "predicate") return printPredicate(node.field, node.op, node.value);
+  const joiner = node.op === LogicalOperator.OR ? " OR " : " AND ";
+  const body = (node.children as PrintableNode[])
+    .map((child) => printNode(child, true))
+    .join(joiner);
+  return nested ? `(${body})` : body;
+}
+
+/**
+ * Prints a condition tree as DSL text; the root group is not parenthesised
+ */
+export function printConditionDsl(node: PrintableNode | null | undefined): string {
+  if (node == null) return "";
+  return printNode(node, false);
+}
+
+// ============================================================================
+// Tokenizing
+// ============================================================================
+
+const TOKEN_PATTERNS: Array<[DslTokenType, RegExp]> = [
+  ["whitespace", /^\s+/],
+  ["string", /^"(?:[^"\\]|\\.)*"/],
+  ["number", /^-?\d+(?:\.\d+)?/],
+  ["field", /^[A-Za-z_][A-Za-z0-9_.]*/],
+  ["operator", /^(?:>=|<=|!=|=|>|<)/],
+  ["punctuation", /^[()[\],]/],
+];
+
+function classifyWord(text: string): DslTokenType {
+  const upper = text.toUpperCase();
+  if (LITERALS.has(upper)) return "literal";
+  if (KEYWORDS.has(upper)) return "keyword";
+  return "field";
+}
+
+/**
+ * Splits DSL text into tokens (whitespace included) for highlighting and parsing
+ */
+export function tokenizeConditionDsl(text: string): DslToken[] {
+  const tokens: DslToken[] = [];
+  let offset = 0;
+  while (offset < text.length) {
+    const rest = text.slice(offset);
+    let matched: DslToken | null = null;
+    for (const [type, pattern] of TOKEN_PATTERNS) {
+      const match = pattern.exec(rest);
+      if (match != null) {
+        const tokenText = match[0];
+        matched = {
+          type: type === "field" ? classifyWord(tokenText) : type,
+          text: tokenText,
+          start: offset,
+          end: offset + tokenText.length,
+        };
+        break;
+      }
+    }
+    // Unterminated strings and stray characters run to the next whitespace
+    matched ??= {
+      type: "invalid",
+      text: /^\S+/.exec(rest)?.[0] ?? rest.charAt(0),
+      start: offset,
+      end: offset + (/^\S+/.exec(rest)?.[0].length ?? 1),
+    };
+    tokens.push(matched);
+    offset = matched.end;
+  }
+  return tokens;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+class DslSyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly offset: number
+  ) {
+    super(message);
+  }
+}
+
+function toDslError(text: string, message: string, offset: number): DslError {
+  const before = text.slice(0, offset);
+  const lines = before.split("\n");
+  return {
+    message,
+    offset,
+    line: lines.length,
+    column: (lines[lines.length - 1]?.length ?? 0) + 1,
+  };
+}
+
+function coerceValue(value: unknown, field: RuleField | undefined): unknown {
+  if (field == null) return value;
+  if (Array.isArray(value)) return value.map((item) => coerceValue(item, field));
+  const textual = field.data_type === DataType.STRING || field.data_type === DataType.ENUM;
+  return textual && typeof value === "number" ? String(value) : value;
+}
+
+class DslParser {
+  private readonly tokens: DslToken[];
+  private index = 0;
+
+  constructor(
+    private readonly text: string,
+    private readonly fields: RuleField[]
+  ) {
+    this.tokens = tokenizeConditionDsl(text).filter((token) => token.type !== "whitespace");
+  }
+
+  parse(): GroupNode {
+    if (this.peek() == null) return { kind: "group", op: LogicalOperator.AND, children: [] };
+    const node = this.parseOr();
+    const trailing = this.peek();
+    if (trailing != null) this.fail(`Unexpected "${trailing.text}"`, trailing);
+    return node.kind === "group"
+      ? node
+      : { kind: "group", op: LogicalOperator.AND, children: [node] };
+  }
+
+  private peek(): DslToken | undefined {
+    return this.tokens[this.index];
+  }
+
+  private fail(message: string, token?: DslToken): never {
+    throw new DslSyntaxError(message, token?.start ?? this.text.length);
+  }
+
+  private isWord(word: string, token = this.peek()): boolean {
+    return token?.type === "keyword" && token.text.toUpperCase() === word;
+  }
+
+  private isPunctuation(symbol: string): boolean {
+    const token = this.peek();
+    return token?.type === "punctuation" && token.text === symbol;
+  }
+
+  private next(): DslToken {
+    const token = this.peek();
+    if (token == null) this.fail("Unexpected end of expression");
+    this.index += 1;
+    return token;
+  }
+
+  private expectWord(word: string): void {
+    if (!this.isWord(word)) this.fail(`Expected ${word}`, this.peek());
+    this.index += 1;
+  }
+
+  private expectPunctuation(symbol: string): void {
+    if (!this.isPunctuation(symbol)) this.fail(`Expected "${symbol}"`, this.peek());
+    this.index += 1;
+  }
+
+  private parseLogical(op: LogicalOperator, parseOperand: () => ConditionNode): ConditionNode {
+    const first = parseOperand();
+    const children = [first];
+    const word = op === LogicalOperator.OR ? "OR" : "AND";
+    while (this.isWord(word)) {
+      this.index += 1;
+      children.push(parseOperand());
+    }
+    return children.length === 1 ? first : { kind: "group", op, children };
+  }
+
+  private parseOr(): ConditionNode {
+    return this.parseLogical(LogicalOperator.OR, () => this.parseAnd());
+  }
+
+  private parseAnd(): ConditionNode {
+    return this.parseLogical(LogicalOperator.AND, () => this.parsePrimary());
+  }
+
+  private parsePrimary(): ConditionNode {
+    if (!this.isPunctuation("(")) return this.parsePredicate();
+    this.index += 1;
+    if (this.isPunctuation(")")) {
+      this.index += 1;
+      return { kind: "group", op: LogicalOperator.AND, children: [] };
+    }
+    const inner = this.parseOr();
+    this.expectPunctuation(")");
+    // Parentheses always produce a group so a nested one-child group survives a round trip
+    return inner.kind === "group"
+      ? inner
+      : { kind: "group", op: LogicalOperator.AND, children: [inner] };
+  }
+
+  private parsePredicate(): ConditionNode {
+    const token = this.peek();
+    const isAggregation = AGGREGATIONS.some((agg) => this.isWord(agg, token));
+    if (isAggregation && this.tokens[this.index + 1]?.text === "(") {
+      return this.parseVelocityPredicate();
+    }
+    if (token?.type !== "field") this.fail("Expected a field name", token);
+    this.index += 1;
+    const field = this.resolveField(token);
+    const op = this.parseOperator();
+    const value = coerceValue(this.parseOperand(op), field);
+    return { kind: "predicate", field: field?.field_key ?? token.text, op, value };
+  }
+
+  private parseVelocityPredicate(): ConditionNode {
+    const aggregation = this.next().text.toUpperCase() as VelocityField["aggregation"];
+    this.expectPunctuation("(");
+    const groupBy = [this.parseDimension()];
+    while (this.isPunctuation(",")) {
+      this.index += 1;
+      groupBy.push(this.parseDimension());
+    }
+    this.expectPunctuation(")");
+    this.expectWord("OVER");
+    const windowToken = this.next();
+    if (windowToken.type !== "number") this.fail("Expected a window length", windowToken);
+    const unitToken = this.next();
+    const unit = unitToken.text.toUpperCase() as VelocityField["window"]["unit"];
+    if (!WINDOW_UNITS.includes(unit)) {
+      this.fail(`Expected one of ${WINDOW_UNITS.join(", ")}`, unitToken);
+    }
+    const op = this.parseOperator();
+    const valueToken = this.peek();
+    const value = this.parseOperand(op);
+    if (typeof value !== "number") this.fail("Velocity thresholds must be numbers", valueToken);
+    return {
+      kind: "predicate",
+      field: {
+        type: "VELOCITY",
+        aggregation,
+        window: { value: Number(windowToken.text), unit },
+        group_by: groupBy,
+      },
+      op,
+      value,
+    };
+  }
+
+  private parseDimension(): string {
+    const dimension = this.next();
+    if (dimension.type !== "field") this.fail("Expected a grouping dimension", dimension);
+    return dimension.text.toUpperCase();
+  }
+
+  private resolveField(token: DslToken): RuleField | undefined {
+    if (this.fields.length === 0) return undefined;
+    const match = this.fields.find(
+      (field) => field.field_key.toUpperCase() === token.text.toUpperCase()
+    );
+    if (match == null) this.fail(`Unknown field "${token.text}"`, token);
+    return match;
+  }
+
+  private parseOperator(): Operator {
+    const token = this.next();
+    if (token.type === "operator") return SYMBOL_OPERATORS[token.text] as Operator;
+    const word = token.text.toUpperCase();
+    if (token.type === "keyword" && word in WORD_OPERATORS) return WORD_OPERATORS[word] as Operator;
+    if (this.isWord("NOT", token)) {
+      const negated = this.next();
+      if (this.isWord("IN", negated)) return Operator.NOT_IN;
+      if (this.isWord("LIKE", negated)) return Operator.NOT_LIKE;
+      this.fail("Expected IN or LIKE after NOT", negated);
+    }
+    if (this.isWord("IS", token)) {
+      const negate = this.isWord("NOT");
+      if (negate) this.index += 1;
+      const nullToken = this.next();
+      if (nullToken.text.toUpperCase() !== "NULL") this.fail("Expected NULL", nullToken);
+      return negate ? Operator.IS_NOT_NULL : Operator.IS_NULL;
+    }
+    return this.fail(`Expected an operator but found "${token.text}"`, token);
+  }
+
+  private parseOperand(op: Operator): unknown {
+    if (op === Operator.IS_NULL || op === Operator.IS_NOT_NULL) return null;
+    if (op === Operator.BETWEEN) {
+      const min = this.parseScalar();
+      this.expectWord("AND");
+      return [min, this.parseScalar()];
+    }
+    if (op === Operator.IN || op === Operator.NOT_IN) return this.parseList();
+    return this.parseScalar();
+  }
+
+  private parseList(): unknown[] {
+    this.expectPunctuation("[");
+    const values: unknown[] = [];
+    if (this.isPunctuation("]")) {
+      this.index += 1;
+      return values;
+    }
+    values.push(this.parseScalar());
+    while (this.isPunctuation(",")) {
+      this.index += 1;
+      values.push(this.parseScalar());
+    }
+    this.expectPunctuation("]");
+    return values;
+  }
+
+  private parseScalar(): unknown {
+    const token = this.next();
+    if (token.type === "number") return Number(token.text);
+    if (token.type === "string") return JSON.parse(token.text) as string;
+    if (token.type === "literal") {
+      const word = token.text.toUpperCase();
+      if (word === "NULL") return null;
+      return word === "TRUE";
+    }
+    if (token.type === "invalid" && token.text.startsWith('"')) {
+      this.fail("Unterminated string", token);
+    }
+    return this.fail(`Expected a value but found "${token.text}"`, token);
+  }
+}
+
+/**
+ * Parses DSL text into a builder condition tree. When a field registry is
+ * given, field names are matched case-insensitively against it and numeric
+ * literals for string/enum fields are stored as strings.
+ */
+export function parseConditionDsl(text: string, fields: RuleField[] = []): DslParseResult {
+  try {
+    return { ok: true, node: new DslParser(text, fields).parse() };
+  } catch (error) {
+    if (error instanceof DslSyntaxError) {
+      return { ok: false, error: toDslError(text, error.message, error.offset) };
+    }
+    throw error;
+  }
+}
+
+// ============================================================================
+// Autocomplete
+// ============================================================================
+
+function operatorCompletions(field: RuleField | undefined): DslCompletion[] {
+  const operators = field?.allowed_operators ?? Object.values(Operator);
+  return operators.map((op) => ({
+    label: OPERATOR_TEXT[op],
+    insertText: OPERATOR_TEXT[op],
+    kind: "operator",
+  }));
+}
+
+function fieldCompletions(fields: RuleField[]): DslCompletion[] {
+  return fields.map((field) => ({
+    label: field.field_key,
+    insertText: field.field_key,
+    kind: "field",
+  }));
+}
+
+const CONNECTIVE_COMPLETIONS: DslCompletion[] = ["AND", "OR"].map((word) => ({
+  label: word,
+  insertText: word,
+  kind: "keyword",
+}));
+
+/**
+ * Suggests fields, operators or AND/OR for the word ending at `cursor`
+ */
+export function getDslCompletions(
+  text: string,
+  cursor: number,
+  fields: RuleField[]
+): { from: number; to: number; completions: DslCompletion[] } {
+  const before = text.slice(0, cursor);
+  const prefix = /[A-Za-z_][A-Za-z0-9_]*$/.exec(before)?.[0] ?? "";
+  const from = cursor - prefix.length;
+  const previous = tokenizeConditionDsl(text.slice(0, from))
+    .filter((token) => token.type !== "whitespace")
+    .pop();
+
+  let completions: DslCompletion[];
+  if (
+    previous == null ||
+    previous.text === "(" ||
+    ["AND", "OR"].includes(previous.text.toUpperCase())
+  ) {
+    completions = fieldCompletions(fields);
+  } else if (previous.type === "field") {
+    const field = fields.find((f) => f.field_key.toUpperCase() === previous.text.toUpperCase());
+    completions = operatorCompletions(field);
+  } else if (
+    ["number", "string", "literal"].includes(previous.type) ||
+    [")", "]"].includes(previous.text)
+  ) {
+    completions = CONNECTIVE_COMPLETIONS;
+  } else {
+    completions = [];
+  }
+
+  const upperPrefix = prefix.toUpperCase();
+  return {
+    from,
+    to: cursor,
+    completions: completions.filter(
+      (completion) =>
+        completion.label.toUpperCase().startsWith(upperPrefix) &&
+        completion.label.toUpperCase() !== upperPrefix
+    ),
+  };
+}
@@ -120,6 +120,25 @@ export function newPredicate(): UiPredicateNode {
   } as UiPredicateNode;
 }
 
+/**
+ * Blank velocity predicate; group-by dimensions and the threshold are left
+ * for the maker to pick so validation prompts for them
+ */
+export function newVelocityPredicate(): UiPredicateNode {
+  return {
+    kind: "predicate",
+    uiId: createUiId(),
+    field: {
+      type: "VELOCITY",
+      aggregation: "COUNT",
+      window: { value: 5, unit: "MINUTES" },
+      group_by: [],
+    },
+    op: Operator.GT,
+    value: null,
+  };
+}
+
 export function newGroup(op: LogicalOperator): UiGroupNode {
   return { kind: "group", uiId: createUiId(), op, children: [] } as UiGroupNode;
 }
@@ -25,7 +25,7 @@ vi.mock("@refinedev/core", () => ({
 
 import { useList } from "@refinedev/core";
 
-import { Operator, LogicalOperator, DataType } from "../../../../types/enums";
+import { Operator, LogicalOperator, DataType, RuleType } from "../../../../types/enums";
 import type { PredicateNode, GroupNode, ConditionNode, RuleField } from "../../../../types/domain";
 
 // Mock dayjs for DatePicker
@@ -733,4 +733,128 @@ describe("ConditionBuilder component", () => {
 
     expect(screen.getByText("No conditions yet.")).toBeDefined();
   });
+  describe("velocity conditions", () => {
+    const velocityTree: ConditionNode = {
+      kind: "group",
+      op: LogicalOperator.AND,
+      children: [
+        {
+          kind: "predicate",
+          field: {
+            type: "VELOCITY",
+            aggregation: "COUNT",
+            window: { value: 5, unit: "MINUTES" },
+            group_by: ["mcc"],
+          },
+          op: Operator.GT,
+          value: 3,
+        },
+      ],
+    };
+
+    it("offers velocity conditions only for rule types that support them", () => {
+      const { unmount } = render(<ConditionBuilder onChange={vi.fn()} ruleType={RuleType.AUTH} />);
+      expect(screen.getByText("Add Velocity Condition")).toBeDefined();
+      unmount();
+
+      render(<ConditionBuilder onChange={vi.fn()} ruleType={RuleType.ALLOWLIST} />);
+      expect(screen.queryByText("Add Velocity Condition")).toBeNull();
+    });
+
+    it("adds a velocity predicate that prompts for dimensions and threshold", async () => {
+      const onChange = vi.fn();
+      render(<ConditionBuilder onChange={onChange} ruleType={RuleType.MONITORING} />);
+
+      await userEvent.click(screen.getByText("Add Velocity Condition"));
+
+      const call = onChange.mock.calls[0][0];
+      expect(call.children[0].field).toMatchObject({ type: "VELOCITY", aggregation: "COUNT" });
+      expect(screen.getByText("Select at least one group-by dimension")).toBeDefined();
+      expect(screen.getByText("Value is required")).toBeDefined();
+    });
+
+    it("edits the threshold of an existing velocity predicate", () => {
+      const onChange = vi.fn();
+      render(
+        <ConditionBuilder onChange={onChange} value={velocityTree} ruleType={RuleType.AUTH} />
+      );
+
+      expect(screen.getByText("Velocity Condition")).toBeDefined();
+      expect(
+        screen.getByText("Transaction count per Mcc within 5 minutes is more than 3")
+      ).toBeDefined();
+
+      fireEvent.change(screen.getByLabelText("Threshold"), { target: { value: "10" } });
+
+      const call = onChange.mock.calls[onChange.mock.calls.length - 1][0];
+      expect(call.children[0]).toMatchObject({ op: Operator.GT, value: 10 });
+    });
+
+    it("flags velocity predicates on rule types without counters", () => {
+      render(
+        <ConditionBuilder onChange={vi.fn()} value={velocityTree} ruleType={RuleType.BLOCKLIST} />
+      );
+
+      expect(
+        screen.getByText(/Velocity conditions are only supported on AUTH and MONITORING/)
+      ).toBeDefined();
+      expect(screen.getByText(/Validation Required/)).toBeDefined();
+    });
+  });
+
+  describe("text pane", () => {
+    const tree: ConditionNode = {
+      kind: "group",
+      op: LogicalOperator.AND,
+      children: [{ kind: "predicate", field: "mcc", op: Operator.EQ, value: "5967" }],
+    };
+
+    it("prints the current tree", () => {
+      render(<ConditionBuilder onChange={vi.fn()} value={tree} />);
+
+      expect(screen.getByLabelText("Condition expression")).toHaveValue('mcc = "5967"');
+    });
+
+    it("pushes parsed text into the visual builder", () => {
+      const onChange = vi.fn();
+      render(<ConditionBuilder onChange={onChange} value={tree} />);
+
+      fireEvent.change(screen.getByLabelText("Condition expression"), {
+        target: { value: 'mcc = "5967" OR amount > 10' },
+      });
+
+      expect(onChange).toHaveBeenLastCalledWith({
+        kind: "group",
+        op: LogicalOperator.OR,
+        children: [
+          { kind: "predicate", field: "mcc", op: Operator.EQ, value: "5967" },
+          { kind: "predicate", field: "amount", op: Operator.GT, value: 10 },
+        ],
+      });
+    });
+
+    it("keeps invalid text and shows the error position", () => {
+      const onChange = vi.fn();
+      render(<ConditionBuilder onChange={onChange} value={tree} />);
+
+      const input = screen.getByLabelText("Condition expression");
+      fireEvent.change(input, { target: { value: 'mcc = "5967" AND' } });
+
+      expect(input).toHaveValue('mcc = "5967" AND');
+      expect(screen.getByText("Line 1, column 17: Expected a field name")).toBeInTheDocument();
+      expect(onChange).not.toHaveBeenCalled();
+    });
+
+    it("reprints after a visual edit", async () => {
+      render(<ConditionBuilder onChange={vi.fn()} value={tree} />);
+
+      fireEvent.change(screen.getByLabelText("Condition expression"), {
+        target: { value: 'mcc = "5967" AND' },
+      });
+      await userEvent.click(screen.getByText("Add OR Group"));
+
+      expect(screen.getByLabelText("Condition expression")).toHaveValue('mcc = "5967" AND ()');
+      expect(screen.queryByText(/Expected a field name/)).toBeNull();
+    });
+  });
 });
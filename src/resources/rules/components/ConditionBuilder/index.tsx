@@ -9,10 +9,15 @@
 import { useCallback, useMemo, useState, type FC } from "react";
 import { Alert, Card, Divider, Typography } from "antd";
 import { useList } from "@refinedev/core";
-import type { ConditionNode, RuleField } from "../../../../types/domain";
-import { LogicalOperator } from "../../../../types/enums";
+import type { ConditionNode, GroupNode, RuleField } from "../../../../types/domain";
+import { LogicalOperator, type RuleType } from "../../../../types/enums";
 import type { UiConditionNode, UiGroupNode } from "./nodeTypes";
-import { MAX_STRING_LENGTH, validateTree, hasValidationErrors } from "./validation";
+import {
+  MAX_STRING_LENGTH,
+  validateTree,
+  hasValidationErrors,
+  supportsVelocity,
+} from "./validation";
 import {
   createUiId,
   ensureGroupRoot as ensureGroupRootHelper,
@@ -22,9 +27,11 @@ import {
   deleteNode,
   moveChild,
   newPredicate,
+  newVelocityPredicate,
   newGroup,
 } from "./helpers";
 import { NodeRow } from "./ConditionNodes";
+import { ConditionDslEditor } from "./ConditionDslEditor";
 import { RangeValueEditor, MultiValueEditor, SingleValueEditor } from "./ValueEditor";
 
 export interface ConditionBuilderProps {
@@ -34,6 +41,8 @@ export interface ConditionBuilderProps {
   onChange?: (value: ConditionNode) => void;
   /** Whether the builder is read-only */
   readOnly?: boolean;
+  /** Rule type being authored; velocity conditions are offered only where it supports them */
+  ruleType?: RuleType;
 }
 
 function ensureGroupRoot(root?: ConditionNode): UiGroupNode {
@@ -48,6 +57,7 @@ export const ConditionBuilder: FC<ConditionBuilderProps> = ({
   value,
   onChange,
   readOnly = false,
+  ruleType,
 }) => {
   const root = useMemo(() => ensureGroupRoot(value), [value]);
 
@@ -68,8 +78,8 @@ export const ConditionBuilder: FC<ConditionBuilderProps> = ({
 
   // Validate the entire tree and get a validated version with error annotations
   const validatedRoot = useMemo(() => {
-    return validateTree(uiRoot, fields);
-  }, [uiRoot, fields]);
+    return validateTree(uiRoot, fields, ruleType);
+  }, [uiRoot, fields, ruleType]);
 
   // Check if there are any validation errors in the tree
   const hasErrors = useMemo(() => {
@@ -113,6 +123,19 @@ export const ConditionBuilder: FC<ConditionBuilderProps> = ({
     [pushChange, uiRoot]
   );
 
+  const onAddVelocityPredicate = useCallback(
+    (parentId: string) => {
+      const next = ensureUiGroup(
+        findAndUpdate(uiRoot, parentId, (n) => {
+          if (n.kind !== "group") return n;
+          return { ...n, children: [...n.children, newVelocityPredicate()] };
+        })
+      );
+      pushChange(next);
+    },
+    [pushChange, uiRoot]
+  );
+
   const onAddGroup = useCallback(
     (parentId: string, op: LogicalOperator) => {
       const next = ensureUiGroup(
@@ -134,6 +157,13 @@ export const ConditionBuilder: FC<ConditionBuilderProps> = ({
     [pushChange, uiRoot]
   );
 
+  const onDslChange = useCallback(
+    (next: GroupNode) => {
+      pushChange(ensureUiGroup(hydrate(next as UiConditionNode)));
+    },
+    [pushChange]
+  );
+
   return (
     <Card title="Condition Builder" size="small" variant="outlined">
       {readOnly ? (
@@ -153,7 +183,8 @@ export const ConditionBuilder: FC<ConditionBuilderProps> = ({
       )}
 
       <Typography.Paragraph type="secondary" className="paragraph-no-top">
-        Build nested AND/OR groups with field/operator/value predicates.
+        Build nested AND/OR groups with field/operator/value and velocity predicates, or type the
+        expression directly in the text pane.
         {!readOnly && (
           <>
             <br />
@@ -165,6 +196,13 @@ export const ConditionBuilder: FC<ConditionBuilderProps> = ({
         )}
       </Typography.Paragraph>
 
+      <ConditionDslEditor
+        value={uiRoot}
+        fields={fields}
+        readOnly={readOnly}
+        onChange={onDslChange}
+      />
+
       <Divider className="divider-spaced" />
 
       <NodeRow
@@ -175,6 +213,7 @@ export const ConditionBuilder: FC<ConditionBuilderProps> = ({
         onDelete={onDelete}
         onAddPredicate={onAddPredicate}
         onAddGroup={onAddGroup}
+        onAddVelocityPredicate={supportsVelocity(ruleType) ? onAddVelocityPredicate : undefined}
         onMove={onMove}
       />
     </Card>
@@ -20,11 +20,13 @@ import {
   validatePredicate,
   validateLogicalOperator,
   validateValue,
+  validateVelocityPredicate,
+  supportsVelocity,
   MAX_STRING_LENGTH,
   MAX_MULTI_VALUES,
 } from "./validation";
-import { DataType, Operator, LogicalOperator } from "../../../../types/enums";
-import type { RuleField } from "../../../../types/domain";
+import { DataType, Operator, LogicalOperator, RuleType } from "../../../../types/enums";
+import type { RuleField, VelocityField } from "../../../../types/domain";
 
 // Mock rule fields for testing
 const mockFields: RuleField[] = [
@@ -494,3 +496,85 @@ describe("Value Validation Helper", () => {
     expect(result.valid).toBe(true);
   });
 });
+
+describe("Velocity Predicate Validation", () => {
+  const velocity: VelocityField = {
+    type: "VELOCITY",
+    aggregation: "COUNT",
+    window: { value: 5, unit: "MINUTES" },
+    group_by: ["card_number"],
+  };
+  const codes = (result: { errors: { code: string }[] }): string[] =>
+    result.errors.map((e) => e.code);
+
+  it("should accept a well-formed velocity predicate", () => {
+    const result = validateVelocityPredicate(velocity, Operator.GT, 3, mockFields, RuleType.AUTH);
+    expect(result.valid).toBe(true);
+  });
+
+  it("should only allow velocity on AUTH and MONITORING rules", () => {
+    expect(supportsVelocity(RuleType.AUTH)).toBe(true);
+    expect(supportsVelocity(RuleType.MONITORING)).toBe(true);
+    expect(supportsVelocity(RuleType.BLOCKLIST)).toBe(false);
+    expect(supportsVelocity(undefined)).toBe(true);
+
+    const result = validateVelocityPredicate(velocity, Operator.GT, 3, mockFields, "ALLOWLIST");
+    expect(codes(result)).toEqual(["VELOCITY_NOT_SUPPORTED"]);
+  });
+
+  it("should reject non-positive, fractional and over-long windows", () => {
+    const window = (value: number, unit: VelocityField["window"]["unit"]): VelocityField => ({
+      ...velocity,
+      window: { value, unit },
+    });
+    expect(
+      codes(validateVelocityPredicate(window(0, "MINUTES"), Operator.GT, 3, mockFields))
+    ).toEqual(["INVALID_WINDOW"]);
+    expect(
+      codes(validateVelocityPredicate(window(1.5, "HOURS"), Operator.GT, 3, mockFields))
+    ).toEqual(["INVALID_WINDOW"]);
+    expect(
+      codes(validateVelocityPredicate(window(31, "DAYS"), Operator.GT, 3, mockFields))
+    ).toEqual(["WINDOW_TOO_LONG"]);
+    expect(validateVelocityPredicate(window(30, "DAYS"), Operator.GT, 3, mockFields).valid).toBe(
+      true
+    );
+  });
+
+  it("should require group-by dimensions from the registry", () => {
+    const groupBy = (keys: string[]): VelocityField => ({ ...velocity, group_by: keys });
+    expect(codes(validateVelocityPredicate(groupBy([]), Operator.GT, 3, mockFields))).toEqual([
+      "GROUP_BY_REQUIRED",
+    ]);
+    expect(
+      codes(validateVelocityPredicate(groupBy(["unknown"]), Operator.GT, 3, mockFields))
+    ).toEqual(["INVALID_GROUP_BY"]);
+    expect(
+      codes(validateVelocityPredicate(groupBy(["inactive_field"]), Operator.GT, 3, mockFields))
+    ).toEqual(["INVALID_GROUP_BY"]);
+    // Numeric fields are measures, not dimensions
+    expect(
+      codes(validateVelocityPredicate(groupBy(["transaction_amount"]), Operator.GT, 3, mockFields))
+    ).toEqual(["INVALID_GROUP_BY"]);
+  });
+
+  it("should require a comparison operator and a non-negative threshold", () => {
+    expect(codes(validateVelocityPredicate(velocity, Operator.IN, 3, mockFields))).toEqual([
+      "OPERATOR_NOT_ALLOWED",
+    ]);
+    expect(codes(validateVelocityPredicate(velocity, Operator.GT, null, mockFields))).toEqual([
+      "VALUE_REQUIRED",
+    ]);
+    expect(codes(validateVelocityPredicate(velocity, Operator.GT, -1, mockFields))).toEqual([
+      "INVALID_THRESHOLD",
+    ]);
+  });
+
+  it("should allow fractional thresholds only for SUM", () => {
+    expect(codes(validateVelocityPredicate(velocity, Operator.GT, 2.5, mockFields))).toEqual([
+      "INVALID_THRESHOLD",
+    ]);
+    const sum: VelocityField = { ...velocity, aggregation: "SUM" };
+    expect(validateVelocityPredicate(sum, Operator.GT, 2.5, mockFields).valid).toBe(true);
+  });
+});
@@ -5,8 +5,8 @@
  * All user inputs must be validated through these utilities before being used.
  */
 
-import { DataType, Operator, LogicalOperator } from "../../../../types/enums";
-import type { RuleField } from "../../../../types/domain";
+import { DataType, Operator, LogicalOperator, RuleType } from "../../../../types/enums";
+import type { RuleField, VelocityField } from "../../../../types/domain";
 
 // ============================================================================
 // Constants and Configuration
@@ -721,6 +721,203 @@ export function validateLogicalOperator(operator: unknown): ValidationResult {
   return { valid: true, errors: [], sanitizedValue: operator };
 }
 
+// ============================================================================
+// Velocity Validation
+// ============================================================================
+
+/**
+ * Rule types whose engine keeps the runtime counters velocity predicates read
+ */
+export const VELOCITY_RULE_TYPES: readonly RuleType[] = [RuleType.AUTH, RuleType.MONITORING];
+
+/**
+ * Comparison operators a velocity threshold can use
+ */
+export const VELOCITY_OPERATORS: readonly Operator[] = [
+  Operator.GT,
+  Operator.GTE,
+  Operator.LT,
+  Operator.LTE,
+  Operator.EQ,
+  Operator.NE,
+];
+
+/**
+ * Longest velocity window the counters retain (30 days)
+ */
+export const MAX_VELOCITY_WINDOW_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * Maximum number of group-by dimensions in one velocity counter
+ */
+export const MAX_VELOCITY_GROUP_BY = 3;
+
+const VELOCITY_AGGREGATIONS: readonly VelocityField["aggregation"][] = ["COUNT", "SUM", "DISTINCT"];
+
+export const VELOCITY_UNIT_SECONDS: Record<VelocityField["window"]["unit"], number> = {
+  SECONDS: 1,
+  MINUTES: 60,
+  HOURS: 60 * 60,
+  DAYS: 24 * 60 * 60,
+};
+
+/**
+ * Whether a rule type may use velocity predicates; an unknown rule type
+ * (e.g. before one is chosen) does not restrict them
+ */
+export function supportsVelocity(ruleType?: RuleType | string | null): boolean {
+  if (ruleType == null || ruleType === "") return true;
+  return VELOCITY_RULE_TYPES.includes(ruleType as RuleType);
+}
+
+/**
+ * Whether a registry field can serve as a velocity group-by dimension
+ */
+export function isVelocityDimension(field: RuleField): boolean {
+  return field.data_type === DataType.STRING || field.data_type === DataType.ENUM;
+}
+
+function validateVelocityWindow(window: VelocityField["window"] | undefined): ValidationError[] {
+  if (window?.unit == null || !(window.unit in VELOCITY_UNIT_SECONDS)) {
+    return [{ code: "INVALID_WINDOW", message: "Window unit is required", field: "window" }];
+  }
+  const unitSeconds = VELOCITY_UNIT_SECONDS[window.unit];
+  if (!Number.isInteger(window.value) || window.value <= 0) {
+    return [
+      {
+        code: "INVALID_WINDOW",
+        message: "Window length must be a whole number greater than zero",
+        field: "window",
+      },
+    ];
+  }
+  if (window.value * unitSeconds > MAX_VELOCITY_WINDOW_SECONDS) {
+    return [
+      {
+        code: "WINDOW_TOO_LONG",
+        message: "Velocity windows cannot exceed 30 days",
+        field: "window",
+      },
+    ];
+  }
+  return [];
+}
+
+function validateVelocityGroupBy(groupBy: unknown, allowedFields: RuleField[]): ValidationError[] {
+  if (!Array.isArray(groupBy) || groupBy.length === 0) {
+    return [
+      {
+        code: "GROUP_BY_REQUIRED",
+        message: "Select at least one group-by dimension",
+        field: "group_by",
+      },
+    ];
+  }
+  if (groupBy.length > MAX_VELOCITY_GROUP_BY) {
+    return [
+      {
+        code: "TOO_MANY_GROUP_BY",
+        message: `Velocity counters support at most ${MAX_VELOCITY_GROUP_BY} group-by dimensions`,
+        field: "group_by",
+      },
+    ];
+  }
+
+  return groupBy.flatMap((key: unknown): ValidationError[] => {
+    const field = allowedFields.find((f) => f.field_key === key);
+    if (field?.is_active !== true) {
+      return [
+        {
+          code: "INVALID_GROUP_BY",
+          message: `${String(key)} is not an active field in the registry`,
+          field: "group_by",
+        },
+      ];
+    }
+    if (!isVelocityDimension(field)) {
+      return [
+        {
+          code: "INVALID_GROUP_BY",
+          message: `${field.display_name} cannot be used as a group-by dimension`,
+          field: "group_by",
+        },
+      ];
+    }
+    return [];
+  });
+}
+
+function validateVelocityThreshold(
+  aggregation: VelocityField["aggregation"],
+  value: unknown
+): ValidationError[] {
+  const result = validateNumberValue(value);
+  if (!result.valid) return result.errors;
+
+  const threshold = result.sanitizedValue as number;
+  if (threshold < 0) {
+    return [{ code: "INVALID_THRESHOLD", message: "Threshold cannot be negative", field: "value" }];
+  }
+  if (aggregation !== "SUM" && !Number.isInteger(threshold)) {
+    return [
+      {
+        code: "INVALID_THRESHOLD",
+        message: "Count thresholds must be whole numbers",
+        field: "value",
+      },
+    ];
+  }
+  return [];
+}
+
+/**
+ * Validates a velocity predicate: aggregation, window, group-by dimensions
+ * from the registry, comparison operator and threshold
+ */
+export function validateVelocityPredicate(
+  velocity: VelocityField,
+  operator: Operator,
+  value: unknown,
+  allowedFields: RuleField[],
+  ruleType?: RuleType | string | null
+): ValidationResult {
+  const errors: ValidationError[] = [];
+
+  if (!supportsVelocity(ruleType)) {
+    errors.push({
+      code: "VELOCITY_NOT_SUPPORTED",
+      message: `Velocity conditions are only supported on ${VELOCITY_RULE_TYPES.join(" and ")} rules`,
+      field: "field",
+    });
+  }
+
+  if (!VELOCITY_AGGREGATIONS.includes(velocity.aggregation)) {
+    errors.push({
+      code: "INVALID_AGGREGATION",
+      message: "Aggregation must be COUNT, SUM or DISTINCT",
+      field: "aggregation",
+    });
+  }
+
+  errors.push(...validateVelocityWindow(velocity.window));
+  errors.push(...validateVelocityGroupBy(velocity.group_by, allowedFields));
+
+  if (!VELOCITY_OPERATORS.includes(operator)) {
+    errors.push({
+      code: "OPERATOR_NOT_ALLOWED",
+      message: "Velocity thresholds must use a comparison operator",
+      field: "operator",
+    });
+  }
+
+  errors.push(...validateVelocityThreshold(velocity.aggregation, value));
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+  return { valid: true, errors: [], sanitizedValue: { field: velocity, operator, value } };
+}
+
 // ============================================================================
 // Complete Predicate Validation
 // ============================================================================
@@ -782,11 +979,12 @@ import type { UiConditionNode, UiPredicateNode, UiGroupNode } from "./nodeTypes"
  */
 export function validatePredicateNode(
   node: UiPredicateNode,
-  fields: RuleField[]
+  fields: RuleField[],
+  ruleType?: RuleType | string | null
 ): ValidationError[] {
-  // Skip validation for velocity predicates (read-only)
   if (typeof node.field !== "string") {
-    return [];
+    const result = validateVelocityPredicate(node.field, node.op, node.value, fields, ruleType);
+    return result.valid ? [] : result.errors;
   }
 
   // Skip validation if field is not selected yet
@@ -815,10 +1013,14 @@ export function validateGroupNode(node: UiGroupNode): ValidationError[] {
 /**
  * Recursively validates the entire condition tree
  */
-export function validateTree(node: UiConditionNode, fields: RuleField[]): UiConditionNode {
+export function validateTree(
+  node: UiConditionNode,
+  fields: RuleField[],
+  ruleType?: RuleType | string | null
+): UiConditionNode {
   if (node.kind === "group") {
     const errors = validateGroupNode(node);
-    const validatedChildren = node.children.map((child) => validateTree(child, fields));
+    const validatedChildren = node.children.map((child) => validateTree(child, fields, ruleType));
     return {
       ...node,
       children: validatedChildren,
@@ -826,7 +1028,7 @@ export function validateTree(node: UiConditionNode, fields: RuleField[]): UiCond
     };
   }
 
-  const errors = validatePredicateNode(node, fields);
+  const errors = validatePredicateNode(node, fields, ruleType);
   return {
     ...node,
     validationErrors: errors,
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { collectVelocityPredicates, describeVelocityPredicate } from "./velocity";
+import { DataType, LogicalOperator, Operator } from "../../../../types/enums";
+import type { ConditionNode, RuleField, VelocityField } from "../../../../types/domain";
+
+const velocity: VelocityField = {
+  type: "VELOCITY",
+  aggregation: "COUNT",
+  window: { value: 5, unit: "MINUTES" },
+  group_by: ["CARD_NUMBER"],
+};
+
+describe("describeVelocityPredicate", () => {
+  it("reads a count predicate as a sentence", () => {
+    expect(describeVelocityPredicate(velocity, Operator.GT, 3)).toBe(
+      "Transaction count per Card Number within 5 minutes is more than 3"
+    );
+  });
+
+  it("uses singular units and joins several dimensions", () => {
+    const field: VelocityField = {
+      type: "VELOCITY",
+      aggregation: "DISTINCT",
+      window: { value: 1, unit: "HOURS" },
+      group_by: ["CARD_NUMBER", "MERCHANT_ID", "COUNTRY"],
+    };
+    expect(describeVelocityPredicate(field, Operator.GTE, 2)).toBe(
+      "Distinct value count per Card Number, Merchant Id and Country within 1 hour is at least 2"
+    );
+  });
+
+  it("prefers registry display names and marks a missing threshold", () => {
+    const fields = [
+      { field_key: "CARD_NUMBER", display_name: "PAN", data_type: DataType.STRING },
+    ] as RuleField[];
+    expect(
+      describeVelocityPredicate({ ...velocity, aggregation: "SUM" }, Operator.LTE, null, fields)
+    ).toBe("Total amount per PAN within 5 minutes is at most ?");
+  });
+});
+
+describe("collectVelocityPredicates", () => {
+  it("finds velocity predicates in nested groups", () => {
+    const tree: ConditionNode = {
+      kind: "group",
+      op: LogicalOperator.AND,
+      children: [
+        { kind: "predicate", field: "AMOUNT", op: Operator.GT, value: 100 },
+        {
+          kind: "group",
+          op: LogicalOperator.OR,
+          children: [{ kind: "predicate", field: velocity, op: Operator.GT, value: 3 }],
+        },
+      ],
+    };
+
+    expect(collectVelocityPredicates(tree)).toEqual([
+      { path: "1.0", node: { kind: "predicate", field: velocity, op: Operator.GT, value: 3 } },
+    ]);
+  });
+});
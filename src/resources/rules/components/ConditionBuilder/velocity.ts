@@ -0,0 +1,96 @@
+/**
+ * Velocity predicate helpers
+ *
+ * Option lists for the velocity editor and the plain-language sentence used
+ * wherever a velocity condition is shown to a reviewer.
+ */
+
+import type {
+  ConditionNode,
+  RuleField,
+  VelocityField,
+  VelocityPredicateNode,
+} from "../../../../types/domain";
+import { Operator } from "../../../../types/enums";
+import { isVelocityField } from "../../../../shared/utils/guards";
+import { labelForEnumValue } from "../../../../shared/utils/format";
+
+export const AGGREGATION_OPTIONS: { label: string; value: VelocityField["aggregation"] }[] = [
+  { label: "Count", value: "COUNT" },
+  { label: "Sum of amount", value: "SUM" },
+  { label: "Distinct", value: "DISTINCT" },
+];
+
+export const WINDOW_UNIT_OPTIONS: { label: string; value: VelocityField["window"]["unit"] }[] = [
+  { label: "Seconds", value: "SECONDS" },
+  { label: "Minutes", value: "MINUTES" },
+  { label: "Hours", value: "HOURS" },
+  { label: "Days", value: "DAYS" },
+];
+
+const AGGREGATION_SUBJECT: Record<VelocityField["aggregation"], string> = {
+  COUNT: "Transaction count",
+  SUM: "Total amount",
+  DISTINCT: "Distinct value count",
+};
+
+const COMPARISON_TEXT: Partial<Record<Operator, string>> = {
+  [Operator.GT]: "is more than",
+  [Operator.GTE]: "is at least",
+  [Operator.LT]: "is less than",
+  [Operator.LTE]: "is at most",
+  [Operator.EQ]: "equals",
+  [Operator.NE]: "does not equal",
+};
+
+function formatWindow(window: VelocityField["window"]): string {
+  const unit = window.unit.toLowerCase();
+  return `${window.value} ${window.value === 1 ? unit.replace(/s$/, "") : unit}`;
+}
+
+function joinWords(words: string[]): string {
+  if (words.length <= 1) return words.join("");
+  return `${words.slice(0, -1).join(", ")} and ${words[words.length - 1] ?? ""}`;
+}
+
+/**
+ * Reads a velocity predicate as a sentence, e.g. "Transaction count per Card
+ * Number within 5 minutes is more than 3". Dimension names come from the
+ * registry when `fields` is given.
+ */
+export function describeVelocityPredicate(
+  field: VelocityField,
+  op: Operator,
+  value: unknown,
+  fields: RuleField[] = []
+): string {
+  const dimensions = field.group_by.map((key) => {
+    const registered = fields.find((f) => f.field_key === key);
+    return registered?.display_name ?? labelForEnumValue(key);
+  });
+  const per = dimensions.length > 0 ? ` per ${joinWords(dimensions)}` : "";
+  const comparison = COMPARISON_TEXT[op] ?? op;
+  const threshold = typeof value === "number" ? String(value) : "?";
+  return `${AGGREGATION_SUBJECT[field.aggregation]}${per} within ${formatWindow(field.window)} ${comparison} ${threshold}`;
+}
+
+export interface LocatedVelocityPredicate {
+  /** Child indexes from the root, e.g. "1.0"; unique within the tree */
+  path: string;
+  node: VelocityPredicateNode;
+}
+
+/**
+ * Velocity predicates anywhere in a condition tree, in document order
+ */
+export function collectVelocityPredicates(
+  node: ConditionNode,
+  path = ""
+): LocatedVelocityPredicate[] {
+  if (node.kind === "group") {
+    return node.children.flatMap((child, index) =>
+      collectVelocityPredicates(child, path === "" ? String(index) : `${path}.${index}`)
+    );
+  }
+  return isVelocityField(node.field) ? [{ path, node: node as VelocityPredicateNode }] : [];
+}
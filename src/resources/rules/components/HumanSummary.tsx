@@ -2,13 +2,22 @@
  * HumanSummary Component
  *
  * Displays a human-readable summary of a rule's conditions and actions.
- * Converts AST/condition structure into plain English.
+ * Conditions are shown in the same DSL the condition builder's text pane uses,
+ * with each velocity condition also spelled out in words. Values compared
+ * against sensitive fields stay masked until revealed.
  */
 
-import type { FC } from "react";
+import { useMemo, type FC } from "react";
 import { Typography, Space } from "antd";
 import "../rules.css";
 import type { RuleWithVersion, PersistedConditionTree } from "../../../types/domain";
+import { EntityType } from "../../../types/enums";
+import { persistedTreeToConditionNode } from "../../../shared/utils/conditionTree";
+import { maskSensitiveValues } from "../../../shared/utils/sensitiveData";
+import { useSensitiveData } from "../../../hooks/useSensitiveData";
+import { SensitiveDataReveal } from "../../../components/sensitiveData";
+import { printConditionDsl } from "./ConditionBuilder/dsl";
+import { collectVelocityPredicates, describeVelocityPredicate } from "./ConditionBuilder/velocity";
 
 const { Text } = Typography;
 
@@ -17,88 +26,35 @@ interface HumanSummaryProps {
 }
 
 /**
- * Convert a rule condition to human-readable text
+ * Convert a rule condition to its DSL text, as typed in the condition builder
  */
-function conditionToText(condition: PersistedConditionTree): string {
+function conditionToText(condition: PersistedConditionTree | undefined): string {
   if (condition == null) {
     return "No conditions defined";
   }
 
-  // Handle AND conditions
-  if ("and" in condition && Array.isArray(condition.and)) {
-    const conditions = condition.and;
-    if (conditions.length === 0) {
-      return "No conditions";
-    }
-    if (conditions.length === 1) {
-      return nodeToText(conditions[0]);
-    }
-    const parts = conditions.map((c) => nodeToText(c));
-    return `(${parts.join(" AND ")})`;
+  const conditions = condition.and ?? condition.or;
+  if (conditions == null) {
+    return "No conditions defined";
   }
-
-  // Handle OR conditions
-  if ("or" in condition && Array.isArray(condition.or)) {
-    const conditions = condition.or;
-    if (conditions.length === 0) {
-      return "No conditions";
-    }
-    if (conditions.length === 1) {
-      return nodeToText(conditions[0]);
-    }
-    const parts = conditions.map((c) => nodeToText(c));
-    return `(${parts.join(" OR ")})`;
+  if (conditions.length === 0) {
+    return "No conditions";
   }
 
-  return "No conditions defined";
+  return printConditionDsl(persistedTreeToConditionNode(condition));
 }
 
 /**
- * Convert a condition node to text
+ * Plain-language sentences for the velocity conditions in a rule, keyed by
+ * each condition's path in the tree
  */
-function nodeToText(node: unknown): string {
-  if (node == null || typeof node !== "object") {
-    return String(node);
-  }
-
-  const obj = node as Record<string, unknown>;
-
-  // Recursive handling of nested AND/OR
-  if ("and" in obj && Array.isArray(obj.and)) {
-    const parts = obj.and.map((c) => nodeToText(c));
-    return `(${parts.join(" AND ")})`;
-  }
-
-  if ("or" in obj && Array.isArray(obj.or)) {
-    const parts = obj.or.map((c) => nodeToText(c));
-    return `(${parts.join(" OR ")})`;
-  }
-
-  // Handle predicate nodes
-  if ("field" in obj && "op" in obj && "value" in obj) {
-    const field = typeof obj.field === "string" ? obj.field : JSON.stringify(obj.field);
-    const operator = String(obj.op);
-    const value = JSON.stringify(obj.value);
-
-    const operatorText: Record<string, string> = {
-      EQ: "equals",
-      NE: "not equals",
-      GT: "greater than",
-      GTE: "greater than or equal to",
-      LT: "less than",
-      LTE: "less than or equal to",
-      IN: "is in",
-      NOT_IN: "is not in",
-      CONTAINS: "contains",
-      STARTS_WITH: "starts with",
-      ENDS_WITH: "ends with",
-    };
-
-    const opText = operatorText[operator] ?? operator;
-    return `${field} ${opText} ${value}`;
-  }
-
-  return JSON.stringify(node);
+function velocityDescriptions(
+  condition: PersistedConditionTree | undefined
+): { path: string; text: string }[] {
+  if (condition == null) return [];
+  return collectVelocityPredicates(persistedTreeToConditionNode(condition)).map(
+    ({ path, node }) => ({ path, text: describeVelocityPredicate(node.field, node.op, node.value) })
+  );
 }
 
 /**
@@ -119,7 +75,18 @@ function getActionDescription(ruleType: string): string {
  * HumanSummary component
  */
 export const HumanSummary: FC<HumanSummaryProps> = ({ rule }) => {
-  const conditionText = conditionToText(rule.version_details.condition_tree);
+  const sensitiveData = useSensitiveData({
+    entityType: EntityType.RULE,
+    entityId: rule.rule_id,
+  });
+  const { keysToMask } = sensitiveData;
+  const conditionTree = rule.version_details.condition_tree;
+  const masked = useMemo(
+    () => maskSensitiveValues(conditionTree, keysToMask),
+    [conditionTree, keysToMask]
+  );
+  const conditionText = conditionToText(masked.value);
+  const velocityText = velocityDescriptions(masked.value);
   const actionText = getActionDescription(rule.rule_type);
 
   return (
@@ -130,8 +97,15 @@ export const HumanSummary: FC<HumanSummaryProps> = ({ rule }) => {
       </div>
       <div>
         <Text strong>If: </Text>
-        <Text>{conditionText}</Text>
+        <Text code>{conditionText}</Text>{" "}
+        <SensitiveDataReveal sensitiveData={sensitiveData} fieldKeys={masked.fieldKeys} />
       </div>
+      {velocityText.map(({ path, text }) => (
+        <div key={path}>
+          <Text strong>Velocity: </Text>
+          <Text>{text}</Text>
+        </div>
+      ))}
       <div>
         <Text strong>Then: </Text>
         <Text>{actionText}</Text>
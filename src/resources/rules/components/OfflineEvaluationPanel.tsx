@@ -0,0 +1,88 @@
+/**
+ * OfflineEvaluationPanel Component
+ *
+ * Lets makers and checkers evaluate a condition tree against a hand-written
+ * sample transaction entirely in the browser (no simulation backend needed).
+ * Callers should key the panel by rule version so the sample resets on switch.
+ * Sensitive values in the trace stay masked until revealed.
+ */
+
+import { useMemo, useState, type FC } from "react";
+import { Alert, Button, Input, Space, Tag, Typography } from "antd";
+import type { PersistedConditionTree } from "../../../types/domain";
+import { EntityType } from "../../../types/enums";
+import {
+  evaluateConditionTree,
+  type EvaluationResult,
+} from "../../../shared/utils/conditionEvaluator";
+import {
+  buildSampleTemplate,
+  parseSampleTransaction,
+} from "../../../shared/utils/sampleTransaction";
+import { maskSensitiveValues } from "../../../shared/utils/sensitiveData";
+import { useSensitiveData } from "../../../hooks/useSensitiveData";
+import { EvaluationTrace } from "../../../components/ruleTesting";
+import { SensitiveDataReveal } from "../../../components/sensitiveData";
+
+const { Text } = Typography;
+
+interface OfflineEvaluationPanelProps {
+  ruleId: string;
+  conditionTree: PersistedConditionTree | null;
+}
+
+export const OfflineEvaluationPanel: FC<OfflineEvaluationPanelProps> = ({
+  ruleId,
+  conditionTree,
+}) => {
+  const sensitiveData = useSensitiveData({ entityType: EntityType.RULE, entityId: ruleId });
+  const { keysToMask } = sensitiveData;
+  const maskedFieldKeys = useMemo(
+    () => maskSensitiveValues(conditionTree, keysToMask).fieldKeys,
+    [conditionTree, keysToMask]
+  );
+  const [sampleText, setSampleText] = useState(() => buildSampleTemplate(conditionTree));
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<EvaluationResult | null>(null);
+
+  const handleEvaluate = (): void => {
+    const parsed = parseSampleTransaction(sampleText);
+    if (parsed.error != null) {
+      setError(parsed.error);
+      setResult(null);
+      return;
+    }
+    setError(null);
+    setResult(evaluateConditionTree(conditionTree, parsed.sample ?? {}));
+  };
+
+  return (
+    <Space direction="vertical" className="full-width" size="small">
+      <Text strong>Test against a sample transaction</Text>
+      <Text type="secondary">
+        Evaluated locally. Velocity predicates read their aggregate from the matching VELOCITY_*
+        key.
+      </Text>
+      <Input.TextArea
+        aria-label="Sample transaction JSON"
+        value={sampleText}
+        onChange={(event) => setSampleText(event.target.value)}
+        autoSize={{ minRows: 4, maxRows: 12 }}
+      />
+      <Space>
+        <Button onClick={handleEvaluate} disabled={conditionTree == null}>
+          Evaluate
+        </Button>
+        {result != null &&
+          (result.matched ? <Tag color="success">MATCH</Tag> : <Tag color="error">NO MATCH</Tag>)}
+        {result != null && (
+          <SensitiveDataReveal sensitiveData={sensitiveData} fieldKeys={maskedFieldKeys} />
+        )}
+      </Space>
+      {error != null && <Alert type="error" message={error} showIcon />}
+      {result != null && <EvaluationTrace result={result} sensitiveKeys={keysToMask} />}
+    </Space>
+  );
+};
+
+export default OfflineEvaluationPanel;
@@ -4,13 +4,18 @@
  * Displays all versions of a rule in a drawer when the version toggle button is clicked.
  */
 
-import { useState, type FC } from "react";
-import { Button, Drawer, Table, Tag, Typography, Empty } from "antd";
+import { useMemo, useState, type FC, type Key } from "react";
+import { Button, Card, Drawer, Table, Tag, Typography, Empty } from "antd";
 import { EyeOutlined } from "@ant-design/icons";
 import type { RuleVersion } from "../../../types/domain";
-import { RuleStatus } from "../../../types/enums";
+import { EntityType, RuleStatus } from "../../../types/enums";
 import { getStatusColor, compactTableProps, columnWidths } from "../../../theme/tokens";
 import { useList } from "@refinedev/core";
+import { RuleVersionDiff } from "../../../components/ruleDiff";
+import { SensitiveDataReveal } from "../../../components/sensitiveData";
+import { useSensitiveData } from "../../../hooks/useSensitiveData";
+import { maskSensitiveValues } from "../../../shared/utils/sensitiveData";
+import "../rules.css";
 
 interface RuleVersionsDrawerProps {
   ruleId: string;
@@ -24,12 +29,27 @@ export const RuleVersionsDrawer: FC<RuleVersionsDrawerProps> = ({
   currentVersion,
 }) => {
   const [open, setOpen] = useState(false);
+  const [compareKeys, setCompareKeys] = useState<Key[]>([]);
   const { result: versions } = useList<RuleVersion>({
     resource: "rule-versions",
     filters: [{ field: "rule_id", operator: "eq", value: ruleId }],
     queryOptions: { enabled: open },
   });
 
+  // Keep the two most recently ticked versions; older one is the diff base
+  const [compareFrom, compareTo] = (versions?.data ?? [])
+    .filter((version) => compareKeys.includes(version.rule_version_id))
+    .sort((a, b) => a.version - b.version);
+
+  const sensitiveData = useSensitiveData({ entityType: EntityType.RULE, entityId: ruleId });
+  const { keysToMask } = sensitiveData;
+  const maskedFieldKeys = useMemo(
+    () =>
+      maskSensitiveValues([compareFrom?.condition_tree, compareTo?.condition_tree], keysToMask)
+        .fieldKeys,
+    [compareFrom, compareTo, keysToMask]
+  );
+
   const columns = [
     {
       title: "Version",
@@ -98,14 +118,43 @@ export const RuleVersionsDrawer: FC<RuleVersionsDrawerProps> = ({
         onClose={() => setOpen(false)}
       >
         {Array.isArray(versions?.data) && versions.data.length > 0 ? (
-          <Table
-            {...compactTableProps}
-            dataSource={versions.data}
-            columns={columns}
-            rowKey="rule_version_id"
-            pagination={false}
-            size="small"
-          />
+          <>
+            <Typography.Paragraph type="secondary">
+              Select two versions to compare their conditions, priority and scope.
+            </Typography.Paragraph>
+            <Table
+              {...compactTableProps}
+              dataSource={versions.data}
+              columns={columns}
+              rowKey="rule_version_id"
+              pagination={false}
+              size="small"
+              rowSelection={{
+                selectedRowKeys: compareKeys,
+                onChange: (keys) => setCompareKeys(keys.slice(-2)),
+                hideSelectAll: true,
+              }}
+            />
+            {compareFrom != null && compareTo != null && (
+              <Card
+                size="small"
+                variant="outlined"
+                className="mt-8"
+                title={`Compare v${compareFrom.version} → v${compareTo.version}`}
+                extra={
+                  <SensitiveDataReveal sensitiveData={sensitiveData} fieldKeys={maskedFieldKeys} />
+                }
+              >
+                <RuleVersionDiff
+                  base={compareFrom}
+                  target={compareTo}
+                  baseLabel={`v${compareFrom.version}`}
+                  targetLabel={`v${compareTo.version}`}
+                  sensitiveKeys={keysToMask}
+                />
+              </Card>
+            )}
+          </>
         ) : (
           <Empty description="No versions found" />
         )}
@@ -1,5 +1,7 @@
 import React from "react";
 import { render, screen } from "@testing-library/react";
+import { http, HttpResponse } from "msw";
+import { server } from "@/test/server";
 import HumanSummary from "../HumanSummary";
 
 const baseRule = {
@@ -21,7 +23,7 @@ describe("HumanSummary", () => {
     expect(screen.getByText("5")).toBeInTheDocument();
   });
 
-  it("renders humanized condition text and operator text", () => {
+  it("renders the condition as DSL text", async () => {
     const ruleWithCondition = {
       ...baseRule,
       version_details: {
@@ -33,11 +35,92 @@ describe("HumanSummary", () => {
     };
 
     render(<HumanSummary rule={ruleWithCondition as any} />);
-    expect(screen.getByText(/AMOUNT/)).toBeInTheDocument();
-    expect(screen.getByText(/greater than/)).toBeInTheDocument();
+    expect(await screen.findByText("AMOUNT > 100")).toBeInTheDocument();
   });
 
-  it("renders single AND condition without parentheses", () => {
+  it("spells out velocity conditions", async () => {
+    const rule = {
+      ...baseRule,
+      version_details: {
+        condition_tree: {
+          and: [
+            {
+              field: {
+                type: "VELOCITY",
+                aggregation: "COUNT",
+                window: { value: 15, unit: "MINUTES" },
+                group_by: ["CARD_NUMBER"],
+              },
+              op: "GTE",
+              value: 3,
+            },
+          ],
+        },
+        priority: 1,
+      },
+    };
+    render(<HumanSummary rule={rule as any} />);
+    expect(await screen.findByText("COUNT(CARD_NUMBER) OVER 15 MINUTES >= 3")).toBeInTheDocument();
+    expect(
+      screen.getByText("Transaction count per Card Number within 15 minutes is at least 3")
+    ).toBeInTheDocument();
+  });
+
+  it("still spells out velocity conditions when the field registry cannot be loaded", async () => {
+    server.use(
+      http.get("*/api/v1/rule-fields", () => HttpResponse.json({ error: "down" }, { status: 500 }))
+    );
+    const rule = {
+      ...baseRule,
+      version_details: {
+        condition_tree: {
+          and: [
+            {
+              field: {
+                type: "VELOCITY",
+                aggregation: "COUNT",
+                window: { value: 15, unit: "MINUTES" },
+                group_by: ["CARD_NUMBER"],
+              },
+              op: "GTE",
+              value: 3,
+            },
+          ],
+        },
+        priority: 1,
+      },
+    };
+    render(<HumanSummary rule={rule as any} />);
+    expect(
+      await screen.findByText(/^Transaction count per Card Number within 15 minutes is at least/)
+    ).toBeInTheDocument();
+    expect(screen.queryByText(/"type"/)).not.toBeInTheDocument();
+  });
+
+  it("lists each of several identical velocity conditions", async () => {
+    const velocity = {
+      field: {
+        type: "VELOCITY",
+        aggregation: "COUNT",
+        window: { value: 15, unit: "MINUTES" },
+        group_by: ["CARD_NUMBER"],
+      },
+      op: "GTE",
+      value: 3,
+    };
+    const rule = {
+      ...baseRule,
+      version_details: { condition_tree: { or: [velocity, velocity] }, priority: 1 },
+    };
+    render(<HumanSummary rule={rule as any} />);
+    expect(
+      await screen.findAllByText(
+        "Transaction count per Card Number within 15 minutes is at least 3"
+      )
+    ).toHaveLength(2);
+  });
+
+  it("renders single AND condition without parentheses", async () => {
     const rule = {
       ...baseRule,
       version_details: {
@@ -48,8 +131,7 @@ describe("HumanSummary", () => {
       },
     };
     render(<HumanSummary rule={rule as any} />);
-    expect(screen.getByText(/MCC/)).toBeInTheDocument();
-    expect(screen.getByText(/equals/)).toBeInTheDocument();
+    expect(await screen.findByText('MCC = "5967"')).toBeInTheDocument();
   });
 
   it("renders single OR condition without parentheses", () => {
@@ -90,7 +172,7 @@ describe("HumanSummary", () => {
     expect(screen.getByText("No conditions")).toBeInTheDocument();
   });
 
-  it("renders multiple AND conditions with parentheses", () => {
+  it("renders multiple AND conditions", () => {
     const rule = {
       ...baseRule,
       version_details: {
@@ -107,7 +189,7 @@ describe("HumanSummary", () => {
     expect(screen.getByText(/AND/)).toBeInTheDocument();
   });
 
-  it("renders multiple OR conditions with parentheses", () => {
+  it("renders multiple OR conditions", () => {
     const rule = {
       ...baseRule,
       version_details: {
@@ -124,7 +206,7 @@ describe("HumanSummary", () => {
     expect(screen.getByText(/OR/)).toBeInTheDocument();
   });
 
-  it("renders nested AND within OR conditions", () => {
+  it("renders nested AND within OR conditions", async () => {
     const rule = {
       ...baseRule,
       version_details: {
@@ -143,11 +225,10 @@ describe("HumanSummary", () => {
       },
     };
     render(<HumanSummary rule={rule as any} />);
-    expect(screen.getByText(/AND/)).toBeInTheDocument();
-    expect(screen.getByText(/OR/)).toBeInTheDocument();
+    expect(await screen.findByText("(A = 1 AND B = 2) OR C = 3")).toBeInTheDocument();
   });
 
-  it("renders all supported operators", () => {
+  it("renders all supported operators", async () => {
     const rule = {
       ...baseRule,
       version_details: {
@@ -167,14 +248,11 @@ describe("HumanSummary", () => {
       },
     };
     render(<HumanSummary rule={rule as any} />);
-    expect(screen.getByText(/not equals/)).toBeInTheDocument();
-    expect(screen.getByText(/greater than or equal to/)).toBeInTheDocument();
-    expect(screen.getByText(/less than or equal to/)).toBeInTheDocument();
-    expect(screen.getByText(/is in/)).toBeInTheDocument();
-    expect(screen.getByText(/is not in/)).toBeInTheDocument();
-    expect(screen.getByText(/contains/)).toBeInTheDocument();
-    expect(screen.getByText(/starts with/)).toBeInTheDocument();
-    expect(screen.getByText(/ends with/)).toBeInTheDocument();
+    expect(
+      await screen.findByText(
+        'X != 1 AND Y >= 2 AND Z <= 3 AND W IN [1, 2] AND V NOT IN [3] AND U CONTAINS "abc" AND T STARTS_WITH "x" AND S ENDS_WITH "y"'
+      )
+    ).toBeInTheDocument();
   });
 
   it("renders unknown operator as-is", () => {
@@ -236,4 +314,36 @@ describe("HumanSummary", () => {
     render(<HumanSummary rule={rule as any} />);
     expect(screen.getByText(/\{.*\}/)).toBeInTheDocument();
   });
+
+  it("masks values compared against sensitive fields", async () => {
+    const rule = {
+      ...baseRule,
+      version_details: {
+        condition_tree: {
+          or: [{ field: "CARD_NUMBER", op: "IN", value: ["4532********1234"] }],
+        },
+        priority: 1,
+      },
+    };
+    render(<HumanSummary rule={rule as any} />);
+
+    expect(await screen.findByText(/CARD_NUMBER IN .*••••••/)).toBeInTheDocument();
+    expect(screen.queryByText(/4532/)).not.toBeInTheDocument();
+  });
+
+  it("masks every value until the sensitive fields are known", () => {
+    const rule = {
+      ...baseRule,
+      version_details: {
+        condition_tree: {
+          and: [{ field: "AMOUNT", op: "GT", value: 100 }],
+        },
+        priority: 1,
+      },
+    };
+    render(<HumanSummary rule={rule as any} />);
+
+    expect(screen.getByText(/AMOUNT > .*••••••/)).toBeInTheDocument();
+    expect(screen.queryByText("AMOUNT > 100")).not.toBeInTheDocument();
+  });
 });
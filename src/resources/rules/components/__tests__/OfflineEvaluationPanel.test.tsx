@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { OfflineEvaluationPanel } from "../OfflineEvaluationPanel";
+import { Operator } from "../../../../types/enums";
+
+const tree = {
+  and: [
+    { field: "AMOUNT", op: Operator.GT, value: 500 },
+    { field: "COUNTRY", op: Operator.NE, value: "US" },
+  ],
+};
+
+describe("OfflineEvaluationPanel", () => {
+  it("pre-fills the sample with referenced fields", () => {
+    render(<OfflineEvaluationPanel ruleId="rule_1" conditionTree={tree} />);
+    const textarea = screen.getByLabelText("Sample transaction JSON") as HTMLTextAreaElement;
+    expect(JSON.parse(textarea.value)).toEqual({ AMOUNT: null, COUNTRY: null });
+  });
+
+  it("shows a match with the predicate trace", () => {
+    render(<OfflineEvaluationPanel ruleId="rule_1" conditionTree={tree} />);
+    fireEvent.change(screen.getByLabelText("Sample transaction JSON"), {
+      target: { value: '{"AMOUNT": 900, "COUNTRY": "GB"}' },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Evaluate" }));
+
+    expect(screen.getByText("MATCH")).toBeInTheDocument();
+    expect(screen.getAllByText("Pass")).toHaveLength(2);
+  });
+
+  it("identifies the failing leaf", () => {
+    render(<OfflineEvaluationPanel ruleId="rule_1" conditionTree={tree} />);
+    fireEvent.change(screen.getByLabelText("Sample transaction JSON"), {
+      target: { value: '{"AMOUNT": 900}' },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Evaluate" }));
+
+    expect(screen.getByText("NO MATCH")).toBeInTheDocument();
+    expect(screen.getByText("Fail")).toBeInTheDocument();
+    expect(screen.getByText("Field not present in sample")).toBeInTheDocument();
+  });
+
+  it("masks sensitive values in the trace", async () => {
+    const cardTree = {
+      and: [
+        { field: "AMOUNT", op: Operator.GT, value: 500 },
+        { field: "CARD_NUMBER", op: Operator.EQ, value: "4111111111111111" },
+      ],
+    };
+    render(<OfflineEvaluationPanel ruleId="rule_1" conditionTree={cardTree} />);
+    fireEvent.change(screen.getByLabelText("Sample transaction JSON"), {
+      target: { value: '{"AMOUNT": 900, "CARD_NUMBER": "4111111111111111"}' },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Evaluate" }));
+
+    // Once the field registry has loaded, only the card number stays masked
+    expect(await screen.findByText("900")).toBeInTheDocument();
+    await waitFor(() => expect(screen.getAllByText("••••••")).toHaveLength(2));
+    expect(screen.getAllByText("Pass")).toHaveLength(2);
+  });
+
+  it("reports invalid sample JSON", () => {
+    render(<OfflineEvaluationPanel ruleId="rule_1" conditionTree={tree} />);
+    fireEvent.change(screen.getByLabelText("Sample transaction JSON"), {
+      target: { value: "{oops" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Evaluate" }));
+
+    expect(screen.getByText("Sample transaction must be valid JSON.")).toBeInTheDocument();
+  });
+});
@@ -2,15 +2,24 @@
  * Rules Create
  *
  * Form for creating new fraud rules with condition builder.
- * Only accessible to makers.
+ * Only accessible to makers. Opened with a rule draft in the location state,
+ * it is pre-filled from that AI recommendation and exports the draft on save.
  */
 
 import { useState, useMemo, type FC } from "react";
+import { useLocation } from "react-router";
+import { useNotification } from "@refinedev/core";
 import { Create, useForm } from "@refinedev/antd";
-import { Card, Form, Input, InputNumber, Select, Space, Typography } from "antd";
-import type { ConditionNode, GroupNode, RuleVersion } from "../../types/domain";
+import { Alert, Card, Form, Input, InputNumber, Select, Space, Typography } from "antd";
+import type { ConditionNode, GroupNode, Rule, RuleVersion } from "../../types/domain";
+import type { RuleDraftResponse } from "../../types/opsAnalyst";
 import { LogicalOperator, RuleType } from "../../types/enums";
-import { conditionNodeToPersistedTree } from "../../shared/utils/conditionTree";
+import {
+  conditionNodeToPersistedTree,
+  persistedTreeToConditionNode,
+} from "../../shared/utils/conditionTree";
+import { convertRuleDraft } from "../../shared/utils/ruleDraft";
+import { useOpsAnalystRuleDrafts } from "../../hooks/useOpsAnalystRuleDrafts";
 import { ConditionBuilder } from "./components/ConditionBuilder";
 import { AstPreview } from "./components/AstPreview";
 import { ScopeConfig } from "./components/ScopeConfig";
@@ -20,16 +29,67 @@ const ruleTypeOptions = Object.values(RuleType).map((v) => ({ label: v, value: v
 
 const emptyRoot: GroupNode = { kind: "group", op: LogicalOperator.AND, children: [] };
 
+export interface RuleCreateLocationState {
+  ruleDraft?: RuleDraftResponse;
+}
+
+const RuleDraftAlert: FC<{ draft: RuleDraftResponse; issues: string[] }> = ({ draft, issues }) => (
+  <Alert
+    type={issues.length > 0 ? "warning" : "info"}
+    showIcon
+    className="form-spaced"
+    message={`Pre-filled from AI recommendation ${draft.recommendation_id}`}
+    description={
+      <Space direction="vertical" size={0}>
+        {draft.payload.rationale != null && draft.payload.rationale !== "" && (
+          <Typography.Text>{draft.payload.rationale}</Typography.Text>
+        )}
+        {issues.map((issue) => (
+          <Typography.Text key={issue} type="warning">
+            {issue}
+          </Typography.Text>
+        ))}
+        <Typography.Text type="secondary">
+          Review every condition before saving; the recommendation is marked exported once the rule
+          is created.
+        </Typography.Text>
+      </Space>
+    }
+  />
+);
+
 export const RuleCreate: FC = () => {
-  const { formProps, saveButtonProps } = useForm({
+  const location = useLocation();
+  const ruleDraft = (location.state as RuleCreateLocationState | null)?.ruleDraft ?? null;
+  const converted = useMemo(
+    () => (ruleDraft == null ? null : convertRuleDraft(ruleDraft.payload)),
+    [ruleDraft]
+  );
+  const { exportDraft } = useOpsAnalystRuleDrafts();
+  const { open } = useNotification();
+
+  const { formProps, saveButtonProps } = useForm<Rule>({
     resource: "rules",
     redirect: "list",
+    onMutationSuccess: ({ data }) => {
+      if (ruleDraft == null) return;
+      exportDraft(ruleDraft.draft_id, data.rule_id).catch((err: unknown) => {
+        open?.({
+          type: "error",
+          message: "Rule created, but the recommendation was not marked exported",
+          description: err instanceof Error ? err.message : undefined,
+        });
+      });
+    },
   });
 
-  const [condition, setCondition] = useState<ConditionNode>(emptyRoot);
-  const [scope, setScope] = useState<RuleVersion["scope"] | null>(null);
+  const [condition, setCondition] = useState<ConditionNode>(() =>
+    converted == null ? emptyRoot : persistedTreeToConditionNode(converted.conditionTree)
+  );
+  const [scope, setScope] = useState<RuleVersion["scope"] | null>(converted?.scope ?? null);
 
   const persistedTree = useMemo(() => conditionNodeToPersistedTree(condition), [condition]);
+  const ruleType = Form.useWatch<RuleType | undefined>("rule_type", formProps.form);
 
   const wrappedFormProps = useMemo(() => {
     return {
@@ -53,8 +113,13 @@ export const RuleCreate: FC = () => {
         initialValues={{
           rule_type: RuleType.ALLOWLIST,
           priority: 100,
+          ...converted?.formValues,
         }}
       >
+        {ruleDraft != null && converted != null && (
+          <RuleDraftAlert draft={ruleDraft} issues={converted.issues} />
+        )}
+
         <Form.Item
           label="Rule Name"
           name="rule_name"
@@ -86,7 +151,7 @@ export const RuleCreate: FC = () => {
             <Typography.Text type="secondary">
               Conditions are stored as structured JSON (no runtime execution in UI).
             </Typography.Text>
-            <ConditionBuilder value={condition} onChange={setCondition} />
+            <ConditionBuilder value={condition} onChange={setCondition} ruleType={ruleType} />
           </Space>
         </Card>
 
@@ -11,7 +11,7 @@ import { useNotification, useNavigation } from "@refinedev/core";
 import { Alert, Card, Form, InputNumber, Space, Typography, type FormInstance } from "antd";
 import { Descriptions } from "../../shared/compat/antdCompat";
 import { useParams } from "react-router";
-import type { ConditionNode, Rule, RuleVersion } from "../../types/domain";
+import type { ConditionNode, PersistedConditionTree, Rule, RuleVersion } from "../../types/domain";
 import { LogicalOperator, RuleStatus } from "../../types/enums";
 import type { CreateRuleVersionRequest, RuleDetailResponse } from "../../api/types";
 import { get, post } from "../../api/httpClient";
@@ -22,6 +22,8 @@ import {
 } from "../../shared/utils/conditionTree";
 import { extractRuleAndVersion } from "../../shared/utils/ruleHelpers";
 import { useEditAuthorization } from "../../shared/hooks/useEditAuthorization";
+import { useRuleTestCases } from "../../hooks/useRuleTestCases";
+import { RuleBacktestPanel, RuleTestCasesPanel } from "../../components/ruleTesting";
 import { ConditionBuilder } from "./components/ConditionBuilder";
 import { AstPreview } from "./components/AstPreview";
 import { ScopeConfig } from "./components/ScopeConfig";
@@ -81,6 +83,72 @@ function RulePriorityForm({
   );
 }
 
+// The maker is editing the raw values in the condition builder, so traces show them too
+const NO_SENSITIVE_KEYS: ReadonlySet<string> = new Set();
+
+function RuleVersionTestCases({
+  ruleVersionId,
+  conditionTree,
+  readOnly,
+}: Readonly<{
+  ruleVersionId: string | undefined;
+  conditionTree: PersistedConditionTree;
+  readOnly: boolean;
+}>): ReactElement {
+  const { testCases, isLoading, error, createTestCase, deleteTestCase } = useRuleTestCases({
+    ruleVersionId,
+  });
+
+  return (
+    <RuleTestCasesPanel
+      testCases={testCases}
+      conditionTree={conditionTree}
+      loading={isLoading}
+      error={error}
+      onAddTestCase={readOnly ? undefined : createTestCase}
+      onDeleteTestCase={readOnly ? undefined : deleteTestCase}
+      sensitiveKeys={NO_SENSITIVE_KEYS}
+    />
+  );
+}
+
+function fetchAndHydrateRule(
+  ruleIdArg: string,
+  formRef: FormInstance<{ priority: number }>,
+  setLoadingRef: (v: boolean) => void,
+  setRuleRef: (r: Rule | null) => void,
+  setCurrentVersionRef: (v: RuleVersion | null) => void,
+  setConditionRef: (c: ConditionNode) => void,
+  setScopeRef: (s: RuleVersion["scope"] | null) => void,
+  openRef?: ReturnType<typeof useNotification>["open"]
+): Promise<void> {
+  return (async () => {
+    if (ruleIdArg == null || ruleIdArg === "") return;
+    setLoadingRef(true);
+    try {
+      const data = await get<RuleDetailLike>(RULES.GET(ruleIdArg));
+      const extracted = extractRuleAndVersion(data);
+      setRuleRef(extracted.rule);
+      setCurrentVersionRef(extracted.currentVersion);
+      if (extracted.currentVersion?.condition_tree != null) {
+        setConditionRef(persistedTreeToConditionNode(extracted.currentVersion.condition_tree));
+      }
+      if (typeof extracted.currentVersion?.priority === "number") {
+        formRef.setFieldsValue({ priority: extracted.currentVersion.priority });
+      }
+      setScopeRef(extracted.currentVersion?.scope ?? null);
+    } catch (error) {
+      openRef?.({
+        type: "error",
+        message: "Failed to load rule",
+        description: (error as { message?: string }).message,
+      });
+    } finally {
+      setLoadingRef(false);
+    }
+  })();
+}
+
 export const RuleEdit: FC = () => {
   const params = useParams();
   const ruleId = params.id;
@@ -105,43 +173,6 @@ export const RuleEdit: FC = () => {
     params: { status: rule?.status },
   });
 
-  function fetchAndHydrateRule(
-    ruleIdArg: string,
-    formRef: FormInstance<{ priority: number }>,
-    setLoadingRef: (v: boolean) => void,
-    setRuleRef: (r: Rule | null) => void,
-    setCurrentVersionRef: (v: RuleVersion | null) => void,
-    setConditionRef: (c: ConditionNode) => void,
-    setScopeRef: (s: RuleVersion["scope"] | null) => void,
-    openRef?: ReturnType<typeof useNotification>["open"]
-  ): Promise<void> {
-    return (async () => {
-      if (ruleIdArg == null || ruleIdArg === "") return;
-      setLoadingRef(true);
-      try {
-        const data = await get<RuleDetailLike>(RULES.GET(ruleIdArg));
-        const extracted = extractRuleAndVersion(data);
-        setRuleRef(extracted.rule);
-        setCurrentVersionRef(extracted.currentVersion);
-        if (extracted.currentVersion?.condition_tree != null) {
-          setConditionRef(persistedTreeToConditionNode(extracted.currentVersion.condition_tree));
-        }
-        if (typeof extracted.currentVersion?.priority === "number") {
-          formRef.setFieldsValue({ priority: extracted.currentVersion.priority });
-        }
-        setScopeRef(extracted.currentVersion?.scope ?? null);
-      } catch (error) {
-        openRef?.({
-          type: "error",
-          message: "Failed to load rule",
-          description: (error as { message?: string }).message,
-        });
-      } finally {
-        setLoadingRef(false);
-      }
-    })();
-  }
-
   useEffect(() => {
     void fetchAndHydrateRule(
       ruleId ?? "",
@@ -235,10 +266,23 @@ export const RuleEdit: FC = () => {
         <ScopeConfig value={scope} onChange={setScope} disabled={isImmutable} />
 
         <Card title="Conditions" size="small" variant="outlined">
-          <ConditionBuilder value={condition} onChange={setCondition} readOnly={isImmutable} />
+          <ConditionBuilder
+            value={condition}
+            onChange={setCondition}
+            readOnly={isImmutable}
+            ruleType={rule?.rule_type}
+          />
         </Card>
 
-        <AstPreview ast={persistedTree} title="Condition Tree Preview" />
+        <AstPreview ast={persistedTree} ruleId={ruleId} title="Condition Tree Preview" />
+
+        <RuleVersionTestCases
+          ruleVersionId={currentVersion?.rule_version_id}
+          conditionTree={persistedTree}
+          readOnly={isImmutable}
+        />
+
+        <RuleBacktestPanel conditionTree={persistedTree} scope={scope} ruleType={rule?.rule_type} />
       </Space>
     </Edit>
   );
@@ -8,7 +8,7 @@
 import { useState, useEffect, useCallback, useMemo, type FC, type ReactElement } from "react";
 import { Show } from "@refinedev/antd";
 import { useNotification } from "@refinedev/core";
-import { Alert, Button, Card, Space, Tag, Typography } from "antd";
+import { Alert, Button, Card, Col, Row, Space, Tag, Typography } from "antd";
 import { Descriptions, Table } from "../../shared/compat/antdCompat";
 import { useLocation, useParams } from "react-router";
 import type { Rule, RuleVersion, RuleWithVersion } from "../../types/domain";
@@ -23,6 +23,7 @@ import { getDecisionColor, getRuleTypeColor, getStatusColor } from "../../theme/
 import { extractRuleDetail } from "../../shared/utils/ruleHelpers";
 import { AstPreview } from "./components/AstPreview";
 import { HumanSummary } from "./components/HumanSummary";
+import { OfflineEvaluationPanel } from "./components/OfflineEvaluationPanel";
 import { SimulationModal } from "./components/SimulationModal";
 import "./rules.css";
 
@@ -56,9 +57,20 @@ function VersionDetailsCard({
         <Typography.Text type="secondary">No version details available.</Typography.Text>
       ) : (
         <Space direction="vertical" className="full-width" size="middle">
-          {rule != null && (
-            <HumanSummary rule={{ ...rule, version_details: version } as RuleWithVersion} />
-          )}
+          <Row gutter={[16, 16]}>
+            {rule != null && (
+              <Col xs={24} lg={10}>
+                <HumanSummary rule={{ ...rule, version_details: version } as RuleWithVersion} />
+              </Col>
+            )}
+            <Col xs={24} lg={rule == null ? 24 : 14}>
+              <OfflineEvaluationPanel
+                key={version.rule_version_id}
+                ruleId={version.rule_id}
+                conditionTree={version.condition_tree ?? null}
+              />
+            </Col>
+          </Row>
           <Descriptions size="small" column={2} variant="outlined">
             <Descriptions.Item label="Version">
               <Tag color="blue">v{version.version}</Tag>
@@ -81,7 +93,12 @@ function VersionDetailsCard({
             <Text strong>Scope</Text>
             <div className="mt-8">{renderScope(version.scope ?? null)}</div>
           </div>
-          <AstPreview ast={version.condition_tree ?? null} title="Condition Tree" maxHeight={500} />
+          <AstPreview
+            ast={version.condition_tree ?? null}
+            ruleId={version.rule_id}
+            title="Condition Tree"
+            maxHeight={500}
+          />
         </Space>
       )}
     </Card>
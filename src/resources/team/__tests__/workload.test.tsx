@@ -0,0 +1,96 @@
+/**
+ * Tests for the team workload dashboard, driven by the MSW worklist fixtures
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, within, fireEvent } from "@/test/utils";
+import { http, HttpResponse } from "msw";
+import { server } from "@/test/server";
+import { usePermissions } from "@/hooks/usePermissions";
+import { TeamWorkloadDashboard } from "../workload";
+
+vi.mock("@/hooks/usePermissions", () => ({
+  usePermissions: vi.fn(),
+}));
+
+const setSupervisor = (canSuperviseReviews: boolean): void => {
+  vi.mocked(usePermissions).mockReturnValue({
+    capabilities: { canSuperviseReviews },
+    isLoading: false,
+  } as unknown as ReturnType<typeof usePermissions>);
+};
+
+const dataTransfer = (): { setData: () => void; effectAllowed: string } => ({
+  setData: vi.fn(),
+  effectAllowed: "",
+});
+
+async function dragReview(transactionId: string, analystName: string): Promise<HTMLElement> {
+  const card = await screen.findByLabelText(`Review ${transactionId}`);
+  const column = screen.getByRole("region", { name: `${analystName} workload` });
+  fireEvent.dragStart(card, { dataTransfer: dataTransfer() });
+  fireEvent.dragOver(column, { dataTransfer: dataTransfer() });
+  fireEvent.drop(column, { dataTransfer: dataTransfer() });
+  fireEvent.dragEnd(card);
+  return column;
+}
+
+describe("TeamWorkloadDashboard", () => {
+  beforeEach(() => {
+    setSupervisor(true);
+  });
+
+  it("is only available to supervisors", () => {
+    setSupervisor(false);
+    render(<TeamWorkloadDashboard />);
+
+    expect(screen.getByText("Access Denied")).toBeInTheDocument();
+  });
+
+  it("shows each analyst's reviews, resolution time and escalations", async () => {
+    render(<TeamWorkloadDashboard />);
+
+    const john = await screen.findByRole("region", { name: "John Maker workload" });
+    expect(await within(john).findByText("txn_001")).toBeInTheDocument();
+    expect(within(john).getByText("In Review: 1")).toBeInTheDocument();
+    expect(within(john).getByText(/Avg resolution 38m · Escalations 2/)).toBeInTheDocument();
+    const unassigned = screen.getByRole("region", { name: "Unassigned workload" });
+    expect(within(unassigned).getByText("txn_002")).toBeInTheDocument();
+  });
+
+  it("reassigns a review dropped on another analyst", async () => {
+    render(<TeamWorkloadDashboard />);
+    await screen.findByRole("region", { name: "Jane Maker workload" });
+
+    const jane = await dragReview("txn_002", "Jane Maker");
+
+    expect(await within(jane).findByText("txn_002")).toBeInTheDocument();
+    expect(await screen.findByText("Reassigned 1 review to Jane Maker")).toBeInTheDocument();
+  });
+
+  it("lists the reviews that could not be reassigned", async () => {
+    server.use(
+      http.post("*/api/v1/bulk/assign", () =>
+        HttpResponse.json({
+          success_count: 0,
+          failure_count: 1,
+          results: [
+            {
+              transaction_id: "txn_003",
+              success: false,
+              error_message: "Review is already resolved",
+              error_code: "REVIEW_CLOSED",
+            },
+          ],
+        })
+      )
+    );
+    render(<TeamWorkloadDashboard />);
+    await screen.findByRole("region", { name: "Bob Checker workload" });
+
+    await dragReview("txn_003", "Bob Checker");
+
+    expect(await screen.findByText("1 review could not be reassigned")).toBeInTheDocument();
+    expect(screen.getByText("txn_003: Review is already resolved")).toBeInTheDocument();
+  });
+});
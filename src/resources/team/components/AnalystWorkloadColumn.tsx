@@ -0,0 +1,135 @@
+/**
+ * AnalystWorkloadColumn Component
+ *
+ * One column of the team workload board: an analyst's open reviews with
+ * their status and risk mix, average resolution time and escalations. The
+ * unassigned column has no analyst and only acts as a drag source.
+ */
+
+import { useState, type DragEvent, type FC, type ReactElement } from "react";
+import { Card, Empty, Space, Tag, Typography } from "antd";
+import { formatSlaTarget } from "../../../shared/utils/sla";
+import type { RiskLevel, TransactionStatus } from "../../../types/review";
+import type { SlaPolicy } from "../../../types/sla";
+import {
+  RISK_LEVEL_CONFIG,
+  TRANSACTION_STATUS_CONFIG,
+  type AnalystWorkload,
+  type WorklistItem,
+} from "../../../types/worklist";
+import { WorkloadReviewCard } from "./WorkloadReviewCard";
+
+const { Text } = Typography;
+
+function WorkloadSummary({ workload }: Readonly<{ workload: AnalystWorkload }>): ReactElement {
+  const statuses = (Object.keys(workload.by_status) as TransactionStatus[]).filter(
+    (status) => workload.by_status[status] > 0
+  );
+  const risks = (Object.keys(RISK_LEVEL_CONFIG) as RiskLevel[]).filter(
+    (level) => workload.by_risk[level] > 0
+  );
+
+  return (
+    <div className="team-column-summary">
+      <Space size={4} wrap>
+        {statuses.map((status) => (
+          <Tag key={status} color={TRANSACTION_STATUS_CONFIG[status].color}>
+            {TRANSACTION_STATUS_CONFIG[status].label}: {workload.by_status[status]}
+          </Tag>
+        ))}
+        {risks.map((level) => (
+          <Tag key={level} color={RISK_LEVEL_CONFIG[level].color}>
+            {RISK_LEVEL_CONFIG[level].label}: {workload.by_risk[level]}
+          </Tag>
+        ))}
+      </Space>
+      <Text type="secondary">
+        Avg resolution{" "}
+        {workload.avg_resolution_minutes == null
+          ? "N/A"
+          : formatSlaTarget(workload.avg_resolution_minutes)}{" "}
+        · Escalations {workload.escalations}
+      </Text>
+    </div>
+  );
+}
+
+export interface AnalystWorkloadColumnProps {
+  title: string;
+  reviews: WorklistItem[];
+  /** Null for the unassigned column */
+  workload: AnalystWorkload | null;
+  policy: SlaPolicy;
+  now: number;
+  selectedIds: ReadonlySet<string>;
+  /** Whether reviews being dragged can be dropped here */
+  canDrop: boolean;
+  onToggleSelect: (transactionId: string) => void;
+  onDragStart: (transactionId: string) => void;
+  onDragEnd: () => void;
+  onDrop: () => void;
+}
+
+export const AnalystWorkloadColumn: FC<AnalystWorkloadColumnProps> = ({
+  title,
+  reviews,
+  workload,
+  policy,
+  now,
+  selectedIds,
+  canDrop,
+  onToggleSelect,
+  onDragStart,
+  onDragEnd,
+  onDrop,
+}) => {
+  const [isOver, setIsOver] = useState(false);
+
+  const handleDragOver = (event: DragEvent<HTMLDivElement>): void => {
+    if (!canDrop) return;
+    event.preventDefault();
+    setIsOver(true);
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>): void => {
+    setIsOver(false);
+    if (!canDrop) return;
+    event.preventDefault();
+    onDrop();
+  };
+
+  return (
+    <section
+      className={`team-column${isOver ? " team-column-over" : ""}`}
+      aria-label={`${title} workload`}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsOver(false)}
+      onDrop={handleDrop}
+    >
+      <Card
+        size="small"
+        title={title}
+        extra={<Tag>{reviews.length} open</Tag>}
+        className="team-column-card"
+      >
+        {workload != null && <WorkloadSummary workload={workload} />}
+        {reviews.length === 0 ? (
+          <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No open reviews" />
+        ) : (
+          reviews.map((item) => (
+            <WorkloadReviewCard
+              key={item.transaction_id}
+              item={item}
+              policy={policy}
+              now={now}
+              selected={selectedIds.has(item.transaction_id)}
+              onToggleSelect={onToggleSelect}
+              onDragStart={onDragStart}
+              onDragEnd={onDragEnd}
+            />
+          ))
+        )}
+      </Card>
+    </section>
+  );
+};
@@ -0,0 +1,39 @@
+/**
+ * ReassignmentFailures Component
+ *
+ * Lists the reviews a bulk reassignment could not move, with the reason the
+ * server gave for each.
+ */
+
+import type { FC } from "react";
+import { Alert } from "antd";
+import type { BulkOperationResult } from "../../../types/bulk";
+
+export interface ReassignmentFailuresProps {
+  failures: BulkOperationResult[];
+  onClose: () => void;
+}
+
+export const ReassignmentFailures: FC<ReassignmentFailuresProps> = ({ failures, onClose }) => {
+  if (failures.length === 0) return null;
+
+  return (
+    <Alert
+      type="warning"
+      showIcon
+      closable
+      onClose={onClose}
+      message={`${failures.length} ${failures.length === 1 ? "review" : "reviews"} could not be reassigned`}
+      description={
+        <ul className="team-failure-list">
+          {failures.map((failure) => (
+            <li key={failure.transaction_id}>
+              {failure.transaction_id}:{" "}
+              {failure.error_message ?? failure.error_code ?? "Unknown error"}
+            </li>
+          ))}
+        </ul>
+      }
+    />
+  );
+};
@@ -0,0 +1,72 @@
+/**
+ * WorkloadReviewCard Component
+ *
+ * A review on the team workload board. Cards are dragged onto another
+ * analyst's column to reassign them.
+ */
+
+import type { DragEvent, FC } from "react";
+import { Checkbox, Space, Typography } from "antd";
+import { Link } from "react-router";
+import { PriorityBadge, RiskLevelBadge, SlaBadge, StatusBadge } from "../../../components/review";
+import { evaluateSla } from "../../../shared/utils/sla";
+import { formatCurrency } from "../../../shared/utils/format";
+import type { SlaPolicy } from "../../../types/sla";
+import type { WorklistItem } from "../../../types/worklist";
+
+const { Text } = Typography;
+
+export interface WorkloadReviewCardProps {
+  item: WorklistItem;
+  policy: SlaPolicy;
+  /** Epoch ms the SLA countdown is measured at */
+  now: number;
+  selected: boolean;
+  onToggleSelect: (transactionId: string) => void;
+  onDragStart: (transactionId: string) => void;
+  onDragEnd: () => void;
+}
+
+export const WorkloadReviewCard: FC<WorkloadReviewCardProps> = ({
+  item,
+  policy,
+  now,
+  selected,
+  onToggleSelect,
+  onDragStart,
+  onDragEnd,
+}) => {
+  const handleDragStart = (event: DragEvent<HTMLDivElement>): void => {
+    event.dataTransfer.effectAllowed = "move";
+    event.dataTransfer.setData("text/plain", item.transaction_id);
+    onDragStart(item.transaction_id);
+  };
+
+  return (
+    <div
+      className={`team-review-card${selected ? " team-review-card-selected" : ""}`}
+      draggable
+      onDragStart={handleDragStart}
+      onDragEnd={onDragEnd}
+      aria-label={`Review ${item.transaction_id}`}
+    >
+      <div className="team-review-card-header">
+        <Checkbox
+          checked={selected}
+          onChange={() => onToggleSelect(item.transaction_id)}
+          aria-label={`Select ${item.transaction_id}`}
+        />
+        <Link to={`/transactions/show/${item.transaction_id}`}>{item.transaction_id}</Link>
+        <Text type="secondary">
+          {formatCurrency(item.transaction_amount, item.transaction_currency)}
+        </Text>
+      </div>
+      <Space size={4} wrap>
+        <PriorityBadge priority={item.priority} size="small" />
+        <RiskLevelBadge level={item.risk_level} size="small" />
+        <StatusBadge status={item.status} size="small" />
+        <SlaBadge evaluation={evaluateSla(item, policy, now)} />
+      </Space>
+    </div>
+  );
+};
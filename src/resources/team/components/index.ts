@@ -0,0 +1,12 @@
+/**
+ * Team Components Index
+ *
+ * Exports all team workload components.
+ */
+
+export { AnalystWorkloadColumn } from "./AnalystWorkloadColumn";
+export { WorkloadReviewCard } from "./WorkloadReviewCard";
+export { ReassignmentFailures } from "./ReassignmentFailures";
+export type { AnalystWorkloadColumnProps } from "./AnalystWorkloadColumn";
+export type { WorkloadReviewCardProps } from "./WorkloadReviewCard";
+export type { ReassignmentFailuresProps } from "./ReassignmentFailures";
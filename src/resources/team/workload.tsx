@@ -0,0 +1,180 @@
+/**
+ * Team Workload Dashboard
+ *
+ * Supervisor view of every analyst's open reviews. Dragging reviews onto
+ * another analyst's column reassigns them through the bulk assign endpoint;
+ * dragging a selected review moves the whole selection.
+ */
+
+import { useCallback, useMemo, useState, type FC, type ReactElement } from "react";
+import { Alert, Button, Card, Col, Result, Row, Space, Statistic, Typography, message } from "antd";
+import { ReloadOutlined } from "@ant-design/icons";
+import { usePermissions, useSlaClock, useSlaPolicy, useTeamWorkload } from "../../hooks";
+import type { BulkOperationResult } from "../../types/bulk";
+import type { TeamWorkloadResponse } from "../../types/worklist";
+import { AnalystWorkloadColumn, ReassignmentFailures } from "./components";
+import "./team.css";
+
+const { Title, Text } = Typography;
+
+const REFRESH_INTERVAL_MS = 60000;
+
+const EMPTY_WORKLOAD: TeamWorkloadResponse = { analysts: [], unassigned: [] };
+
+const pluralizeReviews = (count: number): string =>
+  `${count} ${count === 1 ? "review" : "reviews"}`;
+
+function TeamSummary({ workload }: Readonly<{ workload: TeamWorkloadResponse }>): ReactElement {
+  const assigned = workload.analysts.reduce((sum, a) => sum + a.reviews.length, 0);
+  const escalated = workload.analysts.reduce((sum, a) => sum + a.by_status.ESCALATED, 0);
+  const escalations = workload.analysts.reduce((sum, a) => sum + a.escalations, 0);
+
+  return (
+    <Row gutter={16}>
+      <Col xs={12} lg={6}>
+        <Card size="small">
+          <Statistic title="Assigned open reviews" value={assigned} />
+        </Card>
+      </Col>
+      <Col xs={12} lg={6}>
+        <Card size="small">
+          <Statistic title="Unassigned" value={workload.unassigned.length} />
+        </Card>
+      </Col>
+      <Col xs={12} lg={6}>
+        <Card size="small">
+          <Statistic title="Currently escalated" value={escalated} />
+        </Card>
+      </Col>
+      <Col xs={12} lg={6}>
+        <Card size="small">
+          <Statistic title="Escalations to date" value={escalations} />
+        </Card>
+      </Col>
+    </Row>
+  );
+}
+
+export const TeamWorkloadDashboard: FC = () => {
+  const { capabilities, isLoading: permissionsLoading } = usePermissions();
+  const canSupervise = capabilities.canSuperviseReviews;
+  const { workload, isLoading, error, isReassigning, refetch, reassign } = useTeamWorkload(
+    canSupervise,
+    REFRESH_INTERVAL_MS
+  );
+  const { policy } = useSlaPolicy(canSupervise);
+  const now = useSlaClock();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const [draggedIds, setDraggedIds] = useState<string[] | null>(null);
+  const [failures, setFailures] = useState<BulkOperationResult[]>([]);
+
+  const team = workload ?? EMPTY_WORKLOAD;
+  const assigneeOf = useMemo(() => {
+    const assignees = new Map<string, string | null>();
+    team.unassigned.forEach((item) => assignees.set(item.transaction_id, null));
+    team.analysts.forEach((a) =>
+      a.reviews.forEach((item) => assignees.set(item.transaction_id, a.analyst_id))
+    );
+    return assignees;
+  }, [team]);
+
+  const toggleSelect = useCallback((transactionId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(transactionId)) next.add(transactionId);
+      return next;
+    });
+  }, []);
+
+  const startDrag = useCallback(
+    (transactionId: string) => {
+      setDraggedIds(selectedIds.has(transactionId) ? Array.from(selectedIds) : [transactionId]);
+    },
+    [selectedIds]
+  );
+
+  const handleDrop = async (analystId: string, analystName: string): Promise<void> => {
+    const transactionIds = (draggedIds ?? []).filter((id) => assigneeOf.get(id) !== analystId);
+    setDraggedIds(null);
+    if (transactionIds.length === 0) return;
+    try {
+      const response = await reassign(transactionIds, analystId);
+      setFailures(response.results.filter((result) => !result.success));
+      setSelectedIds(new Set());
+      if (response.success_count > 0) {
+        void message.success(
+          `Reassigned ${pluralizeReviews(response.success_count)} to ${analystName}`
+        );
+      }
+      if (response.failure_count > 0) {
+        void message.warning(`${pluralizeReviews(response.failure_count)} could not be reassigned`);
+      }
+    } catch {
+      void message.error("Failed to reassign reviews");
+    }
+  };
+
+  if (!permissionsLoading && !canSupervise) {
+    return (
+      <Result
+        status="403"
+        title="Access Denied"
+        subTitle="Only fraud supervisors can view and rebalance the team's workload."
+      />
+    );
+  }
+
+  return (
+    <Space direction="vertical" className="full-width" size="large">
+      <Space align="center" wrap>
+        <Title level={4} className="title-no-margin">
+          Team Workload
+        </Title>
+        <Button icon={<ReloadOutlined />} onClick={refetch} loading={isLoading || isReassigning}>
+          Refresh
+        </Button>
+      </Space>
+      <Text type="secondary">
+        Drag reviews onto an analyst to reassign them. Select several reviews to move them together.
+      </Text>
+
+      {error != null && <Alert type="error" showIcon message="Could not load the team workload" />}
+      <ReassignmentFailures failures={failures} onClose={() => setFailures([])} />
+      <TeamSummary workload={team} />
+
+      <div className="team-board">
+        <AnalystWorkloadColumn
+          title="Unassigned"
+          reviews={team.unassigned}
+          workload={null}
+          policy={policy}
+          now={now}
+          selectedIds={selectedIds}
+          canDrop={false}
+          onToggleSelect={toggleSelect}
+          onDragStart={startDrag}
+          onDragEnd={() => setDraggedIds(null)}
+          onDrop={() => undefined}
+        />
+        {team.analysts.map((analyst) => (
+          <AnalystWorkloadColumn
+            key={analyst.analyst_id}
+            title={analyst.analyst_name}
+            reviews={analyst.reviews}
+            workload={analyst}
+            policy={policy}
+            now={now}
+            selectedIds={selectedIds}
+            canDrop={draggedIds != null && !isReassigning}
+            onToggleSelect={toggleSelect}
+            onDragStart={startDrag}
+            onDragEnd={() => setDraggedIds(null)}
+            onDrop={() => void handleDrop(analyst.analyst_id, analyst.analyst_name)}
+          />
+        ))}
+      </div>
+    </Space>
+  );
+};
+
+export default TeamWorkloadDashboard;
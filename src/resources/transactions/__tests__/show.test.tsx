@@ -3,15 +3,18 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from "vitest";
-import { render, waitFor, screen, userEvent } from "@/test/utils";
+import { render, waitFor, screen, userEvent, act } from "@/test/utils";
 import { Routes, Route } from "react-router";
 import { TransactionShow } from "../show";
+import * as hooks from "@/hooks";
+import type { WorklistEvent } from "@/types/worklist";
 
 // Mock the hooks
 vi.mock("@/hooks", () => ({
   useReview: vi.fn(() => ({
     review: null,
     isLoading: false,
+    refetch: vi.fn(),
     updateStatus: vi.fn(),
     assign: vi.fn(),
     resolve: vi.fn(),
@@ -25,6 +28,20 @@ vi.mock("@/hooks", () => ({
     updateNote: vi.fn(),
     deleteNote: vi.fn(),
   })),
+  useWorklistEvents: vi.fn(() => ({ mode: "live" })),
+  useSlaPolicy: vi.fn(() => ({
+    policy: {
+      priority_minutes: { "1": 60 },
+      risk_minutes: { CRITICAL: 120, HIGH: 240, MEDIUM: 1440, LOW: 2880 },
+      at_risk_percent: 25,
+      updated_at: null,
+      updated_by: null,
+    },
+    isLoading: false,
+    isSaving: false,
+    error: null,
+    updatePolicy: vi.fn(),
+  })),
 }));
 
 // Mock the API call
@@ -182,4 +199,30 @@ describe("TransactionShow", () => {
       { timeout: 5000 }
     );
   });
+
+  it("warns when another analyst claims the open transaction", async () => {
+    let onEvent: ((event: WorklistEvent) => void) | undefined;
+    vi.mocked(hooks.useWorklistEvents).mockImplementation((handler) => {
+      onEvent = handler;
+      return { mode: "live" };
+    });
+    renderWithRoute();
+    await screen.findByRole("tab", { name: /Rule Matches/i });
+
+    act(() => {
+      onEvent?.({
+        event_id: "evt_1",
+        type: "REVIEW_ASSIGNED",
+        item: { transaction_id: "test-txn-id", assigned_analyst_id: "analyst_2" },
+        previous: { status: "PENDING", assigned_analyst_id: null },
+        actor_id: "analyst_2",
+        actor_name: "Dana Analyst",
+        occurred_at: "2026-01-15T10:00:00Z",
+      } as WorklistEvent);
+    });
+
+    expect(
+      await screen.findByText("This transaction was just claimed by Dana Analyst")
+    ).toBeInTheDocument();
+  });
 });
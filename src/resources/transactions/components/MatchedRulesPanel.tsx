@@ -1,10 +1,11 @@
 /**
  * MatchedRulesPanel Component
  *
- * Collapsible panel showing matched rules with expandable details.
+ * Collapsible panel showing matched rules with expandable details. Condition
+ * values and scope values of sensitive fields are masked until revealed.
  */
 
-import type { FC, ReactElement } from "react";
+import { useMemo, type FC, type ReactElement } from "react";
 import { Button, Collapse, Descriptions, Divider, Space, Table, Tag, Typography } from "antd";
 import type { ColumnsType } from "antd/es/table";
 import { useGo } from "@refinedev/core";
@@ -13,18 +14,27 @@ import "./matched-rules-panel.css";
 import type { MatchedRule } from "../../../types/transaction";
 import { formatDateTime } from "../../../shared/utils/format";
 import { getDecisionColor, getRuleTypeColor } from "../../../theme/tokens";
+import { EntityType } from "../../../types/enums";
+import { maskSensitiveValues } from "../../../shared/utils/sensitiveData";
+import { useSensitiveData } from "../../../hooks/useSensitiveData";
+import { SensitiveDataReveal } from "../../../components/sensitiveData";
 
 const { Panel } = Collapse;
 const { Text } = Typography;
 
 export interface MatchedRulesPanelProps {
   matchedRules: MatchedRule[];
+  /** Transaction the rules matched, recorded when sensitive values are revealed */
+  transactionId?: string;
 }
 
 /**
  * Expanded row component for rule details
  */
-const ExpandedRuleDetails: FC<{ record: MatchedRule }> = ({ record }) => (
+const ExpandedRuleDetails: FC<{ record: MatchedRule; sensitiveKeys: ReadonlySet<string> }> = ({
+  record,
+  sensitiveKeys,
+}) => (
   <Collapse defaultActiveKey={["details"]}>
     <Panel header="Rule Details" key="details">
       <Descriptions size="small" column={2}>
@@ -88,13 +98,13 @@ const ExpandedRuleDetails: FC<{ record: MatchedRule }> = ({ record }) => (
         <>
           <Divider className="divider-compact" />
           <Typography.Text strong>Condition Values:</Typography.Text>
-          <JsonViewer data={record.condition_values} />
+          <JsonViewer data={record.condition_values} sensitiveKeys={sensitiveKeys} />
         </>
       )}
 
       <Divider className="divider-compact" />
       <Typography.Text strong>Scope Configuration:</Typography.Text>
-      <JsonViewer data={record.scope} />
+      <JsonViewer data={record.scope} sensitiveKeys={sensitiveKeys} />
     </Panel>
   </Collapse>
 );
@@ -194,15 +204,35 @@ function useMatchedRulesColumns(
 /**
  * Render function for expanded row
  */
-function renderExpandedRow(record: MatchedRule): ReactElement {
-  return <ExpandedRuleDetails record={record} />;
+function renderExpandedRow(record: MatchedRule, sensitiveKeys: ReadonlySet<string>): ReactElement {
+  return <ExpandedRuleDetails record={record} sensitiveKeys={sensitiveKeys} />;
 }
 
 /**
  * Matched rules panel component
  */
-export const MatchedRulesPanel: FC<MatchedRulesPanelProps> = ({ matchedRules }) => {
+export const MatchedRulesPanel: FC<MatchedRulesPanelProps> = ({ matchedRules, transactionId }) => {
   const go = useGo();
+  const sensitiveData = useSensitiveData({
+    entityType: EntityType.TRANSACTION,
+    entityId: transactionId,
+  });
+  const { keysToMask } = sensitiveData;
+  const masked = useMemo(() => {
+    const fieldKeys = new Set<string>();
+    const mask = <T,>(value: T): T => {
+      const result = maskSensitiveValues(value, keysToMask);
+      result.fieldKeys.forEach((key) => fieldKeys.add(key));
+      return result.value;
+    };
+    const rules = matchedRules.map((rule) => ({
+      ...rule,
+      condition_values: mask(rule.condition_values),
+      scope: mask(rule.scope),
+    }));
+    return { rules, fieldKeys: Array.from(fieldKeys) };
+  }, [matchedRules, keysToMask]);
+
   const columns = useMatchedRulesColumns((ruleId, ruleVersionId, ruleVersion) => {
     let query = "";
     if (ruleVersionId != null) {
@@ -218,15 +248,20 @@ export const MatchedRulesPanel: FC<MatchedRulesPanelProps> = ({ matchedRules })
   }
 
   return (
-    <Table
-      dataSource={matchedRules}
-      rowKey="rule_id"
-      size="small"
-      pagination={false}
-      columns={columns}
-      expandable={{
-        expandedRowRender: renderExpandedRow,
-      }}
-    />
+    <Space direction="vertical" size="small" className="full-width">
+      {masked.fieldKeys.length > 0 || sensitiveData.isRevealed ? (
+        <SensitiveDataReveal sensitiveData={sensitiveData} fieldKeys={masked.fieldKeys} />
+      ) : null}
+      <Table
+        dataSource={masked.rules}
+        rowKey="rule_id"
+        size="small"
+        pagination={false}
+        columns={columns}
+        expandable={{
+          expandedRowRender: (record) => renderExpandedRow(record, keysToMask),
+        }}
+      />
+    </Space>
   );
 };
@@ -1,4 +1,5 @@
 import type { FC, ReactNode } from "react";
+import { Link } from "react-router";
 import {
   Alert,
   Badge,
@@ -42,6 +43,11 @@ function resolveModelModeMeta(
   return MODEL_MODE_META[mode as keyof typeof MODEL_MODE_META] ?? DEFAULT_MODEL_MODE_META;
 }
 
+const RunLink: FC<{ runId: string | null | undefined }> = ({ runId }) =>
+  runId == null || runId === "" ? null : (
+    <Link to={`/ops-analyst/investigations/${runId}`}>View run</Link>
+  );
+
 interface Props {
   transactionId: string;
 }
@@ -129,6 +135,14 @@ export const OpsAnalystInsightPanel: FC<Props> = ({ transactionId }) => {
               )}
             </Space>
           }
+          extra={
+            <RunLink
+              runId={
+                latestInsight.run_id ??
+                (latestInsight === lastResult?.insight ? lastResult.run_id : null)
+              }
+            />
+          }
         >
           <Paragraph>{latestInsight.summary}</Paragraph>
 
@@ -159,6 +173,7 @@ export const OpsAnalystInsightPanel: FC<Props> = ({ transactionId }) => {
                   <Space>
                     <Badge color={SEVERITY_COLOR[ins.severity]} text={ins.severity} />
                     <Text type="secondary">{new Date(ins.generated_at).toLocaleString()}</Text>
+                    <RunLink runId={ins.run_id} />
                   </Space>
                   <Paragraph style={{ marginTop: 8 }}>{ins.summary}</Paragraph>
                 </Card>
@@ -1,7 +1,8 @@
 /**
  * TransactionSidebar Component
  *
- * Right sidebar containing review actions panel.
+ * Right sidebar containing review actions panel, measured against the
+ * configured review SLA.
  */
 
 import type { FC } from "react";
@@ -13,6 +14,7 @@ import type {
   TransactionReview,
 } from "../../../types/review";
 import { ReviewActionsPanel } from "../../../components/review";
+import { useSlaPolicy } from "../../../hooks";
 
 export interface TransactionSidebarProps {
   transactionId: string;
@@ -45,6 +47,8 @@ export const TransactionSidebar: FC<TransactionSidebarProps> = ({
   onResolve,
   onEscalate,
 }) => {
+  const { policy: slaPolicy } = useSlaPolicy();
+
   return (
     <Space direction="vertical" size="middle" className="full-width">
       <Spin spinning={reviewLoading}>
@@ -57,6 +61,7 @@ export const TransactionSidebar: FC<TransactionSidebarProps> = ({
           onResolve={onResolve}
           onEscalate={onEscalate}
           loading={isUpdating}
+          slaPolicy={slaPolicy}
         />
       </Spin>
     </Space>
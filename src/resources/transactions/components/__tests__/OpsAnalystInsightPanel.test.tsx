@@ -1,5 +1,6 @@
 import { render, screen, fireEvent, waitFor } from "@testing-library/react";
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import { MemoryRouter } from "react-router";
 import { OpsAnalystInsightPanel } from "../OpsAnalystInsightPanel";
 import { useOpsAnalystInsights } from "@/hooks/useOpsAnalystInsights";
 import { useInvestigationRun } from "@/hooks/useInvestigationRun";
@@ -105,4 +106,27 @@ describe("OpsAnalystInsightPanel", () => {
 
     expect(screen.getByText("No insights yet")).toBeInTheDocument();
   });
+
+  it("links each insight to the run that produced it", () => {
+    mockUseInsights.mockReturnValue({
+      insights: [
+        { ...mockInsight, run_id: "run-2" },
+        { ...mockInsight, insight_id: "insight-0", run_id: "run-1" },
+      ],
+      loading: false,
+      error: null,
+      reload: reloadMock,
+    });
+
+    render(
+      <MemoryRouter>
+        <OpsAnalystInsightPanel transactionId="txn-1" />
+      </MemoryRouter>
+    );
+    fireEvent.click(screen.getByText("Previous insights (1)"));
+
+    expect(
+      screen.getAllByRole("link", { name: "View run" }).map((link) => link.getAttribute("href"))
+    ).toEqual(["/ops-analyst/investigations/run-2", "/ops-analyst/investigations/run-1"]);
+  });
 });
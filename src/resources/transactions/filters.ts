@@ -1,5 +1,6 @@
 import type { CrudFilters } from "@refinedev/core";
 import type { TransactionFilters } from "../../types/transaction";
+import type { SavedTransactionFilters } from "../../types/savedView";
 
 type DateRangeInput = [unknown, unknown] | null | undefined;
 
@@ -63,3 +64,17 @@ export function buildTransactionFilters(filters: TransactionFilters): CrudFilter
 
   return result;
 }
+
+/**
+ * Search form values as saved-view filters, with the date range resolved to
+ * `from_date` / `to_date`
+ */
+export function toSavedTransactionFilters(filters: TransactionFilters): SavedTransactionFilters {
+  return Object.fromEntries(
+    buildTransactionFilters(filters).flatMap((filter) =>
+      "field" in filter
+        ? [[filter.field, filter.field === "assigned_to_me" ? true : (filter.value as unknown)]]
+        : []
+    )
+  ) as SavedTransactionFilters;
+}
@@ -28,6 +28,7 @@ import type {
   TransactionDecision,
   DecisionReason,
   EvaluationType,
+  TransactionFilters,
 } from "../../types/transaction";
 import type { RiskLevel, TransactionStatus } from "../../types/review";
 import {
@@ -38,7 +39,8 @@ import {
 } from "../../theme/tokens";
 import { formatCurrency } from "../../shared/utils/format";
 import { buildShowTotal, mergePagination } from "../../shared/utils/filters";
-import { buildTransactionFilters } from "./filters";
+import { buildTransactionFilters, toSavedTransactionFilters } from "./filters";
+import { SaveViewButton } from "../../components/savedViews";
 
 const { RangePicker } = DatePicker;
 
@@ -298,6 +300,16 @@ export const TransactionList: FC = () => {
               Filter
             </Button>
           </Form.Item>
+          <Form.Item>
+            <SaveViewButton
+              target="transactions"
+              getFilters={() =>
+                toSavedTransactionFilters(
+                  (searchFormProps.form?.getFieldsValue() ?? {}) as TransactionFilters
+                )
+              }
+            />
+          </Form.Item>
         </Form>
 
         <Table
@@ -19,7 +19,13 @@ import type {
   AnalystDecision,
   TransactionReview,
 } from "../../types/review";
-import type { NoteCreateRequest, NoteUpdateRequest, AnalystNote } from "../../types/notes";
+import type {
+  NoteCreateRequest,
+  NoteUpdateRequest,
+  NoteAttachmentChanges,
+  AnalystNote,
+} from "../../types/notes";
+import type { WorklistEvent } from "../../types/worklist";
 import { get } from "../../api/httpClient";
 import { TRANSACTIONS } from "../../api/endpoints";
 import {
@@ -31,8 +37,10 @@ import {
   TransactionSidebar,
   OpsAnalystInsightPanel,
 } from "./components";
-import { useReview, useNotes } from "../../hooks";
+import { useReview, useNotes, useWorklistEvents } from "../../hooks";
 import { NotesPanel } from "../../components/notes";
+import { isClaimedByOther } from "../../shared/utils/worklistEvents";
+import "./show.css";
 
 function createTransactionHandlers(
   updateStatus: ({ status }: { status: TransactionStatus }) => Promise<void>,
@@ -56,8 +64,12 @@ function createTransactionHandlers(
     escalation_reason: string;
     escalate_to?: string;
   }) => Promise<void>,
-  createNote: (note: NoteCreateRequest) => Promise<void>,
-  updateNote: (noteId: string, note: NoteUpdateRequest) => Promise<void>,
+  createNote: (note: NoteCreateRequest, files?: File[]) => Promise<void>,
+  updateNote: (
+    noteId: string,
+    note: NoteUpdateRequest,
+    attachments?: NoteAttachmentChanges
+  ) => Promise<void>,
   deleteNote: (noteId: string) => Promise<void>
 ): {
   handleStatusChange: (status: TransactionStatus) => Promise<void>;
@@ -69,11 +81,12 @@ function createTransactionHandlers(
     decisionReason?: string
   ) => Promise<void>;
   handleEscalate: (reason: string, escalateTo?: string) => Promise<void>;
-  handleAddNote: (note: NoteCreateRequest) => Promise<void>;
+  handleAddNote: (note: NoteCreateRequest, files?: File[]) => Promise<void>;
   handleUpdateNote: (
     noteId: string,
     content: string,
-    noteType?: NoteUpdateRequest["note_type"]
+    noteType?: NoteUpdateRequest["note_type"],
+    attachments?: NoteAttachmentChanges
   ) => Promise<void>;
   handleDeleteNote: (noteId: string) => Promise<void>;
 } {
@@ -100,18 +113,23 @@ function createTransactionHandlers(
     handleEscalate: async (reason: string, escalateTo?: string) => {
       await escalate({ escalation_reason: reason, escalate_to: escalateTo });
     },
-    handleAddNote: async (note: NoteCreateRequest) => {
-      await createNote(note);
+    handleAddNote: async (note: NoteCreateRequest, files?: File[]) => {
+      await createNote(note, files);
     },
     handleUpdateNote: async (
       noteId: string,
       content: string,
-      noteType?: NoteUpdateRequest["note_type"]
+      noteType?: NoteUpdateRequest["note_type"],
+      attachments?: NoteAttachmentChanges
     ) => {
-      await updateNote(noteId, {
-        note_content: content,
-        note_type: noteType,
-      });
+      await updateNote(
+        noteId,
+        {
+          note_content: content,
+          note_type: noteType,
+        },
+        attachments
+      );
     },
     handleDeleteNote: async (noteId: string) => {
       await deleteNote(noteId);
@@ -129,6 +147,51 @@ interface TransactionShowContentProps {
   initialNotes: AnalystNote[];
 }
 
+/**
+ * Name of the analyst who claimed the transaction while it was open, from the
+ * worklist event stream; the review is refetched on every change to it
+ */
+function useClaimedByOther(
+  transactionId: string,
+  currentUserId: string | null,
+  refetchReview: () => void
+): [string | null, () => void] {
+  const [claimedBy, setClaimedBy] = useState<string | null>(null);
+
+  const handleWorklistEvent = useCallback(
+    (event: WorklistEvent) => {
+      if (event.item.transaction_id !== transactionId) return;
+      if (isClaimedByOther(event, transactionId, currentUserId)) {
+        // A supervisor may assign on someone's behalf; name the actor only when they claimed it
+        const assignee = event.item.assigned_analyst_id ?? event.actor_id;
+        setClaimedBy(event.actor_id === assignee ? (event.actor_name ?? assignee) : assignee);
+      }
+      refetchReview();
+    },
+    [transactionId, currentUserId, refetchReview]
+  );
+
+  useWorklistEvents(handleWorklistEvent);
+  const dismiss = useCallback(() => setClaimedBy(null), []);
+  return [claimedBy, dismiss];
+}
+
+const ClaimedByOtherAlert: FC<{ claimedBy: string | null; onClose: () => void }> = ({
+  claimedBy,
+  onClose,
+}) =>
+  claimedBy == null ? null : (
+    <Alert
+      type="warning"
+      showIcon
+      closable
+      className="claimed-by-other-alert"
+      message={`This transaction was just claimed by ${claimedBy}`}
+      description="The review panel shows the new assignment. Coordinate before changing its status."
+      onClose={onClose}
+    />
+  );
+
 const TransactionShowContent: FC<TransactionShowContentProps> = ({
   transactionId,
   transaction,
@@ -164,6 +227,7 @@ const TransactionShowContent: FC<TransactionShowContentProps> = ({
   const {
     review,
     isLoading: reviewLoading,
+    refetch: refetchReview,
     updateStatus,
     assign,
     resolve,
@@ -176,6 +240,12 @@ const TransactionShowContent: FC<TransactionShowContentProps> = ({
     skipInitialFetch: true,
   });
 
+  const [claimedBy, dismissClaimedBy] = useClaimedByOther(
+    transactionId,
+    currentUserId ?? null,
+    refetchReview
+  );
+
   const {
     notes,
     isLoading: notesLoading,
@@ -210,6 +280,7 @@ const TransactionShowContent: FC<TransactionShowContentProps> = ({
 
   return (
     <Show>
+      <ClaimedByOtherAlert claimedBy={claimedBy} onClose={dismissClaimedBy} />
       <Row gutter={16}>
         <Col span={16}>
           <Card size="small">
@@ -223,7 +294,9 @@ const TransactionShowContent: FC<TransactionShowContentProps> = ({
                 {
                   key: "rules",
                   label: `Rule Matches (${matchedRules.length})`,
-                  children: <MatchedRulesPanel matchedRules={matchedRules} />,
+                  children: (
+                    <MatchedRulesPanel matchedRules={matchedRules} transactionId={transactionId} />
+                  ),
                 },
                 {
                   key: "notes",
@@ -234,8 +307,13 @@ const TransactionShowContent: FC<TransactionShowContentProps> = ({
                       currentUserId={currentUserId}
                       onAddNote={handleAddNote}
                       onDeleteNote={handleDeleteNote}
-                      onEditNote={(noteId, note) =>
-                        handleUpdateNote(noteId, note.note_content ?? "", note.note_type)
+                      onEditNote={(noteId, note, attachments) =>
+                        handleUpdateNote(
+                          noteId,
+                          note.note_content ?? "",
+                          note.note_type,
+                          attachments
+                        )
                       }
                       loading={notesLoading}
                     />
@@ -14,6 +14,7 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 import { render, screen, waitFor, fireEvent, within } from "@/test/utils";
 import WorklistList from "../list";
 import * as hooks from "@/hooks";
+import type { Capabilities } from "@/hooks";
 import * as refineCore from "@refinedev/core";
 import * as antd from "antd";
 
@@ -22,6 +23,9 @@ vi.mock("@/hooks", () => ({
   useWorklist: vi.fn(),
   useWorklistStats: vi.fn(),
   useClaimNext: vi.fn(),
+  usePermissions: vi.fn(),
+  useSlaPolicy: vi.fn(),
+  useWorkflowMetrics: vi.fn(),
 }));
 
 // Mock @refinedev/core - keep all exports but mock useGo/useGetIdentity
@@ -94,6 +98,34 @@ describe("WorklistList", () => {
   const mockUseWorklist = vi.mocked(hooks.useWorklist);
   const mockUseWorklistStats = vi.mocked(hooks.useWorklistStats);
   const mockUseClaimNext = vi.mocked(hooks.useClaimNext);
+  const mockUsePermissions = vi.mocked(hooks.usePermissions);
+  const mockUseSlaPolicy = vi.mocked(hooks.useSlaPolicy);
+  const mockUseWorkflowMetrics = vi.mocked(hooks.useWorkflowMetrics);
+  const mockUpdatePolicy = vi.fn();
+
+  const slaPolicy = {
+    priority_minutes: { "1": 120, "2": 240, "3": 480, "4": 1440, "5": 2880 },
+    risk_minutes: { CRITICAL: 120, HIGH: 240, MEDIUM: 1440, LOW: 2880 },
+    at_risk_percent: 25,
+    updated_at: null,
+    updated_by: null,
+  };
+
+  const workflowMetrics = {
+    avg_review_time: "45m",
+    total_claimed_today: 15,
+    total_resolved_today: 12,
+    escalation_rate: 0.05,
+    sla: {
+      compliance_rate: 0.9,
+      met: 18,
+      breached: 2,
+      open_breached: 1,
+      open_at_risk: 3,
+      by_priority: [{ key: "1", met: 18, breached: 2, compliance_rate: 0.9 }],
+      by_risk_level: [{ key: "HIGH", met: 18, breached: 2, compliance_rate: 0.9 }],
+    },
+  };
 
   // Mock data
   const mockWorklistItems = [
@@ -195,6 +227,7 @@ describe("WorklistList", () => {
     // Setup default hook mocks
     mockUseWorklist.mockReturnValue({
       items: mockWorklistItems,
+      connection: "live",
       total: 2,
       hasMore: false,
       nextCursor: null,
@@ -215,6 +248,26 @@ describe("WorklistList", () => {
       isClaiming: false,
     });
 
+    mockUsePermissions.mockReturnValue({
+      permissions: [],
+      capabilities: { canSuperviseReviews: false } as Capabilities,
+      isLoading: false,
+      error: null,
+    });
+    mockUseSlaPolicy.mockReturnValue({
+      policy: slaPolicy,
+      isLoading: false,
+      isSaving: false,
+      error: null,
+      updatePolicy: mockUpdatePolicy,
+    });
+    mockUseWorkflowMetrics.mockReturnValue({
+      metrics: workflowMetrics,
+      isLoading: false,
+      error: null,
+      refetch: vi.fn(),
+    });
+
     // Mock useGo
     const mockUseGo = vi.mocked(refineCore.useGo);
     mockUseGo.mockReturnValue(mockGo);
@@ -233,6 +286,15 @@ describe("WorklistList", () => {
       });
     });
 
+    it("shows the live connection state and subscribes both hooks to live updates", async () => {
+      render(<WorklistList />);
+      await waitFor(() => {
+        expect(screen.getByText("Live")).toBeInTheDocument();
+      });
+      expect(mockUseWorklist.mock.calls[0]?.[0]).toMatchObject({ live: true });
+      expect(mockUseWorklistStats.mock.calls[0]?.[2]).toMatchObject({ live: true });
+    });
+
     it("renders stats cards", async () => {
       render(<WorklistList />);
 
@@ -295,6 +357,7 @@ describe("WorklistList", () => {
     it("shows loading state when isLoading is true", async () => {
       mockUseWorklist.mockReturnValue({
         items: [],
+        connection: "live",
         total: 0,
         hasMore: false,
         nextCursor: null,
@@ -860,6 +923,7 @@ describe("WorklistList", () => {
     it("should handle empty worklist gracefully", async () => {
       mockUseWorklist.mockReturnValue({
         items: [],
+        connection: "live",
         total: 0,
         hasMore: false,
         nextCursor: null,
@@ -882,6 +946,7 @@ describe("WorklistList", () => {
       const error = new Error("Failed to fetch worklist");
       mockUseWorklist.mockReturnValue({
         items: [],
+        connection: "live",
         total: 0,
         hasMore: false,
         nextCursor: null,
@@ -947,4 +1012,98 @@ describe("WorklistList", () => {
       // For now, we just verify the component handles re-renders gracefully
     });
   });
+
+  describe("SLA tracking", () => {
+    const minutesAgo = (minutes: number): string =>
+      new Date(Date.now() - minutes * 60_000).toISOString();
+
+    const getSlaColumnSorter = (): HTMLElement =>
+      screen
+        .getAllByText("SLA")
+        .find((el) => el.closest("th") != null)
+        ?.closest("th") as HTMLElement;
+
+    beforeEach(() => {
+      mockUseWorklist.mockReturnValue({
+        items: [
+          { ...mockWorklistItems[0], created_at: minutesAgo(29.5) },
+          { ...mockWorklistItems[1], created_at: minutesAgo(150) },
+        ],
+        connection: "live",
+        total: 2,
+        hasMore: false,
+        nextCursor: null,
+        isLoading: false,
+        error: null,
+        refetch: mockRefetch,
+      });
+    });
+
+    it("counts down to each review's deadline and flags breaches", async () => {
+      render(<WorklistList />);
+
+      expect(await screen.findByText("1h 30m left")).toBeInTheDocument();
+      expect(screen.getByText("Breached · 30m over")).toBeInTheDocument();
+    });
+
+    it("asks the server to sort the whole queue by time to breach", async () => {
+      render(<WorklistList />);
+      await screen.findByText("1h 30m left");
+      expect(mockUseWorklist).toHaveBeenLastCalledWith(
+        expect.objectContaining({ filters: expect.objectContaining({ sort: undefined }) })
+      );
+
+      fireEvent.click(getSlaColumnSorter());
+
+      await waitFor(() => {
+        expect(mockUseWorklist).toHaveBeenLastCalledWith(
+          expect.objectContaining({ filters: expect.objectContaining({ sort: "time_to_breach" }) })
+        );
+      });
+      expect(getSlaColumnSorter()).toHaveAttribute("aria-sort", "ascending");
+
+      fireEvent.click(getSlaColumnSorter());
+
+      await waitFor(() => {
+        expect(mockUseWorklist).toHaveBeenLastCalledWith(
+          expect.objectContaining({ filters: expect.objectContaining({ sort: undefined }) })
+        );
+      });
+    });
+
+    it("hides SLA compliance and targets from analysts", async () => {
+      render(<WorklistList />);
+      await screen.findByText("1h 30m left");
+
+      expect(screen.queryByText("SLA compliance")).not.toBeInTheDocument();
+      expect(screen.queryByRole("button", { name: /SLA targets/ })).not.toBeInTheDocument();
+      expect(mockUseWorkflowMetrics).toHaveBeenCalledWith(false, 60000);
+    });
+
+    it("shows supervisors SLA compliance and saves new targets", async () => {
+      mockUsePermissions.mockReturnValue({
+        permissions: [],
+        capabilities: { canSuperviseReviews: true } as Capabilities,
+        isLoading: false,
+        error: null,
+      });
+      mockUpdatePolicy.mockResolvedValue(slaPolicy);
+      render(<WorklistList />);
+
+      expect(await screen.findByText("SLA compliance")).toBeInTheDocument();
+      expect(screen.getByText("90.0%")).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole("button", { name: /SLA targets/ }));
+      fireEvent.click(await screen.findByRole("button", { name: "Save" }));
+
+      await waitFor(() => {
+        expect(mockUpdatePolicy).toHaveBeenCalledWith(
+          expect.objectContaining({ at_risk_percent: 25 })
+        );
+      });
+      await waitFor(() => {
+        expect(antd.message.success).toHaveBeenCalledWith("SLA targets updated");
+      });
+    });
+  });
 });
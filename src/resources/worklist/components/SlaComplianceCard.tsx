@@ -0,0 +1,125 @@
+/**
+ * SlaComplianceCard Component
+ *
+ * SLA compliance from the workflow metrics: the share of resolved reviews
+ * that met their target, broken down by priority and risk level, and how many
+ * open reviews are at risk or already breached.
+ */
+
+import type { FC, ReactNode } from "react";
+import { Alert, Card, Col, Progress, Row, Statistic, Table, Tag } from "antd";
+import { ExclamationCircleOutlined, FieldTimeOutlined } from "@ant-design/icons";
+import type { ColumnsType } from "antd/es/table";
+import type { RiskLevel } from "../../../types/review";
+import type { SlaCompliance, SlaComplianceBreakdown, WorkflowMetrics } from "../../../types/sla";
+import { PRIORITY_CONFIG, RISK_LEVEL_CONFIG } from "../../../types/worklist";
+import "./sla.css";
+
+const RISK_ORDER = Object.keys(RISK_LEVEL_CONFIG);
+
+const NO_COMPLIANCE: SlaCompliance = {
+  compliance_rate: null,
+  met: 0,
+  breached: 0,
+  open_breached: 0,
+  open_at_risk: 0,
+  by_priority: [],
+  by_risk_level: [],
+};
+
+const formatRate = (rate: number | null): string =>
+  rate == null ? "N/A" : `${(rate * 100).toFixed(1)}%`;
+
+function buildBreakdownColumns(
+  title: string,
+  renderKey: (key: string) => ReactNode
+): ColumnsType<SlaComplianceBreakdown> {
+  return [
+    { title, dataIndex: "key", key: "key", render: renderKey },
+    { title: "Met", dataIndex: "met", key: "met", align: "right" },
+    { title: "Breached", dataIndex: "breached", key: "breached", align: "right" },
+    {
+      title: "Compliance",
+      dataIndex: "compliance_rate",
+      key: "compliance_rate",
+      width: 160,
+      render: (rate: number | null) =>
+        rate == null ? "N/A" : <Progress percent={Math.round(rate * 1000) / 10} size="small" />,
+    },
+  ];
+}
+
+const PRIORITY_COLUMNS = buildBreakdownColumns("Priority", (key) => {
+  const config = PRIORITY_CONFIG[Number(key)];
+  return <Tag color={config?.color}>{config?.label ?? `P${key}`}</Tag>;
+});
+
+const RISK_COLUMNS = buildBreakdownColumns("Risk", (key) => {
+  const config = RISK_LEVEL_CONFIG[key as RiskLevel];
+  return <Tag color={config?.color}>{config?.label ?? key}</Tag>;
+});
+
+export interface SlaComplianceCardProps {
+  metrics: WorkflowMetrics | null;
+  isLoading: boolean;
+  error: Error | null;
+}
+
+export const SlaComplianceCard: FC<SlaComplianceCardProps> = ({ metrics, isLoading, error }) => {
+  if (error != null) {
+    return <Alert type="error" showIcon message="Could not load SLA compliance" />;
+  }
+
+  const sla = metrics?.sla ?? NO_COMPLIANCE;
+  const byRisk = [...sla.by_risk_level].sort(
+    (a, b) => RISK_ORDER.indexOf(a.key) - RISK_ORDER.indexOf(b.key)
+  );
+
+  return (
+    <Card size="small" title="SLA compliance" loading={isLoading && metrics == null}>
+      <Row gutter={16} className="stats-row">
+        <Col span={6}>
+          <Statistic
+            title="Resolved within SLA"
+            value={formatRate(sla.compliance_rate)}
+            prefix={<FieldTimeOutlined />}
+          />
+        </Col>
+        <Col span={6}>
+          <Statistic title="Met / breached" value={`${sla.met} / ${sla.breached}`} />
+        </Col>
+        <Col span={6}>
+          <Statistic title="Open, at risk" value={sla.open_at_risk} className="sla-stat-at-risk" />
+        </Col>
+        <Col span={6}>
+          <Statistic
+            title="Open, breached"
+            value={sla.open_breached}
+            prefix={<ExclamationCircleOutlined />}
+            className="sla-stat-breached"
+          />
+        </Col>
+      </Row>
+      <Row gutter={16}>
+        <Col span={12}>
+          <Table
+            columns={PRIORITY_COLUMNS}
+            dataSource={sla.by_priority}
+            rowKey="key"
+            size="small"
+            pagination={false}
+          />
+        </Col>
+        <Col span={12}>
+          <Table
+            columns={RISK_COLUMNS}
+            dataSource={byRisk}
+            rowKey="key"
+            size="small"
+            pagination={false}
+          />
+        </Col>
+      </Row>
+    </Card>
+  );
+};
@@ -0,0 +1,101 @@
+/**
+ * SlaPolicyModal Component
+ *
+ * Lets a supervisor set the SLA target for each priority and risk level, and
+ * how close to its target a review is flagged as at risk.
+ */
+
+import type { FC } from "react";
+import { Col, Form, InputNumber, Modal, Row, Typography } from "antd";
+import type { RiskLevel } from "../../../types/review";
+import type { SlaPolicy, SlaPolicyUpdate } from "../../../types/sla";
+import { PRIORITY_CONFIG, RISK_LEVEL_CONFIG } from "../../../types/worklist";
+import "./sla.css";
+
+const { Text } = Typography;
+
+const PRIORITIES = Object.keys(PRIORITY_CONFIG);
+const RISK_LEVELS = Object.keys(RISK_LEVEL_CONFIG) as RiskLevel[];
+
+const TARGET_RULES = [{ required: true, message: "Enter a target" }];
+
+export interface SlaPolicyModalProps {
+  open: boolean;
+  policy: SlaPolicy;
+  saving: boolean;
+  onCancel: () => void;
+  onSave: (update: SlaPolicyUpdate) => void;
+}
+
+export const SlaPolicyModal: FC<SlaPolicyModalProps> = ({
+  open,
+  policy,
+  saving,
+  onCancel,
+  onSave,
+}) => {
+  const [form] = Form.useForm<SlaPolicyUpdate>();
+
+  const handleOk = (): void => {
+    void form
+      .validateFields()
+      .then(onSave)
+      .catch(() => {
+        // Validation errors are shown by the form
+      });
+  };
+
+  return (
+    <Modal
+      title="SLA targets"
+      open={open}
+      onOk={handleOk}
+      onCancel={onCancel}
+      confirmLoading={saving}
+      okText="Save"
+      destroyOnHidden
+    >
+      <Form form={form} layout="vertical" initialValues={policy}>
+        <Text type="secondary">
+          A review must be resolved within the stricter of its priority and risk level targets,
+          counted from when it entered the queue.
+        </Text>
+        <Row gutter={16} className="sla-policy-targets">
+          <Col span={12}>
+            <Text strong>By priority</Text>
+            {PRIORITIES.map((priority) => (
+              <Form.Item
+                key={priority}
+                name={["priority_minutes", priority]}
+                label={PRIORITY_CONFIG[Number(priority)]?.label}
+                rules={TARGET_RULES}
+              >
+                <InputNumber min={1} precision={0} addonAfter="min" className="full-width" />
+              </Form.Item>
+            ))}
+          </Col>
+          <Col span={12}>
+            <Text strong>By risk level</Text>
+            {RISK_LEVELS.map((level) => (
+              <Form.Item
+                key={level}
+                name={["risk_minutes", level]}
+                label={RISK_LEVEL_CONFIG[level].label}
+                rules={TARGET_RULES}
+              >
+                <InputNumber min={1} precision={0} addonAfter="min" className="full-width" />
+              </Form.Item>
+            ))}
+          </Col>
+        </Row>
+        <Form.Item
+          name="at_risk_percent"
+          label="Flag as at risk when this much of the target remains"
+          rules={TARGET_RULES}
+        >
+          <InputNumber min={1} max={99} precision={0} addonAfter="%" />
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+};
@@ -0,0 +1,36 @@
+/**
+ * WorklistConnectionTag Component
+ *
+ * Shows whether the worklist is receiving live updates or polling.
+ */
+
+import type { FC } from "react";
+import { Tag, Tooltip } from "antd";
+import { SyncOutlined, ThunderboltOutlined } from "@ant-design/icons";
+import type { WorklistConnectionMode } from "../../../types/worklist";
+
+export interface WorklistConnectionTagProps {
+  mode: WorklistConnectionMode;
+}
+
+export const WorklistConnectionTag: FC<WorklistConnectionTagProps> = ({ mode }) => {
+  if (mode === "live") {
+    return (
+      <Tooltip title="Review changes appear as they happen">
+        <Tag color="success" icon={<ThunderboltOutlined />}>
+          Live
+        </Tag>
+      </Tooltip>
+    );
+  }
+  if (mode === "connecting") {
+    return <Tag icon={<SyncOutlined spin />}>Connecting</Tag>;
+  }
+  return (
+    <Tooltip title="Live updates are unavailable; the worklist refreshes every minute">
+      <Tag color="warning" icon={<SyncOutlined />}>
+        Polling
+      </Tag>
+    </Tooltip>
+  );
+};
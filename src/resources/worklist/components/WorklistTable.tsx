@@ -1,7 +1,9 @@
 /**
  * WorklistTable Component
  *
- * Table component for displaying worklist items with all columns.
+ * Table component for displaying worklist items with all columns. The SLA
+ * column counts down to each review's deadline; sorting it asks the server to
+ * order the whole queue by time to breach.
  */
 
 import { useMemo, type FC } from "react";
@@ -10,7 +12,10 @@ import { EyeOutlined } from "@ant-design/icons";
 import type { ColumnsType } from "antd/es/table";
 import type { WorklistItem } from "../../../types/worklist";
 import type { TransactionStatus, RiskLevel } from "../../../types/review";
-import { StatusBadge, RiskLevelBadge, PriorityBadge } from "../../../components/review";
+import type { SlaPolicy } from "../../../types/sla";
+import { StatusBadge, RiskLevelBadge, PriorityBadge, SlaBadge } from "../../../components/review";
+import { useSlaClock } from "../../../hooks/useReviewSla";
+import { evaluateSla } from "../../../shared/utils/sla";
 import { getDecisionColor } from "../../../theme/tokens";
 import { formatCurrency, formatTimeInQueue } from "../../../shared/utils/format";
 import { buildShowTotal } from "../../../shared/utils/filters";
@@ -21,6 +26,9 @@ export interface WorklistTableProps {
   items: WorklistItem[];
   total: number;
   isLoading: boolean;
+  slaPolicy: SlaPolicy;
+  sortByTimeToBreach: boolean;
+  onSortByTimeToBreachChange: (sorted: boolean) => void;
   onViewTransaction: (transactionId: string) => void;
   onAssignToMe: (transactionId: string) => void;
   onStartReview: (transactionId: string) => void;
@@ -32,7 +40,8 @@ export interface WorklistTableProps {
 function buildWorklistColumns(
   onViewTransaction: (transactionId: string) => void,
   onAssignToMe: (transactionId: string) => void,
-  onStartReview: (transactionId: string) => void
+  onStartReview: (transactionId: string) => void,
+  sla: { policy: SlaPolicy; now: number; sorted: boolean }
 ): ColumnsType<WorklistItem> {
   return [
     {
@@ -50,6 +59,16 @@ function buildWorklistColumns(
       width: 100,
       render: (status: TransactionStatus) => <StatusBadge status={status} />,
     },
+    {
+      title: "SLA",
+      key: "sla",
+      width: 150,
+      render: (_, record) => <SlaBadge evaluation={evaluateSla(record, sla.policy, sla.now)} />,
+      sorter: true,
+      sortOrder: sla.sorted ? "ascend" : null,
+      sortDirections: ["ascend"],
+      showSorterTooltip: { title: "Sort the whole queue by time to breach" },
+    },
     {
       title: "Risk",
       dataIndex: "risk_level",
@@ -154,13 +173,22 @@ export const WorklistTable: FC<WorklistTableProps> = ({
   items,
   total,
   isLoading,
+  slaPolicy,
+  sortByTimeToBreach,
+  onSortByTimeToBreachChange,
   onViewTransaction,
   onAssignToMe,
   onStartReview,
 }) => {
+  const now = useSlaClock();
   const columns = useMemo(
-    () => buildWorklistColumns(onViewTransaction, onAssignToMe, onStartReview),
-    [onViewTransaction, onAssignToMe, onStartReview]
+    () =>
+      buildWorklistColumns(onViewTransaction, onAssignToMe, onStartReview, {
+        policy: slaPolicy,
+        now,
+        sorted: sortByTimeToBreach,
+      }),
+    [onViewTransaction, onAssignToMe, onStartReview, slaPolicy, now, sortByTimeToBreach]
   );
 
   return (
@@ -170,8 +198,12 @@ export const WorklistTable: FC<WorklistTableProps> = ({
       rowKey="review_id"
       loading={isLoading}
       size="small"
-      scroll={{ x: 1200, y: 600 }}
+      scroll={{ x: 1350, y: 600 }}
       virtual={true}
+      onChange={(_pagination, _filters, sorter) => {
+        const sort = Array.isArray(sorter) ? sorter[0] : sorter;
+        onSortByTimeToBreachChange(sort?.columnKey === "sla" && sort.order === "ascend");
+      }}
       pagination={{
         total,
         pageSize: 20,
@@ -7,6 +7,12 @@
 export { WorklistFilters } from "./WorklistFilters";
 export { WorklistTable } from "./WorklistTable";
 export { WorklistStatsCards } from "./WorklistStatsCards";
+export { WorklistConnectionTag } from "./WorklistConnectionTag";
+export { SlaComplianceCard } from "./SlaComplianceCard";
+export { SlaPolicyModal } from "./SlaPolicyModal";
 export type { WorklistFiltersProps } from "./WorklistFilters";
 export type { WorklistTableProps } from "./WorklistTable";
 export type { WorklistStatsCardsProps } from "./WorklistStatsCards";
+export type { WorklistConnectionTagProps } from "./WorklistConnectionTag";
+export type { SlaComplianceCardProps } from "./SlaComplianceCard";
+export type { SlaPolicyModalProps } from "./SlaPolicyModal";
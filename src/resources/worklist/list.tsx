@@ -1,26 +1,45 @@
 /**
  * Worklist List Page
  *
- * Analyst worklist/queue for reviewing transactions.
+ * Analyst worklist/queue for reviewing transactions. Supervisors also see SLA
+ * compliance and can change the SLA targets.
  */
 
 import { useState, useCallback, useMemo, type FC } from "react";
 import { Button, Card, Space, Typography, message } from "antd";
+import { FieldTimeOutlined } from "@ant-design/icons";
 import { useGetIdentity, useGo } from "@refinedev/core";
 import "./worklist.css";
 import "../worklist/components/worklist-filters.css";
 import type { TransactionStatus, RiskLevel } from "../../types/review";
+import type { SlaPolicyUpdate } from "../../types/sla";
 import { patch } from "../../api/httpClient";
 import {
   getInitialFilters,
+  getInitialSort,
   getQuickViews,
   applyQuickViewToState,
   matchQuickView,
   type WorklistFiltersState,
 } from "./utils/filters";
 import { REVIEW } from "../../api/endpoints";
-import { useWorklist, useWorklistStats, useClaimNext } from "../../hooks";
-import { WorklistFilters, WorklistTable, WorklistStatsCards } from "./components";
+import {
+  useWorklist,
+  useWorklistStats,
+  useClaimNext,
+  usePermissions,
+  useSlaPolicy,
+  useWorkflowMetrics,
+} from "../../hooks";
+import { SaveViewButton } from "../../components/savedViews";
+import {
+  SlaComplianceCard,
+  SlaPolicyModal,
+  WorklistConnectionTag,
+  WorklistFilters,
+  WorklistTable,
+  WorklistStatsCards,
+} from "./components";
 
 const { Title } = Typography;
 
@@ -37,6 +56,9 @@ const WorklistList: FC = () => {
   const [riskFilter, setRiskFilter] = useState<RiskLevel | null>(initialFilters.risk);
   const [priorityFilter, setPriorityFilter] = useState<number | null>(initialFilters.priority);
   const [assignedToMe, setAssignedToMe] = useState(initialFilters.assignedOnly);
+  const [sortByTimeToBreach, setSortByTimeToBreach] = useState(
+    () => getInitialSort() === "time_to_breach"
+  );
 
   const quickViews: Array<{ key: string; label: string; filters: Partial<WorklistFiltersState> }> =
     useMemo(() => getQuickViews(), []);
@@ -74,18 +96,45 @@ const WorklistList: FC = () => {
       risk_level_filter: riskFilter ?? undefined,
       priority_filter: priorityFilter ?? undefined,
       assigned_only: assignedToMe,
+      sort: sortByTimeToBreach ? ("time_to_breach" as const) : undefined,
     }),
-    [statusFilter, riskFilter, priorityFilter, assignedToMe]
+    [statusFilter, riskFilter, priorityFilter, assignedToMe, sortByTimeToBreach]
   );
 
-  const { items, total, isLoading, refetch } = useWorklist({
+  const { data: identity } = useGetIdentity<{ id: string; name?: string }>();
+  const currentUserId = identity?.id ?? null;
+
+  const { items, total, isLoading, connection, refetch } = useWorklist({
     filters,
     refreshIntervalMs: 60000,
+    live: true,
+    currentUserId,
   });
 
-  const { stats } = useWorklistStats(true, 60000);
+  const { stats } = useWorklistStats(true, 60000, { live: true, currentUserId });
   const { claimNext, isClaiming } = useClaimNext();
-  const { data: identity } = useGetIdentity<{ id: string; name?: string }>();
+
+  const { capabilities } = usePermissions();
+  const canSupervise = capabilities.canSuperviseReviews;
+  const { policy: slaPolicy, isSaving: isSavingSla, updatePolicy } = useSlaPolicy();
+  const workflowMetrics = useWorkflowMetrics(canSupervise, 60000);
+  const [slaModalOpen, setSlaModalOpen] = useState(false);
+  const refetchWorkflowMetrics = workflowMetrics.refetch;
+
+  const handleSaveSlaPolicy = useCallback(
+    (update: SlaPolicyUpdate): void => {
+      updatePolicy(update)
+        .then(() => {
+          void message.success("SLA targets updated");
+          setSlaModalOpen(false);
+          refetchWorkflowMetrics();
+        })
+        .catch(() => {
+          void message.error("Failed to update SLA targets");
+        });
+    },
+    [updatePolicy, refetchWorkflowMetrics]
+  );
 
   const handleClaimNext = useCallback((): void => {
     const request = {
@@ -155,12 +204,28 @@ const WorklistList: FC = () => {
 
   return (
     <Space direction="vertical" size="middle" className="full-width">
-      <Title level={4} className="title-no-margin">
-        Worklist
-      </Title>
+      <Space align="center">
+        <Title level={4} className="title-no-margin">
+          Worklist
+        </Title>
+        <WorklistConnectionTag mode={connection} />
+        {canSupervise && (
+          <Button size="small" icon={<FieldTimeOutlined />} onClick={() => setSlaModalOpen(true)}>
+            SLA targets
+          </Button>
+        )}
+      </Space>
 
       <WorklistStatsCards stats={stats} />
 
+      {canSupervise && (
+        <SlaComplianceCard
+          metrics={workflowMetrics.metrics}
+          isLoading={workflowMetrics.isLoading}
+          error={workflowMetrics.error}
+        />
+      )}
+
       <Card size="small">
         <Space direction="vertical" size="small" className="full-width">
           <Space wrap align="center">
@@ -180,6 +245,7 @@ const WorklistList: FC = () => {
             <Button size="small" type="link" onClick={handleClearFilters}>
               Clear
             </Button>
+            <SaveViewButton target="worklist" getFilters={() => filters} />
           </Space>
 
           <WorklistFilters
@@ -201,12 +267,23 @@ const WorklistList: FC = () => {
             items={items}
             total={total}
             isLoading={isLoading}
+            slaPolicy={slaPolicy}
+            sortByTimeToBreach={sortByTimeToBreach}
+            onSortByTimeToBreachChange={setSortByTimeToBreach}
             onViewTransaction={handleViewTransaction}
             onAssignToMe={handleAssignToMe}
             onStartReview={handleStartReview}
           />
         </Space>
       </Card>
+
+      <SlaPolicyModal
+        open={slaModalOpen}
+        policy={slaPolicy}
+        saving={isSavingSla}
+        onCancel={() => setSlaModalOpen(false)}
+        onSave={handleSaveSlaPolicy}
+      />
     </Space>
   );
 };
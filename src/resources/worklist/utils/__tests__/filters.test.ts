@@ -1,6 +1,7 @@
 import { describe, it, expect } from "vitest";
 import {
   getInitialFilters,
+  getInitialSort,
   getQuickViews,
   applyQuickViewToState,
   matchQuickView,
@@ -36,4 +37,13 @@ describe("worklist filter utils", () => {
     expect(f).toHaveProperty("priority");
     expect(f).toHaveProperty("assignedOnly");
   });
+
+  it("reads the time to breach ordering from the URL", () => {
+    const previous = globalThis.location.href;
+    globalThis.history.pushState({}, "", "/worklist?sort=time_to_breach");
+    expect(getInitialSort()).toBe("time_to_breach");
+    globalThis.history.pushState({}, "", "/worklist?sort=unknown");
+    expect(getInitialSort()).toBeNull();
+    globalThis.history.pushState({}, "", previous);
+  });
 });
@@ -1,4 +1,5 @@
 import type { TransactionStatus, RiskLevel } from "../../../types/review";
+import type { WorklistSort } from "../../../types/worklist";
 
 export type WorklistFiltersState = {
   status: TransactionStatus | null;
@@ -27,6 +28,14 @@ export function getInitialFilters(): WorklistFiltersState {
   };
 }
 
+/**
+ * Server-side ordering from the URL, as written by saved worklist views
+ */
+export function getInitialSort(): WorklistSort | null {
+  const sort = new URLSearchParams(globalThis.location.search).get("sort");
+  return sort === "time_to_breach" ? sort : null;
+}
+
 export function getQuickViews(): Array<{
   key: string;
   label: string;
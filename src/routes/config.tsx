@@ -24,6 +24,11 @@ const RuleFieldCreate = lazy(() =>
 const RuleFieldEdit = lazy(() =>
   import("../resources/ruleFields/edit").then((m) => ({ default: m.RuleFieldEdit }))
 );
+const FieldRegistryVersions = lazy(() =>
+  import("../resources/ruleFields/registry").then((m) => ({
+    default: m.FieldRegistryVersions,
+  }))
+);
 
 const RuleList = lazy(() =>
   import("../resources/rules/list").then((m) => ({ default: m.RuleList }))
@@ -88,6 +93,10 @@ const CasesCreate = lazy(() =>
   import("../resources/cases/create").then((m) => ({ default: m.default }))
 );
 
+const TeamWorkload = lazy(() =>
+  import("../resources/team/workload").then((m) => ({ default: m.default }))
+);
+
 // Analyst home
 const AnalystHome = lazy(() =>
   import("../resources/home/AnalystHome").then((m) => ({ default: m.default }))
@@ -107,6 +116,7 @@ import { getCommandPaletteRoutes as getRoutesForPalette } from "./utils";
 const RuleFieldListPage = withSuspense(() => <RuleFieldList />);
 const RuleFieldCreatePage = withSuspense(() => <RuleFieldCreate />);
 const RuleFieldEditPage = withSuspense(() => <RuleFieldEdit />);
+const FieldRegistryVersionsPage = withSuspense(() => <FieldRegistryVersions />);
 
 const RuleListPage = withSuspense(() => <RuleList />);
 const RuleCreatePage = withSuspense(() => <RuleCreate />);
@@ -133,6 +143,7 @@ const CasesListPage = withSuspense(() => <CasesList />);
 const CasesShowPage = withSuspense(() => <CasesShow />);
 const CasesCreatePage = withSuspense(() => <CasesCreate />);
 
+const TeamWorkloadPage = withSuspense(() => <TeamWorkload />);
 const AnalystHomePage = withSuspense(() => <AnalystHome />);
 const ErrorPage = withSuspense(() => <ErrorComponent />);
 
@@ -171,6 +182,7 @@ export const routeConfig: RouteConfig[] = [
           { index: true, path: "", element: <RuleFieldListPage /> },
           { path: "create", element: <RuleFieldCreatePage /> },
           { path: "edit/:id", element: <RuleFieldEditPage /> },
+          { path: "registry", element: <FieldRegistryVersionsPage /> },
         ],
       },
       // Rules
@@ -245,6 +257,13 @@ export const routeConfig: RouteConfig[] = [
           { path: "show/:id", element: <CasesShowPage /> },
         ],
       },
+      // Team Workload
+      {
+        path: "team-workload",
+        element: <Outlet />,
+        meta: { title: "Team Workload", permissions: ["supervise:reviews"] },
+        children: [{ index: true, path: "", element: <TeamWorkloadPage /> }],
+      },
       // Transaction Metrics
       {
         path: "transaction-metrics",
@@ -2,12 +2,15 @@
  * JsonViewer Component
  *
  * Displays JSON data in a formatted, read-only view.
- * Used for displaying AST, condition trees, and audit data.
+ * Used for displaying AST, condition trees, and audit data. Values of
+ * sensitive fields are masked; callers pass the keys from `useSensitiveData`,
+ * and without them every value is masked.
  */
 
-import type { FC, CSSProperties } from "react";
+import type { FC, CSSProperties, ReactNode } from "react";
 import { Typography, Card } from "antd";
 import { safeJsonStringify } from "../utils/json";
+import { MASK_ALL_KEYS, maskSensitiveValues } from "../utils/sensitiveData";
 import "./json-viewer.css";
 
 const { Paragraph } = Typography;
@@ -17,12 +20,16 @@ export interface JsonViewerProps {
   data: unknown;
   /** Optional title */
   title?: string;
+  /** Extra content in the card header; only shown with a title */
+  extra?: ReactNode;
   /** Whether to show copy button */
   copyable?: boolean;
   /** Custom style */
   style?: CSSProperties;
   /** Maximum height (enables scrolling) */
   maxHeight?: number;
+  /** Sensitive field keys whose values are masked; defaults to masking every value */
+  sensitiveKeys?: ReadonlySet<string>;
 }
 
 /**
@@ -31,11 +38,13 @@ export interface JsonViewerProps {
 export const JsonViewer: FC<JsonViewerProps> = ({
   data,
   title,
+  extra,
   copyable = true,
   style: _style,
   maxHeight,
+  sensitiveKeys = MASK_ALL_KEYS,
 }) => {
-  const jsonString = safeJsonStringify(data, true);
+  const jsonString = safeJsonStringify(maskSensitiveValues(data, sensitiveKeys).value, true);
 
   const containerClass = typeof maxHeight === "number" ? `jsonviewer-max-${maxHeight}` : "";
 
@@ -47,7 +56,7 @@ export const JsonViewer: FC<JsonViewerProps> = ({
 
   if (title != null && title !== "") {
     return (
-      <Card title={title} size="small" variant="outlined" className={containerClass}>
+      <Card title={title} extra={extra} size="small" variant="outlined" className={containerClass}>
         {content}
       </Card>
     );
@@ -3,7 +3,7 @@
  *
  * Density-first layout for rule authoring and analyst review.
  * - Compact sidebar with all resource menus grouped
- * - Minimal header with user info
+ * - Minimal header with notifications and user info
  * - Maximum content area for data
  */
 
@@ -34,6 +34,7 @@ import {
   DownOutlined,
   CheckOutlined,
   ExperimentOutlined,
+  TeamOutlined,
 } from "@ant-design/icons";
 import { useLocation, useNavigate } from "react-router";
 import { useGetIdentity, useLogout } from "@refinedev/core";
@@ -41,6 +42,7 @@ import { usePermissions } from "../../../hooks/usePermissions";
 import { getActiveUserRole, setActiveUserRole } from "../../../app/authProvider";
 import type { SystemRole } from "../../../types/domain";
 import { NetworkStatusIndicator } from "../NetworkStatusIndicator";
+import { NotificationBell } from "../../../components/notifications";
 import "./Layout.css";
 
 const { Sider, Header, Content } = Layout;
@@ -92,14 +94,25 @@ const ROLE_DISPLAY_LABELS: Record<string, string> = {
   PLATFORM_ADMIN: "Platform Admin",
 };
 
-const FRAUD_OPERATIONS_MENU = getMenuGroup("Fraud Operations", [
+const FRAUD_OPERATIONS_ITEMS: MenuItem[] = [
   getMenuItem("/worklist", <UnorderedListOutlined />, "Worklist"),
   getMenuItem("/ops-analyst/recommendations", <ExperimentOutlined />, "AI Recommendations"),
   getMenuItem("/transactions", <DollarOutlined />, "All Transactions"),
   getMenuItem("/cases", <ContainerOutlined />, "Cases"),
   getMenuItem("/transaction-metrics", <BarChartOutlined />, "Metrics"),
+];
+
+const FRAUD_OPERATIONS_MENU = getMenuGroup("Fraud Operations", FRAUD_OPERATIONS_ITEMS);
+
+// Supervisors also get the team workload dashboard
+const SUPERVISOR_OPERATIONS_MENU = getMenuGroup("Fraud Operations", [
+  ...FRAUD_OPERATIONS_ITEMS,
+  getMenuItem("/team-workload", <TeamOutlined />, "Team Workload"),
 ]);
 
+const getOperationsMenu = (canSupervise: boolean): MenuItem =>
+  canSupervise ? SUPERVISOR_OPERATIONS_MENU : FRAUD_OPERATIONS_MENU;
+
 const MENU_ITEMS: MenuItem[] = [RULE_MANAGEMENT_MENU, FRAUD_OPERATIONS_MENU];
 
 function SidebarMenu({
@@ -179,6 +192,8 @@ function HeaderBar({
 
       <NetworkStatusIndicator />
 
+      <NotificationBell />
+
       <Dropdown menu={{ items: userMenuItems }} trigger={["click"]} placement="bottomRight">
         <Button type="text" loading={isLoggingOut} className="user-button">
           <Space size={8}>
@@ -239,7 +254,7 @@ export const EnterpriseLayout: FC<EnterpriseLayoutProps> = ({ children }) => {
       items.push(RULE_MANAGEMENT_MENU);
     }
     if (canAccessOps) {
-      items.push(FRAUD_OPERATIONS_MENU);
+      items.push(getOperationsMenu(capabilities.canSuperviseReviews));
     }
 
     return items.length > 0 ? items : MENU_ITEMS;
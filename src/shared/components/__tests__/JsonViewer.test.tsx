@@ -4,7 +4,9 @@ import { JsonViewer } from "../JsonViewer";
 
 describe("JsonViewer component", () => {
   it("renders raw JSON without title in a simple container", () => {
-    const { container, getByText } = render(<JsonViewer data={{ a: 1 }} copyable={false} />);
+    const { container, getByText } = render(
+      <JsonViewer data={{ a: 1 }} copyable={false} sensitiveKeys={new Set()} />
+    );
     expect(getByText(/"a": 1/)).toBeTruthy();
     // when no title given, should not render AntD Card header
     expect(container.querySelector(".ant-card")).toBeFalsy();
@@ -15,4 +17,26 @@ describe("JsonViewer component", () => {
     // AntD Card should be present
     expect(container.querySelector(".ant-card")).toBeTruthy();
   });
+
+  it("masks values of sensitive fields when sensitive keys are given", () => {
+    const { getByText, queryByText } = render(
+      <JsonViewer
+        data={{ card_number: "4532015112830366", amount: 250 }}
+        copyable={false}
+        sensitiveKeys={new Set(["CARD_NUMBER"])}
+      />
+    );
+    expect(getByText(/"card_number": "••••••"/)).toBeTruthy();
+    expect(getByText(/"amount": 250/)).toBeTruthy();
+    expect(queryByText(/4532015112830366/)).toBeNull();
+  });
+
+  it("masks every value when no sensitive keys are given", () => {
+    const { getByText, queryByText } = render(
+      <JsonViewer data={{ card_number: "4532015112830366", amount: 250 }} copyable={false} />
+    );
+    expect(getByText(/"card_number": "••••••"/)).toBeTruthy();
+    expect(getByText(/"amount": "••••••"/)).toBeTruthy();
+    expect(queryByText(/4532015112830366/)).toBeNull();
+  });
 });
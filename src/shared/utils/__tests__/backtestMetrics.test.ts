@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { computeBacktestMetrics, formatRatio } from "../backtestMetrics";
+import type { RuleBacktestResponse } from "../../../api/types";
+
+function makeResult(overrides: Partial<RuleBacktestResponse> = {}): RuleBacktestResponse {
+  return {
+    backtest_id: "bt_1",
+    from_date: "2026-01-01",
+    to_date: "2026-01-10",
+    days: 10,
+    transactions_evaluated: 200,
+    match_count: 40,
+    confusion_matrix: {
+      true_positives: 18,
+      false_positives: 6,
+      false_negatives: 12,
+      true_negatives: 50,
+      unlabelled_matches: 16,
+      unlabelled_non_matches: 98,
+    },
+    sample_hits: [],
+    ...overrides,
+  };
+}
+
+describe("computeBacktestMetrics", () => {
+  it("computes precision, recall and alert volume", () => {
+    expect(computeBacktestMetrics(makeResult())).toEqual({
+      precision: 0.75,
+      recall: 0.6,
+      alertsPerDay: 4,
+      labelledMatchRate: 0.6,
+    });
+  });
+
+  it("returns null ratios when there is nothing labelled", () => {
+    const metrics = computeBacktestMetrics(
+      makeResult({
+        match_count: 0,
+        confusion_matrix: {
+          true_positives: 0,
+          false_positives: 0,
+          false_negatives: 0,
+          true_negatives: 0,
+          unlabelled_matches: 0,
+          unlabelled_non_matches: 5,
+        },
+      })
+    );
+
+    expect(metrics.precision).toBeNull();
+    expect(metrics.recall).toBeNull();
+    expect(metrics.labelledMatchRate).toBeNull();
+    expect(metrics.alertsPerDay).toBe(0);
+  });
+});
+
+describe("formatRatio", () => {
+  it("formats percentages", () => {
+    expect(formatRatio(0.756)).toBe("75.6%");
+    expect(formatRatio(null)).toBe("-");
+  });
+});
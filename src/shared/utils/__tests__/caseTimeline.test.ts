@@ -0,0 +1,183 @@
+import { describe, it, expect } from "vitest";
+import { buildCaseTimeline, filterCaseTimeline, listTimelineAnalysts } from "../caseTimeline";
+import type { CaseActivity } from "../../../types/case";
+import type { AnalystNote } from "../../../types/notes";
+import type { InsightDetail } from "../../../types/opsAnalyst";
+import type { TransactionReview } from "../../../types/review";
+
+const activity: CaseActivity = {
+  id: "act_1",
+  case_id: "case_1",
+  activity_type: "TRANSACTION_ADDED",
+  activity_description: "Transaction txn_1 added to case",
+  activity_data: { transaction_id: "txn_1" },
+  performed_by: "analyst_1",
+  performed_by_name: "Alice",
+  created_at: "2024-03-01T09:00:00Z",
+};
+
+const note: AnalystNote = {
+  id: "note_1",
+  transaction_id: "txn_1",
+  note_type: "CUSTOMER_CONTACT",
+  note_content: "Cardholder denies the purchase",
+  is_private: true,
+  is_system_generated: false,
+  analyst_id: "analyst_2",
+  analyst_name: "Bob",
+  analyst_email: null,
+  case_id: "case_1",
+  created_at: "2024-03-01T12:00:00Z",
+  updated_at: "2024-03-01T12:00:00Z",
+};
+
+const review: TransactionReview = {
+  id: "rev_1",
+  transaction_id: "txn_1",
+  status: "RESOLVED",
+  risk_level: "HIGH",
+  priority: 1,
+  assigned_analyst_id: "analyst_2",
+  assigned_analyst_name: "Bob",
+  assigned_at: "2024-03-01T10:00:00Z",
+  first_reviewed_at: "2024-03-01T11:00:00Z",
+  resolved_at: "2024-03-02T09:00:00Z",
+  resolved_by: "analyst_3",
+  resolution_code: "FRAUD_CONFIRMED",
+  resolution_notes: "Confirmed with issuer",
+  analyst_decision: null,
+  analyst_decision_reason: null,
+  case_id: "case_1",
+  escalated_at: "2024-03-01T13:00:00Z",
+  escalated_to: "supervisor_1",
+  escalation_reason: "Chargeback over threshold",
+  last_activity_at: null,
+  created_at: "2024-03-01T08:00:00Z",
+  updated_at: "2024-03-02T09:00:00Z",
+};
+
+const insight: InsightDetail = {
+  insight_id: "ins_1",
+  transaction_id: "txn_1",
+  severity: "HIGH",
+  summary: "Velocity spike from the same card",
+  insight_type: "pattern",
+  model_mode: "agentic",
+  generated_at: "2024-03-01T09:30:00Z",
+  evidence: [],
+};
+
+const timeline = buildCaseTimeline({
+  activities: [activity],
+  notes: [note],
+  reviews: [review],
+  insights: [insight],
+});
+
+describe("buildCaseTimeline", () => {
+  it("merges every source into one list, oldest first", () => {
+    expect(timeline.map((e) => [e.type, e.title])).toEqual([
+      ["REVIEW", "Review opened"],
+      ["ACTIVITY", "Transaction txn_1 added to case"],
+      ["INSIGHT", "AI insight (HIGH)"],
+      ["REVIEW", "Assigned to Bob"],
+      ["REVIEW", "Review started"],
+      ["NOTE", "Customer Contact note (private)"],
+      ["ESCALATION", "Escalated to supervisor_1"],
+      ["REVIEW", "Resolved as FRAUD_CONFIRMED"],
+    ]);
+  });
+
+  it("keeps the transaction each event came from", () => {
+    expect(timeline.every((e) => e.transaction_id === "txn_1")).toBe(true);
+  });
+
+  it("attributes the resolution to the resolving analyst", () => {
+    const resolved = timeline.find((e) => e.id === "review:rev_1:resolved");
+    expect(resolved).toMatchObject({
+      analyst_id: "analyst_3",
+      analyst_name: null,
+      description: "Confirmed with issuer",
+    });
+  });
+
+  it("only emits review milestones that were reached", () => {
+    const pending = buildCaseTimeline({
+      activities: [],
+      notes: [],
+      reviews: [
+        {
+          ...review,
+          assigned_at: null,
+          first_reviewed_at: null,
+          escalated_at: null,
+          resolved_at: null,
+        },
+      ],
+      insights: [],
+    });
+    expect(pending.map((e) => e.title)).toEqual(["Review opened"]);
+  });
+
+  it("orders events at the same instant by id", () => {
+    const sameTime = buildCaseTimeline({
+      activities: [
+        { ...activity, id: "b" },
+        { ...activity, id: "a" },
+      ],
+      notes: [],
+      reviews: [],
+      insights: [],
+    });
+    expect(sameTime.map((e) => e.id)).toEqual(["activity:a", "activity:b"]);
+  });
+});
+
+describe("filterCaseTimeline", () => {
+  it("keeps every event without filters", () => {
+    expect(filterCaseTimeline(timeline, { types: [], analystId: null })).toHaveLength(
+      timeline.length
+    );
+  });
+
+  it("filters by event type", () => {
+    const result = filterCaseTimeline(timeline, {
+      types: ["NOTE", "ESCALATION"],
+      analystId: null,
+    });
+    expect(result.map((e) => e.type)).toEqual(["NOTE", "ESCALATION"]);
+  });
+
+  it("filters by analyst, dropping events without one", () => {
+    const result = filterCaseTimeline(timeline, { types: [], analystId: "analyst_2" });
+    expect(result.map((e) => e.title)).toEqual([
+      "Assigned to Bob",
+      "Review started",
+      "Customer Contact note (private)",
+      "Escalated to supervisor_1",
+    ]);
+  });
+});
+
+describe("listTimelineAnalysts", () => {
+  it("lists each analyst once, sorted by name", () => {
+    expect(listTimelineAnalysts(timeline)).toEqual([
+      { id: "analyst_1", name: "Alice" },
+      { id: "analyst_3", name: "analyst_3" },
+      { id: "analyst_2", name: "Bob" },
+    ]);
+  });
+
+  it("prefers a name over the bare id", () => {
+    const events = buildCaseTimeline({
+      activities: [
+        { ...activity, id: "x", performed_by_name: null },
+        { ...activity, id: "y", created_at: "2024-03-02T00:00:00Z" },
+      ],
+      notes: [],
+      reviews: [],
+      insights: [],
+    });
+    expect(listTimelineAnalysts(events)).toEqual([{ id: "analyst_1", name: "Alice" }]);
+  });
+});
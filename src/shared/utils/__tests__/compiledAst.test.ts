@@ -0,0 +1,196 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildChecksumFile,
+  canonicalizeAst,
+  computeAstChecksum,
+  orderCompiledRules,
+  validateCompiledAst,
+  type RegistryField,
+} from "../compiledAst";
+import type { CompiledAST } from "../../../types/domain";
+import { Operator, RuleType } from "../../../types/enums";
+
+const fields: RegistryField[] = [
+  { field_key: "AMOUNT", allowed_operators: [Operator.GT, Operator.LT], is_active: true },
+  { field_key: "MCC", allowed_operators: [Operator.IN], is_active: false },
+];
+
+function makeAst(overrides: Partial<CompiledAST> = {}): CompiledAST {
+  return {
+    rulesetId: "rs_001",
+    version: 3,
+    ruleType: RuleType.BLOCKLIST,
+    evaluation: { mode: "FIRST_MATCH" },
+    registryVersion: 2,
+    rules: [
+      {
+        ruleId: "rule_b",
+        priority: 20,
+        when: { and: [{ field: "AMOUNT", op: Operator.GT, value: 100 }] },
+        action: "REVIEW",
+      },
+      {
+        ruleId: "rule_a",
+        priority: 10,
+        when: { and: [{ field: "AMOUNT", op: Operator.GT, value: 5000 }] },
+        action: "BLOCK",
+      },
+    ],
+    ...overrides,
+  };
+}
+
+const registry = { registry_version: 2, fields };
+
+describe("orderCompiledRules", () => {
+  it("orders rules by ascending priority without mutating the AST", () => {
+    const ast = makeAst();
+
+    expect(orderCompiledRules(ast.rules).map((r) => r.ruleId)).toEqual(["rule_a", "rule_b"]);
+    expect(ast.rules[0]?.ruleId).toBe("rule_b");
+  });
+});
+
+describe("validateCompiledAst", () => {
+  it("reports nothing when every field resolves in the registry", () => {
+    expect(validateCompiledAst(makeAst(), { registry, latestVersion: 2 })).toEqual([]);
+  });
+
+  it("reports fields missing from the registry version", () => {
+    const ast = makeAst({
+      rules: [
+        {
+          ruleId: "rule_a",
+          priority: 10,
+          when: {
+            and: [
+              { field: "RISK_SCORE", op: Operator.GT, value: 80 },
+              { or: [{ field: "RISK_SCORE", op: Operator.GT, value: 90 }] },
+            ],
+          },
+          action: "FLAG",
+        },
+      ],
+    });
+
+    expect(validateCompiledAst(ast, { registry, latestVersion: 2 })).toEqual([
+      {
+        severity: "error",
+        rule_id: "rule_a",
+        message: "rule_a references RISK_SCORE, which is not in field registry v2.",
+      },
+    ]);
+  });
+
+  it("reports disallowed operators and inactive fields", () => {
+    const ast = makeAst({
+      rules: [
+        {
+          ruleId: "rule_a",
+          priority: 10,
+          when: {
+            and: [
+              { field: "AMOUNT", op: Operator.EQ, value: 1 },
+              { field: "MCC", op: Operator.IN, value: ["7995"] },
+            ],
+          },
+          action: "BLOCK",
+        },
+      ],
+    });
+
+    expect(validateCompiledAst(ast, { registry, latestVersion: 2 }).map((i) => i.severity)).toEqual(
+      ["error", "warning"]
+    );
+  });
+
+  it("checks velocity group_by dimensions but not the aggregate itself", () => {
+    const ast = makeAst({
+      rules: [
+        {
+          ruleId: "rule_a",
+          priority: 10,
+          when: {
+            and: [
+              {
+                field: {
+                  type: "VELOCITY",
+                  aggregation: "COUNT",
+                  window: { value: 10, unit: "MINUTES" },
+                  group_by: ["AMOUNT", "CARD", "MCC"],
+                },
+                op: Operator.GT,
+                value: 5,
+              },
+            ],
+          },
+          action: "BLOCK",
+        },
+      ],
+    });
+
+    expect(validateCompiledAst(ast, { registry, latestVersion: 2 })).toEqual([
+      {
+        severity: "error",
+        rule_id: "rule_a",
+        message: "rule_a references CARD, which is not in field registry v2.",
+      },
+      {
+        severity: "warning",
+        rule_id: "rule_a",
+        message: "rule_a references MCC, which is inactive in registry v2.",
+      },
+    ]);
+  });
+
+  it("notes a newer registry and a missing registry version", () => {
+    const issues = validateCompiledAst(makeAst({ registryVersion: undefined }), {
+      registry,
+      latestVersion: 3,
+    });
+
+    expect(issues.map((i) => i.severity)).toEqual(["warning", "info"]);
+    expect(issues[1]?.message).toContain("v3 is the latest");
+  });
+
+  it("reports duplicate rules and an unavailable registry", () => {
+    const ast = makeAst();
+    const duplicated = makeAst({ rules: [...ast.rules, ast.rules[0]!] });
+
+    expect(validateCompiledAst(duplicated, { registry: null, latestVersion: null })).toEqual([
+      {
+        severity: "error",
+        rule_id: "rule_b",
+        message: "rule_b appears more than once in the compiled rules.",
+      },
+      {
+        severity: "error",
+        rule_id: null,
+        message: "The field registry could not be loaded; field references were not verified.",
+      },
+    ]);
+  });
+});
+
+describe("checksum", () => {
+  it("serializes independently of key order", () => {
+    const ast = makeAst();
+    const reordered = JSON.parse(
+      JSON.stringify({ rules: ast.rules, version: 3, ...ast })
+    ) as CompiledAST;
+
+    expect(canonicalizeAst(reordered)).toBe(canonicalizeAst(ast));
+  });
+
+  it("computes the SHA-256 of the canonical JSON", async () => {
+    const checksum = await computeAstChecksum(makeAst());
+
+    expect(checksum).toMatch(/^[0-9a-f]{64}$/);
+    expect(await computeAstChecksum(makeAst())).toBe(checksum);
+    expect(await computeAstChecksum(makeAst({ version: 4 }))).not.toBe(checksum);
+  });
+
+  it("formats the checksum file for sha256sum", () => {
+    expect(buildChecksumFile(makeAst(), "abc")).toBe("abc  rs_001-v3.ast.json\n");
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { mapWithConcurrency } from "../concurrency";
+
+const tick = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("mapWithConcurrency", () => {
+  it("keeps item order and never exceeds the limit", async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([1, 2, 3, 4, 5], 2, async (item) => {
+      inFlight += 1;
+      peak = Math.max(peak, inFlight);
+      await tick();
+      inFlight -= 1;
+      return item * 10;
+    });
+
+    expect(results).toEqual([10, 20, 30, 40, 50]);
+    expect(peak).toBe(2);
+  });
+
+  it("rejects with the first failure and starts no further calls", async () => {
+    const started: number[] = [];
+
+    await expect(
+      mapWithConcurrency([1, 2, 3, 4], 1, async (item) => {
+        started.push(item);
+        await tick();
+        if (item === 2) throw new Error("failed 2");
+        return item;
+      })
+    ).rejects.toThrow("failed 2");
+    expect(started).toEqual([1, 2]);
+  });
+
+  it("resolves an empty list without calling fn", async () => {
+    expect(await mapWithConcurrency([], 3, () => Promise.reject(new Error("called")))).toEqual([]);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyOperator,
+  evaluateConditionTree,
+  flattenPredicateTraces,
+  likePatternToRegExp,
+  velocityFieldKey,
+} from "../conditionEvaluator";
+import { LogicalOperator, Operator } from "../../../types/enums";
+import type { PersistedConditionTree, VelocityField } from "../../../types/domain";
+
+describe("applyOperator", () => {
+  it.each([
+    [Operator.EQ, 500, "500", true],
+    [Operator.EQ, "US", "GB", false],
+    [Operator.EQ, true, "true", true],
+    [Operator.NE, "US", "GB", true],
+    [Operator.GT, 501, 500, true],
+    [Operator.GT, 500, 500, false],
+    [Operator.GTE, 500, 500, true],
+    [Operator.LT, 99, 100, true],
+    [Operator.LTE, 101, 100, false],
+    [Operator.IN, "5967", ["7995", "5967"], true],
+    [Operator.IN, 5967, ["5967"], true],
+    [Operator.NOT_IN, "5411", ["7995", "5967"], true],
+    [Operator.LIKE, "Saturday night", "%Saturday%", true],
+    [Operator.LIKE, "Sunday", "Sun_ay", true],
+    [Operator.LIKE, "sunday", "Sunday", false],
+    [Operator.NOT_LIKE, "Monday", "%Saturday%", true],
+    [Operator.BETWEEN, 150, [100, 200], true],
+    [Operator.BETWEEN, 200, [100, 200], true],
+    [Operator.BETWEEN, 250, [100, 200], false],
+    [Operator.CONTAINS, "ACME STORE", "STORE", true],
+    [Operator.CONTAINS, ["A", "B"], "B", true],
+    [Operator.STARTS_WITH, "4532123412341234", "4532", true],
+    [Operator.ENDS_WITH, "4532123412341234", "1234", true],
+    [Operator.REGEX, "MER_001", "^MER_\\d+$", true],
+    [Operator.REGEX, "MERCHANT", "^MER_\\d+$", false],
+  ])("%s %j vs %j -> %s", (op, actual, expected, matched) => {
+    expect(applyOperator(op, actual, expected).matched).toBe(matched);
+  });
+
+  it("compares ISO dates chronologically", () => {
+    expect(applyOperator(Operator.GT, "2026-02-01T00:00:00Z", "2026-01-01T00:00:00Z").matched).toBe(
+      true
+    );
+    expect(
+      applyOperator(Operator.BETWEEN, "2026-01-15", ["2026-01-01", "2026-01-31"]).matched
+    ).toBe(true);
+  });
+
+  it("handles null checks and missing values", () => {
+    expect(applyOperator(Operator.IS_NULL, undefined, null).matched).toBe(true);
+    expect(applyOperator(Operator.IS_NULL, "X", null).matched).toBe(false);
+    expect(applyOperator(Operator.IS_NOT_NULL, 0, null).matched).toBe(true);
+
+    const missing = applyOperator(Operator.NE, undefined, "US");
+    expect(missing.matched).toBe(false);
+    expect(missing.error).toBe("Field not present in sample");
+  });
+
+  it("reports evaluation errors instead of throwing", () => {
+    expect(applyOperator(Operator.REGEX, "abc", "(").error).toBe("Invalid regular expression");
+    expect(applyOperator(Operator.IN, "a", "a").error).toBe("IN expects a list of values");
+    expect(applyOperator(Operator.BETWEEN, 1, [1]).error).toBe("BETWEEN expects [min, max]");
+    expect(applyOperator(Operator.GT, "abc", 5).error).toBe("Values are not comparable");
+  });
+});
+
+describe("likePatternToRegExp", () => {
+  it("escapes regex metacharacters", () => {
+    expect(likePatternToRegExp("a.b%").test("a.bcd")).toBe(true);
+    expect(likePatternToRegExp("a.b%").test("axbcd")).toBe(false);
+  });
+});
+
+describe("evaluateConditionTree", () => {
+  const tree: PersistedConditionTree = {
+    and: [
+      { field: "AMOUNT", op: Operator.GT, value: 500 },
+      {
+        or: [
+          { field: "MCC", op: Operator.IN, value: ["7995", "5967"] },
+          { field: "COUNTRY", op: Operator.NE, value: "US" },
+        ],
+      },
+    ],
+  };
+
+  it("matches when every AND branch holds", () => {
+    const result = evaluateConditionTree(tree, { AMOUNT: 900, MCC: "5411", COUNTRY: "GB" });
+    expect(result.matched).toBe(true);
+    expect(result.trace.op).toBe(LogicalOperator.AND);
+  });
+
+  it("traces every leaf including the failing one", () => {
+    const result = evaluateConditionTree(tree, { AMOUNT: 100, MCC: "7995", COUNTRY: "US" });
+    expect(result.matched).toBe(false);
+
+    const leaves = flattenPredicateTraces(result.trace);
+    expect(leaves.map((leaf) => [leaf.path, leaf.matched])).toEqual([
+      ["0", false],
+      ["1.0", true],
+      ["1.1", false],
+    ]);
+    expect(leaves[0]).toMatchObject({ sampleKey: "AMOUNT", actual: 100, expected: 500 });
+  });
+
+  it("looks up fields case-insensitively", () => {
+    const result = evaluateConditionTree(tree, { amount: 900, mcc: "7995" });
+    expect(result.matched).toBe(true);
+    expect(flattenPredicateTraces(result.trace)[0]?.sampleKey).toBe("amount");
+  });
+
+  it("treats empty AND as a match and empty OR as no match", () => {
+    expect(evaluateConditionTree({ and: [] }, {}).matched).toBe(true);
+    expect(evaluateConditionTree({ or: [] }, {}).matched).toBe(false);
+    expect(evaluateConditionTree(null, {}).matched).toBe(true);
+  });
+
+  it("reads velocity aggregates from the derived sample key", () => {
+    const velocity: VelocityField = {
+      type: "VELOCITY",
+      aggregation: "COUNT",
+      window: { value: 5, unit: "MINUTES" },
+      group_by: ["CARD_NUMBER"],
+    };
+    const key = velocityFieldKey(velocity);
+    expect(key).toBe("VELOCITY_COUNT_5_MINUTES_CARD_NUMBER");
+
+    const velocityTree: PersistedConditionTree = {
+      and: [{ field: velocity, op: Operator.GT, value: 3 }],
+    };
+    expect(evaluateConditionTree(velocityTree, { [key]: 4 }).matched).toBe(true);
+    expect(evaluateConditionTree(velocityTree, {}).matched).toBe(false);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import { diffConditionTrees, diffRuleVersions, diffScopes } from "../conditionTreeDiff";
+import { LogicalOperator, Operator } from "../../../types/enums";
+import type { PersistedConditionTree } from "../../../types/domain";
+
+const base: PersistedConditionTree = {
+  and: [
+    { field: "AMOUNT", op: Operator.GT, value: 5000 },
+    { field: "IS_CROSS_BORDER", op: Operator.EQ, value: true },
+    {
+      or: [
+        { field: "MCC", op: Operator.IN, value: ["7995"] },
+        { field: "COUNTRY", op: Operator.EQ, value: "NG" },
+      ],
+    },
+  ],
+};
+
+describe("diffConditionTrees", () => {
+  it("reports identical trees as unchanged", () => {
+    const diff = diffConditionTrees(base, structuredClone(base));
+    expect(diff.status).toBe("unchanged");
+    expect(diff.children.every((child) => child.status === "unchanged")).toBe(true);
+  });
+
+  it("detects threshold and operator changes on the same field", () => {
+    const target: PersistedConditionTree = {
+      and: [
+        { field: "AMOUNT", op: Operator.GTE, value: 7500 },
+        { field: "IS_CROSS_BORDER", op: Operator.EQ, value: true },
+        base.and![2],
+      ],
+    };
+    const diff = diffConditionTrees(base, target);
+    const amount = diff.children[0];
+
+    expect(diff.status).toBe("modified");
+    expect(amount).toMatchObject({ kind: "predicate", status: "modified", fieldKey: "AMOUNT" });
+    expect(amount.kind === "predicate" && amount.changes).toEqual([
+      { kind: "operator", from: Operator.GT, to: Operator.GTE },
+      { kind: "threshold", from: 5000, to: 7500 },
+    ]);
+  });
+
+  it("aligns reordered predicates and reports additions and removals", () => {
+    const target: PersistedConditionTree = {
+      and: [
+        { field: "IS_CROSS_BORDER", op: Operator.EQ, value: true },
+        { field: "AMOUNT", op: Operator.GT, value: 5000 },
+        { field: "CHANNEL", op: Operator.EQ, value: "ECOM" },
+      ],
+    };
+    const diff = diffRuleVersions(
+      { condition_tree: base, priority: 10, scope: null },
+      { condition_tree: target, priority: 10, scope: null }
+    );
+
+    expect(diff.summary).toEqual({ added: 1, removed: 2, modified: 0 });
+    expect(diff.tree.children.map((child) => child.status)).toEqual([
+      "unchanged",
+      "unchanged",
+      "added",
+      "removed",
+    ]);
+  });
+
+  it("flags a changed logical operator on a nested group", () => {
+    const target: PersistedConditionTree = {
+      and: [base.and![0], base.and![1], { and: (base.and![2] as PersistedConditionTree).or }],
+    };
+    const group = diffConditionTrees(base, target).children[2];
+
+    expect(group).toMatchObject({
+      kind: "group",
+      status: "modified",
+      baseOp: LogicalOperator.OR,
+      targetOp: LogicalOperator.AND,
+    });
+  });
+
+  it("keys velocity predicates by their aggregate definition", () => {
+    const velocity = (minutes: number): PersistedConditionTree => ({
+      and: [
+        {
+          field: {
+            type: "VELOCITY",
+            aggregation: "COUNT",
+            window: { value: minutes, unit: "MINUTES" },
+            group_by: ["CARD_NUMBER"],
+          },
+          op: Operator.GT,
+          value: 3,
+        },
+      ],
+    });
+    const diff = diffRuleVersions(
+      { condition_tree: velocity(5), priority: 1, scope: null },
+      { condition_tree: velocity(15), priority: 1, scope: null }
+    );
+
+    expect(diff.summary).toEqual({ added: 1, removed: 1, modified: 0 });
+  });
+});
+
+describe("diffRuleVersions", () => {
+  it("reports priority and scope changes", () => {
+    const diff = diffRuleVersions(
+      { condition_tree: base, priority: 10, scope: { mcc: ["7995", "5967"] } },
+      { condition_tree: base, priority: 5, scope: { mcc: ["7995"], network: ["VISA"] } }
+    );
+
+    expect(diff.priority).toEqual({ from: 10, to: 5 });
+    expect(diff.scope).toEqual([
+      { dimension: "network", added: ["VISA"], removed: [] },
+      { dimension: "mcc", added: [], removed: ["5967"] },
+    ]);
+    expect(diff.hasChanges).toBe(true);
+  });
+
+  it("treats a null scope as empty", () => {
+    expect(diffScopes(null, null)).toEqual([]);
+    expect(diffScopes(null, { bin: ["411111"] })).toEqual([
+      { dimension: "bin", added: ["411111"], removed: [] },
+    ]);
+  });
+});
@@ -0,0 +1,280 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildEvidencePackageContent,
+  canonicalizeEvidence,
+  evidenceFileName,
+  maskEvidenceContent,
+  renderEvidenceReport,
+  sealEvidencePackage,
+  serializeEvidencePackage,
+  summarizeMatchedRule,
+  verifyEvidencePackage,
+  type EvidencePackage,
+  type EvidenceSources,
+} from "../evidencePackage";
+import { MASKED_VALUE, toSensitiveKeySet } from "../sensitiveData";
+import type { AnalystNote } from "../../../types/notes";
+import type { TransactionCase } from "../../../types/case";
+import type { TransactionOverview } from "../../../types/transaction";
+
+const caseData: TransactionCase = {
+  id: "case_1",
+  case_number: "CASE-2024-001",
+  case_type: "CHARGEBACK",
+  case_status: "RESOLVED",
+  risk_level: "HIGH",
+  title: "Disputed <b>electronics</b> purchase",
+  description: null,
+  total_transaction_count: 1,
+  total_transaction_amount: 1500,
+  assigned_analyst_id: "analyst_1",
+  assigned_analyst_name: "Alice",
+  assigned_at: "2024-03-01T09:00:00Z",
+  resolved_at: "2024-03-05T09:00:00Z",
+  resolved_by: "Alice",
+  resolution_summary: "Chargeback accepted",
+  created_by: "analyst_1",
+  created_at: "2024-03-01T08:00:00Z",
+  updated_at: "2024-03-05T09:00:00Z",
+};
+
+const note = (id: string, isPrivate: boolean, createdAt: string): AnalystNote => ({
+  id,
+  transaction_id: "txn_1",
+  note_type: "CUSTOMER_CONTACT",
+  note_content: `Note ${id}`,
+  is_private: isPrivate,
+  is_system_generated: false,
+  analyst_id: "analyst_1",
+  analyst_name: "Alice",
+  analyst_email: null,
+  case_id: "case_1",
+  created_at: createdAt,
+  updated_at: createdAt,
+});
+
+const overview = {
+  transaction: {
+    transaction_id: "txn_1",
+    card_last4: "4242",
+    card_network: "VISA",
+    amount: 1500,
+    currency: "USD",
+    merchant_id: "merch_1",
+    mcc: "5732",
+    decision: "DECLINE",
+    transaction_timestamp: "2024-02-28T22:00:00Z",
+    matched_rules: [],
+  },
+  review: { status: "RESOLVED" },
+  notes: [
+    note("n2", false, "2024-03-02T10:00:00Z"),
+    note("n1", false, "2024-03-01T10:00:00Z"),
+    note("n3", true, "2024-03-01T11:00:00Z"),
+  ],
+  matched_rules: [
+    {
+      rule_id: "rule_1",
+      rule_name: "High value electronics",
+      rule_version: 3,
+      rule_version_id: "rv_1_v3",
+      rule_action: "DECLINE",
+      conditions_met: ["AMOUNT > 1000", "MCC IN [5732]"],
+    },
+  ],
+} as unknown as TransactionOverview;
+
+const sources: EvidenceSources = {
+  caseData,
+  transactions: [
+    {
+      transaction_id: "txn_1",
+      amount: 1500,
+      currency: "USD",
+      decision: "DECLINE",
+      created_at: "2024-02-28T22:00:00Z",
+    },
+  ],
+  overviews: { txn_1: overview },
+  activities: [
+    {
+      id: "act_2",
+      case_id: "case_1",
+      activity_type: "RESOLVED",
+      activity_description: "Case resolved",
+      activity_data: null,
+      performed_by: "analyst_1",
+      performed_by_name: "Alice",
+      created_at: "2024-03-05T09:00:00Z",
+    },
+    {
+      id: "act_1",
+      case_id: "case_1",
+      activity_type: "CREATED",
+      activity_description: "Case created",
+      activity_data: null,
+      performed_by: "analyst_1",
+      performed_by_name: "Alice",
+      created_at: "2024-03-01T08:00:00Z",
+    },
+  ],
+  generatedBy: "Alice",
+  generatedAt: "2024-03-06T00:00:00Z",
+};
+
+describe("summarizeMatchedRule", () => {
+  it("joins the conditions that were met", () => {
+    expect(summarizeMatchedRule({ rule_id: "r", conditions_met: ["A > 1", "", "B = 2"] })).toBe(
+      "A > 1 AND B = 2"
+    );
+  });
+
+  it("falls back to the match reason", () => {
+    expect(summarizeMatchedRule({ rule_id: "r", match_reason_text: "Velocity hit" })).toBe(
+      "Velocity hit"
+    );
+    expect(summarizeMatchedRule({ rule_id: "r" })).toBeNull();
+  });
+});
+
+describe("buildEvidencePackageContent", () => {
+  const content = buildEvidencePackageContent(sources);
+
+  it("carries the case header and resolution", () => {
+    expect(content.case.case_number).toBe("CASE-2024-001");
+    expect(content.resolution).toEqual({
+      resolved_at: "2024-03-05T09:00:00Z",
+      resolved_by: "Alice",
+      resolution_summary: "Chargeback accepted",
+    });
+  });
+
+  it("has no resolution for an open case", () => {
+    const open = buildEvidencePackageContent({
+      ...sources,
+      caseData: { ...caseData, resolved_at: null },
+    });
+    expect(open.resolution).toBeNull();
+  });
+
+  it("includes transaction detail and matched rules with version and conditions", () => {
+    const [txn] = content.transactions;
+    expect(txn).toMatchObject({
+      transaction_id: "txn_1",
+      card_last4: "4242",
+      review_status: "RESOLVED",
+    });
+    expect(txn.matched_rules).toEqual([
+      {
+        rule_id: "rule_1",
+        rule_name: "High value electronics",
+        rule_version: 3,
+        rule_version_id: "rv_1_v3",
+        rule_action: "DECLINE",
+        matched_at: null,
+        condition_summary: "AMOUNT > 1000 AND MCC IN [5732]",
+      },
+    ]);
+  });
+
+  it("leaves private notes out and counts them", () => {
+    expect(content.transactions[0].notes.map((n) => n.note_id)).toEqual(["n1", "n2"]);
+    expect(content.private_notes_withheld).toBe(1);
+  });
+
+  it("orders the audit trail chronologically", () => {
+    expect(content.audit_trail.map((a) => a.id)).toEqual(["act_1", "act_2"]);
+  });
+
+  it("falls back to the case transaction when the overview is missing", () => {
+    const bare = buildEvidencePackageContent({ ...sources, overviews: {} });
+    expect(bare.transactions[0]).toMatchObject({
+      amount: 1500,
+      transaction_timestamp: "2024-02-28T22:00:00Z",
+      card_last4: null,
+      matched_rules: [],
+      notes: [],
+    });
+  });
+});
+
+describe("maskEvidenceContent", () => {
+  const content = buildEvidencePackageContent(sources);
+
+  it("masks sensitive values under their keys and in condition summaries", () => {
+    const masked = maskEvidenceContent(content, toSensitiveKeySet(["MERCHANT_ID", "MCC"]));
+
+    expect(masked.transactions[0]).toMatchObject({
+      merchant_id: MASKED_VALUE,
+      mcc: MASKED_VALUE,
+      card_last4: "4242",
+    });
+    expect(masked.transactions[0].matched_rules[0].condition_summary).toBe(
+      `AMOUNT > 1000 AND MCC ${MASKED_VALUE}`
+    );
+    expect(masked.masked_fields).toEqual(["MERCHANT_ID", "MCC"]);
+    expect(content.transactions[0].merchant_id).toBe("merch_1");
+  });
+
+  it("withholds text that names a sensitive field elsewhere", () => {
+    const masked = maskEvidenceContent(
+      buildEvidencePackageContent({
+        ...sources,
+        overviews: {
+          txn_1: {
+            ...overview,
+            matched_rules: [{ rule_id: "rule_2", match_reason_text: "Velocity on mcc 5732" }],
+          },
+        },
+      }),
+      toSensitiveKeySet(["MCC"])
+    );
+
+    expect(masked.transactions[0].matched_rules[0].condition_summary).toBe(MASKED_VALUE);
+  });
+
+  it("leaves the content as is without sensitive fields", () => {
+    const masked = maskEvidenceContent(content, toSensitiveKeySet([]));
+
+    expect(masked).toEqual(content);
+    expect(masked.masked_fields).toEqual([]);
+  });
+});
+
+describe("sealing and verification", () => {
+  it("hashes the canonical content independent of key order", async () => {
+    const content = buildEvidencePackageContent(sources);
+    const reordered = JSON.parse(
+      JSON.stringify(Object.fromEntries(Object.entries(content).reverse()))
+    ) as typeof content;
+
+    expect(canonicalizeEvidence(reordered)).toBe(canonicalizeEvidence(content));
+    const pkg = await sealEvidencePackage(content);
+    expect(pkg.integrity.hash).toMatch(/^sha256:[0-9a-f]{64}$/);
+  });
+
+  it("verifies a manifest read back from disk and detects tampering", async () => {
+    const pkg = await sealEvidencePackage(buildEvidencePackageContent(sources));
+    const parsed = JSON.parse(serializeEvidencePackage(pkg)) as EvidencePackage;
+
+    expect(await verifyEvidencePackage(parsed)).toBe(true);
+
+    parsed.content.transactions[0].amount = 15;
+    expect(await verifyEvidencePackage(parsed)).toBe(false);
+  });
+});
+
+describe("renderEvidenceReport", () => {
+  it("renders a printable report with the hash and escaped content", async () => {
+    const pkg = await sealEvidencePackage(buildEvidencePackageContent(sources));
+    const html = renderEvidenceReport(pkg);
+
+    expect(evidenceFileName(pkg, "html")).toBe("CASE-2024-001-evidence.html");
+    expect(html).toContain("<!DOCTYPE html>");
+    expect(html).toContain(pkg.integrity.hash);
+    expect(html).toContain("Disputed &lt;b&gt;electronics&lt;/b&gt; purchase");
+    expect(html).toContain("AMOUNT &gt; 1000 AND MCC IN [5732]");
+    expect(html).toContain("1 private note(s) withheld.");
+    expect(html).not.toContain("Note n3");
+  });
+});
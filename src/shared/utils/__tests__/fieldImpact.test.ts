@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { assessFieldChange, collectFieldUsage } from "../fieldImpact";
+import type { FieldImpactReference, FieldImpactResponse } from "@/types/fieldDefinitions";
+import { Operator, RuleSetStatus, RuleStatus, RulesetEnvironment } from "@/types/enums";
+
+const reference = (
+  id: string,
+  operators: Operator[],
+  environment: RulesetEnvironment,
+  status: RuleSetStatus
+): FieldImpactReference => ({
+  rule_id: `rule_${id}`,
+  rule_name: `Rule ${id}`,
+  rule_version_id: `rv_${id}`,
+  version: 1,
+  status: RuleStatus.APPROVED,
+  operators,
+  velocity_group_by: false,
+  rulesets: [{ ruleset_id: `rs_${id}`, name: null, environment, status }],
+});
+
+const impact: FieldImpactResponse = {
+  field_key: "MCC",
+  generated_at: "2024-01-01T00:00:00Z",
+  references: [
+    reference("prod", [Operator.IN], RulesetEnvironment.PROD, RuleSetStatus.ACTIVE),
+    reference("test", [Operator.EQ], RulesetEnvironment.TEST, RuleSetStatus.ACTIVE),
+  ],
+};
+
+describe("collectFieldUsage", () => {
+  it("collects direct operators and velocity group-by use", () => {
+    const tree = {
+      and: [
+        { field: "MCC", op: Operator.IN, value: ["5967"] },
+        {
+          or: [
+            { field: "MCC", op: Operator.EQ, value: "7995" },
+            {
+              field: {
+                type: "VELOCITY" as const,
+                aggregation: "COUNT" as const,
+                window: { value: 1, unit: "HOURS" as const },
+                group_by: ["CARD_NUMBER", "MCC"],
+              },
+              op: Operator.GT,
+              value: 3,
+            },
+          ],
+        },
+        { field: "MCC", op: Operator.IN, value: ["6011"] },
+      ],
+    };
+
+    expect(collectFieldUsage(tree, "MCC")).toEqual({
+      operators: [Operator.EQ, Operator.IN],
+      velocityGroupBy: true,
+    });
+    expect(collectFieldUsage(tree, "AMOUNT")).toBeNull();
+    expect(collectFieldUsage(null, "MCC")).toBeNull();
+  });
+});
+
+describe("assessFieldChange", () => {
+  it("blocks deactivating a field used by an ACTIVE PROD ruleset", () => {
+    const result = assessFieldChange(impact, { is_active: false });
+
+    expect(result.rows.every((row) => row.breaks.length === 1)).toBe(true);
+    expect(result.blockingRulesets.map((rs) => rs.ruleset_id)).toEqual(["rs_prod"]);
+    expect(result.blocked).toBe(true);
+  });
+
+  it("only flags references using a removed operator", () => {
+    const result = assessFieldChange(impact, { allowed_operators: [Operator.IN] });
+
+    expect(result.removedOperators).toEqual([Operator.EQ]);
+    expect(result.rows.map((row) => row.breaks)).toEqual([[], ["EQ would no longer be allowed"]]);
+    expect(result.blocked).toBe(false);
+  });
+
+  it("treats an unchanged field as compatible", () => {
+    const result = assessFieldChange(impact, {});
+
+    expect(result.rows.every((row) => row.breaks.length === 0)).toBe(true);
+    expect(result.removedOperators).toEqual([]);
+    expect(result.blocked).toBe(false);
+  });
+});
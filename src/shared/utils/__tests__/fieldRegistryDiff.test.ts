@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeRegistryChecksum,
+  diffRegistryFields,
+  summarizeRegistryDiff,
+  verifyRegistryChecksum,
+  type PublishedRegistryField,
+} from "../fieldRegistryDiff";
+import { DataType, Operator } from "@/types/enums";
+
+const field = (
+  key: string,
+  overrides: Partial<PublishedRegistryField> = {}
+): PublishedRegistryField => ({
+  field_key: key,
+  display_name: key,
+  data_type: DataType.STRING,
+  allowed_operators: [Operator.EQ, Operator.IN],
+  multi_value_allowed: false,
+  is_sensitive: false,
+  is_active: true,
+  ...overrides,
+});
+
+describe("diffRegistryFields", () => {
+  it("reports added, removed and changed fields in key order", () => {
+    const base = [field("MCC"), field("COUNTRY"), field("EMAIL")];
+    const target = [
+      field("MCC", { allowed_operators: [Operator.IN, Operator.EQ] }),
+      field("EMAIL", { is_sensitive: true, data_type: DataType.ENUM }),
+      field("AMOUNT"),
+    ];
+
+    const diff = diffRegistryFields(base, target);
+
+    expect(diff.map((d) => [d.field_key, d.kind])).toEqual([
+      ["AMOUNT", "added"],
+      ["COUNTRY", "removed"],
+      ["EMAIL", "changed"],
+    ]);
+    expect(diff[2]?.changes).toEqual([
+      { property: "data_type", label: "Data type", before: "STRING", after: "ENUM" },
+      { property: "is_sensitive", label: "Sensitive", before: "No", after: "Yes" },
+    ]);
+    expect(summarizeRegistryDiff(diff, target.length)).toEqual({
+      added: 1,
+      removed: 1,
+      changed: 1,
+      unchanged: 1,
+    });
+  });
+
+  it("describes operator changes", () => {
+    const [diff] = diffRegistryFields(
+      [field("MCC")],
+      [field("MCC", { allowed_operators: [Operator.EQ, Operator.IN, Operator.NOT_IN] })]
+    );
+
+    expect(diff?.changes).toEqual([
+      {
+        property: "allowed_operators",
+        label: "Operators",
+        before: "EQ, IN",
+        after: "EQ, IN, NOT_IN",
+      },
+    ]);
+  });
+});
+
+describe("registry checksums", () => {
+  it("does not depend on field or operator order", async () => {
+    const checksum = await computeRegistryChecksum([field("A"), field("B")]);
+
+    expect(checksum).toMatch(/^sha256:[0-9a-f]{64}$/);
+    expect(
+      await computeRegistryChecksum([
+        field("B"),
+        field("A", { allowed_operators: [Operator.IN, Operator.EQ] }),
+      ])
+    ).toBe(checksum);
+    expect(await computeRegistryChecksum([field("A")])).not.toBe(checksum);
+  });
+
+  it("verifies a manifest against its fields", async () => {
+    const fields = [field("A"), field("B")];
+    const checksum = await computeRegistryChecksum(fields);
+
+    expect(await verifyRegistryChecksum({ checksum, field_count: 2 }, fields)).toMatchObject({
+      matches: true,
+      fieldCountMatches: true,
+    });
+    expect(
+      await verifyRegistryChecksum({ checksum: "sha256:deadbeef", field_count: 3 }, fields)
+    ).toMatchObject({ matches: false, fieldCountMatches: false, computed: checksum });
+  });
+});
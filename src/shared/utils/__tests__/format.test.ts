@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
-import { labelForEnumValue } from "../format";
+import { formatVelocityField, labelForEnumValue } from "../format";
+import type { VelocityField } from "../../../types/domain";
 
 describe("labelForEnumValue", () => {
   it("converts SCREAMING_SNAKE_CASE to Title Case", () => {
@@ -35,3 +36,20 @@ describe("labelForEnumValue", () => {
     expect(labelForEnumValue("VALUE__")).toBe("Value  ");
   });
 });
+
+describe("formatVelocityField", () => {
+  const field: VelocityField = {
+    type: "VELOCITY",
+    aggregation: "COUNT",
+    window: { value: 5, unit: "MINUTES" },
+    group_by: ["CARD", "MERCHANT"],
+  };
+
+  it("prints the aggregation, group-by fields and window", () => {
+    expect(formatVelocityField(field)).toBe("COUNT(CARD, MERCHANT) over 5 MINUTES");
+  });
+
+  it("uses the given window keyword", () => {
+    expect(formatVelocityField(field, "OVER")).toBe("COUNT(CARD, MERCHANT) OVER 5 MINUTES");
+  });
+});
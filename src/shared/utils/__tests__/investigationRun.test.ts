@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { buildRunStages, formatDurationMs, formatEvidenceValue } from "../investigationRun";
+
+describe("buildRunStages", () => {
+  it("keeps execution order and accumulates offsets", () => {
+    const stages = buildRunStages({ context_load: 100, llm_reasoning: 300, recommendation: 0 });
+
+    expect(stages.map((s) => [s.label, s.offsetMs, s.share])).toEqual([
+      ["Context Load", 0, 0.25],
+      ["Llm Reasoning", 100, 0.75],
+      ["Recommendation", 400, 0],
+    ]);
+  });
+
+  it("treats invalid durations as zero", () => {
+    const stages = buildRunStages({ a: -5, b: Number.NaN });
+
+    expect(stages.map((s) => [s.durationMs, s.share])).toEqual([
+      [0, 0],
+      [0, 0],
+    ]);
+  });
+});
+
+describe("formatDurationMs", () => {
+  it("uses milliseconds below one second", () => {
+    expect(formatDurationMs(312)).toBe("312 ms");
+    expect(formatDurationMs(1840)).toBe("1.84 s");
+    expect(formatDurationMs(12_500)).toBe("12.5 s");
+    expect(formatDurationMs(null)).toBe("—");
+  });
+});
+
+describe("formatEvidenceValue", () => {
+  it("formats scalars, lists and nested objects", () => {
+    expect(formatEvidenceValue(true)).toBe("Yes");
+    expect(formatEvidenceValue(12345)).toBe("12,345");
+    expect(formatEvidenceValue(["VISA", "MC"])).toBe("VISA, MC");
+    expect(formatEvidenceValue({ ip_country: "NG", is_proxy: false })).toBe(
+      "Ip Country: NG; Is Proxy: No"
+    );
+    expect(formatEvidenceValue(null)).toBe("—");
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import {
+  MAX_ATTACHMENTS_PER_NOTE,
+  MAX_ATTACHMENT_SIZE_BYTES,
+  formatFileSize,
+  getAttachmentPreviewKind,
+  isAttachmentAvailable,
+  validateAttachmentFile,
+} from "../noteAttachments";
+
+const file = (name: string, type: string, size = 2048) => ({ name, type, size });
+
+describe("formatFileSize", () => {
+  it("picks a unit for the size", () => {
+    expect(formatFileSize(512)).toBe("512 B");
+    expect(formatFileSize(1536)).toBe("1.5 KB");
+    expect(formatFileSize(MAX_ATTACHMENT_SIZE_BYTES)).toBe("10.0 MB");
+  });
+});
+
+describe("validateAttachmentFile", () => {
+  it("accepts screenshots, PDFs and text", () => {
+    expect(validateAttachmentFile(file("call.png", "image/png"))).toBeNull();
+    expect(validateAttachmentFile(file("letter.pdf", "application/pdf"))).toBeNull();
+    expect(validateAttachmentFile(file("export.txt", "text/plain"))).toBeNull();
+  });
+
+  it("rejects unsupported types", () => {
+    expect(validateAttachmentFile(file("macro.docm", "application/vnd.ms-word"))).toMatch(
+      /not a supported file type/
+    );
+  });
+
+  it("rejects files over the size limit and empty files", () => {
+    expect(
+      validateAttachmentFile(file("scan.pdf", "application/pdf", MAX_ATTACHMENT_SIZE_BYTES + 1))
+    ).toBe("scan.pdf is larger than 10.0 MB");
+    expect(validateAttachmentFile(file("blank.txt", "text/plain", 0))).toBe("blank.txt is empty");
+  });
+
+  it("rejects files beyond the per-note limit", () => {
+    expect(validateAttachmentFile(file("call.png", "image/png"), MAX_ATTACHMENTS_PER_NOTE)).toMatch(
+      /at most/
+    );
+  });
+});
+
+describe("attachment availability", () => {
+  const attachment = { name: "call.png", s3_key: "k", content_type: "image/png" };
+
+  it("only opens attachments that passed the virus scan", () => {
+    expect(isAttachmentAvailable({ ...attachment, scan_status: "CLEAN" })).toBe(true);
+    expect(isAttachmentAvailable({ ...attachment, scan_status: "PENDING" })).toBe(false);
+    expect(isAttachmentAvailable({ ...attachment, scan_status: "INFECTED" })).toBe(false);
+    expect(isAttachmentAvailable(attachment)).toBe(true);
+  });
+
+  it("previews images and PDFs inline", () => {
+    expect(getAttachmentPreviewKind(attachment)).toBe("image");
+    expect(getAttachmentPreviewKind({ ...attachment, content_type: "application/pdf" })).toBe(
+      "pdf"
+    );
+    expect(getAttachmentPreviewKind({ ...attachment, content_type: "text/plain" })).toBeNull();
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { extractMentions, parseNoteContent, parseNoteInline } from "../noteContent";
+
+describe("parseNoteInline", () => {
+  it("keeps plain text as a single run", () => {
+    expect(parseNoteInline("Customer confirmed the purchase")).toEqual([
+      { kind: "text", text: "Customer confirmed the purchase" },
+    ]);
+  });
+
+  it("recognises markdown-lite formatting", () => {
+    expect(parseNoteInline("**Confirmed** by *phone* and _email_, ref `A-12`")).toEqual([
+      { kind: "bold", text: "Confirmed" },
+      { kind: "text", text: " by " },
+      { kind: "italic", text: "phone" },
+      { kind: "text", text: " and " },
+      { kind: "italic", text: "email" },
+      { kind: "text", text: ", ref " },
+      { kind: "code", text: "A-12" },
+    ]);
+  });
+
+  it("links mentions, transactions, cases and rules", () => {
+    expect(parseNoteInline("@checker1 see txn_001 on CASE-2026-001 (rule_002).")).toEqual([
+      { kind: "mention", handle: "checker1" },
+      { kind: "text", text: " see " },
+      { kind: "transaction", id: "txn_001" },
+      { kind: "text", text: " on " },
+      { kind: "case", id: "CASE-2026-001" },
+      { kind: "text", text: " (" },
+      { kind: "rule", id: "rule_002" },
+      { kind: "text", text: ")." },
+    ]);
+  });
+
+  it("does not treat IDs, emails or code as formatting or links", () => {
+    expect(parseNoteInline("txn_001 and rule_002")).toEqual([
+      { kind: "transaction", id: "txn_001" },
+      { kind: "text", text: " and " },
+      { kind: "rule", id: "rule_002" },
+    ]);
+    expect(parseNoteInline("mail maker1@example.com")).toEqual([
+      { kind: "text", text: "mail maker1@example.com" },
+    ]);
+    expect(parseNoteInline("`txn_001 @maker1`")).toEqual([
+      { kind: "code", text: "txn_001 @maker1" },
+    ]);
+  });
+});
+
+describe("parseNoteContent", () => {
+  it("groups lines into paragraphs and lists", () => {
+    const blocks = parseNoteContent(
+      "Called customer\nNo answer\n\n- Left voicemail\n* Emailed\nDone"
+    );
+
+    expect(blocks.map((block) => block.kind)).toEqual(["paragraph", "list", "paragraph"]);
+    expect(blocks[0]).toEqual({
+      kind: "paragraph",
+      lines: [[{ kind: "text", text: "Called customer" }], [{ kind: "text", text: "No answer" }]],
+    });
+    expect(blocks[1]).toEqual({
+      kind: "list",
+      items: [[{ kind: "text", text: "Left voicemail" }], [{ kind: "text", text: "Emailed" }]],
+    });
+  });
+
+  it("returns no blocks for blank content", () => {
+    expect(parseNoteContent("  \n\n")).toEqual([]);
+  });
+});
+
+describe("extractMentions", () => {
+  it("returns each mentioned username once, lowercased", () => {
+    expect(extractMentions("@Checker1 and @maker2, then @checker1 again")).toEqual([
+      "checker1",
+      "maker2",
+    ]);
+  });
+
+  it("ignores emails, trailing punctuation and code spans", () => {
+    expect(extractMentions("Ask @maker1. Not maker2@example.com or `@checker1`")).toEqual([
+      "maker1",
+    ]);
+  });
+});
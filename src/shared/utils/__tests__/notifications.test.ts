@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { addNotification, markNotificationsRead } from "../notifications";
+import type { AppNotification, NotificationListResponse } from "../../../types/notification";
+
+const notification = (id: string, read = false): AppNotification => ({
+  notification_id: id,
+  type: "REVIEW_ASSIGNED",
+  title: `${id} title`,
+  message: null,
+  link: "/transactions/show/txn_001",
+  actor_id: "user_maker_2",
+  actor_name: "Jane Maker",
+  read_at: read ? "2026-03-01T10:00:00Z" : null,
+  created_at: "2026-03-01T09:00:00Z",
+});
+
+const list: NotificationListResponse = {
+  items: [notification("n2"), notification("n1", true)],
+  // One more unread notification beyond the loaded page
+  unread_count: 2,
+};
+
+describe("addNotification", () => {
+  it("prepends a new notification and counts it as unread", () => {
+    const result = addNotification(list, notification("n3"), 10);
+
+    expect(result.items.map((n) => n.notification_id)).toEqual(["n3", "n2", "n1"]);
+    expect(result.unread_count).toBe(3);
+  });
+
+  it("keeps the list within the limit", () => {
+    expect(addNotification(list, notification("n3"), 2).items).toHaveLength(2);
+  });
+
+  it("ignores a notification that is already listed", () => {
+    expect(addNotification(list, notification("n2"), 10)).toBe(list);
+  });
+});
+
+describe("markNotificationsRead", () => {
+  it("marks the given notifications read", () => {
+    const result = markNotificationsRead(list, "2026-03-02T00:00:00Z", ["n2", "n1"]);
+
+    expect(result.items[0]?.read_at).toBe("2026-03-02T00:00:00Z");
+    expect(result.items[1]?.read_at).toBe("2026-03-01T10:00:00Z");
+    expect(result.unread_count).toBe(1);
+  });
+
+  it("marks everything read when no ids are given", () => {
+    const result = markNotificationsRead(list, "2026-03-02T00:00:00Z");
+
+    expect(result.items.every((n) => n.read_at != null)).toBe(true);
+    expect(result.unread_count).toBe(0);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildResolutionMatrix,
+  computeOutcomeRates,
+  groupOutcomeRates,
+} from "../recommendationQuality";
+import type { RecommendationOutcome } from "../../../types/opsAnalyst";
+
+function outcome(overrides: Partial<RecommendationOutcome>): RecommendationOutcome {
+  return {
+    recommendation_id: "rec-1",
+    type: "review_priority",
+    status: "OPEN",
+    severity: "HIGH",
+    model_mode: "agentic",
+    transaction_id: "txn-1",
+    resolution_code: null,
+    created_at: "2026-01-15T10:00:00Z",
+    acknowledged_at: null,
+    ...overrides,
+  };
+}
+
+describe("computeOutcomeRates", () => {
+  it("counts exported recommendations as accepted and ignores open ones in the rate", () => {
+    const rates = computeOutcomeRates("all", [
+      outcome({ status: "ACKNOWLEDGED" }),
+      outcome({ status: "EXPORTED" }),
+      outcome({ status: "REJECTED" }),
+      outcome({ status: "OPEN" }),
+    ]);
+
+    expect(rates).toMatchObject({ total: 4, accepted: 2, rejected: 1, open: 1 });
+    expect(rates.acceptanceRate).toBeCloseTo(2 / 3);
+  });
+
+  it("uses only labelled resolutions for the confirmed-fraud rate", () => {
+    const rates = computeOutcomeRates("all", [
+      outcome({ resolution_code: "FRAUD_CONFIRMED" }),
+      outcome({ resolution_code: "FALSE_POSITIVE" }),
+      outcome({ resolution_code: "LEGITIMATE" }),
+      outcome({ resolution_code: "DUPLICATE" }),
+      outcome({ resolution_code: null }),
+    ]);
+
+    expect(rates.fraudConfirmedRate).toBeCloseTo(1 / 3);
+  });
+
+  it("returns null rates without feedback or outcomes", () => {
+    const rates = computeOutcomeRates("all", [outcome({})]);
+
+    expect(rates.acceptanceRate).toBeNull();
+    expect(rates.fraudConfirmedRate).toBeNull();
+  });
+});
+
+describe("groupOutcomeRates", () => {
+  it("groups by dimension in a fixed order and omits empty groups", () => {
+    const rows = groupOutcomeRates(
+      [
+        outcome({ model_mode: "deterministic", status: "REJECTED" }),
+        outcome({ model_mode: "agentic", status: "ACKNOWLEDGED" }),
+        outcome({ model_mode: "deterministic", status: "ACKNOWLEDGED" }),
+      ],
+      "model_mode"
+    );
+
+    expect(rows.map((row) => [row.key, row.total, row.acceptanceRate])).toEqual([
+      ["agentic", 1, 1],
+      ["deterministic", 2, 0.5],
+    ]);
+  });
+});
+
+describe("buildResolutionMatrix", () => {
+  it("counts review outcomes per severity, most severe first", () => {
+    const rows = buildResolutionMatrix([
+      outcome({ severity: "LOW", resolution_code: "LEGITIMATE" }),
+      outcome({ severity: "CRITICAL", resolution_code: "FRAUD_CONFIRMED" }),
+      outcome({ severity: "CRITICAL", resolution_code: null }),
+    ]);
+
+    expect(rows.map((row) => row.severity)).toEqual(["CRITICAL", "LOW"]);
+    expect(rows[0]?.counts).toMatchObject({ FRAUD_CONFIRMED: 1, UNRESOLVED: 1, LEGITIMATE: 0 });
+    expect(rows[1]?.total).toBe(1);
+  });
+});
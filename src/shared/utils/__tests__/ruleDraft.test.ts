@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { convertRuleDraft, normalizeDraftOperator } from "../ruleDraft";
+import { Operator, RuleType } from "../../../types/enums";
+
+describe("normalizeDraftOperator", () => {
+  it("maps symbols and engine names to operators", () => {
+    expect(normalizeDraftOperator(">=")).toBe(Operator.GTE);
+    expect(normalizeDraftOperator("not in")).toBe(Operator.NOT_IN);
+    expect(normalizeDraftOperator("starts-with")).toBe(Operator.STARTS_WITH);
+    expect(normalizeDraftOperator("approximately")).toBeNull();
+  });
+});
+
+describe("convertRuleDraft", () => {
+  it("builds a nested condition tree and form values", () => {
+    const result = convertRuleDraft({
+      rule_name: " Card testing ",
+      rule_type: "BLOCKLIST",
+      priority: 50,
+      logic: "AND",
+      conditions: [
+        { field: "AMOUNT", operator: "<=", value: 5 },
+        {
+          logic: "OR",
+          conditions: [
+            { field: "MCC", operator: "in", value: ["5816"] },
+            { field: "IS_CROSS_BORDER", operator: "==", value: true },
+          ],
+        },
+      ],
+      scope: { network: ["VISA"] },
+    });
+
+    expect(result.conditionTree).toEqual({
+      and: [
+        { field: "AMOUNT", op: Operator.LTE, value: 5 },
+        {
+          or: [
+            { field: "MCC", op: Operator.IN, value: ["5816"] },
+            { field: "IS_CROSS_BORDER", op: Operator.EQ, value: true },
+          ],
+        },
+      ],
+    });
+    expect(result.formValues).toEqual({
+      rule_name: "Card testing",
+      rule_type: RuleType.BLOCKLIST,
+      priority: 50,
+    });
+    expect(result.scope).toEqual({ network: ["VISA"] });
+    expect(result.issues).toEqual([]);
+  });
+
+  it("reports conditions and rule types it cannot carry over", () => {
+    const result = convertRuleDraft({
+      rule_type: "SHADOW",
+      conditions: [
+        { field: "AMOUNT", operator: "approximately", value: 5 },
+        { operator: "=", value: 1 },
+      ],
+    });
+
+    expect(result.conditionTree).toEqual({ and: [] });
+    expect(result.formValues).toEqual({});
+    expect(result.issues).toEqual([
+      'AMOUNT: operator "approximately" is not supported and was skipped.',
+      "A condition without a field was skipped.",
+      "The draft has no usable conditions; add them before submitting.",
+      'Rule type "SHADOW" is not supported; choose one before submitting.',
+    ]);
+  });
+});
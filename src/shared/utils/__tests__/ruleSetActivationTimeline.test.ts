@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { buildActivationTimeline, findRollbackTarget } from "../ruleSetActivationTimeline";
+import { RuleSetStatus } from "../../../types/enums";
+
+function makeVersion(
+  version: number,
+  status: RuleSetStatus,
+  activatedAt: string | null,
+  activations?: string[]
+) {
+  return {
+    ruleset_version_id: `rsv_v${version}`,
+    version,
+    status,
+    activated_at: activatedAt,
+    activations,
+    approved_by: "checker",
+    approved_at: activatedAt,
+  };
+}
+
+// v2 was rolled back to after v3 went live
+const rolledBack = [
+  makeVersion(1, RuleSetStatus.SUPERSEDED, "2024-09-01T10:00:00Z", ["2024-09-01T10:00:00Z"]),
+  makeVersion(2, RuleSetStatus.ACTIVE, "2024-11-10T10:00:00Z", [
+    "2024-10-01T10:00:00Z",
+    "2024-11-10T10:00:00Z",
+  ]),
+  makeVersion(3, RuleSetStatus.SUPERSEDED, "2024-11-06T10:00:00Z", ["2024-11-06T10:00:00Z"]),
+];
+
+const versions = [
+  makeVersion(3, RuleSetStatus.ACTIVE, "2024-11-06T10:00:00Z"),
+  makeVersion(1, RuleSetStatus.SUPERSEDED, "2024-09-01T10:00:00Z"),
+  makeVersion(4, RuleSetStatus.APPROVED, null),
+  makeVersion(2, RuleSetStatus.SUPERSEDED, "2024-10-01T10:00:00Z"),
+];
+
+describe("buildActivationTimeline", () => {
+  it("derives active periods from activation times, newest first", () => {
+    const timeline = buildActivationTimeline(versions);
+
+    expect(timeline.map((p) => [p.version, p.activated_at, p.deactivated_at])).toEqual([
+      [3, "2024-11-06T10:00:00Z", null],
+      [2, "2024-10-01T10:00:00Z", "2024-11-06T10:00:00Z"],
+      [1, "2024-09-01T10:00:00Z", "2024-10-01T10:00:00Z"],
+    ]);
+  });
+
+  it("keeps every activation of a rolled back version", () => {
+    const timeline = buildActivationTimeline(rolledBack);
+
+    expect(timeline.map((p) => [p.version, p.activated_at, p.deactivated_at])).toEqual([
+      [2, "2024-11-10T10:00:00Z", null],
+      [3, "2024-11-06T10:00:00Z", "2024-11-10T10:00:00Z"],
+      [2, "2024-10-01T10:00:00Z", "2024-11-06T10:00:00Z"],
+      [1, "2024-09-01T10:00:00Z", "2024-10-01T10:00:00Z"],
+    ]);
+  });
+
+  it("does not treat a latest version that is no longer active as current", () => {
+    const timeline = buildActivationTimeline([
+      makeVersion(1, RuleSetStatus.SUPERSEDED, "2024-09-01T10:00:00Z"),
+      makeVersion(2, RuleSetStatus.SUPERSEDED, "2024-10-01T10:00:00Z"),
+    ]);
+
+    expect(timeline.map((p) => [p.version, p.deactivated_at, p.is_current])).toEqual([
+      [2, null, false],
+      [1, "2024-10-01T10:00:00Z", false],
+    ]);
+    expect(buildActivationTimeline(versions)[0]?.is_current).toBe(true);
+  });
+
+  it("is empty when nothing was ever activated", () => {
+    expect(buildActivationTimeline([makeVersion(1, RuleSetStatus.DRAFT, null)])).toEqual([]);
+  });
+});
+
+describe("findRollbackTarget", () => {
+  it("returns the version active just before the current one", () => {
+    expect(findRollbackTarget(versions)?.version).toBe(2);
+  });
+
+  it("returns the version a rollback replaced", () => {
+    expect(findRollbackTarget(rolledBack)?.version).toBe(3);
+  });
+
+  it("returns null without an earlier activation", () => {
+    expect(findRollbackTarget([makeVersion(1, RuleSetStatus.ACTIVE, "2024-09-01T10:00:00Z")])).toBe(
+      null
+    );
+    expect(findRollbackTarget([makeVersion(1, RuleSetStatus.APPROVED, null)])).toBeNull();
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect } from "vitest";
+import { analyzeRuleSet } from "../ruleSetAnalysis";
+import { EvaluationMode, Operator, RuleStatus } from "../../../types/enums";
+import type { PersistedConditionTree, RuleVersion } from "../../../types/domain";
+
+function makeRule(
+  id: string,
+  priority: number,
+  condition_tree: PersistedConditionTree,
+  scope: RuleVersion["scope"] = null
+): RuleVersion {
+  return {
+    rule_version_id: `rv_${id}`,
+    rule_id: id,
+    version: 1,
+    condition_tree,
+    priority,
+    scope,
+    created_by: "maker",
+    created_at: "2024-01-01T00:00:00Z",
+    approved_by: null,
+    approved_at: null,
+    status: RuleStatus.APPROVED,
+  };
+}
+
+const kinds = (rules: RuleVersion[], mode = EvaluationMode.FIRST_MATCH): string[] =>
+  analyzeRuleSet({ rules, evaluationMode: mode }).map((finding) => finding.kind);
+
+describe("analyzeRuleSet", () => {
+  it("returns no findings for independent rules", () => {
+    const rules = [
+      makeRule("a", 1, { and: [{ field: "AMOUNT", op: Operator.GT, value: 5000 }] }),
+      makeRule("b", 2, { and: [{ field: "MCC", op: Operator.EQ, value: "7995" }] }),
+    ];
+    expect(kinds(rules)).toEqual([]);
+  });
+
+  it("flags contradictory numeric ranges", () => {
+    const rule = makeRule("a", 1, {
+      and: [
+        { field: "AMOUNT", op: Operator.GT, value: 500 },
+        { field: "AMOUNT", op: Operator.LT, value: 100 },
+      ],
+    });
+    const [finding] = analyzeRuleSet({ rules: [rule], evaluationMode: EvaluationMode.FIRST_MATCH });
+
+    expect(finding).toMatchObject({ kind: "CONTRADICTORY_RANGE", severity: "error" });
+    expect(finding.message).toContain("AMOUNT GT 500 AND AMOUNT LT 100");
+  });
+
+  it("treats touching exclusive bounds and disjoint IN lists as contradictions", () => {
+    expect(
+      kinds([
+        makeRule("a", 1, {
+          and: [
+            { field: "AMOUNT", op: Operator.GT, value: 100 },
+            { field: "AMOUNT", op: Operator.LTE, value: 100 },
+          ],
+        }),
+        makeRule("b", 2, {
+          and: [
+            { field: "COUNTRY", op: Operator.IN, value: ["US", "GB"] },
+            { field: "COUNTRY", op: Operator.EQ, value: "NG" },
+          ],
+        }),
+      ])
+    ).toEqual(["CONTRADICTORY_RANGE", "CONTRADICTORY_RANGE"]);
+  });
+
+  it("checks AND groups nested under OR", () => {
+    const rule = makeRule("a", 1, {
+      or: [
+        { field: "MCC", op: Operator.EQ, value: "7995" },
+        {
+          and: [
+            { field: "AMOUNT", op: Operator.GTE, value: 10 },
+            { field: "AMOUNT", op: Operator.LT, value: 5 },
+          ],
+        },
+      ],
+    });
+    expect(kinds([rule])).toEqual(["CONTRADICTORY_RANGE"]);
+  });
+
+  it("flags duplicate predicates within a group", () => {
+    const predicate = { field: "AMOUNT", op: Operator.GT, value: 500 };
+    expect(kinds([makeRule("a", 1, { and: [predicate, predicate, predicate] })])).toEqual([
+      "DUPLICATE_PREDICATE",
+    ]);
+  });
+
+  it("flags rules shadowed by a broader higher-priority rule in FIRST_MATCH mode", () => {
+    const rules = [
+      makeRule("narrow", 20, {
+        and: [
+          { field: "AMOUNT", op: Operator.GT, value: 1000 },
+          { field: "MCC", op: Operator.IN, value: ["7995"] },
+        ],
+      }),
+      makeRule("broad", 10, { and: [{ field: "AMOUNT", op: Operator.GTE, value: 500 }] }),
+    ];
+    const [finding] = analyzeRuleSet({ rules, evaluationMode: EvaluationMode.FIRST_MATCH });
+
+    expect(finding).toMatchObject({
+      kind: "UNREACHABLE_RULE",
+      ruleVersionIds: ["rv_narrow", "rv_broad"],
+    });
+    expect(kinds(rules, EvaluationMode.ALL_MATCHING)).toEqual([]);
+  });
+
+  it("does not report shadowing when the broader rule has a narrower scope", () => {
+    const rules = [
+      makeRule("broad", 10, { and: [] }, { mcc: ["7995"] }),
+      makeRule("later", 20, { and: [{ field: "AMOUNT", op: Operator.GT, value: 1 }] }),
+    ];
+    expect(kinds(rules)).toEqual([]);
+  });
+
+  it("warns about equal-priority rules with overlapping scopes", () => {
+    const rules = [
+      makeRule(
+        "a",
+        5,
+        { and: [{ field: "AMOUNT", op: Operator.GT, value: 100 }] },
+        { bin: ["4111"] }
+      ),
+      makeRule("b", 5, { and: [{ field: "AMOUNT", op: Operator.LT, value: 900 }] }, null),
+      makeRule(
+        "c",
+        5,
+        { and: [{ field: "AMOUNT", op: Operator.GT, value: 100 }] },
+        { bin: ["5500"] }
+      ),
+    ];
+    const findings = analyzeRuleSet({ rules, evaluationMode: EvaluationMode.FIRST_MATCH });
+
+    expect(findings.map((finding) => finding.ruleVersionIds)).toEqual([
+      ["rv_a", "rv_b"],
+      ["rv_b", "rv_c"],
+    ]);
+  });
+
+  it("warns when ALLOW and BLOCK rules can match the same transaction", () => {
+    const rules = [
+      makeRule("allow", 1, { and: [{ field: "MERCHANT_ID", op: Operator.IN, value: ["M1"] }] }),
+      makeRule("block", 2, { and: [{ field: "AMOUNT", op: Operator.GT, value: 5000 }] }),
+      makeRule("other", 3, { and: [{ field: "MERCHANT_ID", op: Operator.EQ, value: "M2" }] }),
+    ];
+    const findings = analyzeRuleSet({
+      rules,
+      evaluationMode: EvaluationMode.ALL_MATCHING,
+      actions: { allow: "ALLOW", block: "BLOCK", other: "ALLOW" },
+    });
+
+    expect(findings.map((finding) => [finding.kind, finding.ruleVersionIds])).toEqual([
+      ["ALLOW_BLOCK_OVERLAP", ["rv_allow", "rv_block"]],
+      ["ALLOW_BLOCK_OVERLAP", ["rv_block", "rv_other"]],
+    ]);
+  });
+
+  it("lists errors before warnings", () => {
+    const predicate = { field: "AMOUNT", op: Operator.GT, value: 500 };
+    const rules = [
+      makeRule("dup", 1, { and: [predicate, predicate] }),
+      makeRule("bad", 2, {
+        and: [
+          { field: "AMOUNT", op: Operator.GT, value: 500 },
+          { field: "AMOUNT", op: Operator.LT, value: 100 },
+        ],
+      }),
+    ];
+    expect(kinds(rules, EvaluationMode.ALL_MATCHING)).toEqual([
+      "CONTRADICTORY_RANGE",
+      "DUPLICATE_PREDICATE",
+    ]);
+  });
+});
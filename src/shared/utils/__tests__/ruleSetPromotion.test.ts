@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { canPromoteRuleSet, diffPromotedRules, getNextEnvironment } from "../ruleSetPromotion";
+import { Operator, RuleSetStatus, RuleStatus, RulesetEnvironment } from "../../../types/enums";
+import type { RuleVersion } from "../../../types/domain";
+
+function makeVersion(ruleId: string, version: number): RuleVersion {
+  return {
+    rule_version_id: `rv_${ruleId}_v${version}`,
+    rule_id: ruleId,
+    version,
+    condition_tree: { and: [{ field: "AMOUNT", op: Operator.GT, value: version * 100 }] },
+    priority: 10,
+    scope: null,
+    created_by: "maker",
+    created_at: "2024-01-01T00:00:00Z",
+    approved_by: null,
+    approved_at: null,
+    status: RuleStatus.APPROVED,
+  };
+}
+
+describe("getNextEnvironment", () => {
+  it("follows LOCAL → TEST → PROD", () => {
+    expect(getNextEnvironment(RulesetEnvironment.LOCAL)).toBe(RulesetEnvironment.TEST);
+    expect(getNextEnvironment(RulesetEnvironment.TEST)).toBe(RulesetEnvironment.PROD);
+    expect(getNextEnvironment(RulesetEnvironment.PROD)).toBeNull();
+  });
+});
+
+describe("canPromoteRuleSet", () => {
+  it("only allows ACTIVE rulesets below PROD", () => {
+    expect(
+      canPromoteRuleSet({ status: RuleSetStatus.ACTIVE, environment: RulesetEnvironment.TEST })
+    ).toBe(true);
+    expect(
+      canPromoteRuleSet({ status: RuleSetStatus.DRAFT, environment: RulesetEnvironment.TEST })
+    ).toBe(false);
+    expect(
+      canPromoteRuleSet({ status: RuleSetStatus.ACTIVE, environment: RulesetEnvironment.PROD })
+    ).toBe(false);
+  });
+});
+
+describe("diffPromotedRules", () => {
+  it("keys changes by rule id", () => {
+    const changes = diffPromotedRules(
+      [makeVersion("a", 2), makeVersion("b", 1), makeVersion("c", 1)],
+      [makeVersion("a", 1), makeVersion("b", 1), makeVersion("d", 3)]
+    );
+
+    expect(changes.map((c) => [c.rule_id, c.change])).toEqual([
+      ["a", "updated"],
+      ["b", "unchanged"],
+      ["c", "added"],
+      ["d", "removed"],
+    ]);
+    expect(changes[0]?.current?.version).toBe(1);
+    expect(changes[0]?.promoted?.version).toBe(2);
+  });
+
+  it("treats every rule as added when nothing is active in the target", () => {
+    const changes = diffPromotedRules([makeVersion("a", 1)], []);
+    expect(changes).toEqual([
+      { rule_id: "a", change: "added", current: null, promoted: makeVersion("a", 1) },
+    ]);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { runRuleTestCases, summarizeRuleTestCaseResults } from "../ruleTestCases";
+import { Operator } from "../../../types/enums";
+import type { PersistedConditionTree, RuleTestCase } from "../../../types/domain";
+
+function makeCase(overrides: Partial<RuleTestCase>): RuleTestCase {
+  return {
+    test_case_id: "tc",
+    rule_version_id: "rv_1",
+    name: "case",
+    sample: {},
+    expected: "MATCH",
+    created_by: "maker",
+    created_at: "2024-01-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+describe("runRuleTestCases", () => {
+  const tree: PersistedConditionTree = {
+    and: [{ field: "AMOUNT", op: Operator.GT, value: 500 }],
+  };
+  const cases = [
+    makeCase({ test_case_id: "a", sample: { AMOUNT: 900 }, expected: "MATCH" }),
+    makeCase({ test_case_id: "b", sample: { AMOUNT: 100 }, expected: "NO_MATCH" }),
+    makeCase({ test_case_id: "c", sample: { AMOUNT: 100 }, expected: "MATCH" }),
+  ];
+
+  it("compares the evaluated outcome with the expectation", () => {
+    const results = runRuleTestCases(tree, cases);
+    expect(results.map((r) => [r.actual, r.passed])).toEqual([
+      ["MATCH", true],
+      ["NO_MATCH", true],
+      ["NO_MATCH", false],
+    ]);
+    expect(results[2].evaluation.trace.children).toHaveLength(1);
+  });
+
+  it("re-runs against an edited tree", () => {
+    const edited: PersistedConditionTree = {
+      and: [{ field: "AMOUNT", op: Operator.GT, value: 50 }],
+    };
+    expect(summarizeRuleTestCaseResults(runRuleTestCases(edited, cases))).toEqual({
+      total: 3,
+      passed: 2,
+      failed: 1,
+    });
+  });
+
+  it("treats a missing tree as an empty AND group", () => {
+    const [result] = runRuleTestCases(null, [makeCase({ expected: "MATCH" })]);
+    expect(result.passed).toBe(true);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildSampleTemplate,
+  collectSampleKeys,
+  parseSampleTransaction,
+} from "../sampleTransaction";
+import { Operator } from "../../../types/enums";
+import type { PersistedConditionTree } from "../../../types/domain";
+
+describe("sample transaction utils", () => {
+  const tree: PersistedConditionTree = {
+    and: [
+      { field: "AMOUNT", op: Operator.GT, value: 500 },
+      {
+        or: [
+          { field: "MCC", op: Operator.EQ, value: "7995" },
+          { field: "AMOUNT", op: Operator.LT, value: 10 },
+          {
+            field: {
+              type: "VELOCITY",
+              aggregation: "SUM",
+              window: { value: 1, unit: "HOURS" },
+              group_by: ["CARD_NUMBER"],
+            },
+            op: Operator.GT,
+            value: 1000,
+          },
+        ],
+      },
+    ],
+  };
+
+  it("collects unique keys in tree order", () => {
+    expect(collectSampleKeys(tree)).toEqual(["AMOUNT", "MCC", "VELOCITY_SUM_1_HOURS_CARD_NUMBER"]);
+    expect(collectSampleKeys(null)).toEqual([]);
+  });
+
+  it("builds a null-filled JSON template", () => {
+    expect(JSON.parse(buildSampleTemplate(tree))).toEqual({
+      AMOUNT: null,
+      MCC: null,
+      VELOCITY_SUM_1_HOURS_CARD_NUMBER: null,
+    });
+  });
+
+  it("parses sample JSON objects and rejects other input", () => {
+    expect(parseSampleTransaction("")).toEqual({ sample: {} });
+    expect(parseSampleTransaction('{"AMOUNT": 10}')).toEqual({ sample: { AMOUNT: 10 } });
+    expect(parseSampleTransaction("[1]").error).toBe("Sample transaction must be a JSON object.");
+    expect(parseSampleTransaction("{bad").error).toBe("Sample transaction must be valid JSON.");
+  });
+});
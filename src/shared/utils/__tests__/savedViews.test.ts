@@ -0,0 +1,138 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildSavedViewPath,
+  compactSavedViewFilters,
+  describeSavedViewFilters,
+  resolveTransactionViewFilters,
+  sortSavedViews,
+} from "../savedViews";
+import type { SavedView } from "../../../types/savedView";
+
+const NOW = new Date("2026-03-10T12:00:00Z");
+
+function view(overrides: Partial<SavedView>): SavedView {
+  return {
+    id: "view-1",
+    name: "View",
+    description: null,
+    visibility: "PRIVATE",
+    pinned: false,
+    owner_id: "user-1",
+    owner_name: null,
+    created_at: "2026-03-01T00:00:00Z",
+    updated_at: "2026-03-01T00:00:00Z",
+    target: "worklist",
+    filters: {},
+    ...overrides,
+  } as SavedView;
+}
+
+describe("buildSavedViewPath", () => {
+  it("uses the worklist query parameters", () => {
+    const path = buildSavedViewPath(
+      view({ filters: { priority_filter: 1, risk_level_filter: "CRITICAL", assigned_only: false } })
+    );
+
+    expect(path).toBe("/worklist?risk_level_filter=CRITICAL&priority_filter=1");
+  });
+
+  it("keeps the worklist's time to breach ordering", () => {
+    const path = buildSavedViewPath(
+      view({ filters: { status: "PENDING", sort: "time_to_breach" } })
+    );
+
+    expect(path).toBe("/worklist?status=PENDING&sort=time_to_breach");
+  });
+
+  it("encodes transaction filters in the table's URL format", () => {
+    const path = buildSavedViewPath(
+      view({
+        target: "transactions",
+        filters: { merchant_id: "merch_001", min_amount: 500, window_days: 7 },
+      }),
+      NOW
+    );
+    const params = new URLSearchParams(path.split("?")[1]);
+
+    expect(path.startsWith("/transactions?")).toBe(true);
+    expect(params.get("filters[0][field]")).toBe("merchant_id");
+    expect(params.get("filters[0][value]")).toBe("merch_001");
+    expect(params.get("filters[1][field]")).toBe("min_amount");
+    expect(params.get("filters[2][field]")).toBe("from_date");
+    expect(params.get("filters[2][value]")).toBe("2026-03-03T12:00:00.000Z");
+    expect(params.get("filters[0][operator]")).toBe("eq");
+  });
+
+  it("opens the unfiltered list for a view without filters", () => {
+    expect(buildSavedViewPath(view({ target: "transactions", filters: {} }))).toBe("/transactions");
+  });
+});
+
+describe("resolveTransactionViewFilters", () => {
+  it("replaces a fixed date range with the rolling window", () => {
+    expect(
+      resolveTransactionViewFilters(
+        { window_days: 1, from_date: "2025-01-01", to_date: "2025-02-01" },
+        NOW
+      )
+    ).toEqual({ from_date: "2026-03-09T12:00:00.000Z", to_date: null });
+  });
+});
+
+describe("describeSavedViewFilters", () => {
+  it("labels amount ranges, windows and identifiers", () => {
+    const labels = describeSavedViewFilters(
+      view({
+        target: "transactions",
+        filters: {
+          decision: "DECLINE",
+          rule_id: "rule_7",
+          min_amount: 100,
+          max_amount: 2500,
+          window_days: 30,
+        },
+      })
+    );
+
+    expect(labels).toEqual([
+      "Decision: DECLINE",
+      "Rule: rule_7",
+      "Amount 100–2,500",
+      "Last 30 days",
+    ]);
+  });
+
+  it("labels worklist filters", () => {
+    expect(
+      describeSavedViewFilters(view({ filters: { status: "ESCALATED", assigned_only: true } }))
+    ).toEqual(["Status: ESCALATED", "Assigned to me"]);
+    expect(describeSavedViewFilters(view({ filters: { sort: "time_to_breach" } }))).toEqual([
+      "Sorted by time to breach",
+    ]);
+  });
+});
+
+describe("compactSavedViewFilters", () => {
+  it("drops empty, null and false values", () => {
+    expect(
+      compactSavedViewFilters({
+        status: null,
+        merchant_id: "",
+        assigned_only: false,
+        min_amount: 0,
+      })
+    ).toEqual({ min_amount: 0 });
+  });
+});
+
+describe("sortSavedViews", () => {
+  it("lists pinned views first, then by name", () => {
+    const sorted = sortSavedViews([
+      view({ id: "b", name: "Beta" }),
+      view({ id: "z", name: "Zulu", pinned: true }),
+      view({ id: "a", name: "Alpha" }),
+    ]);
+
+    expect(sorted.map((v) => v.id)).toEqual(["z", "a", "b"]);
+  });
+});
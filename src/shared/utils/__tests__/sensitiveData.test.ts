@@ -0,0 +1,118 @@
+/**
+ * Tests for sensitive data masking
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  MASK_ALL_KEYS,
+  MASKED_VALUE,
+  isSensitiveKey,
+  maskPredicateValue,
+  maskSensitiveValues,
+  toSensitiveKeySet,
+} from "../sensitiveData";
+
+const keys = toSensitiveKeySet(["CARD_NUMBER", "cardholder_email"]);
+
+describe("sensitive data masking", () => {
+  it("matches field keys ignoring case", () => {
+    expect(isSensitiveKey(keys, "card_number")).toBe(true);
+    expect(isSensitiveKey(keys, "CARDHOLDER_EMAIL")).toBe(true);
+    expect(isSensitiveKey(keys, "AMOUNT")).toBe(false);
+  });
+
+  it("masks values keyed by a sensitive field", () => {
+    const data = { card_number: "4532015112830366", amount: 250, nested: { CARD_NUMBER: 1 } };
+    const result = maskSensitiveValues(data, keys);
+
+    expect(result.value).toEqual({
+      card_number: MASKED_VALUE,
+      amount: 250,
+      nested: { CARD_NUMBER: MASKED_VALUE },
+    });
+    expect(result.fieldKeys).toEqual(["CARD_NUMBER"]);
+    expect(data.card_number).toBe("4532015112830366");
+  });
+
+  it("masks predicate values in condition trees, keeping list lengths", () => {
+    const tree = {
+      and: [
+        { field: "AMOUNT", op: "GT", value: 100 },
+        {
+          or: [
+            { field: "CARD_NUMBER", op: "IN", value: ["4532********1234", "5425********9876"] },
+            { field: "CARDHOLDER_EMAIL", op: "EQ", value: "jane@example.com" },
+          ],
+        },
+      ],
+    };
+
+    const result = maskSensitiveValues(tree, keys);
+
+    expect(result.value.and[0]).toEqual({ field: "AMOUNT", op: "GT", value: 100 });
+    expect(result.value.and[1]).toEqual({
+      or: [
+        { field: "CARD_NUMBER", op: "IN", value: [MASKED_VALUE, MASKED_VALUE] },
+        { field: "CARDHOLDER_EMAIL", op: "EQ", value: MASKED_VALUE },
+      ],
+    });
+    expect(result.fieldKeys).toEqual(["CARD_NUMBER", "CARDHOLDER_EMAIL"]);
+  });
+
+  it("masks every value, keeping structure, with MASK_ALL_KEYS", () => {
+    const data = {
+      condition_values: { AMOUNT: 250, MCC: ["7995", "6011"] },
+      tree: { and: [{ field: "AMOUNT", op: "GT", value: 100 }] },
+    };
+
+    const result = maskSensitiveValues(data, MASK_ALL_KEYS);
+
+    expect(result.value).toEqual({
+      condition_values: { AMOUNT: MASKED_VALUE, MCC: [MASKED_VALUE, MASKED_VALUE] },
+      tree: { and: [{ field: "AMOUNT", op: "GT", value: MASKED_VALUE }] },
+    });
+    expect(result.fieldKeys).toEqual(["AMOUNT", "MCC"]);
+    expect(isSensitiveKey(MASK_ALL_KEYS, "anything")).toBe(true);
+  });
+
+  it("keeps velocity aggregates readable, hiding only their threshold with MASK_ALL_KEYS", () => {
+    const velocity = {
+      field: {
+        type: "VELOCITY",
+        aggregation: "COUNT",
+        window: { value: 15, unit: "MINUTES" },
+        group_by: ["CARD_NUMBER"],
+      },
+      op: "GTE",
+      value: 3,
+    };
+
+    expect(maskSensitiveValues({ and: [velocity] }, keys)).toEqual({
+      value: { and: [velocity] },
+      fieldKeys: [],
+    });
+    expect(maskSensitiveValues({ and: [velocity] }, MASK_ALL_KEYS)).toEqual({
+      value: { and: [{ ...velocity, value: MASKED_VALUE }] },
+      fieldKeys: [],
+    });
+  });
+
+  it("masks a value compared against a sensitive field", () => {
+    expect(maskPredicateValue("CARD_NUMBER", ["4111", "4222"], keys)).toEqual([
+      MASKED_VALUE,
+      MASKED_VALUE,
+    ]);
+    expect(maskPredicateValue("AMOUNT", 100, keys)).toBe(100);
+    expect(maskPredicateValue("AMOUNT", 100, MASK_ALL_KEYS)).toBe(MASKED_VALUE);
+    expect(maskPredicateValue("CARD_NUMBER", undefined, keys)).toBeUndefined();
+  });
+
+  it("leaves data untouched without sensitive keys or values", () => {
+    const data = { field: "AMOUNT", op: "GT", value: 100 };
+    expect(maskSensitiveValues(data, new Set()).value).toBe(data);
+    expect(maskSensitiveValues({ card_number: null }, keys)).toEqual({
+      value: { card_number: null },
+      fieldKeys: [],
+    });
+  });
+});
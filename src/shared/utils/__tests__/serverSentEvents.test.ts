@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  connectEventStream,
+  parseServerSentEvents,
+  readServerSentEvents,
+} from "../serverSentEvents";
+
+describe("parseServerSentEvents", () => {
+  it("parses complete messages and keeps the trailing partial one", () => {
+    const { messages, rest } = parseServerSentEvents(
+      ': connected\n\nid: 1\nevent: REVIEW_CREATED\ndata: {"a":1}\n\ndata: par'
+    );
+
+    expect(messages).toEqual([{ id: "1", event: "REVIEW_CREATED", data: '{"a":1}' }]);
+    expect(rest).toBe("data: par");
+  });
+
+  it("joins multi-line data and normalizes CRLF line endings", () => {
+    const { messages } = parseServerSentEvents("data: first\r\ndata:second\r\n\r\n");
+
+    expect(messages).toEqual([{ id: null, event: "message", data: "first\nsecond" }]);
+  });
+});
+
+describe("readServerSentEvents", () => {
+  it("reassembles messages split across chunks", async () => {
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode("id: 1\ndata: hel"));
+        controller.enqueue(encoder.encode("lo\n\nid: 2\ndata: world\n\n"));
+        controller.close();
+      },
+    });
+    const received: string[] = [];
+
+    await readServerSentEvents(stream, (message) => received.push(message.data));
+
+    expect(received).toEqual(["hello", "world"]);
+  });
+});
+
+describe("connectEventStream", () => {
+  const streamOf = (text: string): ReadableStream<Uint8Array> =>
+    new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(text));
+        controller.close();
+      },
+    });
+
+  it("delivers messages and reconnects after the stream ends", async () => {
+    const open = vi.fn(() => Promise.resolve(streamOf("data: hello\n\n")));
+    const onOpen = vi.fn();
+    const onDown = vi.fn();
+    const received: string[] = [];
+
+    const stop = connectEventStream(
+      open,
+      { onOpen, onMessage: (message) => received.push(message.data), onDown },
+      10
+    );
+
+    await vi.waitFor(() => expect(received.length).toBeGreaterThanOrEqual(2));
+    stop();
+    expect(onOpen.mock.calls.length).toBeGreaterThanOrEqual(2);
+    expect(onDown).toHaveBeenCalled();
+    expect(received.slice(0, 2)).toEqual(["hello", "hello"]);
+  });
+
+  it("stops retrying once disconnected", async () => {
+    let rejectOpen: (err: Error) => void = () => undefined;
+    const open = vi.fn(
+      (signal: AbortSignal) =>
+        new Promise<ReadableStream<Uint8Array>>((_, reject) => {
+          rejectOpen = reject;
+          signal.addEventListener("abort", () => reject(new Error("aborted")));
+        })
+    );
+    const onDown = vi.fn();
+
+    const stop = connectEventStream(open, { onOpen: vi.fn(), onMessage: vi.fn(), onDown }, 10);
+    stop();
+    rejectOpen(new Error("network"));
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    expect(onDown).not.toHaveBeenCalled();
+    expect(open).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_SLA_POLICY,
+  compareTimeToBreach,
+  evaluateSla,
+  formatSlaDuration,
+  getSlaTargetMinutes,
+  getTimeToBreach,
+  type SlaSubject,
+} from "../sla";
+
+const NOW = Date.parse("2026-03-01T12:00:00Z");
+
+const review = (overrides: Partial<SlaSubject> = {}): SlaSubject => ({
+  priority: 3,
+  risk_level: "HIGH",
+  status: "PENDING",
+  created_at: "2026-03-01T10:00:00Z",
+  ...overrides,
+});
+
+describe("getSlaTargetMinutes", () => {
+  it("uses the stricter of the priority and risk level targets", () => {
+    expect(getSlaTargetMinutes(DEFAULT_SLA_POLICY, 3, "HIGH")).toBe(240);
+    expect(getSlaTargetMinutes(DEFAULT_SLA_POLICY, 1, "HIGH")).toBe(60);
+    expect(getSlaTargetMinutes(DEFAULT_SLA_POLICY, 4, null)).toBe(1440);
+  });
+
+  it("returns null when the policy sets no target", () => {
+    expect(getSlaTargetMinutes(DEFAULT_SLA_POLICY, 9, null)).toBeNull();
+  });
+});
+
+describe("evaluateSla", () => {
+  it("counts down for open reviews", () => {
+    expect(evaluateSla(review(), DEFAULT_SLA_POLICY, NOW)).toEqual({
+      state: "ON_TRACK",
+      target_minutes: 240,
+      due_at: "2026-03-01T14:00:00.000Z",
+      remaining_seconds: 7200,
+    });
+  });
+
+  it("flags open reviews close to the deadline as at risk", () => {
+    const evaluation = evaluateSla(
+      review({ created_at: "2026-03-01T08:30:00Z" }),
+      DEFAULT_SLA_POLICY,
+      NOW
+    );
+    expect(evaluation?.state).toBe("AT_RISK");
+    expect(evaluation?.remaining_seconds).toBe(1800);
+  });
+
+  it("flags open reviews past the deadline as breached", () => {
+    const evaluation = evaluateSla(
+      review({ status: "ESCALATED", created_at: "2026-03-01T07:00:00Z" }),
+      DEFAULT_SLA_POLICY,
+      NOW
+    );
+    expect(evaluation?.state).toBe("BREACHED");
+    expect(evaluation?.remaining_seconds).toBe(-3600);
+  });
+
+  it("stops the clock when a review is resolved", () => {
+    const met = review({ status: "RESOLVED", resolved_at: "2026-03-01T11:00:00Z" });
+    const late = review({ status: "CLOSED", resolved_at: "2026-03-01T15:00:00Z" });
+
+    expect(evaluateSla(met, DEFAULT_SLA_POLICY, NOW)?.state).toBe("MET");
+    expect(evaluateSla(late, DEFAULT_SLA_POLICY, NOW)?.state).toBe("BREACHED");
+    expect(evaluateSla(review({ status: "RESOLVED" }), DEFAULT_SLA_POLICY, NOW)).toBeNull();
+  });
+});
+
+describe("time to breach", () => {
+  it("orders open reviews by remaining time and finished reviews last", () => {
+    const breached = review({ created_at: "2026-03-01T07:00:00Z" });
+    const onTrack = review();
+    const resolved = review({ status: "RESOLVED", resolved_at: "2026-03-01T11:00:00Z" });
+
+    expect(getTimeToBreach(resolved, DEFAULT_SLA_POLICY, NOW)).toBe(Number.POSITIVE_INFINITY);
+    expect(
+      [resolved, onTrack, breached].sort((a, b) =>
+        compareTimeToBreach(a, b, DEFAULT_SLA_POLICY, NOW)
+      )
+    ).toEqual([breached, onTrack, resolved]);
+  });
+});
+
+describe("formatSlaDuration", () => {
+  it.each([
+    [45, "<1m"],
+    [600, "10m"],
+    [7200, "2h"],
+    [4500, "1h 15m"],
+    [-93600, "1d 2h"],
+    [172800, "2d"],
+  ])("formats %i seconds as %s", (seconds, expected) => {
+    expect(formatSlaDuration(seconds)).toBe(expected);
+  });
+});
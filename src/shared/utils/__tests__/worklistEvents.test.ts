@@ -0,0 +1,176 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyWorklistEvent,
+  applyWorklistEventToStats,
+  isClaimedByOther,
+  matchesWorklistFilters,
+} from "../worklistEvents";
+import type { WorklistEvent, WorklistItem, WorklistStats } from "../../../types/worklist";
+
+function buildWorklistItem(overrides: Partial<WorklistItem> = {}): WorklistItem {
+  return {
+    review_id: `review_${overrides.transaction_id ?? "txn_1"}`,
+    transaction_id: "txn_1",
+    status: "PENDING",
+    priority: 2,
+    card_id: "card_1",
+    card_last4: "4242",
+    transaction_amount: 100,
+    transaction_currency: "USD",
+    transaction_timestamp: "2026-01-15T09:00:00Z",
+    decision: "DECLINE",
+    decision_reason: "RULE_MATCH",
+    decision_score: 80,
+    risk_level: "HIGH",
+    assigned_analyst_id: null,
+    assigned_at: null,
+    case_id: null,
+    case_number: null,
+    first_reviewed_at: null,
+    last_activity_at: null,
+    created_at: "2026-01-15T09:00:00Z",
+    merchant_id: null,
+    merchant_category_code: null,
+    trace_id: null,
+    ...overrides,
+  };
+}
+
+function makeEvent(
+  item: WorklistItem,
+  overrides: Partial<Omit<WorklistEvent, "item">> = {}
+): WorklistEvent {
+  return {
+    event_id: "evt_1",
+    type: "REVIEW_ASSIGNED",
+    item,
+    previous: { status: "PENDING", assigned_analyst_id: null },
+    actor_id: "analyst_2",
+    actor_name: "Dana Analyst",
+    occurred_at: "2026-01-15T10:00:00Z",
+    ...overrides,
+  };
+}
+
+const stats: WorklistStats = {
+  unassigned_total: 3,
+  unassigned_by_priority: { "1": 1, "2": 2 },
+  unassigned_by_risk: { LOW: 0, MEDIUM: 1, HIGH: 2, CRITICAL: 0 },
+  my_assigned_total: 1,
+  my_assigned_by_status: { PENDING: 0, IN_REVIEW: 1, ESCALATED: 0, RESOLVED: 0, CLOSED: 0 },
+  resolved_today: 4,
+  resolved_by_code: {},
+  avg_resolution_minutes: 12,
+};
+
+describe("matchesWorklistFilters", () => {
+  it("drops closed reviews unless filtered for", () => {
+    const resolved = buildWorklistItem({ status: "RESOLVED" });
+
+    expect(matchesWorklistFilters(resolved, {}, null)).toBe(false);
+    expect(matchesWorklistFilters(resolved, { status: "RESOLVED" }, null)).toBe(true);
+  });
+
+  it("applies the assigned-only filter against the current user", () => {
+    const item = buildWorklistItem({ assigned_analyst_id: "analyst_1" });
+
+    expect(matchesWorklistFilters(item, { assigned_only: true }, "analyst_1")).toBe(true);
+    expect(matchesWorklistFilters(item, { assigned_only: true }, "analyst_2")).toBe(false);
+  });
+});
+
+describe("applyWorklistEvent", () => {
+  const items = [
+    buildWorklistItem({ transaction_id: "txn_1", priority: 1 }),
+    buildWorklistItem({ transaction_id: "txn_3", priority: 3 }),
+  ];
+
+  it("replaces a loaded review in place", () => {
+    const updated = buildWorklistItem({
+      transaction_id: "txn_3",
+      priority: 3,
+      status: "IN_REVIEW",
+      assigned_analyst_id: "analyst_2",
+    });
+
+    const result = applyWorklistEvent(items, makeEvent(updated), {}, null);
+
+    expect(result.totalDelta).toBe(0);
+    expect(result.items[1]).toBe(updated);
+  });
+
+  it("inserts a new review by priority", () => {
+    const created = buildWorklistItem({ transaction_id: "txn_2", priority: 2 });
+
+    const result = applyWorklistEvent(
+      items,
+      makeEvent(created, { type: "REVIEW_CREATED", previous: null }),
+      {},
+      null
+    );
+
+    expect(result.totalDelta).toBe(1);
+    expect(result.items.map((i) => i.transaction_id)).toEqual(["txn_1", "txn_2", "txn_3"]);
+  });
+
+  it("removes a review that no longer matches the filters", () => {
+    const resolved = buildWorklistItem({ transaction_id: "txn_1", status: "RESOLVED" });
+
+    const result = applyWorklistEvent(
+      items,
+      makeEvent(resolved, { type: "REVIEW_STATUS_CHANGED" }),
+      {},
+      null
+    );
+
+    expect(result.totalDelta).toBe(-1);
+    expect(result.items.map((i) => i.transaction_id)).toEqual(["txn_3"]);
+  });
+});
+
+describe("applyWorklistEventToStats", () => {
+  it("moves a claimed review out of the unassigned counts", () => {
+    const item = buildWorklistItem({
+      priority: 2,
+      risk_level: "HIGH",
+      status: "IN_REVIEW",
+      assigned_analyst_id: "analyst_2",
+    });
+
+    const next = applyWorklistEventToStats(stats, makeEvent(item), "analyst_1");
+
+    expect(next.unassigned_total).toBe(2);
+    expect(next.unassigned_by_priority["2"]).toBe(1);
+    expect(next.unassigned_by_risk.HIGH).toBe(1);
+    expect(next.my_assigned_total).toBe(1);
+  });
+
+  it("counts a resolution of the current user's review", () => {
+    const item = buildWorklistItem({ status: "RESOLVED", assigned_analyst_id: "analyst_1" });
+    const event = makeEvent(item, {
+      type: "REVIEW_STATUS_CHANGED",
+      previous: { status: "IN_REVIEW", assigned_analyst_id: "analyst_1" },
+    });
+
+    const next = applyWorklistEventToStats(stats, event, "analyst_1");
+
+    expect(next.my_assigned_total).toBe(0);
+    expect(next.my_assigned_by_status.IN_REVIEW).toBe(0);
+    expect(next.resolved_today).toBe(5);
+  });
+});
+
+describe("isClaimedByOther", () => {
+  const item = buildWorklistItem({ transaction_id: "txn_1", assigned_analyst_id: "analyst_2" });
+
+  it("flags assignments to another analyst", () => {
+    expect(isClaimedByOther(makeEvent(item), "txn_1", "analyst_1")).toBe(true);
+  });
+
+  it("ignores the current user's own claims and other event types", () => {
+    expect(isClaimedByOther(makeEvent(item), "txn_1", "analyst_2")).toBe(false);
+    expect(
+      isClaimedByOther(makeEvent(item, { type: "REVIEW_STATUS_CHANGED" }), "txn_1", "analyst_1")
+    ).toBe(false);
+  });
+});
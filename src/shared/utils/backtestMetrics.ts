@@ -0,0 +1,43 @@
+/**
+ * Backtest metrics
+ *
+ * Derives precision, recall and projected alert volume from a rule backtest.
+ * Only labelled transactions (FRAUD_CONFIRMED / FALSE_POSITIVE) feed precision
+ * and recall; alert volume counts every match.
+ */
+
+import type { RuleBacktestResponse } from "../../api/types";
+
+export interface BacktestMetrics {
+  /** TP / (TP + FP); null when no labelled transaction matched */
+  precision: number | null;
+  /** TP / (TP + FN); null when no confirmed fraud is in range */
+  recall: number | null;
+  /** Matches per calendar day over the backtest range */
+  alertsPerDay: number;
+  /** Share of matches that have an analyst outcome */
+  labelledMatchRate: number | null;
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+export function computeBacktestMetrics(result: RuleBacktestResponse): BacktestMetrics {
+  const matrix = result.confusion_matrix;
+  const labelledMatches = matrix.true_positives + matrix.false_positives;
+
+  return {
+    precision: ratio(matrix.true_positives, labelledMatches),
+    recall: ratio(matrix.true_positives, matrix.true_positives + matrix.false_negatives),
+    alertsPerDay: result.days > 0 ? result.match_count / result.days : result.match_count,
+    labelledMatchRate: ratio(labelledMatches, result.match_count),
+  };
+}
+
+/**
+ * Formats a 0..1 ratio as a percentage, or "-" when undefined
+ */
+export function formatRatio(value: number | null): string {
+  return value == null ? "-" : `${(value * 100).toFixed(1)}%`;
+}
@@ -0,0 +1,218 @@
+/**
+ * Case timeline
+ *
+ * Merges everything that happened on a case into one chronological list:
+ * case activity, notes on the linked transactions, review status changes
+ * and escalations derived from each transaction's review, and ops agent
+ * insights. Reviews only carry the timestamp of each milestone, so one
+ * review yields an event per milestone it has reached.
+ */
+
+import type { CaseActivity } from "../../types/case";
+import { NOTE_TYPE_CONFIG, type AnalystNote } from "../../types/notes";
+import type { InsightDetail } from "../../types/opsAnalyst";
+import type { TransactionReview } from "../../types/review";
+
+export type CaseTimelineEventType = "ACTIVITY" | "NOTE" | "REVIEW" | "ESCALATION" | "INSIGHT";
+
+export const CASE_TIMELINE_EVENT_TYPES: CaseTimelineEventType[] = [
+  "ACTIVITY",
+  "NOTE",
+  "REVIEW",
+  "ESCALATION",
+  "INSIGHT",
+];
+
+export const CASE_TIMELINE_EVENT_CONFIG: Record<
+  CaseTimelineEventType,
+  { label: string; color: string }
+> = {
+  ACTIVITY: { label: "Case activity", color: "blue" },
+  NOTE: { label: "Notes", color: "green" },
+  REVIEW: { label: "Review", color: "cyan" },
+  ESCALATION: { label: "Escalations", color: "red" },
+  INSIGHT: { label: "AI insights", color: "purple" },
+};
+
+export interface CaseTimelineEvent {
+  id: string;
+  type: CaseTimelineEventType;
+  occurred_at: string;
+  title: string;
+  description: string | null;
+  analyst_id: string | null;
+  analyst_name: string | null;
+  /** Linked transaction the event came from; null for case-level activity */
+  transaction_id: string | null;
+}
+
+export interface CaseTimelineSources {
+  activities: CaseActivity[];
+  notes: AnalystNote[];
+  reviews: TransactionReview[];
+  insights: InsightDetail[];
+}
+
+export interface CaseTimelineFilter {
+  /** Event types to keep; empty keeps every type */
+  types: CaseTimelineEventType[];
+  /** Analyst to keep; null keeps every event, including ones without an analyst */
+  analystId: string | null;
+}
+
+export interface TimelineAnalyst {
+  id: string;
+  name: string;
+}
+
+function activityEvent(activity: CaseActivity): CaseTimelineEvent {
+  const txnId = activity.activity_data?.transaction_id;
+  return {
+    id: `activity:${activity.id}`,
+    type: "ACTIVITY",
+    occurred_at: activity.created_at,
+    title: activity.activity_description,
+    description: null,
+    analyst_id: activity.performed_by,
+    analyst_name: activity.performed_by_name,
+    transaction_id: typeof txnId === "string" ? txnId : null,
+  };
+}
+
+function noteEvent(note: AnalystNote): CaseTimelineEvent {
+  const label = NOTE_TYPE_CONFIG[note.note_type]?.label ?? note.note_type;
+  return {
+    id: `note:${note.id}`,
+    type: "NOTE",
+    occurred_at: note.created_at,
+    title: note.is_private ? `${label} note (private)` : `${label} note`,
+    description: note.note_content,
+    analyst_id: note.analyst_id,
+    analyst_name: note.analyst_name,
+    transaction_id: note.transaction_id,
+  };
+}
+
+function reviewEvents(review: TransactionReview): CaseTimelineEvent[] {
+  const base = {
+    transaction_id: review.transaction_id,
+    analyst_id: review.assigned_analyst_id,
+    analyst_name: review.assigned_analyst_name,
+    description: null,
+  };
+  const events: CaseTimelineEvent[] = [
+    {
+      ...base,
+      id: `review:${review.id}:created`,
+      type: "REVIEW",
+      occurred_at: review.created_at,
+      title: "Review opened",
+      analyst_id: null,
+      analyst_name: null,
+    },
+  ];
+
+  if (review.assigned_at != null) {
+    events.push({
+      ...base,
+      id: `review:${review.id}:assigned`,
+      type: "REVIEW",
+      occurred_at: review.assigned_at,
+      title: `Assigned to ${review.assigned_analyst_name ?? review.assigned_analyst_id ?? "analyst"}`,
+    });
+  }
+  if (review.first_reviewed_at != null) {
+    events.push({
+      ...base,
+      id: `review:${review.id}:in-review`,
+      type: "REVIEW",
+      occurred_at: review.first_reviewed_at,
+      title: "Review started",
+    });
+  }
+  if (review.escalated_at != null) {
+    events.push({
+      ...base,
+      id: `review:${review.id}:escalated`,
+      type: "ESCALATION",
+      occurred_at: review.escalated_at,
+      title: review.escalated_to != null ? `Escalated to ${review.escalated_to}` : "Escalated",
+      description: review.escalation_reason,
+    });
+  }
+  if (review.resolved_at != null) {
+    events.push({
+      ...base,
+      id: `review:${review.id}:resolved`,
+      type: "REVIEW",
+      occurred_at: review.resolved_at,
+      title:
+        review.resolution_code != null
+          ? `Resolved as ${review.resolution_code}`
+          : "Review resolved",
+      description: review.resolution_notes,
+      // resolved_by is the resolving analyst, who may not be the assignee
+      analyst_id: review.resolved_by ?? review.assigned_analyst_id,
+      analyst_name: review.resolved_by != null ? null : review.assigned_analyst_name,
+    });
+  }
+  return events;
+}
+
+function insightEvent(insight: InsightDetail): CaseTimelineEvent {
+  return {
+    id: `insight:${insight.insight_id}`,
+    type: "INSIGHT",
+    occurred_at: insight.generated_at,
+    title: `AI insight (${insight.severity})`,
+    description: insight.summary,
+    analyst_id: null,
+    analyst_name: null,
+    transaction_id: insight.transaction_id,
+  };
+}
+
+const byOccurrence = (a: CaseTimelineEvent, b: CaseTimelineEvent): number => {
+  const diff = Date.parse(a.occurred_at) - Date.parse(b.occurred_at);
+  return diff !== 0 ? diff : a.id.localeCompare(b.id);
+};
+
+/**
+ * All events, oldest first; ties are ordered by id so the order is stable
+ */
+export function buildCaseTimeline(sources: CaseTimelineSources): CaseTimelineEvent[] {
+  return [
+    ...sources.activities.map(activityEvent),
+    ...sources.notes.map(noteEvent),
+    ...sources.reviews.flatMap(reviewEvents),
+    ...sources.insights.map(insightEvent),
+  ].sort(byOccurrence);
+}
+
+export function filterCaseTimeline(
+  events: CaseTimelineEvent[],
+  { types, analystId }: CaseTimelineFilter
+): CaseTimelineEvent[] {
+  return events.filter(
+    (event) =>
+      (types.length === 0 || types.includes(event.type)) &&
+      (analystId == null || event.analyst_id === analystId)
+  );
+}
+
+/**
+ * Analysts who appear on the timeline, by name; an analyst seen only by id
+ * is listed under the id
+ */
+export function listTimelineAnalysts(events: CaseTimelineEvent[]): TimelineAnalyst[] {
+  const names = new Map<string, string>();
+  for (const event of events) {
+    if (event.analyst_id == null) continue;
+    if (event.analyst_name != null || !names.has(event.analyst_id)) {
+      names.set(event.analyst_id, event.analyst_name ?? event.analyst_id);
+    }
+  }
+  return Array.from(names, ([id, name]) => ({ id, name })).sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+}
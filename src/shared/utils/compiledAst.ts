@@ -0,0 +1,201 @@
+/**
+ * Compiled AST inspection
+ *
+ * Orders compiled rules the way the runtime evaluates them (ascending
+ * priority), checks every field reference against the field registry version
+ * the AST was compiled with, and produces the canonical JSON and SHA-256
+ * checksum the runtime team verifies before deploying.
+ */
+
+import type { CompiledAST, CompiledRule, PersistedConditionNode } from "../../types/domain";
+import type { FieldDefinition } from "../../types/fieldDefinitions";
+import type { Operator } from "../../types/enums";
+import { isVelocityField } from "./guards";
+import { sha256Hex } from "./hash";
+
+export type AstIssueSeverity = "error" | "warning" | "info";
+
+export interface AstValidationIssue {
+  severity: AstIssueSeverity;
+  /** Null for issues that concern the AST as a whole */
+  rule_id: string | null;
+  message: string;
+}
+
+export type RegistryField = Pick<FieldDefinition, "field_key" | "allowed_operators" | "is_active">;
+
+export interface AstRegistryContext {
+  /** Registry version the AST was validated against; null when it could not be loaded */
+  registry: { registry_version: number; fields: RegistryField[] } | null;
+  /** Latest published registry version, when known */
+  latestVersion: number | null;
+}
+
+interface FieldReference {
+  field: string;
+  /** Null for velocity group_by dimensions, which take no operator */
+  op: Operator | null;
+}
+
+/**
+ * Compiled rules in evaluation order: lower priority values run first
+ */
+export function orderCompiledRules(rules: CompiledRule[]): CompiledRule[] {
+  return [...rules].sort((a, b) =>
+    a.priority === b.priority ? a.ruleId.localeCompare(b.ruleId) : a.priority - b.priority
+  );
+}
+
+/**
+ * Registry field references in a compiled condition; velocity aggregates are
+ * computed by the runtime, so only their group_by dimensions are registry fields
+ */
+export function collectFieldReferences(node: PersistedConditionNode): FieldReference[] {
+  if ("field" in node) {
+    return isVelocityField(node.field)
+      ? node.field.group_by.map((field) => ({ field, op: null }))
+      : [{ field: String(node.field), op: node.op }];
+  }
+  return (node.and ?? node.or ?? []).flatMap(collectFieldReferences);
+}
+
+function validateRule(
+  rule: CompiledRule,
+  registry: NonNullable<AstRegistryContext["registry"]>,
+  fieldsByKey: Map<string, RegistryField>
+): AstValidationIssue[] {
+  const references = collectFieldReferences(rule.when);
+  if (references.length === 0 && (rule.when.and ?? rule.when.or ?? []).length === 0) {
+    return [
+      {
+        severity: "warning",
+        rule_id: rule.ruleId,
+        message: `${rule.ruleId} has an empty condition and matches every transaction.`,
+      },
+    ];
+  }
+
+  const issues: AstValidationIssue[] = [];
+  const reported = new Set<string>();
+  const report = (key: string, issue: Omit<AstValidationIssue, "rule_id">): void => {
+    if (reported.has(key)) return;
+    reported.add(key);
+    issues.push({ ...issue, rule_id: rule.ruleId });
+  };
+
+  for (const { field, op } of references) {
+    const definition = fieldsByKey.get(field);
+    if (definition == null) {
+      report(field, {
+        severity: "error",
+        message: `${rule.ruleId} references ${field}, which is not in field registry v${registry.registry_version}.`,
+      });
+    } else if (op != null && !definition.allowed_operators.includes(op)) {
+      report(`${field}:${op}`, {
+        severity: "error",
+        message: `${rule.ruleId} applies ${op} to ${field}, which registry v${registry.registry_version} does not allow.`,
+      });
+    } else if (!definition.is_active) {
+      report(field, {
+        severity: "warning",
+        message: `${rule.ruleId} references ${field}, which is inactive in registry v${registry.registry_version}.`,
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Validates a compiled AST against the field registry it was compiled with
+ */
+export function validateCompiledAst(
+  ast: CompiledAST,
+  context: AstRegistryContext
+): AstValidationIssue[] {
+  const issues: AstValidationIssue[] = [];
+  const { registry, latestVersion } = context;
+
+  if (ast.registryVersion == null) {
+    issues.push({
+      severity: "warning",
+      rule_id: null,
+      message:
+        registry == null
+          ? "The AST does not record the field registry version it was compiled against."
+          : `The AST does not record the field registry version it was compiled against; validated against v${registry.registry_version}.`,
+    });
+  }
+
+  const seen = new Set<string>();
+  for (const rule of ast.rules) {
+    if (seen.has(rule.ruleId)) {
+      issues.push({
+        severity: "error",
+        rule_id: rule.ruleId,
+        message: `${rule.ruleId} appears more than once in the compiled rules.`,
+      });
+    }
+    seen.add(rule.ruleId);
+  }
+
+  if (registry == null) {
+    issues.push({
+      severity: "error",
+      rule_id: null,
+      message: "The field registry could not be loaded; field references were not verified.",
+    });
+    return issues;
+  }
+
+  if (latestVersion != null && latestVersion > registry.registry_version) {
+    issues.push({
+      severity: "info",
+      rule_id: null,
+      message: `Compiled against field registry v${registry.registry_version}; v${latestVersion} is the latest published version.`,
+    });
+  }
+
+  const fieldsByKey = new Map(registry.fields.map((f) => [f.field_key, f]));
+  for (const rule of orderCompiledRules(ast.rules)) {
+    issues.push(...validateRule(rule, registry, fieldsByKey));
+  }
+  return issues;
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * Canonical JSON: keys sorted at every level, so the same AST always
+ * serializes to the same bytes
+ */
+export function canonicalizeAst(ast: CompiledAST): string {
+  return `${JSON.stringify(sortKeys(ast), null, 2)}\n`;
+}
+
+/**
+ * Hex-encoded SHA-256 of the canonical JSON
+ */
+export async function computeAstChecksum(ast: CompiledAST): Promise<string> {
+  return sha256Hex(canonicalizeAst(ast));
+}
+
+export function astFileName(ast: CompiledAST): string {
+  return `${ast.rulesetId}-v${ast.version}.ast.json`;
+}
+
+/**
+ * Checksum file in `sha256sum` format, so `sha256sum -c` verifies the download
+ */
+export function buildChecksumFile(ast: CompiledAST, checksum: string): string {
+  return `${checksum}  ${astFileName(ast)}\n`;
+}
@@ -0,0 +1,35 @@
+/**
+ * Bounded concurrency
+ */
+
+/**
+ * Maps every item through `fn` with at most `limit` calls in flight.
+ * Resolves with the results in item order and rejects with the first
+ * failure, after which no further calls are started.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async (): Promise<void> => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index] as T, index);
+      } catch (err) {
+        failed = true;
+        throw err;
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(1, limit), items.length) }, () => worker())
+  );
+  return results;
+}
@@ -0,0 +1,354 @@
+/**
+ * Client-side condition tree evaluator
+ *
+ * Evaluates a persisted condition tree against a single sample transaction
+ * record without calling the backend. Every leaf is evaluated (no
+ * short-circuiting) so the returned trace shows the outcome of each predicate.
+ *
+ * Semantics follow the rule engine:
+ * - An empty AND group matches, an empty OR group does not.
+ * - A missing field only satisfies IS_NULL; every other operator fails.
+ * - Velocity predicates cannot be computed from one record, so their
+ *   aggregate must be supplied in the sample under `velocityFieldKey(field)`.
+ */
+
+import type {
+  PersistedConditionNode,
+  PersistedConditionTree,
+  VelocityField,
+} from "../../types/domain";
+import { LogicalOperator, Operator } from "../../types/enums";
+import { isVelocityField } from "./guards";
+
+/**
+ * Sample transaction record keyed by field key
+ */
+export type SampleTransaction = Record<string, unknown>;
+
+/**
+ * Outcome of a single predicate
+ */
+export interface PredicateTrace {
+  kind: "predicate";
+  /** Dot-separated position of the node in the tree (e.g. "0.1") */
+  path: string;
+  /** Field key, or the velocity field definition */
+  field: string | VelocityField;
+  /** Key that was looked up in the sample */
+  sampleKey: string;
+  op: Operator;
+  /** Value(s) from the condition */
+  expected: unknown;
+  /** Value found in the sample (undefined when absent) */
+  actual: unknown;
+  matched: boolean;
+  /** Why the predicate could not be evaluated normally */
+  error?: string;
+}
+
+/**
+ * Outcome of an AND/OR group
+ */
+export interface GroupTrace {
+  kind: "group";
+  path: string;
+  op: LogicalOperator;
+  matched: boolean;
+  children: EvaluationTraceNode[];
+}
+
+export type EvaluationTraceNode = GroupTrace | PredicateTrace;
+
+/**
+ * Result of evaluating a condition tree
+ */
+export interface EvaluationResult {
+  matched: boolean;
+  trace: GroupTrace;
+}
+
+type PersistedPredicate = Exclude<PersistedConditionNode, PersistedConditionTree>;
+
+interface OperatorOutcome {
+  matched: boolean;
+  error?: string;
+}
+
+const MISSING_VALUE_ERROR = "Field not present in sample";
+
+/**
+ * Key under which a velocity aggregate is read from the sample,
+ * e.g. `VELOCITY_COUNT_5_MINUTES_CARD_NUMBER`
+ */
+export function velocityFieldKey(field: VelocityField): string {
+  return [
+    "VELOCITY",
+    field.aggregation,
+    String(field.window.value),
+    field.window.unit,
+    ...field.group_by,
+  ].join("_");
+}
+
+function isPredicate(node: PersistedConditionNode): node is PersistedPredicate {
+  return typeof node === "object" && node !== null && "field" in node && "op" in node;
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null;
+}
+
+function resolveSampleValue(
+  sample: SampleTransaction,
+  key: string
+): { sampleKey: string; value: unknown } {
+  if (key in sample) return { sampleKey: key, value: sample[key] };
+
+  const lowered = key.toLowerCase();
+  const match = Object.keys(sample).find((candidate) => candidate.toLowerCase() === lowered);
+  return match == null
+    ? { sampleKey: key, value: undefined }
+    : { sampleKey: match, value: sample[match] };
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function toTimestamp(value: unknown): number | null {
+  if (typeof value !== "string" || value.trim() === "") return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+function toComparable(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  return JSON.stringify(value);
+}
+
+/**
+ * Loose equality used by EQ/NE/IN: numbers compare numerically, booleans
+ * accept "true"/"false" strings, everything else compares as strings.
+ */
+function valuesEqual(actual: unknown, expected: unknown): boolean {
+  const actualNumber = toNumber(actual);
+  const expectedNumber = toNumber(expected);
+  if (actualNumber != null && expectedNumber != null) return actualNumber === expectedNumber;
+
+  return toComparable(actual) === toComparable(expected);
+}
+
+/**
+ * Orders two values numerically, then chronologically; null when incomparable
+ */
+function compareValues(actual: unknown, expected: unknown): number | null {
+  const actualNumber = toNumber(actual);
+  const expectedNumber = toNumber(expected);
+  if (actualNumber != null && expectedNumber != null) return actualNumber - expectedNumber;
+
+  const actualTime = toTimestamp(actual);
+  const expectedTime = toTimestamp(expected);
+  if (actualTime != null && expectedTime != null) return actualTime - expectedTime;
+
+  return null;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Converts a SQL LIKE pattern (`%` any run, `_` single character) to a RegExp
+ */
+export function likePatternToRegExp(pattern: string): RegExp {
+  const source = Array.from(pattern)
+    .map((char) => {
+      if (char === "%") return ".*";
+      if (char === "_") return ".";
+      return escapeRegExp(char);
+    })
+    .join("");
+  return new RegExp(`^${source}$`, "s");
+}
+
+function evaluateOrdering(op: Operator, actual: unknown, expected: unknown): OperatorOutcome {
+  const diff = compareValues(actual, expected);
+  if (diff == null) return { matched: false, error: "Values are not comparable" };
+
+  switch (op) {
+    case Operator.GT:
+      return { matched: diff > 0 };
+    case Operator.GTE:
+      return { matched: diff >= 0 };
+    case Operator.LT:
+      return { matched: diff < 0 };
+    default:
+      return { matched: diff <= 0 };
+  }
+}
+
+function evaluateMembership(op: Operator, actual: unknown, expected: unknown): OperatorOutcome {
+  if (!Array.isArray(expected)) return { matched: false, error: `${op} expects a list of values` };
+  const found = expected.some((candidate) => valuesEqual(actual, candidate));
+  return { matched: op === Operator.IN ? found : !found };
+}
+
+function evaluateBetween(actual: unknown, expected: unknown): OperatorOutcome {
+  if (!Array.isArray(expected) || expected.length !== 2) {
+    return { matched: false, error: "BETWEEN expects [min, max]" };
+  }
+  const lower = compareValues(actual, expected[0]);
+  const upper = compareValues(actual, expected[1]);
+  if (lower == null || upper == null) return { matched: false, error: "Values are not comparable" };
+  return { matched: lower >= 0 && upper <= 0 };
+}
+
+function evaluateText(op: Operator, actual: unknown, expected: unknown): OperatorOutcome {
+  if (op === Operator.CONTAINS && Array.isArray(actual)) {
+    return { matched: actual.some((item) => valuesEqual(item, expected)) };
+  }
+
+  const text = toComparable(actual);
+  const needle = toComparable(expected);
+
+  switch (op) {
+    case Operator.LIKE:
+      return { matched: likePatternToRegExp(needle).test(text) };
+    case Operator.NOT_LIKE:
+      return { matched: !likePatternToRegExp(needle).test(text) };
+    case Operator.CONTAINS:
+      return { matched: text.includes(needle) };
+    case Operator.STARTS_WITH:
+      return { matched: text.startsWith(needle) };
+    case Operator.ENDS_WITH:
+      return { matched: text.endsWith(needle) };
+    default:
+      try {
+        return { matched: new RegExp(needle).test(text) };
+      } catch {
+        return { matched: false, error: "Invalid regular expression" };
+      }
+  }
+}
+
+const ORDERING_OPERATORS = new Set<Operator>([
+  Operator.GT,
+  Operator.GTE,
+  Operator.LT,
+  Operator.LTE,
+]);
+
+const MEMBERSHIP_OPERATORS = new Set<Operator>([Operator.IN, Operator.NOT_IN]);
+
+const TEXT_OPERATORS = new Set<Operator>([
+  Operator.LIKE,
+  Operator.NOT_LIKE,
+  Operator.CONTAINS,
+  Operator.STARTS_WITH,
+  Operator.ENDS_WITH,
+  Operator.REGEX,
+]);
+
+/**
+ * Applies a single operator to a sample value
+ */
+export function applyOperator(op: Operator, actual: unknown, expected: unknown): OperatorOutcome {
+  if (op === Operator.IS_NULL) return { matched: isMissing(actual) };
+  if (op === Operator.IS_NOT_NULL) return { matched: !isMissing(actual) };
+  if (isMissing(actual)) return { matched: false, error: MISSING_VALUE_ERROR };
+
+  if (op === Operator.EQ) return { matched: valuesEqual(actual, expected) };
+  if (op === Operator.NE) return { matched: !valuesEqual(actual, expected) };
+  if (op === Operator.BETWEEN) return evaluateBetween(actual, expected);
+  if (ORDERING_OPERATORS.has(op)) return evaluateOrdering(op, actual, expected);
+  if (MEMBERSHIP_OPERATORS.has(op)) return evaluateMembership(op, actual, expected);
+  if (TEXT_OPERATORS.has(op)) return evaluateText(op, actual, expected);
+
+  return { matched: false, error: `Unsupported operator: ${String(op)}` };
+}
+
+function evaluatePredicate(
+  node: PersistedPredicate,
+  sample: SampleTransaction,
+  path: string
+): PredicateTrace {
+  const key = isVelocityField(node.field) ? velocityFieldKey(node.field) : String(node.field);
+  const { sampleKey, value } = resolveSampleValue(sample, key);
+  const outcome = applyOperator(node.op, value, node.value);
+
+  const trace: PredicateTrace = {
+    kind: "predicate",
+    path,
+    field: node.field,
+    sampleKey,
+    op: node.op,
+    expected: node.value,
+    actual: value,
+    matched: outcome.matched,
+  };
+  if (outcome.error != null) trace.error = outcome.error;
+  return trace;
+}
+
+function evaluateGroup(
+  op: LogicalOperator,
+  children: PersistedConditionNode[],
+  sample: SampleTransaction,
+  path: string
+): GroupTrace {
+  const childTraces = children.map((child, index) =>
+    evaluateNode(child, sample, path === "" ? String(index) : `${path}.${index}`)
+  );
+  const matched =
+    op === LogicalOperator.OR
+      ? childTraces.some((child) => child.matched)
+      : childTraces.every((child) => child.matched);
+
+  return { kind: "group", path, op, matched, children: childTraces };
+}
+
+function evaluateNode(
+  node: PersistedConditionNode,
+  sample: SampleTransaction,
+  path: string
+): EvaluationTraceNode {
+  if (isPredicate(node)) return evaluatePredicate(node, sample, path);
+  if (Array.isArray(node.or)) return evaluateGroup(LogicalOperator.OR, node.or, sample, path);
+  return evaluateGroup(LogicalOperator.AND, node.and ?? [], sample, path);
+}
+
+/**
+ * Evaluates a persisted condition tree against a sample transaction
+ */
+export function evaluateConditionTree(
+  tree: PersistedConditionTree | null | undefined,
+  sample: SampleTransaction
+): EvaluationResult {
+  const root = evaluateNode(tree ?? { and: [] }, sample, "");
+  const trace: GroupTrace =
+    root.kind === "group"
+      ? root
+      : {
+          kind: "group",
+          path: "",
+          op: LogicalOperator.AND,
+          matched: root.matched,
+          children: [root],
+        };
+
+  return { matched: trace.matched, trace };
+}
+
+/**
+ * Flattens a trace into its predicate leaves, in tree order
+ */
+export function flattenPredicateTraces(node: EvaluationTraceNode): PredicateTrace[] {
+  if (node.kind === "predicate") return [node];
+  return node.children.flatMap(flattenPredicateTraces);
+}
@@ -0,0 +1,275 @@
+/**
+ * Rule version diff
+ *
+ * Structural comparison of two rule versions. Condition trees are aligned
+ * node by node rather than as text, so a reordered or re-thresholded predicate
+ * shows up as one modification instead of a wall of JSON changes.
+ *
+ * Children of a group are aligned in three passes: identical nodes first, then
+ * predicates on the same field (reported as modified), then remaining groups
+ * in order. Whatever is left over is added or removed.
+ */
+
+import type {
+  PersistedConditionNode,
+  PersistedConditionTree,
+  RuleVersion,
+  VelocityField,
+} from "../../types/domain";
+import { LogicalOperator } from "../../types/enums";
+import { isVelocityField } from "./guards";
+import { velocityFieldKey } from "./conditionEvaluator";
+
+export type DiffStatus = "unchanged" | "added" | "removed" | "modified";
+
+type PersistedPredicate = Exclude<PersistedConditionNode, PersistedConditionTree>;
+
+/**
+ * Single attribute change on a predicate that exists in both versions
+ */
+export interface PredicateChange {
+  /** `threshold` is a numeric value change; `value` covers everything else */
+  kind: "operator" | "threshold" | "value";
+  from: unknown;
+  to: unknown;
+}
+
+export interface PredicateDiff {
+  kind: "predicate";
+  status: DiffStatus;
+  field: string | VelocityField;
+  /** Stable key for the field (velocity fields use their sample key) */
+  fieldKey: string;
+  base: PersistedPredicate | null;
+  target: PersistedPredicate | null;
+  changes: PredicateChange[];
+}
+
+export interface GroupDiff {
+  kind: "group";
+  status: DiffStatus;
+  baseOp: LogicalOperator | null;
+  targetOp: LogicalOperator | null;
+  children: ConditionDiffNode[];
+}
+
+export type ConditionDiffNode = GroupDiff | PredicateDiff;
+
+export type ScopeDimension = "network" | "bin" | "mcc" | "logo";
+
+export interface ScopeDimensionChange {
+  dimension: ScopeDimension;
+  added: string[];
+  removed: string[];
+}
+
+export interface RuleVersionDiff {
+  tree: GroupDiff;
+  summary: { added: number; removed: number; modified: number };
+  priority: { from: number; to: number } | null;
+  scope: ScopeDimensionChange[];
+  hasChanges: boolean;
+}
+
+const SCOPE_DIMENSIONS: ScopeDimension[] = ["network", "bin", "mcc", "logo"];
+
+function isPredicate(node: PersistedConditionNode): node is PersistedPredicate {
+  return "field" in node && "op" in node;
+}
+
+function groupOp(node: PersistedConditionTree): LogicalOperator {
+  return Array.isArray(node.or) ? LogicalOperator.OR : LogicalOperator.AND;
+}
+
+function groupChildren(node: PersistedConditionTree): PersistedConditionNode[] {
+  return node.or ?? node.and ?? [];
+}
+
+function fieldKeyOf(node: PersistedPredicate): string {
+  return isVelocityField(node.field) ? velocityFieldKey(node.field) : String(node.field);
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function compareValue(from: unknown, to: unknown): PredicateChange | null {
+  if (sameJson(from, to)) return null;
+  const numeric = typeof from === "number" && typeof to === "number";
+  return { kind: numeric ? "threshold" : "value", from, to };
+}
+
+function predicateDiff(
+  status: DiffStatus,
+  base: PersistedPredicate | null,
+  target: PersistedPredicate | null
+): PredicateDiff {
+  const node = (target ?? base) as PersistedPredicate;
+  const changes: PredicateChange[] = [];
+  if (base != null && target != null) {
+    if (base.op !== target.op) changes.push({ kind: "operator", from: base.op, to: target.op });
+    const valueChange = compareValue(base.value, target.value);
+    if (valueChange != null) changes.push(valueChange);
+  }
+  return {
+    kind: "predicate",
+    status: status === "modified" && changes.length === 0 ? "unchanged" : status,
+    field: node.field,
+    fieldKey: fieldKeyOf(node),
+    base,
+    target,
+    changes,
+  };
+}
+
+/**
+ * Marks a whole subtree as added or removed
+ */
+function sideOnly(node: PersistedConditionNode, status: "added" | "removed"): ConditionDiffNode {
+  const base = status === "removed" ? node : null;
+  const target = status === "added" ? node : null;
+  if (isPredicate(node)) {
+    return predicateDiff(
+      status,
+      base as PersistedPredicate | null,
+      target as PersistedPredicate | null
+    );
+  }
+  const op = groupOp(node);
+  return {
+    kind: "group",
+    status,
+    baseOp: status === "removed" ? op : null,
+    targetOp: status === "added" ? op : null,
+    children: groupChildren(node).map((child) => sideOnly(child, status)),
+  };
+}
+
+/**
+ * Pairs base children with target children; returns target index -> base index
+ */
+function alignChildren(
+  base: PersistedConditionNode[],
+  target: PersistedConditionNode[]
+): Map<number, number> {
+  const pairs = new Map<number, number>();
+  const usedBase = new Set<number>();
+
+  const pass = (
+    matches: (b: PersistedConditionNode, t: PersistedConditionNode) => boolean
+  ): void => {
+    target.forEach((targetNode, targetIndex) => {
+      if (pairs.has(targetIndex)) return;
+      const baseIndex = base.findIndex(
+        (baseNode, index) => !usedBase.has(index) && matches(baseNode, targetNode)
+      );
+      if (baseIndex === -1) return;
+      pairs.set(targetIndex, baseIndex);
+      usedBase.add(baseIndex);
+    });
+  };
+
+  pass(sameJson);
+  pass((b, t) => isPredicate(b) && isPredicate(t) && fieldKeyOf(b) === fieldKeyOf(t));
+  pass((b, t) => !isPredicate(b) && !isPredicate(t));
+
+  return pairs;
+}
+
+function diffGroup(base: PersistedConditionTree, target: PersistedConditionTree): GroupDiff {
+  const baseChildren = groupChildren(base);
+  const targetChildren = groupChildren(target);
+  const pairs = alignChildren(baseChildren, targetChildren);
+  const matchedBase = new Set(pairs.values());
+
+  const children: ConditionDiffNode[] = [];
+  let nextBase = 0;
+  const flushRemovedBefore = (limit: number): void => {
+    for (; nextBase < limit; nextBase += 1) {
+      const baseNode = baseChildren[nextBase];
+      if (baseNode != null && !matchedBase.has(nextBase)) {
+        children.push(sideOnly(baseNode, "removed"));
+      }
+    }
+  };
+
+  targetChildren.forEach((targetNode, targetIndex) => {
+    const baseIndex = pairs.get(targetIndex);
+    const baseNode = baseIndex == null ? undefined : baseChildren[baseIndex];
+    if (baseIndex == null || baseNode == null) {
+      children.push(sideOnly(targetNode, "added"));
+      return;
+    }
+    flushRemovedBefore(baseIndex);
+    nextBase = Math.max(nextBase, baseIndex + 1);
+    children.push(diffNode(baseNode, targetNode));
+  });
+  flushRemovedBefore(baseChildren.length);
+
+  const baseOp = groupOp(base);
+  const targetOp = groupOp(target);
+  const changed = baseOp !== targetOp || children.some((child) => child.status !== "unchanged");
+  return { kind: "group", status: changed ? "modified" : "unchanged", baseOp, targetOp, children };
+}
+
+function diffNode(base: PersistedConditionNode, target: PersistedConditionNode): ConditionDiffNode {
+  // alignChildren only pairs nodes of the same kind
+  if (isPredicate(base)) return predicateDiff("modified", base, target as PersistedPredicate);
+  return diffGroup(base, target as PersistedConditionTree);
+}
+
+/**
+ * Diffs two persisted condition trees
+ */
+export function diffConditionTrees(
+  base: PersistedConditionTree | null | undefined,
+  target: PersistedConditionTree | null | undefined
+): GroupDiff {
+  return diffGroup(base ?? { and: [] }, target ?? { and: [] });
+}
+
+function countPredicates(node: ConditionDiffNode, status: DiffStatus): number {
+  if (node.kind === "predicate") return node.status === status ? 1 : 0;
+  return node.children.reduce((total, child) => total + countPredicates(child, status), 0);
+}
+
+/**
+ * Per-dimension scope changes; a null scope is treated as empty
+ */
+export function diffScopes(
+  base: RuleVersion["scope"],
+  target: RuleVersion["scope"]
+): ScopeDimensionChange[] {
+  return SCOPE_DIMENSIONS.flatMap((dimension) => {
+    const from = base?.[dimension] ?? [];
+    const to = target?.[dimension] ?? [];
+    const added = to.filter((value) => !from.includes(value));
+    const removed = from.filter((value) => !to.includes(value));
+    return added.length > 0 || removed.length > 0 ? [{ dimension, added, removed }] : [];
+  });
+}
+
+/**
+ * Diffs two rule versions: condition tree, priority and scope
+ */
+export function diffRuleVersions(
+  base: Pick<RuleVersion, "condition_tree" | "priority" | "scope">,
+  target: Pick<RuleVersion, "condition_tree" | "priority" | "scope">
+): RuleVersionDiff {
+  const tree = diffConditionTrees(base.condition_tree, target.condition_tree);
+  const priority =
+    base.priority === target.priority ? null : { from: base.priority, to: target.priority };
+  const scope = diffScopes(base.scope ?? null, target.scope ?? null);
+
+  return {
+    tree,
+    summary: {
+      added: countPredicates(tree, "added"),
+      removed: countPredicates(tree, "removed"),
+      modified: countPredicates(tree, "modified"),
+    },
+    priority,
+    scope,
+    hasChanges: tree.status !== "unchanged" || priority != null || scope.length > 0,
+  };
+}
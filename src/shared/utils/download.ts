@@ -0,0 +1,22 @@
+/**
+ * Browser file download
+ */
+
+/**
+ * Saves text content as a file through a temporary object URL
+ */
+export function downloadTextFile(fileName: string, content: string, mimeType: string): void {
+  downloadBlob(fileName, new Blob([content], { type: mimeType }));
+}
+
+/**
+ * Saves a blob, e.g. a fetched attachment, under the given file name
+ */
+export function downloadBlob(fileName: string, blob: Blob): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,484 @@
+/**
+ * Case evidence package
+ *
+ * Assembles what a dispute, chargeback or legal hold hand-off needs from a
+ * case: the case header and resolution, every linked transaction with its
+ * matched rules and shared notes, and the case audit trail. The package is
+ * sealed with a SHA-256 hash of its canonical JSON, so anyone holding the
+ * JSON manifest can recompute the hash and check nothing was changed.
+ * Private notes never leave the portal; the package only counts them.
+ * Values of sensitive fields are masked before sealing, and the package
+ * lists which fields were masked.
+ */
+
+import type { CaseActivity, TransactionCase } from "../../types/case";
+import type { AnalystNote, NoteType } from "../../types/notes";
+import type { TransactionStatus } from "../../types/review";
+import type { MatchedRule, Transaction, TransactionOverview } from "../../types/transaction";
+import { sha256Hex } from "./hash";
+import { MASKED_VALUE, isSensitiveKey, maskSensitiveValues } from "./sensitiveData";
+
+export const EVIDENCE_PACKAGE_SCHEMA_VERSION = 1;
+
+const CONDITION_SEPARATOR = " AND ";
+
+export interface EvidenceMatchedRule {
+  rule_id: string;
+  rule_name: string | null;
+  rule_version: number | null;
+  rule_version_id: string | null;
+  rule_action: string | null;
+  matched_at: string | null;
+  condition_summary: string | null;
+}
+
+export interface EvidenceNote {
+  note_id: string;
+  note_type: NoteType;
+  content: string;
+  author: string;
+  created_at: string;
+}
+
+export interface EvidenceTransaction {
+  transaction_id: string;
+  amount: number | string;
+  currency: string;
+  decision: string;
+  transaction_timestamp: string;
+  card_last4: string | null;
+  card_network: string | null;
+  merchant_id: string | null;
+  mcc: string | null;
+  review_status: TransactionStatus | null;
+  matched_rules: EvidenceMatchedRule[];
+  notes: EvidenceNote[];
+}
+
+export interface EvidencePackageContent {
+  schema_version: number;
+  generated_at: string;
+  generated_by: string;
+  case: Pick<
+    TransactionCase,
+    | "id"
+    | "case_number"
+    | "case_type"
+    | "case_status"
+    | "risk_level"
+    | "title"
+    | "description"
+    | "assigned_analyst_id"
+    | "assigned_analyst_name"
+    | "created_by"
+    | "created_at"
+  >;
+  resolution: Pick<TransactionCase, "resolved_at" | "resolved_by" | "resolution_summary"> | null;
+  transactions: EvidenceTransaction[];
+  audit_trail: Array<
+    Pick<
+      CaseActivity,
+      | "id"
+      | "activity_type"
+      | "activity_description"
+      | "performed_by"
+      | "performed_by_name"
+      | "created_at"
+    >
+  >;
+  /** Private notes left out of the package */
+  private_notes_withheld: number;
+  /** Sensitive fields whose values were masked */
+  masked_fields: string[];
+}
+
+export interface EvidencePackage {
+  content: EvidencePackageContent;
+  integrity: {
+    algorithm: "SHA-256";
+    /** "sha256:<hex>" of the canonical JSON of `content` */
+    hash: string;
+  };
+}
+
+export interface EvidenceSources {
+  caseData: TransactionCase;
+  /** Linked transactions in case order; the overview adds detail where it loaded */
+  transactions: Array<{
+    transaction_id: string;
+    amount: number;
+    currency: string;
+    decision: string;
+    created_at: string;
+  }>;
+  overviews: Partial<Record<string, TransactionOverview>>;
+  activities: CaseActivity[];
+  generatedBy: string;
+  generatedAt: string;
+}
+
+/**
+ * Same preview the matched rules table shows: the conditions that were met,
+ * falling back to the match reason
+ */
+export function summarizeMatchedRule(rule: MatchedRule): string | null {
+  const conditions = rule.conditions_met?.filter((c) => c != null && c !== "") ?? [];
+  if (conditions.length > 0) return conditions.join(CONDITION_SEPARATOR);
+  return rule.match_reason_text ?? rule.match_reason ?? null;
+}
+
+const toEvidenceRule = (rule: MatchedRule): EvidenceMatchedRule => ({
+  rule_id: rule.rule_id,
+  rule_name: rule.rule_name ?? null,
+  rule_version: rule.rule_version ?? null,
+  rule_version_id: rule.rule_version_id ?? null,
+  rule_action: rule.rule_action ?? null,
+  matched_at: rule.matched_at ?? null,
+  condition_summary: summarizeMatchedRule(rule),
+});
+
+const toEvidenceNote = (note: AnalystNote): EvidenceNote => ({
+  note_id: note.id,
+  note_type: note.note_type,
+  content: note.note_content,
+  author: note.analyst_name ?? note.analyst_id,
+  created_at: note.created_at,
+});
+
+const byCreatedAt = (a: { created_at: string }, b: { created_at: string }): number =>
+  Date.parse(a.created_at) - Date.parse(b.created_at);
+
+type EvidenceTransactionDetail = Pick<
+  EvidenceTransaction,
+  | "amount"
+  | "currency"
+  | "decision"
+  | "transaction_timestamp"
+  | "card_last4"
+  | "card_network"
+  | "merchant_id"
+  | "mcc"
+>;
+
+const fromTransaction = (detail: Transaction): EvidenceTransactionDetail => ({
+  amount: detail.amount,
+  currency: detail.currency,
+  decision: detail.decision,
+  transaction_timestamp: detail.transaction_timestamp,
+  card_last4: detail.card_last4,
+  card_network: detail.card_network,
+  merchant_id: detail.merchant_id,
+  mcc: detail.mcc,
+});
+
+/** Only the case's own summary of the transaction is known when its overview is missing */
+const fromCaseTransaction = (
+  txn: EvidenceSources["transactions"][number]
+): EvidenceTransactionDetail => ({
+  amount: txn.amount,
+  currency: txn.currency,
+  decision: txn.decision,
+  transaction_timestamp: txn.created_at,
+  card_last4: null,
+  card_network: null,
+  merchant_id: null,
+  mcc: null,
+});
+
+function toEvidenceTransaction(
+  txn: EvidenceSources["transactions"][number],
+  overview: TransactionOverview | undefined
+): EvidenceTransaction {
+  const detail = overview?.transaction;
+  const sharedNotes = (overview?.notes ?? []).filter((note) => !note.is_private);
+  return {
+    transaction_id: txn.transaction_id,
+    ...(detail == null ? fromCaseTransaction(txn) : fromTransaction(detail)),
+    review_status: overview?.review?.status ?? detail?.review_status ?? null,
+    matched_rules: (overview?.matched_rules ?? detail?.matched_rules ?? []).map(toEvidenceRule),
+    notes: sharedNotes.sort(byCreatedAt).map(toEvidenceNote),
+  };
+}
+
+export function buildEvidencePackageContent({
+  caseData,
+  transactions,
+  overviews,
+  activities,
+  generatedBy,
+  generatedAt,
+}: EvidenceSources): EvidencePackageContent {
+  const privateNotes = transactions.reduce(
+    (count, txn) =>
+      count + (overviews[txn.transaction_id]?.notes ?? []).filter((n) => n.is_private).length,
+    0
+  );
+
+  return {
+    schema_version: EVIDENCE_PACKAGE_SCHEMA_VERSION,
+    generated_at: generatedAt,
+    generated_by: generatedBy,
+    case: {
+      id: caseData.id,
+      case_number: caseData.case_number,
+      case_type: caseData.case_type,
+      case_status: caseData.case_status,
+      risk_level: caseData.risk_level,
+      title: caseData.title,
+      description: caseData.description,
+      assigned_analyst_id: caseData.assigned_analyst_id,
+      assigned_analyst_name: caseData.assigned_analyst_name,
+      created_by: caseData.created_by,
+      created_at: caseData.created_at,
+    },
+    resolution:
+      caseData.resolved_at == null
+        ? null
+        : {
+            resolved_at: caseData.resolved_at,
+            resolved_by: caseData.resolved_by,
+            resolution_summary: caseData.resolution_summary,
+          },
+    transactions: transactions.map((txn) =>
+      toEvidenceTransaction(txn, overviews[txn.transaction_id])
+    ),
+    audit_trail: [...activities].sort(byCreatedAt).map((activity) => ({
+      id: activity.id,
+      activity_type: activity.activity_type,
+      activity_description: activity.activity_description,
+      performed_by: activity.performed_by,
+      performed_by_name: activity.performed_by_name,
+      created_at: activity.created_at,
+    })),
+    private_notes_withheld: privateNotes,
+    masked_fields: [],
+  };
+}
+
+/**
+ * Masks one condition of a summary: a condition on a sensitive field keeps
+ * the field name, and any other text naming a sensitive field is withheld
+ */
+function maskCondition(
+  condition: string,
+  sensitiveKeys: ReadonlySet<string>,
+  record: (key: string) => void
+): string {
+  const mentioned = (condition.match(/[A-Za-z0-9_.]+/g) ?? []).filter((token) =>
+    isSensitiveKey(sensitiveKeys, token)
+  );
+  if (mentioned.length === 0) return condition;
+  mentioned.forEach(record);
+  const [field = ""] = condition.trim().split(/\s+/);
+  return mentioned.includes(field) ? `${field} ${MASKED_VALUE}` : MASKED_VALUE;
+}
+
+/**
+ * Copy of the package content with the values of sensitive fields masked,
+ * both under their own keys and inside matched rule condition summaries
+ */
+export function maskEvidenceContent(
+  content: EvidencePackageContent,
+  sensitiveKeys: ReadonlySet<string>
+): EvidencePackageContent {
+  const masked = maskSensitiveValues(content, sensitiveKeys);
+  const fieldKeys = [...masked.fieldKeys];
+  const record = (key: string): void => {
+    const normalized = key.toUpperCase();
+    if (!fieldKeys.includes(normalized)) fieldKeys.push(normalized);
+  };
+
+  const transactions = masked.value.transactions.map((txn) => ({
+    ...txn,
+    matched_rules: txn.matched_rules.map((rule) => ({
+      ...rule,
+      condition_summary:
+        rule.condition_summary == null
+          ? null
+          : rule.condition_summary
+              .split(CONDITION_SEPARATOR)
+              .map((condition) => maskCondition(condition, sensitiveKeys, record))
+              .join(CONDITION_SEPARATOR),
+    })),
+  }));
+
+  return { ...masked.value, transactions, masked_fields: fieldKeys };
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * Canonical JSON of the package content: keys sorted at every level, so
+ * re-serializing a parsed manifest reproduces the hashed bytes
+ */
+export function canonicalizeEvidence(content: EvidencePackageContent): string {
+  return JSON.stringify(sortKeys(content));
+}
+
+export async function computeEvidenceHash(content: EvidencePackageContent): Promise<string> {
+  return `sha256:${await sha256Hex(canonicalizeEvidence(content))}`;
+}
+
+export async function sealEvidencePackage(
+  content: EvidencePackageContent
+): Promise<EvidencePackage> {
+  return {
+    content,
+    integrity: { algorithm: "SHA-256", hash: await computeEvidenceHash(content) },
+  };
+}
+
+/**
+ * Whether the manifest's content still matches the hash it was sealed with
+ */
+export async function verifyEvidencePackage(pkg: EvidencePackage): Promise<boolean> {
+  return (await computeEvidenceHash(pkg.content)) === pkg.integrity.hash;
+}
+
+export function evidenceFileName(pkg: EvidencePackage, extension: "json" | "html"): string {
+  return `${pkg.content.case.case_number}-evidence.${extension}`;
+}
+
+/**
+ * JSON manifest as downloaded
+ */
+export function serializeEvidencePackage(pkg: EvidencePackage): string {
+  return `${JSON.stringify(pkg, null, 2)}\n`;
+}
+
+const escapeHtml = (value: string | number | null | undefined): string =>
+  String(value ?? "—")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#x27;");
+
+type Cell = string | number | null | undefined;
+
+const row = (label: string, value: Cell): string =>
+  `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`;
+
+const table = (headers: string[], rows: Cell[][]): string =>
+  rows.length === 0
+    ? '<p class="empty">None</p>'
+    : `<table><thead><tr>${headers.map((h) => `<th>${escapeHtml(h)}</th>`).join("")}</tr></thead><tbody>${rows
+        .map((cells) => `<tr>${cells.map((c) => `<td>${escapeHtml(c)}</td>`).join("")}</tr>`)
+        .join("")}</tbody></table>`;
+
+const REPORT_STYLES = `
+body { font-family: -apple-system, "Segoe UI", Roboto, sans-serif; font-size: 12px; color: #1f1f1f; margin: 24px; }
+h1 { font-size: 20px; margin-bottom: 4px; }
+h2 { font-size: 15px; border-bottom: 1px solid #d9d9d9; padding-bottom: 4px; margin-top: 24px; }
+h3 { font-size: 13px; margin: 16px 0 4px; }
+table { border-collapse: collapse; width: 100%; margin-bottom: 8px; }
+th, td { border: 1px solid #d9d9d9; padding: 4px 6px; text-align: left; vertical-align: top; }
+th { background: #fafafa; }
+.meta, .empty { color: #8c8c8c; }
+.hash { font-family: monospace; word-break: break-all; }
+section.transaction { page-break-inside: avoid; }
+@media print { body { margin: 0; } }
+`;
+
+/**
+ * Self-contained printable report of the package; print it to PDF from the browser
+ */
+export function renderEvidenceReport(pkg: EvidencePackage): string {
+  const { content, integrity } = pkg;
+  const c = content.case;
+
+  const transactions = content.transactions
+    .map(
+      (txn) => `<section class="transaction">
+<h3>Transaction ${escapeHtml(txn.transaction_id)}</h3>
+<table>${[
+        row("Amount", `${txn.amount} ${txn.currency}`),
+        row("Decision", txn.decision),
+        row("Timestamp", txn.transaction_timestamp),
+        row(
+          "Card",
+          txn.card_last4 == null ? null : `${txn.card_network ?? ""} •••• ${txn.card_last4}`
+        ),
+        row("Merchant", txn.merchant_id),
+        row("MCC", txn.mcc),
+        row("Review status", txn.review_status),
+      ].join("")}</table>
+<h3>Matched rules</h3>
+${table(
+  ["Rule", "Version", "Action", "Conditions", "Matched at"],
+  txn.matched_rules.map((r) => [
+    r.rule_name ?? r.rule_id,
+    r.rule_version == null ? r.rule_version_id : `v${r.rule_version}`,
+    r.rule_action,
+    r.condition_summary,
+    r.matched_at,
+  ])
+)}
+<h3>Notes</h3>
+${table(
+  ["Date", "Type", "Author", "Note"],
+  txn.notes.map((n) => [n.created_at, n.note_type, n.author, n.content])
+)}
+</section>`
+    )
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>Evidence package ${escapeHtml(c.case_number)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<h1>Evidence package ${escapeHtml(c.case_number)}</h1>
+<p class="meta">Generated ${escapeHtml(content.generated_at)} by ${escapeHtml(content.generated_by)}</p>
+<h2>Case</h2>
+<table>${[
+    row("Title", c.title),
+    row("Type", c.case_type),
+    row("Status", c.case_status),
+    row("Risk level", c.risk_level),
+    row("Assigned analyst", c.assigned_analyst_name ?? c.assigned_analyst_id),
+    row("Created", `${c.created_at} by ${c.created_by}`),
+    row("Description", c.description),
+  ].join("")}</table>
+<h2>Resolution</h2>
+${
+  content.resolution == null
+    ? '<p class="empty">Not resolved</p>'
+    : `<table>${[
+        row("Resolved at", content.resolution.resolved_at),
+        row("Resolved by", content.resolution.resolved_by),
+        row("Summary", content.resolution.resolution_summary),
+      ].join("")}</table>`
+}
+<h2>Transactions (${content.transactions.length})</h2>
+${transactions === "" ? '<p class="empty">None</p>' : transactions}
+<h2>Audit trail</h2>
+${table(
+  ["Date", "Activity", "Performed by"],
+  content.audit_trail.map((a) => [
+    a.created_at,
+    a.activity_description,
+    a.performed_by_name ?? a.performed_by,
+  ])
+)}
+<h2>Integrity</h2>
+<p>${content.private_notes_withheld} private note(s) withheld.</p>
+<p>Masked sensitive fields: ${escapeHtml(content.masked_fields.length === 0 ? "none" : content.masked_fields.join(", "))}</p>
+<p>${escapeHtml(integrity.algorithm)} of the JSON manifest content: <span class="hash">${escapeHtml(integrity.hash)}</span></p>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,120 @@
+/**
+ * Field impact analysis
+ *
+ * Finds how rule condition trees use a registry field and works out which
+ * references a proposed field change (deactivation, removed operators)
+ * would break. Changes that break an ACTIVE PROD ruleset are blocked.
+ */
+
+import type { PersistedConditionNode, PersistedConditionTree } from "../../types/domain";
+import type {
+  FieldImpactReference,
+  FieldImpactResponse,
+  FieldImpactRuleset,
+} from "../../types/fieldDefinitions";
+import { Operator, RuleSetStatus, RulesetEnvironment } from "../../types/enums";
+import { isVelocityField } from "./guards";
+
+export interface FieldUsage {
+  operators: Operator[];
+  velocityGroupBy: boolean;
+}
+
+/**
+ * Proposed field state; omitted properties are unchanged
+ */
+export interface FieldChange {
+  is_active?: boolean;
+  allowed_operators?: Operator[];
+}
+
+export interface FieldImpactRow {
+  reference: FieldImpactReference;
+  /** Why the change breaks this rule version; empty when it is unaffected */
+  breaks: string[];
+}
+
+export interface FieldImpactAssessment {
+  rows: FieldImpactRow[];
+  /** Operators still used by some rule version that the change removes */
+  removedOperators: Operator[];
+  /** ACTIVE PROD rulesets containing a broken rule version */
+  blockingRulesets: FieldImpactRuleset[];
+  blocked: boolean;
+}
+
+function visit(node: PersistedConditionNode, fieldKey: string, usage: FieldUsage): void {
+  if (!("field" in node)) {
+    (node.and ?? node.or)?.forEach((child) => visit(child, fieldKey, usage));
+    return;
+  }
+  if (isVelocityField(node.field)) {
+    if (node.field.group_by.includes(fieldKey)) usage.velocityGroupBy = true;
+    return;
+  }
+  if (node.field === fieldKey && !usage.operators.includes(node.op)) {
+    usage.operators.push(node.op);
+  }
+}
+
+/**
+ * How a condition tree uses a field, or null when it does not reference it
+ */
+export function collectFieldUsage(
+  tree: PersistedConditionTree | null | undefined,
+  fieldKey: string
+): FieldUsage | null {
+  if (tree == null) return null;
+  const usage: FieldUsage = { operators: [], velocityGroupBy: false };
+  visit(tree, fieldKey, usage);
+  if (usage.operators.length === 0 && !usage.velocityGroupBy) return null;
+  return { ...usage, operators: [...usage.operators].sort() };
+}
+
+export function isProtectedRuleset(ruleset: FieldImpactRuleset): boolean {
+  return ruleset.status === RuleSetStatus.ACTIVE && ruleset.environment === RulesetEnvironment.PROD;
+}
+
+function breaksFor(reference: FieldImpactReference, change: FieldChange): string[] {
+  if (change.is_active === false) return ["Field would be deactivated"];
+  const allowed = change.allowed_operators;
+  if (allowed == null) return [];
+  return reference.operators
+    .filter((op) => !allowed.includes(op))
+    .map((op) => `${op} would no longer be allowed`);
+}
+
+/**
+ * Applies a proposed change to the references returned by the impact endpoint
+ */
+export function assessFieldChange(
+  impact: FieldImpactResponse,
+  change: FieldChange
+): FieldImpactAssessment {
+  const rows = impact.references.map((reference) => ({
+    reference,
+    breaks: breaksFor(reference, change),
+  }));
+
+  const allowed = change.allowed_operators;
+  const removedOperators =
+    allowed == null
+      ? []
+      : Array.from(new Set(impact.references.flatMap((r) => r.operators)))
+          .filter((op) => !allowed.includes(op))
+          .sort();
+
+  const blockingRulesets = new Map<string, FieldImpactRuleset>();
+  rows
+    .filter((row) => row.breaks.length > 0)
+    .flatMap((row) => row.reference.rulesets)
+    .filter(isProtectedRuleset)
+    .forEach((ruleset) => blockingRulesets.set(ruleset.ruleset_id, ruleset));
+
+  return {
+    rows,
+    removedOperators,
+    blockingRulesets: Array.from(blockingRulesets.values()),
+    blocked: blockingRulesets.size > 0,
+  };
+}
@@ -0,0 +1,185 @@
+/**
+ * Field registry diff
+ *
+ * Compares the fields of two field registry versions (or a published version
+ * and the fields about to be published) property by property, and recomputes
+ * the SHA-256 checksum a manifest records for its field list. The backend does
+ * not document how it canonicalizes fields before hashing, so the recomputed
+ * checksum uses the portal's own canonical form and only agrees with the
+ * manifest if the backend happens to hash the same bytes.
+ */
+
+import type { FieldDefinition, FieldRegistryManifest } from "../../types/fieldDefinitions";
+import { sha256Hex } from "./hash";
+
+/** The field properties a published registry carries */
+export type PublishedRegistryField = Pick<
+  FieldDefinition,
+  | "field_key"
+  | "display_name"
+  | "data_type"
+  | "allowed_operators"
+  | "multi_value_allowed"
+  | "is_sensitive"
+  | "is_active"
+> & { field_id?: number };
+
+export type RegistryFieldProperty = Exclude<keyof PublishedRegistryField, "field_key" | "field_id">;
+
+export type RegistryFieldChangeKind = "added" | "removed" | "changed";
+
+export interface RegistryPropertyChange {
+  property: RegistryFieldProperty;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface RegistryFieldDiff {
+  field_key: string;
+  display_name: string;
+  kind: RegistryFieldChangeKind;
+  /** Property changes; empty for added and removed fields */
+  changes: RegistryPropertyChange[];
+}
+
+export interface RegistryDiffSummary {
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+}
+
+export interface ChecksumVerification {
+  expected: string;
+  computed: string;
+  matches: boolean;
+  /** Whether the manifest's field_count matches the fields it was checked against */
+  fieldCountMatches: boolean;
+}
+
+const yesNo = (value: boolean): string => (value ? "Yes" : "No");
+
+const PROPERTIES: {
+  property: RegistryFieldProperty;
+  label: string;
+  format: (field: PublishedRegistryField) => string;
+}[] = [
+  { property: "display_name", label: "Display name", format: (f) => f.display_name },
+  { property: "data_type", label: "Data type", format: (f) => f.data_type },
+  {
+    property: "allowed_operators",
+    label: "Operators",
+    format: (f) => [...f.allowed_operators].sort().join(", "),
+  },
+  {
+    property: "multi_value_allowed",
+    label: "Multi-value",
+    format: (f) => yesNo(f.multi_value_allowed),
+  },
+  { property: "is_sensitive", label: "Sensitive", format: (f) => yesNo(f.is_sensitive) },
+  { property: "is_active", label: "Active", format: (f) => yesNo(f.is_active) },
+];
+
+function compareFields(
+  before: PublishedRegistryField,
+  after: PublishedRegistryField
+): RegistryPropertyChange[] {
+  return PROPERTIES.map(({ property, label, format }) => ({
+    property,
+    label,
+    before: format(before),
+    after: format(after),
+  })).filter((change) => change.before !== change.after);
+}
+
+/**
+ * Field-by-field differences going from `base` to `target`, ordered by
+ * field key; unchanged fields are omitted
+ */
+export function diffRegistryFields(
+  base: readonly PublishedRegistryField[],
+  target: readonly PublishedRegistryField[]
+): RegistryFieldDiff[] {
+  const baseByKey = new Map(base.map((f) => [f.field_key, f]));
+  const targetByKey = new Map(target.map((f) => [f.field_key, f]));
+  const keys = Array.from(new Set([...baseByKey.keys(), ...targetByKey.keys()])).sort();
+
+  return keys.flatMap((key): RegistryFieldDiff[] => {
+    const before = baseByKey.get(key);
+    const after = targetByKey.get(key);
+    if (before == null && after != null) {
+      return [{ field_key: key, display_name: after.display_name, kind: "added", changes: [] }];
+    }
+    if (before != null && after == null) {
+      return [{ field_key: key, display_name: before.display_name, kind: "removed", changes: [] }];
+    }
+    if (before == null || after == null) return [];
+    const changes = compareFields(before, after);
+    return changes.length > 0
+      ? [{ field_key: key, display_name: after.display_name, kind: "changed", changes }]
+      : [];
+  });
+}
+
+export function summarizeRegistryDiff(
+  diff: readonly RegistryFieldDiff[],
+  targetFieldCount: number
+): RegistryDiffSummary {
+  const count = (kind: RegistryFieldChangeKind): number =>
+    diff.filter((d) => d.kind === kind).length;
+  const added = count("added");
+  const changed = count("changed");
+  return {
+    added,
+    removed: count("removed"),
+    changed,
+    unchanged: Math.max(0, targetFieldCount - added - changed),
+  };
+}
+
+/**
+ * The portal's canonical JSON of a field list: fields ordered by key,
+ * published properties in a fixed order and operators sorted
+ */
+export function canonicalizeRegistryFields(fields: readonly PublishedRegistryField[]): string {
+  const canonical = [...fields]
+    .sort((a, b) => a.field_key.localeCompare(b.field_key))
+    .map((f) => ({
+      field_key: f.field_key,
+      field_id: f.field_id ?? null,
+      display_name: f.display_name,
+      data_type: f.data_type,
+      allowed_operators: [...f.allowed_operators].sort(),
+      multi_value_allowed: f.multi_value_allowed,
+      is_sensitive: f.is_sensitive,
+      is_active: f.is_active,
+    }));
+  return JSON.stringify(canonical);
+}
+
+/**
+ * Manifest-style checksum ("sha256:<hex>") of the canonical field list
+ */
+export async function computeRegistryChecksum(
+  fields: readonly PublishedRegistryField[]
+): Promise<string> {
+  return `sha256:${await sha256Hex(canonicalizeRegistryFields(fields))}`;
+}
+
+/**
+ * Recomputes the checksum of `fields` on the client and compares it with the
+ * manifest; a checksum that does not match is not proof of tampering
+ */
+export async function verifyRegistryChecksum(
+  manifest: Pick<FieldRegistryManifest, "checksum" | "field_count">,
+  fields: readonly PublishedRegistryField[]
+): Promise<ChecksumVerification> {
+  const computed = await computeRegistryChecksum(fields);
+  return {
+    expected: manifest.checksum,
+    computed,
+    matches: computed.toLowerCase() === manifest.checksum.trim().toLowerCase(),
+    fieldCountMatches: manifest.field_count === fields.length,
+  };
+}
@@ -4,6 +4,8 @@
  * Shared utilities for formatting values for display.
  */
 
+import type { VelocityField } from "../../types/domain";
+
 /**
  * Converts an enum value (e.g., STRING, SOME_VALUE) to a human-readable label.
  * Converts SCREAMING_SNAKE_CASE to Title Case.
@@ -168,3 +170,11 @@ export function formatPercentage(
 export function formatNumber(value: number, locale: string = "en-US"): string {
   return new Intl.NumberFormat(locale).format(value);
 }
+
+/**
+ * Compact notation for a velocity field, e.g. "COUNT(CARD, MERCHANT) over 5 MINUTES".
+ * The condition DSL prints the same form with its `OVER` keyword.
+ */
+export function formatVelocityField(field: VelocityField, overKeyword: string = "over"): string {
+  return `${field.aggregation}(${field.group_by.join(", ")}) ${overKeyword} ${field.window.value} ${field.window.unit}`;
+}
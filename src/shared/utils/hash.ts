@@ -0,0 +1,13 @@
+/**
+ * Content hashing
+ */
+
+/**
+ * Hex-encoded SHA-256 of the UTF-8 bytes of `text`
+ */
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
@@ -0,0 +1,65 @@
+/**
+ * Investigation runs
+ *
+ * Stage timeline and evidence value formatting for the investigation run
+ * detail page.
+ */
+
+import { formatNumber, labelForEnumValue } from "./format";
+
+export interface RunStage {
+  stage: string;
+  label: string;
+  durationMs: number;
+  /** Milliseconds from the start of the run to the start of the stage */
+  offsetMs: number;
+  /** Fraction of the total run time, 0–1 */
+  share: number;
+}
+
+/**
+ * Stages in execution order with their offsets; negative or non-numeric
+ * durations count as zero
+ */
+export function buildRunStages(stageDurations: Record<string, number>): RunStage[] {
+  const entries = Object.entries(stageDurations).map(
+    ([stage, ms]) => [stage, Number.isFinite(ms) && ms > 0 ? ms : 0] as const
+  );
+  const total = entries.reduce((sum, [, ms]) => sum + ms, 0);
+
+  let offsetMs = 0;
+  return entries.map(([stage, durationMs]) => {
+    const result: RunStage = {
+      stage,
+      label: labelForEnumValue(stage),
+      durationMs,
+      offsetMs,
+      share: total > 0 ? durationMs / total : 0,
+    };
+    offsetMs += durationMs;
+    return result;
+  });
+}
+
+export function formatDurationMs(ms: number | null): string {
+  if (ms == null) return "—";
+  if (ms < 1000) return `${Math.round(ms)} ms`;
+  return `${(ms / 1000).toFixed(ms < 10_000 ? 2 : 1)} s`;
+}
+
+/**
+ * Human-readable value for evidence fields without a dedicated renderer
+ */
+export function formatEvidenceValue(value: unknown): string {
+  if (value == null || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "number") return formatNumber(value);
+  if (typeof value === "string") return value;
+  if (Array.isArray(value)) return value.map(formatEvidenceValue).join(", ");
+  if (typeof value === "object") {
+    return Object.entries(value as Record<string, unknown>)
+      .map(([key, nested]) => `${labelForEnumValue(key)}: ${formatEvidenceValue(nested)}`)
+      .join("; ");
+  }
+  return typeof value === "bigint" ? value.toString() : "—";
+}
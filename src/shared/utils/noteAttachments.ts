@@ -0,0 +1,92 @@
+/**
+ * Note attachment rules
+ *
+ * Upload limits and what an analyst may do with an attachment. Files are
+ * virus scanned after upload; until the scan comes back CLEAN they can be
+ * listed but not previewed or downloaded. The backend enforces the same
+ * limits, these checks only save a doomed upload.
+ */
+
+import type { NoteAttachment } from "../../types/notes";
+
+/** Largest file accepted, per attachment */
+export const MAX_ATTACHMENT_SIZE_BYTES = 10 * 1024 * 1024;
+
+/** Most attachments a single note can carry */
+export const MAX_ATTACHMENTS_PER_NOTE = 5;
+
+/** Screenshots, scanned letters and plain text exports */
+export const ALLOWED_ATTACHMENT_TYPES: readonly string[] = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "text/plain",
+];
+
+/** `accept` attribute for file pickers */
+export const ATTACHMENT_ACCEPT = ALLOWED_ATTACHMENT_TYPES.join(",");
+
+export type AttachmentPreviewKind = "image" | "pdf";
+
+/**
+ * Some attachments failed to upload or be removed after the note itself was
+ * saved, so the note should not be submitted again
+ */
+export class AttachmentUploadError extends Error {
+  constructor(readonly failedCount: number) {
+    super(`Note saved, but ${failedCount} attachment change(s) failed`);
+    this.name = "AttachmentUploadError";
+  }
+}
+
+/**
+ * Human readable size, e.g. `2.4 MB`
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Why a file cannot be attached, or null when it can. `existingCount` is the
+ * number of attachments already on the note or queued for upload.
+ */
+export function validateAttachmentFile(
+  file: Pick<File, "name" | "size" | "type">,
+  existingCount = 0
+): string | null {
+  if (existingCount >= MAX_ATTACHMENTS_PER_NOTE) {
+    return `A note can have at most ${MAX_ATTACHMENTS_PER_NOTE} attachments`;
+  }
+  if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+    return `${file.name} is not a supported file type (images, PDF or text)`;
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE_BYTES) {
+    return `${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE_BYTES)}`;
+  }
+  if (file.size === 0) {
+    return `${file.name} is empty`;
+  }
+  return null;
+}
+
+/**
+ * Attachments recorded before scanning existed have no status and are
+ * treated as clean; anything else must have passed the scan.
+ */
+export function isAttachmentAvailable(attachment: NoteAttachment): boolean {
+  return attachment.scan_status == null || attachment.scan_status === "CLEAN";
+}
+
+/**
+ * How an attachment can be shown inline, or null if it can only be downloaded
+ */
+export function getAttachmentPreviewKind(attachment: NoteAttachment): AttachmentPreviewKind | null {
+  const contentType = attachment.content_type ?? "";
+  if (contentType.startsWith("image/")) return "image";
+  if (contentType === "application/pdf") return "pdf";
+  return null;
+}
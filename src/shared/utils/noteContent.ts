@@ -0,0 +1,117 @@
+/**
+ * Note content formatting
+ *
+ * Notes are stored as plain text with a small markdown subset: `**bold**`,
+ * `*italic*` or `_italic_`, `` `code` `` and `- ` bullet lists. On top of
+ * that, `@username` mentions an analyst and transaction IDs (`txn_…`), case
+ * numbers (`CASE-2026-001`) and rule IDs (`rule_…`) are recognised so they
+ * can be shown as links. Nothing inside a code span is formatted or linked.
+ */
+
+/** Shown under note editors */
+export const NOTE_FORMATTING_HINT =
+  "Supports **bold**, *italic*, `code` and - lists. @username notifies an analyst; transaction IDs, case numbers and rule IDs become links.";
+
+export type NoteReferenceKind = "transaction" | "case" | "rule";
+
+export type NoteInline =
+  | { kind: "text" | "bold" | "italic" | "code"; text: string }
+  | { kind: "mention"; handle: string }
+  | { kind: NoteReferenceKind; id: string };
+
+export type NoteBlock =
+  | { kind: "paragraph"; lines: NoteInline[][] }
+  | { kind: "list"; items: NoteInline[][] };
+
+const HANDLE = "[A-Za-z0-9](?:[A-Za-z0-9._-]*[A-Za-z0-9])?";
+
+/** Tried left to right at each position, so earlier alternatives win ties */
+const INLINE_PATTERN = new RegExp(
+  [
+    "`(?<code>[^`\\n]+)`",
+    "\\*\\*(?<bold>[^*\\n]+)\\*\\*",
+    "(?<![\\w*])\\*(?<italicStar>[^*\\n]+)\\*(?![\\w*])",
+    "(?<![A-Za-z0-9])_(?<italicUnderscore>[^_\\n]+)_(?![A-Za-z0-9])",
+    `(?<![\\w@.])@(?<mention>${HANDLE})`,
+    "\\b(?<transaction>txn_[A-Za-z0-9]+)\\b",
+    "\\b(?<case>CASE-\\d{4}-\\d+)\\b",
+    "\\b(?<rule>rule_[A-Za-z0-9]+)\\b",
+  ].join("|"),
+  "g"
+);
+
+const MENTION_PATTERN = new RegExp(`(?<![\\w@.])@(${HANDLE})`, "g");
+const CODE_SPAN_PATTERN = /`[^`\n]+`/g;
+const LIST_ITEM_PATTERN = /^\s*[-*]\s+(.*)$/;
+
+function toInline(groups: Record<string, string | undefined>): NoteInline | null {
+  const { code, bold, italicStar, italicUnderscore, mention, transaction, rule } = groups;
+  if (code != null) return { kind: "code", text: code };
+  if (bold != null) return { kind: "bold", text: bold };
+  const italic = italicStar ?? italicUnderscore;
+  if (italic != null) return { kind: "italic", text: italic };
+  if (mention != null) return { kind: "mention", handle: mention };
+  if (transaction != null) return { kind: "transaction", id: transaction };
+  if (groups.case != null) return { kind: "case", id: groups.case };
+  if (rule != null) return { kind: "rule", id: rule };
+  return null;
+}
+
+/**
+ * Splits one line into text runs, formatting and links
+ */
+export function parseNoteInline(line: string): NoteInline[] {
+  const tokens: NoteInline[] = [];
+  let lastIndex = 0;
+  for (const match of line.matchAll(INLINE_PATTERN)) {
+    const token = toInline(match.groups ?? {});
+    if (token == null) continue;
+    if (match.index > lastIndex) {
+      tokens.push({ kind: "text", text: line.slice(lastIndex, match.index) });
+    }
+    tokens.push(token);
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < line.length) tokens.push({ kind: "text", text: line.slice(lastIndex) });
+  return tokens;
+}
+
+/**
+ * Groups lines into paragraphs and bullet lists. Blank lines end a
+ * paragraph; consecutive `- ` lines form one list.
+ */
+export function parseNoteContent(content: string): NoteBlock[] {
+  const blocks: NoteBlock[] = [];
+  let current: NoteBlock | null = null;
+
+  for (const line of content.split(/\r?\n/)) {
+    const item = LIST_ITEM_PATTERN.exec(line);
+    if (item != null) {
+      if (current?.kind !== "list") {
+        current = { kind: "list", items: [] };
+        blocks.push(current);
+      }
+      current.items.push(parseNoteInline(item[1] ?? ""));
+    } else if (line.trim() === "") {
+      current = null;
+    } else {
+      if (current?.kind !== "paragraph") {
+        current = { kind: "paragraph", lines: [] };
+        blocks.push(current);
+      }
+      current.lines.push(parseNoteInline(line));
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Usernames mentioned in the content, lowercased, in first-mention order
+ */
+export function extractMentions(content: string): string[] {
+  const withoutCode = content.replace(CODE_SPAN_PATTERN, " ");
+  const handles = Array.from(withoutCode.matchAll(MENTION_PATTERN), (match) =>
+    (match[1] ?? "").toLowerCase()
+  );
+  return [...new Set(handles)];
+}
@@ -0,0 +1,46 @@
+/**
+ * Notification list updates
+ *
+ * Applies pushed notifications and read receipts to a loaded notification
+ * list without re-fetching it. `unread_count` also counts notifications
+ * beyond the loaded page, so it is adjusted rather than recomputed.
+ */
+
+import type { AppNotification, NotificationListResponse } from "../../types/notification";
+
+export const EMPTY_NOTIFICATION_LIST: NotificationListResponse = { items: [], unread_count: 0 };
+
+/**
+ * Adds a pushed notification to the top of the list, keeping at most `limit`;
+ * a notification that is already listed is ignored
+ */
+export function addNotification(
+  list: NotificationListResponse,
+  notification: AppNotification,
+  limit: number
+): NotificationListResponse {
+  if (list.items.some((n) => n.notification_id === notification.notification_id)) return list;
+  return {
+    items: [notification, ...list.items].slice(0, limit),
+    unread_count: list.unread_count + (notification.read_at == null ? 1 : 0),
+  };
+}
+
+/**
+ * Marks listed notifications read; all of them when `notificationIds` is omitted
+ */
+export function markNotificationsRead(
+  list: NotificationListResponse,
+  readAt: string,
+  notificationIds?: string[]
+): NotificationListResponse {
+  const targets = notificationIds == null ? null : new Set(notificationIds);
+  const isTarget = (n: AppNotification): boolean =>
+    n.read_at == null && (targets == null || targets.has(n.notification_id));
+  const marked = list.items.filter(isTarget).length;
+
+  return {
+    items: list.items.map((n) => (isTarget(n) ? { ...n, read_at: readAt } : n)),
+    unread_count: targets == null ? 0 : Math.max(0, list.unread_count - marked),
+  };
+}
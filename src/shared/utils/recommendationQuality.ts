@@ -0,0 +1,135 @@
+/**
+ * Recommendation quality
+ *
+ * Aggregates analyst feedback on ops-agent recommendations and relates the
+ * producing insight to the final review outcome. Only FRAUD_CONFIRMED versus
+ * FALSE_POSITIVE / LEGITIMATE resolutions feed the confirmed-fraud rate;
+ * duplicates and insufficient-info closures are ignored.
+ */
+
+import type {
+  OpsAgentModelMode,
+  OpsAgentRecommendationType,
+  OpsAgentSeverity,
+  RecommendationOutcome,
+} from "../../types/opsAnalyst";
+import type { ResolutionCode } from "../../types/review";
+
+export type OutcomeDimension = "type" | "severity" | "model_mode";
+
+export interface OutcomeRates {
+  key: string;
+  total: number;
+  /** ACKNOWLEDGED or EXPORTED */
+  accepted: number;
+  rejected: number;
+  open: number;
+  /** accepted / (accepted + rejected); null before any feedback */
+  acceptanceRate: number | null;
+  /** Share of labelled review outcomes that confirmed fraud; null when none are labelled */
+  fraudConfirmedRate: number | null;
+}
+
+export interface ResolutionMatrixRow {
+  severity: OpsAgentSeverity;
+  total: number;
+  counts: Record<ResolutionCode | "UNRESOLVED", number>;
+}
+
+const DIMENSION_ORDER: Record<OutcomeDimension, readonly string[]> = {
+  type: ["review_priority", "case_action", "rule_candidate"] satisfies OpsAgentRecommendationType[],
+  severity: ["CRITICAL", "HIGH", "MEDIUM", "LOW"] satisfies OpsAgentSeverity[],
+  model_mode: ["agentic", "hybrid", "deterministic"] satisfies OpsAgentModelMode[],
+};
+
+export const RESOLUTION_COLUMNS = [
+  "FRAUD_CONFIRMED",
+  "FALSE_POSITIVE",
+  "LEGITIMATE",
+  "DUPLICATE",
+  "INSUFFICIENT_INFO",
+  "UNRESOLVED",
+] as const satisfies ReadonlyArray<ResolutionCode | "UNRESOLVED">;
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+export function computeOutcomeRates(key: string, outcomes: RecommendationOutcome[]): OutcomeRates {
+  let accepted = 0;
+  let rejected = 0;
+  let confirmed = 0;
+  let cleared = 0;
+
+  for (const outcome of outcomes) {
+    if (outcome.status === "ACKNOWLEDGED" || outcome.status === "EXPORTED") accepted += 1;
+    if (outcome.status === "REJECTED") rejected += 1;
+    if (outcome.resolution_code === "FRAUD_CONFIRMED") confirmed += 1;
+    if (outcome.resolution_code === "FALSE_POSITIVE" || outcome.resolution_code === "LEGITIMATE") {
+      cleared += 1;
+    }
+  }
+
+  return {
+    key,
+    total: outcomes.length,
+    accepted,
+    rejected,
+    open: outcomes.length - accepted - rejected,
+    acceptanceRate: ratio(accepted, accepted + rejected),
+    fraudConfirmedRate: ratio(confirmed, confirmed + cleared),
+  };
+}
+
+/**
+ * Rates per value of one dimension, in a fixed order; values without any
+ * recommendation are omitted
+ */
+export function groupOutcomeRates(
+  outcomes: RecommendationOutcome[],
+  dimension: OutcomeDimension
+): OutcomeRates[] {
+  const groups = new Map<string, RecommendationOutcome[]>();
+  for (const outcome of outcomes) {
+    const value = outcome[dimension];
+    groups.set(value, [...(groups.get(value) ?? []), outcome]);
+  }
+
+  const order = DIMENSION_ORDER[dimension];
+  return [...groups.keys()]
+    .sort((a, b) => {
+      const ia = order.indexOf(a);
+      const ib = order.indexOf(b);
+      return (ia === -1 ? order.length : ia) - (ib === -1 ? order.length : ib);
+    })
+    .map((key) => computeOutcomeRates(key, groups.get(key) ?? []));
+}
+
+/**
+ * Review outcomes per insight severity, so analysts can see whether severe
+ * insights actually end in confirmed fraud
+ */
+export function buildResolutionMatrix(outcomes: RecommendationOutcome[]): ResolutionMatrixRow[] {
+  const rows = new Map<OpsAgentSeverity, ResolutionMatrixRow>();
+  for (const outcome of outcomes) {
+    let row = rows.get(outcome.severity);
+    if (row == null) {
+      row = {
+        severity: outcome.severity,
+        total: 0,
+        counts: Object.fromEntries(RESOLUTION_COLUMNS.map((c) => [c, 0])) as Record<
+          ResolutionCode | "UNRESOLVED",
+          number
+        >,
+      };
+      rows.set(outcome.severity, row);
+    }
+    row.total += 1;
+    row.counts[outcome.resolution_code ?? "UNRESOLVED"] += 1;
+  }
+
+  return DIMENSION_ORDER.severity.flatMap((severity) => {
+    const row = rows.get(severity as OpsAgentSeverity);
+    return row == null ? [] : [row];
+  });
+}
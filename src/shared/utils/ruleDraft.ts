@@ -0,0 +1,121 @@
+/**
+ * Rule drafts
+ *
+ * Converts an AI rule-candidate draft into the condition tree and form values
+ * RuleCreate is pre-filled with. Conditions the rule engine cannot express are
+ * dropped and reported, so the maker sees exactly what was not carried over.
+ */
+
+import type {
+  PersistedConditionNode,
+  PersistedConditionTree,
+  RuleVersion,
+} from "../../types/domain";
+import type { RuleDraftCondition, RuleDraftPayload } from "../../types/opsAnalyst";
+import { Operator, RuleType } from "../../types/enums";
+
+const OPERATOR_ALIASES: Record<string, Operator> = {
+  "=": Operator.EQ,
+  "==": Operator.EQ,
+  "!=": Operator.NE,
+  "<>": Operator.NE,
+  ">": Operator.GT,
+  ">=": Operator.GTE,
+  "<": Operator.LT,
+  "<=": Operator.LTE,
+};
+
+const OPERATORS = new Set<string>(Object.values(Operator));
+const RULE_TYPES = new Set<string>(Object.values(RuleType));
+
+export interface RuleDraftFormValues {
+  rule_name?: string;
+  rule_type?: RuleType;
+  priority?: number;
+}
+
+export interface ConvertedRuleDraft {
+  conditionTree: PersistedConditionTree;
+  formValues: RuleDraftFormValues;
+  scope: RuleVersion["scope"];
+  /** Parts of the draft that could not be carried over */
+  issues: string[];
+}
+
+export function normalizeDraftOperator(operator: string): Operator | null {
+  const trimmed = operator.trim();
+  const alias = OPERATOR_ALIASES[trimmed];
+  if (alias != null) return alias;
+  const name = trimmed.toUpperCase().replace(/[\s-]+/g, "_");
+  return OPERATORS.has(name) ? (name as Operator) : null;
+}
+
+function toGroup(
+  logic: RuleDraftCondition["logic"],
+  children: PersistedConditionNode[]
+): PersistedConditionTree {
+  return logic === "OR" ? { or: children } : { and: children };
+}
+
+function convertConditions(
+  conditions: RuleDraftCondition[],
+  issues: string[]
+): PersistedConditionNode[] {
+  const nodes: PersistedConditionNode[] = [];
+  for (const condition of conditions) {
+    if (condition.conditions != null) {
+      const children = convertConditions(condition.conditions, issues);
+      if (children.length > 0) nodes.push(toGroup(condition.logic, children));
+      continue;
+    }
+
+    const field = condition.field?.trim() ?? "";
+    if (field === "") {
+      issues.push("A condition without a field was skipped.");
+      continue;
+    }
+    const op = normalizeDraftOperator(condition.operator ?? "");
+    if (op == null) {
+      issues.push(
+        `${field}: operator "${condition.operator ?? ""}" is not supported and was skipped.`
+      );
+      continue;
+    }
+    nodes.push({ field, op, value: condition.value ?? null });
+  }
+  return nodes;
+}
+
+/**
+ * Converts a draft payload into RuleCreate's pre-filled state
+ */
+export function convertRuleDraft(payload: RuleDraftPayload): ConvertedRuleDraft {
+  const issues: string[] = [];
+  const children = convertConditions(payload.conditions ?? [], issues);
+  if (children.length === 0) {
+    issues.push("The draft has no usable conditions; add them before submitting.");
+  }
+
+  const formValues: RuleDraftFormValues = {};
+  const ruleName = payload.rule_name?.trim() ?? "";
+  if (ruleName !== "") formValues.rule_name = ruleName;
+  if (payload.rule_type != null) {
+    if (RULE_TYPES.has(payload.rule_type)) {
+      formValues.rule_type = payload.rule_type as RuleType;
+    } else {
+      issues.push(
+        `Rule type "${payload.rule_type}" is not supported; choose one before submitting.`
+      );
+    }
+  }
+  if (payload.priority != null && Number.isFinite(payload.priority) && payload.priority >= 0) {
+    formValues.priority = payload.priority;
+  }
+
+  return {
+    conditionTree: toGroup(payload.logic, children),
+    formValues,
+    scope: payload.scope ?? null,
+    issues,
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * Rule set activation timeline
+ *
+ * Built from activation events: a version becomes ACTIVE once per
+ * activation, including when a rollback re-activates it, and stays ACTIVE
+ * until the next activation of the same rule set. Rolling back re-activates
+ * the version that was ACTIVE just before the current one.
+ */
+
+import type { RuleSetVersionResponse } from "../../api/types";
+import { RuleSetStatus } from "../../types/enums";
+
+type TimelineVersion = Pick<
+  RuleSetVersionResponse,
+  | "ruleset_version_id"
+  | "version"
+  | "status"
+  | "activated_at"
+  | "activations"
+  | "approved_by"
+  | "approved_at"
+>;
+
+export interface ActivationPeriod {
+  ruleset_version_id: string;
+  version: number;
+  activated_at: string;
+  /** Start of the next activation; null for the latest period */
+  deactivated_at: string | null;
+  /** The latest period, and its version is still ACTIVE */
+  is_current: boolean;
+  approved_by: string | null;
+  approved_at: string | null;
+}
+
+interface ActivationEvent<T extends TimelineVersion> {
+  version: T;
+  activated_at: string;
+}
+
+/**
+ * Version statuses come back from the API as plain strings
+ */
+export const isActiveVersion = (version: Pick<TimelineVersion, "status">): boolean =>
+  (version.status as RuleSetStatus) === RuleSetStatus.ACTIVE;
+
+/**
+ * Every activation of every version, oldest first; versions without an
+ * activation history count their latest activation only
+ */
+function activationEvents<T extends TimelineVersion>(versions: T[]): ActivationEvent<T>[] {
+  return versions
+    .flatMap((version) =>
+      (version.activations ?? (version.activated_at == null ? [] : [version.activated_at])).map(
+        (activatedAt) => ({ version, activated_at: activatedAt })
+      )
+    )
+    .sort((a, b) => Date.parse(a.activated_at) - Date.parse(b.activated_at));
+}
+
+/**
+ * Activation periods, most recent first
+ */
+export function buildActivationTimeline(versions: TimelineVersion[]): ActivationPeriod[] {
+  const events = activationEvents(versions);
+
+  return events
+    .map(({ version, activated_at }, index) => {
+      const next = events[index + 1];
+      return {
+        ruleset_version_id: version.ruleset_version_id,
+        version: version.version,
+        activated_at,
+        // The API records no deactivation time, so a version that ended last has no end
+        deactivated_at: next?.activated_at ?? null,
+        is_current: next == null && isActiveVersion(version),
+        approved_by: version.approved_by,
+        approved_at: version.approved_at,
+      };
+    })
+    .reverse();
+}
+
+/**
+ * Version a rollback would re-activate, or null when there is nothing to roll back to
+ */
+export function findRollbackTarget<T extends TimelineVersion>(versions: T[]): T | null {
+  const current = versions.find(isActiveVersion);
+  if (current == null) return null;
+
+  // Walk back from the current activation to the one before it
+  const events = activationEvents(versions).reverse();
+  const currentIndex = events.findIndex(
+    (event) => event.version.ruleset_version_id === current.ruleset_version_id
+  );
+  if (currentIndex < 0) return null;
+  const previous = events
+    .slice(currentIndex)
+    .find((event) => event.version.ruleset_version_id !== current.ruleset_version_id);
+
+  return previous?.version ?? null;
+}
@@ -0,0 +1,409 @@
+/**
+ * Rule set conflict analysis
+ *
+ * Static checks over the rule versions attached to a rule set, run before the
+ * set is submitted for approval. The analysis is conservative: a rule is only
+ * reported as unreachable when a higher-priority rule provably matches every
+ * transaction it could match. Nested OR groups are compared structurally
+ * rather than reasoned about, so some real conflicts go unreported.
+ */
+
+import type {
+  CompiledRule,
+  PersistedConditionNode,
+  PersistedConditionTree,
+  RuleVersion,
+} from "../../types/domain";
+import { EvaluationMode, Operator } from "../../types/enums";
+import { isVelocityField } from "./guards";
+import { velocityFieldKey } from "./conditionEvaluator";
+
+export type RuleSetFindingKind =
+  | "UNREACHABLE_RULE"
+  | "DUPLICATE_PREDICATE"
+  | "CONTRADICTORY_RANGE"
+  | "OVERLAPPING_SCOPE"
+  | "ALLOW_BLOCK_OVERLAP";
+
+export interface RuleSetFinding {
+  kind: RuleSetFindingKind;
+  severity: "error" | "warning";
+  /** Rule versions involved, the affected rule first */
+  ruleVersionIds: string[];
+  message: string;
+}
+
+export interface RuleSetAnalysisInput {
+  rules: RuleVersion[];
+  evaluationMode: EvaluationMode | "FIRST_MATCH" | "ALL_MATCHING";
+  /** Compiled action per rule_id, used to detect ALLOW/BLOCK overlap */
+  actions?: Record<string, CompiledRule["action"]>;
+}
+
+type Predicate = Exclude<PersistedConditionNode, PersistedConditionTree>;
+
+interface Interval {
+  lo: number;
+  loInclusive: boolean;
+  hi: number;
+  hiInclusive: boolean;
+}
+
+const UNBOUNDED: Interval = {
+  lo: -Infinity,
+  loInclusive: false,
+  hi: Infinity,
+  hiInclusive: false,
+};
+
+const SCOPE_DIMENSIONS = ["network", "bin", "mcc", "logo"] as const;
+
+function isPredicate(node: PersistedConditionNode): node is Predicate {
+  return "field" in node && "op" in node;
+}
+
+function fieldKey(predicate: Predicate): string {
+  return isVelocityField(predicate.field)
+    ? velocityFieldKey(predicate.field)
+    : String(predicate.field);
+}
+
+function describePredicate(predicate: Predicate): string {
+  const value =
+    typeof predicate.value === "string" ? predicate.value : JSON.stringify(predicate.value);
+  return `${fieldKey(predicate)} ${predicate.op} ${value}`;
+}
+
+function ruleLabel(rule: RuleVersion): string {
+  return `${rule.rule_id} v${rule.version}`;
+}
+
+// ---------------------------------------------------------------------------
+// Predicate constraints
+// ---------------------------------------------------------------------------
+
+function numeric(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Numeric range a predicate admits, or null when it is not a numeric bound
+ */
+function predicateInterval(predicate: Predicate): Interval | null {
+  const { op, value } = predicate;
+  if (op === Operator.BETWEEN && Array.isArray(value)) {
+    const [lo, hi] = value.map(numeric);
+    if (lo == null || hi == null) return null;
+    return { lo, loInclusive: true, hi, hiInclusive: true };
+  }
+
+  const bound = numeric(value);
+  if (bound == null) return null;
+  switch (op) {
+    case Operator.EQ:
+      return { lo: bound, loInclusive: true, hi: bound, hiInclusive: true };
+    case Operator.GT:
+    case Operator.GTE:
+      return { ...UNBOUNDED, lo: bound, loInclusive: op === Operator.GTE };
+    case Operator.LT:
+    case Operator.LTE:
+      return { ...UNBOUNDED, hi: bound, hiInclusive: op === Operator.LTE };
+    default:
+      return null;
+  }
+}
+
+function tighterLower(a: Interval, b: Interval): Pick<Interval, "lo" | "loInclusive"> {
+  if (a.lo !== b.lo) return a.lo > b.lo ? a : b;
+  return { lo: a.lo, loInclusive: a.loInclusive && b.loInclusive };
+}
+
+function tighterUpper(a: Interval, b: Interval): Pick<Interval, "hi" | "hiInclusive"> {
+  if (a.hi !== b.hi) return a.hi < b.hi ? a : b;
+  return { hi: a.hi, hiInclusive: a.hiInclusive && b.hiInclusive };
+}
+
+function intersectIntervals(a: Interval, b: Interval): Interval {
+  const { lo, loInclusive } = tighterLower(a, b);
+  const { hi, hiInclusive } = tighterUpper(a, b);
+  return { lo, loInclusive, hi, hiInclusive };
+}
+
+function isEmptyInterval(interval: Interval): boolean {
+  if (interval.lo > interval.hi) return true;
+  return interval.lo === interval.hi && !(interval.loInclusive && interval.hiInclusive);
+}
+
+function intervalContains(outer: Interval, inner: Interval): boolean {
+  const loOk =
+    inner.lo > outer.lo || (inner.lo === outer.lo && (outer.loInclusive || !inner.loInclusive));
+  const hiOk =
+    inner.hi < outer.hi || (inner.hi === outer.hi && (outer.hiInclusive || !inner.hiInclusive));
+  return loOk && hiOk;
+}
+
+/**
+ * Discrete values an EQ/IN predicate admits, or null for other operators
+ */
+function predicateValueSet(predicate: Predicate): string[] | null {
+  if (predicate.op === Operator.EQ) return [String(predicate.value)];
+  if (predicate.op === Operator.IN && Array.isArray(predicate.value)) {
+    return predicate.value.map(String);
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Conjunct handling
+// ---------------------------------------------------------------------------
+
+/**
+ * Flattens nested AND groups into the list of nodes that must all hold.
+ * OR groups with more than one branch are kept as opaque nodes.
+ */
+function conjuncts(node: PersistedConditionNode): PersistedConditionNode[] {
+  if (isPredicate(node)) return [node];
+  if (Array.isArray(node.or)) {
+    const [only] = node.or;
+    return node.or.length === 1 && only != null ? conjuncts(only) : [node];
+  }
+  return (node.and ?? []).flatMap(conjuncts);
+}
+
+function predicatesByField(nodes: PersistedConditionNode[]): Map<string, Predicate[]> {
+  const byField = new Map<string, Predicate[]>();
+  nodes.filter(isPredicate).forEach((predicate) => {
+    const key = fieldKey(predicate);
+    byField.set(key, [...(byField.get(key) ?? []), predicate]);
+  });
+  return byField;
+}
+
+function combinedInterval(predicates: Predicate[]): Interval | null {
+  const intervals = predicates.map(predicateInterval).filter((i): i is Interval => i != null);
+  return intervals.length === 0 ? null : intervals.reduce(intersectIntervals, UNBOUNDED);
+}
+
+function combinedValueSet(predicates: Predicate[]): string[] | null {
+  const sets = predicates.map(predicateValueSet).filter((s): s is string[] => s != null);
+  if (sets.length === 0) return null;
+  return sets.reduce((acc, set) => acc.filter((value) => set.includes(value)));
+}
+
+/**
+ * Predicates on a single field that can never hold together, or null
+ */
+function contradictionFor(predicates: Predicate[]): Predicate[] | null {
+  const interval = combinedInterval(predicates);
+  if (interval != null && isEmptyInterval(interval)) {
+    return predicates.filter((p) => predicateInterval(p) != null);
+  }
+  const values = combinedValueSet(predicates);
+  if (values?.length === 0) {
+    return predicates.filter((p) => predicateValueSet(p) != null);
+  }
+  return null;
+}
+
+function findContradictions(nodes: PersistedConditionNode[]): Predicate[][] {
+  return Array.from(predicatesByField(nodes).values())
+    .map(contradictionFor)
+    .filter((c): c is Predicate[] => c != null);
+}
+
+/**
+ * Whether every transaction satisfying `premises` also satisfies `conclusion`
+ */
+function implies(premises: PersistedConditionNode[], conclusion: PersistedConditionNode): boolean {
+  const json = JSON.stringify(conclusion);
+  if (premises.some((premise) => JSON.stringify(premise) === json)) return true;
+  if (!isPredicate(conclusion)) return false;
+
+  const sameField = premises
+    .filter(isPredicate)
+    .filter((premise) => fieldKey(premise) === fieldKey(conclusion));
+  if (sameField.length === 0) return false;
+  if (conclusion.op === Operator.IS_NOT_NULL) {
+    return sameField.some((premise) => premise.op !== Operator.IS_NULL);
+  }
+
+  const required = predicateInterval(conclusion);
+  const available = combinedInterval(sameField);
+  if (required != null && available != null) return intervalContains(required, available);
+
+  const allowed = predicateValueSet(conclusion);
+  const offered = combinedValueSet(sameField);
+  if (allowed == null) return false;
+  return offered?.every((value) => allowed.includes(value)) ?? false;
+}
+
+// ---------------------------------------------------------------------------
+// Scope handling (an absent or empty dimension is unrestricted)
+// ---------------------------------------------------------------------------
+
+function dimension(
+  scope: RuleVersion["scope"],
+  key: (typeof SCOPE_DIMENSIONS)[number]
+): string[] | null {
+  const values = scope?.[key];
+  return values == null || values.length === 0 ? null : values;
+}
+
+function scopeCovers(outer: RuleVersion["scope"], inner: RuleVersion["scope"]): boolean {
+  return SCOPE_DIMENSIONS.every((key) => {
+    const allowed = dimension(outer, key);
+    if (allowed == null) return true;
+    const required = dimension(inner, key);
+    return required?.every((value) => allowed.includes(value)) ?? false;
+  });
+}
+
+function scopesOverlap(a: RuleVersion["scope"], b: RuleVersion["scope"]): boolean {
+  return SCOPE_DIMENSIONS.every((key) => {
+    const left = dimension(a, key);
+    const right = dimension(b, key);
+    return left == null || right == null || left.some((value) => right.includes(value));
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Checks
+// ---------------------------------------------------------------------------
+
+function collectAndGroups(
+  node: PersistedConditionNode,
+  parentIsAnd: boolean
+): PersistedConditionTree[] {
+  if (isPredicate(node)) return [];
+  const isAnd = !Array.isArray(node.or);
+  const children = node.or ?? node.and ?? [];
+  const nested = children.flatMap((child) => collectAndGroups(child, isAnd));
+  return isAnd && !parentIsAnd ? [node, ...nested] : nested;
+}
+
+function contradictionFindings(rule: RuleVersion): RuleSetFinding[] {
+  return collectAndGroups(rule.condition_tree, false).flatMap((group) =>
+    findContradictions(conjuncts(group)).map((predicates) => ({
+      kind: "CONTRADICTORY_RANGE" as const,
+      severity: "error" as const,
+      ruleVersionIds: [rule.rule_version_id],
+      message: `${ruleLabel(rule)}: ${predicates.map(describePredicate).join(" AND ")} can never all hold.`,
+    }))
+  );
+}
+
+function collectGroups(node: PersistedConditionNode): PersistedConditionTree[] {
+  if (isPredicate(node)) return [];
+  return [node, ...(node.or ?? node.and ?? []).flatMap(collectGroups)];
+}
+
+function duplicateFindings(rule: RuleVersion): RuleSetFinding[] {
+  return collectGroups(rule.condition_tree).flatMap((group) => {
+    const seen = new Set<string>();
+    const reported = new Set<string>();
+    return (group.or ?? group.and ?? []).filter(isPredicate).flatMap((predicate) => {
+      const json = JSON.stringify(predicate);
+      const duplicate = seen.has(json) && !reported.has(json);
+      seen.add(json);
+      if (!duplicate) return [];
+      reported.add(json);
+      return [
+        {
+          kind: "DUPLICATE_PREDICATE" as const,
+          severity: "warning" as const,
+          ruleVersionIds: [rule.rule_version_id],
+          message: `${ruleLabel(rule)}: ${describePredicate(predicate)} is repeated in the same group.`,
+        },
+      ];
+    });
+  });
+}
+
+/**
+ * Whether `earlier` matches every transaction `later` can match
+ */
+function shadows(earlier: RuleVersion, later: RuleVersion): boolean {
+  if (!scopeCovers(earlier.scope, later.scope)) return false;
+  const premises = conjuncts(later.condition_tree);
+  return conjuncts(earlier.condition_tree).every((conclusion) => implies(premises, conclusion));
+}
+
+function unreachableFindings(sorted: RuleVersion[]): RuleSetFinding[] {
+  return sorted.flatMap((later, index) => {
+    const shadower = sorted
+      .slice(0, index)
+      .find((earlier) => earlier.priority < later.priority && shadows(earlier, later));
+    if (shadower == null) return [];
+    return [
+      {
+        kind: "UNREACHABLE_RULE" as const,
+        severity: "error" as const,
+        ruleVersionIds: [later.rule_version_id, shadower.rule_version_id],
+        message: `${ruleLabel(later)} can never fire: ${ruleLabel(shadower)} (priority ${shadower.priority}) matches every transaction it would match.`,
+      },
+    ];
+  });
+}
+
+function canBothMatch(a: RuleVersion, b: RuleVersion): boolean {
+  if (!scopesOverlap(a.scope, b.scope)) return false;
+  const combined = [...conjuncts(a.condition_tree), ...conjuncts(b.condition_tree)];
+  return findContradictions(combined).length === 0;
+}
+
+function pairs(rules: RuleVersion[]): Array<[RuleVersion, RuleVersion]> {
+  return rules.flatMap((a, i) => rules.slice(i + 1).map((b): [RuleVersion, RuleVersion] => [a, b]));
+}
+
+function overlappingScopeFindings(sorted: RuleVersion[]): RuleSetFinding[] {
+  return pairs(sorted)
+    .filter(([a, b]) => a.priority === b.priority && canBothMatch(a, b))
+    .map(([a, b]) => ({
+      kind: "OVERLAPPING_SCOPE" as const,
+      severity: "warning" as const,
+      ruleVersionIds: [a.rule_version_id, b.rule_version_id],
+      message: `${ruleLabel(a)} and ${ruleLabel(b)} share priority ${a.priority} and overlapping scopes; which one fires first is undefined.`,
+    }));
+}
+
+function allowBlockFindings(
+  rules: RuleVersion[],
+  actions: Record<string, CompiledRule["action"]>
+): RuleSetFinding[] {
+  return pairs(rules)
+    .filter(([a, b]) => {
+      const kinds = new Set([actions[a.rule_id], actions[b.rule_id]]);
+      return kinds.has("ALLOW") && kinds.has("BLOCK") && canBothMatch(a, b);
+    })
+    .map(([a, b]) => ({
+      kind: "ALLOW_BLOCK_OVERLAP" as const,
+      severity: "warning" as const,
+      ruleVersionIds: [a.rule_version_id, b.rule_version_id],
+      message: `${ruleLabel(a)} (${actions[a.rule_id]}) and ${ruleLabel(b)} (${actions[b.rule_id]}) can match the same transaction.`,
+    }));
+}
+
+/**
+ * Runs every check over a rule set; errors are listed before warnings
+ */
+export function analyzeRuleSet({
+  rules,
+  evaluationMode,
+  actions = {},
+}: RuleSetAnalysisInput): RuleSetFinding[] {
+  const sorted = [...rules].sort((a, b) => a.priority - b.priority);
+  const firstMatch = evaluationMode === EvaluationMode.FIRST_MATCH;
+
+  const findings = [
+    ...sorted.flatMap(contradictionFindings),
+    ...sorted.flatMap(duplicateFindings),
+    ...(firstMatch ? unreachableFindings(sorted) : []),
+    ...(firstMatch ? overlappingScopeFindings(sorted) : []),
+    ...allowBlockFindings(sorted, actions),
+  ];
+
+  return [
+    ...findings.filter((finding) => finding.severity === "error"),
+    ...findings.filter((finding) => finding.severity === "warning"),
+  ];
+}
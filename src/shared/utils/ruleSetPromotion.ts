@@ -0,0 +1,76 @@
+/**
+ * Rule set promotion
+ *
+ * Rulesets move LOCAL → TEST → PROD. Promotion clones an ACTIVE ruleset into
+ * the next environment; the diff is keyed by rule_id so a rule whose version
+ * changed shows up as updated rather than as a remove/add pair.
+ */
+
+import type { RuleSet, RuleVersion } from "../../types/domain";
+import { RuleSetStatus, RulesetEnvironment } from "../../types/enums";
+
+export const PROMOTION_PATH: readonly RulesetEnvironment[] = [
+  RulesetEnvironment.LOCAL,
+  RulesetEnvironment.TEST,
+  RulesetEnvironment.PROD,
+];
+
+export type PromotionChangeType = "added" | "removed" | "updated" | "unchanged";
+
+export interface PromotionRuleChange {
+  rule_id: string;
+  change: PromotionChangeType;
+  /** Version ACTIVE in the target environment */
+  current: RuleVersion | null;
+  /** Version carried over by the promotion */
+  promoted: RuleVersion | null;
+}
+
+/**
+ * Environment an ACTIVE ruleset would be promoted to, or null past PROD
+ */
+export function getNextEnvironment(environment: RulesetEnvironment): RulesetEnvironment | null {
+  const index = PROMOTION_PATH.indexOf(environment);
+  return index === -1 ? null : (PROMOTION_PATH[index + 1] ?? null);
+}
+
+export function canPromoteRuleSet(ruleset: Pick<RuleSet, "status" | "environment">): boolean {
+  return ruleset.status === RuleSetStatus.ACTIVE && getNextEnvironment(ruleset.environment) != null;
+}
+
+/**
+ * Compares the promoted rule versions with the ones ACTIVE in the target
+ */
+export function diffPromotedRules(
+  promoted: RuleVersion[],
+  current: RuleVersion[]
+): PromotionRuleChange[] {
+  const currentByRule = new Map(current.map((rule) => [rule.rule_id, rule]));
+  const promotedIds = new Set(promoted.map((rule) => rule.rule_id));
+
+  const changes: PromotionRuleChange[] = promoted.map((rule) => {
+    const existing = currentByRule.get(rule.rule_id) ?? null;
+    let change: PromotionChangeType = "added";
+    if (existing != null) {
+      change = existing.rule_version_id === rule.rule_version_id ? "unchanged" : "updated";
+    }
+    return {
+      rule_id: rule.rule_id,
+      change,
+      current: existing,
+      promoted: rule,
+    };
+  });
+
+  for (const rule of current) {
+    if (promotedIds.has(rule.rule_id)) continue;
+    changes.push({
+      rule_id: rule.rule_id,
+      change: "removed",
+      current: rule,
+      promoted: null,
+    });
+  }
+
+  return changes;
+}
@@ -0,0 +1,52 @@
+/**
+ * Rule test case runner
+ *
+ * Re-runs a rule version's saved test cases against a condition tree using the
+ * client-side evaluator, so makers see regressions while editing and checkers
+ * see the same evidence when approving.
+ */
+
+import type {
+  PersistedConditionTree,
+  RuleTestCase,
+  RuleTestCaseExpectation,
+} from "../../types/domain";
+import { evaluateConditionTree, type EvaluationResult } from "./conditionEvaluator";
+
+/**
+ * Outcome of running one test case
+ */
+export interface RuleTestCaseResult {
+  testCase: RuleTestCase;
+  actual: RuleTestCaseExpectation;
+  passed: boolean;
+  evaluation: EvaluationResult;
+}
+
+/**
+ * Pass/fail counts for a test case run
+ */
+export interface RuleTestCaseSummary {
+  total: number;
+  passed: number;
+  failed: number;
+}
+
+/**
+ * Runs every test case against the given condition tree
+ */
+export function runRuleTestCases(
+  tree: PersistedConditionTree | null | undefined,
+  testCases: RuleTestCase[]
+): RuleTestCaseResult[] {
+  return testCases.map((testCase) => {
+    const evaluation = evaluateConditionTree(tree, testCase.sample);
+    const actual: RuleTestCaseExpectation = evaluation.matched ? "MATCH" : "NO_MATCH";
+    return { testCase, actual, passed: actual === testCase.expected, evaluation };
+  });
+}
+
+export function summarizeRuleTestCaseResults(results: RuleTestCaseResult[]): RuleTestCaseSummary {
+  const passed = results.filter((result) => result.passed).length;
+  return { total: results.length, passed, failed: results.length - passed };
+}
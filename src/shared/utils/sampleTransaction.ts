@@ -0,0 +1,55 @@
+/**
+ * Sample Transaction Helpers
+ *
+ * Builds and parses the hand-written sample records fed to the condition evaluator.
+ */
+
+import type { PersistedConditionNode, PersistedConditionTree } from "../../types/domain";
+import { velocityFieldKey, type SampleTransaction } from "./conditionEvaluator";
+import { isVelocityField } from "./guards";
+
+/**
+ * Collects the sample keys referenced by a condition tree, in tree order
+ */
+export function collectSampleKeys(tree: PersistedConditionTree | null | undefined): string[] {
+  const keys = new Set<string>();
+
+  const visit = (node: PersistedConditionNode): void => {
+    if ("field" in node) {
+      keys.add(isVelocityField(node.field) ? velocityFieldKey(node.field) : String(node.field));
+      return;
+    }
+    (node.and ?? node.or ?? []).forEach(visit);
+  };
+
+  if (tree != null) visit(tree);
+  return Array.from(keys);
+}
+
+/**
+ * Builds a JSON template with one null entry per referenced field
+ */
+export function buildSampleTemplate(tree: PersistedConditionTree | null | undefined): string {
+  const template: SampleTransaction = {};
+  collectSampleKeys(tree).forEach((key) => {
+    template[key] = null;
+  });
+  return JSON.stringify(template, null, 2);
+}
+
+export function parseSampleTransaction(text: string): {
+  error?: string;
+  sample?: SampleTransaction;
+} {
+  if (text.trim() === "") return { sample: {} };
+
+  try {
+    const parsed: unknown = JSON.parse(text);
+    if (parsed == null || typeof parsed !== "object" || Array.isArray(parsed)) {
+      return { error: "Sample transaction must be a JSON object." };
+    }
+    return { sample: parsed as SampleTransaction };
+  } catch {
+    return { error: "Sample transaction must be valid JSON." };
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Saved views
+ *
+ * Turns stored view filters into list URLs and short labels. Worklist views
+ * use the worklist page's own query parameters; transaction views use the
+ * `filters[n][field]` format the transaction table syncs with the URL.
+ */
+
+import type {
+  SavedTransactionFilters,
+  SavedView,
+  SavedWorklistFilters,
+} from "../../types/savedView";
+import type { TransactionFilters } from "../../types/transaction";
+import { formatNumber } from "./format";
+import { buildQueryString } from "./url";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type FilterValue = string | number | boolean | null | undefined;
+
+function isSet(value: FilterValue): value is string | number | true {
+  return value != null && value !== "" && value !== false;
+}
+
+/**
+ * Transaction filters with a rolling `window_days` resolved to a concrete
+ * `from_date` relative to `now`
+ */
+export function resolveTransactionViewFilters(
+  filters: SavedTransactionFilters,
+  now: Date = new Date()
+): TransactionFilters {
+  const { window_days: windowDays, ...rest } = filters;
+  if (windowDays == null || windowDays <= 0) return rest;
+  return {
+    ...rest,
+    from_date: new Date(now.getTime() - windowDays * DAY_MS).toISOString(),
+    to_date: null,
+  };
+}
+
+function worklistViewPath(filters: SavedWorklistFilters): string {
+  return `/worklist${buildQueryString({
+    status: filters.status ?? undefined,
+    risk_level_filter: filters.risk_level_filter ?? undefined,
+    priority_filter: filters.priority_filter ?? undefined,
+    assigned_only: filters.assigned_only === true ? true : undefined,
+    sort: filters.sort ?? undefined,
+  })}`;
+}
+
+function transactionViewPath(filters: SavedTransactionFilters, now: Date): string {
+  const params = new URLSearchParams();
+  let index = 0;
+  for (const [field, value] of Object.entries(resolveTransactionViewFilters(filters, now))) {
+    if (!isSet(value as FilterValue)) continue;
+    params.set(`filters[${index}][field]`, field);
+    params.set(`filters[${index}][operator]`, "eq");
+    params.set(`filters[${index}][value]`, String(value));
+    index += 1;
+  }
+  const query = params.toString();
+  return query === "" ? "/transactions" : `/transactions?${query}`;
+}
+
+export function buildSavedViewPath(view: SavedView, now: Date = new Date()): string {
+  return view.target === "worklist"
+    ? worklistViewPath(view.filters)
+    : transactionViewPath(view.filters, now);
+}
+
+function formatAmountRange(min: FilterValue, max: FilterValue): string | null {
+  if (typeof min === "number" && typeof max === "number") {
+    return `Amount ${formatNumber(min)}–${formatNumber(max)}`;
+  }
+  if (typeof min === "number") return `Amount ≥ ${formatNumber(min)}`;
+  if (typeof max === "number") return `Amount ≤ ${formatNumber(max)}`;
+  return null;
+}
+
+const TRANSACTION_FILTER_LABELS: Array<[keyof SavedTransactionFilters, string]> = [
+  ["decision", "Decision"],
+  ["decision_reason", "Reason"],
+  ["review_status", "Status"],
+  ["risk_level", "Risk"],
+  ["merchant_id", "Merchant"],
+  ["card_id", "Card"],
+  ["rule_id", "Rule"],
+  ["ruleset_id", "Rule set"],
+  ["case_id", "Case"],
+  ["search", "Search"],
+];
+
+function describeDateWindow(filters: SavedTransactionFilters): string[] {
+  if (filters.window_days != null && filters.window_days > 0) {
+    return [`Last ${filters.window_days} days`];
+  }
+  return [
+    isSet(filters.from_date) ? `From ${filters.from_date}` : null,
+    isSet(filters.to_date) ? `To ${filters.to_date}` : null,
+  ].filter((label): label is string => label != null);
+}
+
+function describeTransactionFilters(filters: SavedTransactionFilters): string[] {
+  const labels = TRANSACTION_FILTER_LABELS.flatMap(([key, label]) => {
+    const value = filters[key] as FilterValue;
+    return isSet(value) ? [`${label}: ${String(value)}`] : [];
+  });
+  const amount = formatAmountRange(filters.min_amount, filters.max_amount);
+  return [
+    ...labels,
+    ...(amount == null ? [] : [amount]),
+    ...describeDateWindow(filters),
+    ...(filters.assigned_to_me === true ? ["Assigned to me"] : []),
+  ];
+}
+
+function describeWorklistFilters(filters: SavedWorklistFilters): string[] {
+  const labels: Array<string | null> = [
+    isSet(filters.status) ? `Status: ${filters.status}` : null,
+    isSet(filters.risk_level_filter) ? `Risk: ${filters.risk_level_filter}` : null,
+    isSet(filters.priority_filter) ? `P${filters.priority_filter}` : null,
+    filters.assigned_only === true ? "Assigned to me" : null,
+    filters.sort === "time_to_breach" ? "Sorted by time to breach" : null,
+  ];
+  return labels.filter((label): label is string => label != null);
+}
+
+/**
+ * Short labels for each filter a view applies, for tags and palette hints
+ */
+export function describeSavedViewFilters(view: SavedView): string[] {
+  return view.target === "worklist"
+    ? describeWorklistFilters(view.filters)
+    : describeTransactionFilters(view.filters);
+}
+
+/**
+ * Drops unset filters (null, empty, false) so stored views only carry what
+ * they actually filter on
+ */
+export function compactSavedViewFilters<T extends object>(filters: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => isSet(value as FilterValue))
+  ) as Partial<T>;
+}
+
+/**
+ * Pinned views first, then alphabetically
+ */
+export function sortSavedViews(views: SavedView[]): SavedView[] {
+  return [...views].sort((a, b) => {
+    if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
+    return a.name.localeCompare(b.name);
+  });
+}
@@ -0,0 +1,124 @@
+/**
+ * Sensitive data masking
+ *
+ * Masks the values of fields flagged `is_sensitive` in the field registry.
+ * Values are found two ways in the JSON the portal renders: object keys that
+ * name a sensitive field (matched rule `condition_values`, audit snapshots)
+ * and condition predicates whose `field` is sensitive (condition trees).
+ */
+
+import { isVelocityField } from "./guards";
+
+/** Shown in place of a masked value */
+export const MASKED_VALUE = "••••••";
+
+/** Shortest justification accepted for revealing sensitive values */
+export const MIN_REVEAL_REASON_LENGTH = 10;
+
+export interface MaskResult<T> {
+  value: T;
+  /** Sensitive field keys that had at least one value masked, in first-seen order */
+  fieldKeys: string[];
+}
+
+const normalizeKey = (key: string): string => key.trim().toUpperCase();
+
+/**
+ * Treats every field as sensitive. Used while the field registry is loading
+ * or could not be loaded, so values are never shown before they are known
+ * to be safe.
+ */
+export const MASK_ALL_KEYS: ReadonlySet<string> = new Set<string>();
+
+/**
+ * Sensitive field key lookup, ignoring case so `card_number` in a payload
+ * matches the registry's `CARD_NUMBER`
+ */
+export function toSensitiveKeySet(fieldKeys: Iterable<string>): ReadonlySet<string> {
+  return new Set(Array.from(fieldKeys, normalizeKey));
+}
+
+export function isSensitiveKey(sensitiveKeys: ReadonlySet<string>, key: string): boolean {
+  return sensitiveKeys === MASK_ALL_KEYS || sensitiveKeys.has(normalizeKey(key));
+}
+
+/**
+ * Replaces a value with the mask; arrays keep their length so `IN` lists
+ * still show how many values they hold
+ */
+function maskValue(value: unknown): unknown {
+  if (value == null) return value;
+  if (Array.isArray(value)) return value.map(() => MASKED_VALUE);
+  return MASKED_VALUE;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value != null && !Array.isArray(value);
+
+/**
+ * Copy of `data` with every sensitive value masked; `data` is not modified
+ */
+export function maskSensitiveValues<T>(data: T, sensitiveKeys: ReadonlySet<string>): MaskResult<T> {
+  const fieldKeys: string[] = [];
+  if (sensitiveKeys.size === 0 && sensitiveKeys !== MASK_ALL_KEYS) {
+    return { value: data, fieldKeys };
+  }
+
+  const maskAll = sensitiveKeys === MASK_ALL_KEYS;
+  const record = (key: string): void => {
+    const normalized = normalizeKey(key);
+    if (!fieldKeys.includes(normalized)) fieldKeys.push(normalized);
+  };
+
+  const walk = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(walk);
+    if (!isPlainObject(value)) return value;
+
+    // Condition predicate: { field, op, value }; only its value can be sensitive
+    const predicateField = value.field;
+    const isPredicate = typeof predicateField === "string" && "value" in value;
+    const isSensitivePredicate = isPredicate && isSensitiveKey(sensitiveKeys, predicateField);
+    // A velocity aggregate's type, window and group_by are structure, not field values;
+    // its threshold is only hidden while every value is
+    const isVelocityPredicate = isVelocityField(predicateField) && "value" in value;
+
+    if (isVelocityPredicate) {
+      return maskAll ? { ...value, value: maskValue(value.value) } : value;
+    }
+
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => {
+        if (isSensitivePredicate && key === "value") {
+          if (child != null) record(predicateField);
+          return [key, maskValue(child)];
+        }
+        if (!isPredicate && isSensitiveKey(sensitiveKeys, key) && child != null) {
+          // With every key sensitive, descend so nested structure stays readable
+          if (
+            maskAll &&
+            (isPlainObject(child) || (Array.isArray(child) && child.some(isPlainObject)))
+          ) {
+            return [key, walk(child)];
+          }
+          record(key);
+          return [key, maskValue(child)];
+        }
+        return [key, walk(child)];
+      })
+    );
+  };
+
+  return { value: walk(data) as T, fieldKeys };
+}
+
+/**
+ * A value compared against `field` (a predicate's value, or the sample value
+ * it was evaluated against), masked as it would be inside that predicate
+ */
+export function maskPredicateValue(
+  field: unknown,
+  value: unknown,
+  sensitiveKeys: ReadonlySet<string>
+): unknown {
+  return maskSensitiveValues({ field, value }, sensitiveKeys).value.value;
+}
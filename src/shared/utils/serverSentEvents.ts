@@ -0,0 +1,118 @@
+/**
+ * Server-Sent Events parsing
+ *
+ * Minimal `text/event-stream` reader for streams opened with fetch, which
+ * unlike EventSource can carry an Authorization header, and the reconnect
+ * loop shared by the live views.
+ */
+
+const RECONNECT_DELAY_MS = 30000;
+
+export interface ServerSentEventMessage {
+  id: string | null;
+  event: string;
+  data: string;
+}
+
+/**
+ * Splits buffered stream text into complete messages; `rest` is the trailing
+ * partial message to prepend to the next chunk. Comments and retry hints are
+ * ignored.
+ */
+export function parseServerSentEvents(buffer: string): {
+  messages: ServerSentEventMessage[];
+  rest: string;
+} {
+  const blocks = buffer.replace(/\r\n?/g, "\n").split("\n\n");
+  const rest = blocks.pop() ?? "";
+  const messages: ServerSentEventMessage[] = [];
+
+  for (const block of blocks) {
+    let id: string | null = null;
+    let event = "message";
+    const data: string[] = [];
+
+    for (const line of block.split("\n")) {
+      if (line === "" || line.startsWith(":")) continue;
+      const separator = line.indexOf(":");
+      const field = separator === -1 ? line : line.slice(0, separator);
+      const value = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+      if (field === "id") id = value;
+      else if (field === "event") event = value;
+      else if (field === "data") data.push(value);
+    }
+
+    if (data.length > 0) messages.push({ id, event, data: data.join("\n") });
+  }
+
+  return { messages, rest };
+}
+
+/**
+ * Reads a stream until it ends, passing each message to `onMessage`
+ */
+export async function readServerSentEvents(
+  stream: ReadableStream<Uint8Array>,
+  onMessage: (message: ServerSentEventMessage) => void
+): Promise<void> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      const parsed = parseServerSentEvents(buffer + decoder.decode(value, { stream: true }));
+      buffer = parsed.rest;
+      parsed.messages.forEach(onMessage);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+interface EventStreamHandlers {
+  /** The stream is open; called again after every reconnect */
+  onOpen: () => void;
+  onMessage: (message: ServerSentEventMessage) => void;
+  /** The stream failed to open or dropped; a reconnect is scheduled */
+  onDown: () => void;
+}
+
+/**
+ * Keeps a stream open, retrying `reconnectDelayMs` after each failure until
+ * the returned function is called
+ */
+export function connectEventStream(
+  open: (signal: AbortSignal) => Promise<ReadableStream<Uint8Array>>,
+  { onOpen, onMessage, onDown }: EventStreamHandlers,
+  reconnectDelayMs: number = RECONNECT_DELAY_MS
+): () => void {
+  let controller: AbortController | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const connect = (): void => {
+    const current = new AbortController();
+    controller = current;
+    reconnectTimer = null;
+
+    open(current.signal)
+      .then((stream) => {
+        onOpen();
+        return readServerSentEvents(stream, onMessage);
+      })
+      .catch(() => undefined)
+      .finally(() => {
+        if (current.signal.aborted) return;
+        onDown();
+        reconnectTimer = setTimeout(connect, reconnectDelayMs);
+      });
+  };
+
+  connect();
+  return () => {
+    controller?.abort();
+    if (reconnectTimer != null) clearTimeout(reconnectTimer);
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * Review SLA evaluation
+ *
+ * A review's SLA clock starts when it enters the queue (`created_at`) and
+ * stops when it is resolved. Its target is the stricter of the policy's
+ * priority and risk level targets.
+ */
+
+import type { RiskLevel, TransactionStatus } from "../../types/review";
+import type { SlaEvaluation, SlaPolicy } from "../../types/sla";
+
+export const DEFAULT_SLA_POLICY: SlaPolicy = {
+  priority_minutes: { "1": 60, "2": 240, "3": 480, "4": 1440, "5": 2880 },
+  risk_minutes: { CRITICAL: 120, HIGH: 240, MEDIUM: 1440, LOW: 2880 },
+  at_risk_percent: 25,
+  updated_at: null,
+  updated_by: null,
+};
+
+/**
+ * The fields of a worklist item or review that the SLA depends on
+ */
+export interface SlaSubject {
+  priority: number;
+  risk_level: RiskLevel | null;
+  status: TransactionStatus;
+  created_at: string;
+  resolved_at?: string | null;
+}
+
+const isFinished = (status: TransactionStatus): boolean =>
+  status === "RESOLVED" || status === "CLOSED";
+
+/**
+ * Minutes allowed for a review, or null when the policy sets no target for it
+ */
+export function getSlaTargetMinutes(
+  policy: SlaPolicy,
+  priority: number,
+  riskLevel: RiskLevel | null
+): number | null {
+  const targets = [
+    policy.priority_minutes[String(priority)],
+    riskLevel == null ? undefined : policy.risk_minutes[riskLevel],
+  ].filter((minutes): minutes is number => minutes != null && minutes > 0);
+  return targets.length === 0 ? null : Math.min(...targets);
+}
+
+/**
+ * Evaluates a review against the policy at `now` (epoch ms). Returns null when
+ * there is no target, or when a finished review has no resolution time.
+ */
+export function evaluateSla(
+  review: SlaSubject,
+  policy: SlaPolicy,
+  now: number = Date.now()
+): SlaEvaluation | null {
+  const target = getSlaTargetMinutes(policy, review.priority, review.risk_level);
+  const started = Date.parse(review.created_at);
+  if (target == null || Number.isNaN(started)) return null;
+
+  const due = started + target * 60_000;
+  const finished = isFinished(review.status);
+  if (finished && review.resolved_at == null) return null;
+
+  const stoppedAt = finished ? Date.parse(review.resolved_at ?? "") : now;
+  const remaining = Math.floor((due - stoppedAt) / 1000);
+  const atRiskSeconds = (target * 60 * policy.at_risk_percent) / 100;
+
+  let state: SlaEvaluation["state"];
+  if (remaining < 0) state = "BREACHED";
+  else if (finished) state = "MET";
+  else state = remaining <= atRiskSeconds ? "AT_RISK" : "ON_TRACK";
+
+  return {
+    state,
+    target_minutes: target,
+    due_at: new Date(due).toISOString(),
+    remaining_seconds: remaining,
+  };
+}
+
+/**
+ * Seconds until an open review breaches its target, for sorting; finished
+ * reviews and reviews without a target sort last
+ */
+export function getTimeToBreach(
+  review: SlaSubject,
+  policy: SlaPolicy,
+  now: number = Date.now()
+): number {
+  if (isFinished(review.status)) return Number.POSITIVE_INFINITY;
+  return evaluateSla(review, policy, now)?.remaining_seconds ?? Number.POSITIVE_INFINITY;
+}
+
+/**
+ * Orders reviews by time to breach, most urgent first
+ */
+export function compareTimeToBreach(
+  a: SlaSubject,
+  b: SlaSubject,
+  policy: SlaPolicy,
+  now: number = Date.now()
+): number {
+  const left = getTimeToBreach(a, policy, now);
+  const right = getTimeToBreach(b, policy, now);
+  if (left === right) return 0;
+  return left < right ? -1 : 1;
+}
+
+/**
+ * Formats a countdown as its two largest units, ignoring the sign
+ *
+ * @example
+ * formatSlaDuration(45) // "<1m"
+ * formatSlaDuration(4500) // "1h 15m"
+ * formatSlaDuration(-93600) // "1d 2h"
+ */
+export function formatSlaDuration(seconds: number): string {
+  const minutes = Math.floor(Math.abs(seconds) / 60);
+  if (minutes < 1) return "<1m";
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return minutes % 60 === 0 ? `${hours}h` : `${hours}h ${minutes % 60}m`;
+  const days = Math.floor(hours / 24);
+  return hours % 24 === 0 ? `${days}d` : `${days}d ${hours % 24}h`;
+}
+
+/**
+ * Formats a target in minutes, e.g. "4h" or "1d"
+ */
+export function formatSlaTarget(minutes: number): string {
+  return formatSlaDuration(minutes * 60);
+}
@@ -0,0 +1,143 @@
+/**
+ * Worklist events
+ *
+ * Applies streamed review changes to the loaded worklist page and stats, so
+ * the queue updates in place instead of waiting for the next poll.
+ */
+
+import type { TransactionStatus } from "../../types/review";
+import type {
+  WorklistEvent,
+  WorklistFilters,
+  WorklistItem,
+  WorklistStats,
+} from "../../types/worklist";
+
+/** Reviews in these statuses leave the queue unless explicitly filtered for */
+const CLOSED_STATUSES: readonly TransactionStatus[] = ["RESOLVED", "CLOSED"];
+
+type ReviewState = Pick<WorklistItem, "status" | "assigned_analyst_id">;
+
+export function matchesWorklistFilters(
+  item: WorklistItem,
+  filters: WorklistFilters,
+  currentUserId: string | null
+): boolean {
+  if (filters.status != null) {
+    if (item.status !== filters.status) return false;
+  } else if (CLOSED_STATUSES.includes(item.status)) {
+    return false;
+  }
+  if (filters.priority_filter != null && item.priority !== filters.priority_filter) return false;
+  if (filters.risk_level_filter != null && item.risk_level !== filters.risk_level_filter) {
+    return false;
+  }
+  if (filters.assigned_only === true && item.assigned_analyst_id !== currentUserId) return false;
+  return true;
+}
+
+/**
+ * Updates, inserts or removes the event's review. New entries are placed by
+ * priority so the page keeps the queue order.
+ */
+export function applyWorklistEvent(
+  items: WorklistItem[],
+  event: WorklistEvent,
+  filters: WorklistFilters,
+  currentUserId: string | null
+): { items: WorklistItem[]; totalDelta: number } {
+  const index = items.findIndex((item) => item.review_id === event.item.review_id);
+  const matches = matchesWorklistFilters(event.item, filters, currentUserId);
+
+  if (index !== -1) {
+    if (matches) {
+      return { items: items.map((item, i) => (i === index ? event.item : item)), totalDelta: 0 };
+    }
+    return { items: items.filter((_, i) => i !== index), totalDelta: -1 };
+  }
+
+  if (!matches) return { items, totalDelta: 0 };
+
+  const insertAt = items.findIndex((item) => item.priority > event.item.priority);
+  const next = [...items];
+  next.splice(insertAt === -1 ? items.length : insertAt, 0, event.item);
+  return { items: next, totalDelta: 1 };
+}
+
+function adjust<K extends string>(
+  counts: Record<K, number>,
+  key: K | null,
+  delta: number
+): Record<K, number> {
+  if (key == null || delta === 0) return counts;
+  return { ...counts, [key]: Math.max(0, (counts[key] ?? 0) + delta) };
+}
+
+function statsContribution(
+  state: ReviewState | null,
+  currentUserId: string | null
+): { unassigned: number; mine: number; resolved: number } {
+  if (state == null) return { unassigned: 0, mine: 0, resolved: 0 };
+  const open = !CLOSED_STATUSES.includes(state.status);
+  return {
+    unassigned: open && state.assigned_analyst_id == null ? 1 : 0,
+    mine: open && currentUserId != null && state.assigned_analyst_id === currentUserId ? 1 : 0,
+    resolved: state.status === "RESOLVED" ? 1 : 0,
+  };
+}
+
+/**
+ * Moves the review between the stats buckets it left and entered
+ */
+export function applyWorklistEventToStats(
+  stats: WorklistStats,
+  event: WorklistEvent,
+  currentUserId: string | null
+): WorklistStats {
+  const { item, previous } = event;
+  const before = statsContribution(previous, currentUserId);
+  const after = statsContribution(item, currentUserId);
+  const unassignedDelta = after.unassigned - before.unassigned;
+  const mineDelta = after.mine - before.mine;
+  const resolvedDelta = after.resolved - before.resolved;
+
+  let myAssignedByStatus = stats.my_assigned_by_status;
+  if (before.mine === 1 && previous != null) {
+    myAssignedByStatus = adjust(myAssignedByStatus, previous.status, -1);
+  }
+  if (after.mine === 1) {
+    myAssignedByStatus = adjust(myAssignedByStatus, item.status, 1);
+  }
+
+  return {
+    ...stats,
+    unassigned_total: Math.max(0, stats.unassigned_total + unassignedDelta),
+    unassigned_by_priority: adjust(
+      stats.unassigned_by_priority,
+      String(item.priority),
+      unassignedDelta
+    ),
+    unassigned_by_risk: adjust(stats.unassigned_by_risk, item.risk_level, unassignedDelta),
+    my_assigned_total: Math.max(0, stats.my_assigned_total + mineDelta),
+    my_assigned_by_status: myAssignedByStatus,
+    resolved_today: stats.resolved_today + resolvedDelta,
+  };
+}
+
+/**
+ * True when the event assigns the transaction to an analyst other than the
+ * current user
+ */
+export function isClaimedByOther(
+  event: WorklistEvent,
+  transactionId: string,
+  currentUserId: string | null
+): boolean {
+  const assignee = event.item.assigned_analyst_id;
+  return (
+    event.type === "REVIEW_ASSIGNED" &&
+    event.item.transaction_id === transactionId &&
+    assignee != null &&
+    assignee !== currentUserId
+  );
+}
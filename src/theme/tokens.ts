@@ -204,6 +204,12 @@ const COLOR_REGISTRIES: Record<string, Record<string, string>> = {
     APPROVE: "green",
     DECLINE: "red",
   },
+  ruleAction: {
+    ALLOW: "green",
+    BLOCK: "red",
+    FLAG: "orange",
+    REVIEW: "gold",
+  },
   evaluationType: {
     AUTH: "blue",
     MONITORING: "orange",
@@ -323,6 +329,13 @@ export function getDecisionColor(decision: string): string {
   return getColorFromRegistry("decision", decision);
 }
 
+/**
+ * Compiled rule action color mapping
+ */
+export function getRuleActionColor(action: string): string {
+  return getColorFromRegistry("ruleAction", action);
+}
+
 /**
  * Evaluation type color mapping
  */
@@ -223,6 +223,31 @@ export interface RuleVersion {
   status: RuleStatus;
 }
 
+/**
+ * Expected outcome of a rule test case
+ */
+export type RuleTestCaseExpectation = "MATCH" | "NO_MATCH";
+
+/**
+ * Named sample transaction saved against a rule version as regression evidence
+ */
+export interface RuleTestCase {
+  /** Unique test case identifier */
+  test_case_id: string;
+  /** Rule version the case belongs to */
+  rule_version_id: string;
+  /** Human-readable name */
+  name: string;
+  /** Sample transaction record keyed by field key */
+  sample: Record<string, unknown>;
+  /** Whether the condition tree should match the sample */
+  expected: RuleTestCaseExpectation;
+  /** User who created this case */
+  created_by: string;
+  /** Creation timestamp */
+  created_at: string;
+}
+
 /**
  * Complete rule with its current version
  */
@@ -291,6 +316,34 @@ export interface RuleSetWithRules extends RuleSet {
   rules: RuleVersion[];
 }
 
+/**
+ * Record of an ACTIVE ruleset being cloned into the next environment
+ */
+export interface RuleSetPromotion {
+  /** Unique promotion identifier */
+  promotion_id: string;
+  /** ACTIVE ruleset that was promoted */
+  source_ruleset_id: string;
+  /** Version of the source ruleset at promotion time */
+  source_version: number;
+  /** Environment the ruleset was promoted from */
+  from_environment: RulesetEnvironment;
+  /** Draft ruleset created in the target environment */
+  target_ruleset_id: string;
+  /** Environment the ruleset was promoted to */
+  to_environment: RulesetEnvironment;
+  /** Ruleset that was ACTIVE in the target environment at promotion time */
+  replaces_ruleset_id: string | null;
+  /** Rule versions carried over to the target ruleset */
+  rule_version_ids: string[];
+  /** Current status of the target ruleset */
+  target_status: RuleSetStatus;
+  /** User who promoted the ruleset */
+  promoted_by: string;
+  /** Promotion timestamp */
+  promoted_at: string;
+}
+
 /**
  * Compiled AST format for Quarkus consumption
  */
@@ -305,6 +358,8 @@ export interface CompiledAST {
   evaluation: {
     mode: "FIRST_MATCH" | "ALL_MATCHING";
   };
+  /** Field registry version the rules were compiled against */
+  registryVersion?: number;
   /** Compiled rules */
   rules: CompiledRule[];
 }
@@ -97,6 +97,8 @@ export enum EntityType {
   RULE = "RULE",
   RULE_VERSION = "RULE_VERSION",
   RULESET = "RULESET",
+  TRANSACTION = "TRANSACTION",
+  CASE = "CASE",
 }
 
 /**
@@ -110,6 +112,8 @@ export enum AuditAction {
   APPROVE = "APPROVE",
   REJECT = "REJECT",
   COMPILE = "COMPILE",
+  REVEAL = "REVEAL",
+  EXPORT = "EXPORT",
 }
 
 /**
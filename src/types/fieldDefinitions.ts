@@ -5,7 +5,7 @@
  * These types align with the backend field registry API specification.
  */
 
-import { DataType, Operator } from "./enums";
+import { DataType, Operator, RuleSetStatus, RuleStatus, RulesetEnvironment } from "./enums";
 
 // ============================================================================
 // Field Definition (Current State)
@@ -186,6 +186,45 @@ export interface NextFieldIdResponse {
   next_field_id: number;
 }
 
+// ============================================================================
+// Field Impact
+// ============================================================================
+
+/**
+ * A ruleset that includes a rule version referencing the field
+ */
+export interface FieldImpactRuleset {
+  ruleset_id: string;
+  name: string | null;
+  environment: RulesetEnvironment;
+  status: RuleSetStatus;
+}
+
+/**
+ * One rule version whose condition tree references the field
+ */
+export interface FieldImpactReference {
+  rule_id: string;
+  rule_name: string;
+  rule_version_id: string;
+  version: number;
+  status: RuleStatus;
+  /** Operators the version applies to the field directly */
+  operators: Operator[];
+  /** Whether the field is a group-by dimension of a velocity predicate */
+  velocity_group_by: boolean;
+  rulesets: FieldImpactRuleset[];
+}
+
+/**
+ * Response from the field impact endpoint
+ */
+export interface FieldImpactResponse {
+  field_key: string;
+  references: FieldImpactReference[];
+  generated_at: string;
+}
+
 // ============================================================================
 // Utility Types
 // ============================================================================
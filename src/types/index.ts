@@ -16,7 +16,10 @@ export * from "./review";
 export * from "./notes";
 export * from "./case";
 export * from "./worklist";
+export * from "./sla";
 export * from "./bulk";
+export * from "./savedView";
+export * from "./notification";
 
 // Ops Analyst Agent types
 export * from "./opsAnalyst";
@@ -40,14 +40,23 @@ export interface AnalystNote {
   updated_at: string;
 }
 
+/**
+ * Virus-scan state of an uploaded attachment; only CLEAN files can be opened
+ */
+export type AttachmentScanStatus = "PENDING" | "CLEAN" | "INFECTED" | "FAILED";
+
 /**
  * Note attachment reference
  */
 export interface NoteAttachment {
+  /** Absent on attachments recorded before uploads went through the portal */
+  attachment_id?: string;
   name: string;
   s3_key: string;
   content_type?: string;
   size_bytes?: number;
+  scan_status?: AttachmentScanStatus;
+  uploaded_at?: string;
 }
 
 /**
@@ -57,6 +66,8 @@ export interface NoteCreateRequest {
   note_type: NoteType;
   note_content: string;
   is_private?: boolean;
+  /** Usernames @mentioned in the content; each is notified */
+  mentions?: string[];
 }
 
 /**
@@ -65,6 +76,17 @@ export interface NoteCreateRequest {
 export interface NoteUpdateRequest {
   note_content?: string;
   note_type?: NoteType;
+  /** Usernames @mentioned in the new content; only newly mentioned users are notified */
+  mentions?: string[];
+}
+
+/**
+ * Attachment edits made alongside a note edit
+ */
+export interface NoteAttachmentChanges {
+  added: File[];
+  /** `attachment_id`s to delete */
+  removedIds: string[];
 }
 
 /**
@@ -78,6 +100,28 @@ export interface NotesListResponse {
   next_cursor?: string | null;
 }
 
+/**
+ * An analyst being @mentioned in someone else's note
+ */
+export interface NoteMention {
+  mention_id: string;
+  note_id: string;
+  transaction_id: string;
+  mentioned_user_id: string;
+  mentioned_by_id: string;
+  mentioned_by_name: string | null;
+  /** Start of the note content */
+  excerpt: string;
+  created_at: string;
+}
+
+/**
+ * Mentions of the current user, newest first
+ */
+export interface NoteMentionsResponse {
+  items: NoteMention[];
+}
+
 /**
  * Note type display configuration
  */
@@ -94,3 +138,16 @@ export const NOTE_TYPE_CONFIG: Record<NoteType, { label: string; color: string;
   LEGAL_HOLD: { label: "Legal Hold", color: "volcano" },
   INTERNAL_REVIEW: { label: "Internal Review", color: "gold" },
 };
+
+/**
+ * Scan status display configuration
+ */
+export const ATTACHMENT_SCAN_STATUS_CONFIG: Record<
+  AttachmentScanStatus,
+  { label: string; color: string }
+> = {
+  PENDING: { label: "Scanning", color: "processing" },
+  CLEAN: { label: "Clean", color: "success" },
+  INFECTED: { label: "Infected", color: "error" },
+  FAILED: { label: "Scan failed", color: "warning" },
+};
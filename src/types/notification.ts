@@ -0,0 +1,84 @@
+/**
+ * Notification Types
+ *
+ * In-app notifications for events that need an analyst's attention: work
+ * routed to them, approvals waiting on them, rejected submissions and
+ * critical AI recommendations.
+ */
+
+/**
+ * Event a notification reports
+ */
+export type NotificationType =
+  | "REVIEW_ASSIGNED"
+  | "REVIEW_ESCALATED"
+  | "APPROVAL_REQUESTED"
+  | "SUBMISSION_REJECTED"
+  | "CRITICAL_RECOMMENDATION"
+  | "NOTE_MENTION";
+
+export interface AppNotification {
+  notification_id: string;
+  type: NotificationType;
+  title: string;
+  message: string | null;
+  /** In-app path of the record the notification is about */
+  link: string;
+  /** Analyst whose action produced the notification; null for system events */
+  actor_id: string | null;
+  actor_name: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Newest first; `unread_count` covers all notifications, not just this page
+ */
+export interface NotificationListResponse {
+  items: AppNotification[];
+  unread_count: number;
+}
+
+/**
+ * Which notification types the user receives; disabled types are not created
+ */
+export type NotificationPreferences = Record<NotificationType, boolean>;
+
+/**
+ * Notification type display configuration, in preferences order
+ */
+export const NOTIFICATION_TYPE_CONFIG: Record<
+  NotificationType,
+  { label: string; description: string; color: string }
+> = {
+  REVIEW_ASSIGNED: {
+    label: "Assignment",
+    description: "A review is assigned to you by someone else",
+    color: "blue",
+  },
+  REVIEW_ESCALATED: {
+    label: "Escalation",
+    description: "A review is escalated to you",
+    color: "orange",
+  },
+  APPROVAL_REQUESTED: {
+    label: "Approval request",
+    description: "A submission is waiting for a checker's approval",
+    color: "purple",
+  },
+  SUBMISSION_REJECTED: {
+    label: "Rejected submission",
+    description: "A checker rejects something you submitted",
+    color: "red",
+  },
+  CRITICAL_RECOMMENDATION: {
+    label: "Critical recommendation",
+    description: "The ops agent raises a critical recommendation",
+    color: "magenta",
+  },
+  NOTE_MENTION: {
+    label: "Mention",
+    description: "Someone @mentions you in a note",
+    color: "geekblue",
+  },
+};
@@ -3,6 +3,8 @@
  * Mirrors app/schemas/v1/ from card-fraud-ops-analyst-agent
  */
 
+import type { ResolutionCode } from "./review";
+
 export type OpsAgentSeverity = "LOW" | "MEDIUM" | "HIGH" | "CRITICAL";
 export type OpsAgentRunMode = "quick" | "deep";
 export type OpsAgentRunStatus = "SUCCESS" | "FAILED" | "PARTIAL";
@@ -19,6 +21,8 @@ export interface RunInvestigationRequest {
 
 export interface InsightSummary {
   insight_id: string;
+  /** Investigation run that produced the insight */
+  run_id?: string | null;
   severity: OpsAgentSeverity;
   summary: string;
   generated_at: string;
@@ -39,6 +43,8 @@ export interface RecommendationDetail {
   payload: RecommendationPayload | Record<string, unknown>;
   acknowledged_by?: string | null;
   acknowledged_at?: string | null;
+  /** Rule created from this recommendation once it is EXPORTED */
+  exported_rule_id?: string | null;
   created_at?: string;
 }
 
@@ -58,8 +64,9 @@ export interface DetailResponse extends RunResponse {
   started_at: string;
   completed_at: string | null;
   error_summary: string | null;
+  /** Milliseconds per pipeline stage, in execution order */
   stage_durations: Record<string, number>;
-  evidence: Record<string, unknown>[];
+  evidence: EvidenceItem[];
 }
 
 export interface EvidenceItem {
@@ -71,6 +78,8 @@ export interface EvidenceItem {
 
 export interface InsightDetail {
   insight_id: string;
+  /** Investigation run that produced the insight */
+  run_id?: string | null;
   transaction_id: string;
   severity: OpsAgentSeverity;
   summary: string;
@@ -95,3 +104,77 @@ export interface AcknowledgeRequest {
   action: "ACKNOWLEDGED" | "REJECTED";
   comment?: string;
 }
+
+/**
+ * One predicate, or a nested group when `conditions` is set, in a rule-draft
+ * payload. Operators may be symbols (">=") or rule-engine names ("GTE").
+ */
+export interface RuleDraftCondition {
+  field?: string;
+  operator?: string;
+  value?: unknown;
+  logic?: "AND" | "OR";
+  conditions?: RuleDraftCondition[];
+}
+
+export interface RuleDraftPayload {
+  rule_name?: string;
+  rule_type?: string;
+  priority?: number;
+  logic?: "AND" | "OR";
+  conditions?: RuleDraftCondition[];
+  scope?: {
+    network?: string[];
+    bin?: string[];
+    mcc?: string[];
+    logo?: string[];
+  } | null;
+  rationale?: string;
+}
+
+export interface RuleDraftCreateRequest {
+  recommendation_id: string;
+}
+
+export interface RuleDraftResponse {
+  draft_id: string;
+  recommendation_id: string;
+  payload: RuleDraftPayload;
+  created_at: string;
+}
+
+export interface RuleDraftExportRequest {
+  /** Rule created from the draft; recorded on the recommendation as its backlink */
+  rule_id: string;
+}
+
+export interface RuleDraftExportResponse {
+  draft_id: string;
+  recommendation_id: string;
+  recommendation_status: OpsAgentRecommendationStatus;
+  rule_id: string;
+  exported_at: string;
+}
+
+/**
+ * One recommendation joined with the insight that produced it and the final
+ * review outcome of its transaction
+ */
+export interface RecommendationOutcome {
+  recommendation_id: string;
+  type: OpsAgentRecommendationType;
+  status: OpsAgentRecommendationStatus;
+  severity: OpsAgentSeverity;
+  model_mode: OpsAgentModelMode;
+  transaction_id: string;
+  /** Null while the transaction's review is still open */
+  resolution_code: ResolutionCode | null;
+  created_at: string;
+  acknowledged_at: string | null;
+}
+
+export interface RecommendationOutcomeListResponse {
+  outcomes: RecommendationOutcome[];
+  from: string;
+  to: string;
+}
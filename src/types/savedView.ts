@@ -0,0 +1,76 @@
+/**
+ * Saved View Types
+ *
+ * Named, server-persisted filter combinations over the worklist or the
+ * transaction list, optionally shared with the analyst's team.
+ */
+
+import type { TransactionFilters } from "./transaction";
+import type { WorklistFilters } from "./worklist";
+
+/**
+ * List a saved view opens
+ */
+export type SavedViewTarget = "worklist" | "transactions";
+
+/**
+ * Who can see a saved view; TEAM views are visible to the owner's whole team
+ */
+export type SavedViewVisibility = "PRIVATE" | "TEAM";
+
+/**
+ * Filters stored with a view; pagination and transient form state are not saved
+ */
+export type SavedWorklistFilters = Omit<WorklistFilters, "cursor" | "limit">;
+export type SavedTransactionFilters = Omit<
+  TransactionFilters,
+  "cursor" | "limit" | "date_range"
+> & {
+  /** Rolling date window; when set, `from_date` is recomputed each time the view is opened */
+  window_days?: number | null;
+};
+
+interface SavedViewBase {
+  id: string;
+  name: string;
+  description: string | null;
+  visibility: SavedViewVisibility;
+  /** Pinned by the current user; pinned views are listed first */
+  pinned: boolean;
+  owner_id: string;
+  owner_name: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SavedWorklistView extends SavedViewBase {
+  target: "worklist";
+  filters: SavedWorklistFilters;
+}
+
+export interface SavedTransactionView extends SavedViewBase {
+  target: "transactions";
+  filters: SavedTransactionFilters;
+}
+
+export type SavedView = SavedWorklistView | SavedTransactionView;
+
+export type SavedViewCreateRequest = Pick<
+  SavedView,
+  "name" | "description" | "visibility" | "pinned" | "target" | "filters"
+>;
+
+export type SavedViewUpdateRequest = Partial<SavedViewCreateRequest>;
+
+export interface SavedViewListResponse {
+  items: SavedView[];
+  total: number;
+}
+
+/**
+ * Current number of matching records per view, keyed by view id
+ */
+export interface SavedViewCountsResponse {
+  counts: Record<string, number>;
+  generated_at: string;
+}
@@ -0,0 +1,85 @@
+/**
+ * Review SLA Types
+ *
+ * Service-level targets for how long a review may stay open, and the
+ * compliance figures reported in the workflow metrics.
+ */
+
+import type { RiskLevel } from "./review";
+
+/**
+ * Time allowed to resolve a review. A review's target is the stricter of its
+ * priority target and its risk level target.
+ */
+export interface SlaPolicy {
+  /** Minutes allowed per priority (1 = Critical ... 5 = Minimal) */
+  priority_minutes: Record<string, number>;
+  /** Minutes allowed per risk level */
+  risk_minutes: Record<RiskLevel, number>;
+  /** A review is at risk once this percentage of its target or less remains */
+  at_risk_percent: number;
+  updated_at: string | null;
+  updated_by: string | null;
+}
+
+export type SlaPolicyUpdate = Partial<
+  Pick<SlaPolicy, "priority_minutes" | "risk_minutes" | "at_risk_percent">
+>;
+
+/**
+ * Where a review stands against its target. Open reviews are on track, at
+ * risk or breached; finished reviews either met the target or breached it.
+ */
+export type SlaState = "ON_TRACK" | "AT_RISK" | "BREACHED" | "MET";
+
+export interface SlaEvaluation {
+  state: SlaState;
+  target_minutes: number;
+  due_at: string;
+  /** Seconds until the target is breached; negative once it has been */
+  remaining_seconds: number;
+}
+
+/**
+ * Resolved reviews that met or breached their target, for one group
+ */
+export interface SlaComplianceBreakdown {
+  key: string;
+  met: number;
+  breached: number;
+  /** Share of resolved reviews that met the target, 0-1; null when none were resolved */
+  compliance_rate: number | null;
+}
+
+export interface SlaCompliance {
+  compliance_rate: number | null;
+  met: number;
+  breached: number;
+  /** Open reviews currently past their target */
+  open_breached: number;
+  /** Open reviews close to their target */
+  open_at_risk: number;
+  by_priority: SlaComplianceBreakdown[];
+  by_risk_level: SlaComplianceBreakdown[];
+}
+
+/**
+ * Response of the workflow metrics endpoint
+ */
+export interface WorkflowMetrics {
+  avg_review_time: string;
+  total_claimed_today: number;
+  total_resolved_today: number;
+  escalation_rate: number;
+  sla: SlaCompliance;
+}
+
+/**
+ * SLA state display configuration
+ */
+export const SLA_STATE_CONFIG: Record<SlaState, { label: string; color: string }> = {
+  ON_TRACK: { label: "On track", color: "default" },
+  AT_RISK: { label: "At risk", color: "orange" },
+  BREACHED: { label: "Breached", color: "red" },
+  MET: { label: "Met", color: "green" },
+};
@@ -51,6 +51,11 @@ export interface WorklistStats {
   avg_resolution_minutes: number;
 }
 
+/**
+ * Server-side worklist orderings; without one the queue is in priority order
+ */
+export type WorklistSort = "time_to_breach";
+
 /**
  * Worklist filters
  */
@@ -59,6 +64,7 @@ export interface WorklistFilters {
   priority_filter?: number | null;
   risk_level_filter?: RiskLevel | null;
   assigned_only?: boolean;
+  sort?: WorklistSort | null;
   limit?: number;
   cursor?: string | null;
 }
@@ -82,6 +88,55 @@ export interface WorklistResponse {
   next_cursor?: string | null;
 }
 
+/**
+ * One analyst's share of the team's reviews
+ */
+export interface AnalystWorkload {
+  analyst_id: string;
+  analyst_name: string;
+  /** Open reviews assigned to the analyst, highest priority first */
+  reviews: WorklistItem[];
+  by_status: Record<TransactionStatus, number>;
+  by_risk: Record<RiskLevel, number>;
+  resolved_count: number;
+  /** Mean minutes from assignment to resolution; null when nothing was resolved */
+  avg_resolution_minutes: number | null;
+  escalations: number;
+}
+
+/**
+ * Team workload for the supervisor dashboard
+ */
+export interface TeamWorkloadResponse {
+  analysts: AnalystWorkload[];
+  /** Open reviews nobody is assigned to, highest priority first */
+  unassigned: WorklistItem[];
+}
+
+/**
+ * Review change pushed on the worklist event stream
+ */
+export type WorklistEventType = "REVIEW_CREATED" | "REVIEW_ASSIGNED" | "REVIEW_STATUS_CHANGED";
+
+export interface WorklistEvent {
+  event_id: string;
+  type: WorklistEventType;
+  /** The review after the change */
+  item: WorklistItem;
+  /** Status and assignee before the change; null for REVIEW_CREATED */
+  previous: Pick<WorklistItem, "status" | "assigned_analyst_id"> | null;
+  /** Analyst whose action produced the event */
+  actor_id: string;
+  actor_name: string | null;
+  occurred_at: string;
+}
+
+/**
+ * How the worklist is kept current: streamed events, or polling while the
+ * stream is unavailable
+ */
+export type WorklistConnectionMode = "connecting" | "live" | "polling";
+
 /**
  * Priority display configuration
  */